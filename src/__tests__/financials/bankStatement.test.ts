@@ -0,0 +1,117 @@
+import { BankStatementError, parseBankStatement } from '@/lib/financials/bankStatement';
+
+describe('parseBankStatement (CSV)', () => {
+  it('keeps credits and maps date, amount, reference and description columns', () => {
+    const csv = [
+      'Value Date,Narration,Cheque No,Debit,Credit,Currency',
+      '01/07/2025,IBFT from Ali Khan,TX-100,,"1,500.00",pkr',
+      '02/07/2025,Bank charges,,25.00,,PKR',
+      '2025-07-03,Cash deposit,TX-101,,2000,',
+    ].join('\n');
+
+    const statement = parseBankStatement('statement.csv', csv);
+    expect(statement.format).toBe('csv');
+    expect(statement.lines).toEqual([
+      { line_number: 2, value_date: '2025-07-01', amount: 1500, currency: 'PKR', reference: 'TX-100', description: 'IBFT from Ali Khan' },
+      { line_number: 4, value_date: '2025-07-03', amount: 2000, currency: null, reference: 'TX-101', description: 'Cash deposit' },
+    ]);
+  });
+
+  it('falls back to a signed amount column and skips withdrawals', () => {
+    const csv = 'Date;Amount;Reference\n01.07.2025;1.234,56;A1\n02.07.2025;-50,00;A2';
+    const statement = parseBankStatement('export.txt', csv);
+    expect(statement.lines).toHaveLength(1);
+    expect(statement.lines[0]).toMatchObject({ value_date: '2025-07-01', amount: 1234.56, reference: 'A1' });
+  });
+
+  it('needs a date and an amount column', () => {
+    expect(() => parseBankStatement('statement.csv', 'Reference,Description\nA1,x')).toThrow(
+      'The CSV needs a date column and a credit or amount column.'
+    );
+  });
+
+  it('rejects a statement without deposits', () => {
+    expect(() => parseBankStatement('statement.csv', 'Date,Debit,Credit\n01/07/2025,10,')).toThrow(
+      'The statement has no deposits to reconcile.'
+    );
+  });
+
+  it('rejects unknown file types', () => {
+    expect(() => parseBankStatement('statement.pdf', '%PDF-1.7')).toThrow(BankStatementError);
+  });
+});
+
+describe('parseBankStatement (MT940)', () => {
+  const mt940 = [
+    ':20:STMT-1',
+    ':25:PK36SCBL0000001123456702',
+    ':28C:1/1',
+    ':60F:C250630PKR100000,00',
+    ':61:2507010701C1500,00NTRFTX-100//BANK-1',
+    ':86:IBFT?20Ali Khan?21Zakat',
+    ':61:2507020702D25,00NCHGNONREF',
+    ':86:Charges',
+    ':61:2507030703C2000,NTRFNONREF//BANK-2',
+    'Cash deposit',
+    ':61:2507040704RC300,00NTRFTX-102',
+    ':62F:C250731PKR103475,00',
+    '-',
+  ].join('\r\n');
+
+  it('reads account, currency and credit lines', () => {
+    const statement = parseBankStatement('statement.sta', mt940);
+    expect(statement.format).toBe('mt940');
+    expect(statement.account).toBe('PK36SCBL0000001123456702');
+    expect(statement.currency).toBe('PKR');
+    expect(statement.lines.map(({ value_date, amount, reference }) => ({ value_date, amount, reference }))).toEqual([
+      { value_date: '2025-07-01', amount: 1500, reference: 'TX-100' },
+      { value_date: '2025-07-03', amount: 2000, reference: 'BANK-2' },
+    ]);
+  });
+
+  it('adds :86: information and continuation lines to the description', () => {
+    const [first, second] = parseBankStatement('statement.940', mt940).lines;
+    expect(first.description).toBe('IBFT Ali Khan Zakat');
+    expect(second.description).toBe('Cash deposit');
+  });
+});
+
+describe('parseBankStatement (camt.053)', () => {
+  const camt = `<?xml version="1.0"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt><Stmt>
+    <Acct><Id><IBAN>PK36SCBL0000001123456702</IBAN></Id><Ccy>PKR</Ccy></Acct>
+    <Ntry>
+      <Amt Ccy="PKR">1500.00</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+      <BookgDt><Dt>2025-07-02</Dt></BookgDt><ValDt><Dt>2025-07-01</Dt></ValDt>
+      <NtryDtls><TxDtls><Refs><EndToEndId>TX-100</EndToEndId></Refs>
+        <RmtInf><Ustrd>Zakat</Ustrd><Ustrd>Ali &amp; Sons</Ustrd></RmtInf></TxDtls></NtryDtls>
+    </Ntry>
+    <Ntry>
+      <Amt Ccy="PKR">25.00</Amt><CdtDbtInd>DBIT</CdtDbtInd>
+      <BookgDt><Dt>2025-07-02</Dt></BookgDt>
+    </Ntry>
+    <Ntry>
+      <Amt Ccy="USD">100.00</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+      <BookgDt><DtTm>2025-07-03T10:00:00</DtTm></BookgDt>
+      <NtryDtls><TxDtls><Refs><EndToEndId>NOTPROVIDED</EndToEndId><TxId>BANK-7</TxId></Refs></TxDtls></NtryDtls>
+      <AddtlNtryInf>SWIFT inward</AddtlNtryInf>
+    </Ntry>
+    <Ntry>
+      <Amt Ccy="PKR">500.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><RvslInd>true</RvslInd>
+      <BookgDt><Dt>2025-07-04</Dt></BookgDt>
+    </Ntry>
+  </Stmt></BkToCstmrStmt>
+</Document>`;
+
+  it('reads the account and non-reversed credit entries', () => {
+    const statement = parseBankStatement('statement.xml', camt);
+    expect(statement.format).toBe('camt053');
+    expect(statement.account).toBe('PK36SCBL0000001123456702');
+    expect(statement.currency).toBe('PKR');
+    expect(statement.lines).toEqual([
+      { line_number: 1, value_date: '2025-07-01', amount: 1500, currency: 'PKR', reference: 'TX-100', description: 'Zakat Ali & Sons' },
+      { line_number: 3, value_date: '2025-07-03', amount: 100, currency: 'USD', reference: 'BANK-7', description: 'SWIFT inward' },
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  buildImportRows,
+  guessColumnMapping,
+  missingImportFields,
+  normalizeImportDate,
+  type ImportColumnMapping,
+} from '@/lib/financials/donationImport';
+
+const HEADERS = ['Donor No', 'Mobile', 'Amount (PKR)', 'Currency', 'Category', 'Programme', 'Payment Method', 'Type', 'Date', 'Ref'];
+
+describe('guessColumnMapping', () => {
+  it('maps common header names to import fields', () => {
+    expect(guessColumnMapping(HEADERS)).toEqual({
+      donor_number: 0,
+      phone: 1,
+      cnic: null,
+      amount: 2,
+      currency: 3,
+      category_name: 4,
+      project_name: 5,
+      mode_of_payment: 6,
+      donation_type: 7,
+      donation_date: 8,
+      transaction_id: 9,
+    });
+  });
+
+  it('prefers an exact header match over a partial one', () => {
+    const mapping = guessColumnMapping(['Donation Date Entered', 'Date']);
+    expect(mapping.donation_date).toBe(1);
+  });
+
+  it('does not map one column to two fields', () => {
+    const mapping = guessColumnMapping(['Donation Type']);
+    expect(mapping.donation_type).toBe(0);
+    expect(mapping.donation_date).toBeNull();
+  });
+});
+
+describe('missingImportFields', () => {
+  it('reports nothing for a complete mapping', () => {
+    expect(missingImportFields(guessColumnMapping(HEADERS))).toEqual([]);
+  });
+
+  it('lists missing required columns and asks for a donor identifier first', () => {
+    const mapping = { ...guessColumnMapping(HEADERS), donor_number: null, phone: null, amount: null };
+    expect(missingImportFields(mapping)).toEqual(['Donor Number, Phone or CNIC', 'Amount']);
+  });
+
+  it('accepts CNIC alone as the donor identifier', () => {
+    const mapping = { ...guessColumnMapping(HEADERS), donor_number: null, phone: null, cnic: 1 };
+    expect(missingImportFields(mapping)).toEqual([]);
+  });
+});
+
+describe('normalizeImportDate', () => {
+  it.each([
+    ['2025-7-1', '2025-07-01'],
+    ['2025-07-01T00:00:00', '2025-07-01'],
+    ['01/07/2025', '2025-07-01'],
+    ['1.7.2025', '2025-07-01'],
+    ['31-12-2024', '2024-12-31'],
+    ['45839', '2025-07-01'],
+    ['45839.75', '2025-07-01'],
+  ])('reads %s as %s', (input, expected) => {
+    expect(normalizeImportDate(input)).toBe(expected);
+  });
+
+  it('passes anything else through for the dry run to report', () => {
+    expect(normalizeImportDate(' July 1st ')).toBe('July 1st');
+  });
+});
+
+describe('buildImportRows', () => {
+  const mapping = guessColumnMapping(HEADERS);
+
+  it('maps cells to fields and normalises codes and dates', () => {
+    const [row] = buildImportRows(
+      [[' D-0001 ', '0300 1234567', '1500', 'pkr', 'Health', 'Clinic', 'Bank Transfer', 'sadaqah', '01/07/2025', 'TX-1']],
+      mapping
+    );
+    expect(row).toEqual({
+      row: 2,
+      donor_number: 'D-0001',
+      phone: '0300 1234567',
+      cnic: '',
+      amount: '1500',
+      currency: 'PKR',
+      category_name: 'Health',
+      project_name: 'Clinic',
+      mode_of_payment: 'BankTransfer',
+      donation_type: 'Sadqa',
+      donation_date: '2025-07-01',
+      transaction_id: 'TX-1',
+    });
+  });
+
+  it('numbers rows from 2 (the header is row 1) and leaves unknown values as typed', () => {
+    const rows = buildImportRows(
+      [
+        ['D-1', '', '10', '', '', '', 'card', 'Zakat', '2025-01-01', ''],
+        ['D-2', '', '20', '', '', '', 'Cheque', 'Fitrana', '2025-01-02', ''],
+      ],
+      mapping
+    );
+    expect(rows.map((r) => r.row)).toEqual([2, 3]);
+    expect(rows[0]).toMatchObject({ mode_of_payment: 'CreditCard', donation_type: 'Zakat' });
+    expect(rows[1]).toMatchObject({ mode_of_payment: 'Cheque', donation_type: 'Fitrana' });
+  });
+
+  it('returns empty strings for unmapped fields and short rows', () => {
+    const partial: ImportColumnMapping = { ...mapping, transaction_id: null };
+    const [row] = buildImportRows([['D-1']], partial);
+    expect(row.transaction_id).toBe('');
+    expect(row.amount).toBe('');
+  });
+});
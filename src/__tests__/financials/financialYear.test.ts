@@ -0,0 +1,90 @@
+import {
+  DEFAULT_FINANCIAL_YEAR_START_MONTH,
+  formatFinancialYear,
+  getFinancialYear,
+  getFinancialYearRange,
+  isFinancialYearStartMonth,
+} from '@/lib/financials/financialYear';
+
+// Local-time dates, as getFinancialYear reads the month in local time
+const date = (year: number, month: number, day: number) => new Date(year, month - 1, day);
+
+describe('getFinancialYear', () => {
+  it('defaults to a July start', () => {
+    expect(DEFAULT_FINANCIAL_YEAR_START_MONTH).toBe(7);
+    expect(getFinancialYear(date(2025, 6, 30))).toBe(2024);
+    expect(getFinancialYear(date(2025, 7, 1))).toBe(2025);
+  });
+
+  it('labels the year by the calendar year it starts in', () => {
+    expect(getFinancialYear(date(2026, 3, 31), 4)).toBe(2025);
+    expect(getFinancialYear(date(2026, 4, 1), 4)).toBe(2026);
+  });
+
+  it('matches the calendar year for a January start', () => {
+    expect(getFinancialYear(date(2025, 1, 1), 1)).toBe(2025);
+    expect(getFinancialYear(date(2025, 12, 31), 1)).toBe(2025);
+  });
+
+  it('handles a December start', () => {
+    expect(getFinancialYear(date(2025, 11, 30), 12)).toBe(2024);
+    expect(getFinancialYear(date(2025, 12, 1), 12)).toBe(2025);
+  });
+});
+
+describe('formatFinancialYear', () => {
+  it('shows both calendar years when the year spans two', () => {
+    expect(formatFinancialYear(2025)).toBe('2025-26');
+    expect(formatFinancialYear(2025, 4)).toBe('2025-26');
+  });
+
+  it('wraps the century in the short year', () => {
+    expect(formatFinancialYear(2099)).toBe('2099-00');
+    expect(formatFinancialYear(2008)).toBe('2008-09');
+  });
+
+  it('uses the plain year for a January start', () => {
+    expect(formatFinancialYear(2025, 1)).toBe('2025');
+  });
+});
+
+describe('getFinancialYearRange', () => {
+  it('runs from the first of the start month to the day before it a year later', () => {
+    expect(getFinancialYearRange(2025)).toEqual({ start: '2025-07-01', end: '2026-06-30' });
+    expect(getFinancialYearRange(2025, 4)).toEqual({ start: '2025-04-01', end: '2026-03-31' });
+  });
+
+  it('covers the calendar year for a January start', () => {
+    expect(getFinancialYearRange(2025, 1)).toEqual({ start: '2025-01-01', end: '2025-12-31' });
+  });
+
+  it('ends on the last day of February, leap years included', () => {
+    expect(getFinancialYearRange(2023, 3)).toEqual({ start: '2023-03-01', end: '2024-02-29' });
+    expect(getFinancialYearRange(2024, 3)).toEqual({ start: '2024-03-01', end: '2025-02-28' });
+  });
+
+  it('ends in November for a December start', () => {
+    expect(getFinancialYearRange(2025, 12)).toEqual({ start: '2025-12-01', end: '2026-11-30' });
+  });
+
+  it('agrees with getFinancialYear at both ends of the range', () => {
+    for (let month = 1; month <= 12; month++) {
+      const { start, end } = getFinancialYearRange(2025, month);
+      const [sy, sm, sd] = start.split('-').map(Number);
+      const [ey, em, ed] = end.split('-').map(Number);
+      expect(getFinancialYear(date(sy, sm, sd), month)).toBe(2025);
+      expect(getFinancialYear(date(ey, em, ed), month)).toBe(2025);
+      expect(getFinancialYear(date(ey, em, ed + 1), month)).toBe(2026);
+    }
+  });
+});
+
+describe('isFinancialYearStartMonth', () => {
+  it.each([1, 7, 12])('accepts %p', (value) => {
+    expect(isFinancialYearStartMonth(value)).toBe(true);
+  });
+
+  it.each([0, 13, 6.5, '7', null, undefined, NaN])('rejects %p', (value) => {
+    expect(isFinancialYearStartMonth(value)).toBe(false);
+  });
+});
@@ -0,0 +1,159 @@
+import { deflateRawSync } from 'zlib';
+import {
+  parseCSV,
+  parseSpreadsheet,
+  parseXLSX,
+  SpreadsheetError,
+  XLSX_MAX_UNCOMPRESSED_BYTES,
+} from '@/lib/financials/spreadsheet';
+
+// Builds a zip archive in memory (stored or deflated entries), enough for parseXLSX to read
+function buildZip(files: Record<string, string | Uint8Array>, { deflate = true } = {}): Uint8Array {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name, 'utf-8');
+    const raw = typeof content === 'string' ? Buffer.from(content, 'utf-8') : Buffer.from(content);
+    const data = deflate ? deflateRawSync(raw) : raw;
+    const method = deflate ? 8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(centralDirectory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...locals, centralDirectory, eocd]));
+}
+
+const WORKBOOK = '<workbook><sheets><sheet name="Donations" sheetId="1" r:id="rId1"/></sheets></workbook>';
+const WORKBOOK_RELS =
+  '<Relationships><Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/></Relationships>';
+const SHARED_STRINGS = '<sst><si><t>Donor Number</t></si><si><t>Amount</t></si><si><r><t>D-</t></r><r><t>0001</t></r></si></sst>';
+const SHEET =
+  '<worksheet><sheetData>' +
+  '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="inlineStr"><is><t>Notes</t></is></c></row>' +
+  '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2"><v>1500</v></c><c r="C2" t="inlineStr"><is><t>Rent &amp; bills</t></is></c></row>' +
+  '<row r="3"><c r="A3"/></row>' +
+  '<row r="4"><c r="C4" t="inlineStr"><is><t>Only notes</t></is></c></row>' +
+  '</sheetData></worksheet>';
+
+describe('parseCSV', () => {
+  it('splits rows and fields and drops empty rows', () => {
+    expect(parseCSV('a,b,c\r\n1,2,3\n\n,,\n4,5,6')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '2', '3'],
+      ['4', '5', '6'],
+    ]);
+  });
+
+  it('handles quoted fields with delimiters, escaped quotes and line breaks', () => {
+    expect(parseCSV('name,note\n"Khan, Ali","said ""thanks""\nand left"')).toEqual([
+      ['name', 'note'],
+      ['Khan, Ali', 'said "thanks"\nand left'],
+    ]);
+  });
+
+  it('detects semicolon-separated files from the header line', () => {
+    expect(parseCSV('Date;Amount;Note\n01/07/2025;1.500,00;a, b')).toEqual([
+      ['Date', 'Amount', 'Note'],
+      ['01/07/2025', '1.500,00', 'a, b'],
+    ]);
+  });
+
+  it('strips a UTF-8 byte order mark', () => {
+    expect(parseCSV('﻿Amount\n10')).toEqual([['Amount'], ['10']]);
+  });
+});
+
+describe('parseXLSX', () => {
+  const files = {
+    'xl/workbook.xml': WORKBOOK,
+    'xl/_rels/workbook.xml.rels': WORKBOOK_RELS,
+    'xl/sharedStrings.xml': SHARED_STRINGS,
+    'xl/worksheets/sheet1.xml': SHEET,
+  };
+
+  it('reads shared strings, inline strings and numbers from the first sheet', () => {
+    expect(parseXLSX(buildZip(files))).toEqual([
+      ['Donor Number', 'Amount', 'Notes'],
+      ['D-0001', '1500', 'Rent & bills'],
+      ['', '', 'Only notes'],
+    ]);
+  });
+
+  it('reads stored (uncompressed) entries', () => {
+    expect(parseXLSX(buildZip(files, { deflate: false }))[1]).toEqual(['D-0001', '1500', 'Rent & bills']);
+  });
+
+  it('follows the workbook relationship to the first sheet', () => {
+    const rows = parseXLSX(
+      buildZip({
+        'xl/workbook.xml': WORKBOOK,
+        'xl/_rels/workbook.xml.rels': WORKBOOK_RELS.replace('worksheets/sheet1.xml', 'worksheets/data.xml'),
+        'xl/worksheets/data.xml': '<worksheet><sheetData><row r="1"><c r="B1"><v>7</v></c></row></sheetData></worksheet>',
+      })
+    );
+    expect(rows).toEqual([['', '7']]);
+  });
+
+  it('rejects files that are not zip archives', () => {
+    expect(() => parseXLSX(new TextEncoder().encode('not a workbook'))).toThrow(SpreadsheetError);
+  });
+
+  it('rejects a workbook without a worksheet', () => {
+    expect(() => parseXLSX(buildZip({ 'xl/workbook.xml': WORKBOOK }))).toThrow('The workbook has no readable worksheet.');
+  });
+
+  it('rejects entries that expand past the size cap', () => {
+    const bomb = buildZip({
+      ...files,
+      'xl/worksheets/sheet1.xml': new Uint8Array(XLSX_MAX_UNCOMPRESSED_BYTES + 1),
+    });
+    expect(bomb.length).toBeLessThan(1024 * 1024);
+    expect(() => parseXLSX(bomb)).toThrow(/expands to more than/);
+  });
+
+  it('counts the cap across all entries', () => {
+    const half = new Uint8Array(XLSX_MAX_UNCOMPRESSED_BYTES / 2 + 1);
+    expect(() => parseXLSX(buildZip({ ...files, 'xl/styles.xml': half, 'xl/theme.xml': half }))).toThrow(SpreadsheetError);
+  });
+});
+
+describe('parseSpreadsheet', () => {
+  it('picks the reader from the file extension', () => {
+    expect(parseSpreadsheet('Donations.CSV', new TextEncoder().encode('a,b\n1,2'))).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+    expect(parseSpreadsheet('export.txt', new TextEncoder().encode('x'))).toEqual([['x']]);
+  });
+
+  it('rejects other file types', () => {
+    expect(() => parseSpreadsheet('donations.xls', new Uint8Array())).toThrow(SpreadsheetError);
+  });
+});
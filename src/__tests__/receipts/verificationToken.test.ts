@@ -0,0 +1,111 @@
+import { createHmac } from 'crypto';
+import {
+  createReceiptVerificationToken,
+  formatReceiptAmount,
+  getReceiptVerificationUrl,
+  isReceiptSigningConfigured,
+  RECEIPT_SIGNING_NOT_CONFIGURED,
+  verifyReceiptVerificationToken,
+} from '@/lib/receipts/verificationToken';
+
+const SECRET = 'test-receipt-secret';
+const DONATION_ID = '6f1c2a9e-1f4b-4c55-9a51-1d8e2b7c3a10';
+
+// Signs an arbitrary payload the way the module does, to build tokens it would not issue itself
+const signPayload = (payload: unknown, secret = SECRET) => {
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${createHmac('sha256', secret).update(encoded).digest('base64url')}`;
+};
+
+describe('receipt verification tokens', () => {
+  const originalSecret = process.env.RECEIPT_VERIFICATION_SECRET;
+  const originalAppUrl = process.env.NEXT_PUBLIC_APP_URL;
+
+  beforeEach(() => {
+    process.env.RECEIPT_VERIFICATION_SECRET = SECRET;
+  });
+
+  afterAll(() => {
+    // Assigning undefined to process.env stores the string "undefined"
+    if (originalSecret === undefined) delete process.env.RECEIPT_VERIFICATION_SECRET;
+    else process.env.RECEIPT_VERIFICATION_SECRET = originalSecret;
+    if (originalAppUrl === undefined) delete process.env.NEXT_PUBLIC_APP_URL;
+    else process.env.NEXT_PUBLIC_APP_URL = originalAppUrl;
+  });
+
+  it('round-trips the signed payload', () => {
+    const token = createReceiptVerificationToken({
+      donation_id: DONATION_ID,
+      amount: 1500,
+      currency: 'USD',
+      receipt_number: 'RCPT-2025-000123',
+    });
+    expect(verifyReceiptVerificationToken(token)).toEqual({
+      v: 1,
+      donation_id: DONATION_ID,
+      amount: '1500.00',
+      currency: 'USD',
+      receipt_number: 'RCPT-2025-000123',
+    });
+  });
+
+  it('defaults the currency to PKR and omits a missing receipt number', () => {
+    const payload = verifyReceiptVerificationToken(createReceiptVerificationToken({ donation_id: DONATION_ID, amount: '99.5' }));
+    expect(payload).toEqual({ v: 1, donation_id: DONATION_ID, amount: '99.50', currency: 'PKR' });
+  });
+
+  it('rejects a token whose payload was changed', () => {
+    const token = createReceiptVerificationToken({ donation_id: DONATION_ID, amount: 1500 });
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ v: 1, donation_id: DONATION_ID, amount: '15000.00', currency: 'PKR' })).toString('base64url');
+    expect(verifyReceiptVerificationToken(`${forged}.${signature}`)).toBeNull();
+  });
+
+  it('rejects a token whose signature was changed', () => {
+    const token = createReceiptVerificationToken({ donation_id: DONATION_ID, amount: 1500 });
+    const last = token.slice(-1);
+    expect(verifyReceiptVerificationToken(token.slice(0, -1) + (last === 'A' ? 'B' : 'A'))).toBeNull();
+  });
+
+  it('rejects a token signed with another secret', () => {
+    const token = createReceiptVerificationToken({ donation_id: DONATION_ID, amount: 1500 });
+    process.env.RECEIPT_VERIFICATION_SECRET = 'rotated-secret';
+    expect(verifyReceiptVerificationToken(token)).toBeNull();
+  });
+
+  it('rejects a correctly signed payload with another version', () => {
+    expect(verifyReceiptVerificationToken(signPayload({ v: 2, donation_id: DONATION_ID, amount: '1.00', currency: 'PKR' }))).toBeNull();
+  });
+
+  it('rejects a correctly signed payload missing the donation or amount', () => {
+    expect(verifyReceiptVerificationToken(signPayload({ v: 1, amount: '1.00', currency: 'PKR' }))).toBeNull();
+    expect(verifyReceiptVerificationToken(signPayload({ v: 1, donation_id: DONATION_ID, currency: 'PKR' }))).toBeNull();
+  });
+
+  it.each(['', 'abc', 'a.b.c', '.sig', 'payload.', 'bm90IGpzb24.c2ln'])('rejects malformed token %p', (token) => {
+    expect(verifyReceiptVerificationToken(token)).toBeNull();
+  });
+
+  it('rejects a correctly signed payload that is not JSON', () => {
+    const encoded = Buffer.from('not json').toString('base64url');
+    const token = `${encoded}.${createHmac('sha256', SECRET).update(encoded).digest('base64url')}`;
+    expect(verifyReceiptVerificationToken(token)).toBeNull();
+  });
+
+  it('refuses to sign without a secret', () => {
+    delete process.env.RECEIPT_VERIFICATION_SECRET;
+    expect(isReceiptSigningConfigured()).toBe(false);
+    expect(() => createReceiptVerificationToken({ donation_id: DONATION_ID, amount: 1 })).toThrow(RECEIPT_SIGNING_NOT_CONFIGURED);
+  });
+
+  it('formats printed amounts to two decimals', () => {
+    expect(formatReceiptAmount(1500)).toBe('1500.00');
+    expect(formatReceiptAmount('12.345')).toBe('12.35');
+    expect(formatReceiptAmount(undefined)).toBe('0.00');
+  });
+
+  it('builds the public verification URL without a double slash', () => {
+    process.env.NEXT_PUBLIC_APP_URL = 'https://example.org/';
+    expect(getReceiptVerificationUrl('abc.def')).toBe('https://example.org/verify/receipt/abc.def');
+  });
+});
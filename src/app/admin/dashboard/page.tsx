@@ -1,6 +1,6 @@
 "use client";
 
-import { Users, Coins, Heart, Shield } from "lucide-react";
+import { Users, Coins, Heart, Shield, Package } from "lucide-react";
 import { useState, useEffect } from "react";
 import { toast } from "sonner";
 import { logger } from "@/lib/utils/logger";
@@ -12,6 +12,7 @@ export default function AdminDashboardPage() {
   const [metrics, setMetrics] = useState([
     { title: "Total Donors", value: "-", icon: <Heart className="h-5 w-5" />, accent: "rose" as const, subtext: "Loading..." },
     { title: "Total Donations", value: "-", icon: <Coins className="h-5 w-5" />, accent: "amber" as const, subtext: "Loading..." },
+    { title: "In-Kind Donations", value: "-", icon: <Package className="h-5 w-5" />, accent: "amber" as const, subtext: "Loading..." },
     { title: "Total Volunteers", value: "56", icon: <Users className="h-5 w-5" />, accent: "blue" as const, subtext: "Active volunteers" },
     { title: "Total Members", value: "34", icon: <Shield className="h-5 w-5" />, accent: "green" as const, subtext: "Registered members" },
   ]);
@@ -55,7 +56,21 @@ export default function AdminDashboardPage() {
               case 'Total Donors':
                 return { ...m, value: Number(donorsData.totalDonors ?? 0).toLocaleString(), subtext: 'Registered donors' };
               case 'Total Donations':
-                return { ...m, value: `PKR ${Number(donationsData.total_donations ?? 0).toLocaleString()}`, subtext: 'All time' };
+                return {
+                  ...m,
+                  value: `PKR ${Number(donationsData.total_donations ?? 0).toLocaleString()}`,
+                  subtext: Array.isArray(donationsData.by_fund) && donationsData.by_fund.length > 0
+                    ? donationsData.by_fund
+                        .map((f: { fund: string; received: number }) => `${f.fund} ${Number(f.received).toLocaleString()}`)
+                        .join(' · ')
+                    : 'Cash, all time',
+                };
+              case 'In-Kind Donations':
+                return {
+                  ...m,
+                  value: `PKR ${Number(donationsData.in_kind?.total_value ?? 0).toLocaleString()}`,
+                  subtext: `${Number(donationsData.in_kind?.count ?? 0).toLocaleString()} donations of goods (estimated value)`,
+                };
               case 'Total Volunteers':
                 return { ...m, value: Number(volunteersData.totalVolunteers ?? 0).toLocaleString(), subtext: 'Active volunteers' };
               case 'Total Members':
@@ -88,7 +103,7 @@ export default function AdminDashboardPage() {
       </div>
 
       {/* Metrics Grid */}
-      <section className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+      <section className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5">
         {metrics.map((m) => (
           <MetricCard 
             key={m.title} 
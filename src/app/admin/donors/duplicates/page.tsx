@@ -0,0 +1,283 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Merge } from "lucide-react";
+import { toast } from "sonner";
+import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+
+type DuplicatePair = {
+  donor_a_id: string;
+  donor_a_number: string;
+  donor_a_name: string | null;
+  donor_a_phone: string | null;
+  donor_a_email: string | null;
+  donor_a_has_account: boolean;
+  donor_a_donation_count: number;
+  donor_b_id: string;
+  donor_b_number: string;
+  donor_b_name: string | null;
+  donor_b_phone: string | null;
+  donor_b_email: string | null;
+  donor_b_has_account: boolean;
+  donor_b_donation_count: number;
+  score: number;
+  reasons: string[];
+};
+
+type DonorMerge = {
+  merge_id: string;
+  surviving_donor_number: string;
+  surviving_donor_name: string | null;
+  merged_donor_number: string;
+  merged_donor_name: string | null;
+  reason: string;
+  moved_donation_count: number;
+  moved_request_count: number;
+  moved_pledge_count: number;
+  dropped_statement_years: number[];
+  merged_by_name: string | null;
+  merged_at: string;
+};
+
+type Side = { id: string; number: string; name: string | null; phone: string | null; email: string | null; hasAccount: boolean; donations: number };
+
+const sides = (p: DuplicatePair): [Side, Side] => [
+  { id: p.donor_a_id, number: p.donor_a_number, name: p.donor_a_name, phone: p.donor_a_phone, email: p.donor_a_email, hasAccount: p.donor_a_has_account, donations: Number(p.donor_a_donation_count) },
+  { id: p.donor_b_id, number: p.donor_b_number, name: p.donor_b_name, phone: p.donor_b_phone, email: p.donor_b_email, hasAccount: p.donor_b_has_account, donations: Number(p.donor_b_donation_count) },
+];
+
+const MIN_SCORES = [25, 40, 55, 75];
+
+export default function DuplicateDonorsPage() {
+  const router = useRouter();
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [merges, setMerges] = useState<DonorMerge[]>([]);
+  const [minScore, setMinScore] = useState(40);
+  const [loading, setLoading] = useState(true);
+  const [merging, setMerging] = useState<string | null>(null);
+
+  const loadDuplicates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/financials/donors/duplicates?min_score=${minScore}`, {
+        credentials: "include",
+        headers: { "Cache-Control": "no-cache" },
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to look for duplicate donors");
+      }
+      setPairs(data.pairs || []);
+      setMerges(data.merges || []);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setLoading(false);
+    }
+  }, [minScore]);
+
+  useEffect(() => {
+    loadDuplicates();
+  }, [loadDuplicates]);
+
+  const handleMerge = async (keep: Side, remove: Side) => {
+    const reason = prompt(
+      `Merge ${remove.number} into ${keep.number}? ${remove.donations} donation(s) move to ${keep.number} and ${remove.number} is deleted.\n\nEnter the reason:`
+    );
+    if (!reason) return;
+
+    setMerging(`${keep.id}:${remove.id}`);
+    const t = toast.loading(`Merging ${remove.number} into ${keep.number}...`);
+    try {
+      const res = await fetchWithCSRF("/api/admin/financials/donors/merge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ surviving_donor_id: keep.id, merged_donor_id: remove.id, reason }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to merge donors");
+      }
+      if (data.warning) {
+        toast.warning(`Merged into ${keep.number}. ${data.warning}`, { id: t });
+      } else {
+        toast.success(`Merged into ${keep.number}; ${data.receipts_regenerated} receipt(s) regenerated`, { id: t });
+      }
+      await loadDuplicates();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg, { id: t });
+    } finally {
+      setMerging(null);
+    }
+  };
+
+  const renderSide = (side: Side) => (
+    <div>
+      <div className="font-medium text-gray-900">{side.name || "Unknown Name"}</div>
+      <div className="text-xs text-gray-600">Donor ID: {side.number}</div>
+      <div className="text-xs text-gray-600">{[side.phone, side.email].filter(Boolean).join(" · ") || "No contact details"}</div>
+      <div className="mt-1 text-xs text-gray-500">
+        {side.donations} donation(s) · {side.hasAccount ? "Portal account" : "No portal account"}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6 pt-2">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-gray-900">Duplicate Donors</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Donors matched on CNIC/NTN, phone, name and address. Merging moves donations, requests and pledges to the
+            donor you keep and regenerates their receipts with that donor ID.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => router.back()}>Back</Button>
+      </div>
+
+      <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <div className="mb-4 flex items-end justify-between gap-4">
+          <h2 className="text-lg font-semibold text-gray-900">Likely duplicates</h2>
+          <div className="w-48">
+            <Label htmlFor="min_score">Minimum score</Label>
+            <select
+              id="min_score"
+              className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+              value={minScore}
+              onChange={(e) => setMinScore(Number(e.target.value))}
+            >
+              {MIN_SCORES.map((s) => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Score</TableHead>
+                <TableHead>Donor</TableHead>
+                <TableHead>Possible duplicate</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="h-24 text-center">
+                    <Loader2 className="mx-auto h-5 w-5 animate-spin" />
+                  </TableCell>
+                </TableRow>
+              ) : pairs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="h-24 text-center">
+                    No likely duplicates at this score.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                pairs.map((p) => {
+                  const [a, b] = sides(p);
+                  const busy = merging === `${a.id}:${b.id}` || merging === `${b.id}:${a.id}`;
+                  return (
+                    <TableRow key={`${a.id}:${b.id}`}>
+                      <TableCell>
+                        <Badge variant={p.score >= 75 ? "destructive" : "secondary"}>{p.score}</Badge>
+                        <div className="mt-1 text-xs text-gray-500">{p.reasons.join(", ")}</div>
+                      </TableCell>
+                      <TableCell>{renderSide(a)}</TableCell>
+                      <TableCell>{renderSide(b)}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-col gap-2">
+                          <Button size="sm" variant="outline" disabled={merging !== null} onClick={() => handleMerge(a, b)}>
+                            {busy ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Merge className="mr-1 h-4 w-4" />}
+                            Keep {a.number}
+                          </Button>
+                          <Button size="sm" variant="outline" disabled={merging !== null} onClick={() => handleMerge(b, a)}>
+                            <Merge className="mr-1 h-4 w-4" />
+                            Keep {b.number}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        <p className="mt-2 text-xs text-gray-500">
+          Scores: CNIC/NTN 50, phone 30, name 25, address 15. If both donors have a portal account, only the kept
+          donor&apos;s account keeps donor access.
+        </p>
+      </section>
+
+      <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <h2 className="mb-4 text-lg font-semibold text-gray-900">Recent merges</h2>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Kept</TableHead>
+                <TableHead>Merged</TableHead>
+                <TableHead>Moved</TableHead>
+                <TableHead>Reason</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {merges.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-16 text-center">
+                    {loading ? "Loading..." : "No donors have been merged yet."}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                merges.map((m) => (
+                  <TableRow key={m.merge_id}>
+                    <TableCell className="text-sm">
+                      {new Date(m.merged_at).toLocaleDateString()}
+                      <div className="text-xs text-gray-500">by {m.merged_by_name || "an admin"}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {m.surviving_donor_number}
+                      {m.surviving_donor_name && <div className="text-xs text-gray-500">{m.surviving_donor_name}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {m.merged_donor_number}
+                      {m.merged_donor_name && <div className="text-xs text-gray-500">{m.merged_donor_name}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {m.moved_donation_count} donation(s), {m.moved_request_count} request(s), {m.moved_pledge_count} pledge(s)
+                      {m.dropped_statement_years.length > 0 && (
+                        <div className="text-xs text-amber-700">
+                          Regenerate statements for {m.dropped_statement_years.join(", ")}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{m.reason}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DONOR_TYPES, isValidCnic, isValidNtn } from "@/lib/financials/donors";
+
+const donorSchema = z.object({
+  donor_type: z.enum(DONOR_TYPES),
+  full_name: z.string().trim().optional(),
+  organisation_name: z.string().trim().optional(),
+  ntn: z.string().trim().optional(),
+  contact_person: z.string().trim().optional(),
+  email: z.union([z.literal(""), z.string().trim().email("Invalid email address")]).optional(),
+  phone_number: z.string().trim().optional(),
+  cnic_number: z.string().trim().optional(),
+  street: z.string().trim().optional(),
+  city: z.string().trim().optional(),
+  country: z.string().trim().optional(),
+}).superRefine((values, ctx) => {
+  if (values.donor_type === "Organisation") {
+    if (!values.organisation_name) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["organisation_name"], message: "Organisation name is required" });
+    }
+    if (values.ntn && !isValidNtn(values.ntn)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["ntn"], message: "NTN must be 8 digits, e.g. 1234567-8" });
+    }
+  } else if (!values.full_name) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["full_name"], message: "Name is required" });
+  }
+  if (values.cnic_number && !isValidCnic(values.cnic_number)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["cnic_number"], message: "CNIC must be 13 digits" });
+  }
+});
+
+type DonorFormData = z.infer<typeof donorSchema>;
+
+export default function NewDonorPage() {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [created, setCreated] = useState<{ donor_number: string; name: string } | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    reset,
+    formState: { errors },
+  } = useForm<DonorFormData>({
+    resolver: zodResolver(donorSchema),
+    defaultValues: { donor_type: "Individual", country: "Pakistan" },
+  });
+
+  const isOrganisation = watch("donor_type") === "Organisation";
+
+  const onSubmit = async (values: DonorFormData) => {
+    setIsSubmitting(true);
+    const t = toast.loading("Creating donor...");
+    try {
+      const res = await fetchWithCSRF("/api/admin/financials/donors", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          donor_type: values.donor_type,
+          full_name: isOrganisation ? null : values.full_name,
+          organisation_name: isOrganisation ? values.organisation_name : null,
+          ntn: isOrganisation ? values.ntn : null,
+          contact_person: isOrganisation ? values.contact_person : null,
+          email: values.email,
+          phone_number: values.phone_number,
+          cnic_number: values.cnic_number,
+          address: { street: values.street, city: values.city, country: values.country },
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to create donor");
+      }
+
+      toast.success(`Donor ${data.donor?.donor_number} created`, { id: t });
+      setCreated({
+        donor_number: data.donor?.donor_number,
+        name: (isOrganisation ? values.organisation_name : values.full_name) || "",
+      });
+      reset({ donor_type: values.donor_type, country: values.country });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg, { id: t });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 pt-2">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-gray-900">Add Donor</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Record a walk-in donor or an organisation that has no portal account. The record can be linked to an
+            account later if the donor signs up.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => router.back()}>Back</Button>
+      </div>
+
+      {created && (
+        <div className="rounded-lg border border-green-200 bg-green-50 p-4 text-sm text-green-800">
+          {created.name} was added as donor <span className="font-semibold">{created.donor_number}</span>.{" "}
+          <a href="/admin/financials/donations/new" className="font-medium text-blue-600 hover:underline">
+            Record a donation
+          </a>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div>
+            <Label htmlFor="donor_type">Donor type</Label>
+            <select
+              id="donor_type"
+              className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+              {...register("donor_type")}
+            >
+              <option value="Individual">Individual</option>
+              <option value="Organisation">Organisation</option>
+            </select>
+          </div>
+
+          {isOrganisation ? (
+            <>
+              <div>
+                <Label htmlFor="organisation_name">Company / organisation name</Label>
+                <Input id="organisation_name" className="mt-2" {...register("organisation_name")} />
+                {errors.organisation_name && <p className="mt-1 text-sm text-red-600">{errors.organisation_name.message}</p>}
+              </div>
+              <div>
+                <Label htmlFor="ntn">NTN</Label>
+                <Input id="ntn" className="mt-2" placeholder="1234567-8" {...register("ntn")} />
+                {errors.ntn && <p className="mt-1 text-sm text-red-600">{errors.ntn.message}</p>}
+              </div>
+              <div>
+                <Label htmlFor="contact_person">Contact person</Label>
+                <Input id="contact_person" className="mt-2" {...register("contact_person")} />
+              </div>
+            </>
+          ) : (
+            <>
+              <div>
+                <Label htmlFor="full_name">Full name</Label>
+                <Input id="full_name" className="mt-2" {...register("full_name")} />
+                {errors.full_name && <p className="mt-1 text-sm text-red-600">{errors.full_name.message}</p>}
+              </div>
+              <div>
+                <Label htmlFor="cnic_number">CNIC (optional)</Label>
+                <Input id="cnic_number" className="mt-2" placeholder="12345-1234567-1" {...register("cnic_number")} />
+                {errors.cnic_number && <p className="mt-1 text-sm text-red-600">{errors.cnic_number.message}</p>}
+              </div>
+            </>
+          )}
+
+          <div>
+            <Label htmlFor="phone_number">Phone</Label>
+            <Input id="phone_number" className="mt-2" {...register("phone_number")} />
+          </div>
+          <div>
+            <Label htmlFor="email">Email (optional)</Label>
+            <Input id="email" type="email" className="mt-2" {...register("email")} />
+            {errors.email && <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>}
+          </div>
+
+          <div className="md:col-span-2">
+            <Label htmlFor="street">Address</Label>
+            <Input id="street" className="mt-2" {...register("street")} />
+          </div>
+          <div>
+            <Label htmlFor="city">City</Label>
+            <Input id="city" className="mt-2" {...register("city")} />
+          </div>
+          <div>
+            <Label htmlFor="country">Country</Label>
+            <Input id="country" className="mt-2" {...register("country")} />
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-end">
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Creating..." : "Create donor"}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
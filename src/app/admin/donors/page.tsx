@@ -5,10 +5,12 @@ import { Users, Heart, Clock, TrendingUp, DollarSign, Loader2, CheckCircle2, XCi
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Search, Plus } from "lucide-react";
+import { Search, Plus, Link2 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import MetricCard from "@/components/admin/MetricCard";
 import { logger } from "@/lib/utils/logger";
+import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import type { DonorSearchResult } from "@/lib/financials/donors";
 import {
   Table,
   TableBody,
@@ -28,8 +30,17 @@ interface TransformedRequest {
   email: string;
 }
 
+type DonorMetric = {
+  title: string;
+  value: string;
+  icon: React.ReactNode;
+  accent: "blue" | "green" | "amber" | "rose";
+  isLoading: boolean;
+  subtext?: string;
+};
+
 // Initial metrics data with loading state
-const initialDonorMetrics = [
+const initialDonorMetrics: DonorMetric[] = [
   { 
     title: "Total Donors", 
     value: "-", 
@@ -68,7 +79,7 @@ export default function DonorsPage() {
     const fetchMetrics = async () => {
       try {
         setIsLoadingMetrics(true);
-        const [donorsRes, donationsRes] = await Promise.all([
+        const [donorsRes, donationsRes, campaignsRes] = await Promise.all([
           fetch('/api/donors/metrics'),
           fetch('/api/admin/metrics/total-donations', {
             headers: {
@@ -76,22 +87,43 @@ export default function DonorsPage() {
               'Pragma': 'no-cache',
             },
           }),
+          fetch('/api/admin/metrics/active-campaigns', {
+            headers: {
+              'Cache-Control': 'no-cache',
+              'Pragma': 'no-cache',
+            },
+          }),
         ]);
         if (!donorsRes.ok) {
           throw new Error('Failed to fetch donor metrics');
         }
         const data = await donorsRes.json();
         const donationsData = donationsRes.ok ? await donationsRes.json() : { total_donations: 0 };
+        const campaignsData = campaignsRes.ok ? await campaignsRes.json() : null;
         setMetrics(prevMetrics => 
-          prevMetrics.map(m => ({
-            ...m,
-            value: m.title === 'Total Donors' 
-              ? data.totalDonors.toLocaleString() 
-              : (m.title === 'Total Donations' 
-                  ? `PKR ${Number(donationsData.total_donations ?? 0).toLocaleString()}`
-                  : m.value),
-            isLoading: false
-          }))
+          prevMetrics.map(m => {
+            if (m.title === 'Active Campaigns') {
+              return {
+                ...m,
+                value: campaignsData ? Number(campaignsData.active_campaigns ?? 0).toLocaleString() : 'Error',
+                subtext: campaignsData
+                  ? (campaignsData.active_campaigns > 0
+                      ? `PKR ${Number(campaignsData.raised ?? 0).toLocaleString()} of ${Number(campaignsData.goal ?? 0).toLocaleString()} raised`
+                      : 'No campaign running')
+                  : 'Failed to load',
+                isLoading: false
+              };
+            }
+            return {
+              ...m,
+              value: m.title === 'Total Donors' 
+                ? data.totalDonors.toLocaleString() 
+                : (m.title === 'Total Donations' 
+                    ? `PKR ${Number(donationsData.total_donations ?? 0).toLocaleString()}`
+                    : m.value),
+              isLoading: false
+            };
+          })
         );
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
@@ -260,6 +292,60 @@ export default function DonorsPage() {
     }
   };
 
+  // Donor records, including donors recorded without a portal account
+  const [donorQuery, setDonorQuery] = useState('');
+  const [donorResults, setDonorResults] = useState<DonorSearchResult[]>([]);
+  const [isSearchingDonors, setIsSearchingDonors] = useState(false);
+
+  const searchDonors = useCallback(async (q: string) => {
+    if (q.trim().length < 2) {
+      setDonorResults([]);
+      return;
+    }
+    setIsSearchingDonors(true);
+    try {
+      const res = await fetch(`/api/admin/financials/donors/search?q=${encodeURIComponent(q.trim())}`, {
+        credentials: 'include',
+      });
+      const data = await res.json().catch(() => ({ results: [] }));
+      if (!res.ok) {
+        throw new Error(data?.error || 'Donor search failed');
+      }
+      setDonorResults(Array.isArray(data?.results) ? data.results : []);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Donor search failed');
+    } finally {
+      setIsSearchingDonors(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => searchDonors(donorQuery), 300);
+    return () => clearTimeout(timer);
+  }, [donorQuery, searchDonors]);
+
+  const handleLinkAccount = async (donor: DonorSearchResult) => {
+    const email = prompt(`Email of the portal account to link to ${donor.full_name || donor.donor_number}:`);
+    if (!email) return;
+    const t = toast.loading('Linking account...');
+    try {
+      const res = await fetchWithCSRF(`/api/admin/financials/donors/${donor.donor_id}/link-account`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ email }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || 'Failed to link account');
+      }
+      toast.success(`Donor ${donor.donor_number} is now linked to ${email}`, { id: t });
+      await searchDonors(donorQuery);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to link account', { id: t });
+    }
+  };
+
   const filteredRequests = requests.filter(request =>
     request.full_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     request.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -283,6 +369,7 @@ export default function DonorsPage() {
             icon={metric.icon}
             accent={metric.accent}
             isLoading={metric.isLoading}
+            subtext={metric.subtext}
           />
         ))}
       </section>
@@ -299,10 +386,16 @@ export default function DonorsPage() {
             onChange={(e) => setSearchTerm(e.target.value)}
           />
         </div>
-        <Button className="ml-4" onClick={() => router.push('/admin/donors/new')}>
-          <Plus className="mr-2 h-4 w-4" />
-          Add Donor
-        </Button>
+        <div className="ml-4 flex gap-2">
+          <Button variant="outline" onClick={() => router.push('/admin/donors/duplicates')}>
+            <Users className="mr-2 h-4 w-4" />
+            Find Duplicates
+          </Button>
+          <Button onClick={() => router.push('/admin/donors/new')}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Donor
+          </Button>
+        </div>
       </div>
 
       {/* Requests Table */}
@@ -390,6 +483,90 @@ export default function DonorsPage() {
           </TableBody>
         </Table>
       </div>
+
+      {/* Donor Records */}
+      <section className="space-y-3 pt-2">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Donor Records</h2>
+          <p className="text-sm text-gray-600">
+            Find a donor by name, organisation, phone, CNIC/NTN or donor number. Donors added without an account can be
+            linked to one once they sign up; their donation history moves with them.
+          </p>
+        </div>
+        <div className="relative max-w-md">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+          <Input
+            type="search"
+            placeholder="Search donor records..."
+            className="pl-9"
+            value={donorQuery}
+            onChange={(e) => setDonorQuery(e.target.value)}
+          />
+        </div>
+        {donorQuery.trim().length >= 2 && (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Donor ID</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Portal account</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isSearchingDonors && donorResults.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-16 text-center">
+                      <Loader2 className="mx-auto h-5 w-5 animate-spin" />
+                    </TableCell>
+                  </TableRow>
+                ) : donorResults.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-16 text-center">No donors found.</TableCell>
+                  </TableRow>
+                ) : (
+                  donorResults.map((donor) => (
+                    <TableRow key={donor.donor_id}>
+                      <TableCell className="font-medium">{donor.donor_number}</TableCell>
+                      <TableCell>
+                        {donor.full_name || 'Unknown Name'}
+                        {donor.donor_type === 'Organisation' && (donor.ntn || donor.contact_person) && (
+                          <div className="text-xs text-gray-500">
+                            {[donor.ntn && `NTN ${donor.ntn}`, donor.contact_person && `Contact: ${donor.contact_person}`]
+                              .filter(Boolean)
+                              .join(' · ')}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{donor.donor_type}</TableCell>
+                      <TableCell className="text-sm">
+                        <div>{donor.phone_number || '-'}</div>
+                        {donor.email && <div className="text-xs text-gray-500">{donor.email}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={donor.has_account ? 'default' : 'outline'}>
+                          {donor.has_account ? 'Linked' : 'No account'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {!donor.has_account && (
+                          <Button variant="outline" size="sm" onClick={() => handleLinkAccount(donor)}>
+                            <Link2 className="mr-2 h-4 w-4" />
+                            Link account
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </section>
     </div>
   );
 }
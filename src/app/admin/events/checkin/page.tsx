@@ -0,0 +1,333 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Camera, CameraOff, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import type { AttendanceScanResult } from "@/lib/volunteers/checkin";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type EventOption = {
+  event_id: string;
+  event_name: string;
+  event_status: "active" | "completed" | "cancelled";
+  start_date: string | null;
+  end_date: string | null;
+};
+
+// Row of get_event_attendance
+type AttendanceRow = {
+  attendance_id: string;
+  volunteer_number: string | null;
+  full_name: string;
+  checked_in_at: string;
+  checked_out_at: string | null;
+  counted_until: string | null;
+  minutes: number | null;
+  volunteer_activity_request_id: string | null;
+  request_status: "pending" | "approved" | "rejected" | "revised" | null;
+};
+
+// Minimal shape of the browser BarcodeDetector API (Chrome/Android, Safari 17+); not in the TS DOM lib yet
+type DetectedBarcode = { rawValue: string };
+type BarcodeDetectorLike = { detect(source: HTMLVideoElement): Promise<DetectedBarcode[]> };
+type BarcodeDetectorCtor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+// The same code seen again within this window is the camera re-reading it, not a second scan
+const RESCAN_COOLDOWN_MS = 5000;
+
+const localIsoDate = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+
+const todayIso = () => localIsoDate(new Date());
+
+const yesterdayIso = () => {
+  const d = new Date();
+  d.setDate(d.getDate() - 1);
+  return localIsoDate(d);
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+
+const formatDuration = (minutes: number) => `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+
+export default function EventCheckInPage() {
+  const [events, setEvents] = useState<EventOption[]>([]);
+  const [eventId, setEventId] = useState("");
+  const [attendance, setAttendance] = useState<AttendanceRow[]>([]);
+  const [loadingAttendance, setLoadingAttendance] = useState(false);
+  const [manualCode, setManualCode] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [lastScan, setLastScan] = useState<AttendanceScanResult | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [cameraSupported, setCameraSupported] = useState(true);
+
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const timerRef = useRef<number | null>(null);
+  const recentRef = useRef<{ code: string; at: number } | null>(null);
+  const busyRef = useRef(false);
+
+  // Active events running today take check-ins. Events that ended yesterday stay listed so
+  // volunteers still on site after midnight can be checked out
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/admin/events/list", { cache: "no-store" });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data?.error || "Failed to load events");
+        const today = todayIso();
+        const yesterday = yesterdayIso();
+        const running = ((data.events || []) as EventOption[]).filter((e) => {
+          if (e.start_date == null || e.start_date > today) return false;
+          const endDate = e.end_date ?? e.start_date;
+          if (e.event_status === "active" && endDate >= today) return true;
+          return e.event_status !== "cancelled" && endDate === yesterday;
+        });
+        setEvents(running);
+        if (running.length === 1) setEventId(running[0].event_id);
+      } catch (e: any) {
+        toast.error(e.message ?? "Failed to load events");
+      }
+    })();
+    setCameraSupported(typeof window !== "undefined" && "BarcodeDetector" in window && !!navigator.mediaDevices?.getUserMedia);
+  }, []);
+
+  const loadAttendance = useCallback(async (id: string) => {
+    setLoadingAttendance(true);
+    try {
+      const res = await fetch(`/api/admin/events/checkin?event_id=${id}`, { cache: "no-store" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to load attendance");
+      setAttendance(data.attendance || []);
+    } catch (e: any) {
+      toast.error(e.message ?? "Failed to load attendance");
+    } finally {
+      setLoadingAttendance(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setLastScan(null);
+    if (eventId) loadAttendance(eventId);
+    else setAttendance([]);
+  }, [eventId, loadAttendance]);
+
+  const submitCode = useCallback(async (code: string) => {
+    if (!eventId || busyRef.current) return;
+    busyRef.current = true;
+    setSubmitting(true);
+    try {
+      const res = await fetchWithCSRF("/api/admin/events/checkin", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ event_id: eventId, code }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to record attendance");
+      const scan = data.scan as AttendanceScanResult;
+      setLastScan(scan);
+      if (scan.action === "checked_in") {
+        toast.success(`${scan.full_name} checked in`);
+      } else if (scan.action === "checked_out") {
+        toast.success(`${scan.full_name} checked out after ${formatDuration(scan.minutes ?? 0)}`);
+      } else {
+        toast.info(`${scan.full_name} is already checked in`);
+      }
+      setManualCode("");
+      await loadAttendance(eventId);
+    } catch (e: any) {
+      toast.error(e.message ?? "Failed to record attendance");
+    } finally {
+      busyRef.current = false;
+      setSubmitting(false);
+    }
+  }, [eventId, loadAttendance]);
+
+  const stopCamera = useCallback(() => {
+    if (timerRef.current != null) window.clearInterval(timerRef.current);
+    timerRef.current = null;
+    streamRef.current?.getTracks().forEach((t) => t.stop());
+    streamRef.current = null;
+    setScanning(false);
+  }, []);
+
+  async function startCamera() {
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorCtor }).BarcodeDetector;
+    if (!Detector) {
+      setCameraSupported(false);
+      return;
+    }
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+      setScanning(true);
+      const detector = new Detector({ formats: ["qr_code"] });
+      timerRef.current = window.setInterval(async () => {
+        const video = videoRef.current;
+        if (!video || video.readyState < 2 || busyRef.current) return;
+        try {
+          const [code] = await detector.detect(video);
+          if (!code?.rawValue) return;
+          const recent = recentRef.current;
+          if (recent && recent.code === code.rawValue && Date.now() - recent.at < RESCAN_COOLDOWN_MS) return;
+          recentRef.current = { code: code.rawValue, at: Date.now() };
+          await submitCode(code.rawValue);
+        } catch {
+          // A frame that cannot be decoded is expected while the camera moves
+        }
+      }, 400);
+    } catch (e) {
+      toast.error("Could not open the camera. Enter the code by hand instead.");
+      stopCamera();
+    }
+  }
+
+  // Release the camera when the event changes or the page is left
+  useEffect(() => stopCamera, [eventId, stopCamera]);
+
+  const onSite = attendance.filter((a) => !a.checked_out_at).length;
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-6 pt-2">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-gray-900">Event Check-in</h1>
+          <p className="mt-1 text-sm text-gray-600">Scan a volunteer&apos;s QR code on arrival and again when they leave</p>
+        </div>
+        <Link href="/admin/events" className="text-sm text-blue-600 hover:underline">Back to events</Link>
+      </div>
+
+      <section className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+        <Label htmlFor="checkin-event">Event</Label>
+        <select
+          id="checkin-event"
+          className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+          value={eventId}
+          onChange={(e) => setEventId(e.target.value)}
+        >
+          <option value="">{events.length === 0 ? "No active events today" : "Choose an event"}</option>
+          {events.map((e) => (
+            <option key={e.event_id} value={e.event_id}>
+              {e.event_name}
+              {(e.end_date ?? e.start_date) === yesterdayIso() ? " (check-out only)" : ""}
+            </option>
+          ))}
+        </select>
+      </section>
+
+      {eventId && (
+        <section className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm space-y-4">
+          <div className="overflow-hidden rounded-md bg-black">
+            <video ref={videoRef} className={scanning ? "aspect-square w-full object-cover sm:aspect-video" : "hidden"} muted playsInline />
+          </div>
+          {cameraSupported ? (
+            scanning ? (
+              <Button variant="outline" className="w-full" onClick={stopCamera}>
+                <CameraOff className="mr-2 h-4 w-4" /> Stop camera
+              </Button>
+            ) : (
+              <Button className="w-full" onClick={startCamera}>
+                <Camera className="mr-2 h-4 w-4" /> Scan QR code
+              </Button>
+            )
+          ) : (
+            <p className="text-sm text-gray-600">This browser cannot scan QR codes. Enter the code shown under the volunteer&apos;s QR instead.</p>
+          )}
+
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (manualCode.trim()) submitCode(manualCode);
+            }}
+          >
+            <Input
+              aria-label="Check-in code"
+              placeholder="Check-in code"
+              value={manualCode}
+              onChange={(e) => setManualCode(e.target.value)}
+              autoCapitalize="off"
+              autoComplete="off"
+            />
+            <Button type="submit" variant="secondary" disabled={submitting || !manualCode.trim()}>
+              {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : "Submit"}
+            </Button>
+          </form>
+
+          {lastScan && (
+            <div
+              className={`rounded-md border p-3 text-sm ${
+                lastScan.action === "checked_out"
+                  ? "border-blue-200 bg-blue-50 text-blue-900"
+                  : lastScan.action === "checked_in"
+                    ? "border-green-200 bg-green-50 text-green-900"
+                    : "border-amber-200 bg-amber-50 text-amber-900"
+              }`}
+            >
+              <div className="font-medium">
+                {lastScan.full_name} {lastScan.volunteer_number ? `(${lastScan.volunteer_number})` : ""}
+              </div>
+              {lastScan.action === "checked_in" && <div>Checked in at {formatTime(lastScan.checked_in_at)}</div>}
+              {lastScan.action === "already_checked_in" && <div>Already checked in at {formatTime(lastScan.checked_in_at)}</div>}
+              {lastScan.action === "checked_out" && (
+                <div>
+                  Checked out after {formatDuration(lastScan.minutes ?? 0)}
+                  {lastScan.counted_until ? ` (counted until ${formatTime(lastScan.counted_until)})` : ""}
+                  {lastScan.volunteer_activity_request_id
+                    ? ` · ${lastScan.hours_contributed} hour(s) sent for approval`
+                    : " · too short to log hours"}
+                </div>
+              )}
+            </div>
+          )}
+        </section>
+      )}
+
+      {eventId && (
+        <section className="rounded-lg border border-gray-200 bg-white shadow-sm">
+          <div className="p-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Attendance</h2>
+            <p className="mt-1 text-sm text-gray-600">{onSite} on site · {attendance.length - onSite} checked out</p>
+          </div>
+          {loadingAttendance && attendance.length === 0 ? (
+            <div className="px-4 py-6 text-center text-gray-500">Loading…</div>
+          ) : attendance.length === 0 ? (
+            <div className="px-4 py-6 text-center text-sm text-gray-500">Nobody has checked in yet.</div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {attendance.map((a) => (
+                <li key={a.attendance_id} className="flex items-center justify-between px-4 py-3 text-sm">
+                  <div>
+                    <div className="font-medium text-gray-900">{a.full_name}</div>
+                    <div className="text-xs text-gray-500">{a.volunteer_number ?? "-"}</div>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-gray-900">
+                      {formatTime(a.checked_in_at)} – {a.checked_out_at ? formatTime(a.checked_out_at) : "on site"}
+                    </div>
+                    {a.minutes != null && (
+                      <div className="text-xs text-gray-500">
+                        {formatDuration(a.minutes)}
+                        {a.counted_until ? ` (counted until ${formatTime(a.counted_until)})` : ""}
+                        {a.request_status ? ` · hours ${a.request_status}` : ""}
+                      </div>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,444 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import { formatMoney } from "@/lib/financials/currency";
+import type { CampaignProgress, CampaignSummary } from "@/lib/financials/campaigns";
+import MetricCard from "@/components/admin/MetricCard";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type Project = { project_id: string; project_name: string; is_active: boolean };
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const EMPTY_FORM = {
+  name: "",
+  description: "",
+  goal_amount: "",
+  start_date: today(),
+  end_date: "",
+  project_ids: [] as string[],
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  Running: "bg-green-100 text-green-800",
+  Upcoming: "bg-blue-100 text-blue-800",
+  Ended: "bg-gray-100 text-gray-700",
+  Closed: "bg-gray-100 text-gray-700",
+};
+
+// How often the open progress view refreshes while a campaign is running
+const PROGRESS_REFRESH_MS = 60_000;
+
+function ProgressBar({ percent }: { percent: number }) {
+  return (
+    <div className="h-2 w-full rounded-full bg-gray-100">
+      <div
+        className={`h-2 rounded-full ${percent >= 100 ? "bg-green-500" : "bg-blue-500"}`}
+        style={{ width: `${Math.min(percent, 100)}%` }}
+      />
+    </div>
+  );
+}
+
+export default function CampaignsPage() {
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<CampaignProgress | null>(null);
+  const [progressLoading, setProgressLoading] = useState(false);
+
+  const loadCampaigns = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/admin/financials/campaigns", {
+        credentials: "include",
+        headers: { "Cache-Control": "no-cache" },
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load campaigns");
+      }
+      setCampaigns(data.campaigns || []);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCampaigns();
+  }, [loadCampaigns]);
+
+  useEffect(() => {
+    const loadProjects = async () => {
+      try {
+        const res = await fetch("/api/admin/programs/projects", { credentials: "include" });
+        const data = await res.json();
+        setProjects((data.items || []).filter((p: Project) => p.is_active));
+      } catch {
+        toast.error("Failed to load projects");
+      }
+    };
+    loadProjects();
+  }, []);
+
+  const loadProgress = useCallback(async (campaignId: string, quiet = false) => {
+    if (!quiet) setProgressLoading(true);
+    try {
+      const res = await fetch(`/api/admin/financials/campaigns/${campaignId}`, {
+        credentials: "include",
+        headers: { "Cache-Control": "no-cache" },
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load campaign progress");
+      }
+      setProgress(data.campaign);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      if (!quiet) setProgressLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setProgress(null);
+      return;
+    }
+    loadProgress(selectedId);
+    const timer = setInterval(() => loadProgress(selectedId, true), PROGRESS_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [selectedId, loadProgress]);
+
+  const handleCreate = async () => {
+    const goal = Number(form.goal_amount);
+    if (!form.name.trim() || !form.start_date || !form.end_date) {
+      toast.error("Name, start date and end date are required");
+      return;
+    }
+    if (!Number.isFinite(goal) || goal <= 0) {
+      toast.error("Enter a goal greater than 0");
+      return;
+    }
+    if (form.end_date < form.start_date) {
+      toast.error("End date must be on or after the start date");
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetchWithCSRF("/api/admin/financials/campaigns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ ...form, goal_amount: goal }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to create campaign");
+      }
+      toast.success(`Campaign "${data.campaign?.name ?? form.name}" created`);
+      setShowForm(false);
+      setForm({ ...EMPTY_FORM, start_date: today() });
+      await loadCampaigns();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleActive = async (campaign: CampaignSummary, isActive: boolean) => {
+    if (!isActive && !confirm(`Close "${campaign.name}"? New donation requests will no longer be able to name it.`)) return;
+    try {
+      const res = await fetchWithCSRF(`/api/admin/financials/campaigns/${campaign.campaign_id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ is_active: isActive }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to update campaign");
+      }
+      toast.success(isActive ? "Campaign reopened" : "Campaign closed");
+      await loadCampaigns();
+      if (selectedId === campaign.campaign_id) await loadProgress(campaign.campaign_id, true);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    }
+  };
+
+  const toggleProject = (projectId: string) => {
+    setForm((prev) => ({
+      ...prev,
+      project_ids: prev.project_ids.includes(projectId)
+        ? prev.project_ids.filter((id) => id !== projectId)
+        : [...prev.project_ids, projectId],
+    }));
+  };
+
+  const maxDaily = progress ? Math.max(0, ...progress.daily.map((d) => Number(d.amount))) : 0;
+
+  return (
+    <div className="space-y-6 pt-2">
+      <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-gray-900">Campaigns</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Time-boxed appeals across projects. Donation requests name a campaign; approved cash donations count
+            towards its goal.
+          </p>
+        </div>
+        <Button onClick={() => setShowForm(true)}>New Campaign</Button>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Campaign</TableHead>
+              <TableHead>Dates</TableHead>
+              <TableHead>Projects</TableHead>
+              <TableHead className="w-64">Raised vs Goal</TableHead>
+              <TableHead>Donors</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="h-24 text-center">
+                  <div className="flex items-center justify-center">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+                    Loading campaigns...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : campaigns.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="h-24 text-center">
+                  No campaigns yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              campaigns.map((c) => (
+                <TableRow key={c.campaign_id} className={selectedId === c.campaign_id ? "bg-blue-50/50" : undefined}>
+                  <TableCell>
+                    <div className="font-medium">{c.name}</div>
+                    {c.description && <div className="text-xs text-gray-500">{c.description}</div>}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {new Date(c.start_date).toLocaleDateString()} – {new Date(c.end_date).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {c.projects.length === 0 ? "All projects" : c.projects.map((p) => p.project_name).join(", ")}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-between text-xs text-gray-600">
+                      <span>{formatMoney(c.raised)} of {formatMoney(c.goal_amount)}</span>
+                      <span>{Number(c.percent_of_goal)}%</span>
+                    </div>
+                    <div className="mt-1">
+                      <ProgressBar percent={Number(c.percent_of_goal)} />
+                    </div>
+                    {Number(c.in_kind_value) > 0 && (
+                      <div className="mt-1 text-xs text-gray-500">+ {formatMoney(c.in_kind_value)} in goods</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {c.donor_count}
+                    <div className="text-xs text-gray-500">{c.donation_count} donation(s)</div>
+                  </TableCell>
+                  <TableCell>
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[c.status] ?? STATUS_STYLES.Closed}`}>
+                      {c.status}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setSelectedId(selectedId === c.campaign_id ? null : c.campaign_id)}
+                      >
+                        {selectedId === c.campaign_id ? "Hide" : "Progress"}
+                      </Button>
+                      {c.is_active ? (
+                        <Button size="sm" variant="outline" onClick={() => handleActive(c, false)}>Close</Button>
+                      ) : (
+                        <Button size="sm" variant="outline" onClick={() => handleActive(c, true)}>Reopen</Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {selectedId && (
+        <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+          {progressLoading || !progress ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+              Loading progress...
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">{progress.name}</h2>
+                  <p className="text-sm text-gray-600">
+                    {new Date(progress.start_date).toLocaleDateString()} – {new Date(progress.end_date).toLocaleDateString()}
+                    {progress.status === "Running" && " · refreshes every minute"}
+                  </p>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => loadProgress(progress.campaign_id)}>Refresh</Button>
+              </div>
+
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                <MetricCard
+                  title="Raised"
+                  value={formatMoney(progress.raised)}
+                  accent="green"
+                  subtext={`${Number(progress.percent_of_goal)}% of ${formatMoney(progress.goal_amount)}`}
+                />
+                <MetricCard
+                  title="Still to Raise"
+                  value={formatMoney(Math.max(0, Number(progress.goal_amount) - Number(progress.raised)))}
+                  accent="blue"
+                />
+                <MetricCard
+                  title="Donors"
+                  value={progress.donor_count}
+                  accent="rose"
+                  subtext={`${progress.donation_count} approved donation(s)`}
+                />
+                <MetricCard
+                  title="Pending Requests"
+                  value={progress.pending_requests}
+                  accent="amber"
+                  subtext="Not yet counted"
+                />
+              </div>
+
+              <ProgressBar percent={Number(progress.percent_of_goal)} />
+
+              <div>
+                <h3 className="mb-2 text-md font-medium text-gray-900">Daily totals</h3>
+                {progress.daily.length === 0 || progress.status === "Upcoming" ? (
+                  <p className="text-sm text-gray-500">The campaign has not started yet.</p>
+                ) : (
+                  <div className="space-y-1">
+                    {[...progress.daily].reverse().map((d) => (
+                      <div key={d.date} className="grid grid-cols-12 items-center gap-2 text-xs">
+                        <span className="col-span-2 text-gray-600">{new Date(d.date).toLocaleDateString()}</span>
+                        <div className="col-span-6 h-3 rounded bg-gray-50">
+                          {Number(d.amount) > 0 && (
+                            <div
+                              className="h-3 rounded bg-blue-500"
+                              style={{ width: `${maxDaily > 0 ? (Number(d.amount) / maxDaily) * 100 : 0}%` }}
+                            />
+                          )}
+                        </div>
+                        <span className="col-span-2 text-right text-gray-900">{formatMoney(d.amount)}</span>
+                        <span className="col-span-2 text-right text-gray-500">
+                          {d.donations} · {formatMoney(d.cumulative)} total
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </section>
+      )}
+
+      {showForm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black/40" onClick={() => !saving && setShowForm(false)} />
+          <div className="relative z-10 w-full max-w-2xl rounded-lg bg-white p-6 shadow-lg">
+            <h3 className="text-lg font-semibold text-gray-900">New Campaign</h3>
+            <p className="mt-1 text-sm text-gray-600">
+              Requests can name the campaign only for donation dates inside its window.
+            </p>
+            <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-3">
+              <div className="md:col-span-2">
+                <Label htmlFor="name">Name</Label>
+                <Input id="name" placeholder="e.g., Ramadan 2026" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="goal_amount">Goal (PKR)</Label>
+                <Input id="goal_amount" type="number" min="0" step="0.01" value={form.goal_amount} onChange={(e) => setForm({ ...form, goal_amount: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="start_date">Start Date</Label>
+                <Input id="start_date" type="date" value={form.start_date} onChange={(e) => setForm({ ...form, start_date: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="end_date">End Date</Label>
+                <Input id="end_date" type="date" value={form.end_date} onChange={(e) => setForm({ ...form, end_date: e.target.value })} />
+              </div>
+              <div className="md:col-span-3">
+                <Label htmlFor="description">Description (Optional)</Label>
+                <Input id="description" value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+              </div>
+              <div className="md:col-span-3">
+                <Label>Linked Projects</Label>
+                <p className="text-xs text-gray-500">Leave all unticked to accept donations to any project.</p>
+                <div className="mt-2 grid max-h-48 grid-cols-1 gap-1 overflow-y-auto rounded-md border p-2 md:grid-cols-2">
+                  {projects.length === 0 ? (
+                    <span className="text-sm text-gray-500">No active projects</span>
+                  ) : (
+                    projects.map((p) => (
+                      <label key={p.project_id} className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={form.project_ids.includes(p.project_id)}
+                          onChange={() => toggleProject(p.project_id)}
+                        />
+                        {p.project_name}
+                      </label>
+                    ))
+                  )}
+                </div>
+              </div>
+            </div>
+            <div className="mt-6 flex justify-end gap-3">
+              <Button variant="outline" onClick={() => setShowForm(false)} disabled={saving}>Cancel</Button>
+              <Button onClick={handleCreate} disabled={saving}>
+                {saving ? "Creating..." : "Create Campaign"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,40 +10,61 @@ import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { BASE_CURRENCY, DONATION_CURRENCIES, formatMoney } from "@/lib/financials/currency";
+import { IN_KIND_PAYMENT_MODE, IN_KIND_UNITS, inKindItemsTotal, parseInKindItems } from "@/lib/financials/inKind";
+import { formatDonorAddress, type DonorSearchResult } from "@/lib/financials/donors";
+import { campaignAccepts, isCampaignSelectable, type CampaignSummary } from "@/lib/financials/campaigns";
+import { TRIBUTE_TYPES, TRIBUTE_TYPE_LABELS, parseTribute } from "@/lib/financials/tributes";
 
 type Category = { donation_category_id: string; donation_category_name: string; is_active: boolean };
 type Project = { project_id: string; project_name: string; donation_category_id: string; is_active: boolean };
 
 const donationSchema = z.object({
   donor_number: z.string().min(1, "Donor number is required"),
-  amount: z.coerce.number().min(0.01, "Amount must be greater than 0"),
-  currency: z.enum(["PKR" as const], { required_error: "Currency is required" }),
+  amount: z.coerce.number(),
+  currency: z.enum(DONATION_CURRENCIES, { required_error: "Currency is required" }),
   category_name: z.string().min(1, "Category name is required").optional().transform((v) => v || ""),
   project_name: z.string().min(1, "Project name is required").optional().transform((v) => v || ""),
-  mode_of_payment: z.enum(["Online", "BankTransfer", "CreditCard"], { required_error: "Mode of payment is required" }),
+  mode_of_payment: z.enum(["Online", "BankTransfer", "CreditCard", IN_KIND_PAYMENT_MODE], { required_error: "Mode of payment is required" }),
   donation_type: z.enum(["Zakat", "Sadqa", "General"], { required_error: "Donation type is required" }),
   donation_date: z.string().min(1, "Donation date is required"),
   transaction_id: z.string().optional(),
+  campaign_id: z.string().optional(),
+}).superRefine((values, ctx) => {
+  // In-kind donations are valued from their item lines instead
+  if (values.mode_of_payment !== IN_KIND_PAYMENT_MODE && !(values.amount >= 0.01)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["amount"], message: "Amount must be greater than 0" });
+  }
 });
 
+type ItemForm = { description: string; quantity: string; unit: string; estimated_value: string };
+
+const EMPTY_ITEM: ItemForm = { description: "", quantity: "1", unit: "pcs", estimated_value: "" };
+
+const EMPTY_TRIBUTE = { type: "", name: "", notify_name: "", notify_email: "", notify_address: "" };
+
 type DonationFormData = z.infer<typeof donationSchema>;
 
 export default function NewDonationPage() {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [search, setSearch] = useState("");
-  const [results, setResults] = useState<Array<{ donor_id: string; donor_number: string; full_name: string | null; phone_number: string | null; address: string | null }>>([]);
+  const [results, setResults] = useState<DonorSearchResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
-  const [selectedDonor, setSelectedDonor] = useState<{ donor_id: string; donor_number: string; full_name: string | null; phone_number: string | null; address: string | null } | null>(null);
+  const [selectedDonor, setSelectedDonor] = useState<DonorSearchResult | null>(null);
   const [categories, setCategories] = useState<Category[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedCategoryId, setSelectedCategoryId] = useState<string>("");
+  const [items, setItems] = useState<ItemForm[]>([{ ...EMPTY_ITEM }]);
+  const [valuationNotes, setValuationNotes] = useState("");
+  const [tribute, setTribute] = useState(EMPTY_TRIBUTE);
 
   const { register, handleSubmit, formState: { errors }, setValue, watch } = useForm<DonationFormData>({
     resolver: zodResolver(donationSchema),
     defaultValues: {
-      currency: "PKR",
+      currency: BASE_CURRENCY,
       mode_of_payment: "Online",
       donation_type: "General",
       donation_date: new Date().toISOString().slice(0, 10),
@@ -102,6 +123,20 @@ export default function NewDonationPage() {
     loadData();
   }, []);
 
+  // Campaigns are optional; the form still works if they fail to load
+  useEffect(() => {
+    const loadCampaigns = async () => {
+      try {
+        const res = await fetch("/api/admin/financials/campaigns", { credentials: "include" });
+        const data = await res.json();
+        setCampaigns((data.campaigns || []).filter(isCampaignSelectable));
+      } catch {
+        setCampaigns([]);
+      }
+    };
+    loadCampaigns();
+  }, []);
+
   // Filtered projects based on selected category
   const filteredProjects = useMemo(() => {
     if (!watchedCategoryName) return [];
@@ -111,12 +146,48 @@ export default function NewDonationPage() {
     return projects.filter(p => p.donation_category_id === category.donation_category_id);
   }, [watchedCategoryName, projects, categories]);
 
+  // Only campaigns whose window covers the donation date and whose projects include the chosen one
+  const watchedProjectName = watch("project_name");
+  const watchedDonationDate = watch("donation_date");
+  const availableCampaigns = useMemo(() => {
+    const projectId = filteredProjects.find((p) => p.project_name === watchedProjectName)?.project_id;
+    return campaigns.filter((c) => campaignAccepts(c, projectId, watchedDonationDate));
+  }, [campaigns, filteredProjects, watchedProjectName, watchedDonationDate]);
+
+  const watchedCampaignId = watch("campaign_id");
+  useEffect(() => {
+    if (watchedCampaignId && !availableCampaigns.some((c) => c.campaign_id === watchedCampaignId)) {
+      setValue("campaign_id", "");
+    }
+  }, [availableCampaigns, watchedCampaignId, setValue]);
+
+  const isInKind = watch("mode_of_payment") === IN_KIND_PAYMENT_MODE;
+  const itemsTotal = inKindItemsTotal(items.map((i) => ({ estimated_value: Number(i.estimated_value) })));
+
+  const updateItem = (index: number, patch: Partial<ItemForm>) => {
+    setItems((prev) => prev.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+  };
+
   console.log("NewDonationPage component rendered");
 
   const onSubmit = async (values: DonationFormData) => {
     console.log("Form submitted with values:", values);
     console.log("Form errors:", errors);
     console.log("Form is valid:", Object.keys(errors).length === 0);
+    const parsedTribute = parseTribute(tribute);
+    if ("error" in parsedTribute) {
+      toast.error(parsedTribute.error);
+      return;
+    }
+    let payload: Record<string, unknown> = { ...values, tribute: parsedTribute.tribute };
+    if (values.mode_of_payment === IN_KIND_PAYMENT_MODE) {
+      const parsed = parseInKindItems(items);
+      if ("error" in parsed) {
+        toast.error(parsed.error);
+        return;
+      }
+      payload = { ...payload, items: parsed.items, valuation_notes: valuationNotes.trim() || null };
+    }
     setIsSubmitting(true);
     const t = toast.loading("Creating donation request...");
     console.log("Starting API call...");
@@ -125,7 +196,7 @@ export default function NewDonationPage() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         credentials: "include",
-        body: JSON.stringify(values),
+        body: JSON.stringify(payload),
       });
       console.log("API response status:", res.status);
       const data = await res.json().catch(() => ({}));
@@ -161,7 +232,7 @@ export default function NewDonationPage() {
         <h2 className="text-lg font-semibold text-gray-900 mb-3">Select Donor</h2>
         <div className="grid gap-3">
           <div>
-            <Label htmlFor="donor_search">Search by name, phone, or donor number/ID</Label>
+            <Label htmlFor="donor_search">Search by name, organisation, phone, CNIC/NTN, or donor number/ID</Label>
             <Input
               id="donor_search"
               placeholder="Type at least 2 characters..."
@@ -178,7 +249,12 @@ export default function NewDonationPage() {
                 <div className="p-3 text-sm text-gray-600">Searching...</div>
               )}
               {!isSearching && results.length === 0 && (
-                <div className="p-3 text-sm text-gray-600">No donors found.</div>
+                <div className="p-3 text-sm text-gray-600">
+                  No donors found.{" "}
+                  <a href="/admin/donors/new" className="font-medium text-blue-600 hover:underline">
+                    Add a donor without an account
+                  </a>
+                </div>
               )}
               {results.map((r) => (
                 <button
@@ -194,11 +270,15 @@ export default function NewDonationPage() {
                   <div className="flex items-center justify-between">
                     <div>
                       <div className="font-medium text-gray-900">{String(r.full_name || 'Unknown Name')}</div>
-                      <div className="text-xs text-gray-600">Donor ID: {String(r.donor_number)}</div>
+                      <div className="text-xs text-gray-600">
+                        Donor ID: {String(r.donor_number)}
+                        {r.donor_type === "Organisation" && ` · Organisation${r.contact_person ? ` (contact: ${r.contact_person})` : ""}`}
+                        {!r.has_account && " · No portal account"}
+                      </div>
                     </div>
                     <div className="text-sm text-gray-700">{String(r.phone_number || 'N/A')}</div>
                   </div>
-                  {r.address && <div className="text-xs text-gray-600 mt-1">{String(r.address)}</div>}
+                  {formatDonorAddress(r.address) && <div className="text-xs text-gray-600 mt-1">{formatDonorAddress(r.address)}</div>}
                 </button>
               ))}
             </div>
@@ -229,26 +309,35 @@ export default function NewDonationPage() {
               </div>
               <div className="md:col-span-3">
                 <Label>Address</Label>
-                <Input value={String(selectedDonor.address || '')} readOnly />
+                <Input value={formatDonorAddress(selectedDonor.address)} readOnly />
               </div>
             </div>
           </div>
         )}
 
         <form onSubmit={handleSubmit(onSubmit)} className="grid grid-cols-1 gap-6 md:grid-cols-2">
-          <div>
-            <Label htmlFor="amount">Amount</Label>
-            <Input id="amount" type="number" step="0.01" placeholder="0.00" {...register("amount")} />
-            {errors.amount && <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>}
-          </div>
+          {!isInKind && (
+            <>
+              <div>
+                <Label htmlFor="amount">Amount</Label>
+                <Input id="amount" type="number" step="0.01" placeholder="0.00" {...register("amount")} />
+                {errors.amount && <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>}
+              </div>
 
-          <div>
-            <Label htmlFor="currency">Currency</Label>
-            <select id="currency" className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2" {...register("currency")}>
-              <option value="PKR">PKR</option>
-            </select>
-            {errors.currency && <p className="mt-1 text-sm text-red-600">{errors.currency.message}</p>}
-          </div>
+              <div>
+                <Label htmlFor="currency">Currency</Label>
+                <select id="currency" className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2" {...register("currency")}>
+                  {DONATION_CURRENCIES.map((c) => (
+                    <option key={c} value={c}>{c}</option>
+                  ))}
+                </select>
+                {watch("currency") !== BASE_CURRENCY && (
+                  <p className="mt-1 text-xs text-gray-500">Converted to {BASE_CURRENCY} at the exchange rate effective on the donation date when approved.</p>
+                )}
+                {errors.currency && <p className="mt-1 text-sm text-red-600">{errors.currency.message}</p>}
+              </div>
+            </>
+          )}
 
           <div>
             <Label htmlFor="mode_of_payment">Mode of Payment</Label>
@@ -256,6 +345,7 @@ export default function NewDonationPage() {
               <option value="Online">Online</option>
               <option value="BankTransfer">Bank Transfer</option>
               <option value="CreditCard">Credit Card</option>
+              <option value={IN_KIND_PAYMENT_MODE}>In-kind (goods)</option>
             </select>
             {errors.mode_of_payment && <p className="mt-1 text-sm text-red-600">{errors.mode_of_payment.message}</p>}
           </div>
@@ -276,16 +366,18 @@ export default function NewDonationPage() {
             {errors.donation_date && <p className="mt-1 text-sm text-red-600">{errors.donation_date.message}</p>}
           </div>
 
-          <div>
-            <Label htmlFor="transaction_id">Transaction ID (Optional)</Label>
-            <Input 
-              id="transaction_id" 
-              placeholder="e.g., bank reference number" 
-              {...register("transaction_id")} 
-            />
-            <p className="mt-1 text-xs text-gray-500">Enter the bank or payment reference number if available</p>
-            {errors.transaction_id && <p className="mt-1 text-sm text-red-600">{errors.transaction_id.message}</p>}
-          </div>
+          {!isInKind && (
+            <div>
+              <Label htmlFor="transaction_id">Transaction ID (Optional)</Label>
+              <Input 
+                id="transaction_id" 
+                placeholder="e.g., bank reference number" 
+                {...register("transaction_id")} 
+              />
+              <p className="mt-1 text-xs text-gray-500">Enter the bank or payment reference number if available</p>
+              {errors.transaction_id && <p className="mt-1 text-sm text-red-600">{errors.transaction_id.message}</p>}
+            </div>
+          )}
 
           <div>
             <Label htmlFor="category_id">Category</Label>
@@ -325,6 +417,174 @@ export default function NewDonationPage() {
             {errors.project_name && <p className="mt-1 text-sm text-red-600">{errors.project_name.message}</p>}
           </div>
 
+          <div>
+            <Label htmlFor="campaign_id">Campaign (Optional)</Label>
+            <select
+              id="campaign_id"
+              className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+              {...register("campaign_id")}
+            >
+              <option value="">No campaign</option>
+              {availableCampaigns.map((c) => (
+                <option key={c.campaign_id} value={c.campaign_id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+            {campaigns.length > 0 && availableCampaigns.length === 0 && (
+              <p className="mt-1 text-xs text-gray-500">No open campaign covers this project and donation date.</p>
+            )}
+          </div>
+
+          {isInKind && (
+            <div className="md:col-span-2 space-y-3 rounded-md border bg-white p-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-md font-medium text-gray-900">Items</h3>
+                <span className="text-sm font-medium text-gray-900">Estimated value: {formatMoney(itemsTotal)}</span>
+              </div>
+              {items.map((item, index) => (
+                <div key={index} className="grid grid-cols-1 gap-2 md:grid-cols-12 md:items-end">
+                  <div className="md:col-span-5">
+                    <Label htmlFor={`item_description_${index}`}>Description</Label>
+                    <Input
+                      id={`item_description_${index}`}
+                      placeholder="e.g., Flour (atta) ration bags"
+                      value={item.description}
+                      onChange={(e) => updateItem(index, { description: e.target.value })}
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <Label htmlFor={`item_quantity_${index}`}>Quantity</Label>
+                    <Input
+                      id={`item_quantity_${index}`}
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={item.quantity}
+                      onChange={(e) => updateItem(index, { quantity: e.target.value })}
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <Label htmlFor={`item_unit_${index}`}>Unit</Label>
+                    <Input
+                      id={`item_unit_${index}`}
+                      list="in_kind_units"
+                      value={item.unit}
+                      onChange={(e) => updateItem(index, { unit: e.target.value })}
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <Label htmlFor={`item_value_${index}`}>Est. value ({BASE_CURRENCY})</Label>
+                    <Input
+                      id={`item_value_${index}`}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Whole line"
+                      value={item.estimated_value}
+                      onChange={(e) => updateItem(index, { estimated_value: e.target.value })}
+                    />
+                  </div>
+                  <div className="md:col-span-1">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      disabled={items.length === 1}
+                      onClick={() => setItems((prev) => prev.filter((_, i) => i !== index))}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <datalist id="in_kind_units">
+                {IN_KIND_UNITS.map((u) => (
+                  <option key={u} value={u} />
+                ))}
+              </datalist>
+              <Button type="button" variant="outline" size="sm" onClick={() => setItems((prev) => [...prev, { ...EMPTY_ITEM }])}>
+                Add item
+              </Button>
+              <div>
+                <Label htmlFor="valuation_notes">Valuation notes (Optional)</Label>
+                <textarea
+                  id="valuation_notes"
+                  rows={3}
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2 text-sm"
+                  placeholder="How were the goods valued? e.g., supplier invoice, current market price"
+                  value={valuationNotes}
+                  onChange={(e) => setValuationNotes(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="md:col-span-2 space-y-3 rounded-md border bg-white p-4">
+            <div>
+              <h3 className="text-md font-medium text-gray-900">Tribute (Optional)</h3>
+              <p className="text-xs text-gray-500">
+                For donations made in memory of, in honour of or on behalf of someone. It is printed on the receipt, and
+                an acknowledgement letter for the family can be downloaded once the donation is approved.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div>
+                <Label htmlFor="tribute_type">Tribute</Label>
+                <select
+                  id="tribute_type"
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={tribute.type}
+                  onChange={(e) => setTribute(e.target.value ? { ...tribute, type: e.target.value } : EMPTY_TRIBUTE)}
+                >
+                  <option value="">Not a tribute</option>
+                  {TRIBUTE_TYPES.map((t) => (
+                    <option key={t} value={t}>{TRIBUTE_TYPE_LABELS[t]}</option>
+                  ))}
+                </select>
+              </div>
+              {tribute.type && (
+                <>
+                  <div>
+                    <Label htmlFor="tribute_name">Honoree name</Label>
+                    <Input
+                      id="tribute_name"
+                      placeholder="e.g., Late father, Abdul Rehman"
+                      value={tribute.name}
+                      onChange={(e) => setTribute({ ...tribute, name: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="tribute_notify_name">Notify (Optional)</Label>
+                    <Input
+                      id="tribute_notify_name"
+                      placeholder="Who should receive the letter"
+                      value={tribute.notify_name}
+                      onChange={(e) => setTribute({ ...tribute, notify_name: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="tribute_notify_email">Notification email (Optional)</Label>
+                    <Input
+                      id="tribute_notify_email"
+                      type="email"
+                      value={tribute.notify_email}
+                      onChange={(e) => setTribute({ ...tribute, notify_email: e.target.value })}
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <Label htmlFor="tribute_notify_address">Postal address for the letter (Optional)</Label>
+                    <Input
+                      id="tribute_notify_address"
+                      value={tribute.notify_address}
+                      onChange={(e) => setTribute({ ...tribute, notify_address: e.target.value })}
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+
           <div className="md:col-span-2 flex justify-end gap-3">
             <Button type="button" variant="outline" onClick={() => router.push("/admin/financials/donations")}>Cancel</Button>
             <Button
@@ -1,9 +1,11 @@
 "use client";
 
 import { useCallback, useEffect, useState } from "react";
-import { DollarSign, TrendingUp, Heart, FileText, Loader2 } from "lucide-react";
+import { DollarSign, TrendingUp, Heart, FileText, Loader2, Package, X } from "lucide-react";
 import { toast } from "sonner";
 import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import { formatMoney } from "@/lib/financials/currency";
+import { isInKindPaymentMode } from "@/lib/financials/inKind";
 import MetricCard from "@/components/admin/MetricCard";
 import {
   Table,
@@ -14,6 +16,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
+import ApprovedDonationsTable from "@/components/admin/ApprovedDonationsTable";
 
 type DonationRequest = {
   donation_request_id: string;
@@ -28,13 +31,48 @@ type DonationRequest = {
   donation_date: string;
   status: string;
   created_at: string;
+  transaction_id: string | null;
+  has_proof: boolean;
+  source: "admin" | "donor" | "pledge";
+  created_by_name: string | null;
+  created_by_me: boolean;
+  requires_second_approval: boolean;
+  first_approved_by_name: string | null;
+  first_approved_by_me: boolean;
+  first_approved_at: string | null;
 };
 
+type InKindItemsView = {
+  request: DonationRequest;
+  items: Array<{ line_no: number; description: string; quantity: number; unit: string; estimated_value: number }>;
+  valuation_notes: string | null;
+};
+
+// Maker-checker outcome for the current admin: whether they may approve and what to tell them
+function approvalRule(request: DonationRequest): { canApprove: boolean; label: string; note: string | null } {
+  if (request.created_by_me) {
+    return { canApprove: false, label: "Approve", note: "You recorded this request; another admin must approve it" };
+  }
+  if (!request.requires_second_approval) {
+    return { canApprove: true, label: "Approve", note: null };
+  }
+  if (!request.first_approved_at) {
+    return { canApprove: true, label: "Approve (1 of 2)", note: "Above the second-approval limit: two admins must approve" };
+  }
+  if (request.first_approved_by_me) {
+    return { canApprove: false, label: "Approve", note: "You gave the first approval; waiting for a second admin" };
+  }
+  return { canApprove: true, label: "Final Approve", note: `First approval by ${request.first_approved_by_name || "another admin"}` };
+}
+
 export default function DonationsPage() {
   const [requests, setRequests] = useState<DonationRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [totalDonations, setTotalDonations] = useState<number | null>(null);
+  const [inKindTotals, setInKindTotals] = useState<{ total_value: number; count: number } | null>(null);
+  const [itemsView, setItemsView] = useState<InKindItemsView | null>(null);
   const [totalRequests, setTotalRequests] = useState<number | null>(null);
+  const [approvedRefreshKey, setApprovedRefreshKey] = useState(0);
 
   const loadRequests = useCallback(async () => {
     try {
@@ -79,6 +117,10 @@ export default function DonationsPage() {
           throw new Error(data?.error || 'Failed to load total donations');
         }
         setTotalDonations(Number(data.total_donations ?? 0));
+        setInKindTotals({
+          total_value: Number(data.in_kind?.total_value ?? 0),
+          count: Number(data.in_kind?.count ?? 0),
+        });
       } catch (err) {
         const msg = err instanceof Error ? err.message : 'Unexpected error';
         toast.error(msg);
@@ -88,6 +130,23 @@ export default function DonationsPage() {
     loadTotalDonations();
   }, []);
 
+  const handleViewItems = async (request: DonationRequest) => {
+    try {
+      const res = await fetch(`/api/admin/financials/donation-requests/${request.donation_request_id}/items`, {
+        credentials: "include",
+        headers: { "Cache-Control": "no-cache" },
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load donated items");
+      }
+      setItemsView({ request, items: data.items || [], valuation_notes: data.valuation_notes ?? null });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    }
+  };
+
   const handleApprove = async (requestId: string) => {
     const t = toast.loading("Approving donation request...");
     try {
@@ -97,11 +156,17 @@ export default function DonationsPage() {
       });
       const data = await res.json();
       if (!res.ok) {
-        throw new Error(data?.error || "Failed to approve donation request");
+        throw new Error(data?.error || data?.message || "Failed to approve donation request");
+      }
+      if (data?.status === "pending_second_approval") {
+        toast.info(data.message || "First approval recorded. A second admin must give the final approval.", { id: t });
+        await loadRequests();
+        return;
       }
-      toast.success("Donation request approved", { id: t });
+      toast.success(data?.receiptNumber ? `Donation request approved (Receipt ${data.receiptNumber})` : "Donation request approved", { id: t });
       // Update the request status in the list
       await loadRequests(); // Refresh the data to get updated counts
+      setApprovedRefreshKey((k) => k + 1);
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Unexpected error";
       toast.error(msg, { id: t });
@@ -157,6 +222,15 @@ export default function DonationsPage() {
           isLoading={totalDonations === null}
           icon={<TrendingUp className="h-5 w-5" />}
           accent="green"
+          subtext="Cash received"
+        />
+        <MetricCard
+          title="In-Kind Donations"
+          value={inKindTotals === null ? '0' : `PKR ${inKindTotals.total_value.toLocaleString()}`}
+          isLoading={inKindTotals === null}
+          icon={<Package className="h-5 w-5" />}
+          accent="amber"
+          subtext={inKindTotals === null ? undefined : `${inKindTotals.count.toLocaleString()} donations of goods, estimated value`}
         />
         <MetricCard
           title="Total Requests"
@@ -184,6 +258,7 @@ export default function DonationsPage() {
               <TableHead>Category</TableHead>
               <TableHead>Project</TableHead>
               <TableHead>Date</TableHead>
+              <TableHead>Payment</TableHead>
               <TableHead>Status</TableHead>
               <TableHead>Actions</TableHead>
             </TableRow>
@@ -191,7 +266,7 @@ export default function DonationsPage() {
           <TableBody>
             {loading ? (
               <TableRow>
-                <TableCell colSpan={7} className="h-24 text-center">
+                <TableCell colSpan={8} className="h-24 text-center">
                   <div className="flex items-center justify-center">
                     <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
                     Loading donation requests...
@@ -200,54 +275,146 @@ export default function DonationsPage() {
               </TableRow>
             ) : pendingRequests.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={7} className="h-24 text-center">
+                <TableCell colSpan={8} className="h-24 text-center">
                   No pending donation requests.
                 </TableCell>
               </TableRow>
             ) : (
-              pendingRequests.map((request) => (
-                <TableRow key={request.donation_request_id}>
-                  <TableCell>
-                    <div>
-                      <div className="font-medium">{request.donor_name}</div>
-                      <div className="text-sm text-gray-500">{request.donor_number}</div>
-                    </div>
-                  </TableCell>
-                  <TableCell>{request.amount} {request.currency}</TableCell>
-                  <TableCell>{request.category_name}</TableCell>
-                  <TableCell>{request.project_name}</TableCell>
-                  <TableCell>{new Date(request.donation_date).toLocaleDateString()}</TableCell>
-                  <TableCell>
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                      request.status === "Pending" ? "bg-yellow-100 text-yellow-800" : "bg-gray-100 text-gray-800"
-                    }`}>
-                      {request.status}
-                    </span>
-                  </TableCell>
-                  <TableCell>
-                    <div className="flex gap-2">
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => handleApprove(request.donation_request_id)}
-                      >
-                        Approve
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => handleReject(request.donation_request_id)}
-                      >
-                        Reject
-                      </Button>
-                    </div>
-                  </TableCell>
-                </TableRow>
-              ))
+              pendingRequests.map((request) => {
+                const rule = approvalRule(request);
+                return (
+                  <TableRow key={request.donation_request_id}>
+                    <TableCell>
+                      <div>
+                        <div className="font-medium">{request.donor_name}</div>
+                        <div className="text-sm text-gray-500">{request.donor_number}</div>
+                        {request.source !== "admin" && (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                            {request.source === "donor" ? "Submitted by donor" : "Pledge instalment"}
+                          </span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {request.amount} {request.currency}
+                      {isInKindPaymentMode(request.mode_of_payment) && (
+                        <div className="text-xs text-gray-500">Estimated value of goods</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{request.category_name}</TableCell>
+                    <TableCell>{request.project_name}</TableCell>
+                    <TableCell>{new Date(request.donation_date).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <div className="text-sm">{request.mode_of_payment}</div>
+                      {isInKindPaymentMode(request.mode_of_payment) && (
+                        <button
+                          type="button"
+                          onClick={() => handleViewItems(request)}
+                          className="text-xs font-medium text-blue-600 hover:underline"
+                        >
+                          View items
+                        </button>
+                      )}
+                      {request.transaction_id && <div className="text-xs text-gray-500">Ref: {request.transaction_id}</div>}
+                      {request.has_proof && (
+                        <a
+                          href={`/api/admin/financials/donation-requests/${request.donation_request_id}/proof`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs font-medium text-blue-600 hover:underline"
+                        >
+                          View proof
+                        </a>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                        request.status === "Pending" ? "bg-yellow-100 text-yellow-800" : "bg-gray-100 text-gray-800"
+                      }`}>
+                        {request.first_approved_at ? "1 of 2 approvals" : request.status}
+                      </span>
+                      {request.created_by_name && request.source !== "donor" && (
+                        <div className="mt-1 text-xs text-gray-500">Recorded by {request.created_by_me ? "you" : request.created_by_name}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={!rule.canApprove}
+                          onClick={() => handleApprove(request.donation_request_id)}
+                        >
+                          {rule.label}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleReject(request.donation_request_id)}
+                        >
+                          Reject
+                        </Button>
+                      </div>
+                      {rule.note && <p className="mt-1 max-w-[16rem] text-xs text-gray-500">{rule.note}</p>}
+                    </TableCell>
+                  </TableRow>
+                );
+              })
             )}
           </TableBody>
         </Table>
       </div>
+
+      <ApprovedDonationsTable refreshKey={approvedRefreshKey} />
+
+      {itemsView && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="w-full max-w-2xl rounded-lg bg-white p-6 shadow-lg">
+            <div className="mb-4 flex items-start justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Donated items</h2>
+                <p className="text-sm text-gray-600">
+                  {itemsView.request.donor_name} · {new Date(itemsView.request.donation_date).toLocaleDateString()}
+                </p>
+              </div>
+              <button type="button" onClick={() => setItemsView(null)} className="text-gray-500 hover:text-gray-700">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="max-h-[60vh] overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>#</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">Est. value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {itemsView.items.map((item) => (
+                    <TableRow key={item.line_no}>
+                      <TableCell>{item.line_no}</TableCell>
+                      <TableCell>{item.description}</TableCell>
+                      <TableCell className="text-right">{Number(item.quantity).toLocaleString()} {item.unit}</TableCell>
+                      <TableCell className="text-right">{formatMoney(item.estimated_value)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-right font-medium">Total estimated value</TableCell>
+                    <TableCell className="text-right font-medium">{formatMoney(itemsView.request.amount)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+            {itemsView.valuation_notes && (
+              <p className="mt-3 text-sm text-gray-600">
+                <span className="font-medium">Valuation notes:</span> {itemsView.valuation_notes}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
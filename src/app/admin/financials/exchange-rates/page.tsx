@@ -0,0 +1,228 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import { BASE_CURRENCY, DONATION_CURRENCIES } from "@/lib/financials/currency";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type ExchangeRate = {
+  exchange_rate_id: string;
+  currency: string;
+  rate_to_base: number;
+  effective_date: string;
+  notes: string | null;
+  created_by_name: string | null;
+  created_at: string;
+};
+
+const FOREIGN_CURRENCIES = DONATION_CURRENCIES.filter((c) => c !== BASE_CURRENCY);
+
+export default function ExchangeRatesPage() {
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({
+    currency: FOREIGN_CURRENCIES[0] as string,
+    rate_to_base: "",
+    effective_date: new Date().toISOString().slice(0, 10),
+    notes: "",
+  });
+
+  const loadRates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/admin/financials/exchange-rates", {
+        credentials: "include",
+        headers: { "Cache-Control": "no-cache" },
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load exchange rates");
+      }
+      setRates(data.rates || []);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  // Latest rate per currency (rows arrive ordered by currency, newest first)
+  const currentRates = useMemo(() => {
+    const latest = new Map<string, ExchangeRate>();
+    const today = new Date().toISOString().slice(0, 10);
+    rates.forEach((r) => {
+      if (r.effective_date <= today && !latest.has(r.currency)) latest.set(r.currency, r);
+    });
+    return latest;
+  }, [rates]);
+
+  const handleSave = async () => {
+    const rate = Number(form.rate_to_base);
+    if (!Number.isFinite(rate) || rate <= 0) {
+      toast.error("Enter a rate greater than 0");
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetchWithCSRF("/api/admin/financials/exchange-rates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ ...form, rate_to_base: rate }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to save exchange rate");
+      }
+      toast.success(`${form.currency} rate saved`);
+      setForm((prev) => ({ ...prev, rate_to_base: "", notes: "" }));
+      await loadRates();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    if (!confirm(`Delete the ${rate.currency} rate effective ${rate.effective_date}?`)) return;
+    try {
+      const res = await fetchWithCSRF(`/api/admin/financials/exchange-rates/${rate.exchange_rate_id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to delete exchange rate");
+      }
+      toast.success("Exchange rate deleted");
+      await loadRates();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    }
+  };
+
+  return (
+    <div className="space-y-6 pt-2">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-gray-900">Exchange Rates</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Rates to {BASE_CURRENCY}. A donation uses the latest rate effective on its donation date, stored when it is approved.
+        </p>
+      </div>
+
+      <section className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {FOREIGN_CURRENCIES.map((c) => {
+          const current = currentRates.get(c);
+          return (
+            <div key={c} className="rounded-lg border border-gray-200 bg-white p-4">
+              <p className="text-sm text-gray-500">1 {c}</p>
+              <p className="text-xl font-semibold text-gray-900">
+                {current ? `${BASE_CURRENCY} ${Number(current.rate_to_base).toLocaleString(undefined, { maximumFractionDigits: 6 })}` : "No rate"}
+              </p>
+              {current && <p className="text-xs text-gray-500">Since {new Date(current.effective_date).toLocaleDateString()}</p>}
+            </div>
+          );
+        })}
+      </section>
+
+      <section className="rounded-lg border border-gray-200 p-4">
+        <h2 className="text-lg font-semibold text-gray-900 mb-3">Add Rate</h2>
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-5 md:items-end">
+          <div>
+            <Label htmlFor="currency">Currency</Label>
+            <select
+              id="currency"
+              className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+              value={form.currency}
+              onChange={(e) => setForm({ ...form, currency: e.target.value })}
+            >
+              {FOREIGN_CURRENCIES.map((c) => (
+                <option key={c} value={c}>{c}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="rate">Rate ({BASE_CURRENCY} per 1 {form.currency})</Label>
+            <Input id="rate" type="number" step="0.000001" min="0" value={form.rate_to_base} onChange={(e) => setForm({ ...form, rate_to_base: e.target.value })} />
+          </div>
+          <div>
+            <Label htmlFor="effective_date">Effective Date</Label>
+            <Input id="effective_date" type="date" value={form.effective_date} onChange={(e) => setForm({ ...form, effective_date: e.target.value })} />
+          </div>
+          <div>
+            <Label htmlFor="notes">Notes</Label>
+            <Input id="notes" placeholder="e.g. SBP closing rate" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+          </div>
+          <Button onClick={handleSave} disabled={saving}>{saving ? "Saving..." : "Save Rate"}</Button>
+        </div>
+      </section>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Currency</TableHead>
+              <TableHead>Rate</TableHead>
+              <TableHead>Effective Date</TableHead>
+              <TableHead>Notes</TableHead>
+              <TableHead>Added By</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="h-24 text-center">
+                  <div className="flex items-center justify-center">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+                    Loading exchange rates...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : rates.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="h-24 text-center">
+                  No exchange rates recorded yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              rates.map((r) => (
+                <TableRow key={r.exchange_rate_id}>
+                  <TableCell className="font-medium">{r.currency}</TableCell>
+                  <TableCell>{Number(r.rate_to_base).toLocaleString(undefined, { maximumFractionDigits: 6 })}</TableCell>
+                  <TableCell>{new Date(r.effective_date).toLocaleDateString()}</TableCell>
+                  <TableCell>{r.notes ?? "—"}</TableCell>
+                  <TableCell>{r.created_by_name ?? "—"}</TableCell>
+                  <TableCell>
+                    <Button size="sm" variant="outline" onClick={() => handleDelete(r)}>Delete</Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
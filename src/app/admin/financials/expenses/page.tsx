@@ -1,7 +1,13 @@
 "use client";
 
-import { DollarSign, TrendingDown, FileText, AlertCircle } from "lucide-react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { DollarSign, TrendingDown, FileText, AlertCircle, Loader2 } from "lucide-react";
+import { toast } from "sonner";
 import MetricCard from "@/components/admin/MetricCard";
+import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import { BASE_CURRENCY, DONATION_CURRENCIES, formatMoney } from "@/lib/financials/currency";
+import { EXPENSE_STATUSES } from "@/lib/financials/expenses";
+import { FUNDS } from "@/lib/financials/funds";
 import {
   Table,
   TableBody,
@@ -10,63 +16,503 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+
+type Expense = {
+  expense_id: string;
+  expense_number: string;
+  vendor_name: string;
+  description: string | null;
+  category_name: string;
+  project_name: string;
+  fund: string;
+  amount: number;
+  currency: string;
+  base_amount: number;
+  expense_date: string;
+  invoice_number: string | null;
+  has_invoice: boolean;
+  status: "Pending" | "Approved" | "Rejected";
+  rejection_reason: string | null;
+  created_at: string;
+  created_by_name: string | null;
+  created_by_me: boolean;
+  reviewed_by_name: string | null;
+  reviewed_at: string | null;
+};
+
+type ExpenseMetrics = {
+  total_expenses: number;
+  monthly_expenses: number;
+  pending_count: number;
+  pending_amount: number;
+  planned_budget: number;
+  budgeted_spend: number;
+  budget_variance: number;
+};
+
+type Category = { donation_category_id: string; donation_category_name: string; is_active: boolean };
+type Project = { project_id: string; project_name: string; donation_category_id: string; is_active: boolean };
+
+const EMPTY_FORM = {
+  category_id: "",
+  project_id: "",
+  vendor_name: "",
+  amount: "",
+  currency: BASE_CURRENCY as string,
+  fund: "General",
+  expense_date: new Date().toISOString().slice(0, 10),
+  invoice_number: "",
+  description: "",
+};
 
 export default function ExpensesPage() {
-  const metrics = [
-    { title: "Total Expenses", value: "Coming Soon", icon: <DollarSign className="h-5 w-5" />, accent: "rose" as const, subtext: "All time" },
-    { title: "Monthly Expenses", value: "Coming Soon", icon: <TrendingDown className="h-5 w-5" />, accent: "amber" as const, subtext: "This month" },
-    { title: "Pending Approvals", value: "Coming Soon", icon: <FileText className="h-5 w-5" />, accent: "blue" as const, subtext: "Awaiting review" },
-    { title: "Budget Variance", value: "Coming Soon", icon: <AlertCircle className="h-5 w-5" />, accent: "green" as const, subtext: "Current vs Planned" },
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [metrics, setMetrics] = useState<ExpenseMetrics | null>(null);
+  const [statusFilter, setStatusFilter] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [invoice, setInvoice] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadExpenses = useCallback(async () => {
+    setLoading(true);
+    try {
+      const query = statusFilter ? `?status=${statusFilter}` : "";
+      const res = await fetch(`/api/admin/financials/expenses${query}`, {
+        credentials: "include",
+        headers: { "Cache-Control": "no-cache" },
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load expenses");
+      }
+      setExpenses(data.expenses);
+      setMetrics(data.metrics);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadExpenses();
+  }, [loadExpenses]);
+
+  useEffect(() => {
+    const loadPrograms = async () => {
+      try {
+        const [catRes, projRes] = await Promise.all([
+          fetch("/api/admin/programs/categories", { credentials: "include" }),
+          fetch("/api/admin/programs/projects", { credentials: "include" }),
+        ]);
+        const [catData, projData] = await Promise.all([catRes.json(), projRes.json()]);
+        if (catRes.ok) setCategories((catData.items || []).filter((c: Category) => c.is_active));
+        if (projRes.ok) setProjects((projData.items || []).filter((p: Project) => p.is_active));
+      } catch {
+        // The form shows empty lists; the table still works
+      }
+    };
+    loadPrograms();
+  }, []);
+
+  const categoryProjects = useMemo(
+    () => projects.filter((p) => p.donation_category_id === form.category_id),
+    [projects, form.category_id]
+  );
+
+  const metricCards = [
+    {
+      title: "Total Expenses",
+      value: metrics ? formatMoney(metrics.total_expenses) : "-",
+      icon: <DollarSign className="h-5 w-5" />,
+      accent: "rose" as const,
+      subtext: "Approved, all time",
+    },
+    {
+      title: "Monthly Expenses",
+      value: metrics ? formatMoney(metrics.monthly_expenses) : "-",
+      icon: <TrendingDown className="h-5 w-5" />,
+      accent: "amber" as const,
+      subtext: "Approved, this month",
+    },
+    {
+      title: "Pending Approvals",
+      value: metrics ? metrics.pending_count : "-",
+      icon: <FileText className="h-5 w-5" />,
+      accent: "blue" as const,
+      subtext: metrics ? `${formatMoney(metrics.pending_amount)} awaiting review` : "Awaiting review",
+    },
+    {
+      title: "Budget Variance",
+      value: metrics ? formatMoney(metrics.budget_variance) : "-",
+      icon: <AlertCircle className="h-5 w-5" />,
+      accent: "green" as const,
+      subtext: metrics
+        ? `${formatMoney(metrics.budgeted_spend)} spent of ${formatMoney(metrics.planned_budget)} planned`
+        : "Planned vs spent",
+    },
   ];
 
+  const handleCreate = async () => {
+    const amount = Number(form.amount);
+    if (!form.project_id || !form.vendor_name.trim() || !form.expense_date) {
+      toast.error("Project, vendor and date are required");
+      return;
+    }
+    if (!Number.isFinite(amount) || amount <= 0) {
+      toast.error("Enter an amount greater than 0");
+      return;
+    }
+    setSaving(true);
+    try {
+      const body = new FormData();
+      body.append("project_id", form.project_id);
+      body.append("vendor_name", form.vendor_name.trim());
+      body.append("amount", String(amount));
+      body.append("currency", form.currency);
+      body.append("fund", form.fund);
+      body.append("expense_date", form.expense_date);
+      body.append("invoice_number", form.invoice_number);
+      body.append("description", form.description);
+      if (invoice) body.append("invoice", invoice);
+
+      const res = await fetchWithCSRF("/api/admin/financials/expenses", {
+        method: "POST",
+        credentials: "include",
+        body,
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to record expense");
+      }
+      toast.success(`Expense ${data.expense?.expense_number ?? ""} recorded for approval`);
+      setShowForm(false);
+      setForm(EMPTY_FORM);
+      setInvoice(null);
+      await loadExpenses();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleApprove = async (expenseId: string) => {
+    const t = toast.loading("Approving expense...");
+    try {
+      const res = await fetchWithCSRF(`/api/admin/financials/expenses/${expenseId}/approve`, {
+        method: "POST",
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to approve expense");
+      }
+      toast.success("Expense approved", { id: t });
+      await loadExpenses();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg, { id: t });
+    }
+  };
+
+  const handleReject = async (expenseId: string) => {
+    const reason = prompt("Enter rejection reason:");
+    if (!reason) return;
+    const t = toast.loading("Rejecting expense...");
+    try {
+      const res = await fetchWithCSRF(`/api/admin/financials/expenses/${expenseId}/reject`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ reason }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to reject expense");
+      }
+      toast.success("Expense rejected", { id: t });
+      await loadExpenses();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg, { id: t });
+    }
+  };
+
   return (
     <div className="space-y-6 pt-2">
-      <div>
-        <h1 className="text-2xl font-bold tracking-tight text-gray-900">Expenses Management</h1>
-        <p className="mt-1 text-sm text-gray-600">Track and manage organizational expenses</p>
+      <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-gray-900">Expenses Management</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Expenses are charged to a project and need approval from an admin other than the one who recorded them.
+          </p>
+        </div>
+        <Button onClick={() => setShowForm(true)}>New Expense</Button>
       </div>
 
       {/* Metrics Grid */}
       <section className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
-        {metrics.map((metric) => (
+        {metricCards.map((metric) => (
           <MetricCard
             key={metric.title}
             title={metric.title}
             value={metric.value}
             icon={metric.icon}
             accent={metric.accent}
+            subtext={metric.subtext}
+            isLoading={loading && !metrics}
           />
         ))}
       </section>
 
+      <div className="flex items-center justify-end">
+        <select
+          aria-label="Filter by status"
+          className="block rounded-md border border-gray-300 bg-white p-2 text-sm"
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value)}
+        >
+          <option value="">All statuses</option>
+          {EXPENSE_STATUSES.map((s) => (
+            <option key={s} value={s}>{s}</option>
+          ))}
+        </select>
+      </div>
+
       {/* Expenses Table */}
       <div className="rounded-md border">
         <Table>
           <TableHeader>
             <TableRow>
               <TableHead>Expense ID</TableHead>
-              <TableHead>Description</TableHead>
-              <TableHead>Category</TableHead>
+              <TableHead>Vendor</TableHead>
+              <TableHead>Project</TableHead>
               <TableHead>Amount</TableHead>
               <TableHead>Date</TableHead>
+              <TableHead>Invoice</TableHead>
               <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            <TableRow>
-              <TableCell colSpan={6} className="h-24 text-center">
-                No expenses recorded yet.
-              </TableCell>
-            </TableRow>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={8} className="h-24 text-center">
+                  <Loader2 className="mx-auto h-5 w-5 animate-spin" />
+                </TableCell>
+              </TableRow>
+            ) : expenses.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="h-24 text-center">
+                  No expenses recorded yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              expenses.map((e) => (
+                <TableRow key={e.expense_id}>
+                  <TableCell className="font-medium">{e.expense_number}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{e.vendor_name}</div>
+                    {e.description && <div className="max-w-xs truncate text-xs text-gray-500">{e.description}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <div>{e.project_name}</div>
+                    <div className="text-xs text-gray-500">{e.category_name} · {e.fund} fund</div>
+                  </TableCell>
+                  <TableCell>
+                    <div>{formatMoney(e.amount, e.currency)}</div>
+                    {e.currency !== BASE_CURRENCY && (
+                      <div className="text-xs text-gray-500">{formatMoney(e.base_amount)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{e.expense_date}</TableCell>
+                  <TableCell>
+                    {e.invoice_number && <div className="text-sm">{e.invoice_number}</div>}
+                    {e.has_invoice ? (
+                      <a
+                        href={`/api/admin/financials/expenses/${e.expense_id}/invoice`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-blue-600 hover:underline"
+                      >
+                        View invoice
+                      </a>
+                    ) : (
+                      !e.invoice_number && "-"
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {e.status === "Pending" && <Badge variant="outline">Pending</Badge>}
+                    {e.status === "Approved" && <Badge variant="secondary">Approved</Badge>}
+                    {e.status === "Rejected" && <Badge variant="destructive">Rejected</Badge>}
+                    {e.status === "Rejected" && e.rejection_reason && (
+                      <div className="mt-1 max-w-xs text-xs text-gray-500">{e.rejection_reason}</div>
+                    )}
+                    {e.status !== "Pending" && e.reviewed_by_name && (
+                      <div className="mt-1 text-xs text-gray-500">by {e.reviewed_by_name}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {e.status !== "Pending" ? (
+                      "-"
+                    ) : e.created_by_me ? (
+                      <span className="text-xs text-gray-500">Recorded by you; another admin must review</span>
+                    ) : (
+                      <div className="flex gap-2">
+                        <Button size="sm" onClick={() => handleApprove(e.expense_id)}>Approve</Button>
+                        <Button size="sm" variant="outline" onClick={() => handleReject(e.expense_id)}>Reject</Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
           </TableBody>
         </Table>
       </div>
 
-      {/* Placeholder note */}
-      <section className="rounded-lg border border-dashed border-gray-200 p-4 text-sm text-gray-600">
-        <h2 className="mb-1 font-semibold text-gray-900">Coming Soon</h2>
-        <p>This section will include expense tracking, approval workflows, and budget management features.</p>
-      </section>
+      {showForm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black/40" onClick={() => !saving && setShowForm(false)} />
+          <div className="relative z-10 w-full max-w-2xl rounded-lg bg-white p-6 shadow-lg">
+            <h3 className="text-lg font-semibold text-gray-900">New Expense</h3>
+            <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div>
+                <Label htmlFor="category_id">Category</Label>
+                <select
+                  id="category_id"
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={form.category_id}
+                  onChange={(e) => setForm({ ...form, category_id: e.target.value, project_id: "" })}
+                >
+                  <option value="">Select category</option>
+                  {categories.map((c) => (
+                    <option key={c.donation_category_id} value={c.donation_category_id}>
+                      {c.donation_category_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="project_id">Project</Label>
+                <select
+                  id="project_id"
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={form.project_id}
+                  disabled={!form.category_id}
+                  onChange={(e) => setForm({ ...form, project_id: e.target.value })}
+                >
+                  <option value="">Select project</option>
+                  {categoryProjects.map((p) => (
+                    <option key={p.project_id} value={p.project_id}>
+                      {p.project_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="vendor_name">Vendor</Label>
+                <Input
+                  id="vendor_name"
+                  value={form.vendor_name}
+                  onChange={(e) => setForm({ ...form, vendor_name: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="fund">Charge to fund</Label>
+                <select
+                  id="fund"
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={form.fund}
+                  onChange={(e) => setForm({ ...form, fund: e.target.value })}
+                >
+                  {FUNDS.filter((f) => f !== "Zakat").map((f) => (
+                    <option key={f} value={f}>{f}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">Zakat is paid out through fund disbursements only.</p>
+              </div>
+              <div>
+                <Label htmlFor="amount">Amount</Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.amount}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="currency">Currency</Label>
+                <select
+                  id="currency"
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={form.currency}
+                  onChange={(e) => setForm({ ...form, currency: e.target.value })}
+                >
+                  {DONATION_CURRENCIES.map((c) => (
+                    <option key={c} value={c}>{c}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="expense_date">Date</Label>
+                <Input
+                  id="expense_date"
+                  type="date"
+                  max={new Date().toISOString().slice(0, 10)}
+                  value={form.expense_date}
+                  onChange={(e) => setForm({ ...form, expense_date: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="invoice_number">Invoice number</Label>
+                <Input
+                  id="invoice_number"
+                  value={form.invoice_number}
+                  onChange={(e) => setForm({ ...form, invoice_number: e.target.value })}
+                />
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="invoice">Invoice attachment (JPG, PNG, WebP or PDF, up to 10 MB)</Label>
+                <input
+                  id="invoice"
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp,application/pdf"
+                  className="mt-2 block w-full text-sm"
+                  onChange={(e) => setInvoice(e.target.files?.[0] ?? null)}
+                />
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="description">Description</Label>
+                <textarea
+                  id="description"
+                  rows={3}
+                  className="mt-2 block w-full rounded-md border border-gray-300 p-2 text-sm"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="mt-6 flex justify-end gap-3">
+              <Button variant="outline" onClick={() => setShowForm(false)} disabled={saving}>Cancel</Button>
+              <Button onClick={handleCreate} disabled={saving}>{saving ? "Saving..." : "Record Expense"}</Button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,498 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Coins, HeartHandshake, Landmark, Wallet, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import MetricCard from "@/components/admin/MetricCard";
+import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import { formatMoney } from "@/lib/financials/currency";
+import { DISBURSEMENT_PURPOSES, FUNDS, purposesForFund, type Fund } from "@/lib/financials/funds";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+
+type FundBalance = {
+  fund: Fund;
+  received: number;
+  disbursed: number;
+  spent: number;
+  balance: number;
+};
+
+type LedgerEntry = {
+  entry_date: string;
+  entry_type: "donation" | "disbursement" | "expense";
+  entry_id: string;
+  reference: string | null;
+  description: string | null;
+  credit: number;
+  debit: number;
+  running_balance: number;
+};
+
+type Disbursement = {
+  disbursement_id: string;
+  disbursement_number: string;
+  fund: Fund;
+  purpose: string;
+  beneficiary_name: string | null;
+  beneficiary_cnic: string | null;
+  project_name: string | null;
+  amount: number;
+  disbursement_date: string;
+  reference: string | null;
+  notes: string | null;
+  created_by_name: string | null;
+  created_at: string;
+  voided_at: string | null;
+  void_reason: string | null;
+};
+
+type Project = { project_id: string; project_name: string; is_active: boolean };
+
+const FUND_ICONS: Record<Fund, JSX.Element> = {
+  Zakat: <HeartHandshake className="h-5 w-5" />,
+  Sadqa: <Coins className="h-5 w-5" />,
+  General: <Landmark className="h-5 w-5" />,
+};
+
+const FUND_ACCENTS = { Zakat: "green", Sadqa: "blue", General: "amber" } as const;
+
+const EMPTY_FORM = {
+  fund: "Zakat" as Fund,
+  purpose: "Poor",
+  beneficiary_name: "",
+  beneficiary_cnic: "",
+  project_id: "",
+  amount: "",
+  disbursement_date: new Date().toISOString().slice(0, 10),
+  reference: "",
+  notes: "",
+};
+
+const purposeLabel = (value: string) => DISBURSEMENT_PURPOSES.find((p) => p.value === value)?.label ?? value;
+
+export default function FundsPage() {
+  const [balances, setBalances] = useState<FundBalance[]>([]);
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+  const [disbursements, setDisbursements] = useState<Disbursement[]>([]);
+  const [selectedFund, setSelectedFund] = useState<Fund>("Zakat");
+  const [loading, setLoading] = useState(true);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const loadFund = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [fundsRes, disbRes] = await Promise.all([
+        fetch(`/api/admin/financials/funds?fund=${selectedFund}`, {
+          credentials: "include",
+          headers: { "Cache-Control": "no-cache" },
+        }),
+        fetch(`/api/admin/financials/funds/disbursements?fund=${selectedFund}`, {
+          credentials: "include",
+          headers: { "Cache-Control": "no-cache" },
+        }),
+      ]);
+      const [fundsData, disbData] = await Promise.all([fundsRes.json(), disbRes.json()]);
+      if (!fundsRes.ok) {
+        throw new Error(fundsData?.error || "Failed to load fund ledger");
+      }
+      if (!disbRes.ok) {
+        throw new Error(disbData?.error || "Failed to load disbursements");
+      }
+      setBalances(fundsData.balances);
+      setLedger(fundsData.ledger);
+      setDisbursements(disbData.disbursements);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedFund]);
+
+  useEffect(() => {
+    loadFund();
+  }, [loadFund]);
+
+  useEffect(() => {
+    const loadProjects = async () => {
+      try {
+        const res = await fetch("/api/admin/programs/projects", { credentials: "include" });
+        const data = await res.json();
+        if (res.ok) setProjects((data.items || []).filter((p: Project) => p.is_active));
+      } catch {
+        // Linking a project is optional
+      }
+    };
+    loadProjects();
+  }, []);
+
+  const formPurposes = useMemo(() => purposesForFund(form.fund), [form.fund]);
+  const balanceOf = (fund: Fund) => balances.find((b) => b.fund === fund);
+
+  const metricCards = [
+    ...FUNDS.map((fund) => {
+      const b = balanceOf(fund);
+      return {
+        title: `${fund} Fund`,
+        value: b ? formatMoney(b.balance) : "-",
+        icon: FUND_ICONS[fund],
+        accent: FUND_ACCENTS[fund],
+        subtext: b ? `${formatMoney(b.received)} received · ${formatMoney(Number(b.disbursed) + Number(b.spent))} paid out` : "Available balance",
+      };
+    }),
+    {
+      title: "All Funds",
+      value: balances.length ? formatMoney(balances.reduce((sum, b) => sum + Number(b.balance), 0)) : "-",
+      icon: <Wallet className="h-5 w-5" />,
+      accent: "rose" as const,
+      subtext: "Combined available balance",
+    },
+  ];
+
+  const handleFundChange = (fund: Fund) => {
+    const purposes = purposesForFund(fund);
+    setForm({
+      ...form,
+      fund,
+      purpose: purposes.some((p) => p.value === form.purpose) ? form.purpose : purposes[0].value,
+    });
+  };
+
+  const handleCreate = async () => {
+    const amount = Number(form.amount);
+    if (!Number.isFinite(amount) || amount <= 0 || !form.disbursement_date) {
+      toast.error("Amount and date are required");
+      return;
+    }
+    if (form.fund === "Zakat" && !form.beneficiary_name.trim()) {
+      toast.error("Zakat disbursements must name the beneficiary");
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetchWithCSRF("/api/admin/financials/funds/disbursements", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ ...form, amount, project_id: form.project_id || null }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to record disbursement");
+      }
+      toast.success(`Disbursement ${data.disbursement?.disbursement_number ?? ""} recorded`);
+      setShowForm(false);
+      setForm(EMPTY_FORM);
+      if (form.fund !== selectedFund) {
+        setSelectedFund(form.fund);
+      } else {
+        await loadFund();
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleVoid = async (disbursementId: string) => {
+    const reason = prompt("Enter reason for voiding this disbursement:");
+    if (!reason) return;
+    const t = toast.loading("Voiding disbursement...");
+    try {
+      const res = await fetchWithCSRF(`/api/admin/financials/funds/disbursements/${disbursementId}/void`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ reason }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to void disbursement");
+      }
+      toast.success("Disbursement voided", { id: t });
+      await loadFund();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg, { id: t });
+    }
+  };
+
+  return (
+    <div className="space-y-6 pt-2">
+      <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-gray-900">Fund Ledger</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Donations credit the fund of their type. Zakat is restricted to named beneficiaries in the eight eligible categories.
+          </p>
+        </div>
+        <Button onClick={() => setShowForm(true)}>New Disbursement</Button>
+      </div>
+
+      {/* Metrics Grid */}
+      <section className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {metricCards.map((metric) => (
+          <MetricCard
+            key={metric.title}
+            title={metric.title}
+            value={metric.value}
+            icon={metric.icon}
+            accent={metric.accent}
+            subtext={metric.subtext}
+            isLoading={loading && balances.length === 0}
+          />
+        ))}
+      </section>
+
+      <div className="flex items-center justify-end">
+        <select
+          aria-label="Fund"
+          className="block rounded-md border border-gray-300 bg-white p-2 text-sm"
+          value={selectedFund}
+          onChange={(e) => setSelectedFund(e.target.value as Fund)}
+        >
+          {FUNDS.map((f) => (
+            <option key={f} value={f}>{f} fund</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Ledger */}
+      <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <h2 className="mb-4 text-lg font-semibold text-gray-900">{selectedFund} ledger</h2>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">In</TableHead>
+                <TableHead className="text-right">Out</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center">
+                    <Loader2 className="mx-auto h-5 w-5 animate-spin" />
+                  </TableCell>
+                </TableRow>
+              ) : ledger.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center">
+                    No entries in this fund yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                ledger.map((entry) => (
+                  <TableRow key={`${entry.entry_type}-${entry.entry_id}`}>
+                    <TableCell>{entry.entry_date}</TableCell>
+                    <TableCell className="capitalize">{entry.entry_type}</TableCell>
+                    <TableCell className="font-medium">{entry.reference ?? "-"}</TableCell>
+                    <TableCell>{entry.description ?? "-"}</TableCell>
+                    <TableCell className="text-right">{Number(entry.credit) > 0 ? formatMoney(entry.credit) : ""}</TableCell>
+                    <TableCell className="text-right">{Number(entry.debit) > 0 ? formatMoney(entry.debit) : ""}</TableCell>
+                    <TableCell className="text-right">{formatMoney(entry.running_balance)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </section>
+
+      {/* Disbursements */}
+      <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <h2 className="mb-4 text-lg font-semibold text-gray-900">{selectedFund} disbursements</h2>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Number</TableHead>
+                <TableHead>Beneficiary</TableHead>
+                <TableHead>Purpose</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!loading && disbursements.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center">
+                    No disbursements from this fund yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                disbursements.map((d) => (
+                  <TableRow key={d.disbursement_id}>
+                    <TableCell className="font-medium">{d.disbursement_number}</TableCell>
+                    <TableCell>
+                      <div>{d.beneficiary_name ?? "-"}</div>
+                      {d.beneficiary_cnic && <div className="text-xs text-gray-500">CNIC {d.beneficiary_cnic}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <div>{purposeLabel(d.purpose)}</div>
+                      {d.project_name && <div className="text-xs text-gray-500">{d.project_name}</div>}
+                    </TableCell>
+                    <TableCell>{formatMoney(d.amount)}</TableCell>
+                    <TableCell>{d.disbursement_date}</TableCell>
+                    <TableCell>
+                      {d.voided_at ? (
+                        <>
+                          <Badge variant="destructive">Voided</Badge>
+                          {d.void_reason && <div className="mt-1 max-w-xs text-xs text-gray-500">{d.void_reason}</div>}
+                        </>
+                      ) : (
+                        <Badge variant="secondary">Paid</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {d.voided_at ? (
+                        "-"
+                      ) : (
+                        <Button size="sm" variant="outline" onClick={() => handleVoid(d.disbursement_id)}>Void</Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </section>
+
+      {showForm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black/40" onClick={() => !saving && setShowForm(false)} />
+          <div className="relative z-10 w-full max-w-2xl rounded-lg bg-white p-6 shadow-lg">
+            <h3 className="text-lg font-semibold text-gray-900">New Disbursement</h3>
+            <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div>
+                <Label htmlFor="fund">Fund</Label>
+                <select
+                  id="fund"
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={form.fund}
+                  onChange={(e) => handleFundChange(e.target.value as Fund)}
+                >
+                  {FUNDS.map((f) => (
+                    <option key={f} value={f}>
+                      {f} ({formatMoney(balanceOf(f)?.balance ?? 0)} available)
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="purpose">Purpose</Label>
+                <select
+                  id="purpose"
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={form.purpose}
+                  onChange={(e) => setForm({ ...form, purpose: e.target.value })}
+                >
+                  {formPurposes.map((p) => (
+                    <option key={p.value} value={p.value}>{p.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="beneficiary_name">Beneficiary{form.fund === "Zakat" ? "" : " (optional)"}</Label>
+                <Input
+                  id="beneficiary_name"
+                  value={form.beneficiary_name}
+                  onChange={(e) => setForm({ ...form, beneficiary_name: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="beneficiary_cnic">Beneficiary CNIC (optional)</Label>
+                <Input
+                  id="beneficiary_cnic"
+                  value={form.beneficiary_cnic}
+                  onChange={(e) => setForm({ ...form, beneficiary_cnic: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="amount">Amount (PKR)</Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.amount}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="disbursement_date">Date</Label>
+                <Input
+                  id="disbursement_date"
+                  type="date"
+                  max={new Date().toISOString().slice(0, 10)}
+                  value={form.disbursement_date}
+                  onChange={(e) => setForm({ ...form, disbursement_date: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="project_id">Project (optional)</Label>
+                <select
+                  id="project_id"
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={form.project_id}
+                  onChange={(e) => setForm({ ...form, project_id: e.target.value })}
+                >
+                  <option value="">None</option>
+                  {projects.map((p) => (
+                    <option key={p.project_id} value={p.project_id}>{p.project_name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="reference">Payment reference</Label>
+                <Input
+                  id="reference"
+                  value={form.reference}
+                  onChange={(e) => setForm({ ...form, reference: e.target.value })}
+                />
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="notes">Notes</Label>
+                <textarea
+                  id="notes"
+                  rows={3}
+                  className="mt-2 block w-full rounded-md border border-gray-300 p-2 text-sm"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="mt-6 flex justify-end gap-3">
+              <Button variant="outline" onClick={() => setShowForm(false)} disabled={saving}>Cancel</Button>
+              <Button onClick={handleCreate} disabled={saving}>{saving ? "Saving..." : "Record Disbursement"}</Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,517 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import { formatMoney } from "@/lib/financials/currency";
+import {
+  IMPORT_FIELDS,
+  buildImportRows,
+  guessColumnMapping,
+  missingImportFields,
+  type ImportBatch,
+  type ImportBatchSummary,
+  type ImportColumnMapping,
+  type ImportField,
+  type ImportRowResult,
+} from "@/lib/financials/donationImport";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+
+type Step = "upload" | "map" | "review" | "done";
+
+type ResultFilter = "all" | ImportRowResult["status"];
+
+const STEPS: { key: Step; label: string }[] = [
+  { key: "upload", label: "1. Upload" },
+  { key: "map", label: "2. Map columns" },
+  { key: "review", label: "3. Dry run" },
+  { key: "done", label: "4. Imported" },
+];
+
+export default function DonationImportPage() {
+  const [step, setStep] = useState<Step>("upload");
+  const [file, setFile] = useState<File | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportColumnMapping | null>(null);
+  const [results, setResults] = useState<ImportRowResult[]>([]);
+  const [filter, setFilter] = useState<ResultFilter>("all");
+  const [preApprove, setPreApprove] = useState(false);
+  const [batch, setBatch] = useState<ImportBatch | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [recentBatches, setRecentBatches] = useState<ImportBatchSummary[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [approvingBatchId, setApprovingBatchId] = useState<string | null>(null);
+
+  const importRows = useMemo(() => (mapping ? buildImportRows(rows, mapping) : []), [rows, mapping]);
+  const missing = useMemo(() => (mapping ? missingImportFields(mapping) : []), [mapping]);
+
+  const counts = useMemo(() => {
+    const c = { valid: 0, error: 0, duplicate: 0 };
+    for (const r of results) c[r.status] += 1;
+    return c;
+  }, [results]);
+
+  const awaitingBatches = recentBatches.filter((b) => b.awaiting_approval_count > 0);
+
+  const loadBatches = useCallback(async () => {
+    try {
+      const res = await fetch("/api/admin/financials/import", {
+        credentials: "include",
+        headers: { "Cache-Control": "no-cache" },
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load import batches");
+      }
+      setRecentBatches(data.batches);
+      setCurrentUserId(data.currentUserId);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBatches();
+  }, [loadBatches]);
+
+  const visibleResults = filter === "all" ? results : results.filter((r) => r.status === filter);
+
+  const reset = () => {
+    setStep("upload");
+    setFile(null);
+    setFileName("");
+    setHeaders([]);
+    setRows([]);
+    setMapping(null);
+    setResults([]);
+    setFilter("all");
+    setPreApprove(false);
+    setBatch(null);
+  };
+
+  const handleParse = async () => {
+    if (!file) {
+      toast.error("Choose a .csv or .xlsx file");
+      return;
+    }
+    setBusy(true);
+    try {
+      const body = new FormData();
+      body.append("file", file);
+      const res = await fetchWithCSRF("/api/admin/financials/import/parse", {
+        method: "POST",
+        credentials: "include",
+        body,
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to read the file");
+      }
+      setFileName(data.fileName);
+      setHeaders(data.headers);
+      setRows(data.rows);
+      setMapping(guessColumnMapping(data.headers));
+      setStep("map");
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleValidate = async () => {
+    if (missing.length > 0) {
+      toast.error(`Map these fields first: ${missing.join(", ")}`);
+      return;
+    }
+    setBusy(true);
+    try {
+      const res = await fetchWithCSRF("/api/admin/financials/import/validate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ rows: importRows }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to validate the import");
+      }
+      setResults(data.results);
+      setFilter("all");
+      setStep("review");
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (counts.valid === 0) {
+      toast.error("There are no valid rows to import");
+      return;
+    }
+    setBusy(true);
+    try {
+      const res = await fetchWithCSRF("/api/admin/financials/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ rows: importRows, pre_approve: preApprove, file_name: fileName }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to import donations");
+      }
+      setBatch(data.batch);
+      setStep("done");
+      toast.success(`Imported ${data.batch.imported_count} donation${data.batch.imported_count === 1 ? "" : "s"}`);
+      if (data.batch.pre_approve_ignored_count > 0) {
+        toast.info(
+          `Pre-approval was ignored for ${data.batch.pre_approve_ignored_count} current-year row${data.batch.pre_approve_ignored_count === 1 ? "" : "s"}; they are in the approval queue`
+        );
+      }
+      await loadBatches();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleApproveBatch = async (batchId: string) => {
+    setApprovingBatchId(batchId);
+    try {
+      const res = await fetchWithCSRF(`/api/admin/financials/import/${batchId}/approve`, {
+        method: "POST",
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to approve the import batch");
+      }
+      const { approved, firstApprovals, failed } = data.summary;
+      toast.success(`${approved} approved`);
+      if (firstApprovals > 0) {
+        toast.info(`${firstApprovals} recorded as first approval; another admin must give the final approval`);
+      }
+      if (failed > 0) {
+        const reasons = Array.from(new Set((data.results as { outcome: string; message: string | null }[])
+          .filter((r) => r.outcome === "failed")
+          .map((r) => r.message)));
+        toast.error(`${failed} could not be approved: ${reasons.join("; ")}`);
+      }
+      await loadBatches();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setApprovingBatchId(null);
+    }
+  };
+
+  const setFieldColumn = (field: ImportField, value: string) => {
+    setMapping((prev) => (prev ? { ...prev, [field]: value === "" ? null : Number(value) } : prev));
+  };
+
+  return (
+    <div className="space-y-6 pt-2">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-gray-900">Import Donations</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Bring historical donations in from a CSV or Excel (.xlsx) file. Nothing is saved until the dry run has been reviewed.
+        </p>
+      </div>
+
+      <ol className="flex flex-wrap gap-2 text-sm">
+        {STEPS.map((s) => (
+          <li
+            key={s.key}
+            className={`rounded-full px-3 py-1 ${s.key === step ? "bg-gray-900 text-white" : "bg-gray-100 text-gray-600"}`}
+          >
+            {s.label}
+          </li>
+        ))}
+      </ol>
+
+      {awaitingBatches.length > 0 && (
+        <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-semibold text-gray-900">Batches awaiting approval</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Previous-year rows flagged at import. A second admin approves them together; each still gets an official receipt.
+          </p>
+          <div className="mt-4 overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>File</TableHead>
+                  <TableHead>Imported</TableHead>
+                  <TableHead>Imported By</TableHead>
+                  <TableHead className="text-right">Awaiting</TableHead>
+                  <TableHead className="text-right">Approved</TableHead>
+                  <TableHead className="text-right">Action</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {awaitingBatches.map((b) => {
+                  const ownBatch = b.imported_by === currentUserId;
+                  return (
+                    <TableRow key={b.batch_id}>
+                      <TableCell>{b.file_name || "-"}</TableCell>
+                      <TableCell>{new Date(b.created_at).toLocaleDateString()}</TableCell>
+                      <TableCell>{b.imported_by_name || "-"}</TableCell>
+                      <TableCell className="text-right">{b.awaiting_approval_count}</TableCell>
+                      <TableCell className="text-right">{b.approved_count}</TableCell>
+                      <TableCell className="text-right">
+                        {ownBatch ? (
+                          <span className="text-xs text-gray-500">Needs a second admin</span>
+                        ) : (
+                          <Button
+                            size="sm"
+                            onClick={() => handleApproveBatch(b.batch_id)}
+                            disabled={approvingBatchId !== null}
+                          >
+                            {approvingBatchId === b.batch_id ? "Approving..." : "Approve Batch"}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </section>
+      )}
+
+      {step === "upload" && (
+        <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+          <Label htmlFor="import_file">Spreadsheet</Label>
+          <input
+            id="import_file"
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            className="mt-2 block w-full text-sm"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          />
+          <p className="mt-2 text-xs text-gray-500">
+            The first row must hold column names; only the first sheet of a workbook is read. Up to 2000 rows and 5 MB per file.
+          </p>
+          <div className="mt-4">
+            <Button onClick={handleParse} disabled={busy || !file}>
+              {busy ? "Reading..." : "Continue"}
+            </Button>
+          </div>
+        </section>
+      )}
+
+      {step === "map" && mapping && (
+        <section className="space-y-4 rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Map columns</h2>
+            <p className="mt-1 text-sm text-gray-600">
+              {fileName}: {rows.length} row{rows.length === 1 ? "" : "s"}. Donors are matched by donor number, then phone,
+              then CNIC; categories and projects by name. Currency defaults to PKR when not mapped.
+            </p>
+          </div>
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {IMPORT_FIELDS.map((field) => (
+              <div key={field.key}>
+                <Label htmlFor={`map_${field.key}`}>{field.label}</Label>
+                <select
+                  id={`map_${field.key}`}
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={mapping[field.key] ?? ""}
+                  onChange={(e) => setFieldColumn(field.key, e.target.value)}
+                >
+                  <option value="">Not in file</option>
+                  {headers.map((h, i) => (
+                    <option key={i} value={i}>
+                      {h || `Column ${i + 1}`}
+                    </option>
+                  ))}
+                </select>
+                {mapping[field.key] !== null && rows[0] && (
+                  <p className="mt-1 truncate text-xs text-gray-500">e.g. {rows[0][mapping[field.key]!] || "(empty)"}</p>
+                )}
+              </div>
+            ))}
+          </div>
+          {missing.length > 0 && <p className="text-sm text-red-600">Still to map: {missing.join(", ")}</p>}
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={reset} disabled={busy}>Start Over</Button>
+            <Button onClick={handleValidate} disabled={busy || missing.length > 0}>
+              {busy ? "Checking..." : "Run Dry Run"}
+            </Button>
+          </div>
+        </section>
+      )}
+
+      {step === "review" && (
+        <section className="space-y-4">
+          <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+            <p className="text-sm text-gray-700">
+              {counts.valid} ready to import · {counts.duplicate} duplicate{counts.duplicate === 1 ? "" : "s"} · {counts.error} with
+              errors. Duplicates and rows with errors are skipped.
+            </p>
+            <select
+              aria-label="Filter rows"
+              className="block rounded-md border border-gray-300 bg-white p-2 text-sm"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value as ResultFilter)}
+            >
+              <option value="all">All rows</option>
+              <option value="valid">Ready</option>
+              <option value="duplicate">Duplicates</option>
+              <option value="error">Errors</option>
+            </select>
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Row</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Donor</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Project</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Transaction ID</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleResults.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="h-24 text-center">No rows.</TableCell>
+                  </TableRow>
+                ) : (
+                  visibleResults.map((r) => (
+                    <TableRow key={r.row_number}>
+                      <TableCell>{r.row_number}</TableCell>
+                      <TableCell>
+                        {r.status === "valid" && <Badge variant="secondary">Ready</Badge>}
+                        {r.status === "duplicate" && <Badge variant="outline">Duplicate</Badge>}
+                        {r.status === "error" && <Badge variant="destructive">Error</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        {r.donor_number ? (
+                          <>
+                            <div className="font-medium">{r.donor_name || "-"}</div>
+                            <div className="text-xs text-gray-500">{r.donor_number}</div>
+                          </>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
+                      <TableCell>{r.amount !== null ? formatMoney(r.amount, r.currency ?? undefined) : "-"}</TableCell>
+                      <TableCell>
+                        {r.project_name ? (
+                          <>
+                            <div>{r.project_name}</div>
+                            <div className="text-xs text-gray-500">{r.category_name}</div>
+                          </>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
+                      <TableCell>{r.donation_date ?? "-"}</TableCell>
+                      <TableCell>{r.transaction_id ?? "-"}</TableCell>
+                      <TableCell className="text-sm">
+                        {r.errors.length > 0 ? (
+                          <ul className="list-disc pl-4 text-red-600">
+                            {r.errors.map((e) => (
+                              <li key={e}>{e}</li>
+                            ))}
+                          </ul>
+                        ) : r.duplicate_of === "existing" ? (
+                          <span className="text-amber-700">Transaction ID already recorded</span>
+                        ) : r.duplicate_of === "file" ? (
+                          <span className="text-amber-700">Repeats an earlier row in this file</span>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+            <label className="flex items-start gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={preApprove}
+                onChange={(e) => setPreApprove(e.target.checked)}
+              />
+              <span>
+                Flag rows from previous financial years for batch approval. A second admin approves them together from
+                this page and each gets an official receipt. Rows from the current financial year always go to the
+                normal approval queue.
+              </span>
+            </label>
+            <div className="mt-4 flex gap-3">
+              <Button variant="outline" onClick={() => setStep("map")} disabled={busy}>Back</Button>
+              <Button onClick={handleImport} disabled={busy || counts.valid === 0}>
+                {busy ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Importing...
+                  </>
+                ) : (
+                  `Import ${counts.valid} Row${counts.valid === 1 ? "" : "s"}`
+                )}
+              </Button>
+            </div>
+          </div>
+        </section>
+      )}
+
+      {step === "done" && batch && (
+        <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-semibold text-gray-900">Import complete</h2>
+          <ul className="mt-2 space-y-1 text-sm text-gray-700">
+            <li>{batch.imported_count} donation request{batch.imported_count === 1 ? "" : "s"} created</li>
+            {batch.pre_approved && (
+              <li>{batch.batch_approval_count} from previous financial years waiting for batch approval by a second admin</li>
+            )}
+            {batch.pre_approve_ignored_count > 0 && (
+              <li className="text-amber-700">
+                Pre-approval ignored for {batch.pre_approve_ignored_count} current-year row
+                {batch.pre_approve_ignored_count === 1 ? "" : "s"}
+              </li>
+            )}
+            <li>{batch.imported_count - batch.batch_approval_count} waiting in the approval queue</li>
+            <li>{batch.skipped_count} skipped (errors or duplicates)</li>
+          </ul>
+          <div className="mt-4 flex gap-3">
+            <Button variant="outline" onClick={reset}>Import Another File</Button>
+            <Button asChild>
+              <a href="/admin/financials/donations">Go to Donations</a>
+            </Button>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { formatMoney } from "@/lib/financials/currency";
+import { DEFAULT_FINANCIAL_YEAR_START_MONTH, getFinancialYear, getFinancialYearRange } from "@/lib/financials/financialYear";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+
+type TrialBalanceAccount = {
+  account_code: string;
+  account_name: string;
+  account_type: string;
+  total_debit: number;
+  total_credit: number;
+  balance_debit: number;
+  balance_credit: number;
+};
+
+type TrialBalanceTotals = { debit: number; credit: number; balanced: boolean };
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function LedgerPage() {
+  const [asOf, setAsOf] = useState(today());
+  const [accounts, setAccounts] = useState<TrialBalanceAccount[]>([]);
+  const [totals, setTotals] = useState<TrialBalanceTotals | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exportFrom, setExportFrom] = useState("");
+  const [exportTo, setExportTo] = useState(today());
+
+  // The export defaults to the current financial year, which starts in the configured month
+  useEffect(() => {
+    const loadStartMonth = async () => {
+      let month = DEFAULT_FINANCIAL_YEAR_START_MONTH;
+      try {
+        const res = await fetch("/api/admin/financials/settings", {
+          credentials: "include",
+          headers: { "Cache-Control": "no-cache" },
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data?.error || "Failed to load financial settings");
+        }
+        month = Number(data.settings?.fiscal_year_start_month) || DEFAULT_FINANCIAL_YEAR_START_MONTH;
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "Unexpected error";
+        toast.error(msg);
+      }
+      setExportFrom((current) => current || getFinancialYearRange(getFinancialYear(new Date(), month), month).start);
+    };
+    loadStartMonth();
+  }, []);
+
+  const loadTrialBalance = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/financials/ledger/trial-balance?as_of=${asOf}`, {
+        credentials: "include",
+        headers: { "Cache-Control": "no-cache" },
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load trial balance");
+      }
+      setAccounts(data.accounts);
+      setTotals(data.totals);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setLoading(false);
+    }
+  }, [asOf]);
+
+  useEffect(() => {
+    if (asOf) loadTrialBalance();
+  }, [asOf, loadTrialBalance]);
+
+  const exportHref = (format: "csv" | "iif") =>
+    `/api/admin/financials/ledger/export?from=${exportFrom}&to=${exportTo}&format=${format}`;
+  const exportRangeValid = !!exportFrom && !!exportTo && exportFrom <= exportTo;
+
+  return (
+    <div className="space-y-6 pt-2">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-gray-900">General Ledger</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Approved donations, expenses and fund disbursements post balanced journal entries. Amounts are in PKR.
+        </p>
+      </div>
+
+      <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <div className="mb-4 flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Trial Balance</h2>
+            {totals && (
+              <Badge variant={totals.balanced ? "secondary" : "destructive"} className="mt-1">
+                {totals.balanced ? "Balanced" : "Out of balance"}
+              </Badge>
+            )}
+          </div>
+          <div>
+            <Label htmlFor="as_of">As of</Label>
+            <Input id="as_of" type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} />
+          </div>
+        </div>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Account</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Debit</TableHead>
+                <TableHead className="text-right">Credit</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">
+                    <Loader2 className="mx-auto h-5 w-5 animate-spin" />
+                  </TableCell>
+                </TableRow>
+              ) : accounts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">
+                    No accounts found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                <>
+                  {accounts.map((a) => (
+                    <TableRow key={a.account_code}>
+                      <TableCell className="font-medium">{a.account_code}</TableCell>
+                      <TableCell>{a.account_name}</TableCell>
+                      <TableCell>{a.account_type}</TableCell>
+                      <TableCell className="text-right">{Number(a.balance_debit) > 0 ? formatMoney(a.balance_debit) : ""}</TableCell>
+                      <TableCell className="text-right">{Number(a.balance_credit) > 0 ? formatMoney(a.balance_credit) : ""}</TableCell>
+                    </TableRow>
+                  ))}
+                  {totals && (
+                    <TableRow className="font-semibold">
+                      <TableCell colSpan={3}>Total</TableCell>
+                      <TableCell className="text-right">{formatMoney(totals.debit)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(totals.credit)}</TableCell>
+                    </TableRow>
+                  )}
+                </>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </section>
+
+      <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-gray-900">Export Journal</h2>
+        <p className="mt-1 text-sm text-gray-600">
+          CSV for spreadsheets, or IIF for QuickBooks Desktop. Each journal line carries its fund and project.
+        </p>
+        <div className="mt-4 flex flex-col gap-4 md:flex-row md:items-end">
+          <div>
+            <Label htmlFor="export_from">From</Label>
+            <Input id="export_from" type="date" value={exportFrom} onChange={(e) => setExportFrom(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="export_to">To</Label>
+            <Input id="export_to" type="date" value={exportTo} onChange={(e) => setExportTo(e.target.value)} />
+          </div>
+          <div className="flex gap-2">
+            {(["csv", "iif"] as const).map((format) =>
+              exportRangeValid ? (
+                <Button key={format} variant="outline" asChild>
+                  <a href={exportHref(format)}>
+                    <Download className="mr-2 h-4 w-4" /> {format.toUpperCase()}
+                  </a>
+                </Button>
+              ) : (
+                <Button key={format} variant="outline" disabled>
+                  <Download className="mr-2 h-4 w-4" /> {format.toUpperCase()}
+                </Button>
+              )
+            )}
+          </div>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, Lock, Unlock } from "lucide-react";
+import { toast } from "sonner";
+import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import { formatMoney } from "@/lib/financials/currency";
+import {
+  DEFAULT_FINANCIAL_YEAR_START_MONTH,
+  MONTH_NAMES,
+  formatFinancialYear,
+} from "@/lib/financials/financialYear";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+
+type Period = {
+  financial_year: number;
+  start_date: string;
+  end_date: string;
+  status: "Open" | "Closed";
+  closed_at: string | null;
+  closed_by_name: string | null;
+  reopened_at: string | null;
+  reopened_by_name: string | null;
+  pending_request_id: string | null;
+  pending_request_reason: string | null;
+  pending_requested_by_name: string | null;
+  pending_requested_by_me: boolean | null;
+  snapshot_taken_at: string | null;
+  snapshot_donations_total: number | null;
+  snapshot_expenses_total: number | null;
+  snapshot_disbursements_total: number | null;
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function FinancialPeriodsPage() {
+  const [periods, setPeriods] = useState<Period[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [startMonth, setStartMonth] = useState(DEFAULT_FINANCIAL_YEAR_START_MONTH);
+  const [savedStartMonth, setSavedStartMonth] = useState(DEFAULT_FINANCIAL_YEAR_START_MONTH);
+  const [savingStartMonth, setSavingStartMonth] = useState(false);
+
+  const loadPeriods = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [periodsRes, settingsRes] = await Promise.all([
+        fetch("/api/admin/financials/periods", {
+          credentials: "include",
+          headers: { "Cache-Control": "no-cache" },
+        }),
+        fetch("/api/admin/financials/settings", {
+          credentials: "include",
+          headers: { "Cache-Control": "no-cache" },
+        }),
+      ]);
+      const periodsData = await periodsRes.json();
+      if (!periodsRes.ok) {
+        throw new Error(periodsData?.error || "Failed to load financial periods");
+      }
+      const settingsData = await settingsRes.json();
+      if (!settingsRes.ok) {
+        throw new Error(settingsData?.error || "Failed to load financial settings");
+      }
+      const month = Number(settingsData.settings?.fiscal_year_start_month) || DEFAULT_FINANCIAL_YEAR_START_MONTH;
+      setPeriods(periodsData.items);
+      setStartMonth(month);
+      setSavedStartMonth(month);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPeriods();
+  }, [loadPeriods]);
+
+  // The start month is fixed once any year has been closed (the database refuses the change too)
+  const anyClosed = periods.some((p) => p.status === "Closed" || p.closed_at);
+
+  const handleSaveStartMonth = async () => {
+    setSavingStartMonth(true);
+    try {
+      const res = await fetchWithCSRF("/api/admin/financials/settings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ fiscal_year_start_month: startMonth }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to save financial year start");
+      }
+      toast.success("Financial year start saved");
+      await loadPeriods();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setSavingStartMonth(false);
+    }
+  };
+
+  const postAction = async (url: string, pending: string, done: string, body?: Record<string, unknown>) => {
+    const t = toast.loading(pending);
+    try {
+      const res = await fetchWithCSRF(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(body ?? {}),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Request failed");
+      }
+      toast.success(done, { id: t });
+      await loadPeriods();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg, { id: t });
+    }
+  };
+
+  const handleClose = (p: Period) => {
+    const label = formatFinancialYear(p.financial_year, savedStartMonth);
+    if (!confirm(`Close financial year ${label}? Nothing dated ${p.start_date} to ${p.end_date} can be approved, rolled back or edited afterwards.`)) return;
+    postAction(`/api/admin/financials/periods/${p.financial_year}/close`, `Closing ${label}...`, `Financial year ${label} closed`);
+  };
+
+  const handleRequestReopen = (p: Period) => {
+    const reason = prompt("Enter reason for reopening this financial year:");
+    if (!reason) return;
+    postAction(
+      `/api/admin/financials/periods/${p.financial_year}/reopen`,
+      "Requesting reopening...",
+      "Reopen requested. Another admin must approve it.",
+      { reason }
+    );
+  };
+
+  const handleReview = (p: Period, decision: "approve" | "reject") => {
+    if (!p.pending_request_id) return;
+    postAction(
+      `/api/admin/financials/periods/reopen-requests/${p.pending_request_id}/${decision}`,
+      decision === "approve" ? "Reopening..." : "Rejecting...",
+      decision === "approve" ? "Financial year reopened" : "Reopen request rejected"
+    );
+  };
+
+  const renderActions = (p: Period) => {
+    if (p.status === "Open") {
+      return p.end_date < today() ? (
+        <Button size="sm" variant="outline" onClick={() => handleClose(p)}>
+          <Lock className="mr-1 h-4 w-4" /> Close year
+        </Button>
+      ) : (
+        <span className="text-xs text-gray-500">In progress</span>
+      );
+    }
+    if (!p.pending_request_id) {
+      return (
+        <Button size="sm" variant="outline" onClick={() => handleRequestReopen(p)}>
+          <Unlock className="mr-1 h-4 w-4" /> Request reopen
+        </Button>
+      );
+    }
+    return (
+      <div className="space-y-1">
+        <p className="text-xs text-gray-600">
+          Reopen requested by {p.pending_requested_by_name || "an admin"}: {p.pending_request_reason}
+        </p>
+        {p.pending_requested_by_me ? (
+          <span className="text-xs text-gray-500">Awaiting another admin</span>
+        ) : (
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => handleReview(p, "approve")}>Approve</Button>
+            <Button size="sm" variant="outline" onClick={() => handleReview(p, "reject")}>Reject</Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6 pt-2">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-gray-900">Financial Periods</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Close a financial year once it has been reported. Reopening a closed year needs a second admin&apos;s approval.
+        </p>
+      </div>
+
+      <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-gray-900">Financial Year</h2>
+        <div className="mt-4 flex flex-col gap-3 sm:flex-row sm:items-end">
+          <div className="sm:w-64">
+            <Label htmlFor="fiscal_year_start_month">Year starts in</Label>
+            <select
+              id="fiscal_year_start_month"
+              className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+              value={startMonth}
+              disabled={loading || anyClosed}
+              onChange={(e) => setStartMonth(Number(e.target.value))}
+            >
+              {MONTH_NAMES.map((name, i) => (
+                <option key={name} value={i + 1}>{name}</option>
+              ))}
+            </select>
+          </div>
+          <Button
+            onClick={handleSaveStartMonth}
+            disabled={loading || anyClosed || savingStartMonth || startMonth === savedStartMonth}
+          >
+            {savingStartMonth ? "Saving..." : "Save"}
+          </Button>
+        </div>
+        <p className="mt-2 text-xs text-gray-500">
+          {anyClosed
+            ? "The start month cannot change after a year has been closed."
+            : "Receipt numbers, annual statements and period locks all follow this setting."}
+        </p>
+      </section>
+
+      <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <h2 className="mb-4 text-lg font-semibold text-gray-900">Periods</h2>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Year</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Donations</TableHead>
+                <TableHead className="text-right">Expenses</TableHead>
+                <TableHead className="text-right">Disbursements</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center">
+                    <Loader2 className="mx-auto h-5 w-5 animate-spin" />
+                  </TableCell>
+                </TableRow>
+              ) : periods.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center">
+                    No financial years yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                periods.map((p) => (
+                  <TableRow key={p.financial_year}>
+                    <TableCell className="font-medium">{formatFinancialYear(p.financial_year, savedStartMonth)}</TableCell>
+                    <TableCell className="text-sm">
+                      {p.start_date} to {p.end_date}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={p.status === "Closed" ? "secondary" : "outline"}>{p.status}</Badge>
+                      {p.status === "Closed" && p.closed_at && (
+                        <div className="mt-1 text-xs text-gray-500">
+                          {new Date(p.closed_at).toLocaleDateString()} by {p.closed_by_name || "an admin"}
+                        </div>
+                      )}
+                      {p.status === "Open" && p.reopened_at && (
+                        <div className="mt-1 text-xs text-gray-500">
+                          Reopened {new Date(p.reopened_at).toLocaleDateString()} by {p.reopened_by_name || "an admin"}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {p.snapshot_donations_total !== null ? formatMoney(p.snapshot_donations_total) : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {p.snapshot_expenses_total !== null ? formatMoney(p.snapshot_expenses_total) : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {p.snapshot_disbursements_total !== null ? formatMoney(p.snapshot_disbursements_total) : "-"}
+                    </TableCell>
+                    <TableCell>{renderActions(p)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        <p className="mt-2 text-xs text-gray-500">Totals are the year-end snapshot taken at the most recent close.</p>
+      </section>
+    </div>
+  );
+}
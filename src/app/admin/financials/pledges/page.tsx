@@ -0,0 +1,446 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import { BASE_CURRENCY, DONATION_CURRENCIES, formatMoney } from "@/lib/financials/currency";
+import { PLEDGE_FREQUENCIES, pledgeFulfilmentPercent } from "@/lib/financials/pledges";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type Pledge = {
+  pledge_id: string;
+  donor_number: string;
+  donor_name: string;
+  phone_number: string | null;
+  amount: number;
+  currency: string;
+  donation_type: string;
+  frequency: string;
+  category_name: string | null;
+  project_name: string | null;
+  start_date: string;
+  end_date: string | null;
+  next_due_date: string;
+  status: string;
+  instalments_due: number;
+  instalments_received: number;
+  expected_amount: number;
+  received_amount: number;
+  overdue_count: number;
+  overdue_amount: number;
+  oldest_overdue_date: string | null;
+};
+
+type Category = { donation_category_id: string; donation_category_name: string; is_active: boolean };
+type Project = { project_id: string; project_name: string; donation_category_id: string; is_active: boolean };
+
+const EMPTY_FORM = {
+  donor_number: "",
+  amount: "",
+  currency: BASE_CURRENCY as string,
+  category_name: "",
+  project_name: "",
+  mode_of_payment: "BankTransfer",
+  donation_type: "Sadqa",
+  frequency: "Monthly",
+  start_date: new Date().toISOString().slice(0, 10),
+  end_date: "",
+  notes: "",
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  Active: "bg-green-100 text-green-800",
+  Paused: "bg-amber-100 text-amber-800",
+  Completed: "bg-blue-100 text-blue-800",
+  Cancelled: "bg-gray-100 text-gray-700",
+};
+
+export default function PledgesPage() {
+  const [pledges, setPledges] = useState<Pledge[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+
+  const loadPledges = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/financials/pledges${overdueOnly ? "?overdue=1" : ""}`, {
+        credentials: "include",
+        headers: { "Cache-Control": "no-cache" },
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load pledges");
+      }
+      setPledges(data.pledges || []);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setLoading(false);
+    }
+  }, [overdueOnly]);
+
+  useEffect(() => {
+    loadPledges();
+  }, [loadPledges]);
+
+  useEffect(() => {
+    const loadPrograms = async () => {
+      try {
+        const [catsRes, projsRes] = await Promise.all([
+          fetch("/api/admin/programs/categories", { credentials: "include" }),
+          fetch("/api/admin/programs/projects", { credentials: "include" }),
+        ]);
+        const catsData = await catsRes.json();
+        const projsData = await projsRes.json();
+        setCategories((catsData.items || []).filter((c: Category) => c.is_active));
+        setProjects((projsData.items || []).filter((p: Project) => p.is_active));
+      } catch {
+        toast.error("Failed to load categories and projects");
+      }
+    };
+    loadPrograms();
+  }, []);
+
+  const filteredProjects = useMemo(() => {
+    const category = categories.find((c) => c.donation_category_name === form.category_name);
+    if (!category) return [];
+    return projects.filter((p) => p.donation_category_id === category.donation_category_id);
+  }, [form.category_name, categories, projects]);
+
+  const totals = useMemo(() => {
+    const active = pledges.filter((p) => p.status === "Active");
+    const overdue = pledges.filter((p) => Number(p.overdue_count) > 0);
+    return { active: active.length, overdue: overdue.length };
+  }, [pledges]);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const res = await fetchWithCSRF("/api/admin/financials/pledges/generate", {
+        method: "POST",
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to generate instalments");
+      }
+      toast.success(data.created > 0 ? `${data.created} donation request(s) created from due pledges` : "No pledge instalments are due");
+      await loadPledges();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleStatus = async (pledge: Pledge, status: "Active" | "Paused" | "Cancelled") => {
+    if (status === "Cancelled" && !confirm(`Cancel the pledge of ${pledge.donor_name || pledge.donor_number}? No further instalments will be created.`)) return;
+    try {
+      const res = await fetchWithCSRF(`/api/admin/financials/pledges/${pledge.pledge_id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ status }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to update pledge");
+      }
+      toast.success(`Pledge ${status === "Active" ? "resumed" : status.toLowerCase()}`);
+      await loadPledges();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    }
+  };
+
+  const handleCreate = async () => {
+    const amount = Number(form.amount);
+    if (!form.donor_number.trim() || !form.category_name || !form.project_name) {
+      toast.error("Donor, category and project are required");
+      return;
+    }
+    if (!Number.isFinite(amount) || amount <= 0) {
+      toast.error("Enter an amount greater than 0");
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetchWithCSRF("/api/admin/financials/pledges", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ ...form, amount, end_date: form.end_date || null }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to create pledge");
+      }
+      toast.success("Pledge created");
+      setShowForm(false);
+      setForm(EMPTY_FORM);
+      await loadPledges();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 pt-2">
+      <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-gray-900">Pledges</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Recurring commitments. A pending donation request is created for each instalment when it falls due.
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <Button variant="outline" onClick={handleGenerate} disabled={generating}>
+            {generating ? "Generating..." : "Generate Due Instalments"}
+          </Button>
+          <Button onClick={() => setShowForm(true)}>New Pledge</Button>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          {totals.active} active · {totals.overdue} overdue
+        </p>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={overdueOnly} onChange={(e) => setOverdueOnly(e.target.checked)} />
+          Overdue only (unpaid more than 7 days after the due date)
+        </label>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Donor</TableHead>
+              <TableHead>Pledge</TableHead>
+              <TableHead>Project</TableHead>
+              <TableHead>Next Due</TableHead>
+              <TableHead>Fulfilment</TableHead>
+              <TableHead>Overdue</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={8} className="h-24 text-center">
+                  <div className="flex items-center justify-center">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+                    Loading pledges...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : pledges.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="h-24 text-center">
+                  {overdueOnly ? "No overdue pledges." : "No pledges recorded yet."}
+                </TableCell>
+              </TableRow>
+            ) : (
+              pledges.map((p) => (
+                <TableRow key={p.pledge_id}>
+                  <TableCell>
+                    <div className="font-medium">{p.donor_name || "—"}</div>
+                    <div className="text-sm text-gray-500">{p.donor_number}</div>
+                    {p.phone_number && <div className="text-xs text-gray-500">{p.phone_number}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <div>{formatMoney(p.amount, p.currency)}</div>
+                    <div className="text-sm text-gray-500">{p.frequency} · {p.donation_type}</div>
+                  </TableCell>
+                  <TableCell>{p.project_name ?? "—"}</TableCell>
+                  <TableCell>
+                    {p.status === "Active" ? new Date(p.next_due_date).toLocaleDateString() : "—"}
+                    {p.end_date && <div className="text-xs text-gray-500">Ends {new Date(p.end_date).toLocaleDateString()}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <div>{formatMoney(p.received_amount, p.currency)} of {formatMoney(p.expected_amount, p.currency)}</div>
+                    <div className="text-sm text-gray-500">
+                      {p.instalments_received}/{p.instalments_due} instalments · {pledgeFulfilmentPercent(p.expected_amount, p.received_amount)}%
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {Number(p.overdue_count) > 0 ? (
+                      <div className="text-rose-700">
+                        <div className="font-medium">{formatMoney(p.overdue_amount, p.currency)}</div>
+                        <div className="text-xs">{p.overdue_count} since {p.oldest_overdue_date ? new Date(p.oldest_overdue_date).toLocaleDateString() : "—"}</div>
+                      </div>
+                    ) : (
+                      "—"
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[p.status] ?? STATUS_STYLES.Cancelled}`}>
+                      {p.status}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      {p.status === "Active" && (
+                        <Button size="sm" variant="outline" onClick={() => handleStatus(p, "Paused")}>Pause</Button>
+                      )}
+                      {p.status === "Paused" && (
+                        <Button size="sm" variant="outline" onClick={() => handleStatus(p, "Active")}>Resume</Button>
+                      )}
+                      {(p.status === "Active" || p.status === "Paused") && (
+                        <Button size="sm" variant="outline" onClick={() => handleStatus(p, "Cancelled")}>Cancel</Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {showForm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black/40" onClick={() => !saving && setShowForm(false)} />
+          <div className="relative z-10 w-full max-w-2xl rounded-lg bg-white p-6 shadow-lg">
+            <h3 className="text-lg font-semibold text-gray-900">New Pledge</h3>
+            <p className="mt-1 text-sm text-gray-600">
+              The first instalment falls due on the start date; later ones follow the chosen frequency.
+            </p>
+            <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-3">
+              <div>
+                <Label htmlFor="donor_number">Donor Number</Label>
+                <Input id="donor_number" value={form.donor_number} onChange={(e) => setForm({ ...form, donor_number: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="amount">Amount per Instalment</Label>
+                <Input id="amount" type="number" min="0" step="0.01" value={form.amount} onChange={(e) => setForm({ ...form, amount: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="currency">Currency</Label>
+                <select
+                  id="currency"
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={form.currency}
+                  onChange={(e) => setForm({ ...form, currency: e.target.value })}
+                >
+                  {DONATION_CURRENCIES.map((c) => (
+                    <option key={c} value={c}>{c}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="donation_type">Donation Type</Label>
+                <select
+                  id="donation_type"
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={form.donation_type}
+                  onChange={(e) => setForm({ ...form, donation_type: e.target.value })}
+                >
+                  <option value="Zakat">Zakat</option>
+                  <option value="Sadqa">Sadqa</option>
+                  <option value="General">General</option>
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="mode_of_payment">Mode of Payment</Label>
+                <select
+                  id="mode_of_payment"
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={form.mode_of_payment}
+                  onChange={(e) => setForm({ ...form, mode_of_payment: e.target.value })}
+                >
+                  <option value="Online">Online</option>
+                  <option value="BankTransfer">Bank Transfer</option>
+                  <option value="CreditCard">Credit Card</option>
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="frequency">Frequency</Label>
+                <select
+                  id="frequency"
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={form.frequency}
+                  onChange={(e) => setForm({ ...form, frequency: e.target.value })}
+                >
+                  {PLEDGE_FREQUENCIES.map((f) => (
+                    <option key={f} value={f}>{f}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="category_name">Category</Label>
+                <select
+                  id="category_name"
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={form.category_name}
+                  onChange={(e) => setForm({ ...form, category_name: e.target.value, project_name: "" })}
+                >
+                  <option value="" disabled>Select a category</option>
+                  {categories.map((c) => (
+                    <option key={c.donation_category_id} value={c.donation_category_name}>{c.donation_category_name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="project_name">Project</Label>
+                <select
+                  id="project_name"
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={form.project_name}
+                  disabled={!form.category_name}
+                  onChange={(e) => setForm({ ...form, project_name: e.target.value })}
+                >
+                  <option value="" disabled>{form.category_name ? "Select a project" : "Select a category first"}</option>
+                  {filteredProjects.map((p) => (
+                    <option key={p.project_id} value={p.project_name}>{p.project_name}</option>
+                  ))}
+                </select>
+              </div>
+              <div />
+              <div>
+                <Label htmlFor="start_date">Start Date</Label>
+                <Input id="start_date" type="date" value={form.start_date} onChange={(e) => setForm({ ...form, start_date: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="end_date">End Date (Optional)</Label>
+                <Input id="end_date" type="date" value={form.end_date} onChange={(e) => setForm({ ...form, end_date: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="notes">Notes</Label>
+                <Input id="notes" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+              </div>
+            </div>
+            <div className="mt-6 flex justify-end gap-3">
+              <Button variant="secondary" onClick={() => setShowForm(false)} disabled={saving}>Cancel</Button>
+              <Button onClick={handleCreate} disabled={saving}>{saving ? "Saving..." : "Create Pledge"}</Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
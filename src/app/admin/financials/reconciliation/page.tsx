@@ -0,0 +1,474 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import { formatMoney } from "@/lib/financials/currency";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+
+type Statement = {
+  statement_id: string;
+  file_name: string | null;
+  format: string;
+  account: string | null;
+  period_start: string | null;
+  period_end: string | null;
+  created_at: string;
+  uploaded_by_name: string | null;
+  line_count: number;
+  matched_count: number;
+  unmatched_count: number;
+  ignored_count: number;
+};
+
+type StatementLine = {
+  line_id: string;
+  line_number: number;
+  value_date: string;
+  amount: number;
+  currency: string;
+  reference: string | null;
+  description: string | null;
+  status: "Unmatched" | "Matched" | "Ignored";
+  match_method: "transaction_id" | "amount_date" | "manual" | null;
+  donation_request_id: string | null;
+  request_status: string | null;
+  donor_number: string | null;
+  donor_name: string | null;
+  donation_date: string | null;
+  transaction_id: string | null;
+};
+
+type UnmatchedDonation = {
+  donation_request_id: string;
+  donor_number: string;
+  donor_name: string;
+  amount: number;
+  currency: string;
+  mode_of_payment: string;
+  donation_date: string;
+  transaction_id: string | null;
+  status: string;
+};
+
+const FORMAT_LABELS: Record<string, string> = { csv: "CSV", mt940: "MT940", camt053: "camt.053" };
+
+const METHOD_LABELS: Record<string, string> = {
+  transaction_id: "Transaction ID",
+  amount_date: "Amount & date",
+  manual: "Manual",
+};
+
+export default function BankReconciliationPage() {
+  const [statements, setStatements] = useState<Statement[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+  const [lines, setLines] = useState<StatementLine[]>([]);
+  const [unmatchedDonations, setUnmatchedDonations] = useState<UnmatchedDonation[]>([]);
+  const [manualMatch, setManualMatch] = useState<Record<string, string>>({});
+  const [file, setFile] = useState<File | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingLines, setLoadingLines] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [approving, setApproving] = useState(false);
+  const [rematching, setRematching] = useState(false);
+  const [updatingLine, setUpdatingLine] = useState<string | null>(null);
+
+  const loadStatements = useCallback(async () => {
+    try {
+      const res = await fetch("/api/admin/financials/reconciliation", {
+        credentials: "include",
+        headers: { "Cache-Control": "no-cache" },
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load bank statements");
+      }
+      setStatements(data.statements);
+      setSelectedId((current) => current || data.statements[0]?.statement_id || "");
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadLines = useCallback(async (statementId: string) => {
+    if (!statementId) return;
+    setLoadingLines(true);
+    try {
+      const res = await fetch(`/api/admin/financials/reconciliation/${statementId}`, {
+        credentials: "include",
+        headers: { "Cache-Control": "no-cache" },
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load reconciliation");
+      }
+      setLines(data.lines);
+      setUnmatchedDonations(data.unmatchedDonations);
+      setManualMatch({});
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setLoadingLines(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatements();
+  }, [loadStatements]);
+
+  useEffect(() => {
+    loadLines(selectedId);
+  }, [selectedId, loadLines]);
+
+  const refresh = async () => {
+    await Promise.all([loadStatements(), loadLines(selectedId)]);
+  };
+
+  const selected = statements.find((s) => s.statement_id === selectedId) ?? null;
+
+  const pendingMatched = useMemo(
+    () => lines.filter((l) => l.status === "Matched" && l.request_status === "Pending").length,
+    [lines]
+  );
+
+  const handleUpload = async () => {
+    if (!file) {
+      toast.error("Choose a bank statement file");
+      return;
+    }
+    setUploading(true);
+    try {
+      const body = new FormData();
+      body.append("file", file);
+      const res = await fetchWithCSRF("/api/admin/financials/reconciliation", {
+        method: "POST",
+        credentials: "include",
+        body,
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to upload bank statement");
+      }
+      toast.success("Statement uploaded and matched");
+      setFile(null);
+      setSelectedId(data.statement.statement_id);
+      await loadStatements();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRematch = async () => {
+    setRematching(true);
+    try {
+      const res = await fetchWithCSRF(`/api/admin/financials/reconciliation/${selectedId}`, {
+        method: "POST",
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to match statement");
+      }
+      toast.success(data.matched ? `Matched ${data.matched} more deposit${data.matched === 1 ? "" : "s"}` : "No new matches found");
+      await refresh();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setRematching(false);
+    }
+  };
+
+  const handleApproveMatched = async () => {
+    setApproving(true);
+    try {
+      const res = await fetchWithCSRF(`/api/admin/financials/reconciliation/${selectedId}/approve`, {
+        method: "POST",
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to approve matched donations");
+      }
+      const { approved, firstApprovals, failed } = data.summary;
+      toast.success(`${approved} approved`);
+      if (firstApprovals > 0) {
+        toast.info(`${firstApprovals} recorded as first approval; a second admin must approve them`);
+      }
+      if (failed > 0) {
+        const reasons = Array.from(new Set((data.results as { outcome: string; message: string | null }[])
+          .filter((r) => r.outcome === "failed")
+          .map((r) => r.message)));
+        toast.error(`${failed} could not be approved: ${reasons.join("; ")}`);
+      }
+      await refresh();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setApproving(false);
+    }
+  };
+
+  const updateLine = async (lineId: string, payload: { donation_request_id?: string | null; ignore?: boolean }) => {
+    setUpdatingLine(lineId);
+    try {
+      const res = await fetchWithCSRF(`/api/admin/financials/reconciliation/lines/${lineId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(payload),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to update statement line");
+      }
+      await refresh();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setUpdatingLine(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6 pt-2">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-gray-900">Bank Reconciliation</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Upload a bank statement to match deposits with recorded donations by transaction ID, then by amount and date.
+        </p>
+      </div>
+
+      <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-col gap-3 md:flex-row md:items-end">
+          <div className="flex-1">
+            <Label htmlFor="statement_file">Bank statement</Label>
+            <input
+              id="statement_file"
+              type="file"
+              accept=".csv,.txt,.sta,.940,.mt940,.xml"
+              className="mt-2 block w-full text-sm"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+            <p className="mt-1 text-xs text-gray-500">CSV, MT940 or camt.053 XML. Only credits (deposits) are read.</p>
+          </div>
+          <Button onClick={handleUpload} disabled={uploading || !file}>
+            {uploading ? "Uploading..." : "Upload & Match"}
+          </Button>
+        </div>
+      </section>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-10">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : statements.length === 0 ? (
+        <p className="text-sm text-gray-600">No statements uploaded yet.</p>
+      ) : (
+        <>
+          <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+            <div className="md:w-96">
+              <Label htmlFor="statement">Statement</Label>
+              <select
+                id="statement"
+                className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                value={selectedId}
+                onChange={(e) => setSelectedId(e.target.value)}
+              >
+                {statements.map((s) => (
+                  <option key={s.statement_id} value={s.statement_id}>
+                    {s.file_name || "Statement"} ({s.period_start} to {s.period_end})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={handleRematch} disabled={!selectedId || rematching}>
+                {rematching ? "Matching..." : "Re-run Matching"}
+              </Button>
+              <Button onClick={handleApproveMatched} disabled={!selectedId || approving || pendingMatched === 0}>
+                {approving ? "Approving..." : `Approve ${pendingMatched} Matched Pending`}
+              </Button>
+            </div>
+          </div>
+
+          {selected && (
+            <p className="text-sm text-gray-600">
+              {FORMAT_LABELS[selected.format] ?? selected.format}
+              {selected.account ? ` · ${selected.account}` : ""} · {selected.line_count} deposits: {selected.matched_count} matched,{" "}
+              {selected.unmatched_count} unmatched, {selected.ignored_count} ignored · {unmatchedDonations.length} bank donation
+              {unmatchedDonations.length === 1 ? "" : "s"} in the period without a deposit
+            </p>
+          )}
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Value Date</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Donation</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loadingLines ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-24 text-center">
+                      <Loader2 className="mx-auto h-5 w-5 animate-spin" />
+                    </TableCell>
+                  </TableRow>
+                ) : lines.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-24 text-center">No deposits on this statement.</TableCell>
+                  </TableRow>
+                ) : (
+                  lines.map((l) => {
+                    const candidates = unmatchedDonations.filter((d) => d.currency === l.currency);
+                    return (
+                      <TableRow key={l.line_id}>
+                        <TableCell>{l.value_date}</TableCell>
+                        <TableCell>{formatMoney(l.amount, l.currency)}</TableCell>
+                        <TableCell className="max-w-xs">
+                          <div className="font-medium">{l.reference || "-"}</div>
+                          {l.description && <div className="truncate text-xs text-gray-500">{l.description}</div>}
+                        </TableCell>
+                        <TableCell>
+                          {l.status === "Matched" && <Badge variant="secondary">Matched</Badge>}
+                          {l.status === "Unmatched" && <Badge variant="destructive">Unmatched</Badge>}
+                          {l.status === "Ignored" && <Badge variant="outline">Ignored</Badge>}
+                          {l.match_method && <div className="mt-1 text-xs text-gray-500">{METHOD_LABELS[l.match_method]}</div>}
+                        </TableCell>
+                        <TableCell>
+                          {l.donation_request_id ? (
+                            <>
+                              <div className="font-medium">{l.donor_name || "-"}</div>
+                              <div className="text-xs text-gray-500">
+                                {l.donor_number} · {l.donation_date} · {l.request_status}
+                              </div>
+                            </>
+                          ) : (
+                            "-"
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {l.status === "Unmatched" ? (
+                            <div className="flex flex-col gap-2">
+                              <select
+                                aria-label="Donation to match"
+                                className="block w-56 rounded-md border border-gray-300 bg-white p-1 text-sm"
+                                value={manualMatch[l.line_id] ?? ""}
+                                onChange={(e) => setManualMatch((prev) => ({ ...prev, [l.line_id]: e.target.value }))}
+                              >
+                                <option value="">Choose donation...</option>
+                                {candidates.map((d) => (
+                                  <option key={d.donation_request_id} value={d.donation_request_id}>
+                                    {d.donor_number} · {formatMoney(d.amount, d.currency)} · {d.donation_date}
+                                  </option>
+                                ))}
+                              </select>
+                              <div className="flex gap-2">
+                                <Button
+                                  size="sm"
+                                  disabled={!manualMatch[l.line_id] || updatingLine === l.line_id}
+                                  onClick={() => updateLine(l.line_id, { donation_request_id: manualMatch[l.line_id] })}
+                                >
+                                  Match
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  disabled={updatingLine === l.line_id}
+                                  onClick={() => updateLine(l.line_id, { ignore: true })}
+                                >
+                                  Not a donation
+                                </Button>
+                              </div>
+                            </div>
+                          ) : (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={updatingLine === l.line_id}
+                              onClick={() => updateLine(l.line_id, { donation_request_id: null })}
+                            >
+                              {l.status === "Matched" ? "Unmatch" : "Restore"}
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Donations without a deposit</h2>
+            <p className="mt-1 text-sm text-gray-600">
+              Bank transfer and online donations dated within the statement period (± 3 days) that no deposit is matched to.
+            </p>
+          </div>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Donor</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Payment</TableHead>
+                  <TableHead>Transaction ID</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {unmatchedDonations.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-24 text-center">Every bank donation in the period has a deposit.</TableCell>
+                  </TableRow>
+                ) : (
+                  unmatchedDonations.map((d) => (
+                    <TableRow key={d.donation_request_id}>
+                      <TableCell>
+                        <div className="font-medium">{d.donor_name || "-"}</div>
+                        <div className="text-xs text-gray-500">{d.donor_number}</div>
+                      </TableCell>
+                      <TableCell>{formatMoney(d.amount, d.currency)}</TableCell>
+                      <TableCell>{d.donation_date}</TableCell>
+                      <TableCell>{d.mode_of_payment}</TableCell>
+                      <TableCell>{d.transaction_id || "-"}</TableCell>
+                      <TableCell>{d.status}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { FileText, Users, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import {
+  DEFAULT_FINANCIAL_YEAR_START_MONTH,
+  MONTH_NAMES,
+  formatFinancialYear,
+  getFinancialYear,
+} from "@/lib/financials/financialYear";
+import MetricCard from "@/components/admin/MetricCard";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type StoredStatement = {
+  statement_id: string;
+  donor_id: string;
+  donor_number: string;
+  donor_name: string;
+  pdf_path: string;
+  donation_count: number;
+  total_amount: number;
+  generated_at: string;
+};
+
+export default function StatementsPage() {
+  const [startMonth, setStartMonth] = useState<number | null>(null);
+  const fyStartMonth = startMonth ?? DEFAULT_FINANCIAL_YEAR_START_MONTH;
+  const currentYear = getFinancialYear(new Date(), fyStartMonth);
+  const years = Array.from({ length: 5 }, (_, i) => currentYear - i);
+  const [year, setYear] = useState<string | null>(null);
+  const [statements, setStatements] = useState<StoredStatement[]>([]);
+  const [eligibleDonors, setEligibleDonors] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+
+  // Year labels and the default year follow the configured fiscal year start month
+  useEffect(() => {
+    const loadStartMonth = async () => {
+      let month = DEFAULT_FINANCIAL_YEAR_START_MONTH;
+      try {
+        const res = await fetch("/api/admin/financials/settings", {
+          credentials: "include",
+          headers: { "Cache-Control": "no-cache" },
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data?.error || "Failed to load financial settings");
+        }
+        month = Number(data.settings?.fiscal_year_start_month) || DEFAULT_FINANCIAL_YEAR_START_MONTH;
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "Unexpected error";
+        toast.error(msg);
+      }
+      setStartMonth(month);
+      setYear(String(getFinancialYear(new Date(), month) - 1));
+    };
+    loadStartMonth();
+  }, []);
+
+  const loadStatements = useCallback(async () => {
+    if (!year) return;
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/financials/statements?year=${year}`, {
+        credentials: "include",
+        headers: { "Cache-Control": "no-cache" },
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load statements");
+      }
+      setStatements(data.statements || []);
+      setEligibleDonors(data.eligible_donors ?? 0);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setLoading(false);
+    }
+  }, [year]);
+
+  useEffect(() => {
+    loadStatements();
+  }, [loadStatements]);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    const t = toast.loading(`Generating statements for FY ${formatFinancialYear(Number(year), fyStartMonth)}...`);
+    try {
+      const res = await fetchWithCSRF("/api/admin/financials/statements", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ financial_year: Number(year) }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to generate statements");
+      }
+      if (data.failed?.length) {
+        toast.warning(`Generated ${data.generated} statements, ${data.failed.length} failed`, { id: t });
+      } else {
+        toast.success(`Generated ${data.generated} statements`, { id: t });
+      }
+      await loadStatements();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg, { id: t });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 pt-2">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-gray-900">Annual Statements</h1>
+          <p className="mt-1 text-sm text-gray-600">Consolidated tax / Zakat statements per donor for a financial year ({MONTH_NAMES[fyStartMonth - 1]}–{MONTH_NAMES[(fyStartMonth + 10) % 12]})</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={year ?? ""} onValueChange={setYear}>
+            <SelectTrigger className="w-36">
+              <SelectValue placeholder="Financial year" />
+            </SelectTrigger>
+            <SelectContent>
+              {years.map((y) => (
+                <SelectItem key={y} value={String(y)}>FY {formatFinancialYear(y, fyStartMonth)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleGenerate} disabled={generating || loading || !year}>
+            {generating ? "Generating..." : "Generate statements"}
+          </Button>
+        </div>
+      </div>
+
+      <section className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <MetricCard
+          title="Donors With Donations"
+          value={(eligibleDonors ?? 0).toLocaleString()}
+          isLoading={loading}
+          icon={<Users className="h-5 w-5" />}
+          accent="blue"
+        />
+        <MetricCard
+          title="Statements Stored"
+          value={statements.length.toLocaleString()}
+          isLoading={loading}
+          icon={<FileText className="h-5 w-5" />}
+          accent="green"
+        />
+      </section>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Donor</TableHead>
+              <TableHead>Donations</TableHead>
+              <TableHead>Total</TableHead>
+              <TableHead>Generated</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="h-24 text-center">
+                  <div className="flex items-center justify-center">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+                    Loading statements...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : statements.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="h-24 text-center">
+                  No statements generated for this financial year yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              statements.map((s) => (
+                <TableRow key={s.statement_id}>
+                  <TableCell>
+                    <div className="font-medium">{s.donor_name || "—"}</div>
+                    <div className="text-sm text-gray-500">{s.donor_number}</div>
+                  </TableCell>
+                  <TableCell>{s.donation_count}</TableCell>
+                  <TableCell>PKR {Number(s.total_amount).toLocaleString()}</TableCell>
+                  <TableCell>{new Date(s.generated_at).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <a
+                      href={`/api/admin/financials/statements/${s.statement_id}/download`}
+                      className="text-sm font-medium text-blue-600 hover:underline"
+                    >
+                      Download
+                    </a>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
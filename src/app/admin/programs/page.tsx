@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
-import { BookOpen, Heart, Wheat, Users, Target, CheckCircle2, XCircle, Plus, Loader2 } from "lucide-react";
+import { BookOpen, Heart, Wheat, Users, Target, CheckCircle2, XCircle, Plus, Loader2, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useRouter } from "next/navigation";
@@ -20,6 +20,19 @@ type ProjectUI = {
   budget?: string;
 };
 
+// Budget vs. actual from /api/admin/programs/projects/financials (PKR)
+type ProjectFinancials = {
+  project_id: string;
+  target_amount: number | null;
+  funds_raised: number;
+  funds_spent: number;
+  available_funds: number;
+  remaining_target: number | null;
+  percent_funded: number | null;
+  overspent: boolean;
+  target_missed: boolean;
+};
+
 type CategoryUI = {
   id: string;
   name: string;
@@ -77,6 +90,7 @@ export default function ProgramsPage() {
 
   // Remote-loaded categories/projects state
   const [remoteCategories, setRemoteCategories] = useState<CategoryUI[] | null>(null);
+  const [financials, setFinancials] = useState<Record<string, ProjectFinancials>>({});
 
   // Category modal state
   const [showCategoryModal, setShowCategoryModal] = useState(false);
@@ -176,8 +190,30 @@ export default function ProgramsPage() {
     void loadData();
   }, []);
 
+  // Financials are admin-only; the project list still renders without them.
+  // Refetched whenever the project list reloads so targets edited in the modals show up.
+  const loadFinancials = async () => {
+    try {
+      const res = await apiClient<{ items: ProjectFinancials[] }>("/api/admin/programs/projects/financials");
+      const byProject: Record<string, ProjectFinancials> = {};
+      (res.items || []).forEach((f) => {
+        byProject[f.project_id] = f;
+      });
+      setFinancials(byProject);
+    } catch {
+      setFinancials({});
+    }
+  };
+
+  useEffect(() => {
+    if (isAdmin && remoteCategories) void loadFinancials();
+  }, [isAdmin, remoteCategories]);
+
+  const formatPKR = (value: number) => `PKR ${Number(value).toLocaleString()}`;
+
   const displayCategories: CategoryUI[] = remoteCategories ?? [];
   const metrics = useMemo(() => buildMetrics(displayCategories), [displayCategories]);
+  const projectsNeedingAttention = Object.values(financials).filter((f) => f.overspent || f.target_missed).length;
 
   const handleCreateCategory = async () => {
     if (!catName.trim()) {
@@ -409,6 +445,13 @@ export default function ProgramsPage() {
             </div>
           )}
 
+          {!loading && projectsNeedingAttention > 0 && (
+            <div className="flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+              <AlertTriangle className="h-4 w-4" />
+              {projectsNeedingAttention} project{projectsNeedingAttention === 1 ? '' : 's'} overspent or ended below target.
+            </div>
+          )}
+
           <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
             {loading && (
               Array.from({ length: 3 }).map((_, i) => (
@@ -434,6 +477,49 @@ export default function ProgramsPage() {
                         <span className="text-xs text-gray-500">{project.budget}</span>
                       )}
                     </div>
+                    {financials[project.id] && (() => {
+                      const f = financials[project.id];
+                      const pct = f.percent_funded === null ? null : Number(f.percent_funded);
+                      return (
+                        <div className="mt-3 space-y-1">
+                          {pct !== null && (
+                            <>
+                              <div className="flex justify-between text-xs text-gray-600">
+                                <span>{formatPKR(f.funds_raised)} raised</span>
+                                <span>{pct}% funded</span>
+                              </div>
+                              <div className="h-2 w-full rounded-full bg-gray-100">
+                                <div
+                                  className={`h-2 rounded-full ${pct >= 100 ? 'bg-green-500' : 'bg-blue-500'}`}
+                                  style={{ width: `${Math.min(pct, 100)}%` }}
+                                />
+                              </div>
+                            </>
+                          )}
+                          <div className="text-xs text-gray-500">
+                            {pct === null && <>{formatPKR(f.funds_raised)} raised · </>}
+                            {formatPKR(f.funds_spent)} spent
+                            {f.remaining_target !== null && Number(f.remaining_target) > 0 && (
+                              <> · {formatPKR(f.remaining_target)} to go</>
+                            )}
+                          </div>
+                          {(f.overspent || f.target_missed) && (
+                            <div className="flex flex-wrap gap-1 pt-1">
+                              {f.overspent && (
+                                <Badge variant="destructive">
+                                  <AlertTriangle className="mr-1 h-3 w-3" /> Spending exceeds funds raised
+                                </Badge>
+                              )}
+                              {f.target_missed && (
+                                <Badge variant="secondary">
+                                  <AlertTriangle className="mr-1 h-3 w-3" /> Ended below target
+                                </Badge>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })()}
                   </div>
                   {isAdmin && (
                     <div className="flex items-center gap-1 ml-2">
@@ -1,10 +1,13 @@
+import FinancialControlsSettings from "@/components/admin/FinancialControlsSettings";
+
 export default function AdminSettingsPage() {
   return (
-    <div className="p-6">
-      <div className="rounded-lg border bg-white shadow-sm p-6">
-        <h1 className="text-2xl font-bold text-blue-600">Settings Page – Coming Soon</h1>
-        <p className="mt-2 text-gray-600">Administrative configuration and system settings will appear here.</p>
+    <div className="space-y-6 pt-2">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-gray-900">Settings</h1>
+        <p className="mt-1 text-sm text-gray-600">Administrative configuration and system settings</p>
       </div>
+      <FinancialControlsSettings />
     </div>
   );
 }
@@ -0,0 +1,275 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import {
+  ACTIVITY_STATUSES,
+  ACTIVITY_TYPE_LABELS,
+  SITE_STATUS_LABELS,
+  type ActivityStatus,
+  type ActivityType,
+  type ReviewDecision,
+  type SiteStatus,
+} from "@/lib/volunteers/activities";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+
+type ActivityRequest = {
+  volunteer_activity_request_id: string;
+  volunteer_number: string | null;
+  volunteer_name: string;
+  volunteer_email: string | null;
+  event_name: string | null;
+  event_start_date: string | null;
+  hours_contributed: number;
+  type_of_activity: ActivityType;
+  people_helped: number | null;
+  site_status: SiteStatus;
+  description: string | null;
+  volunteer_activity_status: ActivityStatus;
+  review_comments: string | null;
+  reviewed_by_name: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string | null;
+};
+
+const STATUS_STYLES: Record<ActivityStatus, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  approved: "bg-green-100 text-green-800",
+  revised: "bg-blue-100 text-blue-800",
+  rejected: "bg-rose-100 text-rose-800",
+};
+
+const DECISION_TITLES: Record<ReviewDecision, string> = {
+  approved: "Approve Activity",
+  revised: "Send Back for Revision",
+  rejected: "Reject Activity",
+};
+
+export default function VolunteerActivityApprovalsPage() {
+  const [requests, setRequests] = useState<ActivityRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<ActivityStatus | "all">("pending");
+  const [review, setReview] = useState<{ request: ActivityRequest; decision: ReviewDecision } | null>(null);
+  const [comments, setComments] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadRequests = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/volunteers/activities?status=${status}`, {
+        credentials: "include",
+        headers: { "Cache-Control": "no-cache" },
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load activity requests");
+      }
+      setRequests(data.requests || []);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const openReview = (request: ActivityRequest, decision: ReviewDecision) => {
+    setComments("");
+    setReview({ request, decision });
+  };
+
+  const handleReview = async () => {
+    if (!review) return;
+    if (review.decision !== "approved" && !comments.trim()) {
+      toast.error("Please add comments for the volunteer");
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetchWithCSRF(`/api/admin/volunteers/activities/${review.request.volunteer_activity_request_id}/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ decision: review.decision, comments: comments.trim() || null }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to review activity");
+      }
+      toast.success(
+        review.decision === "approved"
+          ? `${review.request.hours_contributed} hour(s) approved for ${review.request.volunteer_name}`
+          : review.decision === "revised"
+          ? "Sent back to the volunteer for revision"
+          : "Activity rejected"
+      );
+      setReview(null);
+      await loadRequests();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 pt-2">
+      <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-gray-900">Volunteer Activity Approvals</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Hours logged by volunteers against events. Approved activity is added to the volunteer&apos;s contribution log.
+          </p>
+        </div>
+        <div className="w-48">
+          <Label htmlFor="status">Status</Label>
+          <select
+            id="status"
+            className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+            value={status}
+            onChange={(e) => setStatus(e.target.value as ActivityStatus | "all")}
+          >
+            {ACTIVITY_STATUSES.map((s) => (
+              <option key={s} value={s}>{s.charAt(0).toUpperCase() + s.slice(1)}</option>
+            ))}
+            <option value="all">All</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Volunteer</TableHead>
+              <TableHead>Event</TableHead>
+              <TableHead>Activity</TableHead>
+              <TableHead>Hours</TableHead>
+              <TableHead>People Helped</TableHead>
+              <TableHead>Submitted</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={8} className="h-24 text-center">
+                  <div className="flex items-center justify-center">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+                    Loading activity requests...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : requests.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="h-24 text-center">
+                  {status === "pending" ? "No activity is waiting for approval." : "No activity requests found."}
+                </TableCell>
+              </TableRow>
+            ) : (
+              requests.map((r) => (
+                <TableRow key={r.volunteer_activity_request_id}>
+                  <TableCell>
+                    <div className="font-medium">{r.volunteer_name}</div>
+                    <div className="text-sm text-gray-500">{r.volunteer_number ?? "—"}</div>
+                    {r.volunteer_email && <div className="text-xs text-gray-500">{r.volunteer_email}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <div>{r.event_name ?? "—"}</div>
+                    {r.event_start_date && (
+                      <div className="text-sm text-gray-500">{new Date(r.event_start_date).toLocaleDateString()}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-xs">
+                    <div>{ACTIVITY_TYPE_LABELS[r.type_of_activity] ?? r.type_of_activity}</div>
+                    <div className="text-sm text-gray-500">{SITE_STATUS_LABELS[r.site_status] ?? r.site_status}</div>
+                    {r.description && <div className="mt-1 text-xs text-gray-600 whitespace-pre-line">{r.description}</div>}
+                  </TableCell>
+                  <TableCell>{r.hours_contributed}</TableCell>
+                  <TableCell>{r.people_helped ?? "—"}</TableCell>
+                  <TableCell>
+                    {new Date(r.created_at).toLocaleDateString()}
+                    {r.updated_at && r.volunteer_activity_status === "pending" && (
+                      <div className="text-xs text-gray-500">Resubmitted {new Date(r.updated_at).toLocaleDateString()}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[r.volunteer_activity_status]}`}>
+                      {r.volunteer_activity_status}
+                    </span>
+                    {r.review_comments && (
+                      <div className="mt-1 max-w-xs text-xs text-gray-600">
+                        {r.review_comments}
+                        {r.reviewed_by_name && <span className="text-gray-400"> — {r.reviewed_by_name}</span>}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {r.volunteer_activity_status === "pending" ? (
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => openReview(r, "approved")}>Approve</Button>
+                        <Button size="sm" variant="outline" onClick={() => openReview(r, "revised")}>Revise</Button>
+                        <Button size="sm" variant="outline" onClick={() => openReview(r, "rejected")}>Reject</Button>
+                      </div>
+                    ) : (
+                      "—"
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {review && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black/40" onClick={() => !saving && setReview(null)} />
+          <div className="relative z-10 w-full max-w-lg rounded-lg bg-white p-6 shadow-lg">
+            <h3 className="text-lg font-semibold text-gray-900">{DECISION_TITLES[review.decision]}</h3>
+            <p className="mt-1 text-sm text-gray-600">
+              {review.request.volunteer_name} · {review.request.hours_contributed} hour(s) at {review.request.event_name ?? "an event"}
+            </p>
+            <div className="mt-4">
+              <Label htmlFor="comments">
+                Comments{review.decision === "approved" ? " (optional)" : ""}
+              </Label>
+              <textarea
+                id="comments"
+                rows={4}
+                className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2 text-sm"
+                placeholder={review.decision === "revised" ? "What should the volunteer change?" : ""}
+                value={comments}
+                onChange={(e) => setComments(e.target.value)}
+              />
+            </div>
+            <div className="mt-6 flex justify-end gap-3">
+              <Button variant="outline" onClick={() => setReview(null)} disabled={saving}>Cancel</Button>
+              <Button onClick={handleReview} disabled={saving}>
+                {saving ? "Saving..." : DECISION_TITLES[review.decision]}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
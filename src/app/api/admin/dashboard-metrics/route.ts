@@ -55,6 +55,8 @@ export async function GET(request: NextRequest) {
     const metrics = {
       totalDonors: data.total_donors ?? 0,
       totalDonations: data.total_donations ?? 0,
+      // In-kind goods at estimated value; not part of totalDonations
+      totalInKind: data.total_in_kind ?? 0,
       totalVolunteers: data.total_volunteers ?? 0,
       totalMembers: data.total_members ?? 0,
     };
@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { logger, logAuthEvent } from '@/services/auditService';
+import { stampVoidReceiptPDF } from '@/lib/receipts/voidReceipt';
+import { getReceiptStoragePath, getVoidReceiptStoragePath } from '@/lib/receipts/storagePaths';
+import { renderDonationReceiptPDF } from '@/lib/receipts/renderDonationReceipt';
+import { RECEIPT_SIGNING_NOT_CONFIGURED, isReceiptSigningConfigured } from '@/lib/receipts/verificationToken';
+
+export const runtime = 'nodejs';
+
+// POST /api/admin/donations/[id]/reissue
+// Body: { reason: string, amount?: number, donor_number?: string }
+// Flow:
+// 1) Verify session and admin role
+// 2) Call RPC public.void_and_reissue_receipt -> voids the current receipt number, corrects the
+//    donation and issues a new receipt number (recorded in donation_corrections)
+// 3) Stamp the original PDF with VOID and store it next to the original
+// 4) Generate and upload the corrected receipt, then update donations.receipt_pdf_path
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const reqId = globalThis.crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random()}`;
+
+  try {
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get: (name: string) => cookieStore.get(name)?.value,
+          set: () => Promise.resolve(),
+          remove: () => Promise.resolve(),
+        },
+      }
+    );
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { id: donation_id } = await context.params;
+
+    const { data: isAdmin, error: rbacError } = await supabase.rpc('is_admin');
+    if (rbacError || !isAdmin) {
+      logger.warn('Receipt reissue denied: not admin', { reqId, userId });
+      await logAuthEvent('donation_reissue_denied_not_admin', { userId, reqId });
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const reason = typeof body?.reason === 'string' ? body.reason.trim() : '';
+    const amount = body?.amount === undefined || body?.amount === null || body?.amount === '' ? null : Number(body.amount);
+    const donorNumber = typeof body?.donor_number === 'string' && body.donor_number.trim() ? body.donor_number.trim() : null;
+
+    if (!reason) {
+      return NextResponse.json({ status: 'error', message: 'A reason is required' }, { status: 400 });
+    }
+    // Checked before voiding so a missing secret cannot leave a voided receipt without a replacement PDF
+    if (!isReceiptSigningConfigured()) {
+      logger.error('Receipt reissue blocked: RECEIPT_VERIFICATION_SECRET is not set', { reqId, userId, donation_id });
+      return NextResponse.json({ status: 'error', code: 'receipt_signing_not_configured', message: RECEIPT_SIGNING_NOT_CONFIGURED }, { status: 503 });
+    }
+    if (amount !== null && (!Number.isFinite(amount) || amount <= 0)) {
+      return NextResponse.json({ status: 'error', message: 'Amount must be a positive number' }, { status: 400 });
+    }
+    if (amount === null && !donorNumber) {
+      return NextResponse.json({ status: 'error', message: 'Provide a corrected amount or donor' }, { status: 400 });
+    }
+
+    // 2) Void and reissue in the database (atomic)
+    const { data: correction, error: reissueErr } = await supabase.rpc('void_and_reissue_receipt', {
+      p_donation_id: donation_id,
+      p_reason: reason,
+      p_amount: amount,
+      p_donor_number: donorNumber,
+    });
+
+    if (reissueErr || !correction) {
+      logger.error('void_and_reissue_receipt RPC failed', { reqId, userId, donation_id, error: reissueErr?.message });
+      await logAuthEvent('donation_reissue_failed', { userId, reqId, donation_id, error: reissueErr?.message ?? 'unknown' });
+      // 55000: the donation is dated in a closed financial year
+      const status = reissueErr?.code === '55000' ? 409 : 400;
+      return NextResponse.json({ status: 'error', message: reissueErr?.message || 'Reissue failed' }, { status });
+    }
+
+    const voidedNumber: string = correction.voided_receipt_number;
+    const newNumber: string = correction.new_receipt_number;
+
+    // 3) Keep the original PDF and store a VOID-stamped copy for the donor's records.
+    // Failure here is logged but does not undo the correction; the original PDF is still readable.
+    let voidPdfPath: string | null = null;
+    if (correction.voided_pdf_path) {
+      try {
+        const { data: original, error: downloadErr } = await supabase.storage
+          .from('receipts')
+          .download(correction.voided_pdf_path);
+        if (downloadErr || !original) throw downloadErr ?? new Error('Original receipt not found');
+
+        const stamped = await stampVoidReceiptPDF(new Uint8Array(await original.arrayBuffer()), {
+          receipt_number: voidedNumber,
+          replaced_by: newNumber,
+          reason,
+        });
+
+        const path = getVoidReceiptStoragePath(donation_id, voidedNumber);
+        const { error: uploadErr } = await supabase.storage
+          .from('receipts')
+          .upload(path, new Blob([new Uint8Array(stamped)], { type: 'application/pdf' }), {
+            contentType: 'application/pdf',
+            upsert: false,
+            cacheControl: '3600',
+          });
+        if (uploadErr) throw uploadErr;
+
+        const { error: pathErr } = await supabase.rpc('update_void_receipt_path', {
+          p_receipt_number: voidedNumber,
+          p_void_pdf_path: path,
+        });
+        if (pathErr) throw pathErr;
+
+        voidPdfPath = path;
+      } catch (voidErr: any) {
+        logger.error('Failed to store VOID copy of receipt', { reqId, donation_id, voidedNumber, error: voidErr?.message });
+      }
+    }
+
+    // 4) Corrected receipt
+    const { data: detailsData, error: detailsErr } = await supabase
+      .rpc('get_donation_receipt_details', { p_donation_id: donation_id });
+
+    const storagePath = getReceiptStoragePath(donation_id, newNumber);
+    try {
+      if (detailsErr) throw detailsErr;
+      const details = detailsData?.[0];
+      if (!details) throw new Error('Receipt details not found');
+
+      const pdfBytes = await renderDonationReceiptPDF(supabase, details, { replaces_receipt_number: voidedNumber });
+
+      const { error: uploadErr } = await supabase.storage
+        .from('receipts')
+        .upload(storagePath, new Blob([new Uint8Array(pdfBytes)], { type: 'application/pdf' }), {
+          contentType: 'application/pdf',
+          upsert: false,
+          cacheControl: '3600',
+        });
+      if (uploadErr) throw uploadErr;
+
+      const { error: updateErr } = await supabase.rpc('update_donation_receipt_path', {
+        p_donation_id: donation_id,
+        p_receipt_path: storagePath,
+      });
+      if (updateErr) throw updateErr;
+    } catch (receiptErr: any) {
+      logger.error('Corrected receipt could not be generated or stored', { reqId, donation_id, newNumber, error: receiptErr?.message });
+      await logAuthEvent('donation_reissue_receipt_failed', { userId, reqId, donation_id, error: receiptErr?.message ?? 'unknown' });
+      return NextResponse.json({
+        status: 'error',
+        message: `Receipt ${voidedNumber} was voided and ${newNumber} issued, but the corrected PDF could not be stored`,
+        voidedReceiptNumber: voidedNumber,
+        receiptNumber: newNumber,
+      }, { status: 500 });
+    }
+
+    await logAuthEvent('donation_receipt_reissued', { userId, reqId, donation_id, voidedNumber, newNumber });
+    logger.info('Receipt voided and reissued', { reqId, userId, donation_id, voidedNumber, newNumber });
+
+    return NextResponse.json({
+      status: 'success',
+      donationId: donation_id,
+      correctionId: correction.correction_id,
+      voidedReceiptNumber: voidedNumber,
+      receiptNumber: newNumber,
+      receiptPath: storagePath,
+      voidReceiptPath: voidPdfPath,
+      ...(voidPdfPath || !correction.voided_pdf_path ? {} : { warning: 'VOID copy of the original receipt could not be stored' }),
+    }, { status: 200 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('Unhandled error in receipt reissue route', { reqId, error: message });
+    return NextResponse.json({ status: 'error', message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -2,17 +2,35 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
 import { logger, logAuthEvent } from '@/services/auditService';
-import { generateReceiptPDF } from '@/lib/receipts/generateReceipt';
+import { issueDonationReceipt, ReceiptIssueError, type ReceiptIssueStage } from '@/lib/receipts/issueDonationReceipt';
+import { RECEIPT_SIGNING_NOT_CONFIGURED, isReceiptSigningConfigured } from '@/lib/receipts/verificationToken';
 
 export const runtime = 'nodejs';
 
+const RECEIPT_FAILURE_MESSAGES: Record<ReceiptIssueStage, string> = {
+  details: 'Failed to fetch receipt details',
+  render: 'Failed to generate receipt',
+  upload: 'Receipt upload failed',
+  record: 'Receipt upload failed',
+};
+
+const RECEIPT_FAILURE_EVENTS: Record<ReceiptIssueStage, string> = {
+  details: 'donation_receipt_details_failed',
+  render: 'donation_receipt_generation_failed',
+  upload: 'donation_receipt_upload_failed',
+  record: 'donation_receipt_upload_failed',
+};
+
 // POST /api/admin/donations/approve
 // Body: { donation_request_id: string }
 // Flow:
 // 1) Verify session and admin role
-// 2) Call RPC public.approve_donation_request -> get donation row
-// 3) Generate placeholder PDF for donation_id
-// 4) Upload to Supabase Storage at receipts/donations/{donation_id}.pdf
+// 2) Call RPC public.approve_donation_request -> get donation row (assigns the official receipt number).
+//    The approver must not be the request's creator; above the second-approval threshold the first
+//    call only records the first approval (202, status 'pending_second_approval')
+// 3) Generate receipt PDF (QR code links to the signed public verification page); in-kind
+//    donations get the item-list layout
+// 4) Upload to Supabase Storage at receipts/donations/{donation_id}/{receipt_number}.pdf
 // 5) Update donations.receipt_pdf_path with the storage path
 // 6) Return donation info
 export async function POST(request: NextRequest) {
@@ -67,173 +85,57 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'donation_request_id is required' }, { status: 400 });
     }
 
+    // Without the signing secret no receipt can be produced, so do not approve (and roll back) at all
+    if (!isReceiptSigningConfigured()) {
+      logger.error('Donation approval blocked: RECEIPT_VERIFICATION_SECRET is not set', { reqId, userId, donation_request_id });
+      return NextResponse.json({ status: 'error', code: 'receipt_signing_not_configured', message: RECEIPT_SIGNING_NOT_CONFIGURED }, { status: 503 });
+    }
+
     // 3) Approve via RPC
     const { data: donation, error: approveErr } = await supabase
       .rpc('approve_donation_request', { p_donation_request_id: donation_request_id });
 
-    if (approveErr || !donation) {
-      logger.error('approve_donation_request RPC failed', { reqId, userId, donation_request_id, error: approveErr?.message });
-      await logAuthEvent('donation_approve_failed', { userId, reqId, donation_request_id, error: approveErr?.message ?? 'unknown' });
-      return NextResponse.json({ status: 'error', message: 'Approval failed' }, { status: 400 });
+    if (approveErr) {
+      logger.error('approve_donation_request RPC failed', { reqId, userId, donation_request_id, error: approveErr.message });
+      await logAuthEvent('donation_approve_failed', { userId, reqId, donation_request_id, error: approveErr.message });
+      // Surface actionable database messages (e.g. a missing exchange rate, the maker-checker rule
+      // or a closed financial year) to the admin
+      const status = approveErr.code === '42501' ? 403 : approveErr.code === '55000' ? 409 : 400;
+      return NextResponse.json({ status: 'error', message: approveErr.message || 'Approval failed' }, { status });
     }
 
-    const donation_id: string = donation.donation_id;
-
-    // 3b) Fetch all receipt details using the dedicated RPC
-    const { data: detailsData, error: detailsErr } = await supabase
-      .rpc('get_donation_receipt_details', { p_donation_id: donation_id });
-
-    if (detailsErr) {
-      logger.error('Failed to fetch receipt details via RPC', { reqId, userId, donation_id, error: detailsErr?.message });
-      try {
-        await supabase.rpc('rollback_approved_donation', { p_donation_id: donation_id });
-        logger.info('Rolled back donation after receipt details fetch failure', { reqId, donation_id });
-      } catch (rbErr: any) {
-        logger.error('Rollback after receipt details fetch failure failed', { reqId, donation_id, error: rbErr?.message });
-      }
-      return NextResponse.json({ status: 'error', message: 'Failed to fetch receipt details' }, { status: 500 });
-    }
-
-    if (!detailsData || detailsData.length === 0) {
-      logger.error('No receipt details found for donation', { reqId, userId, donation_id });
-      try {
-        await supabase.rpc('rollback_approved_donation', { p_donation_id: donation_id });
-        logger.info('Rolled back donation after receipt details were not found', { reqId, donation_id });
-      } catch (rbErr: any) {
-        logger.error('Rollback after receipt details were not found failed', { reqId, donation_id, error: rbErr?.message });
-      }
-      return NextResponse.json({ status: 'error', message: 'Receipt details not found' }, { status: 500 });
+    // Above the second-approval threshold the first approval is only recorded; no donation yet
+    if (!donation?.donation_id) {
+      await logAuthEvent('donation_first_approval_recorded', { userId, reqId, donation_request_id });
+      logger.info('First of two approvals recorded', { reqId, userId, donation_request_id });
+      return NextResponse.json({
+        status: 'pending_second_approval',
+        message: 'First approval recorded. A second admin must give the final approval.',
+        donationRequestId: donation_request_id,
+      }, { status: 202 });
     }
 
-    const receiptDetails = detailsData[0];
-    logger.info('Receipt details fetched', { 
-      reqId, 
-      donation_id: receiptDetails.donation_id,
-      hasDonorName: !!receiptDetails.donor_name,
-      hasPhone: !!receiptDetails.phone_number,
-      hasAddress: !!receiptDetails.address
-    });
+    const donation_id: string = donation.donation_id;
 
-    // 4) Generate receipt PDF using shared template with real values
-    let pdfBytes: Uint8Array;
+    // 3b-5) Generate the receipt PDF, upload it and record its path (shared with bulk approvals)
+    let storagePath: string;
     try {
-      pdfBytes = await generateReceiptPDF({
-        donation_id: receiptDetails.donation_id,
-        donor_id: receiptDetails.donor_human_id,
-        donor_name: receiptDetails.donor_name || 'N/A',
-        phone_number: receiptDetails.phone_number || 'N/A',
-        address: receiptDetails.address || 'N/A',
-        amount: receiptDetails.amount,
-        currency: receiptDetails.currency,
-        donation_date: receiptDetails.donation_date,
-        payment_method: receiptDetails.payment_method,
-        transaction_id: receiptDetails.transaction_id ?? undefined,
-        category_name: receiptDetails.category_name ?? undefined,
-        project_name: receiptDetails.project_name ?? undefined,
-        donation_type: receiptDetails.donation_type,
-        approved_by_name: receiptDetails.approved_by_name || undefined,
-      });
-      
-      logger.info('PDF receipt generated successfully', { reqId, userId, donation_id, pdfSize: pdfBytes.length });
-    } catch (pdfError) {
-      const errorMessage = pdfError instanceof Error ? pdfError.message : 'Unknown error generating PDF';
-      logger.error('Failed to generate receipt PDF', { reqId, userId, donation_id, error: errorMessage });
-      await logAuthEvent('donation_receipt_generation_failed', { 
-        userId, 
-        reqId, 
-        donation_id, 
-        error: errorMessage 
-      });
+      const issued = await issueDonationReceipt(supabase, donation_id);
+      storagePath = issued.storagePath;
+      logger.info('Receipt uploaded and donation updated', { reqId, userId, donation_id, storagePath, pdfSize: issued.pdfSize });
+    } catch (receiptError) {
+      const stage = receiptError instanceof ReceiptIssueError ? receiptError.stage : 'render';
+      const errorMessage = receiptError instanceof Error ? receiptError.message : 'Unknown receipt error';
+      logger.error('Receipt could not be issued', { reqId, userId, donation_id, stage, error: errorMessage });
+      await logAuthEvent(RECEIPT_FAILURE_EVENTS[stage], { userId, reqId, donation_id, error: errorMessage });
       // Rollback approval since we cannot proceed without a receipt
       try {
         await supabase.rpc('rollback_approved_donation', { p_donation_id: donation_id });
-        logger.info('Rolled back donation after PDF generation failure', { reqId, donation_id });
-      } catch (rbErr: any) {
-        logger.error('Rollback after PDF generation failure failed', { reqId, donation_id, error: rbErr?.message });
-      }
-      return NextResponse.json({ status: 'error', message: 'Failed to generate receipt' }, { status: 500 });
-    }
-
-    // 5) Upload to Storage directly (admins allowed by RLS policies)
-    const storagePath = `donations/${donation_id}.pdf`;
-    
-    try {
-      // Log admin status just before upload (helps diagnose RLS issues)
-      const { data: roleProbe } = await supabase.rpc('my_roles');
-      logger.info('Starting receipt upload to storage', { 
-        reqId, 
-        userId, 
-        donation_id, 
-        is_admin: roleProbe?.is_admin,
-        storagePath
-      });
-
-      // Prefer Blob for Node >= 18 to avoid binary payload issues
-      const blob = new Blob([new Uint8Array(pdfBytes)], { type: 'application/pdf' });
-
-      // First, try to remove any existing file to avoid conflicts
-      try {
-        await supabase.storage.from('receipts').remove([storagePath]);
-      } catch (removeErr: unknown) {
-        // Ignore if file doesn't exist
-        const errorMessage = removeErr instanceof Error ? removeErr.message : String(removeErr);
-        logger.info('No existing file to remove or remove failed', { reqId, storagePath, error: errorMessage });
-      }
-
-      // Upload the new file
-      const { error: uploadErr } = await supabase.storage
-        .from('receipts')
-        .upload(storagePath, blob, {
-          contentType: 'application/pdf',
-          upsert: true,
-          cacheControl: '3600',
-        });
-
-      if (uploadErr) throw uploadErr;
-
-      // Update donations.receipt_pdf_path with just the storage path (without 'receipts/' prefix)
-      const { error: updateErr } = await supabase.rpc('update_donation_receipt_path', {
-        p_donation_id: donation_id,
-        p_receipt_path: storagePath  // Just the path within the bucket, not the full path
-      });
-
-      if (updateErr) {
-        // Cleanup uploaded file, then rollback approval
-        try {
-          await supabase.storage.from('receipts').remove([storagePath]);
-          logger.info('Removed uploaded receipt after DB update failure', { reqId, donation_id, storagePath });
-        } catch (rmErr: any) {
-          logger.error('Failed to remove uploaded receipt after DB update failure', { reqId, donation_id, error: rmErr?.message });
-        }
-        throw updateErr;
-      }
-
-      logger.info('Receipt uploaded and donation updated', { reqId, userId, donation_id, storagePath });
-    } catch (uploadError) {
-      const errorMessage = uploadError instanceof Error ? uploadError.message : 'Unknown upload error';
-      logger.error('Receipt upload failed', { 
-        reqId, 
-        userId, 
-        donation_id, 
-        error: errorMessage,
-        errorDetails: JSON.stringify(uploadError, Object.getOwnPropertyNames(uploadError)),
-        storagePath: storagePath
-      });
-      
-      await logAuthEvent('donation_receipt_upload_failed', { 
-        userId, 
-        reqId, 
-        donation_id, 
-        error: errorMessage 
-      });
-      // Rollback the approval since upload/DB update failed
-      try {
-        await supabase.rpc('rollback_approved_donation', { p_donation_id: donation_id });
-        logger.info('Rolled back donation after upload/update failure', { reqId, donation_id });
+        logger.info('Rolled back donation after receipt failure', { reqId, donation_id, stage });
       } catch (rbErr: any) {
-        logger.error('Rollback after upload/update failure failed', { reqId, donation_id, error: rbErr?.message });
+        logger.error('Rollback after receipt failure failed', { reqId, donation_id, error: rbErr?.message });
       }
-      return NextResponse.json({ status: 'error', message: 'Receipt upload failed' }, { status: 500 });
+      return NextResponse.json({ status: 'error', message: RECEIPT_FAILURE_MESSAGES[stage] }, { status: 500 });
     }
 
     // 6) Get the updated donation record with receipt path
@@ -312,7 +214,7 @@ export async function POST(request: NextRequest) {
     const durationMs = Date.now() - startedAt;
     logger.info('Donation approved and receipt uploaded', { reqId, userId, donation_id, storagePath: fullStoragePath, durationMs });
 
-    return NextResponse.json({ status: 'success', donationId: donation_id, receiptPath: fullStoragePath }, { status: 200 });
+    return NextResponse.json({ status: 'success', donationId: donation_id, receiptNumber: donationData.receipt_number ?? null, receiptPath: fullStoragePath }, { status: 200 });
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     logger.error('Unhandled error in donation approval route', { error: message });
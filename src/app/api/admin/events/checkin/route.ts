@@ -0,0 +1,89 @@
+// src/app/api/admin/events/checkin/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { parseCheckinPayload } from '@/lib/volunteers/checkin';
+
+function createClient(request: NextRequest, response: NextResponse) {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, '', { ...options, maxAge: 0 });
+        },
+      },
+    }
+  );
+}
+
+// GET /api/admin/events/checkin?event_id=...
+// Attendance sessions of the event, volunteers still on site first.
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next();
+  const supabase = createClient(request, response);
+
+  const { data: isAdmin, error: adminErr } = await supabase.rpc('is_admin');
+  if (adminErr || !isAdmin) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const eventId = request.nextUrl.searchParams.get('event_id');
+  if (!eventId) {
+    return NextResponse.json({ error: 'Missing event_id' }, { status: 400 });
+  }
+
+  const { data, error } = await supabase.rpc('get_event_attendance', { p_event_id: eventId });
+  if (error) {
+    return NextResponse.json({ error: 'Failed to load attendance', details: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ attendance: data ?? [] });
+}
+
+// POST /api/admin/events/checkin
+// Body: { event_id, code } where code is the scanned QR payload (or the token typed in).
+// The first scan checks the volunteer in; the next one checks them out and files their hours.
+export async function POST(request: NextRequest) {
+  const response = NextResponse.next();
+  const supabase = createClient(request, response);
+
+  const { data: isAdmin, error: adminErr } = await supabase.rpc('is_admin');
+  if (adminErr || !isAdmin) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const { event_id, code } = body || {};
+  if (!event_id || typeof code !== 'string') {
+    return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+  }
+
+  const token = parseCheckinPayload(code);
+  if (!token) {
+    return NextResponse.json({ error: 'Not a volunteer check-in code' }, { status: 400 });
+  }
+
+  const { data, error } = await supabase.rpc('scan_event_attendance', {
+    p_event_id: event_id,
+    p_checkin_token: token,
+  });
+
+  if (error) {
+    if (error.code === 'P0002') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error.code === '22023') {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    return NextResponse.json({ error: 'Failed to record attendance', details: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ scan: data });
+}
@@ -0,0 +1,44 @@
+// src/app/api/admin/events/roster/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+
+// GET /api/admin/events/roster?event_id=...
+// Registered volunteers followed by the waitlist in promotion order, then cancelled/released sign-ups.
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next();
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, '', { ...options, maxAge: 0 });
+        },
+      },
+    }
+  );
+
+  const { data: isAdmin, error: adminErr } = await supabase.rpc('is_admin');
+  if (adminErr || !isAdmin) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const eventId = request.nextUrl.searchParams.get('event_id');
+  if (!eventId) {
+    return NextResponse.json({ error: 'Missing event_id' }, { status: 400 });
+  }
+
+  const { data, error } = await supabase.rpc('get_event_roster', { p_event_id: eventId });
+  if (error) {
+    return NextResponse.json({ error: 'Failed to load roster', details: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ roster: data ?? [] });
+}
@@ -0,0 +1,111 @@
+// src/app/api/admin/events/shifts/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+
+function createClient(request: NextRequest, response: NextResponse) {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, '', { ...options, maxAge: 0 });
+        },
+      },
+    }
+  );
+}
+
+// GET /api/admin/events/shifts?event_id=...
+// Shift grid of an event: every shift with its filled count and the volunteers signed up.
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next();
+  const supabase = createClient(request, response);
+
+  const { data: isAdmin, error: adminErr } = await supabase.rpc('is_admin');
+  if (adminErr || !isAdmin) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const eventId = request.nextUrl.searchParams.get('event_id');
+  if (!eventId) {
+    return NextResponse.json({ error: 'Missing event_id' }, { status: 400 });
+  }
+
+  const { data, error } = await supabase.rpc('get_event_shift_grid', { p_event_id: eventId });
+  if (error) {
+    return NextResponse.json({ error: 'Failed to load shifts', details: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ shifts: data ?? [] });
+}
+
+// POST /api/admin/events/shifts
+// Body: { event_id, role_name, starts_at, ends_at, required_count, notes? } (timestamps as ISO strings)
+export async function POST(request: NextRequest) {
+  const response = NextResponse.next();
+  const supabase = createClient(request, response);
+
+  const { data: isAdmin, error: adminErr } = await supabase.rpc('is_admin');
+  if (adminErr || !isAdmin) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const { event_id, role_name, starts_at, ends_at, required_count, notes } = body || {};
+
+  if (!event_id || !role_name || !starts_at || !ends_at || !required_count) {
+    return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+  }
+
+  const { data, error } = await supabase.rpc('create_event_shift', {
+    p_event_id: event_id,
+    p_role_name: role_name,
+    p_starts_at: starts_at,
+    p_ends_at: ends_at,
+    p_required_count: Number(required_count),
+    p_notes: notes ?? null,
+  });
+
+  if (error) {
+    // Validation failures (outside event dates, bad window, cancelled event) are shown to the admin as-is
+    if (error.code === '22023' || error.code === 'P0002') {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Failed to create shift', details: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ shift: data }, { status: 201 });
+}
+
+// DELETE /api/admin/events/shifts?shift_id=...
+export async function DELETE(request: NextRequest) {
+  const response = NextResponse.next();
+  const supabase = createClient(request, response);
+
+  const { data: isAdmin, error: adminErr } = await supabase.rpc('is_admin');
+  if (adminErr || !isAdmin) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const shiftId = request.nextUrl.searchParams.get('shift_id');
+  if (!shiftId) {
+    return NextResponse.json({ error: 'Missing shift_id' }, { status: 400 });
+  }
+
+  const { error } = await supabase.rpc('delete_event_shift', { p_shift_id: shiftId });
+  if (error) {
+    if (error.code === 'P0002') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    return NextResponse.json({ error: 'Failed to delete shift', details: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ status: 'success' });
+}
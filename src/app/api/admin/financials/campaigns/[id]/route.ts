@@ -0,0 +1,114 @@
+// src/app/api/admin/financials/campaigns/[id]/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+
+function createClient(request: NextRequest, response: NextResponse) {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+}
+
+// GET /api/admin/financials/campaigns/{id}
+// Live progress: raised vs goal, donor count, pending requests and a total for each day so far.
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Campaign progress without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Campaign progress forbidden", { userId: session.user.id, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { data, error } = await supabase.rpc("get_campaign_progress", { p_campaign_id: id });
+    if (error) {
+      logger.error("[Financials] get_campaign_progress RPC error", { error, id });
+      if (error.code === "P0002") {
+        return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+      }
+      return NextResponse.json({ error: "Failed to fetch campaign progress" }, { status: 500 });
+    }
+
+    return NextResponse.json({ status: "success", campaign: data });
+  } catch (err) {
+    logger.error("[Financials] Campaign progress unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// PATCH /api/admin/financials/campaigns/{id}
+// Body: { is_active: boolean } - closing stops new requests from naming the campaign
+export async function PATCH(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Update campaign without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { id } = await context.params;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Update campaign forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({} as any));
+    if (typeof body?.is_active !== "boolean") {
+      return NextResponse.json({ error: "is_active must be true or false" }, { status: 400 });
+    }
+
+    const { data, error } = await supabase.rpc("set_campaign_active", {
+      p_campaign_id: id,
+      p_is_active: body.is_active,
+    });
+    if (error) {
+      logger.error("[Financials] set_campaign_active RPC error", { error, id });
+      if (error.code === "P0002") {
+        return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+      }
+      return NextResponse.json({ error: "Failed to update campaign" }, { status: 500 });
+    }
+
+    logger.info("[Financials] Campaign status updated", { userId, id, isActive: body.is_active });
+    return NextResponse.json({ status: "success", campaign: data });
+  } catch (err) {
+    logger.error("[Financials] Update campaign unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,128 @@
+// src/app/api/admin/financials/campaigns/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+
+function createClient(request: NextRequest, response: NextResponse) {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+}
+
+// GET /api/admin/financials/campaigns
+// Every campaign with raised (PKR, cash), in-kind value, donor count and percent of goal.
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] List campaigns without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] List campaigns forbidden", { userId: session.user.id, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { data, error } = await supabase.rpc("list_campaigns");
+    if (error) {
+      logger.error("[Financials] List campaigns DB error", { error });
+      return NextResponse.json({ error: "Failed to fetch campaigns" }, { status: 500 });
+    }
+
+    return NextResponse.json({ status: "success", campaigns: data || [] });
+  } catch (err) {
+    logger.error("[Financials] List campaigns unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// POST /api/admin/financials/campaigns
+// Body: { name, goal_amount, start_date, end_date, description?, project_ids?: string[] }
+// With no project_ids the campaign accepts requests for any project.
+export async function POST(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Create campaign without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Create campaign forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({} as any));
+
+    const name = String(body?.name || "").trim();
+    const goal_amount = Number(body?.goal_amount);
+    const start_date = String(body?.start_date || "");
+    const end_date = String(body?.end_date || "");
+    const description = String(body?.description || "").trim() || null;
+    const project_ids: string[] = Array.isArray(body?.project_ids)
+      ? body.project_ids.map((id: unknown) => String(id)).filter(Boolean)
+      : [];
+
+    if (!name || !start_date || !end_date || !Number.isFinite(goal_amount) || goal_amount <= 0) {
+      return NextResponse.json({ error: "Missing or invalid fields" }, { status: 400 });
+    }
+    if (end_date < start_date) {
+      return NextResponse.json({ error: "End date must be on or after the start date" }, { status: 400 });
+    }
+
+    const { data, error } = await supabase.rpc("create_campaign", {
+      p_name: name,
+      p_goal_amount: goal_amount,
+      p_start_date: start_date,
+      p_end_date: end_date,
+      p_description: description,
+      p_project_ids: project_ids,
+    });
+
+    if (error) {
+      logger.error("[Financials] create_campaign RPC error", { error });
+      const status =
+        error.code === "23505" ? 409
+        : error.code === "P0002" || error.code === "22023" ? 400
+        : 500;
+      return NextResponse.json({ error: status === 500 ? "Failed to create campaign" : error.message }, { status });
+    }
+
+    logger.info("[Financials] Campaign created", { userId, campaignId: data?.campaign_id, projects: project_ids.length });
+    return NextResponse.json({ status: "success", campaign: data });
+  } catch (err) {
+    logger.error("[Financials] Create campaign unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
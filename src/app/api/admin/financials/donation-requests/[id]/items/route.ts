@@ -0,0 +1,74 @@
+// src/app/api/admin/financials/donation-requests/[id]/items/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import type { InKindItemRow } from "@/lib/financials/inKind";
+
+// GET /api/admin/financials/donation-requests/{id}/items
+// Item lines and valuation notes of an in-kind donation request
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] View in-kind items without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { id } = await context.params;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] View in-kind items forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { data, error } = await supabase.rpc("get_in_kind_items", { p_donation_request_id: id });
+    if (error) {
+      logger.error("[Financials] get_in_kind_items RPC error", { error, id });
+      if (error.code === "P0002") {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      return NextResponse.json({ error: "Failed to load donation items" }, { status: 500 });
+    }
+
+    const rows = (Array.isArray(data) ? data : []) as InKindItemRow[];
+    return NextResponse.json({
+      status: "success",
+      items: rows.map((r) => ({
+        line_no: r.line_no,
+        description: r.description,
+        quantity: Number(r.quantity),
+        unit: r.unit,
+        estimated_value: Number(r.estimated_value),
+      })),
+      valuation_notes: rows[0]?.valuation_notes ?? null,
+    });
+  } catch (err) {
+    logger.error("[Financials] View in-kind items unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
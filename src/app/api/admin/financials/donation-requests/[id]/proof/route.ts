@@ -0,0 +1,81 @@
+// src/app/api/admin/financials/donation-requests/[id]/proof/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { PAYMENT_PROOF_BUCKET } from "@/lib/financials/paymentProofs";
+
+// GET /api/admin/financials/donation-requests/{id}/proof
+// Streams the donor's proof of payment inline so it opens in a new tab
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] View payment proof without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { id } = await context.params;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] View payment proof forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { data: proofPath, error: pathError } = await supabase.rpc("get_donation_request_proof_path", {
+      p_donation_request_id: id,
+    });
+    if (pathError) {
+      logger.error("[Financials] get_donation_request_proof_path RPC error", { error: pathError });
+      return NextResponse.json({ error: "Failed to load payment proof" }, { status: 500 });
+    }
+    if (!proofPath) {
+      return NextResponse.json({ error: "No proof of payment attached" }, { status: 404 });
+    }
+
+    const { data: file, error: downloadError } = await supabase.storage
+      .from(PAYMENT_PROOF_BUCKET)
+      .download(proofPath as string);
+    if (downloadError || !file) {
+      logger.error("[Financials] Payment proof download failed", { id, proofPath, error: downloadError ?? undefined });
+      return NextResponse.json({ error: "Payment proof not found" }, { status: 404 });
+    }
+
+    const fileName = String(proofPath).split("/").pop() || "proof";
+    return new NextResponse(new Uint8Array(await file.arrayBuffer()), {
+      status: 200,
+      headers: {
+        "Content-Type": file.type || "application/octet-stream",
+        "Content-Disposition": `inline; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    logger.error("[Financials] View payment proof unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -64,6 +64,9 @@ export async function POST(request: NextRequest) {
     });
 
     const json = await res.json().catch(() => ({ status: "error", message: "Invalid response" }));
+    if (json?.status === "pending_second_approval") {
+      return NextResponse.json(json, { status: 202 });
+    }
     if (!res.ok || json?.status !== "success") {
       logger.error("[Financials] Atomic approval failed", { donation_request_id, status: res.status, json });
       return NextResponse.json(json ?? { error: "Approval failed" }, { status: res.status || 500 });
@@ -2,7 +2,16 @@
 import { createServerClient, type CookieOptions } from "@supabase/ssr";
 import { NextRequest, NextResponse } from "next/server";
 import { logger } from "@/lib/utils/logger";
+import { isDonationCurrency } from "@/lib/financials/currency";
+import { isInKindPaymentMode, parseInKindItems } from "@/lib/financials/inKind";
+import { parseTribute } from "@/lib/financials/tributes";
 
+// POST /api/admin/financials/donation-requests/create
+// Body: { donor_number, amount, currency, category_name, project_name, mode_of_payment, donation_type,
+//         donation_date, transaction_id?, campaign_id?,
+//         tribute?: { type: "InMemoryOf" | "InHonourOf" | "OnBehalfOf", name, notify_name?, notify_email?, notify_address? } }
+// In-kind (mode_of_payment "InKind"): amount and currency are ignored; send instead
+//   { items: [{ description, quantity, unit, estimated_value }], valuation_notes? }
 export async function POST(request: NextRequest) {
   const response = NextResponse.next({
     request: { headers: new Headers(request.headers) },
@@ -53,6 +62,50 @@ export async function POST(request: NextRequest) {
     const donation_type = String(body?.donation_type || "");
     const donation_date = String(body?.donation_date || "");
     const transaction_id = String(body?.transaction_id || "").trim() || null;
+    const campaign_id = String(body?.campaign_id || "").trim() || null;
+
+    const parsedTribute = parseTribute(body?.tribute);
+    if ("error" in parsedTribute) {
+      return NextResponse.json({ error: parsedTribute.error }, { status: 400 });
+    }
+    const tribute = parsedTribute.tribute;
+
+    if (isInKindPaymentMode(mode_of_payment)) {
+      if (!donor_number || !category_name || !project_name || !donation_type || !donation_date) {
+        return NextResponse.json({ error: "Missing or invalid fields" }, { status: 400 });
+      }
+      const parsed = parseInKindItems(body?.items);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+
+      const { data, error } = await supabase.rpc("create_in_kind_donation_request", {
+        p_donor_number: donor_number,
+        p_category_name: category_name,
+        p_project_name: project_name,
+        p_donation_type: donation_type,
+        p_donation_date: donation_date,
+        p_items: parsed.items,
+        p_valuation_notes: String(body?.valuation_notes || "").trim() || null,
+        p_campaign_id: campaign_id,
+        p_tribute: tribute,
+      });
+
+      if (error) {
+        logger.error("[Financials] create_in_kind_donation_request RPC error", { error });
+        if (error.code === "22023" || error.code === "P0002") {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        return NextResponse.json({ error: "Failed to create donation request" }, { status: 500 });
+      }
+
+      logger.info("[Financials] In-kind donation request created", { userId, items: parsed.items.length });
+      return NextResponse.json({ status: "success", donation_request: data });
+    }
+
+    if (!isDonationCurrency(currency)) {
+      return NextResponse.json({ error: "Unsupported currency" }, { status: 400 });
+    }
 
     if (!donor_number || !category_name || !project_name || !mode_of_payment || !donation_type || !donation_date || !Number.isFinite(amount)) {
       return NextResponse.json({ error: "Missing or invalid fields" }, { status: 400 });
@@ -68,10 +121,16 @@ export async function POST(request: NextRequest) {
       p_donation_type: donation_type,
       p_donation_date: donation_date,
       p_transaction_id: transaction_id,
+      p_campaign_id: campaign_id,
+      p_tribute: tribute,
     });
 
     if (error) {
       logger.error("[Financials] create_donation_request RPC error", { error });
+      // Campaign window / project mismatches and tribute problems come back as 22023
+      if (error.code === "22023" || error.code === "P0002") {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
       return NextResponse.json({ error: "Failed to create donation request" }, { status: 500 });
     }
 
@@ -0,0 +1,86 @@
+// src/app/api/admin/financials/donations/[id]/tribute-letter/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { isTributeType } from "@/lib/financials/tributes";
+import { generateTributeLetterPDF } from "@/lib/receipts/generateTributeLetter";
+
+export const runtime = "nodejs";
+
+// GET /api/admin/financials/donations/{id}/tribute-letter
+// Acknowledgement letter (PDF) for the honoree's family of an approved tribute donation.
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Tribute letter forbidden", { userId: session.user.id, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await context.params;
+    const { data, error } = await supabase.rpc("get_donation_receipt_details", { p_donation_id: id });
+    if (error) {
+      logger.error("[Financials] Tribute letter details error", { error, id });
+      return NextResponse.json({ error: "Failed to load donation" }, { status: 500 });
+    }
+
+    const details = data?.[0];
+    if (!details) {
+      return NextResponse.json({ error: "Donation not found" }, { status: 404 });
+    }
+    if (!isTributeType(details.tribute_type) || !details.tribute_name) {
+      return NextResponse.json({ error: "This donation was not made as a tribute" }, { status: 404 });
+    }
+
+    const pdfBytes = await generateTributeLetterPDF({
+      tribute_type: details.tribute_type,
+      honoree_name: details.tribute_name,
+      donor_name: details.donor_name && details.donor_name !== "N/A" ? details.donor_name : "A donor",
+      recipient_name: details.tribute_notify_name,
+      recipient_address: details.tribute_notify_address,
+      project_name: details.project_name && details.project_name !== "N/A" ? details.project_name : null,
+      donation_date: details.donation_date,
+      receipt_number: details.receipt_number,
+    });
+
+    return new NextResponse(new Uint8Array(pdfBytes), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="tribute-letter-${details.receipt_number ?? id}.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    logger.error("[Financials] Tribute letter unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+// src/app/api/admin/financials/donations/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+
+// GET /api/admin/financials/donations?limit=100
+// Lists approved donations (most recent first) with their current receipt number
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] List donations without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] List donations forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const limitParam = Number(request.nextUrl.searchParams.get("limit"));
+    const limit = Number.isFinite(limitParam) && limitParam > 0 ? Math.min(limitParam, 500) : 100;
+
+    const { data: donations, error } = await supabase.rpc("list_approved_donations", { p_limit: limit });
+    if (error) {
+      logger.error("[Financials] List donations DB error", { error });
+      return NextResponse.json({ error: "Failed to fetch donations" }, { status: 500 });
+    }
+
+    return NextResponse.json({ status: "success", donations: donations || [] });
+  } catch (err) {
+    logger.error("[Financials] List donations unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
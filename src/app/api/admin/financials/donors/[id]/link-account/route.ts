@@ -0,0 +1,79 @@
+// src/app/api/admin/financials/donors/[id]/link-account/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+
+// POST /api/admin/financials/donors/{id}/link-account
+// Body: { email: string }. Attaches the portal account registered with that email to a donor
+// recorded without one; the donor's history then shows up in their portal.
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Link donor account without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Link donor account forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await context.params;
+    const body = await request.json().catch(() => ({} as any));
+    const email = String(body?.email || "").trim();
+    if (!email) {
+      return NextResponse.json({ error: "The account email is required" }, { status: 400 });
+    }
+
+    const { data: donor, error } = await supabase.rpc("link_donor_account", {
+      p_donor_id: id,
+      p_email: email,
+    });
+    if (error) {
+      logger.error("[Financials] link_donor_account RPC error", { error, donorId: id });
+      if (error.code === "P0002") {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.code === "23505") {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (error.code === "22023") {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      return NextResponse.json({ error: "Failed to link account" }, { status: 500 });
+    }
+
+    logger.info("[Financials] Donor linked to portal account", { userId, donorId: id, linkedUserId: donor?.user_id });
+    return NextResponse.json({ status: "success", donor });
+  } catch (err) {
+    logger.error("[Financials] Link donor account unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
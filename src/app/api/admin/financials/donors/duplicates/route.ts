@@ -0,0 +1,70 @@
+// src/app/api/admin/financials/donors/duplicates/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+
+// GET /api/admin/financials/donors/duplicates?min_score=40
+// Likely duplicate donor pairs (highest score first) and the most recent merges.
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Duplicate donors without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Duplicate donors forbidden", { userId: session.user.id, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const scoreParam = Number(request.nextUrl.searchParams.get("min_score") ?? 40);
+    const minScore = Number.isInteger(scoreParam) ? Math.min(Math.max(scoreParam, 1), 100) : 40;
+
+    const [pairsResult, mergesResult] = await Promise.all([
+      supabase.rpc("find_duplicate_donors", { p_min_score: minScore }),
+      supabase.rpc("list_donor_merges", { p_limit: 20 }),
+    ]);
+    if (pairsResult.error || mergesResult.error) {
+      logger.error("[Financials] Duplicate donors DB error", {
+        pairsError: pairsResult.error,
+        mergesError: mergesResult.error,
+      });
+      return NextResponse.json({ error: "Failed to look for duplicate donors" }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      status: "success",
+      min_score: minScore,
+      pairs: pairsResult.data || [],
+      merges: mergesResult.data || [],
+    });
+  } catch (err) {
+    logger.error("[Financials] Duplicate donors unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,132 @@
+// src/app/api/admin/financials/donors/merge/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { issueDonationReceipt } from "@/lib/receipts/issueDonationReceipt";
+import { RECEIPT_SIGNING_NOT_CONFIGURED, isReceiptSigningConfigured } from "@/lib/receipts/verificationToken";
+
+export const runtime = "nodejs";
+
+// POST /api/admin/financials/donors/merge
+// Body: { surviving_donor_id, merged_donor_id, reason }
+// Moves the duplicate's donations, requests and pledges to the surviving donor (audited in
+// donor_merges), then regenerates each moved donation's receipt so it shows the surviving donor ID.
+// Receipt numbers do not change; each new PDF is a separate file and the one it replaces stays in
+// storage, listed in donor_merges.superseded_receipt_paths.
+export async function POST(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Merge donors without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Merge donors forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({} as any));
+    const survivingDonorId = String(body?.surviving_donor_id || "").trim();
+    const mergedDonorId = String(body?.merged_donor_id || "").trim();
+    const reason = String(body?.reason || "").trim();
+
+    if (!survivingDonorId || !mergedDonorId) {
+      return NextResponse.json({ error: "Both donors are required" }, { status: 400 });
+    }
+    if (survivingDonorId === mergedDonorId) {
+      return NextResponse.json({ error: "A donor cannot be merged into itself" }, { status: 400 });
+    }
+    if (!reason) {
+      return NextResponse.json({ error: "A reason is required" }, { status: 400 });
+    }
+
+    // Checked before merging: the regenerated receipts carry a signed verification link
+    if (!isReceiptSigningConfigured()) {
+      logger.error("[Financials] Merge donors blocked: RECEIPT_VERIFICATION_SECRET is not set", { userId, survivingDonorId, mergedDonorId });
+      return NextResponse.json({ error: RECEIPT_SIGNING_NOT_CONFIGURED, code: "receipt_signing_not_configured" }, { status: 503 });
+    }
+
+    const { data: merge, error: mergeError } = await supabase.rpc("merge_donors", {
+      p_surviving_donor_id: survivingDonorId,
+      p_merged_donor_id: mergedDonorId,
+      p_reason: reason,
+    });
+    if (mergeError || !merge) {
+      logger.error("[Financials] merge_donors RPC error", { error: mergeError, survivingDonorId, mergedDonorId });
+      const status =
+        mergeError?.code === "42501" ? 403
+        : mergeError?.code === "P0002" ? 404
+        : mergeError?.code === "22023" ? 400
+        : mergeError?.code === "55000" ? 409
+        : 500;
+      return NextResponse.json({ error: status === 500 ? "Failed to merge donors" : mergeError?.message }, { status });
+    }
+
+    // Regenerate receipts one by one; a failure is reported but does not undo the merge
+    const donationIds: string[] = merge.moved_donation_ids ?? [];
+    const failedReceipts: string[] = [];
+    let regenerated = 0;
+    for (const donationId of donationIds) {
+      try {
+        await issueDonationReceipt(supabase, donationId, { version: `merge-${merge.merge_id}` });
+        regenerated += 1;
+      } catch (receiptErr) {
+        logger.error("[Financials] Receipt regeneration after donor merge failed", {
+          mergeId: merge.merge_id,
+          donationId,
+          err: receiptErr instanceof Error ? receiptErr.message : String(receiptErr),
+        });
+        failedReceipts.push(donationId);
+      }
+    }
+
+    logger.info("[Financials] Donors merged", {
+      userId,
+      mergeId: merge.merge_id,
+      survivingDonorId,
+      mergedDonorNumber: merge.merged_donor_number,
+      donations: donationIds.length,
+      regenerated,
+    });
+
+    return NextResponse.json({
+      status: "success",
+      merge,
+      receipts_regenerated: regenerated,
+      failed_receipts: failedReceipts,
+      ...(failedReceipts.length > 0
+        ? { warning: `${failedReceipts.length} receipt(s) still show the old donor ID and could not be regenerated` }
+        : {}),
+    });
+  } catch (err) {
+    logger.error("[Financials] Merge donors unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,120 @@
+// src/app/api/admin/financials/donors/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { isDonorType, isValidCnic, isValidNtn } from "@/lib/financials/donors";
+
+function createClient(request: NextRequest, response: NextResponse) {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+}
+
+const text = (value: unknown) => String(value ?? "").trim() || null;
+
+// POST /api/admin/financials/donors
+// Records a donor without a portal account.
+// Body: { donor_type: "Individual" | "Organisation", full_name?, organisation_name?, ntn?,
+//         contact_person?, email?, phone_number?, cnic_number?,
+//         address?: { street?, city?, state?, country?, postalCode? } }
+export async function POST(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Create donor without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Create donor forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({} as any));
+
+    const donor_type = String(body?.donor_type || "Individual");
+    const full_name = text(body?.full_name);
+    const organisation_name = text(body?.organisation_name);
+    const ntn = text(body?.ntn);
+    const cnic_number = text(body?.cnic_number);
+    const email = text(body?.email);
+
+    if (!isDonorType(donor_type)) {
+      return NextResponse.json({ error: "Unsupported donor type" }, { status: 400 });
+    }
+    if (donor_type === "Organisation" ? !organisation_name : !full_name) {
+      return NextResponse.json(
+        { error: donor_type === "Organisation" ? "Organisation name is required" : "Donor name is required" },
+        { status: 400 }
+      );
+    }
+    if (donor_type === "Organisation" && ntn && !isValidNtn(ntn)) {
+      return NextResponse.json({ error: "NTN must be 8 digits, e.g. 1234567-8" }, { status: 400 });
+    }
+    if (cnic_number && !isValidCnic(cnic_number)) {
+      return NextResponse.json({ error: "CNIC must be 13 digits, e.g. 12345-1234567-1" }, { status: 400 });
+    }
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return NextResponse.json({ error: "Invalid email address" }, { status: 400 });
+    }
+
+    const rawAddress = body?.address && typeof body.address === "object" ? body.address : {};
+    const address = Object.fromEntries(
+      ["street", "city", "state", "country", "postalCode"]
+        .map((key) => [key, text(rawAddress[key])])
+        .filter(([, value]) => value)
+    );
+
+    const { data, error } = await supabase.rpc("create_offline_donor", {
+      p_donor_type: donor_type,
+      p_full_name: full_name,
+      p_organisation_name: organisation_name,
+      p_ntn: ntn,
+      p_contact_person: text(body?.contact_person),
+      p_email: email,
+      p_phone_number: text(body?.phone_number),
+      p_cnic_number: cnic_number,
+      p_address: Object.keys(address).length > 0 ? address : null,
+    });
+
+    if (error) {
+      logger.error("[Financials] create_offline_donor RPC error", { error });
+      const status =
+        error.code === "42501" ? 403
+        : error.code === "23505" ? 409
+        : error.code === "22023" ? 400
+        : 500;
+      return NextResponse.json({ error: status === 500 ? "Failed to create donor" : error.message }, { status });
+    }
+
+    const donor = Array.isArray(data) ? data[0] : data;
+    logger.info("[Financials] Donor without account created", { userId, donorId: donor?.donor_id, donor_type });
+    return NextResponse.json({ status: "success", donor });
+  } catch (err) {
+    logger.error("[Financials] Create donor unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+// src/app/api/admin/financials/exchange-rates/[id]/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+
+// DELETE /api/admin/financials/exchange-rates/{id}
+// Donations already approved keep the rate stored on them
+export async function DELETE(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Delete exchange rate without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { id } = await context.params;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Delete exchange rate forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { error } = await supabase.rpc("delete_exchange_rate", { p_exchange_rate_id: id });
+    if (error) {
+      logger.error("[Financials] delete_exchange_rate RPC error", { error });
+      const status = error.code === "P0002" ? 404 : 500;
+      return NextResponse.json({ error: status === 404 ? "Exchange rate not found" : "Failed to delete exchange rate" }, { status });
+    }
+
+    logger.info("[Financials] Exchange rate deleted", { userId, id });
+    return NextResponse.json({ status: "success" });
+  } catch (err) {
+    logger.error("[Financials] Delete exchange rate unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,116 @@
+// src/app/api/admin/financials/exchange-rates/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { BASE_CURRENCY, isDonationCurrency } from "@/lib/financials/currency";
+
+function createClient(request: NextRequest, response: NextResponse) {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+}
+
+// GET /api/admin/financials/exchange-rates
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] List exchange rates without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] List exchange rates forbidden", { userId: session.user.id, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { data, error } = await supabase.rpc("list_exchange_rates");
+    if (error) {
+      logger.error("[Financials] List exchange rates DB error", { error });
+      return NextResponse.json({ error: "Failed to fetch exchange rates" }, { status: 500 });
+    }
+
+    return NextResponse.json({ status: "success", base_currency: BASE_CURRENCY, rates: data || [] });
+  } catch (err) {
+    logger.error("[Financials] List exchange rates unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// POST /api/admin/financials/exchange-rates
+// Body: { currency, rate_to_base, effective_date, notes? } - replaces the rate for the same currency and date
+export async function POST(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Save exchange rate without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Save exchange rate forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({} as any));
+    const currency = String(body?.currency || "");
+    const rate = Number(body?.rate_to_base);
+    const effective_date = String(body?.effective_date || "");
+    const notes = String(body?.notes || "").trim() || null;
+
+    if (!isDonationCurrency(currency) || currency === BASE_CURRENCY) {
+      return NextResponse.json({ error: "Unsupported currency" }, { status: 400 });
+    }
+    if (!Number.isFinite(rate) || rate <= 0 || !/^\d{4}-\d{2}-\d{2}$/.test(effective_date)) {
+      return NextResponse.json({ error: "Missing or invalid fields" }, { status: 400 });
+    }
+
+    const { data, error } = await supabase.rpc("upsert_exchange_rate", {
+      p_currency: currency,
+      p_rate: rate,
+      p_effective_date: effective_date,
+      p_notes: notes,
+    });
+
+    if (error) {
+      logger.error("[Financials] upsert_exchange_rate RPC error", { error });
+      return NextResponse.json({ error: "Failed to save exchange rate" }, { status: 500 });
+    }
+
+    logger.info("[Financials] Exchange rate saved", { userId, currency, rate, effective_date });
+    return NextResponse.json({ status: "success", rate: data });
+  } catch (err) {
+    logger.error("[Financials] Save exchange rate unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+// src/app/api/admin/financials/expenses/[id]/approve/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+
+// POST /api/admin/financials/expenses/{id}/approve - the admin who recorded the expense cannot approve it
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Approve expense without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { id } = await context.params;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Approve expense forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { data: expense, error } = await supabase.rpc("approve_expense", { p_expense_id: id });
+    if (error) {
+      logger.error("[Financials] approve_expense RPC error", { error, id });
+      if (error.code === "42501") {
+        return NextResponse.json({ error: error.message }, { status: 403 });
+      }
+      // 55000: dated in a closed financial year
+      if (error.code === "55000") {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      // 22023: the expense's fund cannot cover it
+      if (error.code === "P0002" || error.code === "22023") {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      return NextResponse.json({ error: "Failed to approve expense" }, { status: 500 });
+    }
+
+    logger.info("[Financials] Expense approved", { userId, id });
+    return NextResponse.json({ status: "success", expense });
+  } catch (err) {
+    logger.error("[Financials] Approve expense unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
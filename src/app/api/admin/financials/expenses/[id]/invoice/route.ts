@@ -0,0 +1,80 @@
+// src/app/api/admin/financials/expenses/[id]/invoice/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { EXPENSE_INVOICE_BUCKET } from "@/lib/financials/expenses";
+
+// GET /api/admin/financials/expenses/{id}/invoice - streams the attached invoice inline
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] View expense invoice without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { id } = await context.params;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] View expense invoice forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { data: invoicePath, error: pathError } = await supabase.rpc("get_expense_invoice_path", {
+      p_expense_id: id,
+    });
+    if (pathError) {
+      logger.error("[Financials] get_expense_invoice_path RPC error", { error: pathError });
+      return NextResponse.json({ error: "Failed to load invoice" }, { status: 500 });
+    }
+    if (!invoicePath) {
+      return NextResponse.json({ error: "No invoice attached" }, { status: 404 });
+    }
+
+    const { data: file, error: downloadError } = await supabase.storage
+      .from(EXPENSE_INVOICE_BUCKET)
+      .download(invoicePath as string);
+    if (downloadError || !file) {
+      logger.error("[Financials] Expense invoice download failed", { id, invoicePath, error: downloadError ?? undefined });
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
+    }
+
+    const fileName = String(invoicePath).split("/").pop() || "invoice";
+    return new NextResponse(new Uint8Array(await file.arrayBuffer()), {
+      status: 200,
+      headers: {
+        "Content-Type": file.type || "application/octet-stream",
+        "Content-Disposition": `inline; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    logger.error("[Financials] View expense invoice unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
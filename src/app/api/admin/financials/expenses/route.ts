@@ -0,0 +1,194 @@
+// src/app/api/admin/financials/expenses/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { isDonationCurrency } from "@/lib/financials/currency";
+import { isFund } from "@/lib/financials/funds";
+import {
+  EXPENSE_INVOICE_BUCKET,
+  EXPENSE_INVOICE_MAX_BYTES,
+  getExpenseInvoiceStoragePath,
+  isExpenseInvoiceType,
+  isExpenseStatus,
+} from "@/lib/financials/expenses";
+
+export const runtime = "nodejs";
+
+function createClient(request: NextRequest, response: NextResponse) {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+}
+
+// GET /api/admin/financials/expenses?status=Pending|Approved|Rejected
+// Expenses (newest first) and the metric card totals
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] List expenses without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] List expenses forbidden", { userId: session.user.id, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const statusParam = request.nextUrl.searchParams.get("status");
+    if (statusParam && !isExpenseStatus(statusParam)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+
+    const [
+      { data: expenses, error: expensesError },
+      { data: metrics, error: metricsError },
+    ] = await Promise.all([
+      supabase.rpc("list_expenses", { p_status: statusParam || null }),
+      supabase.rpc("get_expense_metrics"),
+    ]);
+
+    if (expensesError) {
+      logger.error("[Financials] list_expenses RPC error", { error: expensesError });
+      return NextResponse.json({ error: "Failed to fetch expenses" }, { status: 500 });
+    }
+    if (metricsError) {
+      logger.error("[Financials] get_expense_metrics RPC error", { error: metricsError });
+      // The list is still useful without the cards
+    }
+
+    return NextResponse.json({
+      status: "success",
+      expenses: expenses || [],
+      metrics: Array.isArray(metrics) ? metrics[0] ?? null : metrics ?? null,
+    });
+  } catch (err) {
+    logger.error("[Financials] List expenses unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// POST /api/admin/financials/expenses
+// multipart/form-data: project_id, vendor_name, amount, currency, expense_date, description?,
+// invoice_number?, fund? (Sadqa|General, default General), invoice? (JPG/PNG/WebP/PDF up to 10 MB).
+// The expense starts Pending.
+export async function POST(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Create expense without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Create expense forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const form = await request.formData().catch(() => null);
+    if (!form) {
+      return NextResponse.json({ error: "Expected multipart form data" }, { status: 400 });
+    }
+
+    const projectId = String(form.get("project_id") || "");
+    const vendorName = String(form.get("vendor_name") || "").trim();
+    const amount = Number(form.get("amount"));
+    const currency = String(form.get("currency") || "PKR");
+    const expenseDate = String(form.get("expense_date") || "");
+    const description = String(form.get("description") || "").trim();
+    const invoiceNumber = String(form.get("invoice_number") || "").trim();
+    const fund = String(form.get("fund") || "General");
+    const invoice = form.get("invoice");
+
+    if (!projectId || !vendorName || !Number.isFinite(amount) || amount <= 0 || !/^\d{4}-\d{2}-\d{2}$/.test(expenseDate)) {
+      return NextResponse.json({ error: "Project, vendor, amount and date are required" }, { status: 400 });
+    }
+    if (!isDonationCurrency(currency)) {
+      return NextResponse.json({ error: "Unsupported currency" }, { status: 400 });
+    }
+    if (!isFund(fund) || fund === "Zakat") {
+      return NextResponse.json({ error: "Expenses can be charged to the Sadqa or General fund only" }, { status: 400 });
+    }
+
+    let invoicePath: string | null = null;
+    if (invoice instanceof File && invoice.size > 0) {
+      if (!isExpenseInvoiceType(invoice.type)) {
+        return NextResponse.json({ error: "Invoice must be a JPG, PNG, WebP or PDF file" }, { status: 400 });
+      }
+      if (invoice.size > EXPENSE_INVOICE_MAX_BYTES) {
+        return NextResponse.json({ error: "Invoice must be 10 MB or smaller" }, { status: 400 });
+      }
+
+      invoicePath = getExpenseInvoiceStoragePath(expenseDate, invoice.type);
+      const { error: uploadError } = await supabase.storage
+        .from(EXPENSE_INVOICE_BUCKET)
+        .upload(invoicePath, invoice, { contentType: invoice.type, upsert: false });
+      if (uploadError) {
+        logger.error("[Financials] Expense invoice upload failed", { userId, error: uploadError });
+        return NextResponse.json({ error: "Failed to upload invoice" }, { status: 500 });
+      }
+    }
+
+    const { data: expense, error } = await supabase.rpc("create_expense", {
+      p_project_id: projectId,
+      p_vendor_name: vendorName,
+      p_amount: amount,
+      p_currency: currency,
+      p_expense_date: expenseDate,
+      p_description: description || null,
+      p_invoice_number: invoiceNumber || null,
+      p_invoice_path: invoicePath,
+      p_fund: fund,
+    });
+    if (error) {
+      logger.error("[Financials] create_expense RPC error", { userId, invoicePath, error });
+      if (invoicePath) {
+        await supabase.storage.from(EXPENSE_INVOICE_BUCKET).remove([invoicePath]);
+      }
+      // 55000: dated in a closed financial year
+      if (error.code === "55000") {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (error.code === "22023" || error.code === "P0002") {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      return NextResponse.json({ error: "Failed to record expense" }, { status: 500 });
+    }
+
+    logger.info("[Financials] Expense recorded", { userId, expenseId: expense?.expense_id });
+    return NextResponse.json({ status: "success", expense });
+  } catch (err) {
+    logger.error("[Financials] Create expense unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+// src/app/api/admin/financials/funds/disbursements/[id]/void/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+
+// POST /api/admin/financials/funds/disbursements/{id}/void
+// Body: { reason: string }. The amount goes back to the fund; the row stays in the ledger history.
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Void disbursement without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { id } = await context.params;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Void disbursement forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({} as any));
+    const reason = String(body?.reason || "").trim();
+    if (!reason) {
+      return NextResponse.json({ error: "A reason is required" }, { status: 400 });
+    }
+
+    const { data: disbursement, error } = await supabase.rpc("void_fund_disbursement", {
+      p_disbursement_id: id,
+      p_reason: reason,
+    });
+    if (error) {
+      logger.error("[Financials] void_fund_disbursement RPC error", { error, id });
+      // 55000: dated in a closed financial year
+      if (error.code === "55000") {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (error.code === "P0002" || error.code === "22023") {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      return NextResponse.json({ error: "Failed to void disbursement" }, { status: 500 });
+    }
+
+    logger.info("[Financials] Disbursement voided", { userId, id });
+    return NextResponse.json({ status: "success", disbursement });
+  } catch (err) {
+    logger.error("[Financials] Void disbursement unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,144 @@
+// src/app/api/admin/financials/funds/disbursements/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { DISBURSEMENT_PURPOSES, isDisbursementPurpose, isFund } from "@/lib/financials/funds";
+
+function createClient(request: NextRequest, response: NextResponse) {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+}
+
+// GET /api/admin/financials/funds/disbursements?fund=Zakat|Sadqa|General
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] List disbursements without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] List disbursements forbidden", { userId: session.user.id, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const fund = request.nextUrl.searchParams.get("fund");
+    if (fund && !isFund(fund)) {
+      return NextResponse.json({ error: "Invalid fund" }, { status: 400 });
+    }
+
+    const { data, error } = await supabase.rpc("list_fund_disbursements", { p_fund: fund || null });
+    if (error) {
+      logger.error("[Financials] list_fund_disbursements RPC error", { error });
+      return NextResponse.json({ error: "Failed to fetch disbursements" }, { status: 500 });
+    }
+
+    return NextResponse.json({ status: "success", disbursements: data || [] });
+  } catch (err) {
+    logger.error("[Financials] List disbursements unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// POST /api/admin/financials/funds/disbursements
+// Body: { fund, purpose, amount (PKR), disbursement_date, beneficiary_name?, beneficiary_cnic?,
+//         project_id?, reference?, notes? }
+// Zakat needs an eligible purpose and a named beneficiary; the database enforces the same rules.
+export async function POST(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Create disbursement without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Create disbursement forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({} as any));
+    const fund = body?.fund;
+    const purpose = body?.purpose;
+    const amount = Number(body?.amount);
+    const disbursementDate = String(body?.disbursement_date || "");
+    const beneficiaryName = String(body?.beneficiary_name || "").trim();
+
+    if (!isFund(fund) || !isDisbursementPurpose(purpose)) {
+      return NextResponse.json({ error: "A valid fund and purpose are required" }, { status: 400 });
+    }
+    if (!Number.isFinite(amount) || amount <= 0 || !/^\d{4}-\d{2}-\d{2}$/.test(disbursementDate)) {
+      return NextResponse.json({ error: "Amount and date are required" }, { status: 400 });
+    }
+    if (fund === "Zakat") {
+      const eligible = DISBURSEMENT_PURPOSES.find((p) => p.value === purpose)?.zakatEligible;
+      if (!eligible) {
+        return NextResponse.json({ error: "Zakat can only be disbursed for one of the eight eligible categories" }, { status: 400 });
+      }
+      if (!beneficiaryName) {
+        return NextResponse.json({ error: "Zakat disbursements must name the beneficiary" }, { status: 400 });
+      }
+    }
+
+    const { data: disbursement, error } = await supabase.rpc("create_fund_disbursement", {
+      p_fund: fund,
+      p_purpose: purpose,
+      p_amount: amount,
+      p_disbursement_date: disbursementDate,
+      p_beneficiary_name: beneficiaryName || null,
+      p_beneficiary_cnic: body?.beneficiary_cnic ? String(body.beneficiary_cnic) : null,
+      p_project_id: body?.project_id || null,
+      p_reference: body?.reference ? String(body.reference) : null,
+      p_notes: body?.notes ? String(body.notes) : null,
+    });
+    if (error) {
+      logger.error("[Financials] create_fund_disbursement RPC error", { userId, fund, error });
+      // 55000: dated in a closed financial year
+      if (error.code === "55000") {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (error.code === "22023" || error.code === "P0002") {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      return NextResponse.json({ error: "Failed to record disbursement" }, { status: 500 });
+    }
+
+    logger.info("[Financials] Disbursement recorded", { userId, fund, disbursementId: disbursement?.disbursement_id });
+    return NextResponse.json({ status: "success", disbursement });
+  } catch (err) {
+    logger.error("[Financials] Create disbursement unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
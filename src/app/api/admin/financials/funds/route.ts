@@ -0,0 +1,72 @@
+// src/app/api/admin/financials/funds/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { isFund } from "@/lib/financials/funds";
+
+// GET /api/admin/financials/funds?fund=Zakat|Sadqa|General
+// Balances of every fund, plus the ledger of the requested fund
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Fund balances without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Fund balances forbidden", { userId: session.user.id, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const fund = request.nextUrl.searchParams.get("fund");
+    if (fund && !isFund(fund)) {
+      return NextResponse.json({ error: "Invalid fund" }, { status: 400 });
+    }
+
+    const { data: balances, error: balancesError } = await supabase.rpc("get_fund_balances");
+    if (balancesError) {
+      logger.error("[Financials] get_fund_balances RPC error", { error: balancesError });
+      return NextResponse.json({ error: "Failed to fetch fund balances" }, { status: 500 });
+    }
+
+    let ledger: unknown[] = [];
+    if (fund) {
+      const { data, error } = await supabase.rpc("list_fund_ledger", { p_fund: fund });
+      if (error) {
+        logger.error("[Financials] list_fund_ledger RPC error", { fund, error });
+        return NextResponse.json({ error: "Failed to fetch fund ledger" }, { status: 500 });
+      }
+      ledger = data || [];
+    }
+
+    return NextResponse.json({ status: "success", balances: balances || [], ledger });
+  } catch (err) {
+    logger.error("[Financials] Fund balances unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
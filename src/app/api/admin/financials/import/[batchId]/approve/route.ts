@@ -0,0 +1,90 @@
+// src/app/api/admin/financials/import/[batchId]/approve/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { issueReceiptsForApprovals, type BulkApprovalOutcome } from "@/lib/receipts/issueDonationReceipt";
+import { RECEIPT_SIGNING_NOT_CONFIGURED, isReceiptSigningConfigured } from "@/lib/receipts/verificationToken";
+
+export const runtime = "nodejs";
+
+// POST /api/admin/financials/import/{batchId}/approve
+// A second admin (never the importer) approves the previous-year rows the import flagged for
+// batch approval. Each request goes through approve_donation_request, so maker-checker and the
+// second-approval threshold still apply; refusals come back as "failed". Approved donations get
+// their receipt PDF like a single approval, and a receipt failure rolls that approval back.
+export async function POST(request: NextRequest, context: { params: Promise<{ batchId: string }> }) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Approve import batch without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { batchId } = await context.params;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Approve import batch forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (!isReceiptSigningConfigured()) {
+      logger.error("[Financials] Approve import batch blocked: RECEIPT_VERIFICATION_SECRET is not set", { userId, batchId });
+      return NextResponse.json({ error: RECEIPT_SIGNING_NOT_CONFIGURED, code: "receipt_signing_not_configured" }, { status: 503 });
+    }
+
+    const { data, error } = await supabase.rpc("approve_import_batch", { p_batch_id: batchId });
+    if (error) {
+      // 42501: the importer cannot approve their own batch
+      if (error.code === "42501") {
+        return NextResponse.json({ error: error.message }, { status: 403 });
+      }
+      if (error.code === "P0002") {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      logger.error("[Financials] approve_import_batch RPC error", { error });
+      return NextResponse.json({ error: "Failed to approve the import batch" }, { status: 500 });
+    }
+
+    const results = (data || []) as BulkApprovalOutcome[];
+
+    // Receipts one donation at a time, as /api/admin/donations/approve does for a single request
+    await issueReceiptsForApprovals(supabase, results, { batchId });
+
+    const summary = {
+      approved: results.filter((r) => r.outcome === "approved").length,
+      firstApprovals: results.filter((r) => r.outcome === "first_approval").length,
+      failed: results.filter((r) => r.outcome === "failed").length,
+    };
+
+    logger.info("[Financials] Import batch approved", { userId, batchId, ...summary });
+    return NextResponse.json({ status: "success", results, summary });
+  } catch (err) {
+    logger.error("[Financials] Approve import batch unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
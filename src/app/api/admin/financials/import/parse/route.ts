@@ -0,0 +1,87 @@
+// src/app/api/admin/financials/import/parse/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { parseSpreadsheet, SpreadsheetError } from "@/lib/financials/spreadsheet";
+import { IMPORT_MAX_BYTES, IMPORT_MAX_ROWS } from "@/lib/financials/donationImport";
+
+export const runtime = "nodejs";
+
+// POST /api/admin/financials/import/parse
+// multipart/form-data: file (.csv or .xlsx) -> { headers, rows } of the first sheet
+export async function POST(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Parse import file without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Parse import file forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const form = await request.formData().catch(() => null);
+    const file = form?.get("file");
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json({ error: "Choose a .csv or .xlsx file to import" }, { status: 400 });
+    }
+    if (file.size > IMPORT_MAX_BYTES) {
+      return NextResponse.json({ error: "The file is larger than 5 MB" }, { status: 400 });
+    }
+
+    let sheet: string[][];
+    try {
+      sheet = parseSpreadsheet(file.name, new Uint8Array(await file.arrayBuffer()));
+    } catch (err) {
+      if (err instanceof SpreadsheetError) {
+        return NextResponse.json({ error: err.message }, { status: 400 });
+      }
+      throw err;
+    }
+
+    const [headers = [], ...rows] = sheet;
+    if (rows.length === 0) {
+      return NextResponse.json({ error: "The file has a header row but no data rows" }, { status: 400 });
+    }
+    if (rows.length > IMPORT_MAX_ROWS) {
+      return NextResponse.json(
+        { error: `The file has ${rows.length} rows; split it into files of at most ${IMPORT_MAX_ROWS} rows` },
+        { status: 400 }
+      );
+    }
+
+    logger.info("[Financials] Import file parsed", { userId, fileName: file.name, rows: rows.length });
+    return NextResponse.json({ status: "success", fileName: file.name, headers, rows });
+  } catch (err) {
+    logger.error("[Financials] Parse import file unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
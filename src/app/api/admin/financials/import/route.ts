@@ -0,0 +1,129 @@
+// src/app/api/admin/financials/import/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { IMPORT_MAX_ROWS } from "@/lib/financials/donationImport";
+
+function createClient(request: NextRequest, response: NextResponse) {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+}
+
+// GET /api/admin/financials/import
+// Latest import batches with their batch approval progress.
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] List import batches without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] List import batches forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { data, error } = await supabase.rpc("get_donation_import_batches", { p_limit: 20 });
+    if (error) {
+      logger.error("[Financials] get_donation_import_batches RPC error", { error });
+      return NextResponse.json({ error: "Failed to load import batches" }, { status: 500 });
+    }
+
+    return NextResponse.json({ status: "success", batches: data || [], currentUserId: userId });
+  } catch (err) {
+    logger.error("[Financials] List import batches unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// POST /api/admin/financials/import
+// Body: { rows: ImportRow[], pre_approve?: boolean, file_name?: string }
+// Re-validates and creates the valid rows as donation requests in one batch. pre_approve only
+// flags previous-year rows for /api/admin/financials/import/{batchId}/approve.
+export async function POST(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Import donations without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Import donations forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({} as any));
+    const rows = body?.rows;
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return NextResponse.json({ error: "No rows to import" }, { status: 400 });
+    }
+    if (rows.length > IMPORT_MAX_ROWS) {
+      return NextResponse.json({ error: `A single import is limited to ${IMPORT_MAX_ROWS} rows` }, { status: 400 });
+    }
+
+    const { data: batch, error } = await supabase.rpc("import_donation_requests", {
+      p_rows: rows,
+      p_pre_approve: body?.pre_approve === true,
+      p_file_name: typeof body?.file_name === "string" ? body.file_name : null,
+    });
+    if (error) {
+      // 55000: dated in a closed financial year
+      if (error.code === "55000") {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (error.code === "22023") {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      logger.error("[Financials] import_donation_requests RPC error", { error });
+      return NextResponse.json({ error: "Failed to import donations" }, { status: 500 });
+    }
+
+    logger.info("[Financials] Donations imported", {
+      userId,
+      batchId: batch?.batch_id,
+      imported: batch?.imported_count,
+      flaggedForBatchApproval: batch?.batch_approval_count,
+      preApproveIgnored: batch?.pre_approve_ignored_count,
+      skipped: batch?.skipped_count,
+    });
+    return NextResponse.json({ status: "success", batch });
+  } catch (err) {
+    logger.error("[Financials] Import donations unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
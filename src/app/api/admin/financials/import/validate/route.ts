@@ -0,0 +1,71 @@
+// src/app/api/admin/financials/import/validate/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { IMPORT_MAX_ROWS } from "@/lib/financials/donationImport";
+
+// POST /api/admin/financials/import/validate
+// Body: { rows: ImportRow[] } -> dry-run report, nothing is written
+export async function POST(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Validate import without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Validate import forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({} as any));
+    const rows = body?.rows;
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return NextResponse.json({ error: "No rows to validate" }, { status: 400 });
+    }
+    if (rows.length > IMPORT_MAX_ROWS) {
+      return NextResponse.json({ error: `A single import is limited to ${IMPORT_MAX_ROWS} rows` }, { status: 400 });
+    }
+
+    const { data, error } = await supabase.rpc("validate_donation_import", { p_rows: rows });
+    if (error) {
+      if (error.code === "22023") {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      logger.error("[Financials] validate_donation_import RPC error", { error });
+      return NextResponse.json({ error: "Failed to validate import" }, { status: 500 });
+    }
+
+    return NextResponse.json({ status: "success", results: data || [] });
+  } catch (err) {
+    logger.error("[Financials] Validate import unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
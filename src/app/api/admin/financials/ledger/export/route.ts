@@ -0,0 +1,90 @@
+// src/app/api/admin/financials/ledger/export/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import {
+  isLedgerExportFormat,
+  journalLinesToCSV,
+  journalLinesToIIF,
+  type JournalLine,
+} from "@/lib/financials/ledger";
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET /api/admin/financials/ledger/export?from=YYYY-MM-DD&to=YYYY-MM-DD&format=csv|iif
+// Journal lines dated in the range, as a download
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Ledger export without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Ledger export forbidden", { userId: session.user.id, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const from = params.get("from") || "";
+    const to = params.get("to") || "";
+    const format = params.get("format") || "csv";
+    if (!DATE_RE.test(from) || !DATE_RE.test(to) || from > to) {
+      return NextResponse.json({ error: "from and to must be YYYY-MM-DD with from on or before to" }, { status: 400 });
+    }
+    if (!isLedgerExportFormat(format)) {
+      return NextResponse.json({ error: "format must be csv or iif" }, { status: 400 });
+    }
+
+    const { data, error } = await supabase.rpc("list_gl_journal_lines", { p_from: from, p_to: to });
+    if (error) {
+      logger.error("[Financials] list_gl_journal_lines RPC error", { error });
+      if (error.code === "22023") {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      return NextResponse.json({ error: "Failed to export ledger" }, { status: 500 });
+    }
+
+    const lines = (Array.isArray(data) ? data : []) as JournalLine[];
+    const body = format === "iif" ? journalLinesToIIF(lines) : journalLinesToCSV(lines);
+    const contentType = format === "iif" ? "application/octet-stream" : "text/csv; charset=utf-8";
+
+    logger.info("[Financials] Ledger exported", { userId: session.user.id, from, to, format, lines: lines.length });
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="general-ledger-${from}-to-${to}.${format}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    logger.error("[Financials] Ledger export unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
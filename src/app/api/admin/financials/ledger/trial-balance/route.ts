@@ -0,0 +1,74 @@
+// src/app/api/admin/financials/ledger/trial-balance/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+
+// GET /api/admin/financials/ledger/trial-balance?as_of=YYYY-MM-DD (default today)
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Trial balance without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Trial balance forbidden", { userId: session.user.id, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const asOf = request.nextUrl.searchParams.get("as_of");
+    if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+      return NextResponse.json({ error: "as_of must be YYYY-MM-DD" }, { status: 400 });
+    }
+
+    const { data, error } = await supabase.rpc("get_trial_balance", { p_as_of: asOf || null });
+    if (error) {
+      logger.error("[Financials] get_trial_balance RPC error", { error });
+      return NextResponse.json({ error: "Failed to build trial balance" }, { status: 500 });
+    }
+
+    const accounts = Array.isArray(data) ? data : [];
+    const totals = accounts.reduce(
+      (acc: { debit: number; credit: number }, a: any) => ({
+        debit: acc.debit + Number(a.balance_debit || 0),
+        credit: acc.credit + Number(a.balance_credit || 0),
+      }),
+      { debit: 0, credit: 0 }
+    );
+
+    return NextResponse.json({
+      status: "success",
+      as_of: asOf || new Date().toISOString().slice(0, 10),
+      accounts,
+      totals: { ...totals, balanced: Math.abs(totals.debit - totals.credit) < 0.005 },
+    });
+  } catch (err) {
+    logger.error("[Financials] Trial balance unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
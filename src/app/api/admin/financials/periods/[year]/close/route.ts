@@ -0,0 +1,71 @@
+// src/app/api/admin/financials/periods/[year]/close/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+
+// POST /api/admin/financials/periods/{year}/close
+// Locks a finished financial year (labelled by its starting year) and snapshots its totals
+export async function POST(request: NextRequest, context: { params: Promise<{ year: string }> }) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Close period without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Close period forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { year } = await context.params;
+    const financialYear = Number(year);
+    if (!/^\d{4}$/.test(year) || !Number.isInteger(financialYear)) {
+      return NextResponse.json({ error: "Invalid financial year" }, { status: 400 });
+    }
+
+    const { data: snapshot, error } = await supabase.rpc("close_financial_year", { p_financial_year: financialYear });
+    if (error) {
+      logger.error("[Financials] close_financial_year RPC error", { error, financialYear });
+      if (error.code === "42501") {
+        return NextResponse.json({ error: error.message }, { status: 403 });
+      }
+      if (error.code === "22023") {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      return NextResponse.json({ error: "Failed to close financial year" }, { status: 500 });
+    }
+
+    logger.info("[Financials] Financial year closed", { userId, financialYear });
+    return NextResponse.json({ status: "success", snapshot });
+  } catch (err) {
+    logger.error("[Financials] Close period unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+// src/app/api/admin/financials/periods/[year]/reopen/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+
+// POST /api/admin/financials/periods/{year}/reopen
+// Body: { reason: string }. Records a reopen request; a different admin has to approve it
+// before anything dated in the year can change.
+export async function POST(request: NextRequest, context: { params: Promise<{ year: string }> }) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Request period reopen without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Request period reopen forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { year } = await context.params;
+    const financialYear = Number(year);
+    if (!/^\d{4}$/.test(year) || !Number.isInteger(financialYear)) {
+      return NextResponse.json({ error: "Invalid financial year" }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({} as any));
+    const reason = String(body?.reason || "").trim();
+    if (!reason) {
+      return NextResponse.json({ error: "A reason is required" }, { status: 400 });
+    }
+
+    const { data: reopenRequest, error } = await supabase.rpc("request_period_reopen", {
+      p_financial_year: financialYear,
+      p_reason: reason,
+    });
+    if (error) {
+      logger.error("[Financials] request_period_reopen RPC error", { error, financialYear });
+      if (error.code === "P0002") {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.code === "22023") {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      return NextResponse.json({ error: "Failed to request reopening" }, { status: 500 });
+    }
+
+    logger.info("[Financials] Period reopen requested", { userId, financialYear });
+    return NextResponse.json({ status: "success", request: reopenRequest });
+  } catch (err) {
+    logger.error("[Financials] Request period reopen unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+// src/app/api/admin/financials/periods/reopen-requests/[id]/approve/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// POST /api/admin/financials/periods/reopen-requests/{id}/approve
+// Reopens the year. The approver must be a different admin from the one who asked for it.
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Approve period reopen without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Approve period reopen forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await context.params;
+    if (!UUID_RE.test(id)) {
+      return NextResponse.json({ error: "Invalid request id" }, { status: 400 });
+    }
+
+    const { data: reopenRequest, error } = await supabase.rpc("review_period_reopen", {
+      p_request_id: id,
+      p_approve: true,
+    });
+    if (error) {
+      logger.error("[Financials] review_period_reopen RPC error", { error, id });
+      if (error.code === "42501") {
+        return NextResponse.json({ error: error.message }, { status: 403 });
+      }
+      if (error.code === "P0002") {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      return NextResponse.json({ error: "Failed to review reopen request" }, { status: 500 });
+    }
+
+    logger.info("[Financials] Period reopened", { userId, id, financialYear: reopenRequest?.financial_year });
+    return NextResponse.json({ status: "success", request: reopenRequest });
+  } catch (err) {
+    logger.error("[Financials] Approve period reopen unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+// src/app/api/admin/financials/pledges/[id]/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+
+const ALLOWED_STATUSES = ["Active", "Paused", "Cancelled"];
+
+// PATCH /api/admin/financials/pledges/{id}
+// Body: { status: "Active" | "Paused" | "Cancelled" } - instalments already generated are left as they are
+export async function PATCH(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Update pledge without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { id } = await context.params;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Update pledge forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({} as any));
+    const status = String(body?.status || "");
+    if (!ALLOWED_STATUSES.includes(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+
+    const { data, error } = await supabase.rpc("set_donation_pledge_status", {
+      p_pledge_id: id,
+      p_status: status,
+    });
+    if (error) {
+      logger.error("[Financials] set_donation_pledge_status RPC error", { error });
+      if (error.code === "P0002") {
+        return NextResponse.json({ error: "Pledge not found" }, { status: 404 });
+      }
+      if (error.code === "22023") {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      return NextResponse.json({ error: "Failed to update pledge" }, { status: 500 });
+    }
+
+    logger.info("[Financials] Pledge status updated", { userId, id, status });
+    return NextResponse.json({ status: "success", pledge: data });
+  } catch (err) {
+    logger.error("[Financials] Update pledge unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
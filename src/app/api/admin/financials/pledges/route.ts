@@ -0,0 +1,147 @@
+// src/app/api/admin/financials/pledges/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { isDonationCurrency } from "@/lib/financials/currency";
+import { isPledgeFrequency } from "@/lib/financials/pledges";
+
+function createClient(request: NextRequest, response: NextResponse) {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+}
+
+// GET /api/admin/financials/pledges?overdue=1&grace_days=7
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] List pledges without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] List pledges forbidden", { userId: session.user.id, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const overdueOnly = request.nextUrl.searchParams.get("overdue") === "1";
+    const graceParam = Number(request.nextUrl.searchParams.get("grace_days") ?? 7);
+    const graceDays = Number.isInteger(graceParam) && graceParam >= 0 ? Math.min(graceParam, 90) : 7;
+
+    const { data, error } = await supabase.rpc("list_donation_pledges", {
+      p_overdue_only: overdueOnly,
+      p_grace_days: graceDays,
+    });
+    if (error) {
+      logger.error("[Financials] List pledges DB error", { error });
+      return NextResponse.json({ error: "Failed to fetch pledges" }, { status: 500 });
+    }
+
+    return NextResponse.json({ status: "success", grace_days: graceDays, pledges: data || [] });
+  } catch (err) {
+    logger.error("[Financials] List pledges unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// POST /api/admin/financials/pledges
+// Body: { donor_number, amount, currency, category_name, project_name, mode_of_payment,
+//         donation_type, frequency, start_date, end_date?, notes? }
+export async function POST(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Create pledge without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Create pledge forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({} as any));
+
+    const donor_number = String(body?.donor_number || "").trim();
+    const amount = Number(body?.amount);
+    const currency = String(body?.currency || "PKR");
+    const category_name = String(body?.category_name || "").trim();
+    const project_name = String(body?.project_name || "").trim();
+    const mode_of_payment = String(body?.mode_of_payment || "");
+    const donation_type = String(body?.donation_type || "");
+    const frequency = String(body?.frequency || "Monthly");
+    const start_date = String(body?.start_date || "");
+    const end_date = String(body?.end_date || "") || null;
+    const notes = String(body?.notes || "").trim() || null;
+
+    if (!isDonationCurrency(currency)) {
+      return NextResponse.json({ error: "Unsupported currency" }, { status: 400 });
+    }
+    if (!isPledgeFrequency(frequency)) {
+      return NextResponse.json({ error: "Unsupported frequency" }, { status: 400 });
+    }
+    if (!donor_number || !category_name || !project_name || !mode_of_payment || !donation_type || !start_date || !Number.isFinite(amount) || amount <= 0) {
+      return NextResponse.json({ error: "Missing or invalid fields" }, { status: 400 });
+    }
+    if (end_date && end_date < start_date) {
+      return NextResponse.json({ error: "End date must be on or after the start date" }, { status: 400 });
+    }
+
+    const { data, error } = await supabase.rpc("create_donation_pledge", {
+      p_donor_number: donor_number,
+      p_amount: amount,
+      p_currency: currency,
+      p_category_name: category_name,
+      p_project_name: project_name,
+      p_mode_of_payment: mode_of_payment,
+      p_donation_type: donation_type,
+      p_frequency: frequency,
+      p_start_date: start_date,
+      p_end_date: end_date,
+      p_notes: notes,
+    });
+
+    if (error) {
+      logger.error("[Financials] create_donation_pledge RPC error", { error });
+      const status = error.code === "P0002" || error.code === "22023" ? 400 : 500;
+      return NextResponse.json({ error: status === 400 ? error.message : "Failed to create pledge" }, { status });
+    }
+
+    logger.info("[Financials] Pledge created", { userId, pledgeId: data?.pledge_id, donor_number, frequency });
+    return NextResponse.json({ status: "success", pledge: data });
+  } catch (err) {
+    logger.error("[Financials] Create pledge unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
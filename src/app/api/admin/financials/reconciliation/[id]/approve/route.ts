@@ -0,0 +1,83 @@
+// src/app/api/admin/financials/reconciliation/[id]/approve/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { issueReceiptsForApprovals, type BulkApprovalOutcome } from "@/lib/receipts/issueDonationReceipt";
+import { RECEIPT_SIGNING_NOT_CONFIGURED, isReceiptSigningConfigured } from "@/lib/receipts/verificationToken";
+
+export const runtime = "nodejs";
+
+// POST /api/admin/financials/reconciliation/{id}/approve
+// Approves every pending request matched to a deposit on the statement. Maker-checker still
+// applies per request: refusals come back as "failed" and the rest go through. Each approved
+// donation then gets its receipt PDF like a single approval; when that fails the approval is
+// rolled back and reported as "failed" too.
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Approve matched deposits without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { id } = await context.params;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Approve matched deposits forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (!isReceiptSigningConfigured()) {
+      logger.error("[Financials] Approve matched deposits blocked: RECEIPT_VERIFICATION_SECRET is not set", { userId, id });
+      return NextResponse.json({ error: RECEIPT_SIGNING_NOT_CONFIGURED, code: "receipt_signing_not_configured" }, { status: 503 });
+    }
+
+    const { data, error } = await supabase.rpc("approve_matched_bank_lines", { p_statement_id: id });
+    if (error) {
+      logger.error("[Financials] approve_matched_bank_lines RPC error", { error });
+      return NextResponse.json({ error: "Failed to approve matched donations" }, { status: 500 });
+    }
+
+    const results = (data || []) as BulkApprovalOutcome[];
+
+    // Receipts one donation at a time, as /api/admin/donations/approve does for a single request
+    await issueReceiptsForApprovals(supabase, results, { id });
+
+    const summary = {
+      approved: results.filter((r) => r.outcome === "approved").length,
+      firstApprovals: results.filter((r) => r.outcome === "first_approval").length,
+      failed: results.filter((r) => r.outcome === "failed").length,
+    };
+
+    logger.info("[Financials] Matched deposits approved", { userId, id, ...summary });
+    return NextResponse.json({ status: "success", results, summary });
+  } catch (err) {
+    logger.error("[Financials] Approve matched deposits unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,112 @@
+// src/app/api/admin/financials/reconciliation/[id]/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+
+function createClient(request: NextRequest, response: NextResponse) {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+}
+
+// GET /api/admin/financials/reconciliation/{id}
+// Statement lines with their matches, plus bank donations in the period that no deposit matched
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Get reconciliation without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Get reconciliation forbidden", { userId: session.user.id, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const [
+      { data: lines, error: linesError },
+      { data: unmatchedDonations, error: donationsError },
+    ] = await Promise.all([
+      supabase.rpc("get_bank_statement_lines", { p_statement_id: id }),
+      supabase.rpc("list_unmatched_bank_donations", { p_statement_id: id }),
+    ]);
+
+    if (donationsError?.code === "P0002") {
+      return NextResponse.json({ error: "Bank statement not found" }, { status: 404 });
+    }
+    if (linesError || donationsError) {
+      logger.error("[Financials] Get reconciliation RPC error", { error: linesError ?? donationsError ?? undefined });
+      return NextResponse.json({ error: "Failed to fetch reconciliation" }, { status: 500 });
+    }
+
+    return NextResponse.json({ status: "success", lines: lines || [], unmatchedDonations: unmatchedDonations || [] });
+  } catch (err) {
+    logger.error("[Financials] Get reconciliation unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// POST /api/admin/financials/reconciliation/{id} - re-run auto-matching (e.g. after new requests were recorded)
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Auto-match without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { id } = await context.params;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Auto-match forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { data: matched, error } = await supabase.rpc("auto_match_bank_statement", { p_statement_id: id });
+    if (error) {
+      if (error.code === "P0002") {
+        return NextResponse.json({ error: "Bank statement not found" }, { status: 404 });
+      }
+      logger.error("[Financials] auto_match_bank_statement RPC error", { error });
+      return NextResponse.json({ error: "Failed to match statement" }, { status: 500 });
+    }
+
+    logger.info("[Financials] Bank statement auto-matched", { userId, id, matched });
+    return NextResponse.json({ status: "success", matched: matched ?? 0 });
+  } catch (err) {
+    logger.error("[Financials] Auto-match unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
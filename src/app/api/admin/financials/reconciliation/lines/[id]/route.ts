@@ -0,0 +1,79 @@
+// src/app/api/admin/financials/reconciliation/lines/[id]/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+
+// PATCH /api/admin/financials/reconciliation/lines/{id}
+// Body: { donation_request_id: string } to match by hand, { donation_request_id: null } to unmatch,
+// or { ignore: true } for a deposit that is not a donation
+export async function PATCH(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Update statement line without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { id } = await context.params;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Update statement line forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({} as any));
+    const donationRequestId =
+      typeof body?.donation_request_id === "string" && body.donation_request_id ? body.donation_request_id : null;
+    const ignore = body?.ignore === true;
+    if (donationRequestId && ignore) {
+      return NextResponse.json({ error: "A line cannot be matched and ignored" }, { status: 400 });
+    }
+
+    const { data, error } = await supabase.rpc("set_bank_statement_line_match", {
+      p_line_id: id,
+      p_donation_request_id: donationRequestId,
+      p_ignore: ignore,
+    });
+    if (error) {
+      if (error.code === "P0002") {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.code === "22023") {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      logger.error("[Financials] set_bank_statement_line_match RPC error", { error });
+      return NextResponse.json({ error: "Failed to update statement line" }, { status: 500 });
+    }
+
+    logger.info("[Financials] Statement line updated", { userId, id, donationRequestId, ignore });
+    return NextResponse.json({ status: "success", line: data });
+  } catch (err) {
+    logger.error("[Financials] Update statement line unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
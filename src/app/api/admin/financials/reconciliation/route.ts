@@ -0,0 +1,136 @@
+// src/app/api/admin/financials/reconciliation/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import {
+  BANK_STATEMENT_MAX_BYTES,
+  BankStatementError,
+  parseBankStatement,
+} from "@/lib/financials/bankStatement";
+
+export const runtime = "nodejs";
+
+function createClient(request: NextRequest, response: NextResponse) {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+}
+
+// GET /api/admin/financials/reconciliation - uploaded statements with match counts
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] List bank statements without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] List bank statements forbidden", { userId: session.user.id, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { data, error } = await supabase.rpc("list_bank_statements");
+    if (error) {
+      logger.error("[Financials] list_bank_statements RPC error", { error });
+      return NextResponse.json({ error: "Failed to fetch bank statements" }, { status: 500 });
+    }
+
+    return NextResponse.json({ status: "success", statements: data || [] });
+  } catch (err) {
+    logger.error("[Financials] List bank statements unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// POST /api/admin/financials/reconciliation
+// multipart/form-data: file (CSV, MT940 or camt.053) - stores the deposits and auto-matches them
+export async function POST(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Upload bank statement without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Upload bank statement forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const form = await request.formData().catch(() => null);
+    const file = form?.get("file");
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json({ error: "Choose a bank statement file" }, { status: 400 });
+    }
+    if (file.size > BANK_STATEMENT_MAX_BYTES) {
+      return NextResponse.json({ error: "The file is larger than 5 MB" }, { status: 400 });
+    }
+
+    let parsed;
+    try {
+      parsed = parseBankStatement(file.name, await file.text());
+    } catch (err) {
+      if (err instanceof BankStatementError) {
+        return NextResponse.json({ error: err.message }, { status: 400 });
+      }
+      throw err;
+    }
+
+    const { data: statement, error } = await supabase.rpc("import_bank_statement", {
+      p_file_name: file.name,
+      p_format: parsed.format,
+      p_account: parsed.account,
+      p_currency: parsed.currency,
+      p_lines: parsed.lines,
+    });
+    if (error) {
+      if (error.code === "22023") {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      logger.error("[Financials] import_bank_statement RPC error", { error });
+      return NextResponse.json({ error: "Failed to save bank statement" }, { status: 500 });
+    }
+
+    logger.info("[Financials] Bank statement uploaded", {
+      userId,
+      statementId: statement?.statement_id,
+      format: parsed.format,
+      lines: parsed.lines.length,
+    });
+    return NextResponse.json({ status: "success", statement });
+  } catch (err) {
+    logger.error("[Financials] Upload bank statement unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
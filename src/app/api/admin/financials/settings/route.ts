@@ -0,0 +1,138 @@
+// src/app/api/admin/financials/settings/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { isFinancialYearStartMonth } from "@/lib/financials/financialYear";
+
+function createClient(request: NextRequest, response: NextResponse) {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+}
+
+// GET /api/admin/financials/settings
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Get settings without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Get settings forbidden", { userId: session.user.id, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { data, error } = await supabase.rpc("get_financial_settings");
+    if (error) {
+      logger.error("[Financials] get_financial_settings RPC error", { error });
+      return NextResponse.json({ error: "Failed to fetch settings" }, { status: 500 });
+    }
+
+    return NextResponse.json({ status: "success", settings: data });
+  } catch (err) {
+    logger.error("[Financials] Get settings unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// POST /api/admin/financials/settings
+// Body (any subset): {
+//   second_approval_threshold?: number | null - null turns the second approval step off
+//   fiscal_year_start_month?: number (1-12) - only while no financial year has been closed
+// }
+export async function POST(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Update settings without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Update settings forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({} as any));
+    const hasThreshold = body && "second_approval_threshold" in body;
+    const hasStartMonth = body && "fiscal_year_start_month" in body;
+    if (!hasThreshold && !hasStartMonth) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+    }
+
+    const raw = body?.second_approval_threshold;
+    const threshold = raw === null || raw === undefined || raw === "" ? null : Number(raw);
+    if (hasThreshold && threshold !== null && (!Number.isFinite(threshold) || threshold < 0)) {
+      return NextResponse.json({ error: "Threshold must be a positive amount or empty" }, { status: 400 });
+    }
+    const startMonth = Number(body?.fiscal_year_start_month);
+    if (hasStartMonth && !isFinancialYearStartMonth(startMonth)) {
+      return NextResponse.json({ error: "fiscal_year_start_month must be a month number from 1 to 12" }, { status: 400 });
+    }
+
+    let settings: unknown = null;
+
+    if (hasThreshold) {
+      const { data, error } = await supabase.rpc("update_second_approval_threshold", { p_threshold: threshold });
+      if (error) {
+        logger.error("[Financials] update_second_approval_threshold RPC error", { error });
+        return NextResponse.json({ error: "Failed to save settings" }, { status: 500 });
+      }
+      settings = data;
+      logger.info("[Financials] Second approval threshold updated", { userId, threshold });
+    }
+
+    if (hasStartMonth) {
+      const { data, error } = await supabase.rpc("update_fiscal_year_start_month", { p_month: startMonth });
+      if (error) {
+        logger.error("[Financials] update_fiscal_year_start_month RPC error", { error });
+        if (error.code === "55000") {
+          return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        if (error.code === "22023") {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        return NextResponse.json({ error: "Failed to save settings" }, { status: 500 });
+      }
+      settings = data;
+      logger.info("[Financials] Financial year start month updated", { userId, startMonth });
+    }
+
+    return NextResponse.json({ status: "success", settings });
+  } catch (err) {
+    logger.error("[Financials] Update settings unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
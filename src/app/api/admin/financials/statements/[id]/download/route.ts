@@ -0,0 +1,71 @@
+// src/app/api/admin/financials/statements/[id]/download/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Download statement forbidden", { userId: session.user.id, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await context.params;
+    const { data: statement, error } = await supabase
+      .from("donor_statements")
+      .select("pdf_path")
+      .eq("statement_id", id)
+      .maybeSingle();
+
+    if (error || !statement) {
+      return NextResponse.json({ error: "Statement not found" }, { status: 404 });
+    }
+
+    const { data: fileData, error: dlError } = await supabase.storage.from("receipts").download(statement.pdf_path);
+    if (dlError || !fileData) {
+      return NextResponse.json({ error: "Failed to download statement", details: dlError?.message }, { status: 404 });
+    }
+
+    const fileName = statement.pdf_path.split("/").slice(-2).join("-");
+    return new NextResponse(new Uint8Array(await fileData.arrayBuffer()), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="statement-${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    logger.error("[Financials] Download statement unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,178 @@
+// src/app/api/admin/financials/statements/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { generateAnnualStatementPDF, type AnnualStatementInput } from "@/lib/receipts/generateStatement";
+
+export const runtime = "nodejs";
+
+function createClient(request: NextRequest, response: NextResponse) {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+}
+
+function parseYear(value: unknown): number | null {
+  const year = Number(value);
+  return Number.isInteger(year) && year >= 2000 && year <= 2100 ? year : null;
+}
+
+// GET /api/admin/financials/statements?year=2025
+// Lists stored statements for a financial year
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] List statements without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] List statements forbidden", { userId: session.user.id, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const year = parseYear(request.nextUrl.searchParams.get("year"));
+    if (year === null) {
+      return NextResponse.json({ error: "A valid year is required" }, { status: 400 });
+    }
+
+    const [
+      { data: statements, error: statementsError },
+      { data: donors, error: donorsError },
+    ] = await Promise.all([
+      supabase.rpc("list_donor_statements", { p_financial_year: year }),
+      supabase.rpc("list_statement_donors", { p_financial_year: year }),
+    ]);
+
+    if (statementsError || donorsError) {
+      logger.error("[Financials] List statements DB error", { error: statementsError ?? donorsError });
+      return NextResponse.json({ error: "Failed to fetch statements" }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      status: "success",
+      statements: statements || [],
+      eligible_donors: (donors || []).length,
+    });
+  } catch (err) {
+    logger.error("[Financials] List statements unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// POST /api/admin/financials/statements
+// Body: { financial_year: number }
+// Bulk job: generates a statement for every donor with donations in the year and stores it
+// at receipts/statements/{year}/{donor_number}.pdf (regenerating replaces the previous copy)
+export async function POST(request: NextRequest) {
+  const response = NextResponse.next({
+    request: { headers: new Headers(request.headers) },
+  });
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Financials] Generate statements without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Financials] Generate statements forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const year = parseYear(body?.financial_year);
+    if (year === null) {
+      return NextResponse.json({ error: "A valid financial_year is required" }, { status: 400 });
+    }
+
+    const { data: donors, error: donorsError } = await supabase.rpc("list_statement_donors", { p_financial_year: year });
+    if (donorsError) {
+      logger.error("[Financials] List statement donors DB error", { error: donorsError });
+      return NextResponse.json({ error: "Failed to fetch donors" }, { status: 500 });
+    }
+
+    let generated = 0;
+    const failures: Array<{ donor_number: string; error: string }> = [];
+
+    // Sequential on purpose: keeps memory flat and Storage requests modest for large donor lists
+    for (const donor of (donors || []) as Array<{ donor_id: string; donor_number: string; donation_count: number; total_amount: number }>) {
+      try {
+        const { data: statement, error } = await supabase.rpc("get_donor_annual_statement", {
+          p_financial_year: year,
+          p_donor_id: donor.donor_id,
+        });
+        if (error || !statement) throw error ?? new Error("Statement data not found");
+
+        const statementInput = statement as AnnualStatementInput;
+        const pdfBytes = await generateAnnualStatementPDF(statementInput);
+        const storagePath = `statements/${year}/${donor.donor_number}.pdf`;
+
+        const { error: uploadErr } = await supabase.storage
+          .from("receipts")
+          .upload(storagePath, new Blob([new Uint8Array(pdfBytes)], { type: "application/pdf" }), {
+            contentType: "application/pdf",
+            upsert: true,
+            cacheControl: "3600",
+          });
+        if (uploadErr) throw uploadErr;
+
+        const { error: recordErr } = await supabase.rpc("record_donor_statement", {
+          p_donor_id: donor.donor_id,
+          p_financial_year: year,
+          p_pdf_path: storagePath,
+          p_donation_count: donor.donation_count,
+          // Cash total as printed on the statement (in-kind goods are listed but not added in)
+          p_total_amount: Object.values(statementInput.totals_by_type).reduce<number>((sum, v) => sum + parseFloat(String(v)), 0),
+        });
+        if (recordErr) throw recordErr;
+
+        generated += 1;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : (err as any)?.message ?? String(err);
+        logger.error("[Financials] Statement generation failed", { year, donor_number: donor.donor_number, error: message });
+        failures.push({ donor_number: donor.donor_number, error: message });
+      }
+    }
+
+    logger.info("[Financials] Annual statements generated", { userId, year, generated, failed: failures.length });
+
+    return NextResponse.json({
+      status: failures.length === 0 ? "success" : "partial",
+      financial_year: year,
+      generated,
+      failed: failures,
+    });
+  } catch (err) {
+    logger.error("[Financials] Generate statements unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
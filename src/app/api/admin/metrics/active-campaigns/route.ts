@@ -0,0 +1,75 @@
+// src/app/api/admin/metrics/active-campaigns/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { type NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { BASE_CURRENCY } from "@/lib/financials/currency";
+
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next({
+    request: {
+      headers: new Headers(request.headers),
+    },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[active-campaigns] Unauthorized access attempt.", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn(`[active-campaigns] Forbidden for user ${session.user.id}`, { rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { data, error: rpcError } = await supabase.rpc("list_campaigns");
+    if (rpcError) {
+      logger.error("[active-campaigns] RPC error", { rpcError });
+      return NextResponse.json({ error: "Internal Server Error", details: rpcError.message }, { status: 500 });
+    }
+
+    // Active means open and within its date window today
+    const running = (Array.isArray(data) ? data : []).filter((c: any) => c.status === "Running");
+    const raised = running.reduce((sum: number, c: any) => sum + Number(c.raised ?? 0), 0);
+    const goal = running.reduce((sum: number, c: any) => sum + Number(c.goal_amount ?? 0), 0);
+
+    return NextResponse.json({
+      active_campaigns: running.length,
+      raised,
+      goal,
+      campaigns: running.map((c: any) => ({
+        campaign_id: c.campaign_id,
+        name: c.name,
+        end_date: c.end_date,
+        raised: Number(c.raised ?? 0),
+        goal_amount: Number(c.goal_amount ?? 0),
+        percent_of_goal: Number(c.percent_of_goal ?? 0),
+      })),
+      currency: BASE_CURRENCY,
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    logger.error("[active-campaigns] Unexpected error", { error: err });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -2,6 +2,7 @@
 import { createServerClient, type CookieOptions } from "@supabase/ssr";
 import { type NextRequest, NextResponse } from "next/server";
 import { logger } from "@/lib/utils/logger";
+import { BASE_CURRENCY } from "@/lib/financials/currency";
 
 export async function GET(request: NextRequest) {
   // Mirror pattern from src/app/api/donors/metrics/route.ts
@@ -50,8 +51,36 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Internal Server Error", details: rpcError.message }, { status: 500 });
     }
 
+    // Zakat is a restricted fund, so the total is also reported per fund
+    const { data: balances, error: fundsError } = await supabase.rpc("get_fund_balances");
+    if (fundsError) {
+      logger.error("[total-donations] get_fund_balances RPC error", { fundsError });
+    }
+    const by_fund = (Array.isArray(balances) ? balances : []).map((b: any) => ({
+      fund: b.fund,
+      received: Number(b.received ?? 0),
+      balance: Number(b.balance ?? 0),
+    }));
+
+    // Donated goods are valued separately and never counted as cash
+    const { data: inKindRows, error: inKindError } = await supabase.rpc("get_in_kind_donation_totals");
+    if (inKindError) {
+      logger.error("[total-donations] get_in_kind_donation_totals RPC error", { inKindError });
+    }
+    const inKindByFund = (Array.isArray(inKindRows) ? inKindRows : []).map((r: any) => ({
+      fund: r.fund,
+      count: Number(r.donation_count ?? 0),
+      value: Number(r.total_value ?? 0),
+    }));
+    const in_kind = {
+      count: inKindByFund.reduce((sum: number, r: { count: number }) => sum + r.count, 0),
+      total_value: inKindByFund.reduce((sum: number, r: { value: number }) => sum + r.value, 0),
+      by_fund: inKindByFund,
+    };
+
+    // Sum of PKR equivalents stored on each cash donation at approval
     const total_donations = Number(data ?? 0);
-    return NextResponse.json({ total_donations });
+    return NextResponse.json({ total_donations, by_fund, in_kind, currency: BASE_CURRENCY });
   } catch (error) {
     const err = error instanceof Error ? error : new Error(String(error));
     logger.error("[total-donations] Unexpected error", { error: err });
@@ -0,0 +1,74 @@
+// src/app/api/admin/programs/projects/financials/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// GET /api/admin/programs/projects/financials?project_id=<uuid>
+// Budget vs. actual for every project, or only the given one
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next({
+    request: {
+      headers: new Headers(request.headers),
+    },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      logger.warn("[Programs] Project financials without session", { sessionError });
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // RBAC: admin only
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Programs] Project financials forbidden", { userId: session.user.id, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const projectId = request.nextUrl.searchParams.get("project_id");
+    if (projectId && !UUID_RE.test(projectId)) {
+      return NextResponse.json({ error: "Invalid project_id" }, { status: 400 });
+    }
+
+    const { data, error } = await supabase.rpc("get_project_financial_summaries", {
+      p_project_id: projectId || null,
+    });
+    if (error) {
+      logger.error("[Programs] get_project_financial_summaries RPC error", { projectId, error });
+      if (error.code === "P0002") {
+        return NextResponse.json({ error: "Project not found" }, { status: 404 });
+      }
+      return NextResponse.json({ error: "Failed to fetch project financials" }, { status: 500 });
+    }
+
+    const items = Array.isArray(data) ? data : [];
+    if (projectId) {
+      return NextResponse.json({ status: "success", summary: items[0] ?? null });
+    }
+    return NextResponse.json({ status: "success", items });
+  } catch (error) {
+    logger.error("[Programs] Unexpected error in project financials endpoint", { error: error instanceof Error ? error : new Error(String(error)) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+// src/app/api/admin/volunteers/activities/[id]/review/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { type NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { isReviewDecision } from "@/lib/volunteers/activities";
+
+/**
+ * POST /api/admin/volunteers/activities/{id}/review
+ * Body: { decision: 'approved' | 'revised' | 'rejected', comments?: string }
+ * Approving records the hours in volunteer_activities; 'revised' sends the request back to the
+ * volunteer. Comments are required for revised and rejected.
+ */
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next({
+    request: {
+      headers: new Headers(request.headers),
+    },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Volunteers] Activity review forbidden", { userId, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await context.params;
+    const body = await request.json().catch(() => null);
+    const decision = body?.decision;
+    const comments = typeof body?.comments === "string" ? body.comments.trim() : "";
+
+    if (!isReviewDecision(decision)) {
+      return NextResponse.json({ error: "Decision must be approved, revised or rejected" }, { status: 400 });
+    }
+    if (decision !== "approved" && !comments) {
+      return NextResponse.json({ error: "Please add comments for the volunteer" }, { status: 400 });
+    }
+
+    const { data, error } = await supabase.rpc("review_volunteer_activity_request", {
+      p_request_id: id,
+      p_decision: decision,
+      p_comments: comments || null,
+    });
+
+    if (error) {
+      logger.error("[Volunteers] review_volunteer_activity_request RPC error", { userId, id, decision, error });
+      if (error.code === "42501") {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+      if (error.code === "P0002") {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.code === "22023") {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      if (error.code === "55000") {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      return NextResponse.json({ error: "Failed to review activity request" }, { status: 500 });
+    }
+
+    logger.info("[Volunteers] Activity request reviewed", { userId, id, decision });
+    return NextResponse.json({ status: "success", ...data });
+  } catch (err) {
+    logger.error("[Volunteers] Activity review unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+// src/app/api/admin/volunteers/activities/route.ts
+import { createServerClient, type CookieOptions } from "@supabase/ssr";
+import { type NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { isActivityStatus } from "@/lib/volunteers/activities";
+
+/**
+ * GET /api/admin/volunteers/activities?status=pending|revised|approved|rejected|all
+ * Volunteer activity requests for the approval queue (pending by default), oldest first.
+ */
+export async function GET(request: NextRequest) {
+  const status = (request.nextUrl.searchParams.get("status") || "pending").toLowerCase();
+  if (status !== "all" && !isActivityStatus(status)) {
+    return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+  }
+
+  const response = NextResponse.next({
+    request: {
+      headers: new Headers(request.headers),
+    },
+  });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, "", options);
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: isAdmin, error: rbacError } = await supabase.rpc("is_admin");
+    if (rbacError || !isAdmin) {
+      logger.warn("[Volunteers] Activity queue forbidden", { userId: session.user.id, rbacError });
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { data, error } = await supabase.rpc("list_volunteer_activity_requests", {
+      p_status: status === "all" ? null : status,
+    });
+    if (error) {
+      logger.error("[Volunteers] list_volunteer_activity_requests RPC error", { error, status });
+      return NextResponse.json({ error: "Failed to fetch activity requests" }, { status: 500 });
+    }
+
+    return NextResponse.json({ status: "success", requests: data || [] });
+  } catch (err) {
+    logger.error("[Volunteers] Activity queue unexpected error", { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -1,11 +1,20 @@
 // src/app/api/donor/donations/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { logger } from '@/lib/utils/logger';
+import { isDonationCurrency } from '@/lib/financials/currency';
+import {
+  PAYMENT_PROOF_BUCKET,
+  PAYMENT_PROOF_MAX_BYTES,
+  getPaymentProofStoragePath,
+  isPaymentProofType,
+} from '@/lib/financials/paymentProofs';
 
-export async function GET(request: NextRequest) {
-  const response = NextResponse.next();
+const PAYMENT_MODES = ['Online', 'BankTransfer', 'CreditCard'];
+const DONATION_TYPES = ['Zakat', 'Sadqa', 'General'];
 
-  const supabase = createServerClient(
+function createClient(request: NextRequest, response: NextResponse) {
+  return createServerClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
     {
@@ -22,6 +31,11 @@ export async function GET(request: NextRequest) {
       },
     }
   );
+}
+
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next();
+  const supabase = createClient(request, response);
 
   const { data, error } = await supabase.rpc('get_my_donations');
   if (error) {
@@ -30,3 +44,85 @@ export async function GET(request: NextRequest) {
 
   return NextResponse.json({ donations: data ?? [] });
 }
+
+// POST /api/donor/donations (multipart/form-data)
+// Fields: amount, currency, project_id, mode_of_payment, donation_type, donation_date, transaction_id, proof (file)
+// The proof is stored first, then a Pending donation request is created for admin approval.
+export async function POST(request: NextRequest) {
+  const response = NextResponse.next();
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const form = await request.formData().catch(() => null);
+    if (!form) {
+      return NextResponse.json({ error: 'Expected multipart form data' }, { status: 400 });
+    }
+
+    const amount = Number(form.get('amount'));
+    const currency = String(form.get('currency') || 'PKR');
+    const project_id = String(form.get('project_id') || '');
+    const mode_of_payment = String(form.get('mode_of_payment') || '');
+    const donation_type = String(form.get('donation_type') || '');
+    const donation_date = String(form.get('donation_date') || '');
+    const transaction_id = String(form.get('transaction_id') || '').trim();
+    const proof = form.get('proof');
+
+    if (!isDonationCurrency(currency)) {
+      return NextResponse.json({ error: 'Unsupported currency' }, { status: 400 });
+    }
+    if (!Number.isFinite(amount) || amount <= 0 || !project_id || !PAYMENT_MODES.includes(mode_of_payment) || !DONATION_TYPES.includes(donation_type) || !/^\d{4}-\d{2}-\d{2}$/.test(donation_date)) {
+      return NextResponse.json({ error: 'Missing or invalid fields' }, { status: 400 });
+    }
+    if (!transaction_id) {
+      return NextResponse.json({ error: 'Transaction ID is required' }, { status: 400 });
+    }
+    if (!(proof instanceof File) || proof.size === 0) {
+      return NextResponse.json({ error: 'Please attach a bank slip or screenshot' }, { status: 400 });
+    }
+    if (!isPaymentProofType(proof.type)) {
+      return NextResponse.json({ error: 'Proof must be a JPG, PNG, WebP or PDF file' }, { status: 400 });
+    }
+    if (proof.size > PAYMENT_PROOF_MAX_BYTES) {
+      return NextResponse.json({ error: 'Proof must be 5 MB or smaller' }, { status: 400 });
+    }
+
+    const proofPath = getPaymentProofStoragePath(userId, proof.type);
+    const { error: uploadError } = await supabase.storage
+      .from(PAYMENT_PROOF_BUCKET)
+      .upload(proofPath, proof, { contentType: proof.type, upsert: false });
+    if (uploadError) {
+      logger.error('[Donor] Payment proof upload failed', { userId, error: uploadError });
+      return NextResponse.json({ error: 'Failed to upload proof of payment' }, { status: 500 });
+    }
+
+    const { data, error } = await supabase.rpc('submit_donation_request', {
+      p_amount: amount,
+      p_currency: currency,
+      p_project_id: project_id,
+      p_mode_of_payment: mode_of_payment,
+      p_donation_type: donation_type,
+      p_donation_date: donation_date,
+      p_transaction_id: transaction_id,
+      p_proof_path: proofPath,
+    });
+
+    if (error) {
+      // The uploaded proof stays in the donor's folder; it is not linked to any request
+      logger.error('[Donor] submit_donation_request RPC error', { userId, proofPath, error });
+      const status = error.code === '22023' || error.code === 'P0002' ? 400 : 500;
+      return NextResponse.json({ error: status === 400 ? error.message : 'Failed to submit donation' }, { status });
+    }
+
+    logger.info('[Donor] Donation submitted for approval', { userId, donationRequestId: data?.donation_request_id });
+    return NextResponse.json({ status: 'success', donation_request: data });
+  } catch (err) {
+    logger.error('[Donor] Submit donation unexpected error', { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
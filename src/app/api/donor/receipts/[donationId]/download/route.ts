@@ -24,8 +24,13 @@ export async function GET(request: NextRequest, context: { params: Promise<{ don
     }
   );
 
+  // Optional ?receipt=<receipt_number> selects a specific (possibly voided) receipt version
+  const receiptNumber = request.nextUrl.searchParams.get('receipt');
+
   // Verify the donation belongs to the current user and get the receipt path
-  const { data: pathData, error: pathError } = await supabase.rpc('get_receipt_path_if_owner', { p_donation_id: donationId });
+  const { data: pathData, error: pathError } = receiptNumber
+    ? await supabase.rpc('get_receipt_version_path_if_owner', { p_donation_id: donationId, p_receipt_number: receiptNumber })
+    : await supabase.rpc('get_receipt_path_if_owner', { p_donation_id: donationId });
   if (pathError) {
     return NextResponse.json({ error: 'Failed to verify receipt path', details: pathError.message }, { status: 500 });
   }
@@ -33,7 +38,7 @@ export async function GET(request: NextRequest, context: { params: Promise<{ don
     return NextResponse.json({ error: 'Forbidden or receipt not available' }, { status: 403 });
   }
 
-  const storagePath = pathData as string; // e.g., donations/<id>.pdf
+  const storagePath = pathData as string; // e.g., donations/<id>/<receipt_number>.pdf
 
   // Download the file through Storage with current user's auth context
   const { data: fileData, error: dlError } = await supabase.storage.from('receipts').download(storagePath);
@@ -48,7 +53,7 @@ export async function GET(request: NextRequest, context: { params: Promise<{ don
     status: 200,
     headers: {
       'Content-Type': 'application/pdf',
-      'Content-Disposition': `attachment; filename="receipt-${donationId}.pdf"`,
+      'Content-Disposition': `attachment; filename="receipt-${receiptNumber ?? donationId}.pdf"`,
       'Cache-Control': 'no-store',
     },
   });
@@ -0,0 +1,66 @@
+// src/app/api/donor/statements/[year]/download/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { generateAnnualStatementPDF, type AnnualStatementInput } from '@/lib/receipts/generateStatement';
+import { formatFinancialYear } from '@/lib/financials/financialYear';
+import { logger } from '@/lib/utils/logger';
+
+export const runtime = 'nodejs';
+
+// GET /api/donor/statements/{financial_year}/download
+// Generates the current donor's annual statement on demand (not stored)
+export async function GET(request: NextRequest, context: { params: Promise<{ year: string }> }) {
+  const { year } = await context.params;
+  const response = NextResponse.next();
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, '', { ...options, maxAge: 0 });
+        },
+      },
+    }
+  );
+
+  const financialYear = Number(year);
+  if (!Number.isInteger(financialYear) || financialYear < 2000 || financialYear > 2100) {
+    return NextResponse.json({ error: 'Invalid financial year' }, { status: 400 });
+  }
+
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: statement, error } = await supabase.rpc('get_donor_annual_statement', { p_financial_year: financialYear });
+  if (error || !statement) {
+    logger.error('[Donor] Annual statement fetch failed', { userId: session.user.id, financialYear, error: error?.message });
+    return NextResponse.json({ error: 'Failed to load statement', details: error?.message }, { status: error?.code === 'P0002' ? 404 : 500 });
+  }
+
+  try {
+    const input = statement as AnnualStatementInput;
+    const pdfBytes = await generateAnnualStatementPDF(input);
+    const startMonth = Number(input.period_start.slice(5, 7));
+    return new NextResponse(new Uint8Array(pdfBytes), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="donation-statement-FY${formatFinancialYear(financialYear, startMonth)}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (err) {
+    logger.error('[Donor] Annual statement generation failed', { userId: session.user.id, financialYear, err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: 'Failed to generate statement' }, { status: 500 });
+  }
+}
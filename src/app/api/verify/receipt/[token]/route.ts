@@ -0,0 +1,27 @@
+// src/app/api/verify/receipt/[token]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/utils/logger';
+import { verifyReceipt } from '@/lib/receipts/verifyReceipt';
+
+export const runtime = 'nodejs';
+
+// GET /api/verify/receipt/[token]
+// Public endpoint behind the receipt QR code. No session required; the signed token is checked
+// before any database lookup.
+export async function GET(_request: NextRequest, context: { params: Promise<{ token: string }> }) {
+  const { token } = await context.params;
+
+  try {
+    const result = await verifyReceipt(token);
+    if (result.status !== 'valid') {
+      logger.warn('[verify-receipt] Verification failed', { status: result.status });
+    }
+    return NextResponse.json(result, {
+      status: result.status === 'invalid_token' || result.status === 'not_found' ? 404 : 200,
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    logger.error('[verify-receipt] Unexpected error', { error: error instanceof Error ? error : new Error(String(error)) });
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+// src/app/api/volunteer/activities/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { logger } from '@/lib/utils/logger';
+import { parseActivityInput } from '@/lib/volunteers/activities';
+
+// PATCH /api/volunteer/activities/{id}
+// Body: same fields as POST /api/volunteer/activities. Only requests sent back for revision
+// can be edited; saving puts them back in the approval queue.
+export async function PATCH(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next();
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, '', { ...options, maxAge: 0 });
+        },
+      },
+    }
+  );
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { id } = await context.params;
+    const parsed = parseActivityInput(await request.json().catch(() => null));
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { activity } = parsed;
+    const { data, error } = await supabase.rpc('resubmit_volunteer_activity', {
+      p_request_id: id,
+      p_event_id: activity.event_id,
+      p_hours_contributed: activity.hours_contributed,
+      p_type_of_activity: activity.type_of_activity,
+      p_people_helped: activity.people_helped,
+      p_site_status: activity.site_status,
+      p_description: activity.description,
+    });
+
+    if (error) {
+      logger.error('[Volunteer] resubmit_volunteer_activity RPC error', { userId, id, error });
+      if (error.code === '55000') {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (error.code === '22023' || error.code === 'P0002') {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      return NextResponse.json({ error: 'Failed to resubmit activity' }, { status: 500 });
+    }
+
+    logger.info('[Volunteer] Activity resubmitted', { userId, id });
+    return NextResponse.json({ status: 'success', request: data });
+  } catch (err) {
+    logger.error('[Volunteer] Resubmit activity unexpected error', { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
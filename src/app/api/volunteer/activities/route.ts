@@ -0,0 +1,88 @@
+// src/app/api/volunteer/activities/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { logger } from '@/lib/utils/logger';
+import { parseActivityInput } from '@/lib/volunteers/activities';
+
+function createClient(request: NextRequest, response: NextResponse) {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, '', { ...options, maxAge: 0 });
+        },
+      },
+    }
+  );
+}
+
+// GET /api/volunteer/activities
+// The signed-in volunteer's logged activity with its review status and comments.
+export async function GET(request: NextRequest) {
+  const response = NextResponse.next();
+  const supabase = createClient(request, response);
+
+  const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+  if (sessionError || !session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data, error } = await supabase.rpc('get_my_volunteer_activity_requests');
+  if (error) {
+    logger.error('[Volunteer] get_my_volunteer_activity_requests RPC error', { userId: session.user.id, error });
+    return NextResponse.json({ error: 'Failed to load activity' }, { status: 500 });
+  }
+
+  return NextResponse.json({ requests: data ?? [] });
+}
+
+// POST /api/volunteer/activities
+// Body: { event_id, hours_contributed, type_of_activity, people_helped?, site_status, description? }
+// Creates a pending request in the admin approval queue.
+export async function POST(request: NextRequest) {
+  const response = NextResponse.next();
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const parsed = parseActivityInput(await request.json().catch(() => null));
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { activity } = parsed;
+    const { data, error } = await supabase.rpc('submit_volunteer_activity', {
+      p_event_id: activity.event_id,
+      p_hours_contributed: activity.hours_contributed,
+      p_type_of_activity: activity.type_of_activity,
+      p_people_helped: activity.people_helped,
+      p_site_status: activity.site_status,
+      p_description: activity.description,
+    });
+
+    if (error) {
+      logger.error('[Volunteer] submit_volunteer_activity RPC error', { userId, error });
+      const status = error.code === '22023' || error.code === 'P0002' ? 400 : 500;
+      return NextResponse.json({ error: status === 400 ? error.message : 'Failed to log activity' }, { status });
+    }
+
+    logger.info('[Volunteer] Activity submitted for approval', { userId, requestId: data?.volunteer_activity_request_id });
+    return NextResponse.json({ status: 'success', request: data }, { status: 201 });
+  } catch (err) {
+    logger.error('[Volunteer] Log activity unexpected error', { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
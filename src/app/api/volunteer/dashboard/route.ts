@@ -1,15 +1,63 @@
+// src/app/api/volunteer/dashboard/route.ts
 import { NextRequest, NextResponse } from 'next/server';
-// Access control is enforced centrally in src/middleware.ts. No per-route wrappers.
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { logger } from '@/lib/utils/logger';
+
+// GET /api/volunteer/dashboard?year=2025
+// The signed-in volunteer's approved hours, people helped, events attended, monthly hours for
+// the year and the upcoming active events.
+async function handler(request: NextRequest) {
+  const response = NextResponse.next();
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, '', { ...options, maxAge: 0 });
+        },
+      },
+    }
+  );
+
+  const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+  if (sessionError || !session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const yearParam = request.nextUrl.searchParams.get('year');
+  const year = yearParam ? Number(yearParam) : new Date().getFullYear();
+  if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+    return NextResponse.json({ error: 'Invalid year' }, { status: 400 });
+  }
+
+  const [metricsRes, monthlyRes, eventsRes] = await Promise.all([
+    supabase.rpc('get_volunteer_dashboard_metrics'),
+    supabase.rpc('get_volunteer_monthly_hours', { p_year: year }),
+    supabase.rpc('get_volunteer_upcoming_events', { p_limit: 10 }),
+  ]);
+
+  if (metricsRes.error || monthlyRes.error || eventsRes.error) {
+    logger.error('[Volunteer] Dashboard RPC error', {
+      userId: session.user.id,
+      metricsError: metricsRes.error,
+      monthlyError: monthlyRes.error,
+      eventsError: eventsRes.error,
+    });
+    return NextResponse.json({ error: 'Failed to load dashboard' }, { status: 500 });
+  }
 
-async function handler(req: NextRequest) {
   return NextResponse.json({
-    message: 'Welcome to Volunteer Dashboard',
-    data: {
-      upcomingEvents: [
-        { id: 1, name: 'Food Drive', date: '2023-06-15' },
-        { id: 2, name: 'Community Cleanup', date: '2023-06-20' },
-      ],
-    },
+    year,
+    metrics: metricsRes.data?.[0] ?? null,
+    monthly_hours: monthlyRes.data ?? [],
+    upcoming_events: eventsRes.data ?? [],
   });
 }
 
@@ -0,0 +1,87 @@
+// src/app/api/volunteer/events/[id]/registration/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { logger } from '@/lib/utils/logger';
+
+function createClient(request: NextRequest, response: NextResponse) {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, '', { ...options, maxAge: 0 });
+        },
+      },
+    }
+  );
+}
+
+// POST /api/volunteer/events/{id}/registration
+// Signs the volunteer up; registration.status is 'registered', or 'waitlisted' with a waitlist_position.
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next();
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const { data, error } = await supabase.rpc('join_event', { p_event_id: id });
+    if (error) {
+      logger.error('[Volunteer] join_event RPC error', { userId: session.user.id, eventId: id, error });
+      if (error.code === 'P0002') {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.code === '22023') {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      return NextResponse.json({ error: 'Failed to sign up for event' }, { status: 500 });
+    }
+
+    logger.info('[Volunteer] Joined event', { userId: session.user.id, eventId: id, status: data?.status });
+    return NextResponse.json({ status: 'success', registration: data });
+  } catch (err) {
+    logger.error('[Volunteer] Join event unexpected error', { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/volunteer/events/{id}/registration
+// Leaves the event; a freed slot is handed to the first volunteer on the waitlist.
+export async function DELETE(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next();
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const { data, error } = await supabase.rpc('leave_event', { p_event_id: id });
+    if (error) {
+      logger.error('[Volunteer] leave_event RPC error', { userId: session.user.id, eventId: id, error });
+      if (error.code === 'P0002') {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      return NextResponse.json({ error: 'Failed to leave event' }, { status: 500 });
+    }
+
+    logger.info('[Volunteer] Left event', { userId: session.user.id, eventId: id, promoted: data?.promoted });
+    return NextResponse.json({ status: 'success' });
+  } catch (err) {
+    logger.error('[Volunteer] Leave event unexpected error', { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
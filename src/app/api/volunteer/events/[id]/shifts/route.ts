@@ -0,0 +1,50 @@
+// src/app/api/volunteer/events/[id]/shifts/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { logger } from '@/lib/utils/logger';
+
+function createClient(request: NextRequest, response: NextResponse) {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, '', { ...options, maxAge: 0 });
+        },
+      },
+    }
+  );
+}
+
+// GET /api/volunteer/events/{id}/shifts
+// Shifts of the event with filled counts and whether the caller is signed up.
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next();
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const { data, error } = await supabase.rpc('get_volunteer_event_shifts', { p_event_id: id });
+    if (error) {
+      logger.error('[Volunteer] get_volunteer_event_shifts RPC error', { userId: session.user.id, eventId: id, error });
+      return NextResponse.json({ error: 'Failed to load shifts' }, { status: 500 });
+    }
+
+    return NextResponse.json({ shifts: data ?? [] });
+  } catch (err) {
+    logger.error('[Volunteer] Event shifts unexpected error', { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+// src/app/api/volunteer/shifts/[id]/signup/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { logger } from '@/lib/utils/logger';
+
+function createClient(request: NextRequest, response: NextResponse) {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          response.cookies.set(name, value, options);
+        },
+        remove(name: string, options: CookieOptions) {
+          response.cookies.set(name, '', { ...options, maxAge: 0 });
+        },
+      },
+    }
+  );
+}
+
+// POST /api/volunteer/shifts/{id}/signup
+// Signs the volunteer up for a shift. A full shift or one overlapping another of their shifts is a 409.
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next();
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const { data, error } = await supabase.rpc('join_event_shift', { p_shift_id: id });
+    if (error) {
+      logger.error('[Volunteer] join_event_shift RPC error', { userId: session.user.id, shiftId: id, error });
+      if (error.code === 'P0002') {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.code === '22023' || error.code === '23P01') {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      return NextResponse.json({ error: 'Failed to sign up for shift' }, { status: 500 });
+    }
+
+    logger.info('[Volunteer] Joined shift', { userId: session.user.id, shiftId: id });
+    return NextResponse.json({ status: 'success', signup: data });
+  } catch (err) {
+    logger.error('[Volunteer] Join shift unexpected error', { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/volunteer/shifts/{id}/signup
+export async function DELETE(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const response = NextResponse.next();
+  const supabase = createClient(request, response);
+
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    if (sessionError || !session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const { error } = await supabase.rpc('leave_event_shift', { p_shift_id: id });
+    if (error) {
+      logger.error('[Volunteer] leave_event_shift RPC error', { userId: session.user.id, shiftId: id, error });
+      if (error.code === 'P0002') {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      return NextResponse.json({ error: 'Failed to leave shift' }, { status: 500 });
+    }
+
+    logger.info('[Volunteer] Left shift', { userId: session.user.id, shiftId: id });
+    return NextResponse.json({ status: 'success' });
+  } catch (err) {
+    logger.error('[Volunteer] Leave shift unexpected error', { err: err instanceof Error ? err.message : String(err) });
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
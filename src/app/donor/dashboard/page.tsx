@@ -4,6 +4,7 @@ import { PageLayout } from '@/components/layout/PageLayout';
 
 import { createServerClient, type CookieOptions } from '@supabase/ssr';
 import { cookies } from 'next/headers';
+import type { DonorPledge } from '@/components/donor/DonorDashboardClient';
 
 // Define a type for the data returned by the recent donations RPC
 type DonationRow = {
@@ -37,14 +38,18 @@ async function getDonorData() {
   );
 
   // RPC calls do not use .single(). They return their data directly.
-  const [{ data: metricsData }, { data: recentDonationsData }, { data: summaryData }, { data: categoriesData }, { data: projectsData }] = await Promise.all([
+  const [{ data: metricsData }, { data: recentDonationsData }, { data: summaryData }, { data: categoriesData }, { data: projectsData }, { data: pledgesData }] = await Promise.all([
     supabase.rpc('get_donor_dashboard_metrics'),
     supabase.rpc('get_donor_recent_donations'),
     supabase.rpc('get_donor_donations_summary', { p_category_id: null, p_project_id: null }),
     supabase.rpc('get_donation_categories'),
     supabase.rpc('get_projects'),
+    supabase.rpc('get_my_pledges'),
   ]);
 
+  const pledges = (pledgesData as DonorPledge[]) || [];
+  const activePledges = pledges.filter((p) => p.status === 'Active');
+
   // The metrics RPC returns an array with one object, so we access the first element.
   const metrics = [
     {
@@ -52,7 +57,10 @@ async function getDonorData() {
       value: `PKR ${Number(metricsData?.[0]?.total_donations || 0).toLocaleString()}`,
       icon: <Coins className="h-5 w-5" />,
       accent: 'green' as const,
-      subtext: `${metricsData?.[0]?.total_donation_count || 0} donations`,
+      // Donated goods are shown beside the cash total, never added to it
+      subtext: Number(metricsData?.[0]?.total_in_kind || 0) > 0
+        ? `${metricsData?.[0]?.total_donation_count || 0} donations, plus PKR ${Number(metricsData[0].total_in_kind).toLocaleString()} in goods`
+        : `${metricsData?.[0]?.total_donation_count || 0} donations`,
     },
     {
       title: 'Last Donation',
@@ -62,11 +70,13 @@ async function getDonorData() {
       subtext: metricsData?.[0]?.last_donation_date ? `on ${new Date(metricsData[0].last_donation_date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}` : 'No recent donations',
     },
     {
-      title: 'Active Pledges', // Mock data, as this is not in the RPC yet
-      value: '0',
+      title: 'Active Pledges',
+      value: activePledges.length.toString(),
       icon: <Heart className="h-5 w-5" />,
       accent: 'amber' as const,
-      subtext: 'View pledges',
+      subtext: activePledges.length > 0
+        ? `Next due ${new Date(activePledges.reduce((d, p) => (p.next_due_date < d ? p.next_due_date : d), activePledges[0].next_due_date)).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`
+        : 'No recurring pledges',
     },
     {
       title: 'Programs Supported',
@@ -86,11 +96,11 @@ async function getDonorData() {
   const initialCategories = (categoriesData as any[]) || [];
   const initialProjects = (projectsData as any[]) || [];
 
-  return { metrics, recentDonations, initialSummary, initialCategories, initialProjects };
+  return { metrics, recentDonations, initialSummary, initialCategories, initialProjects, pledges };
 }
 
 export default async function DonorDashboardPage() {
-  const { metrics, recentDonations, initialSummary, initialCategories, initialProjects } = await getDonorData();
+  const { metrics, recentDonations, initialSummary, initialCategories, initialProjects, pledges } = await getDonorData();
 
   return (
     <PageLayout>
@@ -105,6 +115,7 @@ export default async function DonorDashboardPage() {
           initialSummary={initialSummary}
           initialCategories={initialCategories}
           initialProjects={initialProjects}
+          initialPledges={pledges}
         />
       </div>
     </PageLayout>
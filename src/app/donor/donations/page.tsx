@@ -1,6 +1,10 @@
 import { PageLayout } from '@/components/layout/PageLayout';
-import DonorDonationsTable from '@/components/donor/DonorDonationsTable';
+import DonorDonationsTable, { type DonorReceiptVersion } from '@/components/donor/DonorDonationsTable';
+import AnnualStatementButton from '@/components/donor/AnnualStatementButton';
+import SubmitDonationButton from '@/components/donor/SubmitDonationButton';
+import DonorSubmittedRequests, { type DonorSubmittedRequest } from '@/components/donor/DonorSubmittedRequests';
 import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { DEFAULT_FINANCIAL_YEAR_START_MONTH } from '@/lib/financials/financialYear';
 import { cookies } from 'next/headers';
 
 export const dynamic = 'force-dynamic';
@@ -25,24 +29,42 @@ async function getDonations() {
     }
   );
 
-  const { data, error } = await supabase.rpc('get_my_donations');
+  const [{ data, error }, { data: receiptData }, { data: requestData }, { data: projectData }, { data: startMonthData }] = await Promise.all([
+    supabase.rpc('get_my_donations'),
+    supabase.rpc('get_my_donation_receipts'),
+    supabase.rpc('get_my_donation_requests'),
+    supabase.rpc('get_projects'),
+    supabase.rpc('fiscal_year_start_month'),
+  ]);
+  const submittedRequests = (requestData ?? []) as DonorSubmittedRequest[];
+  const projects = (projectData ?? []) as Array<{ project_id: string; project_name: string }>;
+  const startMonth = Number(startMonthData) || DEFAULT_FINANCIAL_YEAR_START_MONTH;
   if (error) {
-    return { donations: [], error: error.message };
+    return { donations: [], voidedReceipts: [], submittedRequests, projects, startMonth, error: error.message };
   }
-  return { donations: data ?? [] };
+  // Only voided versions are listed separately; the current receipt is the donation's own download
+  const voidedReceipts = ((receiptData ?? []) as DonorReceiptVersion[]).filter((r) => r.status === 'void');
+  return { donations: data ?? [], voidedReceipts, submittedRequests, projects, startMonth };
 }
 
 export default async function DonorDonationsPage() {
-  const { donations } = await getDonations();
+  const { donations, voidedReceipts, submittedRequests, projects, startMonth } = await getDonations();
 
   return (
     <PageLayout>
       <div className="space-y-6 pt-2">
-        <div>
-          <h1 className="text-2xl font-bold tracking-tight text-gray-900">My Donations</h1>
-          <p className="mt-1 text-sm text-gray-600">View your donations and download receipts</p>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight text-gray-900">My Donations</h1>
+            <p className="mt-1 text-sm text-gray-600">View your donations and download receipts</p>
+          </div>
+          <div className="flex flex-wrap items-start gap-3">
+            <SubmitDonationButton projects={projects} />
+            <AnnualStatementButton startMonth={startMonth} />
+          </div>
         </div>
-        <DonorDonationsTable donations={donations} />
+        <DonorSubmittedRequests requests={submittedRequests} />
+        <DonorDonationsTable donations={donations} voidedReceipts={voidedReceipts} />
       </div>
     </PageLayout>
   );
@@ -0,0 +1,61 @@
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { verifyReceipt, type ReceiptVerificationResult } from '@/lib/receipts/verifyReceipt';
+
+export const dynamic = 'force-dynamic';
+
+async function getVerification(token: string): Promise<ReceiptVerificationResult> {
+  try {
+    return await verifyReceipt(token);
+  } catch {
+    return { status: 'not_found', message: 'We could not verify this receipt right now. Please try again later.' };
+  }
+}
+
+export default async function VerifyReceiptPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const result = await getVerification(token);
+  const isValid = result.status === 'valid';
+  const receipt = result.receipt;
+
+  const rows: Array<[string, string]> = receipt
+    ? [
+        ['Receipt', receipt.receipt_id ?? 'N/A'],
+        ['Donation ID', receipt.donation_human_id ?? 'N/A'],
+        ['Donor', receipt.donor_initials ?? 'N/A'],
+        ['Amount', `${receipt.currency} ${receipt.amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`],
+        ['Donation Date', new Date(receipt.donation_date).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })],
+        ['Donation Type', receipt.donation_type],
+        ['Project', receipt.project_name ?? 'N/A'],
+      ]
+    : [];
+
+  return (
+    <div className="min-h-[60vh] flex items-center justify-center px-4 py-10">
+      <div className="max-w-md w-full bg-white border rounded-lg p-8 space-y-6">
+        <div className="text-center space-y-2">
+          <p className="text-sm font-semibold tracking-wide text-gray-500">FAMILY AND FELLOWS FOUNDATION</p>
+          <div className="flex justify-center">
+            {isValid ? (
+              <CheckCircle2 className="h-12 w-12 text-green-600" />
+            ) : (
+              <XCircle className="h-12 w-12 text-red-600" />
+            )}
+          </div>
+          <h1 className="text-2xl font-semibold">{isValid ? 'Receipt Verified' : 'Receipt Not Verified'}</h1>
+          <p className="text-gray-600">{result.message}</p>
+        </div>
+
+        {rows.length > 0 && (
+          <dl className="divide-y rounded-md border">
+            {rows.map(([label, value]) => (
+              <div key={label} className="flex justify-between gap-4 px-4 py-2 text-sm">
+                <dt className="text-gray-500">{label}</dt>
+                <dd className="font-medium text-gray-900 text-right">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,40 +1,119 @@
 import { PageLayout } from '@/components/layout/PageLayout';
-import MetricCard from '@/components/admin/MetricCard';
-import { Clock, TrendingUp, Layers3, CalendarCheck } from 'lucide-react';
+import VolunteerDashboardClient from '@/components/volunteer/VolunteerDashboardClient';
+import type { MonthlyHours, UpcomingEvent } from '@/components/volunteer/VolunteerDashboardClient';
+import type { LoggableEvent, VolunteerActivityRequest } from '@/components/volunteer/VolunteerActivityLog';
+import { Clock, HeartHandshake, CalendarCheck, Hourglass } from 'lucide-react';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import * as QRCode from 'qrcode';
+import { buildCheckinPayload } from '@/lib/volunteers/checkin';
+
+// Row of get_volunteer_dashboard_metrics (bigint columns may arrive as strings)
+type VolunteerMetricsRow = {
+  total_hours: number | string;
+  hours_this_year: number | string;
+  people_helped: number | string;
+  events_attended_this_year: number | string;
+  events_attended_total: number | string;
+  pending_requests: number | string;
+  revision_requests: number | string;
+};
+
+async function getVolunteerData() {
+  const cookieStore = await cookies();
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value;
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          // no-op in server component
+        },
+        remove(name: string, options: CookieOptions) {
+          // no-op in server component
+        },
+      },
+    }
+  );
+
+  const year = new Date().getFullYear();
+  const [
+    { data: metricsData },
+    { data: monthlyData },
+    { data: eventsData },
+    { data: requestsData },
+    { data: loggableData },
+    { data: checkinToken },
+  ] = await Promise.all([
+    supabase.rpc('get_volunteer_dashboard_metrics'),
+    supabase.rpc('get_volunteer_monthly_hours', { p_year: year }),
+    supabase.rpc('get_volunteer_upcoming_events', { p_limit: 10 }),
+    supabase.rpc('get_my_volunteer_activity_requests'),
+    supabase.rpc('get_volunteer_loggable_events'),
+    supabase.rpc('get_my_checkin_token'),
+  ]);
+
+  const row = (metricsData as VolunteerMetricsRow[] | null)?.[0];
+  const num = (v: number | string | undefined) => Number(v || 0);
+  const openRequests = num(row?.pending_requests);
+  const revisions = num(row?.revision_requests);
 
-export default async function VolunteerDashboardPage() {
-  // Mock metrics (to be replaced with RPC-backed data later)
   const metrics = [
     {
       title: 'Total Volunteer Hours',
-      value: '120',
+      value: num(row?.total_hours).toLocaleString(),
       icon: <Clock className="h-5 w-5" />,
       accent: 'green' as const,
-      subtext: 'All-time hours',
+      subtext: `${num(row?.hours_this_year).toLocaleString()} this year`,
     },
     {
-      title: 'Impact Level',
-      value: 'High',
-      icon: <TrendingUp className="h-5 w-5" />,
+      title: 'People Helped',
+      value: num(row?.people_helped).toLocaleString(),
+      icon: <HeartHandshake className="h-5 w-5" />,
       accent: 'blue' as const,
-      subtext: 'Based on recent activity',
-    },
-    {
-      title: 'Active Projects',
-      value: '3',
-      icon: <Layers3 className="h-5 w-5" />,
-      accent: 'amber' as const,
-      subtext: 'Currently assigned',
+      subtext: 'Across approved activity',
     },
     {
       title: 'Events Attended',
-      value: '8',
+      value: num(row?.events_attended_this_year).toString(),
       icon: <CalendarCheck className="h-5 w-5" />,
       accent: 'rose' as const,
-      subtext: 'This year',
+      subtext: `This year · ${num(row?.events_attended_total)} all-time`,
+    },
+    {
+      title: 'Awaiting Approval',
+      value: openRequests.toString(),
+      icon: <Hourglass className="h-5 w-5" />,
+      accent: 'amber' as const,
+      subtext: revisions > 0 ? `${revisions} sent back for changes` : 'Logged hours under review',
     },
   ];
 
+  // Personal QR code the event coordinator scans at check-in and check-out
+  const checkinPass = checkinToken
+    ? {
+        code: checkinToken as string,
+        qrDataUrl: await QRCode.toDataURL(buildCheckinPayload(checkinToken as string), { width: 240, margin: 1 }),
+      }
+    : null;
+
+  return {
+    metrics,
+    year,
+    monthlyHours: (monthlyData as MonthlyHours[]) || [],
+    upcomingEvents: (eventsData as UpcomingEvent[]) || [],
+    requests: (requestsData as VolunteerActivityRequest[]) || [],
+    loggableEvents: (loggableData as LoggableEvent[]) || [],
+    checkinPass,
+  };
+}
+
+export default async function VolunteerDashboardPage() {
+  const { metrics, year, monthlyHours, upcomingEvents, requests, loggableEvents, checkinPass } = await getVolunteerData();
+
   return (
     <PageLayout>
       <div className="space-y-6 pt-2">
@@ -44,30 +123,15 @@ export default async function VolunteerDashboardPage() {
           <p className="mt-1 text-sm text-gray-600">Overview of your volunteering impact</p>
         </div>
 
-        {/* Metrics Grid */}
-        <section className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
-          {metrics.map((m) => (
-            <MetricCard
-              key={m.title}
-              title={m.title}
-              value={m.value}
-              icon={m.icon}
-              accent={m.accent}
-              subtext={m.subtext}
-            />
-          ))}
-        </section>
-
-        {/* Placeholder Chart Section */}
-        <section className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
-          <div className="mb-3">
-            <h2 className="text-lg font-semibold text-gray-900">Volunteer Hours Over Time</h2>
-            <p className="text-sm text-gray-600">This is a placeholder. We’ll replace it with a live chart.</p>
-          </div>
-          <div className="w-full min-h-[220px] rounded border border-dashed border-gray-300 bg-gray-50 flex items-center justify-center text-sm text-gray-500">
-            Chart placeholder (bar/line) with mocked data
-          </div>
-        </section>
+        <VolunteerDashboardClient
+          initialMetrics={metrics}
+          initialMonthlyHours={monthlyHours}
+          initialYear={year}
+          upcomingEvents={upcomingEvents}
+          initialRequests={requests}
+          loggableEvents={loggableEvents}
+          checkinPass={checkinPass}
+        />
       </div>
     </PageLayout>
   );
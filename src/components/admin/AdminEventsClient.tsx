@@ -1,7 +1,9 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
 import MetricCard from "@/components/admin/MetricCard";
+import EventShiftGrid from "@/components/admin/EventShiftGrid";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -24,6 +26,27 @@ type EventRow = {
   event_status: "active" | "completed" | "cancelled";
   start_date: string | null;
   end_date: string | null;
+  registered_count: number;
+  waitlist_count: number;
+};
+
+// Row of get_event_roster
+type RosterRow = {
+  registration_id: string;
+  volunteer_number: string | null;
+  full_name: string;
+  email: string | null;
+  phone_number: string | null;
+  status: "registered" | "waitlisted" | "cancelled" | "released";
+  waitlist_position: number | null;
+  queued_at: string;
+};
+
+const ROSTER_STATUS_STYLES: Record<RosterRow["status"], string> = {
+  registered: "bg-green-100 text-green-800",
+  waitlisted: "bg-amber-100 text-amber-800",
+  cancelled: "bg-gray-100 text-gray-700",
+  released: "bg-rose-100 text-rose-800",
 };
 
 export default function AdminEventsClient() {
@@ -34,6 +57,10 @@ export default function AdminEventsClient() {
   const [showUpdateModal, setShowUpdateModal] = useState(false);
   const [metrics, setMetrics] = useState<Metrics | null>(null);
   const [rows, setRows] = useState<EventRow[]>([]);
+  const [rosterEvent, setRosterEvent] = useState<EventRow | null>(null);
+  const [roster, setRoster] = useState<RosterRow[]>([]);
+  const [loadingRoster, setLoadingRoster] = useState(false);
+  const [shiftEvent, setShiftEvent] = useState<EventRow | null>(null);
 
   async function loadData() {
     setLoading(true);
@@ -56,6 +83,22 @@ export default function AdminEventsClient() {
 
   }
 
+  async function openRoster(event: EventRow) {
+    setRosterEvent(event);
+    setRoster([]);
+    setLoadingRoster(true);
+    try {
+      const res = await fetch(`/api/admin/events/roster?event_id=${event.event_id}`, { cache: "no-store" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to load roster");
+      setRoster(data.roster || []);
+    } catch (e: any) {
+      toast.error(e.message ?? "Failed to load roster");
+    } finally {
+      setLoadingRoster(false);
+    }
+  }
+
   async function onUpdate() {
     if (!updateForm.event_id) {
       toast.error("Select an event to update");
@@ -188,6 +231,9 @@ export default function AdminEventsClient() {
           <p className="mt-1 text-sm text-gray-600">Manage and review events</p>
         </div>
         <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/admin/events/checkin">Check-in</Link>
+          </Button>
           <Button variant="outline" onClick={openUpdateModal}>Update Event</Button>
           <Button onClick={() => setShowModal(true)}>Add Event</Button>
         </div>
@@ -218,26 +264,52 @@ export default function AdminEventsClient() {
               <tr>
                 <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Event Name</th>
                 <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Location</th>
-                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Volunteers Required</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Slots Filled</th>
                 <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Status</th>
                 <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Start Date</th>
                 <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">End Date</th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Volunteers</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-200 bg-white">
               {loading ? (
-                <tr><td colSpan={6} className="px-6 py-8 text-center text-gray-500">Loading…</td></tr>
+                <tr><td colSpan={7} className="px-6 py-8 text-center text-gray-500">Loading…</td></tr>
               ) : rows.length === 0 ? (
-                <tr><td colSpan={6} className="px-6 py-8 text-center text-gray-500">No events found.</td></tr>
+                <tr><td colSpan={7} className="px-6 py-8 text-center text-gray-500">No events found.</td></tr>
               ) : (
                 rows.map((r, idx) => (
                   <tr key={idx}>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{r.event_name}</td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{r.location ?? '-'}</td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{r.volunteers_required ?? '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {r.volunteers_required != null ? (
+                        <div className="w-32">
+                          <div className={Number(r.registered_count) >= r.volunteers_required ? "font-medium text-green-700" : ""}>
+                            {r.registered_count} / {r.volunteers_required}
+                          </div>
+                          <div className="mt-1 h-1.5 w-full rounded bg-gray-100">
+                            <div
+                              className="h-1.5 rounded bg-green-500"
+                              style={{ width: `${Math.min(100, r.volunteers_required > 0 ? (Number(r.registered_count) / r.volunteers_required) * 100 : 100)}%` }}
+                            />
+                          </div>
+                        </div>
+                      ) : (
+                        <div>{r.registered_count} <span className="text-gray-500">(no limit)</span></div>
+                      )}
+                      {Number(r.waitlist_count) > 0 && (
+                        <div className="text-xs text-amber-700">{r.waitlist_count} waitlisted</div>
+                      )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 capitalize">{r.event_status}</td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{r.start_date ? new Date(r.start_date).toLocaleDateString() : '-'}</td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{r.end_date ? new Date(r.end_date).toLocaleDateString() : '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => openRoster(r)}>Roster</Button>
+                        <Button size="sm" variant="outline" onClick={() => setShiftEvent(r)}>Shifts</Button>
+                      </div>
+                    </td>
                   </tr>
                 ))
               )}
@@ -340,6 +412,72 @@ export default function AdminEventsClient() {
         </div>
       </section>
 
+      {/* Roster Modal */}
+      {rosterEvent && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black/40" onClick={() => setRosterEvent(null)} />
+          <div className="relative z-10 w-full max-w-3xl rounded-lg bg-white p-6 shadow-lg">
+            <h3 className="text-lg font-semibold text-gray-900">Roster — {rosterEvent.event_name}</h3>
+            <p className="mt-1 text-sm text-gray-600">
+              {rosterEvent.registered_count} registered
+              {rosterEvent.volunteers_required != null ? ` of ${rosterEvent.volunteers_required} slots` : ""}
+              {Number(rosterEvent.waitlist_count) > 0 ? ` · ${rosterEvent.waitlist_count} on the waitlist` : ""}
+            </p>
+            <div className="mt-4 max-h-[60vh] overflow-y-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Volunteer</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Contact</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Status</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Signed Up</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 bg-white">
+                  {loadingRoster ? (
+                    <tr><td colSpan={4} className="px-4 py-6 text-center text-gray-500">Loading…</td></tr>
+                  ) : roster.length === 0 ? (
+                    <tr><td colSpan={4} className="px-4 py-6 text-center text-gray-500">No volunteers have signed up yet.</td></tr>
+                  ) : (
+                    roster.map((v) => (
+                      <tr key={v.registration_id}>
+                        <td className="px-4 py-3 text-sm text-gray-900">
+                          <div className="font-medium">{v.full_name}</div>
+                          <div className="text-xs text-gray-500">{v.volunteer_number ?? '-'}</div>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-900">
+                          <div>{v.email ?? '-'}</div>
+                          {v.phone_number && <div className="text-xs text-gray-500">{v.phone_number}</div>}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium capitalize ${ROSTER_STATUS_STYLES[v.status]}`}>
+                            {v.status === "waitlisted" && v.waitlist_position ? `Waitlist #${v.waitlist_position}` : v.status}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-900">{new Date(v.queued_at).toLocaleDateString()}</td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+            <div className="mt-6 flex justify-end">
+              <Button variant="secondary" onClick={() => setRosterEvent(null)}>Close</Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Shift Grid Modal */}
+      {shiftEvent && (
+        <EventShiftGrid
+          eventId={shiftEvent.event_id}
+          eventName={shiftEvent.event_name}
+          startDate={shiftEvent.start_date}
+          onClose={() => setShiftEvent(null)}
+        />
+      )}
+
       {/* Add Modal - Moved outside table */}
       {showModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center">
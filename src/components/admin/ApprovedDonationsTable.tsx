@@ -0,0 +1,251 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import { BASE_CURRENCY, formatMoney } from "@/lib/financials/currency";
+import { formatTribute } from "@/lib/financials/tributes";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+
+type ApprovedDonation = {
+  donation_id: string;
+  donation_human_id: string | null;
+  receipt_number: string | null;
+  donor_number: string;
+  donor_name: string;
+  amount: number;
+  currency: string;
+  base_amount: number | null;
+  category_name: string | null;
+  project_name: string | null;
+  donation_type: string;
+  donation_date: string;
+  approved_at: string | null;
+  correction_count: number;
+  tribute_type: string | null;
+  tribute_name: string | null;
+};
+
+type ReissueForm = {
+  amount: string;
+  donor_number: string;
+  reason: string;
+};
+
+// Approved donations with the "Void & Reissue" correction action.
+// refreshKey lets the parent reload the list after approving a request.
+export default function ApprovedDonationsTable({ refreshKey = 0 }: { refreshKey?: number }) {
+  const [donations, setDonations] = useState<ApprovedDonation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<ApprovedDonation | null>(null);
+  const [form, setForm] = useState<ReissueForm>({ amount: "", donor_number: "", reason: "" });
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadDonations = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/admin/financials/donations", {
+        credentials: "include",
+        headers: { "Cache-Control": "no-cache" },
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load donations");
+      }
+      setDonations(data.donations || []);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDonations();
+  }, [loadDonations, refreshKey]);
+
+  const openReissue = (donation: ApprovedDonation) => {
+    setSelected(donation);
+    setForm({ amount: String(donation.amount), donor_number: donation.donor_number, reason: "" });
+  };
+
+  const handleReissue = async () => {
+    if (!selected) return;
+    if (!form.reason.trim()) {
+      toast.error("Please enter a reason for the correction");
+      return;
+    }
+
+    const amountChanged = Number(form.amount) !== Number(selected.amount);
+    const donorChanged = form.donor_number.trim() !== selected.donor_number;
+    if (!amountChanged && !donorChanged) {
+      toast.error("Change the amount or donor to reissue the receipt");
+      return;
+    }
+
+    setSubmitting(true);
+    const t = toast.loading(`Voiding receipt ${selected.receipt_number}...`);
+    try {
+      const res = await fetchWithCSRF(`/api/admin/donations/${selected.donation_id}/reissue`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          reason: form.reason.trim(),
+          amount: amountChanged ? Number(form.amount) : null,
+          donor_number: donorChanged ? form.donor_number.trim() : null,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok || data?.status !== "success") {
+        throw new Error(data?.message || data?.error || "Failed to reissue receipt");
+      }
+      toast.success(`Receipt ${data.voidedReceiptNumber} voided and reissued as ${data.receiptNumber}`, { id: t });
+      if (data.warning) toast.warning(data.warning);
+      setSelected(null);
+      await loadDonations();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg, { id: t });
+      await loadDonations();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <section className="space-y-3">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Approved Donations</h2>
+        <p className="text-sm text-gray-600">Correct an approved donation by voiding its receipt and issuing a new one</p>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Receipt #</TableHead>
+              <TableHead>Donor</TableHead>
+              <TableHead>Amount</TableHead>
+              <TableHead>Project</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="h-24 text-center">
+                  <div className="flex items-center justify-center">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+                    Loading donations...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : donations.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="h-24 text-center">
+                  No approved donations yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              donations.map((donation) => (
+                <TableRow key={donation.donation_id}>
+                  <TableCell>
+                    <div className="font-medium">{donation.receipt_number ?? "—"}</div>
+                    <div className="text-sm text-gray-500">{donation.donation_human_id}</div>
+                    {Number(donation.correction_count) > 0 && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                        Corrected ×{donation.correction_count}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{donation.donor_name || "—"}</div>
+                    <div className="text-sm text-gray-500">{donation.donor_number}</div>
+                    {formatTribute(donation.tribute_type, donation.tribute_name) && (
+                      <div className="text-xs italic text-gray-500">{formatTribute(donation.tribute_type, donation.tribute_name)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div>{donation.amount} {donation.currency}</div>
+                    {donation.currency !== BASE_CURRENCY && donation.base_amount !== null && (
+                      <div className="text-sm text-gray-500">{formatMoney(donation.base_amount)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{donation.project_name ?? "—"}</TableCell>
+                  <TableCell>{new Date(donation.donation_date).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!donation.receipt_number}
+                        onClick={() => openReissue(donation)}
+                      >
+                        Void &amp; Reissue
+                      </Button>
+                      {donation.tribute_type && (
+                        <Button size="sm" variant="outline" asChild>
+                          <a href={`/api/admin/financials/donations/${donation.donation_id}/tribute-letter`}>Tribute Letter</a>
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {selected && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black/40" onClick={() => !submitting && setSelected(null)} />
+          <div className="relative z-10 w-full max-w-lg rounded-lg bg-white p-6 shadow-lg">
+            <h3 className="text-lg font-semibold text-gray-900">Void &amp; Reissue Receipt {selected.receipt_number}</h3>
+            <p className="mt-1 text-sm text-gray-600">
+              The current receipt will be marked VOID and kept on record. A new receipt number will be issued with the corrected details.
+            </p>
+            <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Amount ({selected.currency})</label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.amount}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Donor Number</label>
+                <Input value={form.donor_number} onChange={(e) => setForm({ ...form, donor_number: e.target.value })} />
+              </div>
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-medium text-gray-700">Reason for correction</label>
+                <Textarea value={form.reason} onChange={(e) => setForm({ ...form, reason: e.target.value })} />
+              </div>
+            </div>
+            <div className="mt-6 flex justify-end gap-3">
+              <Button variant="secondary" onClick={() => setSelected(null)} disabled={submitting}>Cancel</Button>
+              <Button onClick={handleReissue} disabled={submitting}>Void &amp; Reissue</Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
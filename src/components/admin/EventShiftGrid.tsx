@@ -0,0 +1,253 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Trash2 } from "lucide-react";
+import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+// Row of get_event_shift_grid
+type ShiftRow = {
+  shift_id: string;
+  role_name: string;
+  starts_at: string;
+  ends_at: string;
+  required_count: number;
+  notes: string | null;
+  filled_count: number;
+  volunteers: { volunteer_number: string | null; full_name: string; phone_number: string | null }[];
+};
+
+interface EventShiftGridProps {
+  eventId: string;
+  eventName: string;
+  startDate: string | null;
+  onClose: () => void;
+}
+
+const ROLE_SUGGESTIONS = ["Packing", "Driving", "Registration desk", "Distribution", "Setup", "Cleanup"];
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+
+const formatDay = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+
+export default function EventShiftGrid({ eventId, eventName, startDate, onClose }: EventShiftGridProps) {
+  const [shifts, setShifts] = useState<ShiftRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({
+    role_name: "",
+    date: startDate ?? "",
+    start_time: "09:00",
+    end_time: "13:00",
+    required_count: "",
+    notes: "",
+  });
+
+  async function loadShifts() {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/events/shifts?event_id=${eventId}`, { cache: "no-store" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to load shifts");
+      setShifts(data.shifts || []);
+    } catch (e: any) {
+      toast.error(e.message ?? "Failed to load shifts");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadShifts();
+  }, [eventId]);
+
+  // Rows are distinct time windows, columns are roles; a cell holds the shift(s) for that pair
+  const grid = useMemo(() => {
+    const roles = Array.from(new Set(shifts.map((s) => s.role_name))).sort((a, b) => a.localeCompare(b));
+    const windows: { key: string; starts_at: string; ends_at: string }[] = [];
+    const cells = new Map<string, ShiftRow[]>();
+    for (const s of shifts) {
+      const key = `${s.starts_at}|${s.ends_at}`;
+      if (!windows.some((w) => w.key === key)) windows.push({ key, starts_at: s.starts_at, ends_at: s.ends_at });
+      const cellKey = `${key}|${s.role_name}`;
+      cells.set(cellKey, [...(cells.get(cellKey) ?? []), s]);
+    }
+    windows.sort((a, b) => a.starts_at.localeCompare(b.starts_at) || a.ends_at.localeCompare(b.ends_at));
+    return { roles, windows, cells };
+  }, [shifts]);
+
+  async function onAdd() {
+    if (!form.role_name.trim() || !form.date || !form.start_time || !form.end_time || !form.required_count) {
+      toast.error("Role, date, times and required volunteers are required");
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetchWithCSRF("/api/admin/events/shifts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          event_id: eventId,
+          role_name: form.role_name.trim(),
+          starts_at: new Date(`${form.date}T${form.start_time}`).toISOString(),
+          ends_at: new Date(`${form.date}T${form.end_time}`).toISOString(),
+          required_count: Number(form.required_count),
+          notes: form.notes || null,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to add shift");
+      toast.success("Shift added");
+      setForm({ ...form, role_name: "", required_count: "", notes: "" });
+      await loadShifts();
+    } catch (e: any) {
+      toast.error(e.message ?? "Failed to add shift");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function onDelete(shift: ShiftRow) {
+    const warning = Number(shift.filled_count) > 0
+      ? ` ${shift.filled_count} volunteer(s) signed up will lose this shift.`
+      : "";
+    if (!confirm(`Delete the ${shift.role_name} shift ${formatTime(shift.starts_at)}–${formatTime(shift.ends_at)}?${warning}`)) return;
+    try {
+      const res = await fetchWithCSRF(`/api/admin/events/shifts?shift_id=${shift.shift_id}`, { method: "DELETE" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to delete shift");
+      toast.success("Shift deleted");
+      await loadShifts();
+    } catch (e: any) {
+      toast.error(e.message ?? "Failed to delete shift");
+    }
+  }
+
+  const totalRequired = shifts.reduce((sum, s) => sum + s.required_count, 0);
+  const totalFilled = shifts.reduce((sum, s) => sum + Number(s.filled_count), 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} />
+      <div className="relative z-10 w-full max-w-5xl rounded-lg bg-white p-6 shadow-lg">
+        <h3 className="text-lg font-semibold text-gray-900">Shifts — {eventName}</h3>
+        <p className="mt-1 text-sm text-gray-600">
+          {shifts.length === 0 ? "No shifts yet" : `${shifts.length} shift(s) · ${totalFilled} of ${totalRequired} slots filled`}
+        </p>
+
+        <div className="mt-4 max-h-[50vh] overflow-auto">
+          {loading ? (
+            <div className="px-4 py-6 text-center text-gray-500">Loading…</div>
+          ) : shifts.length === 0 ? (
+            <div className="rounded border border-dashed border-gray-200 px-4 py-6 text-center text-sm text-gray-500">
+              Add a shift below to split this event into roles and time slots.
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 border border-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Time</th>
+                  {grid.roles.map((role) => (
+                    <th key={role} className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500">{role}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 bg-white">
+                {grid.windows.map((w) => (
+                  <tr key={w.key}>
+                    <td className="whitespace-nowrap px-4 py-3 align-top text-sm text-gray-900">
+                      <div className="font-medium">{formatDay(w.starts_at)}</div>
+                      <div className="text-xs text-gray-500">{formatTime(w.starts_at)}–{formatTime(w.ends_at)}</div>
+                    </td>
+                    {grid.roles.map((role) => {
+                      const cell = grid.cells.get(`${w.key}|${role}`);
+                      if (!cell) return <td key={role} className="px-4 py-3 text-sm text-gray-300">—</td>;
+                      const full = cell.every((s) => Number(s.filled_count) >= s.required_count);
+                      return (
+                        <td key={role} className={`space-y-3 px-4 py-3 align-top text-sm ${full ? "bg-green-50" : ""}`}>
+                          {cell.map((s) => (
+                            <div key={s.shift_id}>
+                              <div className="flex items-start justify-between gap-2">
+                                <span className={Number(s.filled_count) >= s.required_count ? "font-medium text-green-700" : "font-medium text-gray-900"}>
+                                  {s.filled_count} / {s.required_count}
+                                </span>
+                                <button
+                                  type="button"
+                                  aria-label={`Delete ${s.role_name} shift`}
+                                  className="text-gray-400 hover:text-rose-600"
+                                  onClick={() => onDelete(s)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </button>
+                              </div>
+                              {s.notes && <div className="text-xs text-gray-500">{s.notes}</div>}
+                              <ul className="mt-1 space-y-0.5 text-xs text-gray-700">
+                                {s.volunteers.map((v, i) => (
+                                  <li key={`${v.volunteer_number ?? v.full_name}-${i}`}>
+                                    {v.full_name}{v.phone_number ? ` · ${v.phone_number}` : ""}
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                          ))}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Add shift */}
+        <div className="mt-6 border-t border-gray-200 pt-4">
+          <h4 className="text-sm font-semibold text-gray-900">Add Shift</h4>
+          <div className="mt-3 grid grid-cols-1 gap-4 sm:grid-cols-6">
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700">Role</label>
+              <Input
+                list="shift-role-suggestions"
+                value={form.role_name}
+                placeholder="e.g. Packing"
+                onChange={(e) => setForm({ ...form, role_name: e.target.value })}
+              />
+              <datalist id="shift-role-suggestions">
+                {ROLE_SUGGESTIONS.map((r) => <option key={r} value={r} />)}
+              </datalist>
+            </div>
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700">Date</label>
+              <Input type="date" value={form.date} onChange={(e) => setForm({ ...form, date: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Start</label>
+              <Input type="time" value={form.start_time} onChange={(e) => setForm({ ...form, start_time: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">End</label>
+              <Input type="time" value={form.end_time} onChange={(e) => setForm({ ...form, end_time: e.target.value })} />
+            </div>
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700">Volunteers Needed</label>
+              <Input type="number" min={1} value={form.required_count} onChange={(e) => setForm({ ...form, required_count: e.target.value })} />
+            </div>
+            <div className="sm:col-span-4">
+              <label className="block text-sm font-medium text-gray-700">Notes</label>
+              <Input value={form.notes} placeholder="Optional" onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose}>Close</Button>
+          <Button onClick={onAdd} disabled={saving}>Add Shift</Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import { BASE_CURRENCY, formatMoney } from "@/lib/financials/currency";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+// Donation approval controls: creators never approve their own requests (always on);
+// the second-approver limit is configurable.
+export default function FinancialControlsSettings() {
+  const [threshold, setThreshold] = useState("");
+  const [saved, setSaved] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch("/api/admin/financials/settings", {
+          credentials: "include",
+          headers: { "Cache-Control": "no-cache" },
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data?.error || "Failed to load financial settings");
+        }
+        const value = data.settings?.second_approval_threshold ?? null;
+        setSaved(value === null ? null : Number(value));
+        setThreshold(value === null ? "" : String(value));
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "Unexpected error";
+        toast.error(msg);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetchWithCSRF("/api/admin/financials/settings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ second_approval_threshold: threshold.trim() === "" ? null : Number(threshold) }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to save financial settings");
+      }
+      const value = data.settings?.second_approval_threshold ?? null;
+      setSaved(value === null ? null : Number(value));
+      toast.success("Financial controls saved");
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+      <h2 className="text-lg font-semibold text-gray-900">Donation Approval Controls</h2>
+      <ul className="mt-2 list-disc space-y-1 pl-5 text-sm text-gray-600">
+        <li>The admin who records a donation request cannot approve it.</li>
+        <li>
+          {saved === null
+            ? "A single approval is enough for any amount."
+            : `Requests above ${formatMoney(saved)} need two approvals from different admins.`}
+        </li>
+      </ul>
+      <div className="mt-4 flex flex-col gap-3 sm:flex-row sm:items-end">
+        <div className="sm:w-64">
+          <Label htmlFor="second_approval_threshold">Second approval above ({BASE_CURRENCY})</Label>
+          <Input
+            id="second_approval_threshold"
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="Leave empty to turn off"
+            value={threshold}
+            disabled={loading}
+            onChange={(e) => setThreshold(e.target.value)}
+          />
+        </div>
+        <Button onClick={handleSave} disabled={loading || saving}>{saving ? "Saving..." : "Save"}</Button>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">Foreign-currency requests are compared using their {BASE_CURRENCY} equivalent.</p>
+    </section>
+  );
+}
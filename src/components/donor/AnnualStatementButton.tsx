@@ -0,0 +1,55 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DEFAULT_FINANCIAL_YEAR_START_MONTH, formatFinancialYear, getFinancialYear } from "@/lib/financials/financialYear";
+
+// "Download annual statement" action for the donor's donations page. startMonth is the
+// organisation's financial year start (fiscal_year_start_month), loaded by the page.
+export default function AnnualStatementButton({ startMonth = DEFAULT_FINANCIAL_YEAR_START_MONTH }: { startMonth?: number }) {
+  const currentYear = getFinancialYear(new Date(), startMonth);
+  const years = Array.from({ length: 5 }, (_, i) => currentYear - i);
+  const [year, setYear] = useState(String(currentYear));
+  const [downloading, setDownloading] = useState(false);
+
+  const onDownload = async () => {
+    try {
+      setDownloading(true);
+      const res = await fetch(`/api/donor/statements/${year}/download`);
+      if (!res.ok) throw new Error(`Failed to download statement (${res.status})`);
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `donation-statement-FY${formatFinancialYear(Number(year), startMonth)}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch {
+      toast.error("Could not download the statement. Please try again.");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={year} onValueChange={setYear}>
+        <SelectTrigger className="w-36">
+          <SelectValue placeholder="Financial year" />
+        </SelectTrigger>
+        <SelectContent>
+          {years.map((y) => (
+            <SelectItem key={y} value={String(y)}>FY {formatFinancialYear(y, startMonth)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button onClick={onDownload} disabled={downloading}>
+        {downloading ? "Preparing…" : "Download annual statement"}
+      </Button>
+    </div>
+  );
+}
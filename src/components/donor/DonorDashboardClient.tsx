@@ -12,6 +12,8 @@ import {
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatMoney } from "@/lib/financials/currency";
+import { pledgeFulfilmentPercent } from "@/lib/financials/pledges";
 
 type Metric = {
   title: string;
@@ -30,12 +32,31 @@ type RecentDonation = {
   status: 'Completed' | 'Pending' | 'Failed';
 };
 
+// Row of get_my_pledges: expected = instalments due so far, received = approved donations for them
+export type DonorPledge = {
+  pledge_id: string;
+  amount: number;
+  currency: string;
+  donation_type: string;
+  frequency: string;
+  project_name: string | null;
+  start_date: string;
+  end_date: string | null;
+  next_due_date: string;
+  status: string;
+  instalments_due: number;
+  instalments_received: number;
+  expected_amount: number;
+  received_amount: number;
+};
+
 interface DonorDashboardClientProps {
   initialMetrics: Metric[];
   initialRecentDonations: RecentDonation[];
   initialSummary: Array<{ donation_date: string; amount: number; currency: string; category_name: string | null; project_name: string | null }>;
   initialCategories: Array<{ donation_category_id: string; donation_category_name: string }>;
   initialProjects: Array<{ project_id: string; project_name: string }>;
+  initialPledges?: DonorPledge[];
 }
 
 export default function DonorDashboardClient({
@@ -44,6 +65,7 @@ export default function DonorDashboardClient({
   initialSummary,
   initialCategories,
   initialProjects,
+  initialPledges = [],
 }: DonorDashboardClientProps) {
   // TODO: In the future, this state can be updated via client-side fetching for real-time updates
   const [metrics] = useState<Metric[]>(initialMetrics);
@@ -212,6 +234,63 @@ export default function DonorDashboardClient({
         </div>
       </section>
 
+      {/* Pledge fulfilment */}
+      {initialPledges.length > 0 && (
+        <section className="rounded-lg border border-gray-200 bg-white shadow-sm">
+          <div className="p-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">My Pledges</h2>
+            <p className="mt-1 text-sm text-gray-600">Instalments due so far compared with donations received.</p>
+          </div>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pledge</TableHead>
+                  <TableHead>Project</TableHead>
+                  <TableHead>Next Due</TableHead>
+                  <TableHead className="text-right">Expected</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="w-48">Fulfilment</TableHead>
+                  <TableHead className="text-center">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {initialPledges.map((pledge) => {
+                  const percent = pledgeFulfilmentPercent(pledge.expected_amount, pledge.received_amount);
+                  return (
+                    <TableRow key={pledge.pledge_id}>
+                      <TableCell>
+                        <div className="font-medium">{formatMoney(pledge.amount, pledge.currency)}</div>
+                        <div className="text-sm text-gray-500">{pledge.frequency} {pledge.donation_type}</div>
+                      </TableCell>
+                      <TableCell>{pledge.project_name ?? '—'}</TableCell>
+                      <TableCell>
+                        {pledge.status === 'Active'
+                          ? new Date(pledge.next_due_date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })
+                          : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">{formatMoney(pledge.expected_amount, pledge.currency)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(pledge.received_amount, pledge.currency)}</TableCell>
+                      <TableCell>
+                        <div className="h-2 w-full rounded bg-gray-100">
+                          <div className="h-2 rounded bg-green-500" style={{ width: `${percent}%` }} />
+                        </div>
+                        <div className="mt-1 text-xs text-gray-500">
+                          {pledge.instalments_received} of {pledge.instalments_due} instalments · {percent}%
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Badge variant={pledge.status === 'Active' ? 'default' : 'secondary'}>{pledge.status}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </section>
+      )}
+
       {/* Recent Donations Table */}
       {/* TODO: This table will be powered by a paginated RPC call to `get_donor_donations` */}
       <section className="rounded-lg border border-gray-200 bg-white shadow-sm">
@@ -15,6 +15,7 @@ import { Button } from "@/components/ui/button";
 export type DonorDonation = {
   donation_id: string;
   donation_human_id: string;
+  receipt_number: string | null;
   amount: number;
   currency: string;
   category_id: string | null;
@@ -25,23 +26,37 @@ export type DonorDonation = {
   receipt_pdf_path: string | null;
 };
 
+export type DonorReceiptVersion = {
+  donation_id: string;
+  receipt_number: string;
+  status: 'issued' | 'void';
+  issued_at: string;
+  voided_at: string | null;
+  void_reason: string | null;
+  replaces_receipt_number: string | null;
+  has_pdf: boolean;
+};
+
 interface Props {
   donations: DonorDonation[];
+  voidedReceipts?: DonorReceiptVersion[];
 }
 
-export default function DonorDonationsTable({ donations }: Props) {
+export default function DonorDonationsTable({ donations, voidedReceipts = [] }: Props) {
   const [downloading, setDownloading] = useState<string | null>(null);
 
-  const onDownload = async (donationId: string) => {
+  const onDownload = async (donationId: string, receiptNumber?: string) => {
+    const key = receiptNumber ?? donationId;
     try {
-      setDownloading(donationId);
-      const res = await fetch(`/api/donor/receipts/${donationId}/download`);
+      setDownloading(key);
+      const query = receiptNumber ? `?receipt=${encodeURIComponent(receiptNumber)}` : '';
+      const res = await fetch(`/api/donor/receipts/${donationId}/download${query}`);
       if (!res.ok) throw new Error(`Failed to download receipt (${res.status})`);
       const blob = await res.blob();
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = `receipt-${donationId}.pdf`;
+      a.download = `receipt-${key}.pdf`;
       document.body.appendChild(a);
       a.click();
       a.remove();
@@ -75,7 +90,10 @@ export default function DonorDonationsTable({ donations }: Props) {
             {donations.length > 0 ? (
               donations.map((d) => (
                 <TableRow key={d.donation_id}>
-                  <TableCell className="font-medium">{d.donation_human_id}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{d.donation_human_id}</div>
+                    {d.receipt_number && <div className="text-xs text-gray-500">{d.receipt_number}</div>}
+                  </TableCell>
                   <TableCell>{d.project_name ?? "-"}</TableCell>
                   <TableCell>{d.category_name ?? "-"}</TableCell>
                   <TableCell className="text-right">{`${d.currency} ${Number(d.amount || 0).toLocaleString()}`}</TableCell>
@@ -88,6 +106,21 @@ export default function DonorDonationsTable({ donations }: Props) {
                     ) : (
                       <Badge variant="secondary">Pending</Badge>
                     )}
+                    {voidedReceipts
+                      .filter((v) => v.donation_id === d.donation_id && v.has_pdf)
+                      .map((v) => (
+                        <div key={v.receipt_number} className="mt-1">
+                          <button
+                            type="button"
+                            className="text-xs text-red-600 hover:underline disabled:opacity-50"
+                            title={v.void_reason ?? undefined}
+                            onClick={() => onDownload(d.donation_id, v.receipt_number)}
+                            disabled={downloading === v.receipt_number}
+                          >
+                            {downloading === v.receipt_number ? 'Downloading…' : `VOID ${v.receipt_number}`}
+                          </button>
+                        </div>
+                      ))}
                   </TableCell>
                 </TableRow>
               ))
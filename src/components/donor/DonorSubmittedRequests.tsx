@@ -0,0 +1,70 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { formatMoney } from "@/lib/financials/currency";
+
+export type DonorSubmittedRequest = {
+  donation_request_id: string;
+  amount: number;
+  currency: string;
+  project_name: string | null;
+  mode_of_payment: string;
+  donation_type: string;
+  donation_date: string;
+  transaction_id: string | null;
+  status: string;
+  rejection_reason: string | null;
+  created_at: string;
+};
+
+// Donations the donor submitted that are awaiting approval or were rejected
+export default function DonorSubmittedRequests({ requests }: { requests: DonorSubmittedRequest[] }) {
+  if (requests.length === 0) return null;
+
+  return (
+    <section className="rounded-lg border border-gray-200 bg-white shadow-sm">
+      <div className="p-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Submitted Donations</h2>
+        <p className="mt-1 text-sm text-gray-600">Receipts are issued once a submission is approved</p>
+      </div>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Project</TableHead>
+              <TableHead>Payment</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead className="text-center">Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {requests.map((r) => (
+              <TableRow key={r.donation_request_id}>
+                <TableCell className="font-medium">{new Date(r.donation_date).toLocaleDateString()}</TableCell>
+                <TableCell>{r.project_name ?? "—"}</TableCell>
+                <TableCell>
+                  <div>{r.mode_of_payment}</div>
+                  {r.transaction_id && <div className="text-xs text-gray-500">Ref: {r.transaction_id}</div>}
+                </TableCell>
+                <TableCell className="text-right">{formatMoney(r.amount, r.currency)}</TableCell>
+                <TableCell className="text-center">
+                  <Badge variant={r.status === "Pending" ? "secondary" : "destructive"}>
+                    {r.status === "Pending" ? "Awaiting approval" : r.status}
+                  </Badge>
+                  {r.rejection_reason && <div className="mt-1 text-xs text-gray-500">{r.rejection_reason}</div>}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </section>
+  );
+}
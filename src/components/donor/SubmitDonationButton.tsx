@@ -0,0 +1,201 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import { BASE_CURRENCY, DONATION_CURRENCIES } from "@/lib/financials/currency";
+import { PAYMENT_PROOF_MAX_BYTES, PAYMENT_PROOF_TYPES } from "@/lib/financials/paymentProofs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type Project = { project_id: string; project_name: string };
+
+const EMPTY_FORM = {
+  amount: "",
+  currency: BASE_CURRENCY as string,
+  project_id: "",
+  mode_of_payment: "BankTransfer",
+  donation_type: "General",
+  donation_date: new Date().toISOString().slice(0, 10),
+  transaction_id: "",
+};
+
+// "Submit a donation" action for the donor's donations page: the donation is sent for
+// admin approval together with a bank slip or screenshot
+export default function SubmitDonationButton({ projects }: { projects: Project[] }) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [proof, setProof] = useState<File | null>(null);
+
+  const close = () => {
+    if (submitting) return;
+    setOpen(false);
+    setForm(EMPTY_FORM);
+    setProof(null);
+  };
+
+  const onSubmit = async () => {
+    const amount = Number(form.amount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      toast.error("Enter an amount greater than 0");
+      return;
+    }
+    if (!form.project_id) {
+      toast.error("Select a project");
+      return;
+    }
+    if (!form.transaction_id.trim()) {
+      toast.error("Enter the transaction or bank reference ID");
+      return;
+    }
+    if (!proof) {
+      toast.error("Attach a bank slip or screenshot");
+      return;
+    }
+    if (proof.size > PAYMENT_PROOF_MAX_BYTES) {
+      toast.error("Proof must be 5 MB or smaller");
+      return;
+    }
+
+    const body = new FormData();
+    Object.entries(form).forEach(([key, value]) => body.append(key, value));
+    body.append("proof", proof);
+
+    setSubmitting(true);
+    try {
+      const res = await fetchWithCSRF("/api/donor/donations", {
+        method: "POST",
+        credentials: "include",
+        body,
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to submit donation");
+      }
+      toast.success("Donation submitted. You will receive a receipt once it is approved.");
+      setOpen(false);
+      setForm(EMPTY_FORM);
+      setProof(null);
+      router.refresh();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)}>Submit a donation</Button>
+
+      {open && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black/40" onClick={close} />
+          <div className="relative z-10 w-full max-w-lg rounded-lg bg-white p-6 shadow-lg">
+            <h3 className="text-lg font-semibold text-gray-900">Submit a Donation</h3>
+            <p className="mt-1 text-sm text-gray-600">
+              Already transferred a donation? Share the details and proof of payment for approval.
+            </p>
+            <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div>
+                <Label htmlFor="amount">Amount</Label>
+                <Input id="amount" type="number" min="0" step="0.01" value={form.amount} onChange={(e) => setForm({ ...form, amount: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="currency">Currency</Label>
+                <select
+                  id="currency"
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={form.currency}
+                  onChange={(e) => setForm({ ...form, currency: e.target.value })}
+                >
+                  {DONATION_CURRENCIES.map((c) => (
+                    <option key={c} value={c}>{c}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="sm:col-span-2">
+                <Label htmlFor="project_id">Project</Label>
+                <select
+                  id="project_id"
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={form.project_id}
+                  onChange={(e) => setForm({ ...form, project_id: e.target.value })}
+                >
+                  <option value="" disabled>Select a project</option>
+                  {projects.map((p) => (
+                    <option key={p.project_id} value={p.project_id}>{p.project_name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="donation_type">Donation Type</Label>
+                <select
+                  id="donation_type"
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={form.donation_type}
+                  onChange={(e) => setForm({ ...form, donation_type: e.target.value })}
+                >
+                  <option value="Zakat">Zakat</option>
+                  <option value="Sadqa">Sadqa</option>
+                  <option value="General">General</option>
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="mode_of_payment">Mode of Payment</Label>
+                <select
+                  id="mode_of_payment"
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={form.mode_of_payment}
+                  onChange={(e) => setForm({ ...form, mode_of_payment: e.target.value })}
+                >
+                  <option value="BankTransfer">Bank Transfer</option>
+                  <option value="Online">Online</option>
+                  <option value="CreditCard">Credit Card</option>
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="donation_date">Date of Payment</Label>
+                <Input
+                  id="donation_date"
+                  type="date"
+                  max={new Date().toISOString().slice(0, 10)}
+                  value={form.donation_date}
+                  onChange={(e) => setForm({ ...form, donation_date: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="transaction_id">Transaction ID</Label>
+                <Input
+                  id="transaction_id"
+                  placeholder="Bank reference number"
+                  value={form.transaction_id}
+                  onChange={(e) => setForm({ ...form, transaction_id: e.target.value })}
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <Label htmlFor="proof">Bank Slip or Screenshot</Label>
+                <Input
+                  id="proof"
+                  type="file"
+                  accept={Object.keys(PAYMENT_PROOF_TYPES).join(",")}
+                  onChange={(e) => setProof(e.target.files?.[0] ?? null)}
+                />
+                <p className="mt-1 text-xs text-gray-500">JPG, PNG, WebP or PDF, up to 5 MB. Only foundation staff can view it.</p>
+              </div>
+            </div>
+            <div className="mt-6 flex justify-end gap-3">
+              <Button variant="secondary" onClick={close} disabled={submitting}>Cancel</Button>
+              <Button onClick={onSubmit} disabled={submitting}>{submitting ? "Submitting..." : "Submit for Approval"}</Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
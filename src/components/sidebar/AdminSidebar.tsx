@@ -2,7 +2,7 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { Home, Settings, Users, Shield, Banknote, UserCheck, BarChart3, Target, DollarSign, FileText, Calendar } from 'lucide-react';
+import { Home, Settings, Users, Shield, Banknote, UserCheck, BarChart3, Target, DollarSign, FileText, Calendar, Clock, ScanLine } from 'lucide-react';
 
 export default function AdminSidebar() {
   const pathname = usePathname();
@@ -12,12 +12,23 @@ export default function AdminSidebar() {
       <SidebarLink href="/admin/dashboard" icon={<Home className="h-5 w-5" />} active={pathname?.startsWith('/admin/dashboard')}>Dashboard</SidebarLink>
       <SidebarLink href="/admin/donors" icon={<Banknote className="h-5 w-5" />} active={pathname?.startsWith('/admin/donors')}>Donors</SidebarLink>
       <SidebarLink href="/admin/volunteers" icon={<UserCheck className="h-5 w-5" />} active={pathname?.startsWith('/admin/volunteers')}>Volunteers</SidebarLink>
+      <SidebarLink href="/admin/volunteers/activities" icon={<Clock className="h-5 w-5" />} active={pathname?.startsWith('/admin/volunteers/activities')} isSubItem>Activity Approvals</SidebarLink>
       <SidebarLink href="/admin/events" icon={<Calendar className="h-5 w-5" />} active={pathname?.startsWith('/admin/events')}>Events</SidebarLink>
+      <SidebarLink href="/admin/events/checkin" icon={<ScanLine className="h-5 w-5" />} active={pathname?.startsWith('/admin/events/checkin')} isSubItem>Check-in</SidebarLink>
       <SidebarLink href="/admin/members" icon={<Users className="h-5 w-5" />} active={pathname?.startsWith('/admin/members')}>Members</SidebarLink>
       <SidebarLink href="/admin/programs" icon={<Target className="h-5 w-5" />} active={pathname?.startsWith('/admin/programs')}>Programs</SidebarLink>
       <SidebarLink href="/admin/financials" icon={<DollarSign className="h-5 w-5" />} active={pathname?.startsWith('/admin/financials') || pathname?.startsWith('/donations')}>Financials</SidebarLink>
       <SidebarLink href="/admin/financials/donations" icon={<Banknote className="h-5 w-5" />} active={pathname?.startsWith('/admin/financials/donations')} isSubItem>Donations</SidebarLink>
       <SidebarLink href="/admin/financials/expenses" icon={<FileText className="h-5 w-5" />} active={pathname?.startsWith('/admin/financials/expenses')} isSubItem>Expenses</SidebarLink>
+      <SidebarLink href="/admin/financials/funds" icon={<DollarSign className="h-5 w-5" />} active={pathname?.startsWith('/admin/financials/funds')} isSubItem>Funds</SidebarLink>
+      <SidebarLink href="/admin/financials/ledger" icon={<FileText className="h-5 w-5" />} active={pathname?.startsWith('/admin/financials/ledger')} isSubItem>Ledger</SidebarLink>
+      <SidebarLink href="/admin/financials/campaigns" icon={<Target className="h-5 w-5" />} active={pathname?.startsWith('/admin/financials/campaigns')} isSubItem>Campaigns</SidebarLink>
+      <SidebarLink href="/admin/financials/pledges" icon={<Banknote className="h-5 w-5" />} active={pathname?.startsWith('/admin/financials/pledges')} isSubItem>Pledges</SidebarLink>
+      <SidebarLink href="/admin/financials/periods" icon={<Calendar className="h-5 w-5" />} active={pathname?.startsWith('/admin/financials/periods')} isSubItem>Periods</SidebarLink>
+      <SidebarLink href="/admin/financials/statements" icon={<FileText className="h-5 w-5" />} active={pathname?.startsWith('/admin/financials/statements')} isSubItem>Statements</SidebarLink>
+      <SidebarLink href="/admin/financials/exchange-rates" icon={<DollarSign className="h-5 w-5" />} active={pathname?.startsWith('/admin/financials/exchange-rates')} isSubItem>Exchange Rates</SidebarLink>
+      <SidebarLink href="/admin/financials/import" icon={<FileText className="h-5 w-5" />} active={pathname?.startsWith('/admin/financials/import')} isSubItem>Import</SidebarLink>
+      <SidebarLink href="/admin/financials/reconciliation" icon={<Banknote className="h-5 w-5" />} active={pathname?.startsWith('/admin/financials/reconciliation')} isSubItem>Reconciliation</SidebarLink>
       <SidebarLink href="/admin/reports" icon={<BarChart3 className="h-5 w-5" />} active={pathname?.startsWith('/admin/reports')}>Reports</SidebarLink>
       <SidebarLink href="/admin/settings" icon={<Settings className="h-5 w-5" />} active={pathname?.startsWith('/admin/settings')}>Settings</SidebarLink>
       <div className="mt-4 border-t pt-4">
@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+// Row of get_volunteer_event_shifts
+type VolunteerShift = {
+  shift_id: string;
+  role_name: string;
+  starts_at: string;
+  ends_at: string;
+  required_count: number;
+  notes: string | null;
+  filled_count: number;
+  is_signed_up: boolean;
+};
+
+interface EventShiftsPanelProps {
+  eventId: string;
+  eventName: string;
+  onClose: () => void;
+  // Called after a sign-up changes so the dashboard can refresh its counts
+  onChange: () => void;
+}
+
+const formatWindow = (startsAt: string, endsAt: string) => {
+  const start = new Date(startsAt);
+  const end = new Date(endsAt);
+  const day = start.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+  const time = (d: Date) => d.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+  return `${day}, ${time(start)}–${time(end)}`;
+};
+
+export default function EventShiftsPanel({ eventId, eventName, onClose, onChange }: EventShiftsPanelProps) {
+  const [shifts, setShifts] = useState<VolunteerShift[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pending, setPending] = useState<string | null>(null);
+
+  async function loadShifts() {
+    try {
+      const res = await fetch(`/api/volunteer/events/${eventId}/shifts`, { headers: { 'Cache-Control': 'no-cache' } });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to load shifts");
+      setShifts(data.shifts || []);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to load shifts");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadShifts();
+  }, [eventId]);
+
+  const toggleShift = async (shift: VolunteerShift, join: boolean) => {
+    setPending(shift.shift_id);
+    try {
+      const res = await fetchWithCSRF(`/api/volunteer/shifts/${shift.shift_id}/signup`, {
+        method: join ? "POST" : "DELETE",
+        credentials: "include",
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        // Overlap conflicts come back with the clashing shift in the message
+        throw new Error(data?.error || (join ? "Failed to sign up for shift" : "Failed to leave shift"));
+      }
+      toast.success(join ? `Signed up for ${shift.role_name}` : `Left the ${shift.role_name} shift`);
+      await loadShifts();
+      onChange();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Unexpected error");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} />
+      <div className="relative z-10 w-full max-w-3xl rounded-lg bg-white p-6 shadow-lg">
+        <h3 className="text-lg font-semibold text-gray-900">Shifts — {eventName}</h3>
+        <p className="mt-1 text-sm text-gray-600">Pick the shifts you can cover. Shifts that overlap each other cannot both be taken.</p>
+        <div className="mt-4 max-h-[60vh] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Role</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead className="text-center">Filled</TableHead>
+                <TableHead className="text-right" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="h-16 text-center text-sm text-gray-600">Loading…</TableCell>
+                </TableRow>
+              ) : shifts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="h-16 text-center text-sm text-gray-600">
+                    This event has no shifts.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                shifts.map((s) => {
+                  const full = Number(s.filled_count) >= s.required_count;
+                  const ended = new Date(s.ends_at) <= new Date();
+                  return (
+                    <TableRow key={s.shift_id}>
+                      <TableCell>
+                        <div className="font-medium">{s.role_name}</div>
+                        {s.notes && <div className="text-xs text-gray-500">{s.notes}</div>}
+                      </TableCell>
+                      <TableCell>{formatWindow(s.starts_at, s.ends_at)}</TableCell>
+                      <TableCell className="text-center">{s.filled_count} / {s.required_count}</TableCell>
+                      <TableCell className="text-right">
+                        {s.is_signed_up ? (
+                          <div className="flex items-center justify-end gap-2">
+                            <Badge>Signed up</Badge>
+                            <Button size="sm" variant="outline" disabled={pending === s.shift_id || ended} onClick={() => toggleShift(s, false)}>
+                              Leave
+                            </Button>
+                          </div>
+                        ) : (
+                          <Button size="sm" disabled={pending === s.shift_id || full || ended} onClick={() => toggleShift(s, true)}>
+                            {ended ? 'Ended' : full ? 'Full' : 'Sign Up'}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        <div className="mt-6 flex justify-end">
+          <Button variant="secondary" onClick={onClose}>Close</Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import {
+  ACTIVITY_TYPES,
+  ACTIVITY_TYPE_LABELS,
+  SITE_STATUSES,
+  SITE_STATUS_LABELS,
+  type ActivityStatus,
+  type ActivityType,
+  type SiteStatus,
+} from "@/lib/volunteers/activities";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+// Row of get_my_volunteer_activity_requests
+export type VolunteerActivityRequest = {
+  volunteer_activity_request_id: string;
+  event_id: string | null;
+  event_name: string | null;
+  event_start_date: string | null;
+  hours_contributed: number;
+  type_of_activity: ActivityType;
+  people_helped: number | null;
+  site_status: SiteStatus;
+  description: string | null;
+  volunteer_activity_status: ActivityStatus;
+  review_comments: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string | null;
+};
+
+// Row of get_volunteer_loggable_events
+export type LoggableEvent = { event_id: string; event_name: string; start_date: string; site_status: SiteStatus };
+
+const STATUS_LABELS: Record<ActivityStatus, string> = {
+  pending: "Awaiting approval",
+  approved: "Approved",
+  revised: "Changes requested",
+  rejected: "Rejected",
+};
+
+const EMPTY_FORM = {
+  event_id: "",
+  hours_contributed: "",
+  type_of_activity: "field_work" as ActivityType,
+  people_helped: "",
+  site_status: "on_site" as SiteStatus,
+  description: "",
+};
+
+// The volunteer's logged hours with their review status; new hours and revisions go to the admin queue
+export default function VolunteerActivityLog({
+  initialRequests,
+  events,
+}: {
+  initialRequests: VolunteerActivityRequest[];
+  events: LoggableEvent[];
+}) {
+  const router = useRouter();
+  const [requests, setRequests] = useState(initialRequests);
+  const [open, setOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [submitting, setSubmitting] = useState(false);
+
+  const openNew = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setOpen(true);
+  };
+
+  const openRevision = (r: VolunteerActivityRequest) => {
+    setEditingId(r.volunteer_activity_request_id);
+    setForm({
+      event_id: r.event_id ?? "",
+      hours_contributed: String(r.hours_contributed),
+      type_of_activity: r.type_of_activity,
+      people_helped: r.people_helped === null ? "" : String(r.people_helped),
+      site_status: r.site_status,
+      description: r.description ?? "",
+    });
+    setOpen(true);
+  };
+
+  const close = () => {
+    if (submitting) return;
+    setOpen(false);
+  };
+
+  const onSubmit = async () => {
+    const hours = Number(form.hours_contributed);
+    if (!form.event_id) {
+      toast.error("Select the event you volunteered at");
+      return;
+    }
+    if (!Number.isInteger(hours) || hours <= 0) {
+      toast.error("Enter the hours as a whole number greater than 0");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const res = await fetchWithCSRF(editingId ? `/api/volunteer/activities/${editingId}` : "/api/volunteer/activities", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          ...form,
+          hours_contributed: hours,
+          people_helped: form.people_helped === "" ? null : Number(form.people_helped),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to log hours");
+      }
+      toast.success(editingId ? "Resubmitted for approval" : "Hours submitted for approval");
+      setOpen(false);
+
+      const listRes = await fetch("/api/volunteer/activities", { headers: { "Cache-Control": "no-cache" } });
+      if (listRes.ok) {
+        const listData = await listRes.json();
+        setRequests(listData.requests || []);
+      }
+      router.refresh();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <section className="rounded-lg border border-gray-200 bg-white shadow-sm">
+      <div className="flex items-start justify-between gap-3 p-4 border-b border-gray-200">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">My Logged Hours</h2>
+          <p className="mt-1 text-sm text-gray-600">Hours count towards your totals once an admin approves them</p>
+        </div>
+        <Button onClick={openNew} disabled={events.length === 0}>Log Hours</Button>
+      </div>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Event</TableHead>
+              <TableHead>Activity</TableHead>
+              <TableHead className="text-right">Hours</TableHead>
+              <TableHead className="text-right">People Helped</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {requests.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="h-16 text-center text-sm text-gray-600">
+                  You have not logged any hours yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              requests.map((r) => (
+                <TableRow key={r.volunteer_activity_request_id}>
+                  <TableCell>
+                    <div className="font-medium">{r.event_name ?? "—"}</div>
+                    {r.event_start_date && (
+                      <div className="text-xs text-gray-500">{new Date(r.event_start_date).toLocaleDateString()}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div>{ACTIVITY_TYPE_LABELS[r.type_of_activity] ?? r.type_of_activity}</div>
+                    <div className="text-xs text-gray-500">{SITE_STATUS_LABELS[r.site_status] ?? r.site_status}</div>
+                  </TableCell>
+                  <TableCell className="text-right">{r.hours_contributed}</TableCell>
+                  <TableCell className="text-right">{r.people_helped ?? "—"}</TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={
+                        r.volunteer_activity_status === "approved"
+                          ? "default"
+                          : r.volunteer_activity_status === "rejected"
+                          ? "destructive"
+                          : r.volunteer_activity_status === "revised"
+                          ? "outline"
+                          : "secondary"
+                      }
+                    >
+                      {STATUS_LABELS[r.volunteer_activity_status]}
+                    </Badge>
+                    {r.review_comments && r.volunteer_activity_status !== "pending" && (
+                      <div className="mt-1 max-w-xs text-xs text-gray-600">{r.review_comments}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {r.volunteer_activity_status === "revised" && (
+                      <Button size="sm" variant="outline" onClick={() => openRevision(r)}>Edit &amp; Resubmit</Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {open && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black/40" onClick={close} />
+          <div className="relative z-10 w-full max-w-lg rounded-lg bg-white p-6 shadow-lg">
+            <h3 className="text-lg font-semibold text-gray-900">{editingId ? "Resubmit Hours" : "Log Hours"}</h3>
+            <p className="mt-1 text-sm text-gray-600">An admin reviews your hours before they are added to your totals.</p>
+            <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div className="md:col-span-2">
+                <Label htmlFor="event_id">Event</Label>
+                <select
+                  id="event_id"
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={form.event_id}
+                  onChange={(e) => {
+                    const event = events.find((ev) => ev.event_id === e.target.value);
+                    setForm({ ...form, event_id: e.target.value, site_status: event?.site_status ?? form.site_status });
+                  }}
+                >
+                  <option value="">Select an event</option>
+                  {events.map((ev) => (
+                    <option key={ev.event_id} value={ev.event_id}>
+                      {ev.event_name} ({new Date(ev.start_date).toLocaleDateString()})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="hours_contributed">Hours</Label>
+                <Input id="hours_contributed" type="number" min="1" step="1" value={form.hours_contributed} onChange={(e) => setForm({ ...form, hours_contributed: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="people_helped">People Helped</Label>
+                <Input id="people_helped" type="number" min="0" step="1" value={form.people_helped} onChange={(e) => setForm({ ...form, people_helped: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="type_of_activity">Activity</Label>
+                <select
+                  id="type_of_activity"
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={form.type_of_activity}
+                  onChange={(e) => setForm({ ...form, type_of_activity: e.target.value as ActivityType })}
+                >
+                  {ACTIVITY_TYPES.map((t) => (
+                    <option key={t} value={t}>{ACTIVITY_TYPE_LABELS[t]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="site_status">Where</Label>
+                <select
+                  id="site_status"
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2"
+                  value={form.site_status}
+                  onChange={(e) => setForm({ ...form, site_status: e.target.value as SiteStatus })}
+                >
+                  {SITE_STATUSES.map((s) => (
+                    <option key={s} value={s}>{SITE_STATUS_LABELS[s]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="description">What did you do?</Label>
+                <textarea
+                  id="description"
+                  rows={3}
+                  className="mt-2 block w-full rounded-md border border-gray-300 bg-white p-2 text-sm"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="mt-6 flex justify-end gap-3">
+              <Button variant="outline" onClick={close} disabled={submitting}>Cancel</Button>
+              <Button onClick={onSubmit} disabled={submitting}>
+                {submitting ? "Submitting..." : editingId ? "Resubmit" : "Submit"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
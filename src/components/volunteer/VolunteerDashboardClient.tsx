@@ -0,0 +1,300 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { fetchWithCSRF } from "@/lib/http/csrf-interceptor";
+import MetricCard from "@/components/admin/MetricCard";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { SITE_STATUS_LABELS, type SiteStatus } from "@/lib/volunteers/activities";
+import EventShiftsPanel from "@/components/volunteer/EventShiftsPanel";
+import VolunteerActivityLog, { type LoggableEvent, type VolunteerActivityRequest } from "@/components/volunteer/VolunteerActivityLog";
+
+type Metric = {
+  title: string;
+  value: string;
+  icon?: React.ReactNode;
+  accent: "green" | "blue" | "amber" | "rose";
+  subtext: string;
+};
+
+// Row of get_volunteer_monthly_hours (month is the first day of the month)
+export type MonthlyHours = { month: string; hours: number; activities: number };
+
+// Row of get_volunteer_upcoming_events
+export type UpcomingEvent = {
+  event_id: string;
+  event_name: string;
+  location: string | null;
+  aim_of_event: string | null;
+  start_date: string;
+  end_date: string | null;
+  site_status: SiteStatus;
+  volunteers_required: number | null;
+  registered_count: number;
+  my_registration_status: "registered" | "waitlisted" | "cancelled" | "released" | null;
+  my_waitlist_position: number | null;
+  shift_count: number;
+  my_shift_count: number;
+};
+
+// Personal check-in QR code (see lib/volunteers/checkin)
+export type CheckinPass = { code: string; qrDataUrl: string };
+
+interface VolunteerDashboardClientProps {
+  initialMetrics: Metric[];
+  initialMonthlyHours: MonthlyHours[];
+  initialYear: number;
+  upcomingEvents: UpcomingEvent[];
+  initialRequests: VolunteerActivityRequest[];
+  loggableEvents: LoggableEvent[];
+  checkinPass: CheckinPass | null;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+export default function VolunteerDashboardClient({
+  initialMetrics,
+  initialMonthlyHours,
+  initialYear,
+  upcomingEvents,
+  initialRequests,
+  loggableEvents,
+  checkinPass,
+}: VolunteerDashboardClientProps) {
+  const [year, setYear] = useState(initialYear);
+  const [monthly, setMonthly] = useState<MonthlyHours[]>(initialMonthlyHours);
+  const [loadingMonthly, setLoadingMonthly] = useState(false);
+  const [signingUp, setSigningUp] = useState<string | null>(null);
+  const [shiftEvent, setShiftEvent] = useState<UpcomingEvent | null>(null);
+  const router = useRouter();
+
+  // Reload the chart when another year is picked
+  useEffect(() => {
+    if (year === initialYear) {
+      setMonthly(initialMonthlyHours);
+      return;
+    }
+    let cancelled = false;
+    async function loadYear() {
+      setLoadingMonthly(true);
+      try {
+        const res = await fetch(`/api/volunteer/dashboard?year=${year}`, { headers: { 'Cache-Control': 'no-cache' } });
+        if (!res.ok) throw new Error(`Failed to load hours: ${res.status}`);
+        const data = await res.json();
+        if (!cancelled) setMonthly(data.monthly_hours || []);
+      } catch (e) {
+        if (!cancelled) console.error(e);
+      } finally {
+        if (!cancelled) setLoadingMonthly(false);
+      }
+    }
+    loadYear();
+    return () => { cancelled = true; };
+  }, [year, initialYear, initialMonthlyHours]);
+
+  const toggleRegistration = async (event: UpcomingEvent, join: boolean) => {
+    if (!join && !confirm(`Leave ${event.event_name}? Your place will go to the next volunteer on the waitlist.`)) return;
+    setSigningUp(event.event_id);
+    try {
+      const res = await fetchWithCSRF(`/api/volunteer/events/${event.event_id}/registration`, {
+        method: join ? "POST" : "DELETE",
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || (join ? "Failed to sign up" : "Failed to leave event"));
+      }
+      if (!join) {
+        toast.success(`You have left ${event.event_name}`);
+      } else if (data.registration?.status === "waitlisted") {
+        toast.success(`${event.event_name} is full. You are #${data.registration.waitlist_position} on the waitlist.`);
+      } else {
+        toast.success(`You are signed up for ${event.event_name}`);
+      }
+      router.refresh();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      toast.error(msg);
+    } finally {
+      setSigningUp(null);
+    }
+  };
+
+  const maxHours = useMemo(() => monthly.reduce((m, x) => Math.max(m, Number(x.hours) || 0), 0), [monthly]);
+  const yearHours = useMemo(() => monthly.reduce((sum, x) => sum + (Number(x.hours) || 0), 0), [monthly]);
+
+  return (
+    <>
+      {/* Metrics Grid */}
+      <section className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {initialMetrics.map((m) => (
+          <MetricCard
+            key={m.title}
+            title={m.title}
+            value={m.value}
+            icon={m.icon}
+            accent={m.accent}
+            subtext={m.subtext}
+          />
+        ))}
+      </section>
+
+      {/* Monthly hours */}
+      <section className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+        <div className="mb-4 flex items-end justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Volunteer Hours Over Time</h2>
+            <p className="text-sm text-gray-600">Approved hours per month · {yearHours.toLocaleString()} in {year}</p>
+          </div>
+          <select
+            aria-label="Year"
+            className="rounded-md border border-gray-300 bg-white p-2 text-sm"
+            value={year}
+            onChange={(e) => setYear(Number(e.target.value))}
+          >
+            {[0, 1, 2].map((offset) => (
+              <option key={offset} value={initialYear - offset}>{initialYear - offset}</option>
+            ))}
+          </select>
+        </div>
+        {loadingMonthly ? (
+          <div className="h-48 w-full animate-pulse rounded bg-gray-100" />
+        ) : maxHours === 0 ? (
+          <div className="h-48 w-full rounded border border-dashed border-gray-200 p-4 text-sm text-gray-600">
+            No approved hours in {year} yet.
+          </div>
+        ) : (
+          <div className="flex h-48 items-end gap-2">
+            {monthly.map((m) => {
+              const hours = Number(m.hours) || 0;
+              const label = new Date(m.month).toLocaleDateString(undefined, { month: 'short' });
+              return (
+                <div key={m.month} className="flex h-full flex-1 flex-col items-center justify-end">
+                  <span className="mb-1 text-xs text-gray-600">{hours > 0 ? hours : ''}</span>
+                  <div
+                    className="w-full rounded-t bg-emerald-500"
+                    style={{ height: `${(hours / maxHours) * 100}%` }}
+                    title={`${label}: ${hours} hour(s) across ${m.activities} activit${Number(m.activities) === 1 ? 'y' : 'ies'}`}
+                  />
+                  <span className="mt-1 text-xs text-gray-500">{label}</span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </section>
+
+      {/* Check-in pass */}
+      {checkinPass && (
+        <section className="flex flex-col items-center gap-4 rounded-lg border border-gray-200 bg-white p-4 shadow-sm sm:flex-row">
+          <img src={checkinPass.qrDataUrl} alt="Your check-in QR code" className="h-40 w-40" />
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Event Check-in Pass</h2>
+            <p className="mt-1 text-sm text-gray-600">
+              Show this code to the event coordinator when you arrive and again when you leave.
+              Your measured hours are logged for approval automatically.
+            </p>
+            <p className="mt-2 break-all font-mono text-xs text-gray-500">{checkinPass.code}</p>
+          </div>
+        </section>
+      )}
+
+      {/* Upcoming events */}
+      <section className="rounded-lg border border-gray-200 bg-white shadow-sm">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Upcoming Events</h2>
+          <p className="mt-1 text-sm text-gray-600">Active events that have not finished yet</p>
+        </div>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead className="text-center">Slots</TableHead>
+                <TableHead className="text-right" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {upcomingEvents.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-16 text-center text-sm text-gray-600">
+                    No upcoming events right now.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                upcomingEvents.map((e) => (
+                  <TableRow key={e.event_id}>
+                    <TableCell>
+                      <div className="font-medium">{e.event_name}</div>
+                      {e.aim_of_event && <div className="text-xs text-gray-500">{e.aim_of_event}</div>}
+                    </TableCell>
+                    <TableCell>
+                      {formatDate(e.start_date)}
+                      {e.end_date && e.end_date !== e.start_date && <> – {formatDate(e.end_date)}</>}
+                    </TableCell>
+                    <TableCell>
+                      <div>{e.location ?? '—'}</div>
+                      <Badge variant="secondary">{SITE_STATUS_LABELS[e.site_status] ?? e.site_status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-center">
+                      {e.volunteers_required != null ? `${e.registered_count} / ${e.volunteers_required}` : `${e.registered_count} signed up`}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {Number(e.shift_count) > 0 ? (
+                        <div className="flex items-center justify-end gap-2">
+                          {Number(e.my_shift_count) > 0 && (
+                            <Badge>{e.my_shift_count} shift{Number(e.my_shift_count) === 1 ? '' : 's'}</Badge>
+                          )}
+                          <Button size="sm" variant="outline" onClick={() => setShiftEvent(e)}>
+                            Shifts
+                          </Button>
+                        </div>
+                      ) : e.my_registration_status === 'registered' || e.my_registration_status === 'waitlisted' ? (
+                        <div className="flex items-center justify-end gap-2">
+                          <Badge variant={e.my_registration_status === 'registered' ? 'default' : 'outline'}>
+                            {e.my_registration_status === 'registered' ? 'Signed up' : `Waitlist #${e.my_waitlist_position ?? '?'}`}
+                          </Badge>
+                          <Button size="sm" variant="outline" disabled={signingUp === e.event_id} onClick={() => toggleRegistration(e, false)}>
+                            Leave
+                          </Button>
+                        </div>
+                      ) : (
+                        <Button size="sm" disabled={signingUp === e.event_id} onClick={() => toggleRegistration(e, true)}>
+                          {e.volunteers_required != null && Number(e.registered_count) >= e.volunteers_required ? 'Join Waitlist' : 'Sign Up'}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </section>
+
+      {shiftEvent && (
+        <EventShiftsPanel
+          eventId={shiftEvent.event_id}
+          eventName={shiftEvent.event_name}
+          onClose={() => setShiftEvent(null)}
+          onChange={() => router.refresh()}
+        />
+      )}
+
+      <VolunteerActivityLog initialRequests={initialRequests} events={loggableEvents} />
+    </>
+  );
+}
@@ -11,7 +11,9 @@ type PublicStartsWith =
   | '/signup' 
   | '/forgot-password' 
   | '/reset-password' 
-  | '/verify-email';
+  | '/verify-email'
+  | '/verify/receipt/'
+  | '/api/verify/receipt/';
 
 type ProtectedStartsWith = 
   | '/dashboard' 
@@ -49,7 +51,10 @@ export const ROUTE_CONFIG = {
       '/signup',
       '/forgot-password',
       '/reset-password',
-      '/verify-email'
+      '/verify-email',
+      // Public receipt verification (QR code on donation receipts)
+      '/verify/receipt/',
+      '/api/verify/receipt/'
     ] as const
   },
   
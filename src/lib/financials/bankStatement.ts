@@ -0,0 +1,196 @@
+import { parseCSV } from './spreadsheet';
+import { normalizeImportDate } from './donationImport';
+
+// Bank statement readers for reconciliation (CSV, SWIFT MT940, ISO 20022 camt.053).
+// Only credits (deposits) are kept: donations never appear as debits.
+
+export type BankStatementFormat = 'csv' | 'mt940' | 'camt053';
+
+export type BankStatementLine = {
+  line_number: number;
+  value_date: string;
+  amount: number;
+  currency: string | null;
+  reference: string;
+  description: string;
+};
+
+export type ParsedBankStatement = {
+  format: BankStatementFormat;
+  account: string | null;
+  currency: string | null;
+  lines: BankStatementLine[];
+};
+
+export class BankStatementError extends Error {}
+
+export const BANK_STATEMENT_MAX_BYTES = 5 * 1024 * 1024;
+
+export function parseBankStatement(fileName: string, text: string): ParsedBankStatement {
+  const content = text.replace(/^﻿/, '');
+  const trimmed = content.trimStart();
+
+  let statement: ParsedBankStatement;
+  if (trimmed.startsWith('<') && /camt\.053|<BkToCstmrStmt/.test(content)) {
+    statement = parseCamt053(content);
+  } else if (/^:20:/m.test(content) && /^:61:/m.test(content)) {
+    statement = parseMT940(content);
+  } else if (/\.(csv|txt)$/i.test(fileName)) {
+    statement = parseStatementCSV(content);
+  } else {
+    throw new BankStatementError('Unrecognised statement. Upload a CSV, MT940 (.sta/.940) or camt.053 (.xml) file.');
+  }
+
+  if (statement.lines.length === 0) {
+    throw new BankStatementError('The statement has no deposits to reconcile.');
+  }
+  return statement;
+}
+
+const parseAmount = (value: string) => {
+  const cleaned = value.replace(/[^\d.,-]/g, '');
+  // "1.234,56" (continental) vs "1,234.56"
+  const normalized = /,\d{1,2}$/.test(cleaned) ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, '');
+  return Number(normalized);
+};
+
+const HEADER_HINTS: Record<'date' | 'credit' | 'amount' | 'reference' | 'description' | 'currency', string[]> = {
+  date: ['value date', 'transaction date', 'posting date', 'booking date', 'date'],
+  credit: ['credit', 'deposit', 'paid in', 'cr'],
+  amount: ['amount'],
+  reference: ['transaction id', 'reference', 'ref', 'cheque', 'instrument'],
+  description: ['description', 'narration', 'details', 'particulars', 'remarks'],
+  currency: ['currency', 'ccy'],
+};
+
+function parseStatementCSV(text: string): ParsedBankStatement {
+  const [header = [], ...rows] = parseCSV(text);
+  const normalized = header.map((h) => h.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim());
+  const find = (key: keyof typeof HEADER_HINTS) => {
+    for (const hint of HEADER_HINTS[key]) {
+      const index = normalized.indexOf(hint);
+      if (index >= 0) return index;
+    }
+    return normalized.findIndex((h) => HEADER_HINTS[key].some((hint) => hint.length > 2 && h.includes(hint)));
+  };
+
+  const dateCol = find('date');
+  const creditCol = find('credit');
+  const amountCol = creditCol >= 0 ? creditCol : find('amount');
+  if (dateCol < 0 || amountCol < 0) {
+    throw new BankStatementError('The CSV needs a date column and a credit or amount column.');
+  }
+  const referenceCol = find('reference');
+  const descriptionCol = find('description');
+  const currencyCol = find('currency');
+
+  const lines: BankStatementLine[] = [];
+  rows.forEach((cells, i) => {
+    const amount = parseAmount(cells[amountCol] ?? '');
+    if (!Number.isFinite(amount) || amount <= 0) return;
+    lines.push({
+      line_number: i + 2,
+      value_date: normalizeImportDate(cells[dateCol] ?? ''),
+      amount,
+      currency: currencyCol >= 0 ? (cells[currencyCol] ?? '').trim().toUpperCase() || null : null,
+      reference: referenceCol >= 0 ? (cells[referenceCol] ?? '').trim() : '',
+      description: descriptionCol >= 0 ? (cells[descriptionCol] ?? '').trim() : '',
+    });
+  });
+
+  return { format: 'csv', account: null, currency: null, lines };
+}
+
+// :61: YYMMDD[MMDD] [R]C|D [funds code] amount N|F|S+type customer-ref[//bank-ref]
+const MT940_61 = /^(\d{2})(\d{2})(\d{2})(?:\d{4})?(R?[CD])([A-Z])?(\d+,\d*)[NSF][A-Z0-9]{3}([^\n/]*)(?:\/\/([^\n]*))?/;
+
+function parseMT940(text: string): ParsedBankStatement {
+  // Split into tagged fields; untagged lines continue the previous field
+  const fields: { tag: string; value: string }[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const m = /^:(\d{2}[A-Z]?):(.*)$/.exec(raw);
+    if (m) fields.push({ tag: m[1], value: m[2] });
+    else if (fields.length > 0 && raw.trim() !== '' && raw.trim() !== '-' && !raw.startsWith('{')) {
+      fields[fields.length - 1].value += `\n${raw}`;
+    }
+  }
+
+  let account: string | null = null;
+  let currency: string | null = null;
+  const lines: BankStatementLine[] = [];
+  let last: BankStatementLine | null = null;
+
+  fields.forEach(({ tag, value }, index) => {
+    if (tag === '25') account = value.trim();
+    if ((tag === '60F' || tag === '60M') && !currency) currency = value.slice(7, 10);
+    if (tag === '61') {
+      last = null;
+      const m = MT940_61.exec(value);
+      // credits only; 'RC' is the reversal of a credit
+      if (!m || m[4] !== 'C') return;
+      const line: BankStatementLine = {
+        line_number: index + 1,
+        value_date: `20${m[1]}-${m[2]}-${m[3]}`,
+        amount: Number(m[6].replace(',', '.')),
+        currency: null,
+        reference: (m[7] ?? '').trim() === 'NONREF' ? (m[8] ?? '').trim() : (m[7] ?? '').trim(),
+        description: value.split('\n').slice(1).join(' ').trim(),
+      };
+      lines.push(line);
+      last = line;
+    }
+    if (tag === '86' && last) {
+      const info = value.replace(/\n/g, '').replace(/\?\d{2}/g, ' ').replace(/\s+/g, ' ').trim();
+      last.description = [last.description, info].filter(Boolean).join(' ');
+      last = null;
+    }
+  });
+
+  return { format: 'mt940', account, currency, lines };
+}
+
+const xmlText = (xml: string, tag: string) => {
+  const m = new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([^<]*)</(?:\\w+:)?${tag}>`).exec(xml);
+  return m ? m[1].replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').trim() : '';
+};
+
+function parseCamt053(xml: string): ParsedBankStatement {
+  const accountBlock = /<(?:\w+:)?Acct>[\s\S]*?<\/(?:\w+:)?Acct>/.exec(xml)?.[0] ?? '';
+  const account = xmlText(accountBlock, 'IBAN') || xmlText(accountBlock, 'Id') || null;
+  const currency = xmlText(accountBlock, 'Ccy') || null;
+
+  const lines: BankStatementLine[] = [];
+  const entries = xml.match(/<(?:\w+:)?Ntry>[\s\S]*?<\/(?:\w+:)?Ntry>/g) ?? [];
+  entries.forEach((entry, i) => {
+    if (xmlText(entry, 'CdtDbtInd') !== 'CRDT') return;
+    if (xmlText(entry, 'RvslInd') === 'true') return;
+
+    const amountTag = /<(?:\w+:)?Amt\b([^>]*)>([\d.]+)<\/(?:\w+:)?Amt>/.exec(entry);
+    const valueDate = /<(?:\w+:)?ValDt>[\s\S]*?<\/(?:\w+:)?ValDt>/.exec(entry)?.[0];
+    const bookingDate = /<(?:\w+:)?BookgDt>[\s\S]*?<\/(?:\w+:)?BookgDt>/.exec(entry)?.[0];
+    const date = xmlText(valueDate ?? '', 'Dt') || xmlText(bookingDate ?? '', 'Dt') || xmlText(valueDate ?? bookingDate ?? '', 'DtTm');
+
+    const endToEnd = xmlText(entry, 'EndToEndId');
+    const reference =
+      (endToEnd && endToEnd !== 'NOTPROVIDED' ? endToEnd : '') ||
+      xmlText(entry, 'TxId') ||
+      xmlText(entry, 'AcctSvcrRef');
+    const description = [
+      ...(entry.match(/<(?:\w+:)?Ustrd>[^<]*<\/(?:\w+:)?Ustrd>/g) ?? []).map((u) => xmlText(u, 'Ustrd')),
+      xmlText(entry, 'AddtlNtryInf'),
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+    lines.push({
+      line_number: i + 1,
+      value_date: date.slice(0, 10),
+      amount: Number(amountTag?.[2] ?? NaN),
+      currency: /Ccy="([A-Z]{3})"/.exec(amountTag?.[1] ?? '')?.[1] ?? null,
+      reference,
+      description,
+    });
+  });
+
+  return { format: 'camt053', account, currency, lines: lines.filter((l) => Number.isFinite(l.amount) && l.amount > 0) };
+}
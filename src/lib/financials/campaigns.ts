@@ -0,0 +1,53 @@
+// Fundraising campaigns (public.campaigns): a PKR goal over a date window, optionally limited to projects.
+
+export const CAMPAIGN_STATUSES = ['Upcoming', 'Running', 'Ended', 'Closed'] as const;
+
+export type CampaignStatus = (typeof CAMPAIGN_STATUSES)[number];
+
+// One row of public.list_campaigns
+export type CampaignSummary = {
+  campaign_id: string;
+  name: string;
+  description: string | null;
+  goal_amount: number;
+  start_date: string;
+  end_date: string;
+  is_active: boolean;
+  status: CampaignStatus;
+  projects: Array<{ project_id: string; project_name: string }>;
+  raised: number; // PKR, cash only
+  in_kind_value: number;
+  donation_count: number;
+  donor_count: number;
+  percent_of_goal: number;
+};
+
+export type CampaignDay = {
+  date: string;
+  amount: number;
+  in_kind_value: number;
+  donations: number;
+  cumulative: number;
+};
+
+// public.get_campaign_progress
+export type CampaignProgress = CampaignSummary & {
+  daily: CampaignDay[];
+  pending_requests: number;
+};
+
+// A campaign can be named on a new request while it is open and has not ended
+export function isCampaignSelectable(campaign: Pick<CampaignSummary, 'status'>): boolean {
+  return campaign.status === 'Running' || campaign.status === 'Upcoming';
+}
+
+// Whether a campaign accepts a request for this project and donation date (mirrors the DB trigger)
+export function campaignAccepts(
+  campaign: Pick<CampaignSummary, 'start_date' | 'end_date' | 'projects'>,
+  projectId: string | undefined,
+  donationDate: string
+): boolean {
+  if (donationDate < campaign.start_date || donationDate > campaign.end_date) return false;
+  if (campaign.projects.length === 0) return true;
+  return !!projectId && campaign.projects.some((p) => p.project_id === projectId);
+}
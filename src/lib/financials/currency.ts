@@ -0,0 +1,17 @@
+// Currencies accepted on donations (public.enum_donation_currency).
+// PKR is the base currency: totals, dashboards and statements are reported in PKR.
+
+export const BASE_CURRENCY = 'PKR';
+
+export const DONATION_CURRENCIES = ['PKR', 'USD', 'GBP', 'AED', 'SAR'] as const;
+
+export type DonationCurrency = (typeof DONATION_CURRENCIES)[number];
+
+export function isDonationCurrency(value: unknown): value is DonationCurrency {
+  return typeof value === 'string' && (DONATION_CURRENCIES as readonly string[]).includes(value);
+}
+
+export function formatMoney(amount: number | string | null | undefined, currency: string = BASE_CURRENCY): string {
+  const value = parseFloat(String(amount ?? '0'));
+  return `${currency} ${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
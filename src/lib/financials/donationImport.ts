@@ -0,0 +1,174 @@
+// Donation import wizard: spreadsheet columns -> donation request fields (see
+// public.validate_donation_import for the server-side checks).
+
+export const IMPORT_MAX_ROWS = 2000;
+
+export const IMPORT_MAX_BYTES = 5 * 1024 * 1024;
+
+export const IMPORT_FIELDS = [
+  { key: 'donor_number', label: 'Donor Number', hints: ['donor number', 'donor no', 'donor id'] },
+  { key: 'phone', label: 'Phone', hints: ['phone', 'mobile', 'contact', 'cell'] },
+  { key: 'cnic', label: 'CNIC', hints: ['cnic', 'nic', 'national id'] },
+  { key: 'amount', label: 'Amount', hints: ['amount', 'value', 'sum'] },
+  { key: 'currency', label: 'Currency', hints: ['currency', 'ccy'] },
+  { key: 'category_name', label: 'Category', hints: ['category'] },
+  { key: 'project_name', label: 'Project', hints: ['project', 'program', 'programme'] },
+  { key: 'mode_of_payment', label: 'Payment Mode', hints: ['mode of payment', 'payment mode', 'payment method', 'mode', 'method'] },
+  { key: 'donation_type', label: 'Donation Type', hints: ['donation type', 'type'] },
+  { key: 'donation_date', label: 'Donation Date', hints: ['donation date', 'date', 'received on'] },
+  { key: 'transaction_id', label: 'Transaction ID', hints: ['transaction id', 'transaction', 'reference', 'ref', 'txn'] },
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number]['key'];
+
+// Field -> column index in the sheet (null = not mapped)
+export type ImportColumnMapping = Record<ImportField, number | null>;
+
+export type ImportRow = { row: number } & Record<ImportField, string>;
+
+// Columns every row needs; the donor needs at least one of donor_number, phone or cnic
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = [
+  'amount',
+  'category_name',
+  'project_name',
+  'mode_of_payment',
+  'donation_type',
+  'donation_date',
+];
+
+export const DONOR_IMPORT_FIELDS: ImportField[] = ['donor_number', 'phone', 'cnic'];
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Best-effort mapping from header names; exact hint matches win over partial ones
+export function guessColumnMapping(headers: string[]): ImportColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as ImportColumnMapping;
+
+  for (const field of IMPORT_FIELDS) {
+    let index = normalized.findIndex((h, i) => !used.has(i) && (field.hints as readonly string[]).includes(h));
+    if (index < 0) {
+      index = normalized.findIndex((h, i) => !used.has(i) && field.hints.some((hint) => h.includes(hint)));
+    }
+    mapping[field.key] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  }
+
+  return mapping;
+}
+
+export function missingImportFields(mapping: ImportColumnMapping): string[] {
+  const missing: string[] = REQUIRED_IMPORT_FIELDS.filter((f) => mapping[f] === null).map(
+    (f) => IMPORT_FIELDS.find((field) => field.key === f)!.label
+  );
+  if (DONOR_IMPORT_FIELDS.every((f) => mapping[f] === null)) {
+    missing.unshift('Donor Number, Phone or CNIC');
+  }
+  return missing;
+}
+
+const PAYMENT_MODES: Record<string, string> = {
+  online: 'Online',
+  banktransfer: 'BankTransfer',
+  bank: 'BankTransfer',
+  transfer: 'BankTransfer',
+  creditcard: 'CreditCard',
+  card: 'CreditCard',
+};
+
+const DONATION_TYPES: Record<string, string> = {
+  zakat: 'Zakat',
+  sadqa: 'Sadqa',
+  sadaqah: 'Sadqa',
+  sadqah: 'Sadqa',
+  general: 'General',
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Accepts YYYY-MM-DD, DD/MM/YYYY (also with - or .) and Excel serial day numbers.
+// Anything else is passed through so the dry run reports it.
+export function normalizeImportDate(value: string): string {
+  const v = value.trim();
+  let m = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(v);
+  if (m) return `${m[1]}-${pad(Number(m[2]))}-${pad(Number(m[3]))}`;
+
+  m = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(v);
+  if (m) return `${m[3]}-${pad(Number(m[2]))}-${pad(Number(m[1]))}`;
+
+  if (/^\d{5}(\.\d+)?$/.test(v)) {
+    // Excel's day 0 is 1899-12-30 (accounting for its 1900 leap year bug)
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(v)) * 86400000);
+    return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  }
+
+  return v;
+}
+
+const lookup = (table: Record<string, string>, value: string) =>
+  table[value.toLowerCase().replace(/[^a-z]/g, '')] ?? value.trim();
+
+export function buildImportRows(rows: string[][], mapping: ImportColumnMapping): ImportRow[] {
+  return rows.map((cells, i) => {
+    const get = (field: ImportField) => {
+      const index = mapping[field];
+      return index === null ? '' : (cells[index] ?? '').trim();
+    };
+
+    return {
+      // spreadsheet row number, counting the header as row 1
+      row: i + 2,
+      donor_number: get('donor_number'),
+      phone: get('phone'),
+      cnic: get('cnic'),
+      amount: get('amount'),
+      currency: get('currency').toUpperCase(),
+      category_name: get('category_name'),
+      project_name: get('project_name'),
+      mode_of_payment: lookup(PAYMENT_MODES, get('mode_of_payment')),
+      donation_type: lookup(DONATION_TYPES, get('donation_type')),
+      donation_date: normalizeImportDate(get('donation_date')),
+      transaction_id: get('transaction_id'),
+    };
+  });
+}
+
+export type ImportRowResult = {
+  row_number: number;
+  status: 'valid' | 'error' | 'duplicate';
+  errors: string[];
+  duplicate_of: 'existing' | 'file' | null;
+  donor_number: string | null;
+  donor_name: string | null;
+  amount: number | null;
+  currency: string | null;
+  category_name: string | null;
+  project_name: string | null;
+  donation_date: string | null;
+  transaction_id: string | null;
+};
+
+export type ImportBatch = {
+  batch_id: string;
+  file_name: string | null;
+  row_count: number;
+  imported_count: number;
+  skipped_count: number;
+  pre_approved: boolean;
+  // Previous-year rows flagged for approval by a second admin
+  batch_approval_count: number;
+  // Current-year rows for which pre-approval was asked but ignored
+  pre_approve_ignored_count: number;
+  imported_by: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  created_at: string;
+};
+
+// Row of get_donation_import_batches
+export type ImportBatchSummary = Omit<ImportBatch, 'row_count' | 'pre_approved'> & {
+  imported_by_name: string | null;
+  approved_count: number;
+  awaiting_approval_count: number;
+};
@@ -0,0 +1,55 @@
+// Donor records (public.donors / public.enum_donor_type). Donors without a portal account keep
+// their own name and contact details; organisations are named by their company name.
+
+export const DONOR_TYPES = ['Individual', 'Organisation'] as const;
+
+export type DonorType = (typeof DONOR_TYPES)[number];
+
+export function isDonorType(value: unknown): value is DonorType {
+  return typeof value === 'string' && (DONOR_TYPES as readonly string[]).includes(value);
+}
+
+// Same keys as profiles.address
+export type DonorAddress = {
+  street?: string;
+  city?: string;
+  state?: string;
+  country?: string;
+  postalCode?: string;
+};
+
+// One row of public.search_donors_by_admin
+export type DonorSearchResult = {
+  donor_id: string;
+  user_id: string | null;
+  donor_number: string;
+  donor_type: DonorType;
+  full_name: string | null;
+  email: string | null;
+  phone_number: string | null;
+  address: DonorAddress | string | null;
+  ntn: string | null;
+  contact_person: string | null;
+  has_account: boolean;
+};
+
+export function formatDonorAddress(address: unknown): string {
+  if (!address) return '';
+  if (typeof address === 'string') return address;
+  if (typeof address !== 'object') return '';
+  const a = address as DonorAddress;
+  return [a.street, a.city, a.state, a.country, a.postalCode]
+    .map((part) => (part ?? '').trim())
+    .filter(Boolean)
+    .join(', ');
+}
+
+// FBR National Tax Number: seven digits and a check digit, e.g. 1234567-8
+export function isValidNtn(value: string): boolean {
+  return /^\d{7}-?\d$/.test(value.trim());
+}
+
+// 13-digit CNIC, with or without dashes (12345-1234567-1)
+export function isValidCnic(value: string): boolean {
+  return /^\d{5}-?\d{7}-?\d$/.test(value.trim());
+}
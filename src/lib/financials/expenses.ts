@@ -0,0 +1,29 @@
+// Expense invoices live in the private 'expense-invoices' bucket (admins only), grouped by year.
+
+export const EXPENSE_INVOICE_BUCKET = 'expense-invoices';
+
+export const EXPENSE_INVOICE_MAX_BYTES = 10 * 1024 * 1024;
+
+export const EXPENSE_INVOICE_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+};
+
+export const EXPENSE_STATUSES = ['Pending', 'Approved', 'Rejected'] as const;
+
+export type ExpenseStatus = (typeof EXPENSE_STATUSES)[number];
+
+export function isExpenseStatus(value: unknown): value is ExpenseStatus {
+  return typeof value === 'string' && (EXPENSE_STATUSES as readonly string[]).includes(value);
+}
+
+export function isExpenseInvoiceType(contentType: string): boolean {
+  return Object.prototype.hasOwnProperty.call(EXPENSE_INVOICE_TYPES, contentType);
+}
+
+export function getExpenseInvoiceStoragePath(expenseDate: string, contentType: string): string {
+  const id = globalThis.crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  return `${expenseDate.slice(0, 4)}/${id}.${EXPENSE_INVOICE_TYPES[contentType] ?? 'bin'}`;
+}
@@ -0,0 +1,42 @@
+// Financial years are labelled by their starting year (matches public.financial_year_of in the
+// database). The start month is configurable (financial_settings.fiscal_year_start_month) and
+// defaults to July, e.g. 2025 = 1 Jul 2025 - 30 Jun 2026.
+
+export const DEFAULT_FINANCIAL_YEAR_START_MONTH = 7; // July
+
+export const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+] as const;
+
+export function isFinancialYearStartMonth(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 12;
+}
+
+export function getFinancialYear(
+  date: Date | string = new Date(),
+  startMonth: number = DEFAULT_FINANCIAL_YEAR_START_MONTH
+): number {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  return d.getMonth() + 1 >= startMonth ? d.getFullYear() : d.getFullYear() - 1;
+}
+
+// A January start keeps the plain calendar year as the label
+export function formatFinancialYear(year: number, startMonth: number = DEFAULT_FINANCIAL_YEAR_START_MONTH): string {
+  if (startMonth === 1) return String(year);
+  return `${year}-${String((year + 1) % 100).padStart(2, '0')}`;
+}
+
+export function getFinancialYearRange(
+  year: number,
+  startMonth: number = DEFAULT_FINANCIAL_YEAR_START_MONTH
+): { start: string; end: string } {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const endMonth = startMonth === 1 ? 12 : startMonth - 1;
+  const endYear = startMonth === 1 ? year : year + 1;
+  const lastDay = new Date(Date.UTC(endYear, endMonth, 0)).getUTCDate();
+  return {
+    start: `${year}-${pad(startMonth)}-01`,
+    end: `${endYear}-${pad(endMonth)}-${pad(lastDay)}`,
+  };
+}
@@ -0,0 +1,36 @@
+// Restricted funds follow the donation type (public.enum_donation_type); disbursement purposes
+// mirror public.enum_disbursement_purpose.
+
+export const FUNDS = ['Zakat', 'Sadqa', 'General'] as const;
+
+export type Fund = (typeof FUNDS)[number];
+
+export function isFund(value: unknown): value is Fund {
+  return typeof value === 'string' && (FUNDS as readonly string[]).includes(value);
+}
+
+// The eight categories of Zakat recipients (Qur'an 9:60) come first; only those may draw on the Zakat fund.
+export const DISBURSEMENT_PURPOSES = [
+  { value: 'Poor', label: 'The poor (fuqara)', zakatEligible: true },
+  { value: 'Needy', label: 'The needy (masakin)', zakatEligible: true },
+  { value: 'ZakatAdministration', label: 'Zakat administrators (amileen)', zakatEligible: true },
+  { value: 'NewMuslims', label: 'Reconciling hearts (muallafat al-qulub)', zakatEligible: true },
+  { value: 'FreeingCaptives', label: 'Freeing captives (riqab)', zakatEligible: true },
+  { value: 'Debtors', label: 'Debtors (gharimeen)', zakatEligible: true },
+  { value: 'CauseOfAllah', label: 'In the cause of Allah (fi sabilillah)', zakatEligible: true },
+  { value: 'Wayfarer', label: 'Stranded travellers (ibn al-sabil)', zakatEligible: true },
+  { value: 'Welfare', label: 'General welfare', zakatEligible: false },
+  { value: 'ProjectSupport', label: 'Project support', zakatEligible: false },
+  { value: 'Operations', label: 'Operations', zakatEligible: false },
+  { value: 'Other', label: 'Other', zakatEligible: false },
+] as const;
+
+export type DisbursementPurpose = (typeof DISBURSEMENT_PURPOSES)[number]['value'];
+
+export function isDisbursementPurpose(value: unknown): value is DisbursementPurpose {
+  return typeof value === 'string' && DISBURSEMENT_PURPOSES.some((p) => p.value === value);
+}
+
+export function purposesForFund(fund: Fund) {
+  return fund === 'Zakat' ? DISBURSEMENT_PURPOSES.filter((p) => p.zakatEligible) : DISBURSEMENT_PURPOSES;
+}
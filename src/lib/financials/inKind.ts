@@ -0,0 +1,63 @@
+// In-kind (goods) donations: mode_of_payment 'InKind' with item lines valued in PKR.
+
+export const IN_KIND_PAYMENT_MODE = 'InKind';
+
+export const IN_KIND_MAX_ITEMS = 100;
+
+// Suggestions for the unit field; any non-empty unit is accepted
+export const IN_KIND_UNITS = ['pcs', 'kg', 'litre', 'box', 'pack', 'bag', 'carton', 'set'] as const;
+
+export type InKindItem = {
+  description: string;
+  quantity: number;
+  unit: string;
+  estimated_value: number; // PKR value of the whole line
+};
+
+// One row of public.get_in_kind_items
+export type InKindItemRow = InKindItem & {
+  line_no: number;
+  valuation_notes: string | null;
+};
+
+export function isInKindPaymentMode(value: unknown): boolean {
+  return value === IN_KIND_PAYMENT_MODE;
+}
+
+export function inKindItemsTotal(items: Array<Pick<InKindItem, 'estimated_value'>>): number {
+  return Math.round(items.reduce((sum, i) => sum + (Number(i.estimated_value) || 0), 0) * 100) / 100;
+}
+
+// Normalises request JSON into item lines, or explains the first problem found
+export function parseInKindItems(raw: unknown): { items: InKindItem[] } | { error: string } {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { error: 'At least one item is required' };
+  }
+  if (raw.length > IN_KIND_MAX_ITEMS) {
+    return { error: `At most ${IN_KIND_MAX_ITEMS} items per donation` };
+  }
+
+  const items: InKindItem[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    const row = (raw[i] ?? {}) as Record<string, unknown>;
+    const description = String(row.description ?? '').trim();
+    const unit = String(row.unit ?? '').trim();
+    const quantity = Number(row.quantity);
+    const estimatedValue = Number(row.estimated_value);
+    if (!description || !unit) {
+      return { error: `Item ${i + 1}: description and unit are required` };
+    }
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      return { error: `Item ${i + 1}: quantity must be greater than 0` };
+    }
+    if (!Number.isFinite(estimatedValue) || estimatedValue < 0) {
+      return { error: `Item ${i + 1}: estimated value must be 0 or more` };
+    }
+    items.push({ description, quantity, unit, estimated_value: estimatedValue });
+  }
+
+  if (inKindItemsTotal(items) <= 0) {
+    return { error: 'The estimated value of the items must be greater than 0' };
+  }
+  return { items };
+}
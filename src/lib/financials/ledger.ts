@@ -0,0 +1,122 @@
+// General ledger exports: plain CSV, and IIF for QuickBooks Desktop (File > Utilities > Import).
+
+export const LEDGER_EXPORT_FORMATS = ['csv', 'iif'] as const;
+
+export type LedgerExportFormat = (typeof LEDGER_EXPORT_FORMATS)[number];
+
+export function isLedgerExportFormat(value: unknown): value is LedgerExportFormat {
+  return typeof value === 'string' && (LEDGER_EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export type GlAccountType = 'Asset' | 'Liability' | 'NetAssets' | 'Income' | 'Expense';
+
+// One row of public.list_gl_journal_lines
+export type JournalLine = {
+  entry_number: string;
+  entry_date: string;
+  source_type: string;
+  memo: string | null;
+  reverses_entry_number: string | null;
+  account_code: string;
+  account_name: string;
+  account_type: GlAccountType;
+  debit: number | string;
+  credit: number | string;
+  fund: string | null;
+  project_name: string | null;
+};
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function journalLinesToCSV(lines: JournalLine[]): string {
+  const header = ['Entry', 'Date', 'Source', 'Memo', 'Reverses', 'Account Code', 'Account', 'Debit', 'Credit', 'Fund', 'Project'];
+  const rows = lines.map((l) => [
+    l.entry_number,
+    l.entry_date,
+    l.source_type,
+    l.memo,
+    l.reverses_entry_number,
+    l.account_code,
+    l.account_name,
+    Number(l.debit).toFixed(2),
+    Number(l.credit).toFixed(2),
+    l.fund,
+    l.project_name,
+  ]);
+  return [header, ...rows].map((r) => r.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+const IIF_ACCOUNT_TYPES: Record<GlAccountType, string> = {
+  Asset: 'BANK',
+  Liability: 'OCLIAB',
+  NetAssets: 'EQUITY',
+  Income: 'INC',
+  Expense: 'EXP',
+};
+
+// IIF fields are tab separated, so tabs and line breaks inside values are flattened to spaces
+function iifCell(value: unknown): string {
+  return (value === null || value === undefined ? '' : String(value)).replace(/[\t\r\n]+/g, ' ');
+}
+
+function iifDate(isoDate: string): string {
+  const [y, m, d] = isoDate.slice(0, 10).split('-');
+  return `${m}/${d}/${y}`;
+}
+
+function iifAccountName(line: Pick<JournalLine, 'account_code' | 'account_name'>): string {
+  return `${line.account_code} ${line.account_name}`;
+}
+
+// Each journal entry becomes one GENERAL JOURNAL transaction: the first line is TRNS, the rest
+// SPL. Debits are positive and credits negative; the fund goes into CLASS.
+export function journalLinesToIIF(lines: JournalLine[]): string {
+  const out: string[] = [];
+
+  const accounts = new Map<string, JournalLine>();
+  lines.forEach((l) => accounts.set(l.account_code, l));
+  out.push(['!ACCNT', 'NAME', 'ACCNTTYPE'].join('\t'));
+  Array.from(accounts.values())
+    .sort((a, b) => a.account_code.localeCompare(b.account_code))
+    .forEach((a) => out.push(['ACCNT', iifCell(iifAccountName(a)), IIF_ACCOUNT_TYPES[a.account_type]].join('\t')));
+
+  const classes = Array.from(new Set(lines.map((l) => l.fund).filter((f): f is string => !!f))).sort();
+  if (classes.length > 0) {
+    out.push(['!CLASS', 'NAME'].join('\t'));
+    classes.forEach((c) => out.push(['CLASS', iifCell(c)].join('\t')));
+  }
+
+  out.push(['!TRNS', 'TRNSTYPE', 'DATE', 'ACCNT', 'CLASS', 'AMOUNT', 'DOCNUM', 'MEMO'].join('\t'));
+  out.push(['!SPL', 'TRNSTYPE', 'DATE', 'ACCNT', 'CLASS', 'AMOUNT', 'DOCNUM', 'MEMO'].join('\t'));
+  out.push('!ENDTRNS');
+
+  const entries = new Map<string, JournalLine[]>();
+  lines.forEach((l) => {
+    const group = entries.get(l.entry_number) ?? [];
+    group.push(l);
+    entries.set(l.entry_number, group);
+  });
+
+  entries.forEach((group, entryNumber) => {
+    group.forEach((l, i) => {
+      const amount = (Number(l.debit) - Number(l.credit)).toFixed(2);
+      const memo = l.project_name ? `${l.memo ?? ''} [${l.project_name}]` : l.memo;
+      out.push([
+        i === 0 ? 'TRNS' : 'SPL',
+        'GENERAL JOURNAL',
+        iifDate(l.entry_date),
+        iifCell(iifAccountName(l)),
+        iifCell(l.fund),
+        amount,
+        iifCell(entryNumber),
+        iifCell(memo),
+      ].join('\t'));
+    });
+    out.push('ENDTRNS');
+  });
+
+  return out.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,22 @@
+// Proofs of payment uploaded with donor-submitted donations (private 'payment-proofs' bucket).
+// Storage policies only let a donor write under their own user id folder.
+
+export const PAYMENT_PROOF_BUCKET = 'payment-proofs';
+
+export const PAYMENT_PROOF_MAX_BYTES = 5 * 1024 * 1024;
+
+export const PAYMENT_PROOF_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+};
+
+export function isPaymentProofType(contentType: string): boolean {
+  return Object.prototype.hasOwnProperty.call(PAYMENT_PROOF_TYPES, contentType);
+}
+
+export function getPaymentProofStoragePath(userId: string, contentType: string): string {
+  const id = globalThis.crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  return `${userId}/${id}.${PAYMENT_PROOF_TYPES[contentType] ?? 'bin'}`;
+}
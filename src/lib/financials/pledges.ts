@@ -0,0 +1,20 @@
+// Recurring pledge options (public.enum_pledge_frequency / public.enum_pledge_status).
+
+export const PLEDGE_FREQUENCIES = ['Monthly', 'Quarterly', 'Yearly'] as const;
+
+export type PledgeFrequency = (typeof PLEDGE_FREQUENCIES)[number];
+
+export const PLEDGE_STATUSES = ['Active', 'Paused', 'Completed', 'Cancelled'] as const;
+
+export type PledgeStatus = (typeof PLEDGE_STATUSES)[number];
+
+export function isPledgeFrequency(value: unknown): value is PledgeFrequency {
+  return typeof value === 'string' && (PLEDGE_FREQUENCIES as readonly string[]).includes(value);
+}
+
+// Share of the expected amount received so far, as a whole percentage (0 when nothing is due yet)
+export function pledgeFulfilmentPercent(expected: number | string, received: number | string): number {
+  const exp = Number(expected) || 0;
+  if (exp <= 0) return 0;
+  return Math.min(100, Math.round(((Number(received) || 0) / exp) * 100));
+}
@@ -0,0 +1,200 @@
+import { inflateRawSync } from 'zlib';
+
+// Minimal CSV / XLSX reader for the donation import wizard (server-side only).
+// Returns the first worksheet as rows of cell strings; the first row is the header.
+
+export type SpreadsheetRows = string[][];
+
+// Cap on the unzipped size of the workbook parts we read, so a small zip bomb cannot exhaust
+// memory. A 2000-row sheet is a few MB at most.
+export const XLSX_MAX_UNCOMPRESSED_BYTES = 50 * 1024 * 1024;
+
+export class SpreadsheetError extends Error {}
+
+export function parseSpreadsheet(fileName: string, bytes: Uint8Array): SpreadsheetRows {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.xlsx')) return parseXLSX(bytes);
+  if (lower.endsWith('.csv') || lower.endsWith('.txt')) return parseCSV(new TextDecoder('utf-8').decode(bytes));
+  throw new SpreadsheetError('Unsupported file type. Upload a .csv or .xlsx file.');
+}
+
+// RFC 4180 CSV: quoted fields, escaped quotes, CRLF/LF line endings. Semicolon-separated
+// files (common in regional Excel exports) are detected from the header line.
+export function parseCSV(text: string): SpreadsheetRows {
+  const input = text.replace(/^﻿/, '');
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const rows: SpreadsheetRows = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return dropEmptyRows(rows);
+}
+
+export function parseXLSX(bytes: Uint8Array): SpreadsheetRows {
+  const files = readZipEntries(bytes);
+  const read = (name: string) => {
+    const data = files.get(name);
+    return data ? new TextDecoder('utf-8').decode(data) : null;
+  };
+
+  const sheetXml = read(firstSheetPath(read('xl/workbook.xml'), read('xl/_rels/workbook.xml.rels')));
+  if (!sheetXml) throw new SpreadsheetError('The workbook has no readable worksheet.');
+
+  const sharedStrings: string[] = [];
+  const sst = read('xl/sharedStrings.xml');
+  if (sst) {
+    for (const si of sst.match(/<si>[\s\S]*?<\/si>/g) ?? []) {
+      sharedStrings.push(collectText(si));
+    }
+  }
+
+  const rows: SpreadsheetRows = [];
+  for (const rowXml of sheetXml.match(/<row\b[\s\S]*?<\/row>/g) ?? []) {
+    const row: string[] = [];
+    for (const cell of rowXml.match(/<c\b[^>]*?(?:\/>|>[\s\S]*?<\/c>)/g) ?? []) {
+      const ref = /\br="([A-Z]+)\d+"/.exec(cell)?.[1];
+      const type = /\bt="([^"]+)"/.exec(cell)?.[1];
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(cell)?.[1];
+      let value = '';
+      if (type === 's' && raw !== undefined) value = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'inlineStr') value = collectText(cell);
+      else if (raw !== undefined) value = decodeXml(raw);
+      row[ref ? columnIndex(ref) : row.length] = value;
+    }
+    rows.push(Array.from(row, (v) => v ?? ''));
+  }
+
+  return dropEmptyRows(rows);
+}
+
+function firstSheetPath(workbook: string | null, rels: string | null): string {
+  const relId = workbook ? /<sheet\b[^>]*\br:id="([^"]+)"/.exec(workbook)?.[1] : undefined;
+  if (relId && rels) {
+    const rel = new RegExp(`<Relationship\\b[^>]*\\bId="${relId}"[^>]*>`).exec(rels)?.[0];
+    const target = rel ? /\bTarget="([^"]+)"/.exec(rel)?.[1] : undefined;
+    if (target) return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+  return 'xl/worksheets/sheet1.xml';
+}
+
+function collectText(xml: string): string {
+  return (xml.match(/<t\b[^>]*>[\s\S]*?<\/t>/g) ?? [])
+    .map((t) => decodeXml(t.replace(/^<t\b[^>]*>/, '').replace(/<\/t>$/, '')))
+    .join('');
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function columnIndex(letters: string): number {
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+function dropEmptyRows(rows: SpreadsheetRows): SpreadsheetRows {
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+}
+
+// XLSX files are zip archives: locate entries through the central directory
+function readZipEntries(bytes: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new SpreadsheetError('The file is not a valid .xlsx workbook.');
+
+  const entries = new Map<string, Uint8Array>();
+  let budget = XLSX_MAX_UNCOMPRESSED_BYTES;
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder('utf-8').decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (name.startsWith('xl/') && name.endsWith('.xml') || name.endsWith('.rels')) {
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = bytes.subarray(dataStart, dataStart + compressedSize);
+      let content: Uint8Array | null = null;
+      if (method === 0) content = data;
+      else if (method === 8) content = inflate(data, budget);
+      if (content) {
+        if (content.length > budget) throw tooLarge();
+        budget -= content.length;
+        entries.set(name, content);
+      }
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+const tooLarge = () =>
+  new SpreadsheetError(
+    `The workbook expands to more than ${XLSX_MAX_UNCOMPRESSED_BYTES / (1024 * 1024)} MB. Save it as .csv or split it into smaller files.`
+  );
+
+function inflate(data: Uint8Array, maxOutputLength: number): Uint8Array {
+  try {
+    return new Uint8Array(inflateRawSync(data, { maxOutputLength: Math.max(1, maxOutputLength) }));
+  } catch (err) {
+    if ((err as { code?: string })?.code === 'ERR_BUFFER_TOO_LARGE' || err instanceof RangeError) throw tooLarge();
+    throw new SpreadsheetError('The file is not a valid .xlsx workbook.');
+  }
+}
@@ -0,0 +1,61 @@
+// Tribute donations (public.enum_tribute_type): given in memory of, in honour of or on behalf of someone.
+
+export const TRIBUTE_TYPES = ['InMemoryOf', 'InHonourOf', 'OnBehalfOf'] as const;
+
+export type TributeType = (typeof TRIBUTE_TYPES)[number];
+
+export const TRIBUTE_TYPE_LABELS: Record<TributeType, string> = {
+  InMemoryOf: 'In memory of',
+  InHonourOf: 'In honour of',
+  OnBehalfOf: 'On behalf of',
+};
+
+export type Tribute = {
+  type: TributeType;
+  name: string;
+  notify_name?: string | null;
+  notify_email?: string | null;
+  notify_address?: string | null;
+};
+
+export function isTributeType(value: unknown): value is TributeType {
+  return typeof value === 'string' && (TRIBUTE_TYPES as readonly string[]).includes(value);
+}
+
+// "In memory of Abdul Rehman", or null when the donation is not a tribute
+export function formatTribute(type: string | null | undefined, name: string | null | undefined): string | null {
+  if (!isTributeType(type) || !name) return null;
+  return `${TRIBUTE_TYPE_LABELS[type]} ${name}`;
+}
+
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+// Normalises the optional `tribute` object of a request body; { tribute: null } when none was given
+export function parseTribute(raw: unknown): { tribute: Tribute | null } | { error: string } {
+  if (raw === undefined || raw === null || raw === '') return { tribute: null };
+  if (typeof raw !== 'object' || Array.isArray(raw)) return { error: 'Invalid tribute' };
+
+  const r = raw as Record<string, unknown>;
+  const text = (v: unknown) => (typeof v === 'string' && v.trim() ? v.trim() : null);
+  const type = text(r.type);
+  const name = text(r.name);
+
+  if (!type && !name) return { tribute: null };
+  if (!isTributeType(type)) return { error: 'Choose in memory of, in honour of or on behalf of' };
+  if (!name) return { error: 'The honoree name is required for a tribute donation' };
+
+  const notify_email = text(r.notify_email);
+  if (notify_email && !EMAIL_PATTERN.test(notify_email)) {
+    return { error: 'The notification email is not valid' };
+  }
+
+  return {
+    tribute: {
+      type,
+      name,
+      notify_name: text(r.notify_name),
+      notify_email,
+      notify_address: text(r.notify_address),
+    },
+  };
+}
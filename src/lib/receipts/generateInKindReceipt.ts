@@ -0,0 +1,248 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import * as QRCode from 'qrcode';
+import { RECEIPT_COLORS, drawBackgroundLogo, type ReceiptInput } from '@/lib/receipts/generateReceipt';
+import { formatMoney } from '@/lib/financials/currency';
+import type { InKindItem, InKindItemRow } from '@/lib/financials/inKind';
+
+// Same donation details as a cash receipt, with the goods instead of a payment method and amount
+export interface InKindReceiptInput
+  extends Omit<ReceiptInput, 'amount' | 'currency' | 'exchange_rate' | 'base_amount' | 'payment_method' | 'transaction_id'> {
+  items: InKindItem[];
+  valuation_notes?: string | null;
+}
+
+// Item lines and valuation notes of an approved in-kind donation, ready for the receipt
+export async function fetchInKindReceiptItems(
+  supabase: SupabaseClient,
+  donationId: string
+): Promise<Pick<InKindReceiptInput, 'items' | 'valuation_notes'>> {
+  const { data, error } = await supabase.rpc('get_in_kind_items', { p_donation_id: donationId });
+  if (error) throw error;
+  const rows = (Array.isArray(data) ? data : []) as InKindItemRow[];
+  if (rows.length === 0) throw new Error('In-kind donation has no item lines');
+  return {
+    items: rows.map((r) => ({
+      description: r.description,
+      quantity: Number(r.quantity),
+      unit: r.unit,
+      estimated_value: Number(r.estimated_value),
+    })),
+    valuation_notes: rows[0].valuation_notes,
+  };
+}
+
+const PAGE_SIZE: [number, number] = [595.28, 841.89]; // A4 portrait
+const MARGIN_X = 40;
+const ROW_HEIGHT = 18;
+const BOTTOM_LIMIT = 90;
+
+function fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+  let trimmed = text;
+  while (trimmed.length > 0 && font.widthOfTextAtSize(`${trimmed}...`, size) > maxWidth) {
+    trimmed = trimmed.slice(0, -1);
+  }
+  return `${trimmed}...`;
+}
+
+function formatQuantity(quantity: number): string {
+  return Number(quantity).toLocaleString('en-US', { maximumFractionDigits: 3 });
+}
+
+// Splits text into lines that fit maxWidth, breaking on spaces
+export function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  text.split(/\s+/).filter(Boolean).forEach((word) => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth || !current) {
+      current = candidate;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+}
+
+/**
+ * Receipt for donated goods: donor and donation details followed by the item lines with their
+ * estimated PKR values and the valuation notes. Long item lists continue on further pages.
+ */
+export async function generateInKindReceiptPDF(body: InKindReceiptInput): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const fontBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const fontItalic = await pdfDoc.embedFont(StandardFonts.HelveticaOblique);
+  const { primaryColor, textColor, borderColor } = RECEIPT_COLORS;
+
+  const contentWidth = PAGE_SIZE[0] - MARGIN_X * 2;
+  const columns = [
+    { label: '#', x: MARGIN_X + 8, width: 20 },
+    { label: 'Description', x: MARGIN_X + 32, width: 250 },
+    { label: 'Quantity', x: MARGIN_X + 290, width: 70 },
+    { label: 'Unit', x: MARGIN_X + 365, width: 60 },
+  ];
+  const valueRightX = PAGE_SIZE[0] - MARGIN_X - 8;
+
+  let page!: PDFPage;
+  let y = 0;
+
+  const drawItemHeader = () => {
+    page.drawRectangle({ x: MARGIN_X, y: y - 5, width: contentWidth, height: ROW_HEIGHT, color: rgb(0.93, 0.95, 0.98) });
+    columns.forEach((c) => page.drawText(c.label, { x: c.x, y, size: 9, font: fontBold, color: textColor }));
+    const valueLabel = 'Estimated Value';
+    page.drawText(valueLabel, { x: valueRightX - fontBold.widthOfTextAtSize(valueLabel, 9), y, size: 9, font: fontBold, color: textColor });
+    y -= ROW_HEIGHT + 2;
+  };
+
+  const addPage = async () => {
+    page = pdfDoc.addPage(PAGE_SIZE);
+    await drawBackgroundLogo(pdfDoc, page);
+    y = PAGE_SIZE[1] - 50;
+  };
+
+  const ensureSpace = async (needed: number, withItemHeader: boolean) => {
+    if (y - needed < BOTTOM_LIMIT) {
+      await addPage();
+      if (withItemHeader) drawItemHeader();
+    }
+  };
+
+  await addPage();
+
+  // Organization header
+  const foundationText = 'FAMILY AND FELLOWS FOUNDATION';
+  const foundationTextWidth = fontBold.widthOfTextAtSize(foundationText, 18);
+  page.drawText(foundationText, { x: (PAGE_SIZE[0] - foundationTextWidth) / 2, y, size: 18, font: fontBold, color: primaryColor });
+  y -= 40;
+
+  page.drawText('IN-KIND DONATION RECEIPT', { x: MARGIN_X + 10, y, size: 18, font: fontBold, color: primaryColor });
+  const receiptText = `Receipt #: ${body.receipt_number || 'N/A'}`;
+  page.drawText(receiptText, { x: valueRightX - fontBold.widthOfTextAtSize(receiptText, 10), y, size: 10, font: fontBold, color: textColor });
+  y -= 18;
+
+  const formattedDate = body.donation_date
+    ? new Date(body.donation_date).toLocaleDateString()
+    : new Date().toLocaleDateString();
+  page.drawText(`Date: ${formattedDate}`, { x: MARGIN_X + 10, y, size: 10, font, color: textColor });
+  const idText = `Donation ID: ${body.donation_id || 'N/A'}`;
+  page.drawText(idText, { x: valueRightX - font.widthOfTextAtSize(idText, 9), y, size: 9, font, color: textColor });
+  y -= 15;
+
+  if (body.replaces_receipt_number) {
+    page.drawText(`Replaces voided receipt ${body.replaces_receipt_number}`, { x: MARGIN_X + 10, y, size: 10, font: fontBold, color: rgb(0.8, 0.1, 0.1) });
+    y -= 15;
+  }
+  y -= 10;
+
+  // Donor and donation details
+  const details: Array<[string, string]> = [
+    ['Name', body.donor_name || 'N/A'],
+    ['Donor ID', body.donor_id || 'N/A'],
+    ['Phone', body.phone_number || 'N/A'],
+    ['Address', String(body.address || 'N/A').replace(/\n/g, ', ')],
+    ['Category', body.category_name || 'N/A'],
+    ['Project', body.project_name || 'N/A'],
+    ['Donation Type', body.donation_type || 'N/A'],
+    ['Approved By', body.approved_by_name || 'N/A'],
+    ...(body.tribute ? [['Tribute', body.tribute] as [string, string]] : []),
+  ];
+  const detailsTop = y + 12;
+  details.forEach(([label, value]) => {
+    page.drawText(`${label}:`, { x: MARGIN_X + 10, y, size: 10, font: fontBold, color: textColor });
+    page.drawText(fitText(value, font, 10, contentWidth - 120), { x: MARGIN_X + 110, y, size: 10, font, color: textColor });
+    y -= 16;
+  });
+  page.drawRectangle({
+    x: MARGIN_X,
+    y: y + 8,
+    width: contentWidth,
+    height: detailsTop - (y + 8),
+    borderColor: primaryColor,
+    borderWidth: 1.5,
+    opacity: 0.3,
+  });
+  y -= 20;
+
+  // Items
+  page.drawText('Items Received', { x: MARGIN_X, y, size: 13, font: fontBold, color: primaryColor });
+  y -= 22;
+  drawItemHeader();
+
+  for (let i = 0; i < body.items.length; i++) {
+    await ensureSpace(ROW_HEIGHT, true);
+    const item = body.items[i];
+    page.drawText(String(i + 1), { x: columns[0].x, y, size: 9, font, color: textColor });
+    page.drawText(fitText(item.description, font, 9, columns[1].width), { x: columns[1].x, y, size: 9, font, color: textColor });
+    page.drawText(fitText(formatQuantity(item.quantity), font, 9, columns[2].width), { x: columns[2].x, y, size: 9, font, color: textColor });
+    page.drawText(fitText(item.unit, font, 9, columns[3].width), { x: columns[3].x, y, size: 9, font, color: textColor });
+    const valueText = formatMoney(item.estimated_value);
+    page.drawText(valueText, { x: valueRightX - font.widthOfTextAtSize(valueText, 9), y, size: 9, font, color: textColor });
+    y -= ROW_HEIGHT;
+  }
+
+  await ensureSpace(30, false);
+  page.drawLine({ start: { x: MARGIN_X, y: y + 12 }, end: { x: PAGE_SIZE[0] - MARGIN_X, y: y + 12 }, thickness: 1, color: borderColor });
+  const total = body.items.reduce((sum, item) => sum + (Number(item.estimated_value) || 0), 0);
+  const totalText = `Total estimated value: ${formatMoney(total)}`;
+  page.drawText(totalText, { x: valueRightX - fontBold.widthOfTextAtSize(totalText, 12), y: y - 4, size: 12, font: fontBold, color: primaryColor });
+  y -= 36;
+
+  if (body.valuation_notes) {
+    const noteLines = wrapText(body.valuation_notes, font, 9, contentWidth - 20);
+    await ensureSpace(20 + noteLines.length * 12, false);
+    page.drawText('Valuation notes:', { x: MARGIN_X, y, size: 10, font: fontBold, color: textColor });
+    y -= 14;
+    noteLines.forEach((line) => {
+      page.drawText(line, { x: MARGIN_X + 10, y, size: 9, font, color: textColor });
+      y -= 12;
+    });
+    y -= 6;
+  }
+
+  await ensureSpace(80, false);
+  const disclaimer = wrapText(
+    'Goods were received in kind; no cash or services were exchanged. Values are estimates recorded by the foundation.',
+    fontItalic,
+    9,
+    contentWidth - 90
+  );
+  disclaimer.forEach((line) => {
+    page.drawText(line, { x: MARGIN_X, y, size: 9, font: fontItalic, color: textColor });
+    y -= 12;
+  });
+
+  // QR code: signed verification link when available, otherwise a plain summary
+  const qrCodeText = body.verification_url || JSON.stringify({
+    donationId: body.donation_id,
+    donorId: body.donor_id,
+    type: 'In-kind',
+    estimatedValue: formatMoney(total),
+  }, null, 2);
+  const qrCodeDataUrl = await QRCode.toDataURL(qrCodeText, { width: 300, margin: 1, color: { dark: '#000000', light: '#FFFFFF' } });
+  const qrCodeBytes = Uint8Array.from(atob(qrCodeDataUrl.split(',')[1]), (c) => c.charCodeAt(0));
+  const qrCodeImage = await pdfDoc.embedPng(qrCodeBytes);
+  const qrSize = 60;
+  const qrX = PAGE_SIZE[0] - MARGIN_X - qrSize;
+  const qrY = Math.max(BOTTOM_LIMIT - 20, y - qrSize + 30);
+  page.drawImage(qrCodeImage, { x: qrX, y: qrY, width: qrSize, height: qrSize });
+  page.drawText('Scan to Verify', { x: qrX + 4, y: qrY - 12, size: 8, font, color: rgb(0.4, 0.4, 0.4) });
+
+  // Footer on every page
+  const footerText = 'Together We Can Make a Difference';
+  const footerTextWidth = fontItalic.widthOfTextAtSize(footerText, 12);
+  const pages = pdfDoc.getPages();
+  pages.forEach((p, i) => {
+    p.drawLine({ start: { x: MARGIN_X, y: 50 }, end: { x: PAGE_SIZE[0] - MARGIN_X, y: 50 }, thickness: 1, color: borderColor });
+    p.drawText(footerText, { x: (PAGE_SIZE[0] - footerTextWidth) / 2, y: 30, size: 12, font: fontItalic, color: primaryColor });
+    if (pages.length > 1) {
+      const pageText = `Page ${i + 1} of ${pages.length}`;
+      p.drawText(pageText, { x: PAGE_SIZE[0] - MARGIN_X - font.widthOfTextAtSize(pageText, 8), y: 36, size: 8, font, color: textColor });
+    }
+  });
+
+  return pdfDoc.save();
+}
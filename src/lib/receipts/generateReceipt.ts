@@ -1,4 +1,4 @@
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
+import { PDFDocument, PDFPage, rgb, StandardFonts } from 'pdf-lib';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as QRCode from 'qrcode';
@@ -11,8 +11,11 @@ export interface ReceiptInput {
   address?: string;
   amount?: number | string;
   currency?: string;
+  exchange_rate?: number | string; // rate to PKR stored on the donation
+  base_amount?: number | string; // PKR equivalent stored on the donation
   donation_date?: string; // YYYY-MM-DD or ISO
-  receipt_number?: string;
+  receipt_number?: string; // official sequential number, e.g. RCT-2025-00001
+  replaces_receipt_number?: string; // set on corrected receipts issued after a void
   payment_method?: string;
   transaction_id?: string;
   category_name?: string;
@@ -20,19 +23,19 @@ export interface ReceiptInput {
   donation_type?: string;
   approved_by_name?: string;
   approved_by_email?: string;
+  verification_url?: string; // public /verify/receipt/[token] link encoded in the QR code
+  tribute?: string; // e.g. "In memory of Abdul Rehman" for tribute donations
 }
 
-export async function generateReceiptPDF(body: ReceiptInput): Promise<Uint8Array> {
-  // Create a new PDF document in landscape mode (A4)
-  const pdfDoc = await PDFDocument.create();
-  const page = pdfDoc.addPage([595.28, 419.53]); // A4 landscape dimensions in points (1 inch = 72 points)
-  
-  // Set up fonts
-  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-  const fontBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
-  const fontItalic = await pdfDoc.embedFont(StandardFonts.HelveticaOblique);
-  
-  // Add dimmed logo to background
+// Shared with other foundation documents (e.g. annual statements) so they look alike
+export const RECEIPT_COLORS = {
+  primaryColor: rgb(0.2, 0.4, 0.6),
+  textColor: rgb(0.2, 0.2, 0.2),
+  borderColor: rgb(0.8, 0.8, 0.8),
+};
+
+// Add dimmed logo to the page background
+export async function drawBackgroundLogo(pdfDoc: PDFDocument, page: PDFPage): Promise<void> {
   try {
     const logoPath = path.join(process.cwd(), 'public', 'logo.png');
     if (fs.existsSync(logoPath)) {
@@ -55,11 +58,22 @@ export async function generateReceiptPDF(body: ReceiptInput): Promise<Uint8Array
     // Continue without the logo if there's an error
     console.error('Error loading logo for receipt:', error);
   }
+}
+
+export async function generateReceiptPDF(body: ReceiptInput): Promise<Uint8Array> {
+  // Create a new PDF document in landscape mode (A4)
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage([595.28, 419.53]); // A4 landscape dimensions in points (1 inch = 72 points)
+  
+  // Set up fonts
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const fontBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const fontItalic = await pdfDoc.embedFont(StandardFonts.HelveticaOblique);
+  
+  await drawBackgroundLogo(pdfDoc, page);
   
   // Set up colors
-  const primaryColor = rgb(0.2, 0.4, 0.6);
-  const textColor = rgb(0.2, 0.2, 0.2);
-  const borderColor = rgb(0.8, 0.8, 0.8);
+  const { primaryColor, textColor, borderColor } = RECEIPT_COLORS;
   
   // Organization header
   const foundationText = 'FAMILY AND FELLOWS FOUNDATION';
@@ -94,6 +108,17 @@ export async function generateReceiptPDF(body: ReceiptInput): Promise<Uint8Array
     color: textColor,
   });
   
+  // Corrected receipts reference the receipt they replace
+  if (body.replaces_receipt_number) {
+    page.drawText(`Replaces voided receipt ${body.replaces_receipt_number}`, {
+      x: 50,
+      y: page.getHeight() - 125,
+      size: 10,
+      font: fontBold,
+      color: rgb(0.8, 0.1, 0.1),
+    });
+  }
+
   // Donation ID right aligned
   const idText = `Donation ID: ${body.donation_id || 'N/A'}`;
   const idTextWidth = font.widthOfTextAtSize(idText, 10);
@@ -123,7 +148,7 @@ export async function generateReceiptPDF(body: ReceiptInput): Promise<Uint8Array
   const borderX = 40;
   const borderY = donorInfoY + 15;
   const borderWidth = page.getWidth() - 80;
-  const borderHeight = (rowHeight * 6) + 10; // extra row reserved for Approved By only
+  const borderHeight = (rowHeight * 6) + 10; // extra row reserved for Approved By / Receipt #
   page.drawRectangle({
     x: borderX,
     y: borderY - borderHeight,
@@ -185,10 +210,30 @@ export async function generateReceiptPDF(body: ReceiptInput): Promise<Uint8Array
   page.drawText(body.donation_type || 'One-time', { x: col2X, y: donorInfoY - (rowHeight * 4), size: 10, font, color: textColor });
   page.drawText('Amount:', { x: col3X, y: donorInfoY - (rowHeight * 4), size: 10, font: fontBold, color: textColor });
   page.drawText(amountText, { x: col4X, y: donorInfoY - (rowHeight * 4), size: 10, font: fontBold, color: primaryColor });
+  // Foreign-currency donations also show the PKR equivalent and the rate used
+  if (body.currency && body.currency !== 'PKR' && body.base_amount !== undefined && body.base_amount !== null) {
+    const baseAmount = parseFloat(String(body.base_amount));
+    const rate = parseFloat(String(body.exchange_rate ?? '0'));
+    const conversionText = `PKR ${baseAmount.toFixed(2)} @ ${rate.toFixed(4)}`;
+    page.drawText(conversionText, { x: col4X, y: donorInfoY - (rowHeight * 4) - 11, size: 8, font, color: textColor });
+  }
 
-  // Row 6: Approved By (no Receipt #)
+  // Row 6: Approved By / Receipt #
   page.drawText('Approved By:', { x: col1X, y: donorInfoY - (rowHeight * 5), size: 10, font: fontBold, color: textColor });
   page.drawText(body.approved_by_name || 'N/A', { x: col2X, y: donorInfoY - (rowHeight * 5), size: 10, font, color: textColor });
+  page.drawText('Receipt #:', { x: col3X, y: donorInfoY - (rowHeight * 5), size: 10, font: fontBold, color: textColor });
+  page.drawText(body.receipt_number || 'N/A', { x: col4X, y: donorInfoY - (rowHeight * 5), size: 10, font: fontBold, color: textColor });
+
+  // Tribute line under the details block, clear of the QR code on the right
+  if (body.tribute) {
+    page.drawText(`This donation was made ${body.tribute.charAt(0).toLowerCase()}${body.tribute.slice(1)}.`, {
+      x: col1X,
+      y: borderY - borderHeight - 16,
+      size: 10,
+      font: fontItalic,
+      color: primaryColor,
+    });
+  }
 
   // Footer
   const footerY = 20;
@@ -197,7 +242,7 @@ export async function generateReceiptPDF(body: ReceiptInput): Promise<Uint8Array
   const footerTextWidth = fontItalic.widthOfTextAtSize(footerText, 12);
   page.drawText(footerText, { x: (page.getWidth() - footerTextWidth) / 2, y: footerY, size: 12, font: fontItalic || font, color: primaryColor });
 
-  // QR code
+  // QR code: signed verification link when available, otherwise a plain summary (e.g. test receipts)
   const qrCodeData = {
     donationId: body.donation_id,
     donorId: body.donor_id,
@@ -205,7 +250,7 @@ export async function generateReceiptPDF(body: ReceiptInput): Promise<Uint8Array
     amount: amountText,
     date: new Date().toISOString().split('T')[0],
   };
-  const qrCodeText = JSON.stringify(qrCodeData, null, 2);
+  const qrCodeText = body.verification_url || JSON.stringify(qrCodeData, null, 2);
   const qrCodeDataUrl = await QRCode.toDataURL(qrCodeText, { width: 300, margin: 1, color: { dark: '#000000', light: '#FFFFFF' } });
   const qrCodeBase64 = qrCodeDataUrl.split(',')[1];
   const qrCodeBytes = Uint8Array.from(atob(qrCodeBase64), c => c.charCodeAt(0));
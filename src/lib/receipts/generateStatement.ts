@@ -0,0 +1,227 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts } from 'pdf-lib';
+import { RECEIPT_COLORS, drawBackgroundLogo } from '@/lib/receipts/generateReceipt';
+import { formatFinancialYear } from '@/lib/financials/financialYear';
+import { BASE_CURRENCY, formatMoney } from '@/lib/financials/currency';
+
+export interface StatementDonation {
+  donation_human_id: string | null;
+  receipt_number: string | null;
+  donation_date: string;
+  donation_type: string;
+  amount: number | string;
+  currency: string;
+  base_amount?: number | string | null; // PKR equivalent
+  mode_of_payment?: string;
+  category_name: string | null;
+  project_name: string | null;
+}
+
+// Shape returned by public.get_donor_annual_statement
+export interface AnnualStatementInput {
+  financial_year: number;
+  period_start: string;
+  period_end: string;
+  base_currency?: string;
+  donor: {
+    donor_number: string;
+    donor_name: string;
+    phone_number?: string | null;
+    cnic_number?: string | null;
+    ntn?: string | null; // organisations
+    address?: string | null;
+  };
+  donations: StatementDonation[];
+  totals_by_type: Record<string, number | string>; // cash only
+  in_kind_total?: number | string; // estimated value of goods, outside the cash totals
+}
+
+const DONATION_TYPE_ORDER = ['Zakat', 'Sadqa', 'General'];
+
+const PAGE_SIZE: [number, number] = [595.28, 841.89]; // A4 portrait
+const MARGIN_X = 40;
+const ROW_HEIGHT = 18;
+const BOTTOM_LIMIT = 80;
+
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-GB', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+function fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+  let trimmed = text;
+  while (trimmed.length > 0 && font.widthOfTextAtSize(`${trimmed}...`, size) > maxWidth) {
+    trimmed = trimmed.slice(0, -1);
+  }
+  return `${trimmed}...`;
+}
+
+/**
+ * Consolidated yearly statement for one donor: every approved donation in the financial
+ * year, grouped by donation type (Zakat, Sadqa, General) with subtotals and a grand total.
+ * In-kind goods are listed after the cash groups and are not part of the grand total.
+ */
+export async function generateAnnualStatementPDF(input: AnnualStatementInput): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const fontBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const fontItalic = await pdfDoc.embedFont(StandardFonts.HelveticaOblique);
+  const { primaryColor, textColor, borderColor } = RECEIPT_COLORS;
+  // Totals are in the base currency; foreign-currency gifts also show their original amount
+  const baseCurrency = input.base_currency || BASE_CURRENCY;
+
+  const columns = [
+    { label: 'Date', x: MARGIN_X + 5, width: 70 },
+    { label: 'Receipt #', x: MARGIN_X + 80, width: 95 },
+    { label: 'Donation ID', x: MARGIN_X + 180, width: 80 },
+    { label: 'Project / Category', x: MARGIN_X + 265, width: 110 },
+    { label: 'Original', x: MARGIN_X + 380, width: 70 },
+  ];
+  const amountRightX = PAGE_SIZE[0] - MARGIN_X - 5;
+
+  const pages: PDFPage[] = [];
+  let page!: PDFPage;
+  let y = 0;
+
+  const drawTableHeader = () => {
+    page.drawRectangle({ x: MARGIN_X, y: y - 5, width: PAGE_SIZE[0] - MARGIN_X * 2, height: ROW_HEIGHT, color: primaryColor, opacity: 0.15 });
+    columns.forEach((c) => page.drawText(c.label, { x: c.x, y, size: 9, font: fontBold, color: textColor }));
+    const amountLabel = `Amount (${baseCurrency})`;
+    const amountLabelWidth = fontBold.widthOfTextAtSize(amountLabel, 9);
+    page.drawText(amountLabel, { x: amountRightX - amountLabelWidth, y, size: 9, font: fontBold, color: textColor });
+    y -= ROW_HEIGHT + 2;
+  };
+
+  const addPage = async () => {
+    page = pdfDoc.addPage(PAGE_SIZE);
+    pages.push(page);
+    await drawBackgroundLogo(pdfDoc, page);
+    y = page.getHeight() - 50;
+  };
+
+  const ensureSpace = async (rows: number, withTableHeader: boolean) => {
+    if (y - rows * ROW_HEIGHT < BOTTOM_LIMIT) {
+      await addPage();
+      if (withTableHeader) drawTableHeader();
+    }
+  };
+
+  await addPage();
+
+  // Organization header
+  const foundationText = 'FAMILY AND FELLOWS FOUNDATION';
+  const foundationTextWidth = fontBold.widthOfTextAtSize(foundationText, 18);
+  page.drawText(foundationText, { x: (PAGE_SIZE[0] - foundationTextWidth) / 2, y, size: 18, font: fontBold, color: primaryColor });
+  y -= 40;
+
+  page.drawText('ANNUAL DONATION STATEMENT', { x: MARGIN_X + 10, y, size: 18, font: fontBold, color: primaryColor });
+  y -= 20;
+  // The period comes from financial_year_bounds, so its start month is the configured one
+  const startMonth = Number(input.period_start.slice(5, 7));
+  page.drawText(
+    `Financial Year ${formatFinancialYear(input.financial_year, startMonth)} (${formatDate(input.period_start)} - ${formatDate(input.period_end)})`,
+    { x: MARGIN_X + 10, y, size: 10, font, color: textColor }
+  );
+  y -= 30;
+
+  // Donor block
+  const donorRows: Array<[string, string]> = [
+    ['Name:', input.donor.donor_name || 'N/A'],
+    ['Donor ID:', input.donor.donor_number || 'N/A'],
+    input.donor.ntn ? ['NTN:', input.donor.ntn] : ['CNIC:', input.donor.cnic_number || 'N/A'],
+    ['Phone:', input.donor.phone_number || 'N/A'],
+    ['Address:', input.donor.address || 'N/A'],
+  ];
+  const donorBlockHeight = donorRows.length * 16 + 14;
+  page.drawRectangle({
+    x: MARGIN_X,
+    y: y - donorBlockHeight + 12,
+    width: PAGE_SIZE[0] - MARGIN_X * 2,
+    height: donorBlockHeight,
+    borderColor: primaryColor,
+    borderWidth: 1.5,
+    opacity: 0.3,
+  });
+  for (const [label, value] of donorRows) {
+    page.drawText(label, { x: MARGIN_X + 10, y, size: 10, font: fontBold, color: textColor });
+    page.drawText(fitText(value, font, 10, PAGE_SIZE[0] - MARGIN_X * 2 - 110), { x: MARGIN_X + 100, y, size: 10, font, color: textColor });
+    y -= 16;
+  }
+  y -= 30;
+
+  // Cash donations grouped by type; goods follow on their own
+  const cashDonations = input.donations.filter((d) => d.mode_of_payment !== 'InKind');
+  const inKindDonations = input.donations.filter((d) => d.mode_of_payment === 'InKind');
+  const types = Array.from(new Set([
+    ...DONATION_TYPE_ORDER.filter((t) => cashDonations.some((d) => d.donation_type === t)),
+    ...cashDonations.map((d) => d.donation_type),
+  ]));
+  let grandTotal = 0;
+
+  if (input.donations.length === 0) {
+    page.drawText('No approved donations were recorded for this financial year.', { x: MARGIN_X + 10, y, size: 10, font: fontItalic, color: textColor });
+    y -= ROW_HEIGHT;
+  }
+
+  const drawGroup = async (title: string, rows: StatementDonation[], subtotalText: string) => {
+    await ensureSpace(4, false);
+
+    page.drawText(title, { x: MARGIN_X, y, size: 13, font: fontBold, color: primaryColor });
+    y -= ROW_HEIGHT + 4;
+    drawTableHeader();
+
+    for (const d of rows) {
+      await ensureSpace(1, true);
+      const projectText = [d.project_name, d.category_name].filter(Boolean).join(' / ') || 'N/A';
+      page.drawText(formatDate(d.donation_date), { x: columns[0].x, y, size: 9, font, color: textColor });
+      page.drawText(fitText(d.receipt_number || 'N/A', font, 9, columns[1].width), { x: columns[1].x, y, size: 9, font, color: textColor });
+      page.drawText(fitText(d.donation_human_id || 'N/A', font, 9, columns[2].width), { x: columns[2].x, y, size: 9, font, color: textColor });
+      page.drawText(fitText(projectText, font, 9, columns[3].width), { x: columns[3].x, y, size: 9, font, color: textColor });
+      if (d.currency !== baseCurrency) {
+        page.drawText(fitText(formatMoney(d.amount, d.currency), font, 9, columns[4].width), { x: columns[4].x, y, size: 9, font, color: textColor });
+      }
+      const amountText = formatMoney(d.base_amount ?? d.amount, baseCurrency);
+      page.drawText(amountText, { x: amountRightX - font.widthOfTextAtSize(amountText, 9), y, size: 9, font, color: textColor });
+      y -= ROW_HEIGHT;
+    }
+
+    await ensureSpace(2, false);
+    page.drawLine({ start: { x: MARGIN_X, y: y + ROW_HEIGHT - 5 }, end: { x: PAGE_SIZE[0] - MARGIN_X, y: y + ROW_HEIGHT - 5 }, thickness: 0.5, color: borderColor });
+    page.drawText(subtotalText, { x: amountRightX - fontBold.widthOfTextAtSize(subtotalText, 10), y, size: 10, font: fontBold, color: textColor });
+    y -= ROW_HEIGHT + 14;
+  };
+
+  for (const type of types) {
+    const subtotal = parseFloat(String(input.totals_by_type[type] ?? '0'));
+    grandTotal += subtotal;
+    await drawGroup(type, cashDonations.filter((d) => d.donation_type === type), `Total ${type}: ${formatMoney(subtotal, baseCurrency)}`);
+  }
+
+  if (inKindDonations.length > 0) {
+    const inKindTotal = parseFloat(String(input.in_kind_total ?? '0'));
+    await drawGroup(
+      'In-kind goods (estimated value)',
+      inKindDonations,
+      `Total in-kind goods (not included below): ${formatMoney(inKindTotal, baseCurrency)}`
+    );
+  }
+
+  // Grand total
+  await ensureSpace(3, false);
+  page.drawLine({ start: { x: MARGIN_X, y: y + 14 }, end: { x: PAGE_SIZE[0] - MARGIN_X, y: y + 14 }, thickness: 1.5, color: primaryColor });
+  const grandTotalText = `Total Donations: ${formatMoney(grandTotal, baseCurrency)}`;
+  page.drawText(grandTotalText, { x: amountRightX - fontBold.widthOfTextAtSize(grandTotalText, 12), y, size: 12, font: fontBold, color: primaryColor });
+
+  // Footer on every page
+  const generatedOn = formatDate(new Date().toISOString());
+  pages.forEach((p, idx) => {
+    p.drawLine({ start: { x: MARGIN_X, y: 50 }, end: { x: PAGE_SIZE[0] - MARGIN_X, y: 50 }, thickness: 1, color: borderColor });
+    p.drawText(`Generated on ${generatedOn}. Individual receipts remain the official record of each donation.`, {
+      x: MARGIN_X, y: 36, size: 8, font: fontItalic, color: textColor,
+    });
+    const pageText = `Page ${idx + 1} of ${pages.length}`;
+    p.drawText(pageText, { x: PAGE_SIZE[0] - MARGIN_X - font.widthOfTextAtSize(pageText, 8), y: 36, size: 8, font, color: textColor });
+  });
+
+  return pdfDoc.save();
+}
@@ -0,0 +1,128 @@
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { RECEIPT_COLORS, drawBackgroundLogo } from '@/lib/receipts/generateReceipt';
+import { wrapText } from '@/lib/receipts/generateInKindReceipt';
+import type { TributeType } from '@/lib/financials/tributes';
+
+export interface TributeLetterInput {
+  tribute_type: TributeType;
+  honoree_name: string;
+  donor_name: string;
+  recipient_name?: string | null; // defaults to the honoree's family
+  recipient_address?: string | null;
+  project_name?: string | null;
+  donation_date: string;
+  receipt_number?: string | null;
+}
+
+const PAGE_SIZE: [number, number] = [595.28, 841.89]; // A4 portrait
+const MARGIN_X = 60;
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-GB', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+// Opening and closing sentences for each kind of tribute
+function letterParagraphs(input: TributeLetterInput): string[] {
+  const gift = `${input.donor_name} has made a donation to the Family and Fellows Foundation`;
+  const purpose = input.project_name
+    ? `The gift supports our ${input.project_name} work and will reach families who need it most.`
+    : 'The gift will reach families who need it most.';
+
+  switch (input.tribute_type) {
+    case 'InMemoryOf':
+      return [
+        `We are writing to let you know that ${gift} in loving memory of ${input.honoree_name}.`,
+        purpose,
+        `Please accept our heartfelt condolences. We hope it is a comfort to know that ${input.honoree_name} is remembered through this act of kindness.`,
+      ];
+    case 'InHonourOf':
+      return [
+        `We are delighted to let you know that ${gift} in honour of ${input.honoree_name}.`,
+        purpose,
+        `It is a generous way to celebrate ${input.honoree_name}, and we wanted you to know about it.`,
+      ];
+    case 'OnBehalfOf':
+      return [
+        `We are writing to let you know that ${gift} on behalf of ${input.honoree_name}.`,
+        purpose,
+        `We pray for the health and wellbeing of ${input.honoree_name} and your family.`,
+      ];
+  }
+}
+
+/**
+ * Acknowledgement letter for the honoree's family (or the named recipient) of a tribute donation.
+ * The amount is deliberately left out; the donor receives it on their own receipt.
+ */
+export async function generateTributeLetterPDF(input: TributeLetterInput): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage(PAGE_SIZE);
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const fontBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const fontItalic = await pdfDoc.embedFont(StandardFonts.HelveticaOblique);
+  const { primaryColor, textColor, borderColor } = RECEIPT_COLORS;
+  const contentWidth = PAGE_SIZE[0] - MARGIN_X * 2;
+
+  await drawBackgroundLogo(pdfDoc, page);
+
+  let y = PAGE_SIZE[1] - 60;
+  const foundationText = 'FAMILY AND FELLOWS FOUNDATION';
+  const foundationTextWidth = fontBold.widthOfTextAtSize(foundationText, 18);
+  page.drawText(foundationText, { x: (PAGE_SIZE[0] - foundationTextWidth) / 2, y, size: 18, font: fontBold, color: primaryColor });
+  y -= 12;
+  page.drawLine({ start: { x: MARGIN_X, y }, end: { x: PAGE_SIZE[0] - MARGIN_X, y }, thickness: 1, color: borderColor });
+  y -= 40;
+
+  const dateText = formatDate(new Date().toISOString());
+  page.drawText(dateText, { x: PAGE_SIZE[0] - MARGIN_X - font.widthOfTextAtSize(dateText, 11), y, size: 11, font, color: textColor });
+  y -= 30;
+
+  // Recipient block
+  const recipient = input.recipient_name || `The family of ${input.honoree_name}`;
+  page.drawText(recipient, { x: MARGIN_X, y, size: 11, font: fontBold, color: textColor });
+  y -= 15;
+  if (input.recipient_address) {
+    input.recipient_address
+      .split(/\n|,\s*/)
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .forEach((line) => {
+        page.drawText(line, { x: MARGIN_X, y, size: 11, font, color: textColor });
+        y -= 15;
+      });
+  }
+  y -= 25;
+
+  page.drawText(`Dear ${input.recipient_name || `family of ${input.honoree_name}`},`, { x: MARGIN_X, y, size: 11, font, color: textColor });
+  y -= 28;
+
+  letterParagraphs(input).forEach((paragraph) => {
+    wrapText(paragraph, font, 11, contentWidth).forEach((line) => {
+      page.drawText(line, { x: MARGIN_X, y, size: 11, font, color: textColor });
+      y -= 16;
+    });
+    y -= 12;
+  });
+
+  y -= 10;
+  page.drawText('With gratitude,', { x: MARGIN_X, y, size: 11, font, color: textColor });
+  y -= 40;
+  page.drawText('Family and Fellows Foundation', { x: MARGIN_X, y, size: 11, font: fontBold, color: primaryColor });
+
+  // Reference for the foundation's records
+  const reference = [`Donation date: ${formatDate(input.donation_date)}`, input.receipt_number ? `Receipt #: ${input.receipt_number}` : null]
+    .filter(Boolean)
+    .join('   ');
+  page.drawLine({ start: { x: MARGIN_X, y: 70 }, end: { x: PAGE_SIZE[0] - MARGIN_X, y: 70 }, thickness: 1, color: borderColor });
+  page.drawText(reference, { x: MARGIN_X, y: 55, size: 8, font, color: textColor });
+  const footerText = 'Together We Can Make a Difference';
+  page.drawText(footerText, {
+    x: (PAGE_SIZE[0] - fontItalic.widthOfTextAtSize(footerText, 12)) / 2,
+    y: 30,
+    size: 12,
+    font: fontItalic,
+    color: primaryColor,
+  });
+
+  return pdfDoc.save();
+}
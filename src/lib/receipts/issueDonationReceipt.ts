@@ -0,0 +1,130 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { renderDonationReceiptPDF, type DonationReceiptDetails } from '@/lib/receipts/renderDonationReceipt';
+import { getReceiptStoragePath, getRegeneratedReceiptStoragePath } from '@/lib/receipts/storagePaths';
+import { logger } from '@/lib/utils/logger';
+
+// Step of issueDonationReceipt that failed, so callers can log and word the failure precisely
+export type ReceiptIssueStage = 'details' | 'render' | 'upload' | 'record';
+
+export class ReceiptIssueError extends Error {
+  stage: ReceiptIssueStage;
+
+  constructor(stage: ReceiptIssueStage, message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = 'ReceiptIssueError';
+    this.stage = stage;
+    if (options?.cause !== undefined) (this as { cause?: unknown }).cause = options.cause;
+  }
+}
+
+export interface IssuedReceipt {
+  details: DonationReceiptDetails;
+  storagePath: string;
+  pdfSize: number;
+}
+
+const errorMessage = (err: unknown) =>
+  err instanceof Error ? err.message : (err as { message?: string })?.message ?? String(err);
+
+/**
+ * Generates the receipt PDF for a freshly approved donation, uploads it to
+ * receipts/donations/{donation_id}/{receipt_number}.pdf and records the path on the donation.
+ * Used by single approval and by every bulk approval path. The approval itself is not rolled
+ * back here; callers decide (see rollback_approved_donation).
+ *
+ * With options.version the receipt is regenerated for a donation that already has one: the new
+ * PDF is written beside the current file (see getRegeneratedReceiptStoragePath), never over it.
+ */
+export async function issueDonationReceipt(
+  supabase: SupabaseClient,
+  donationId: string,
+  options: { version?: string } = {}
+): Promise<IssuedReceipt> {
+  const { data: detailsData, error: detailsErr } = await supabase
+    .rpc('get_donation_receipt_details', { p_donation_id: donationId });
+  if (detailsErr) {
+    throw new ReceiptIssueError('details', `Failed to fetch receipt details: ${detailsErr.message}`, { cause: detailsErr });
+  }
+  const details = (detailsData as DonationReceiptDetails[] | null)?.[0];
+  if (!details) {
+    throw new ReceiptIssueError('details', 'Receipt details not found');
+  }
+
+  let pdfBytes: Uint8Array;
+  try {
+    pdfBytes = await renderDonationReceiptPDF(supabase, details);
+  } catch (err) {
+    throw new ReceiptIssueError('render', `Failed to generate receipt: ${errorMessage(err)}`, { cause: err });
+  }
+
+  // Each receipt number gets its own file so voided versions are never overwritten
+  const storagePath = options.version
+    ? getRegeneratedReceiptStoragePath(donationId, details.receipt_number, options.version)
+    : getReceiptStoragePath(donationId, details.receipt_number);
+  const { error: uploadErr } = await supabase.storage
+    .from('receipts')
+    .upload(storagePath, new Blob([new Uint8Array(pdfBytes)], { type: 'application/pdf' }), {
+      contentType: 'application/pdf',
+      upsert: false,
+      cacheControl: '3600',
+    });
+  if (uploadErr) {
+    throw new ReceiptIssueError('upload', `Receipt upload failed: ${uploadErr.message}`, { cause: uploadErr });
+  }
+
+  const { error: updateErr } = await supabase.rpc('update_donation_receipt_path', {
+    p_donation_id: donationId,
+    p_receipt_path: storagePath,
+  });
+  if (updateErr) {
+    // Do not leave an orphaned PDF behind a donation that does not point at it
+    await supabase.storage.from('receipts').remove([storagePath]).catch(() => undefined);
+    throw new ReceiptIssueError('record', `Failed to record receipt path: ${updateErr.message}`, { cause: updateErr });
+  }
+
+  return { details, storagePath, pdfSize: pdfBytes.length };
+}
+
+// One row of a bulk approval result (approve_import_batch, approve_reconciliation_matches)
+export interface BulkApprovalOutcome {
+  donation_request_id: string;
+  donation_id: string | null;
+  outcome: 'approved' | 'first_approval' | 'failed';
+  message: string | null;
+}
+
+/**
+ * Issues receipts for the donations a bulk approval just approved, one at a time. When a receipt
+ * fails, that approval is rolled back and the row is turned into "failed" with a message saying
+ * whether the rollback worked. Mutates and returns the given results.
+ */
+export async function issueReceiptsForApprovals<T extends BulkApprovalOutcome>(
+  supabase: SupabaseClient,
+  results: T[],
+  logContext: Record<string, unknown> = {}
+): Promise<T[]> {
+  for (const result of results) {
+    if (result.outcome !== 'approved' || !result.donation_id) continue;
+    try {
+      await issueDonationReceipt(supabase, result.donation_id);
+    } catch (receiptErr) {
+      const message = errorMessage(receiptErr);
+      logger.error('[Financials] Receipt for bulk-approved donation failed', {
+        ...logContext,
+        donationRequestId: result.donation_request_id,
+        donationId: result.donation_id,
+        err: message,
+      });
+      const { error: rollbackErr } = await supabase.rpc('rollback_approved_donation', { p_donation_id: result.donation_id });
+      if (rollbackErr) {
+        logger.error('[Financials] Rollback after receipt failure failed', { donationId: result.donation_id, error: rollbackErr });
+      }
+      result.outcome = 'failed';
+      result.message = rollbackErr
+        ? `Approved, but the receipt could not be issued (${message})`
+        : `Receipt could not be issued (${message}); the approval was undone`;
+      result.donation_id = rollbackErr ? result.donation_id : null;
+    }
+  }
+  return results;
+}
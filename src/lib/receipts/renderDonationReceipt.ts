@@ -0,0 +1,82 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { generateReceiptPDF } from '@/lib/receipts/generateReceipt';
+import { fetchInKindReceiptItems, generateInKindReceiptPDF } from '@/lib/receipts/generateInKindReceipt';
+import { createReceiptVerificationToken, getReceiptVerificationUrl } from '@/lib/receipts/verificationToken';
+import { isInKindPaymentMode } from '@/lib/financials/inKind';
+import { formatTribute } from '@/lib/financials/tributes';
+
+// One row of public.get_donation_receipt_details
+export interface DonationReceiptDetails {
+  donation_id: string;
+  donor_human_id: string;
+  donor_name: string | null;
+  phone_number: string | null;
+  address: string | null;
+  amount: number | string;
+  currency: string;
+  exchange_rate: number | string | null;
+  base_amount: number | string | null;
+  donation_date: string;
+  category_name: string | null;
+  project_name: string | null;
+  donation_type: string;
+  payment_method: string;
+  transaction_id: string | null;
+  approved_by_name: string | null;
+  receipt_number: string | null;
+  tribute_type?: string | null;
+  tribute_name?: string | null;
+  tribute_notify_name?: string | null;
+  tribute_notify_email?: string | null;
+  tribute_notify_address?: string | null;
+}
+
+// Renders the receipt for an approved donation: the cash layout, or the item list for goods.
+// Approval, void & reissue and donor merges all go through here so their receipts match.
+export async function renderDonationReceiptPDF(
+  supabase: SupabaseClient,
+  details: DonationReceiptDetails,
+  options: { replaces_receipt_number?: string } = {}
+): Promise<Uint8Array> {
+  // Signed link for the "Scan to Verify" QR code (public /verify/receipt/[token])
+  const verificationToken = createReceiptVerificationToken({
+    donation_id: details.donation_id,
+    amount: details.amount,
+    currency: details.currency,
+    receipt_number: details.receipt_number,
+  });
+
+  const receiptFields = {
+    donation_id: details.donation_id,
+    donor_id: details.donor_human_id,
+    donor_name: details.donor_name || 'N/A',
+    phone_number: details.phone_number || 'N/A',
+    address: details.address || 'N/A',
+    donation_date: details.donation_date,
+    category_name: details.category_name ?? undefined,
+    project_name: details.project_name ?? undefined,
+    donation_type: details.donation_type,
+    approved_by_name: details.approved_by_name || undefined,
+    receipt_number: details.receipt_number ?? undefined,
+    replaces_receipt_number: options.replaces_receipt_number,
+    verification_url: getReceiptVerificationUrl(verificationToken),
+    tribute: formatTribute(details.tribute_type, details.tribute_name) ?? undefined,
+  };
+
+  if (isInKindPaymentMode(details.payment_method)) {
+    return generateInKindReceiptPDF({
+      ...receiptFields,
+      ...(await fetchInKindReceiptItems(supabase, details.donation_id)),
+    });
+  }
+
+  return generateReceiptPDF({
+    ...receiptFields,
+    amount: details.amount,
+    currency: details.currency,
+    exchange_rate: details.exchange_rate ?? undefined,
+    base_amount: details.base_amount ?? undefined,
+    payment_method: details.payment_method,
+    transaction_id: details.transaction_id ?? undefined,
+  });
+}
@@ -0,0 +1,17 @@
+// Paths inside the 'receipts' Storage bucket (without the bucket prefix).
+// Every receipt number gets its own file, so a voided receipt keeps its original PDF.
+
+export function getReceiptStoragePath(donationId: string, receiptNumber?: string | null): string {
+  // Legacy donations approved before sequential numbering have no receipt number
+  return receiptNumber ? `donations/${donationId}/${receiptNumber}.pdf` : `donations/${donationId}.pdf`;
+}
+
+// A receipt regenerated under the same number (e.g. after a donor merge) goes next to the
+// original instead of over it; version says why, e.g. "merge-<merge_id>"
+export function getRegeneratedReceiptStoragePath(donationId: string, receiptNumber: string | null | undefined, version: string): string {
+  return receiptNumber ? `donations/${donationId}/${receiptNumber}-${version}.pdf` : `donations/${donationId}-${version}.pdf`;
+}
+
+export function getVoidReceiptStoragePath(donationId: string, receiptNumber: string): string {
+  return `donations/${donationId}/${receiptNumber}-VOID.pdf`;
+}
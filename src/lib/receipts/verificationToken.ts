@@ -0,0 +1,87 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Signed token embedded in the "Scan to Verify" QR code on donation receipts.
+// Format: base64url(JSON payload) + '.' + base64url(HMAC-SHA256(payload))
+// The token only proves what was printed; the donation itself is re-checked in the database.
+
+const TOKEN_VERSION = 1;
+
+export interface ReceiptTokenPayload {
+  v: number;
+  donation_id: string;
+  amount: string; // printed amount, fixed to 2 decimals
+  currency: string;
+  receipt_number?: string; // official receipt number, absent on tokens issued before sequential numbering
+}
+
+// Shown to admins when a receipt cannot be signed; see "Environment Variables" in DEVELOPER_GUIDE.md
+export const RECEIPT_SIGNING_NOT_CONFIGURED =
+  'Receipt signing is not configured: set RECEIPT_VERIFICATION_SECRET on the server and restart it';
+
+/**
+ * Whether receipts can be signed. Routes that issue receipts check this before changing any
+ * data, so a missing secret is reported as a setup problem instead of a failed approval.
+ */
+export function isReceiptSigningConfigured(): boolean {
+  return Boolean(process.env.RECEIPT_VERIFICATION_SECRET);
+}
+
+function getSigningSecret(): string {
+  const secret = process.env.RECEIPT_VERIFICATION_SECRET;
+  if (!secret) {
+    throw new Error(RECEIPT_SIGNING_NOT_CONFIGURED);
+  }
+  return secret;
+}
+
+function sign(encodedPayload: string): string {
+  return createHmac('sha256', getSigningSecret()).update(encodedPayload).digest('base64url');
+}
+
+export function formatReceiptAmount(amount: number | string | undefined): string {
+  return parseFloat(String(amount ?? '0')).toFixed(2);
+}
+
+export function createReceiptVerificationToken(input: {
+  donation_id: string;
+  amount: number | string | undefined;
+  currency?: string;
+  receipt_number?: string | null;
+}): string {
+  const payload: ReceiptTokenPayload = {
+    v: TOKEN_VERSION,
+    donation_id: input.donation_id,
+    amount: formatReceiptAmount(input.amount),
+    currency: input.currency || 'PKR',
+    ...(input.receipt_number ? { receipt_number: input.receipt_number } : {}),
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Returns the payload when the signature is valid, otherwise null.
+ */
+export function verifyReceiptVerificationToken(token: string): ReceiptTokenPayload | null {
+  const [encoded, signature, ...rest] = String(token || '').split('.');
+  if (!encoded || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8')) as ReceiptTokenPayload;
+    if (payload?.v !== TOKEN_VERSION || !payload.donation_id || !payload.amount) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+export function getReceiptVerificationUrl(token: string): string {
+  const baseUrl = (process.env.NEXT_PUBLIC_APP_URL || '').replace(/\/$/, '');
+  return `${baseUrl}/verify/receipt/${token}`;
+}
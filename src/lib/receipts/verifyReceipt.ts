@@ -0,0 +1,94 @@
+import { createClient } from '@supabase/supabase-js';
+import { formatReceiptAmount, verifyReceiptVerificationToken } from '@/lib/receipts/verificationToken';
+
+export type ReceiptVerificationStatus =
+  | 'valid'
+  | 'invalid_token'
+  | 'not_found'
+  | 'not_approved'
+  | 'voided'
+  | 'amount_mismatch';
+
+// Only non-sensitive fields are exposed to the public verification page
+export interface VerifiedReceipt {
+  donation_human_id: string | null;
+  receipt_id: string | null;
+  donor_initials: string | null;
+  amount: number;
+  currency: string;
+  donation_date: string;
+  donation_type: string;
+  project_name: string | null;
+  approved_at: string | null;
+}
+
+export interface ReceiptVerificationResult {
+  status: ReceiptVerificationStatus;
+  message: string;
+  receipt?: VerifiedReceipt;
+}
+
+const MESSAGES: Record<ReceiptVerificationStatus, string> = {
+  valid: 'This receipt is genuine and matches our records.',
+  invalid_token: 'This verification code is not valid.',
+  not_found: 'No donation matches this receipt.',
+  not_approved: 'This donation has not been approved.',
+  voided: 'This receipt has been voided and replaced by a corrected receipt.',
+  amount_mismatch: 'The amount printed on this receipt does not match our records.',
+};
+
+function result(status: ReceiptVerificationStatus, receipt?: VerifiedReceipt): ReceiptVerificationResult {
+  return { status, message: MESSAGES[status], ...(receipt ? { receipt } : {}) };
+}
+
+// public.verify_donation_receipt is granted to the service role only, so that it can never be
+// reached without a valid signed token. Server-side use only.
+function createVerificationClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    throw new Error('Receipt verification is not configured: set SUPABASE_SERVICE_ROLE_KEY on the server');
+  }
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+}
+
+export async function verifyReceipt(token: string): Promise<ReceiptVerificationResult> {
+  let payload;
+  try {
+    payload = verifyReceiptVerificationToken(token);
+  } catch {
+    // Signing secret missing: treat as unverifiable rather than leaking configuration errors
+    payload = null;
+  }
+  if (!payload) return result('invalid_token');
+
+  // Only a token signed by us gets as far as the database
+  const supabase = createVerificationClient();
+  const { data, error } = await supabase.rpc('verify_donation_receipt', { p_donation_id: payload.donation_id });
+  if (error) throw error;
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (!row) return result('not_found');
+
+  const receipt: VerifiedReceipt = {
+    donation_human_id: row.donation_human_id ?? null,
+    receipt_id: row.receipt_id ?? null,
+    donor_initials: row.donor_initials ?? null,
+    amount: Number(row.amount ?? 0),
+    currency: row.currency,
+    donation_date: row.donation_date,
+    donation_type: row.donation_type,
+    project_name: row.project_name ?? null,
+    approved_at: row.approved_at ?? null,
+  };
+
+  if (!row.is_approved) return result('not_approved');
+  // A receipt number that is no longer the donation's current one was voided on reissue
+  if (payload.receipt_number && payload.receipt_number !== row.receipt_id) return result('voided');
+  if (formatReceiptAmount(row.amount) !== payload.amount || row.currency !== payload.currency) {
+    return result('amount_mismatch');
+  }
+
+  return result('valid', receipt);
+}
@@ -0,0 +1,50 @@
+import { PDFDocument, rgb, StandardFonts, degrees } from 'pdf-lib';
+
+export interface VoidStampInput {
+  receipt_number: string;
+  replaced_by: string; // receipt number of the corrected receipt
+  reason: string;
+  voided_at?: string; // ISO timestamp, defaults to now
+}
+
+/**
+ * Stamps an existing receipt PDF with a diagonal VOID watermark and a footer note
+ * pointing to the replacement receipt. The original content is left untouched.
+ */
+export async function stampVoidReceiptPDF(originalPdf: Uint8Array, input: VoidStampInput): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(originalPdf);
+  const fontBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const voidColor = rgb(0.8, 0.1, 0.1);
+
+  const voidedOn = new Date(input.voided_at || Date.now()).toLocaleDateString();
+  const note = `Receipt ${input.receipt_number} voided on ${voidedOn}. Replaced by ${input.replaced_by}. Reason: ${input.reason}`;
+
+  for (const page of pdfDoc.getPages()) {
+    const { width, height } = page.getSize();
+
+    const stampSize = 110;
+    const stampWidth = fontBold.widthOfTextAtSize('VOID', stampSize);
+    page.drawText('VOID', {
+      x: (width - stampWidth * Math.cos(Math.PI / 6)) / 2,
+      y: (height - stampWidth * Math.sin(Math.PI / 6)) / 2,
+      size: stampSize,
+      font: fontBold,
+      color: voidColor,
+      opacity: 0.3,
+      rotate: degrees(30),
+    });
+
+    // Keep the note on one line; long reasons are truncated on the PDF (the full reason is in the audit trail)
+    let noteText = note;
+    if (font.widthOfTextAtSize(noteText, 8) > width - 80) {
+      while (noteText.length > 0 && font.widthOfTextAtSize(`${noteText}...`, 8) > width - 80) {
+        noteText = noteText.slice(0, -1);
+      }
+      noteText = `${noteText}...`;
+    }
+    page.drawText(noteText, { x: 40, y: 8, size: 8, font, color: voidColor });
+  }
+
+  return pdfDoc.save();
+}
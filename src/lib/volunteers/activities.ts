@@ -0,0 +1,89 @@
+// Volunteer activity logging (public.type_of_activity / public.site_status / public.volunteer_activity_status).
+
+export const ACTIVITY_TYPES = ['project_management', 'field_work', 'tech_work', 'admin_work'] as const;
+
+export type ActivityType = (typeof ACTIVITY_TYPES)[number];
+
+export const ACTIVITY_TYPE_LABELS: Record<ActivityType, string> = {
+  project_management: 'Project management',
+  field_work: 'Field work',
+  tech_work: 'Tech work',
+  admin_work: 'Admin work',
+};
+
+export const SITE_STATUSES = ['on_site', 'remote'] as const;
+
+export type SiteStatus = (typeof SITE_STATUSES)[number];
+
+export const SITE_STATUS_LABELS: Record<SiteStatus, string> = {
+  on_site: 'On site',
+  remote: 'Remote',
+};
+
+export const ACTIVITY_STATUSES = ['pending', 'approved', 'rejected', 'revised'] as const;
+
+export type ActivityStatus = (typeof ACTIVITY_STATUSES)[number];
+
+// Decisions an admin can take on a pending request
+export const REVIEW_DECISIONS = ['approved', 'revised', 'rejected'] as const;
+
+export type ReviewDecision = (typeof REVIEW_DECISIONS)[number];
+
+export type ActivityInput = {
+  event_id: string;
+  hours_contributed: number;
+  type_of_activity: ActivityType;
+  people_helped: number | null;
+  site_status: SiteStatus;
+  description: string | null;
+};
+
+export function isActivityStatus(value: unknown): value is ActivityStatus {
+  return typeof value === 'string' && (ACTIVITY_STATUSES as readonly string[]).includes(value);
+}
+
+export function isReviewDecision(value: unknown): value is ReviewDecision {
+  return typeof value === 'string' && (REVIEW_DECISIONS as readonly string[]).includes(value);
+}
+
+// Validates a JSON body for logging (or resubmitting) volunteer activity
+export function parseActivityInput(raw: unknown): { activity: ActivityInput } | { error: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { error: 'Invalid request body' };
+  const r = raw as Record<string, unknown>;
+
+  const event_id = typeof r.event_id === 'string' ? r.event_id.trim() : '';
+  if (!event_id) return { error: 'Choose the event you volunteered at' };
+
+  const hours = Number(r.hours_contributed);
+  if (!Number.isInteger(hours) || hours <= 0) {
+    return { error: 'Hours contributed must be a whole number greater than zero' };
+  }
+
+  if (typeof r.type_of_activity !== 'string' || !(ACTIVITY_TYPES as readonly string[]).includes(r.type_of_activity)) {
+    return { error: 'Invalid activity type' };
+  }
+  if (typeof r.site_status !== 'string' || !(SITE_STATUSES as readonly string[]).includes(r.site_status)) {
+    return { error: 'Site status must be on site or remote' };
+  }
+
+  let people_helped: number | null = null;
+  if (r.people_helped !== undefined && r.people_helped !== null && r.people_helped !== '') {
+    people_helped = Number(r.people_helped);
+    if (!Number.isInteger(people_helped) || people_helped < 0) {
+      return { error: 'People helped must be a whole number of zero or more' };
+    }
+  }
+
+  const description = typeof r.description === 'string' && r.description.trim() ? r.description.trim() : null;
+
+  return {
+    activity: {
+      event_id,
+      hours_contributed: hours,
+      type_of_activity: r.type_of_activity as ActivityType,
+      people_helped,
+      site_status: r.site_status as SiteStatus,
+      description,
+    },
+  };
+}
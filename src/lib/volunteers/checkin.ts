@@ -0,0 +1,33 @@
+// Event attendance QR codes. The code carries only the volunteer's opaque checkin_token.
+
+const CHECKIN_PREFIX = 'volunteer-checkin:';
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type AttendanceScanAction = 'checked_in' | 'checked_out' | 'already_checked_in';
+
+// Result of scan_event_attendance
+export type AttendanceScanResult = {
+  action: AttendanceScanAction;
+  attendance_id: string;
+  volunteer_number: string | null;
+  full_name: string;
+  checked_in_at: string;
+  checked_out_at?: string;
+  // Set when the check-out came after the shift or event ended; minutes are counted up to it
+  counted_until?: string | null;
+  minutes?: number;
+  hours_contributed?: number;
+  volunteer_activity_request_id?: string | null;
+};
+
+export function buildCheckinPayload(token: string): string {
+  return `${CHECKIN_PREFIX}${token}`;
+}
+
+// Accepts a scanned payload or a token typed in by hand; returns null for anything else
+export function parseCheckinPayload(raw: string): string | null {
+  const value = raw.trim();
+  const token = value.toLowerCase().startsWith(CHECKIN_PREFIX) ? value.slice(CHECKIN_PREFIX.length) : value;
+  return UUID_RE.test(token) ? token.toLowerCase() : null;
+}
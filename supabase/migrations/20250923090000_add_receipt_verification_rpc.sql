@@ -0,0 +1,58 @@
+-- supabase/migrations/20250923090000_add_receipt_verification_rpc.sql
+-- Purpose: Public lookup behind the "Scan to Verify" QR code printed on donation receipts.
+-- The QR code carries a signed token (verified in the app); this RPC only exposes
+-- non-sensitive fields so that anonymous visitors can confirm a receipt is genuine. It is
+-- only executable by the service role, which the app uses once the token checks out.
+
+CREATE OR REPLACE FUNCTION public.verify_donation_receipt(p_donation_id uuid)
+RETURNS TABLE (
+  donation_id uuid,
+  donation_human_id text,
+  receipt_id text,
+  donor_initials text,
+  amount numeric,
+  currency public.enum_donation_currency,
+  donation_date date,
+  donation_type public.enum_donation_type,
+  project_name text,
+  is_approved boolean,
+  approved_at timestamptz
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    d.donation_id,
+    d.donation_human_id,
+    d.receipt_id,
+    -- Initials only (e.g. "M. A."), never the full donor name
+    NULLIF(
+      TRIM(BOTH ' ' FROM (
+        SELECT string_agg(upper(left(part, 1)) || '.', ' ')
+        FROM regexp_split_to_table(COALESCE(p.full_name, ''), '\s+') AS part
+        WHERE part <> ''
+      )),
+      ''
+    ) AS donor_initials,
+    d.amount,
+    d.currency,
+    d.donation_date,
+    d.donation_type,
+    proj.project_name,
+    (d.approved_by IS NOT NULL AND d.approved_at IS NOT NULL) AS is_approved,
+    d.approved_at
+  FROM public.donations d
+  LEFT JOIN public.donors dn ON dn.donor_id = d.donor_id
+  LEFT JOIN public.profiles p ON p.user_id = dn.user_id
+  LEFT JOIN public.projects proj ON proj.project_id = d.project_id
+  WHERE d.donation_id = p_donation_id
+  LIMIT 1;
+$$;
+
+-- Not callable from the browser: the app checks the signed token first and then calls this
+-- with the service role, so a bare donation uuid reveals nothing
+REVOKE ALL ON FUNCTION public.verify_donation_receipt(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_donation_receipt(uuid) TO service_role;
+
+COMMENT ON FUNCTION public.verify_donation_receipt(uuid) IS 'Returns non-sensitive receipt fields for public QR verification. SECURITY DEFINER; service role only, called after the app has verified the signed token.';
@@ -0,0 +1,412 @@
+-- supabase/migrations/20250923100000_add_sequential_receipt_numbers.sql
+-- Purpose: Official, gap-free receipt numbers per financial year (e.g. RCT-2025-00001).
+--
+-- - Numbers come from a counter row that is locked and incremented inside the approval
+--   transaction, so a failed approval rolls the counter back (no gaps, unlike sequences).
+-- - Every issued number is written to public.receipt_register. The register row survives
+--   rollback_approved_donation; the number is marked void and never reused.
+
+-- 1) Financial year helper (July to June). FY 2025 = 1 Jul 2025 .. 30 Jun 2026.
+CREATE OR REPLACE FUNCTION public.financial_year_of(p_date date)
+RETURNS int
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN EXTRACT(MONTH FROM p_date)::int >= 7 THEN EXTRACT(YEAR FROM p_date)::int
+    ELSE EXTRACT(YEAR FROM p_date)::int - 1
+  END;
+$$;
+
+COMMENT ON FUNCTION public.financial_year_of(date) IS 'Returns the financial year (July-June) a date falls in, labelled by its starting calendar year.';
+
+-- 2) Counter per financial year
+CREATE TABLE IF NOT EXISTS public.receipt_number_series (
+  financial_year int PRIMARY KEY,
+  last_val int NOT NULL DEFAULT 0
+);
+
+ALTER TABLE public.receipt_number_series ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS receipt_number_series_admin_select ON public.receipt_number_series;
+CREATE POLICY receipt_number_series_admin_select ON public.receipt_number_series
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+-- 3) Register of every receipt number ever issued
+CREATE TABLE IF NOT EXISTS public.receipt_register (
+  receipt_number text PRIMARY KEY,
+  financial_year int NOT NULL,
+  sequence int NOT NULL,
+  -- No FK: the donation row is deleted on rollback but the register entry must remain
+  donation_id uuid NOT NULL,
+  donation_request_id uuid REFERENCES public.donation_requests(donation_request_id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'issued' CHECK (status IN ('issued', 'void')),
+  issued_by uuid REFERENCES auth.users(id),
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  voided_by uuid REFERENCES auth.users(id),
+  voided_at timestamptz,
+  void_reason text,
+  UNIQUE (financial_year, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_receipt_register_donation ON public.receipt_register(donation_id);
+
+ALTER TABLE public.receipt_register ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS receipt_register_admin_select ON public.receipt_register;
+CREATE POLICY receipt_register_admin_select ON public.receipt_register
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+COMMENT ON TABLE public.receipt_register IS 'Audit register of official receipt numbers. Rows are never deleted; rolled back approvals are marked void.';
+
+-- 4) Columns on donations
+ALTER TABLE public.donations
+  ADD COLUMN IF NOT EXISTS receipt_number text UNIQUE;
+
+-- rollback_approved_donation relies on this link to reset the originating request
+ALTER TABLE public.donations
+  ADD COLUMN IF NOT EXISTS donation_request_id uuid REFERENCES public.donation_requests(donation_request_id) ON DELETE SET NULL;
+
+-- 5) Allocate the next number for a financial year (must run inside the caller's transaction)
+CREATE OR REPLACE FUNCTION public.next_receipt_number(p_date date DEFAULT CURRENT_DATE)
+RETURNS TABLE (receipt_number text, financial_year int, sequence int)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_fy int := public.financial_year_of(p_date);
+  v_seq int;
+BEGIN
+  -- Row lock serialises concurrent approvals; increment is undone if the transaction aborts
+  INSERT INTO public.receipt_number_series AS s (financial_year, last_val)
+  VALUES (v_fy, 1)
+  ON CONFLICT (financial_year)
+  DO UPDATE SET last_val = s.last_val + 1
+  RETURNING s.last_val INTO v_seq;
+
+  RETURN QUERY SELECT format('RCT-%s-%s', v_fy, lpad(v_seq::text, 5, '0')), v_fy, v_seq;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.next_receipt_number(date) FROM PUBLIC;
+
+-- 6) approve_donation_request: now assigns the official receipt number atomically
+CREATE OR REPLACE FUNCTION public.approve_donation_request(
+  p_donation_request_id uuid
+)
+RETURNS public.donations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_req public.donation_requests;
+  v_donation public.donations;
+  v_actor uuid := auth.uid();
+  v_receipt record;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can approve donation requests' USING ERRCODE = '42501';
+  END IF;
+
+  -- Load request with lock to avoid double-approval
+  SELECT * INTO v_req
+  FROM public.donation_requests
+  WHERE donation_request_id = p_donation_request_id
+  FOR UPDATE;
+
+  IF v_req.donation_request_id IS NULL THEN
+    RAISE EXCEPTION 'Donation request not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_req.status <> 'Pending'::public.enum_request_status THEN
+    RAISE EXCEPTION 'Donation request is not pending (current status: %)', v_req.status USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Official receipt number for the financial year of issue
+  SELECT * INTO v_receipt FROM public.next_receipt_number(CURRENT_DATE);
+
+  -- Create donation row (human IDs populated by trigger)
+  INSERT INTO public.donations (
+    donor_id,
+    amount,
+    currency,
+    category_id,
+    project_id,
+    mode_of_payment,
+    donation_type,
+    donation_date,
+    transaction_id,
+    receipt_number,
+    donation_request_id,
+    created_by,
+    approved_by,
+    approved_at
+  ) VALUES (
+    v_req.donor_id,
+    v_req.amount,
+    v_req.currency,
+    v_req.category_id,
+    v_req.project_id,
+    v_req.mode_of_payment,
+    v_req.donation_type,
+    v_req.donation_date,
+    v_req.transaction_id,
+    v_receipt.receipt_number,
+    v_req.donation_request_id,
+    v_actor,
+    v_actor,
+    now()
+  ) RETURNING * INTO v_donation;
+
+  INSERT INTO public.receipt_register (
+    receipt_number, financial_year, sequence, donation_id, donation_request_id, status, issued_by, issued_at
+  ) VALUES (
+    v_receipt.receipt_number, v_receipt.financial_year, v_receipt.sequence,
+    v_donation.donation_id, v_req.donation_request_id, 'issued', v_actor, now()
+  );
+
+  UPDATE public.donation_requests
+  SET status = 'Approved'::public.enum_request_status,
+      approved_by = v_actor,
+      approved_at = now(),
+      rejection_reason = NULL
+  WHERE donation_request_id = v_req.donation_request_id;
+
+  RETURN v_donation;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.approve_donation_request(uuid) TO authenticated;
+
+-- 7) rollback_approved_donation: keep the receipt number, mark it void
+CREATE OR REPLACE FUNCTION public.rollback_approved_donation(p_donation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donation public.donations;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can roll back donations' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_donation
+  FROM public.donations
+  WHERE donation_id = p_donation_id
+  FOR UPDATE;
+
+  IF v_donation.donation_id IS NULL THEN
+    RAISE EXCEPTION 'Donation not found for rollback';
+  END IF;
+
+  UPDATE public.receipt_register
+  SET status = 'void',
+      voided_by = auth.uid(),
+      voided_at = now(),
+      void_reason = 'Approval rolled back'
+  WHERE donation_id = v_donation.donation_id
+    AND status = 'issued';
+
+  IF v_donation.donation_request_id IS NOT NULL THEN
+    UPDATE public.donation_requests
+    SET
+      status = 'Pending'::public.enum_request_status,
+      approved_by = NULL,
+      approved_at = NULL,
+      rejection_reason = NULL
+    WHERE donation_request_id = v_donation.donation_request_id;
+  END IF;
+
+  DELETE FROM public.donations
+  WHERE donation_id = p_donation_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rollback_approved_donation(uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.rollback_approved_donation(uuid) IS 'Reverts a donation approval when subsequent steps fail. The receipt number stays in receipt_register as void.';
+
+-- 8) Receipt details now include the official receipt number
+DROP FUNCTION IF EXISTS public.get_donation_receipt_details(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_donation_receipt_details(p_donation_id uuid)
+RETURNS TABLE (
+  donation_id uuid,
+  donor_human_id text,
+  donor_name text,
+  phone_number text,
+  address text,
+  amount numeric,
+  currency public.enum_donation_currency,
+  donation_date date,
+  payment_method public.enum_payment_mode,
+  transaction_id text,
+  category_name text,
+  project_name text,
+  donation_type public.enum_donation_type,
+  approved_by_name text,
+  receipt_number text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can fetch receipt details.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.donation_id,
+    dn.donor_number AS donor_human_id,
+    COALESCE(p.full_name, 'N/A') AS donor_name,
+    COALESCE(p.phone_number, 'N/A') AS phone_number,
+    COALESCE(
+      CASE
+        WHEN jsonb_typeof(p.address) = 'object' THEN
+          TRIM(BOTH ', ' FROM
+            CONCAT_WS(', ',
+              NULLIF(p.address->>'street', ''),
+              NULLIF(p.address->>'city', ''),
+              NULLIF(p.address->>'state', ''),
+              NULLIF(p.address->>'country', ''),
+              NULLIF(p.address->>'postalCode', '')
+            )
+          )
+        ELSE 'N/A'
+      END,
+      'N/A'
+    ) AS address,
+    d.amount,
+    d.currency,
+    d.donation_date,
+    d.mode_of_payment AS payment_method,
+    COALESCE(d.transaction_id, 'N/A') AS transaction_id,
+    COALESCE(dc.donation_category_name, 'N/A') AS category_name,
+    COALESCE(proj.project_name, 'N/A') AS project_name,
+    d.donation_type,
+    COALESCE(approver_p.full_name, 'N/A') AS approved_by_name,
+    d.receipt_number
+  FROM public.donations d
+  LEFT JOIN public.donors dn ON d.donor_id = dn.donor_id
+  LEFT JOIN public.profiles p ON dn.user_id = p.user_id
+  LEFT JOIN public.donation_categories dc ON d.category_id = dc.donation_category_id
+  LEFT JOIN public.projects proj ON d.project_id = proj.project_id
+  LEFT JOIN public.profiles approver_p ON d.approved_by = approver_p.user_id
+  WHERE d.donation_id = p_donation_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_donation_receipt_details(uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.get_donation_receipt_details(uuid) IS 'Fetches all necessary details for a donation receipt, including the official receipt number. Admin-only. SECURITY DEFINER.';
+
+-- 9) Public verification shows the official receipt number
+DROP FUNCTION IF EXISTS public.verify_donation_receipt(uuid);
+
+CREATE OR REPLACE FUNCTION public.verify_donation_receipt(p_donation_id uuid)
+RETURNS TABLE (
+  donation_id uuid,
+  donation_human_id text,
+  receipt_id text,
+  donor_initials text,
+  amount numeric,
+  currency public.enum_donation_currency,
+  donation_date date,
+  donation_type public.enum_donation_type,
+  project_name text,
+  is_approved boolean,
+  approved_at timestamptz
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    d.donation_id,
+    d.donation_human_id,
+    COALESCE(d.receipt_number, d.receipt_id) AS receipt_id,
+    NULLIF(
+      TRIM(BOTH ' ' FROM (
+        SELECT string_agg(upper(left(part, 1)) || '.', ' ')
+        FROM regexp_split_to_table(COALESCE(p.full_name, ''), '\s+') AS part
+        WHERE part <> ''
+      )),
+      ''
+    ) AS donor_initials,
+    d.amount,
+    d.currency,
+    d.donation_date,
+    d.donation_type,
+    proj.project_name,
+    (d.approved_by IS NOT NULL AND d.approved_at IS NOT NULL) AS is_approved,
+    d.approved_at
+  FROM public.donations d
+  LEFT JOIN public.donors dn ON dn.donor_id = d.donor_id
+  LEFT JOIN public.profiles p ON p.user_id = dn.user_id
+  LEFT JOIN public.projects proj ON proj.project_id = d.project_id
+  WHERE d.donation_id = p_donation_id
+  LIMIT 1;
+$$;
+
+REVOKE ALL ON FUNCTION public.verify_donation_receipt(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_donation_receipt(uuid) TO service_role;
+
+-- 10) Donors see their receipt number
+DROP FUNCTION IF EXISTS public.get_my_donations();
+
+CREATE OR REPLACE FUNCTION public.get_my_donations()
+RETURNS TABLE (
+  donation_id uuid,
+  donation_human_id text,
+  receipt_number text,
+  amount numeric,
+  currency text,
+  category_id uuid,
+  category_name text,
+  project_id uuid,
+  project_name text,
+  donation_date date,
+  receipt_pdf_path text
+)
+LANGUAGE sql
+SECURITY INVOKER
+AS $$
+  WITH me AS (
+    SELECT d.donor_id
+    FROM public.donors d
+    WHERE d.user_id = auth.uid()
+  )
+  SELECT
+    dn.donation_id,
+    dn.donation_human_id,
+    dn.receipt_number,
+    dn.amount,
+    dn.currency,
+    dn.category_id,
+    dc.donation_category_name AS category_name,
+    dn.project_id,
+    pj.project_name,
+    dn.donation_date,
+    dn.receipt_pdf_path
+  FROM public.donations dn
+  JOIN me ON me.donor_id = dn.donor_id
+  LEFT JOIN public.donation_categories dc ON dc.donation_category_id = dn.category_id
+  LEFT JOIN public.projects pj ON pj.project_id = dn.project_id
+  ORDER BY dn.donation_date DESC, dn.created_at DESC;
+$$;
+
+COMMENT ON FUNCTION public.get_my_donations()
+IS 'Lists all donations for the currently authenticated donor with joined names, receipt number and receipt path.';
+
+GRANT EXECUTE ON FUNCTION public.get_my_donations() TO authenticated;
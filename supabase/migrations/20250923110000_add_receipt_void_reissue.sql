@@ -0,0 +1,343 @@
+-- supabase/migrations/20250923110000_add_receipt_void_reissue.sql
+-- Purpose: Admin "void & reissue" for approved donations with a full correction trail.
+--
+-- - The original receipt number is marked void in receipt_register (never deleted or reused).
+-- - A new receipt number is issued that references the voided one (replaces_receipt_number).
+-- - donation_corrections records who corrected what, when and why (old and new values).
+-- - Each receipt version keeps its own PDF in Storage; voided versions get a VOID-watermarked copy.
+
+-- 1) Receipt versions: PDF paths and replacement chain
+ALTER TABLE public.receipt_register
+  ADD COLUMN IF NOT EXISTS pdf_path text,
+  ADD COLUMN IF NOT EXISTS void_pdf_path text,
+  ADD COLUMN IF NOT EXISTS replaces_receipt_number text REFERENCES public.receipt_register(receipt_number);
+
+-- Backfill PDF paths for receipts issued before this migration
+UPDATE public.receipt_register rr
+SET pdf_path = d.receipt_pdf_path
+FROM public.donations d
+WHERE d.receipt_number = rr.receipt_number
+  AND rr.pdf_path IS NULL
+  AND d.receipt_pdf_path IS NOT NULL;
+
+-- Keep receipt_register.pdf_path in step with the donation's current receipt
+CREATE OR REPLACE FUNCTION public.sync_receipt_register_pdf_path()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.receipt_number IS NOT NULL AND NEW.receipt_pdf_path IS DISTINCT FROM OLD.receipt_pdf_path THEN
+    UPDATE public.receipt_register
+    SET pdf_path = NEW.receipt_pdf_path
+    WHERE receipt_number = NEW.receipt_number;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_receipt_register_pdf_path ON public.donations;
+CREATE TRIGGER trg_sync_receipt_register_pdf_path
+AFTER UPDATE OF receipt_pdf_path ON public.donations
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_receipt_register_pdf_path();
+
+-- 2) Correction trail
+CREATE TABLE IF NOT EXISTS public.donation_corrections (
+  correction_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  donation_id uuid NOT NULL REFERENCES public.donations(donation_id) ON DELETE RESTRICT,
+  voided_receipt_number text NOT NULL REFERENCES public.receipt_register(receipt_number),
+  new_receipt_number text NOT NULL REFERENCES public.receipt_register(receipt_number),
+  reason text NOT NULL CHECK (length(trim(reason)) > 0),
+  previous_values jsonb NOT NULL,
+  corrected_values jsonb NOT NULL,
+  corrected_by uuid NOT NULL REFERENCES auth.users(id),
+  corrected_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_donation_corrections_donation ON public.donation_corrections(donation_id);
+
+ALTER TABLE public.donation_corrections ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS donation_corrections_admin_select ON public.donation_corrections;
+CREATE POLICY donation_corrections_admin_select ON public.donation_corrections
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+COMMENT ON TABLE public.donation_corrections IS 'Audit trail of void & reissue corrections on approved donations.';
+
+-- 3) RPC: void_and_reissue_receipt
+-- Corrects amount and/or donor on an approved donation, voids the current receipt number
+-- and issues a new one that references it. PDFs are generated by the API route afterwards.
+CREATE OR REPLACE FUNCTION public.void_and_reissue_receipt(
+  p_donation_id uuid,
+  p_reason text,
+  p_amount numeric DEFAULT NULL,
+  p_donor_number text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_donation public.donations;
+  v_new_donor_id uuid;
+  v_new_donor_number text;
+  v_receipt record;
+  v_correction_id uuid;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can void and reissue receipts' USING ERRCODE = '42501';
+  END IF;
+  IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to void a receipt' USING ERRCODE = '22023';
+  END IF;
+  IF p_amount IS NOT NULL AND p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_donation
+  FROM public.donations
+  WHERE donation_id = p_donation_id
+  FOR UPDATE;
+
+  IF v_donation.donation_id IS NULL THEN
+    RAISE EXCEPTION 'Donation not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_donation.receipt_number IS NULL THEN
+    RAISE EXCEPTION 'Donation has no official receipt number to void' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_new_donor_id := v_donation.donor_id;
+  v_new_donor_number := v_donation.donor_human_id;
+  IF p_donor_number IS NOT NULL AND length(trim(p_donor_number)) > 0 THEN
+    SELECT donor_id, donor_number INTO v_new_donor_id, v_new_donor_number
+    FROM public.donors
+    WHERE donor_number = trim(p_donor_number)
+    LIMIT 1;
+
+    IF v_new_donor_id IS NULL THEN
+      RAISE EXCEPTION 'Donor not found' USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  IF COALESCE(p_amount, v_donation.amount) = v_donation.amount AND v_new_donor_id = v_donation.donor_id THEN
+    RAISE EXCEPTION 'Nothing to correct: amount and donor are unchanged' USING ERRCODE = '22023';
+  END IF;
+
+  -- Void the current receipt
+  UPDATE public.receipt_register
+  SET status = 'void',
+      voided_by = v_actor,
+      voided_at = now(),
+      void_reason = trim(p_reason)
+  WHERE receipt_number = v_donation.receipt_number;
+
+  -- Issue the replacement
+  SELECT * INTO v_receipt FROM public.next_receipt_number(CURRENT_DATE);
+
+  INSERT INTO public.receipt_register (
+    receipt_number, financial_year, sequence, donation_id, donation_request_id,
+    status, issued_by, issued_at, replaces_receipt_number
+  ) VALUES (
+    v_receipt.receipt_number, v_receipt.financial_year, v_receipt.sequence,
+    v_donation.donation_id, v_donation.donation_request_id,
+    'issued', v_actor, now(), v_donation.receipt_number
+  );
+
+  UPDATE public.donations
+  SET amount = COALESCE(p_amount, amount),
+      donor_id = v_new_donor_id,
+      donor_human_id = v_new_donor_number,
+      receipt_number = v_receipt.receipt_number,
+      receipt_pdf_path = NULL
+  WHERE donation_id = v_donation.donation_id;
+
+  INSERT INTO public.donation_corrections (
+    donation_id, voided_receipt_number, new_receipt_number, reason,
+    previous_values, corrected_values, corrected_by
+  ) VALUES (
+    v_donation.donation_id, v_donation.receipt_number, v_receipt.receipt_number, trim(p_reason),
+    jsonb_build_object('amount', v_donation.amount, 'donor_id', v_donation.donor_id, 'donor_number', v_donation.donor_human_id),
+    jsonb_build_object('amount', COALESCE(p_amount, v_donation.amount), 'donor_id', v_new_donor_id, 'donor_number', v_new_donor_number),
+    v_actor
+  ) RETURNING correction_id INTO v_correction_id;
+
+  RETURN jsonb_build_object(
+    'donation_id', v_donation.donation_id,
+    'correction_id', v_correction_id,
+    'voided_receipt_number', v_donation.receipt_number,
+    'voided_pdf_path', v_donation.receipt_pdf_path,
+    'new_receipt_number', v_receipt.receipt_number
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.void_and_reissue_receipt(uuid, text, numeric, text) TO authenticated;
+
+COMMENT ON FUNCTION public.void_and_reissue_receipt(uuid, text, numeric, text) IS 'Voids the current receipt of an approved donation and issues a corrected one. Admin-only. SECURITY DEFINER.';
+
+-- 4) RPC: record the VOID-watermarked copy of a voided receipt
+CREATE OR REPLACE FUNCTION public.update_void_receipt_path(
+  p_receipt_number text,
+  p_void_pdf_path text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can update receipt paths';
+  END IF;
+
+  UPDATE public.receipt_register
+  SET void_pdf_path = p_void_pdf_path
+  WHERE receipt_number = p_receipt_number
+    AND status = 'void';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Voided receipt not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_void_receipt_path(text, text) TO authenticated;
+
+-- 5) RPC: list approved donations for admins (used by the void & reissue action)
+CREATE OR REPLACE FUNCTION public.list_approved_donations(p_limit int DEFAULT 100)
+RETURNS TABLE (
+  donation_id uuid,
+  donation_human_id text,
+  receipt_number text,
+  donor_number text,
+  donor_name text,
+  amount numeric,
+  currency public.enum_donation_currency,
+  category_name text,
+  project_name text,
+  donation_type public.enum_donation_type,
+  donation_date date,
+  approved_at timestamptz,
+  receipt_pdf_path text,
+  correction_count bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can list donations.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.donation_id,
+    d.donation_human_id,
+    d.receipt_number,
+    dn.donor_number,
+    COALESCE(pr.full_name, '') AS donor_name,
+    d.amount,
+    d.currency,
+    dc.donation_category_name AS category_name,
+    p.project_name,
+    d.donation_type,
+    d.donation_date,
+    d.approved_at,
+    d.receipt_pdf_path,
+    (SELECT COUNT(*) FROM public.donation_corrections c WHERE c.donation_id = d.donation_id) AS correction_count
+  FROM public.donations d
+  JOIN public.donors dn ON dn.donor_id = d.donor_id
+  LEFT JOIN public.profiles pr ON pr.user_id = dn.user_id
+  LEFT JOIN public.donation_categories dc ON dc.donation_category_id = d.category_id
+  LEFT JOIN public.projects p ON p.project_id = d.project_id
+  ORDER BY d.approved_at DESC
+  LIMIT GREATEST(COALESCE(p_limit, 100), 1);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_approved_donations(int) TO authenticated;
+
+-- 6) Donor-facing: every receipt version of the donor's own donations
+CREATE OR REPLACE FUNCTION public.get_my_donation_receipts()
+RETURNS TABLE (
+  donation_id uuid,
+  receipt_number text,
+  status text,
+  issued_at timestamptz,
+  voided_at timestamptz,
+  void_reason text,
+  replaces_receipt_number text,
+  has_pdf boolean
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    rr.donation_id,
+    rr.receipt_number,
+    rr.status,
+    rr.issued_at,
+    rr.voided_at,
+    rr.void_reason,
+    rr.replaces_receipt_number,
+    (CASE WHEN rr.status = 'void' THEN COALESCE(rr.void_pdf_path, rr.pdf_path) ELSE rr.pdf_path END) IS NOT NULL AS has_pdf
+  FROM public.receipt_register rr
+  JOIN public.donations d ON d.donation_id = rr.donation_id
+  JOIN public.donors dn ON dn.donor_id = d.donor_id
+  WHERE dn.user_id = auth.uid()
+  ORDER BY rr.donation_id, rr.issued_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_my_donation_receipts() TO authenticated;
+
+COMMENT ON FUNCTION public.get_my_donation_receipts() IS 'Lists current and voided receipt versions for the current donor''s donations.';
+
+-- 7) Receipt path lookup for a specific receipt version (voided versions return the VOID copy)
+CREATE OR REPLACE FUNCTION public.get_receipt_version_path_if_owner(
+  p_donation_id uuid,
+  p_receipt_number text
+)
+RETURNS text
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE WHEN rr.status = 'void' THEN COALESCE(rr.void_pdf_path, rr.pdf_path) ELSE rr.pdf_path END
+  FROM public.receipt_register rr
+  JOIN public.donations d ON d.donation_id = rr.donation_id
+  JOIN public.donors dn ON dn.donor_id = d.donor_id
+  WHERE rr.donation_id = p_donation_id
+    AND rr.receipt_number = p_receipt_number
+    AND dn.user_id = auth.uid()
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_receipt_version_path_if_owner(uuid, text) TO authenticated;
+
+-- 8) Storage: donors can read every receipt version of their own donations
+DROP POLICY IF EXISTS receipts_donor_read_versions ON storage.objects;
+CREATE POLICY receipts_donor_read_versions
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'receipts'
+  AND EXISTS (
+    SELECT 1
+    FROM public.receipt_register rr
+    JOIN public.donations d ON d.donation_id = rr.donation_id
+    JOIN public.donors dn ON dn.donor_id = d.donor_id
+    WHERE (rr.pdf_path = storage.objects.name OR rr.void_pdf_path = storage.objects.name)
+      AND dn.user_id = auth.uid()
+  )
+);
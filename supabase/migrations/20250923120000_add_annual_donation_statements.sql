@@ -0,0 +1,225 @@
+-- supabase/migrations/20250923120000_add_annual_donation_statements.sql
+-- Purpose: Annual consolidated tax / Zakat statement per donor.
+--
+-- - Statements cover one financial year (July-June, see public.financial_year_of).
+-- - Donors generate their own statement on demand; admins can bulk-generate statements
+--   for every donor and store them in the 'receipts' bucket under statements/{year}/.
+-- - donor_statements tracks the stored copies.
+
+-- 1) Stored statements
+CREATE TABLE IF NOT EXISTS public.donor_statements (
+  statement_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  donor_id uuid NOT NULL REFERENCES public.donors(donor_id) ON DELETE CASCADE,
+  financial_year int NOT NULL,
+  pdf_path text NOT NULL,
+  donation_count int NOT NULL DEFAULT 0,
+  total_amount numeric(14,2) NOT NULL DEFAULT 0,
+  generated_by uuid REFERENCES auth.users(id),
+  generated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (donor_id, financial_year)
+);
+
+CREATE INDEX IF NOT EXISTS idx_donor_statements_year ON public.donor_statements(financial_year);
+
+ALTER TABLE public.donor_statements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS donor_statements_admin_select ON public.donor_statements;
+CREATE POLICY donor_statements_admin_select ON public.donor_statements
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+COMMENT ON TABLE public.donor_statements IS 'Annual donation statements stored in the receipts bucket (one per donor per financial year).';
+
+-- 2) RPC: statement data for one donor and financial year
+-- p_donor_id NULL -> current user's donor record; otherwise admin-only.
+CREATE OR REPLACE FUNCTION public.get_donor_annual_statement(
+  p_financial_year int,
+  p_donor_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donor_id uuid := p_donor_id;
+  v_donor jsonb;
+  v_donations jsonb;
+  v_totals jsonb;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF v_donor_id IS NULL THEN
+    SELECT donor_id INTO v_donor_id FROM public.donors WHERE user_id = auth.uid();
+    IF v_donor_id IS NULL THEN
+      RAISE EXCEPTION 'Donor record not found' USING ERRCODE = 'P0002';
+    END IF;
+  ELSIF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can generate statements for other donors' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'donor_id', dn.donor_id,
+    'donor_number', dn.donor_number,
+    'donor_name', COALESCE(pr.full_name, ''),
+    'phone_number', pr.phone_number,
+    'cnic_number', pr.cnic_number,
+    'address', CASE
+      WHEN jsonb_typeof(pr.address) = 'object' THEN
+        NULLIF(TRIM(BOTH ', ' FROM CONCAT_WS(', ',
+          NULLIF(pr.address->>'street', ''),
+          NULLIF(pr.address->>'city', ''),
+          NULLIF(pr.address->>'state', ''),
+          NULLIF(pr.address->>'country', ''),
+          NULLIF(pr.address->>'postalCode', '')
+        )), '')
+      ELSE NULL
+    END
+  )
+  INTO v_donor
+  FROM public.donors dn
+  LEFT JOIN public.profiles pr ON pr.user_id = dn.user_id
+  WHERE dn.donor_id = v_donor_id;
+
+  IF v_donor IS NULL THEN
+    RAISE EXCEPTION 'Donor not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'donation_id', d.donation_id,
+    'donation_human_id', d.donation_human_id,
+    'receipt_number', COALESCE(d.receipt_number, d.receipt_id),
+    'donation_date', d.donation_date,
+    'donation_type', d.donation_type,
+    'amount', d.amount,
+    'currency', d.currency,
+    'category_name', dc.donation_category_name,
+    'project_name', p.project_name
+  ) ORDER BY d.donation_type, d.donation_date, d.donation_human_id), '[]'::jsonb)
+  INTO v_donations
+  FROM public.donations d
+  LEFT JOIN public.donation_categories dc ON dc.donation_category_id = d.category_id
+  LEFT JOIN public.projects p ON p.project_id = d.project_id
+  WHERE d.donor_id = v_donor_id
+    AND public.financial_year_of(d.donation_date) = p_financial_year;
+
+  SELECT COALESCE(jsonb_object_agg(t.donation_type, t.total), '{}'::jsonb)
+  INTO v_totals
+  FROM (
+    SELECT d.donation_type::text AS donation_type, SUM(d.amount) AS total
+    FROM public.donations d
+    WHERE d.donor_id = v_donor_id
+      AND public.financial_year_of(d.donation_date) = p_financial_year
+    GROUP BY d.donation_type
+  ) t;
+
+  RETURN jsonb_build_object(
+    'financial_year', p_financial_year,
+    'period_start', make_date(p_financial_year, 7, 1),
+    'period_end', make_date(p_financial_year + 1, 6, 30),
+    'donor', v_donor,
+    'donations', v_donations,
+    'totals_by_type', v_totals
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_donor_annual_statement(int, uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.get_donor_annual_statement(int, uuid) IS 'Approved donations of a donor in a financial year, grouped totals by donation type. Own record, or any donor for admins.';
+
+-- 3) RPC: donors with at least one donation in a financial year (bulk generation input)
+CREATE OR REPLACE FUNCTION public.list_statement_donors(p_financial_year int)
+RETURNS TABLE (
+  donor_id uuid,
+  donor_number text,
+  donation_count bigint,
+  total_amount numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can list statement donors.';
+  END IF;
+
+  RETURN QUERY
+  SELECT dn.donor_id, dn.donor_number, COUNT(d.donation_id), COALESCE(SUM(d.amount), 0)
+  FROM public.donations d
+  JOIN public.donors dn ON dn.donor_id = d.donor_id
+  WHERE public.financial_year_of(d.donation_date) = p_financial_year
+  GROUP BY dn.donor_id, dn.donor_number
+  ORDER BY dn.donor_number;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_statement_donors(int) TO authenticated;
+
+-- 4) RPC: record (or refresh) a stored statement
+CREATE OR REPLACE FUNCTION public.record_donor_statement(
+  p_donor_id uuid,
+  p_financial_year int,
+  p_pdf_path text,
+  p_donation_count int,
+  p_total_amount numeric
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can record statements';
+  END IF;
+
+  INSERT INTO public.donor_statements (donor_id, financial_year, pdf_path, donation_count, total_amount, generated_by, generated_at)
+  VALUES (p_donor_id, p_financial_year, p_pdf_path, p_donation_count, p_total_amount, auth.uid(), now())
+  ON CONFLICT (donor_id, financial_year) DO UPDATE
+  SET pdf_path = EXCLUDED.pdf_path,
+      donation_count = EXCLUDED.donation_count,
+      total_amount = EXCLUDED.total_amount,
+      generated_by = EXCLUDED.generated_by,
+      generated_at = EXCLUDED.generated_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_donor_statement(uuid, int, text, int, numeric) TO authenticated;
+
+-- 5) RPC: stored statements for a financial year (admin list)
+CREATE OR REPLACE FUNCTION public.list_donor_statements(p_financial_year int)
+RETURNS TABLE (
+  statement_id uuid,
+  donor_id uuid,
+  donor_number text,
+  donor_name text,
+  pdf_path text,
+  donation_count int,
+  total_amount numeric,
+  generated_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can list statements.';
+  END IF;
+
+  RETURN QUERY
+  SELECT s.statement_id, s.donor_id, dn.donor_number, COALESCE(pr.full_name, ''), s.pdf_path,
+         s.donation_count, s.total_amount, s.generated_at
+  FROM public.donor_statements s
+  JOIN public.donors dn ON dn.donor_id = s.donor_id
+  LEFT JOIN public.profiles pr ON pr.user_id = dn.user_id
+  WHERE s.financial_year = p_financial_year
+  ORDER BY dn.donor_number;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_donor_statements(int) TO authenticated;
@@ -0,0 +1,649 @@
+-- supabase/migrations/20250923130000_add_multi_currency_exchange_rates.sql
+-- Purpose: Multi-currency donations with admin-managed exchange rates.
+--
+-- - PKR stays the base currency; USD, GBP, AED and SAR are accepted on donations.
+-- - exchange_rates holds "1 unit of currency = rate PKR" with an effective date.
+-- - Each donation stores the rate used and its PKR equivalent (base_amount) when it is
+--   created on approval; totals and dashboards sum base_amount.
+
+-- 1) More currencies
+ALTER TYPE public.enum_donation_currency ADD VALUE IF NOT EXISTS 'USD';
+ALTER TYPE public.enum_donation_currency ADD VALUE IF NOT EXISTS 'GBP';
+ALTER TYPE public.enum_donation_currency ADD VALUE IF NOT EXISTS 'AED';
+ALTER TYPE public.enum_donation_currency ADD VALUE IF NOT EXISTS 'SAR';
+
+-- 2) Exchange rates
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  exchange_rate_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  currency public.enum_donation_currency NOT NULL,
+  rate_to_base numeric(18,6) NOT NULL CHECK (rate_to_base > 0),
+  effective_date date NOT NULL,
+  notes text,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (currency, effective_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_lookup ON public.exchange_rates(currency, effective_date DESC);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS exchange_rates_admin_select ON public.exchange_rates;
+CREATE POLICY exchange_rates_admin_select ON public.exchange_rates
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+COMMENT ON TABLE public.exchange_rates IS 'Admin-managed rates to the base currency (PKR). The latest rate on or before a date applies.';
+
+-- 3) Donations keep the rate used and the PKR equivalent
+ALTER TABLE public.donations
+  ADD COLUMN IF NOT EXISTS exchange_rate numeric(18,6),
+  ADD COLUMN IF NOT EXISTS base_amount numeric(14,2);
+
+UPDATE public.donations
+SET exchange_rate = 1,
+    base_amount = amount
+WHERE base_amount IS NULL
+  AND currency::text = 'PKR';
+
+-- 4) Rate lookup: PKR is always 1; other currencies use the latest rate effective on p_date
+CREATE OR REPLACE FUNCTION public.get_exchange_rate(
+  p_currency public.enum_donation_currency,
+  p_date date DEFAULT CURRENT_DATE
+)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_currency::text = 'PKR' THEN 1::numeric
+    ELSE (
+      SELECT er.rate_to_base
+      FROM public.exchange_rates er
+      WHERE er.currency = p_currency
+        AND er.effective_date <= COALESCE(p_date, CURRENT_DATE)
+      ORDER BY er.effective_date DESC
+      LIMIT 1
+    )
+  END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_exchange_rate(public.enum_donation_currency, date) TO authenticated;
+
+COMMENT ON FUNCTION public.get_exchange_rate(public.enum_donation_currency, date) IS 'Rate to PKR for a currency on a date (latest effective rate), NULL when no rate is on record.';
+
+-- 5) Stamp rate and base amount on every donation row
+CREATE OR REPLACE FUNCTION public.set_donation_base_amount()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Rate is fixed when the donation is created; only a currency change looks it up again
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.exchange_rate IS NULL THEN
+      NEW.exchange_rate := public.get_exchange_rate(NEW.currency, NEW.donation_date);
+    END IF;
+  ELSIF NEW.currency IS DISTINCT FROM OLD.currency THEN
+    NEW.exchange_rate := public.get_exchange_rate(NEW.currency, NEW.donation_date);
+  END IF;
+
+  IF NEW.exchange_rate IS NULL THEN
+    RAISE EXCEPTION 'No exchange rate for % on or before %', NEW.currency, NEW.donation_date USING ERRCODE = 'P0002';
+  END IF;
+
+  NEW.base_amount := round(NEW.amount * NEW.exchange_rate, 2);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_set_donation_base_amount ON public.donations;
+CREATE TRIGGER trg_set_donation_base_amount
+BEFORE INSERT OR UPDATE OF amount, currency, exchange_rate ON public.donations
+FOR EACH ROW
+EXECUTE FUNCTION public.set_donation_base_amount();
+
+-- 6) RPCs: manage exchange rates (admin-only)
+CREATE OR REPLACE FUNCTION public.upsert_exchange_rate(
+  p_currency public.enum_donation_currency,
+  p_rate numeric,
+  p_effective_date date,
+  p_notes text DEFAULT NULL
+)
+RETURNS public.exchange_rates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row public.exchange_rates;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can manage exchange rates' USING ERRCODE = '42501';
+  END IF;
+  IF p_currency::text = 'PKR' THEN
+    RAISE EXCEPTION 'PKR is the base currency and always has a rate of 1' USING ERRCODE = '22023';
+  END IF;
+  IF p_rate IS NULL OR p_rate <= 0 THEN
+    RAISE EXCEPTION 'Rate must be positive' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.exchange_rates (currency, rate_to_base, effective_date, notes, created_by)
+  VALUES (p_currency, p_rate, COALESCE(p_effective_date, CURRENT_DATE), NULLIF(trim(p_notes), ''), auth.uid())
+  ON CONFLICT (currency, effective_date) DO UPDATE
+  SET rate_to_base = EXCLUDED.rate_to_base,
+      notes = EXCLUDED.notes,
+      created_by = EXCLUDED.created_by,
+      created_at = now()
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.upsert_exchange_rate(public.enum_donation_currency, numeric, date, text) TO authenticated;
+
+COMMENT ON FUNCTION public.upsert_exchange_rate(public.enum_donation_currency, numeric, date, text) IS 'Creates or replaces the rate for a currency on an effective date. Existing donations keep the rate they were stored with. Admin-only.';
+
+CREATE OR REPLACE FUNCTION public.delete_exchange_rate(p_exchange_rate_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can manage exchange rates' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.exchange_rates WHERE exchange_rate_id = p_exchange_rate_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Exchange rate not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.delete_exchange_rate(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.list_exchange_rates()
+RETURNS TABLE (
+  exchange_rate_id uuid,
+  currency public.enum_donation_currency,
+  rate_to_base numeric,
+  effective_date date,
+  notes text,
+  created_by_name text,
+  created_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can list exchange rates.';
+  END IF;
+
+  RETURN QUERY
+  SELECT er.exchange_rate_id, er.currency, er.rate_to_base, er.effective_date, er.notes,
+         p.full_name, er.created_at
+  FROM public.exchange_rates er
+  LEFT JOIN public.profiles p ON p.user_id = er.created_by
+  ORDER BY er.currency, er.effective_date DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_exchange_rates() TO authenticated;
+
+-- 7) Totals in base currency
+CREATE OR REPLACE FUNCTION public.get_total_donations()
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  total_amount numeric;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can get total donations.';
+  END IF;
+
+  SELECT COALESCE(SUM(base_amount), 0)
+  INTO total_amount
+  FROM public.donations;
+
+  RETURN total_amount;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING 'Error in get_total_donations: %', SQLERRM;
+    RETURN 0;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_total_donations() IS 'Sums all donations in the base currency (PKR). Admin-only. SECURITY DEFINER to bypass RLS.';
+
+CREATE OR REPLACE FUNCTION public.get_admin_dashboard_metrics()
+RETURNS TABLE (
+  total_donors bigint,
+  total_donations numeric,
+  total_volunteers bigint,
+  total_members bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id uuid := auth.uid();
+BEGIN
+  IF v_caller_id IS NULL OR NOT public.is_admin(v_caller_id::uuid) THEN
+    RAISE EXCEPTION 'Forbidden: Caller is not an admin.' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH donors_count AS (
+    SELECT count(*) as total FROM donors
+  ),
+  donations_sum AS (
+    SELECT coalesce(sum(base_amount), 0) as total FROM donations
+  ),
+  volunteers_count AS (
+    SELECT count(*) as total FROM public.user_roles WHERE is_volunteer = TRUE
+  ),
+  members_count AS (
+    SELECT count(*) as total FROM public.user_roles WHERE is_member = TRUE
+  )
+  SELECT
+    dc.total,
+    ds.total,
+    vc.total,
+    mc.total
+  FROM donors_count dc, donations_sum ds, volunteers_count vc, members_count mc;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_donor_dashboard_metrics()
+RETURNS TABLE (
+    total_donations numeric,
+    last_donation_amount numeric,
+    last_donation_date date,
+    unique_projects_supported bigint,
+    total_donation_count bigint
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+    v_donor_id uuid;
+BEGIN
+    SELECT d.donor_id INTO v_donor_id
+    FROM public.donors d
+    WHERE d.user_id = auth.uid();
+
+    IF v_donor_id IS NULL THEN
+        RETURN QUERY SELECT 0, 0, NULL::date, 0, 0;
+        RETURN;
+    END IF;
+
+    -- Amounts are reported in the base currency (PKR)
+    RETURN QUERY
+    WITH user_donations AS (
+        SELECT * FROM public.donations d WHERE d.donor_id = v_donor_id
+    ),
+    last_donation AS (
+        SELECT d.base_amount, d.donation_date
+        FROM user_donations d
+        ORDER BY d.donation_date DESC, d.created_at DESC
+        LIMIT 1
+    )
+    SELECT
+        COALESCE((SELECT SUM(d.base_amount) FROM user_donations d), 0) AS total_donations,
+        (SELECT ld.base_amount FROM last_donation ld) AS last_donation_amount,
+        (SELECT ld.donation_date FROM last_donation ld) AS last_donation_date,
+        (SELECT COUNT(DISTINCT d.project_id) FROM user_donations d) AS unique_projects_supported,
+        (SELECT COUNT(*) FROM user_donations d) AS total_donation_count;
+END;
+$$;
+
+-- 8) Receipt details include the conversion
+DROP FUNCTION IF EXISTS public.get_donation_receipt_details(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_donation_receipt_details(p_donation_id uuid)
+RETURNS TABLE (
+  donation_id uuid,
+  donor_human_id text,
+  donor_name text,
+  phone_number text,
+  address text,
+  amount numeric,
+  currency public.enum_donation_currency,
+  exchange_rate numeric,
+  base_amount numeric,
+  donation_date date,
+  payment_method public.enum_payment_mode,
+  transaction_id text,
+  category_name text,
+  project_name text,
+  donation_type public.enum_donation_type,
+  approved_by_name text,
+  receipt_number text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can fetch receipt details.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.donation_id,
+    dn.donor_number AS donor_human_id,
+    COALESCE(p.full_name, 'N/A') AS donor_name,
+    COALESCE(p.phone_number, 'N/A') AS phone_number,
+    COALESCE(
+      CASE
+        WHEN jsonb_typeof(p.address) = 'object' THEN
+          TRIM(BOTH ', ' FROM
+            CONCAT_WS(', ',
+              NULLIF(p.address->>'street', ''),
+              NULLIF(p.address->>'city', ''),
+              NULLIF(p.address->>'state', ''),
+              NULLIF(p.address->>'country', ''),
+              NULLIF(p.address->>'postalCode', '')
+            )
+          )
+        ELSE 'N/A'
+      END,
+      'N/A'
+    ) AS address,
+    d.amount,
+    d.currency,
+    d.exchange_rate,
+    d.base_amount,
+    d.donation_date,
+    d.mode_of_payment AS payment_method,
+    COALESCE(d.transaction_id, 'N/A') AS transaction_id,
+    COALESCE(dc.donation_category_name, 'N/A') AS category_name,
+    COALESCE(proj.project_name, 'N/A') AS project_name,
+    d.donation_type,
+    COALESCE(approver_p.full_name, 'N/A') AS approved_by_name,
+    d.receipt_number
+  FROM public.donations d
+  LEFT JOIN public.donors dn ON d.donor_id = dn.donor_id
+  LEFT JOIN public.profiles p ON dn.user_id = p.user_id
+  LEFT JOIN public.donation_categories dc ON d.category_id = dc.donation_category_id
+  LEFT JOIN public.projects proj ON d.project_id = proj.project_id
+  LEFT JOIN public.profiles approver_p ON d.approved_by = approver_p.user_id
+  WHERE d.donation_id = p_donation_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_donation_receipt_details(uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.get_donation_receipt_details(uuid) IS 'Fetches all necessary details for a donation receipt, including the official receipt number and PKR conversion. Admin-only. SECURITY DEFINER.';
+
+-- 9) Admin list of approved donations shows the PKR equivalent
+DROP FUNCTION IF EXISTS public.list_approved_donations(int);
+
+CREATE OR REPLACE FUNCTION public.list_approved_donations(p_limit int DEFAULT 100)
+RETURNS TABLE (
+  donation_id uuid,
+  donation_human_id text,
+  receipt_number text,
+  donor_number text,
+  donor_name text,
+  amount numeric,
+  currency public.enum_donation_currency,
+  base_amount numeric,
+  category_name text,
+  project_name text,
+  donation_type public.enum_donation_type,
+  donation_date date,
+  approved_at timestamptz,
+  receipt_pdf_path text,
+  correction_count bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can list donations.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.donation_id,
+    d.donation_human_id,
+    d.receipt_number,
+    dn.donor_number,
+    COALESCE(pr.full_name, '') AS donor_name,
+    d.amount,
+    d.currency,
+    d.base_amount,
+    dc.donation_category_name AS category_name,
+    p.project_name,
+    d.donation_type,
+    d.donation_date,
+    d.approved_at,
+    d.receipt_pdf_path,
+    (SELECT COUNT(*) FROM public.donation_corrections c WHERE c.donation_id = d.donation_id) AS correction_count
+  FROM public.donations d
+  JOIN public.donors dn ON dn.donor_id = d.donor_id
+  LEFT JOIN public.profiles pr ON pr.user_id = dn.user_id
+  LEFT JOIN public.donation_categories dc ON dc.donation_category_id = d.category_id
+  LEFT JOIN public.projects p ON p.project_id = d.project_id
+  ORDER BY d.approved_at DESC
+  LIMIT GREATEST(COALESCE(p_limit, 100), 1);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_approved_donations(int) TO authenticated;
+
+-- 10) Annual statements total in base currency
+CREATE OR REPLACE FUNCTION public.list_statement_donors(p_financial_year int)
+RETURNS TABLE (
+  donor_id uuid,
+  donor_number text,
+  donation_count bigint,
+  total_amount numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can list statement donors.';
+  END IF;
+
+  RETURN QUERY
+  SELECT dn.donor_id, dn.donor_number, COUNT(d.donation_id), COALESCE(SUM(d.base_amount), 0)
+  FROM public.donations d
+  JOIN public.donors dn ON dn.donor_id = d.donor_id
+  WHERE public.financial_year_of(d.donation_date) = p_financial_year
+  GROUP BY dn.donor_id, dn.donor_number
+  ORDER BY dn.donor_number;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_donor_annual_statement(
+  p_financial_year int,
+  p_donor_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donor_id uuid := p_donor_id;
+  v_donor jsonb;
+  v_donations jsonb;
+  v_totals jsonb;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF v_donor_id IS NULL THEN
+    SELECT donor_id INTO v_donor_id FROM public.donors WHERE user_id = auth.uid();
+    IF v_donor_id IS NULL THEN
+      RAISE EXCEPTION 'Donor record not found' USING ERRCODE = 'P0002';
+    END IF;
+  ELSIF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can generate statements for other donors' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'donor_id', dn.donor_id,
+    'donor_number', dn.donor_number,
+    'donor_name', COALESCE(pr.full_name, ''),
+    'phone_number', pr.phone_number,
+    'cnic_number', pr.cnic_number,
+    'address', CASE
+      WHEN jsonb_typeof(pr.address) = 'object' THEN
+        NULLIF(TRIM(BOTH ', ' FROM CONCAT_WS(', ',
+          NULLIF(pr.address->>'street', ''),
+          NULLIF(pr.address->>'city', ''),
+          NULLIF(pr.address->>'state', ''),
+          NULLIF(pr.address->>'country', ''),
+          NULLIF(pr.address->>'postalCode', '')
+        )), '')
+      ELSE NULL
+    END
+  )
+  INTO v_donor
+  FROM public.donors dn
+  LEFT JOIN public.profiles pr ON pr.user_id = dn.user_id
+  WHERE dn.donor_id = v_donor_id;
+
+  IF v_donor IS NULL THEN
+    RAISE EXCEPTION 'Donor not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'donation_id', d.donation_id,
+    'donation_human_id', d.donation_human_id,
+    'receipt_number', COALESCE(d.receipt_number, d.receipt_id),
+    'donation_date', d.donation_date,
+    'donation_type', d.donation_type,
+    'amount', d.amount,
+    'currency', d.currency,
+    'base_amount', d.base_amount,
+    'category_name', dc.donation_category_name,
+    'project_name', p.project_name
+  ) ORDER BY d.donation_type, d.donation_date, d.donation_human_id), '[]'::jsonb)
+  INTO v_donations
+  FROM public.donations d
+  LEFT JOIN public.donation_categories dc ON dc.donation_category_id = d.category_id
+  LEFT JOIN public.projects p ON p.project_id = d.project_id
+  WHERE d.donor_id = v_donor_id
+    AND public.financial_year_of(d.donation_date) = p_financial_year;
+
+  -- Totals are in the base currency (PKR) so mixed-currency years add up
+  SELECT COALESCE(jsonb_object_agg(t.donation_type, t.total), '{}'::jsonb)
+  INTO v_totals
+  FROM (
+    SELECT d.donation_type::text AS donation_type, SUM(d.base_amount) AS total
+    FROM public.donations d
+    WHERE d.donor_id = v_donor_id
+      AND public.financial_year_of(d.donation_date) = p_financial_year
+    GROUP BY d.donation_type
+  ) t;
+
+  RETURN jsonb_build_object(
+    'financial_year', p_financial_year,
+    'period_start', make_date(p_financial_year, 7, 1),
+    'period_end', make_date(p_financial_year + 1, 6, 30),
+    'base_currency', 'PKR',
+    'donor', v_donor,
+    'donations', v_donations,
+    'totals_by_type', v_totals
+  );
+END;
+$$;
+
+-- 11) Donor dashboard charts and recent donations are labelled PKR; feed them base amounts
+CREATE OR REPLACE FUNCTION public.get_donor_recent_donations()
+RETURNS TABLE (
+    date date,
+    donationId text,
+    amount numeric,
+    category text,
+    project text,
+    status public.enum_request_status
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+    v_donor_id uuid;
+BEGIN
+    SELECT d.donor_id INTO v_donor_id
+    FROM public.donors d
+    WHERE d.user_id = auth.uid();
+
+    IF v_donor_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        d.donation_date AS date,
+        d.donation_human_id AS donationId,
+        COALESCE(d.base_amount, d.amount) AS amount,
+        dc.donation_category_name AS category,
+        p.project_name AS project,
+        'Completed'::public.enum_request_status AS status
+    FROM public.donations d
+    LEFT JOIN public.donation_categories dc ON d.category_id = dc.donation_category_id
+    LEFT JOIN public.projects p ON d.project_id = p.project_id
+    WHERE d.donor_id = v_donor_id
+    ORDER BY d.donation_date DESC, d.created_at DESC
+    LIMIT 5;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_donor_donations_summary(
+  p_category_id uuid DEFAULT NULL,
+  p_project_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  donation_date date,
+  amount numeric,
+  currency text,
+  category_name text,
+  project_name text
+)
+LANGUAGE sql
+SECURITY INVOKER
+AS $$
+  WITH me AS (
+    SELECT d.donor_id
+    FROM public.donors d
+    WHERE d.user_id = auth.uid()
+  )
+  SELECT
+    dn.donation_date,
+    COALESCE(dn.base_amount, dn.amount) AS amount,
+    'PKR'::text AS currency,
+    dc.donation_category_name AS category_name,
+    pj.project_name AS project_name
+  FROM public.donations dn
+  JOIN me ON me.donor_id = dn.donor_id
+  LEFT JOIN public.donation_categories dc ON dc.donation_category_id = dn.category_id
+  LEFT JOIN public.projects pj ON pj.project_id = dn.project_id
+  WHERE
+    (p_category_id IS NULL OR dn.category_id = p_category_id)
+    AND (p_project_id IS NULL OR dn.project_id = p_project_id)
+  ORDER BY dn.donation_date ASC, dn.created_at ASC;
+$$;
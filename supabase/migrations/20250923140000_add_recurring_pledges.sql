@@ -0,0 +1,424 @@
+-- supabase/migrations/20250923140000_add_recurring_pledges.sql
+-- Purpose: Recurring donation pledges (e.g. a fixed monthly Zakat or Sadqa commitment).
+--
+-- - A pledge records the donor, amount, frequency and start/end dates of a commitment.
+-- - public.generate_due_pledge_requests() creates one Pending donation_request per instalment
+--   that has fallen due. It runs daily through pg_cron where the extension is available and can
+--   also be triggered by an admin from /admin/financials/pledges.
+-- - Instalments are approved like any other request; fulfilment compares the instalments due
+--   with the approved donations created from them.
+
+-- 1) Enums
+DO $$ BEGIN
+  CREATE TYPE public.enum_pledge_frequency AS ENUM ('Monthly', 'Quarterly', 'Yearly');
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+DO $$ BEGIN
+  CREATE TYPE public.enum_pledge_status AS ENUM ('Active', 'Paused', 'Completed', 'Cancelled');
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- 2) Pledges
+CREATE TABLE IF NOT EXISTS public.donation_pledges (
+  pledge_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  donor_id uuid NOT NULL REFERENCES public.donors(donor_id) ON DELETE RESTRICT,
+  amount numeric NOT NULL CHECK (amount > 0),
+  currency public.enum_donation_currency NOT NULL DEFAULT 'PKR',
+  category_id uuid NOT NULL REFERENCES public.donation_categories(donation_category_id) ON DELETE RESTRICT,
+  project_id uuid NOT NULL REFERENCES public.projects(project_id) ON DELETE RESTRICT,
+  mode_of_payment public.enum_payment_mode NOT NULL,
+  donation_type public.enum_donation_type NOT NULL,
+  frequency public.enum_pledge_frequency NOT NULL DEFAULT 'Monthly',
+  start_date date NOT NULL,
+  end_date date,
+  instalments_generated int NOT NULL DEFAULT 0,
+  next_due_date date NOT NULL,
+  status public.enum_pledge_status NOT NULL DEFAULT 'Active',
+  notes text,
+  created_by uuid NOT NULL REFERENCES public.profiles(user_id) ON DELETE RESTRICT,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_donation_pledges_donor ON public.donation_pledges(donor_id);
+CREATE INDEX IF NOT EXISTS idx_donation_pledges_due ON public.donation_pledges(status, next_due_date);
+
+ALTER TABLE public.donation_pledges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS donation_pledges_admin_select ON public.donation_pledges;
+CREATE POLICY donation_pledges_admin_select ON public.donation_pledges
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+DROP POLICY IF EXISTS donation_pledges_donor_select ON public.donation_pledges;
+CREATE POLICY donation_pledges_donor_select ON public.donation_pledges
+FOR SELECT TO authenticated
+USING (donor_id IN (SELECT donor_id FROM public.donors WHERE user_id = auth.uid()));
+
+COMMENT ON TABLE public.donation_pledges IS 'Recurring donation commitments; instalments are generated as donation_requests.';
+
+-- 3) Link generated requests to their pledge (one request per pledge instalment)
+ALTER TABLE public.donation_requests
+  ADD COLUMN IF NOT EXISTS pledge_id uuid REFERENCES public.donation_pledges(pledge_id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS pledge_due_date date;
+
+DO $$ BEGIN
+  ALTER TABLE public.donation_requests
+    ADD CONSTRAINT donation_requests_pledge_instalment_key UNIQUE (pledge_id, pledge_due_date);
+EXCEPTION WHEN duplicate_object OR duplicate_table THEN NULL; END $$;
+
+-- 4) Helper: due date of the n-th instalment (0-based). Adding whole months to the start date
+-- keeps end-of-month pledges on the last day of shorter months.
+CREATE OR REPLACE FUNCTION public.pledge_instalment_date(
+  p_start_date date,
+  p_frequency public.enum_pledge_frequency,
+  p_instalment int
+)
+RETURNS date
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (p_start_date + p_instalment * CASE p_frequency
+    WHEN 'Monthly' THEN interval '1 month'
+    WHEN 'Quarterly' THEN interval '3 months'
+    ELSE interval '1 year'
+  END)::date;
+$$;
+
+-- 5) RPC: create a pledge (admin only), looked up by donor number and category/project names
+CREATE OR REPLACE FUNCTION public.create_donation_pledge(
+  p_donor_number text,
+  p_amount numeric,
+  p_currency public.enum_donation_currency,
+  p_category_name text,
+  p_project_name text,
+  p_mode_of_payment public.enum_payment_mode,
+  p_donation_type public.enum_donation_type,
+  p_frequency public.enum_pledge_frequency,
+  p_start_date date,
+  p_end_date date DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS public.donation_pledges
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pledge public.donation_pledges;
+  v_donor_id uuid;
+  v_category_id uuid;
+  v_project_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create pledges' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Pledge amount must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+  IF p_end_date IS NOT NULL AND p_end_date < p_start_date THEN
+    RAISE EXCEPTION 'Pledge end date must be on or after the start date' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT donor_id INTO v_donor_id FROM public.donors WHERE donor_number = p_donor_number LIMIT 1;
+  IF v_donor_id IS NULL THEN
+    RAISE EXCEPTION 'Donor not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT donation_category_id INTO v_category_id
+  FROM public.donation_categories
+  WHERE donation_category_name = p_category_name AND is_active = true
+  LIMIT 1;
+  IF v_category_id IS NULL THEN
+    RAISE EXCEPTION 'Category not found or inactive' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT project_id INTO v_project_id
+  FROM public.projects
+  WHERE project_name = p_project_name AND donation_category_id = v_category_id AND is_active = true
+  LIMIT 1;
+  IF v_project_id IS NULL THEN
+    RAISE EXCEPTION 'Project not found or inactive' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.donation_pledges (
+    donor_id, amount, currency, category_id, project_id, mode_of_payment, donation_type,
+    frequency, start_date, end_date, next_due_date, notes, created_by
+  ) VALUES (
+    v_donor_id, p_amount, p_currency, v_category_id, v_project_id, p_mode_of_payment, p_donation_type,
+    p_frequency, p_start_date, p_end_date, p_start_date, NULLIF(TRIM(p_notes), ''), auth.uid()
+  ) RETURNING * INTO v_pledge;
+
+  RETURN v_pledge;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_donation_pledge(text, numeric, public.enum_donation_currency, text, text, public.enum_payment_mode, public.enum_donation_type, public.enum_pledge_frequency, date, date, text) TO authenticated;
+
+-- 6) RPC: pause / resume / cancel a pledge (admin only)
+-- Resuming skips instalments that fell due while the pledge was paused.
+CREATE OR REPLACE FUNCTION public.set_donation_pledge_status(
+  p_pledge_id uuid,
+  p_status public.enum_pledge_status
+)
+RETURNS public.donation_pledges
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pledge public.donation_pledges;
+  v_instalment int;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can update pledges' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_pledge FROM public.donation_pledges WHERE pledge_id = p_pledge_id FOR UPDATE;
+  IF v_pledge.pledge_id IS NULL THEN
+    RAISE EXCEPTION 'Pledge not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_pledge.status IN ('Completed', 'Cancelled') THEN
+    RAISE EXCEPTION 'Pledge is already % and cannot be changed', v_pledge.status USING ERRCODE = '22023';
+  END IF;
+  IF p_status = 'Completed' THEN
+    RAISE EXCEPTION 'Pledges complete automatically after their end date' USING ERRCODE = '22023';
+  END IF;
+
+  v_instalment := v_pledge.instalments_generated;
+  IF v_pledge.status = 'Paused' AND p_status = 'Active' THEN
+    WHILE public.pledge_instalment_date(v_pledge.start_date, v_pledge.frequency, v_instalment) < CURRENT_DATE LOOP
+      v_instalment := v_instalment + 1;
+    END LOOP;
+  END IF;
+
+  UPDATE public.donation_pledges
+  SET status = p_status,
+      instalments_generated = v_instalment,
+      next_due_date = public.pledge_instalment_date(start_date, frequency, v_instalment),
+      updated_at = now()
+  WHERE pledge_id = p_pledge_id
+  RETURNING * INTO v_pledge;
+
+  RETURN v_pledge;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_donation_pledge_status(uuid, public.enum_pledge_status) TO authenticated;
+
+-- 7) Job: create donation requests for every instalment due on or before p_as_of.
+-- Catches up on missed runs; the unique (pledge_id, pledge_due_date) key keeps it idempotent.
+-- Called by pg_cron (no auth.uid()) or by admins; anon cannot execute it.
+CREATE OR REPLACE FUNCTION public.generate_due_pledge_requests(p_as_of date DEFAULT CURRENT_DATE)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pledge public.donation_pledges;
+  v_instalment int;
+  v_due date;
+  v_rows int;
+  v_created int := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can generate pledge instalments' USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_pledge IN
+    SELECT * FROM public.donation_pledges
+    WHERE status = 'Active' AND next_due_date <= p_as_of
+    ORDER BY next_due_date
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_instalment := v_pledge.instalments_generated;
+    v_due := public.pledge_instalment_date(v_pledge.start_date, v_pledge.frequency, v_instalment);
+
+    WHILE v_due <= p_as_of AND (v_pledge.end_date IS NULL OR v_due <= v_pledge.end_date) LOOP
+      INSERT INTO public.donation_requests (
+        donor_id, amount, currency, category_id, project_id, mode_of_payment, donation_type,
+        donation_date, status, created_by, pledge_id, pledge_due_date
+      ) VALUES (
+        v_pledge.donor_id, v_pledge.amount, v_pledge.currency, v_pledge.category_id, v_pledge.project_id,
+        v_pledge.mode_of_payment, v_pledge.donation_type, v_due, 'Pending', v_pledge.created_by,
+        v_pledge.pledge_id, v_due
+      )
+      ON CONFLICT (pledge_id, pledge_due_date) DO NOTHING;
+
+      GET DIAGNOSTICS v_rows = ROW_COUNT;
+      v_created := v_created + v_rows;
+
+      v_instalment := v_instalment + 1;
+      v_due := public.pledge_instalment_date(v_pledge.start_date, v_pledge.frequency, v_instalment);
+    END LOOP;
+
+    UPDATE public.donation_pledges
+    SET instalments_generated = v_instalment,
+        next_due_date = v_due,
+        status = CASE WHEN end_date IS NOT NULL AND v_due > end_date THEN 'Completed'::public.enum_pledge_status ELSE status END,
+        updated_at = now()
+    WHERE pledge_id = v_pledge.pledge_id;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_due_pledge_requests(date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_due_pledge_requests(date) TO authenticated;
+
+COMMENT ON FUNCTION public.generate_due_pledge_requests(date) IS 'Creates Pending donation_requests for pledge instalments due on or before the given date. Returns the number created.';
+
+-- 8) Fulfilment view shared by the admin and donor RPCs
+-- expected = instalments due so far x pledge amount; received = approved donations from those instalments.
+-- Overdue instalments are still unpaid (pending or rejected) p_grace_days after their due date.
+CREATE OR REPLACE FUNCTION public.pledge_fulfilment(p_grace_days int DEFAULT 7)
+RETURNS TABLE (
+  pledge_id uuid,
+  instalments_due bigint,
+  instalments_received bigint,
+  expected_amount numeric,
+  received_amount numeric,
+  overdue_count bigint,
+  overdue_amount numeric,
+  oldest_overdue_date date
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    pl.pledge_id,
+    COUNT(r.donation_request_id) FILTER (WHERE r.pledge_due_date <= CURRENT_DATE),
+    COUNT(d.donation_id),
+    COUNT(r.donation_request_id) FILTER (WHERE r.pledge_due_date <= CURRENT_DATE) * pl.amount,
+    COALESCE(SUM(d.amount), 0),
+    COUNT(r.donation_request_id) FILTER (WHERE d.donation_id IS NULL AND r.pledge_due_date < CURRENT_DATE - p_grace_days),
+    COALESCE(SUM(r.amount) FILTER (WHERE d.donation_id IS NULL AND r.pledge_due_date < CURRENT_DATE - p_grace_days), 0),
+    MIN(r.pledge_due_date) FILTER (WHERE d.donation_id IS NULL AND r.pledge_due_date < CURRENT_DATE - p_grace_days)
+  FROM public.donation_pledges pl
+  LEFT JOIN public.donation_requests r ON r.pledge_id = pl.pledge_id
+  LEFT JOIN public.donations d ON d.donation_request_id = r.donation_request_id
+  GROUP BY pl.pledge_id, pl.amount;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.pledge_fulfilment(int) FROM PUBLIC, anon, authenticated;
+
+-- 9) RPC: pledges with fulfilment (admin list); p_overdue_only narrows to pledges behind schedule
+CREATE OR REPLACE FUNCTION public.list_donation_pledges(
+  p_overdue_only boolean DEFAULT false,
+  p_grace_days int DEFAULT 7
+)
+RETURNS TABLE (
+  pledge_id uuid,
+  donor_number text,
+  donor_name text,
+  phone_number text,
+  amount numeric,
+  currency text,
+  donation_type text,
+  frequency text,
+  category_name text,
+  project_name text,
+  start_date date,
+  end_date date,
+  next_due_date date,
+  status text,
+  instalments_due bigint,
+  instalments_received bigint,
+  expected_amount numeric,
+  received_amount numeric,
+  overdue_count bigint,
+  overdue_amount numeric,
+  oldest_overdue_date date
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can list pledges.';
+  END IF;
+
+  RETURN QUERY
+  SELECT pl.pledge_id, dn.donor_number, COALESCE(pr.full_name, ''), pr.phone_number,
+         pl.amount, pl.currency::text, pl.donation_type::text, pl.frequency::text,
+         dc.donation_category_name, p.project_name,
+         pl.start_date, pl.end_date, pl.next_due_date, pl.status::text,
+         f.instalments_due, f.instalments_received, f.expected_amount, f.received_amount,
+         f.overdue_count, f.overdue_amount, f.oldest_overdue_date
+  FROM public.donation_pledges pl
+  JOIN public.pledge_fulfilment(p_grace_days) f ON f.pledge_id = pl.pledge_id
+  JOIN public.donors dn ON dn.donor_id = pl.donor_id
+  LEFT JOIN public.profiles pr ON pr.user_id = dn.user_id
+  LEFT JOIN public.donation_categories dc ON dc.donation_category_id = pl.category_id
+  LEFT JOIN public.projects p ON p.project_id = pl.project_id
+  WHERE NOT p_overdue_only OR f.overdue_count > 0
+  ORDER BY f.oldest_overdue_date NULLS LAST, dn.donor_number, pl.start_date;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_donation_pledges(boolean, int) TO authenticated;
+
+-- 10) RPC: the current donor's pledges with fulfilment
+CREATE OR REPLACE FUNCTION public.get_my_pledges()
+RETURNS TABLE (
+  pledge_id uuid,
+  amount numeric,
+  currency text,
+  donation_type text,
+  frequency text,
+  project_name text,
+  start_date date,
+  end_date date,
+  next_due_date date,
+  status text,
+  instalments_due bigint,
+  instalments_received bigint,
+  expected_amount numeric,
+  received_amount numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  RETURN QUERY
+  SELECT pl.pledge_id, pl.amount, pl.currency::text, pl.donation_type::text, pl.frequency::text,
+         p.project_name, pl.start_date, pl.end_date, pl.next_due_date, pl.status::text,
+         f.instalments_due, f.instalments_received, f.expected_amount, f.received_amount
+  FROM public.donation_pledges pl
+  JOIN public.pledge_fulfilment() f ON f.pledge_id = pl.pledge_id
+  JOIN public.donors dn ON dn.donor_id = pl.donor_id
+  LEFT JOIN public.projects p ON p.project_id = pl.project_id
+  WHERE dn.user_id = auth.uid()
+  ORDER BY (pl.status = 'Active') DESC, pl.start_date DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_my_pledges() TO authenticated;
+
+-- 11) Daily schedule (00:15 UTC) when pg_cron is available on this project
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'generate-due-pledge-requests',
+      '15 0 * * *',
+      'SELECT public.generate_due_pledge_requests(CURRENT_DATE)'
+    );
+  ELSE
+    RAISE NOTICE 'pg_cron not available: run public.generate_due_pledge_requests() from /admin/financials/pledges';
+  END IF;
+END $$;
@@ -0,0 +1,234 @@
+-- supabase/migrations/20250923150000_add_donor_donation_submissions.sql
+-- Purpose: Let donors submit their own donations (e.g. bank transfers) with a proof of payment.
+--
+-- - Proofs (bank slips, screenshots) live in the private 'payment-proofs' bucket under
+--   {donor user_id}/..., readable by the uploading donor and by admins.
+-- - public.submit_donation_request() creates a Pending donation_request for the caller's donor
+--   record, so submissions go through the same approval queue as admin-entered requests.
+-- - list_pending_donation_requests now exposes the transaction ID, proof path and the source of
+--   each request (admin, donor or pledge).
+
+-- 1) Private bucket for proofs of payment (5 MB, images and PDF)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('payment-proofs', 'payment-proofs', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf'])
+ON CONFLICT (id) DO UPDATE
+SET public = false,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+DROP POLICY IF EXISTS payment_proofs_donor_insert ON storage.objects;
+CREATE POLICY payment_proofs_donor_insert ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'payment-proofs'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+DROP POLICY IF EXISTS payment_proofs_donor_select ON storage.objects;
+CREATE POLICY payment_proofs_donor_select ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'payment-proofs'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+DROP POLICY IF EXISTS payment_proofs_admin_select ON storage.objects;
+CREATE POLICY payment_proofs_admin_select ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'payment-proofs'
+  AND public.is_admin()
+);
+
+-- 2) Proof attached to a request
+ALTER TABLE public.donation_requests
+  ADD COLUMN IF NOT EXISTS proof_path text;
+
+COMMENT ON COLUMN public.donation_requests.proof_path IS 'Object path of the proof of payment in the payment-proofs bucket (donor submissions).';
+
+-- 3) RPC: donor submits a donation for approval
+-- The category follows from the project; the proof must be in the caller's own folder.
+CREATE OR REPLACE FUNCTION public.submit_donation_request(
+  p_amount numeric,
+  p_currency public.enum_donation_currency,
+  p_project_id uuid,
+  p_mode_of_payment public.enum_payment_mode,
+  p_donation_type public.enum_donation_type,
+  p_donation_date date,
+  p_transaction_id text,
+  p_proof_path text
+)
+RETURNS public.donation_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_req public.donation_requests;
+  v_donor_id uuid;
+  v_category_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT donor_id INTO v_donor_id FROM public.donors WHERE user_id = auth.uid();
+  IF v_donor_id IS NULL THEN
+    RAISE EXCEPTION 'Donor record not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+  IF p_donation_date IS NULL OR p_donation_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Donation date cannot be in the future' USING ERRCODE = '22023';
+  END IF;
+  IF p_proof_path IS NULL OR split_part(p_proof_path, '/', 1) <> auth.uid()::text THEN
+    RAISE EXCEPTION 'A proof of payment uploaded by the donor is required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT donation_category_id INTO v_category_id
+  FROM public.projects
+  WHERE project_id = p_project_id AND is_active = true;
+  IF v_category_id IS NULL THEN
+    RAISE EXCEPTION 'Project not found or inactive' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.donation_requests (
+    donor_id, amount, currency, category_id, project_id, mode_of_payment, donation_type,
+    donation_date, transaction_id, proof_path, status, created_by
+  ) VALUES (
+    v_donor_id, p_amount, p_currency, v_category_id, p_project_id, p_mode_of_payment, p_donation_type,
+    p_donation_date, NULLIF(TRIM(p_transaction_id), ''), p_proof_path, 'Pending', auth.uid()
+  ) RETURNING * INTO v_req;
+
+  RETURN v_req;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_donation_request(numeric, public.enum_donation_currency, uuid, public.enum_payment_mode, public.enum_donation_type, date, text, text) TO authenticated;
+
+-- 4) RPC: the current donor's submitted requests that are not yet approved
+CREATE OR REPLACE FUNCTION public.get_my_donation_requests()
+RETURNS TABLE (
+  donation_request_id uuid,
+  amount numeric,
+  currency text,
+  project_name text,
+  mode_of_payment text,
+  donation_type text,
+  donation_date date,
+  transaction_id text,
+  status text,
+  rejection_reason text,
+  created_at timestamptz
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT dr.donation_request_id, dr.amount, dr.currency::text, p.project_name, dr.mode_of_payment::text,
+         dr.donation_type::text, dr.donation_date, dr.transaction_id, dr.status::text,
+         dr.rejection_reason, dr.created_at
+  FROM public.donation_requests dr
+  JOIN public.donors dn ON dn.donor_id = dr.donor_id
+  LEFT JOIN public.projects p ON p.project_id = dr.project_id
+  WHERE dn.user_id = auth.uid()
+    AND dr.created_by = auth.uid()
+    AND dr.status <> 'Approved'
+  ORDER BY dr.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_my_donation_requests() TO authenticated;
+
+-- 5) RPC: proof path of a request (admin only)
+CREATE OR REPLACE FUNCTION public.get_donation_request_proof_path(p_donation_request_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_path text;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view payment proofs' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT proof_path INTO v_path
+  FROM public.donation_requests
+  WHERE donation_request_id = p_donation_request_id;
+
+  RETURN v_path;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_donation_request_proof_path(uuid) TO authenticated;
+
+-- 6) Pending queue with transaction ID, proof and source (return type changes -> drop first)
+DROP FUNCTION IF EXISTS public.list_pending_donation_requests();
+
+CREATE OR REPLACE FUNCTION public.list_pending_donation_requests()
+RETURNS TABLE (
+  donation_request_id uuid,
+  donor_number text,
+  donor_name text,
+  amount numeric,
+  currency public.enum_donation_currency,
+  category_name text,
+  project_name text,
+  mode_of_payment public.enum_payment_mode,
+  donation_type public.enum_donation_type,
+  donation_date date,
+  status public.enum_request_status,
+  created_at timestamptz,
+  transaction_id text,
+  has_proof boolean,
+  source text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can list pending donation requests.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    dr.donation_request_id,
+    d.donor_number,
+    COALESCE(pr.full_name, '') AS donor_name,
+    dr.amount,
+    dr.currency,
+    dc.donation_category_name AS category_name,
+    p.project_name,
+    dr.mode_of_payment,
+    dr.donation_type,
+    dr.donation_date,
+    dr.status,
+    dr.created_at,
+    dr.transaction_id,
+    dr.proof_path IS NOT NULL,
+    CASE
+      WHEN dr.pledge_id IS NOT NULL THEN 'pledge'
+      WHEN dr.created_by = d.user_id THEN 'donor'
+      ELSE 'admin'
+    END
+  FROM public.donation_requests dr
+  JOIN public.donors d ON d.donor_id = dr.donor_id
+  JOIN public.profiles pr ON pr.user_id = d.user_id
+  JOIN public.donation_categories dc ON dc.donation_category_id = dr.category_id
+  JOIN public.projects p ON p.project_id = dr.project_id
+  WHERE dr.status = 'Pending'::public.enum_request_status
+  ORDER BY dr.created_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_pending_donation_requests() TO authenticated;
+
+COMMENT ON FUNCTION public.list_pending_donation_requests() IS 'Returns all pending donation requests with joined data, proof flag and source. Admin-only. SECURITY DEFINER.';
@@ -0,0 +1,291 @@
+-- supabase/migrations/20250923160000_add_maker_checker_approval.sql
+-- Purpose: Segregation of duties for donation approval (maker-checker).
+--
+-- - The admin who recorded a donation request can no longer approve it.
+-- - Above a configurable amount (in PKR, see financial_settings.second_approval_threshold) a
+--   request needs two approvals by different admins, neither of them its creator. The first
+--   approval is recorded on the request, which stays Pending until the second one.
+-- - list_pending_donation_requests exposes the rule's state so the UI can explain it.
+
+-- 1) Financial settings (single row)
+CREATE TABLE IF NOT EXISTS public.financial_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  second_approval_threshold numeric(14,2) CHECK (second_approval_threshold IS NULL OR second_approval_threshold >= 0),
+  updated_by uuid REFERENCES auth.users(id),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.financial_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.financial_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS financial_settings_admin_select ON public.financial_settings;
+CREATE POLICY financial_settings_admin_select ON public.financial_settings
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+COMMENT ON TABLE public.financial_settings IS 'Organisation-wide financial controls (single row).';
+COMMENT ON COLUMN public.financial_settings.second_approval_threshold IS 'Requests above this PKR amount need a second approver; NULL disables the second approval step.';
+
+CREATE OR REPLACE FUNCTION public.get_financial_settings()
+RETURNS public.financial_settings
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings public.financial_settings;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view financial settings' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_settings FROM public.financial_settings WHERE id;
+  RETURN v_settings;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_financial_settings() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.update_second_approval_threshold(p_threshold numeric)
+RETURNS public.financial_settings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings public.financial_settings;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change financial settings' USING ERRCODE = '42501';
+  END IF;
+  IF p_threshold IS NOT NULL AND p_threshold < 0 THEN
+    RAISE EXCEPTION 'Threshold cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.financial_settings (id, second_approval_threshold, updated_by, updated_at)
+  VALUES (true, p_threshold, auth.uid(), now())
+  ON CONFLICT (id) DO UPDATE
+  SET second_approval_threshold = EXCLUDED.second_approval_threshold,
+      updated_by = EXCLUDED.updated_by,
+      updated_at = EXCLUDED.updated_at
+  RETURNING * INTO v_settings;
+
+  RETURN v_settings;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_second_approval_threshold(numeric) TO authenticated;
+
+-- 2) First approval recorded on the request
+ALTER TABLE public.donation_requests
+  ADD COLUMN IF NOT EXISTS first_approved_by uuid REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS first_approved_at timestamptz;
+
+-- 3) Whether a request needs two approvals (PKR equivalent above the threshold)
+CREATE OR REPLACE FUNCTION public.donation_request_needs_second_approval(p_req public.donation_requests)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    p_req.amount * public.get_exchange_rate(p_req.currency, p_req.donation_date) > s.second_approval_threshold,
+    -- no rate on record: the amount cannot be valued, so require the stricter path
+    s.second_approval_threshold IS NOT NULL
+  )
+  FROM public.financial_settings s
+  WHERE s.id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.donation_request_needs_second_approval(public.donation_requests) FROM PUBLIC, anon;
+
+-- 4) approve_donation_request: maker-checker checks before the donation is created.
+-- Returns NULL when only the first of two approvals was recorded.
+CREATE OR REPLACE FUNCTION public.approve_donation_request(
+  p_donation_request_id uuid
+)
+RETURNS public.donations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_req public.donation_requests;
+  v_donation public.donations;
+  v_actor uuid := auth.uid();
+  v_receipt record;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can approve donation requests' USING ERRCODE = '42501';
+  END IF;
+
+  -- Load request with lock to avoid double-approval
+  SELECT * INTO v_req
+  FROM public.donation_requests
+  WHERE donation_request_id = p_donation_request_id
+  FOR UPDATE;
+
+  IF v_req.donation_request_id IS NULL THEN
+    RAISE EXCEPTION 'Donation request not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_req.status <> 'Pending'::public.enum_request_status THEN
+    RAISE EXCEPTION 'Donation request is not pending (current status: %)', v_req.status USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Maker-checker
+  IF v_req.created_by = v_actor THEN
+    RAISE EXCEPTION 'You recorded this donation request; another admin must approve it' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(public.donation_request_needs_second_approval(v_req), false) THEN
+    IF v_req.first_approved_by IS NULL THEN
+      UPDATE public.donation_requests
+      SET first_approved_by = v_actor,
+          first_approved_at = now()
+      WHERE donation_request_id = v_req.donation_request_id;
+      RETURN NULL;
+    ELSIF v_req.first_approved_by = v_actor THEN
+      RAISE EXCEPTION 'You gave the first approval; a second admin must give the final approval' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  -- Official receipt number for the financial year of issue
+  SELECT * INTO v_receipt FROM public.next_receipt_number(CURRENT_DATE);
+
+  -- Create donation row (human IDs populated by trigger); created_by keeps the maker
+  INSERT INTO public.donations (
+    donor_id,
+    amount,
+    currency,
+    category_id,
+    project_id,
+    mode_of_payment,
+    donation_type,
+    donation_date,
+    transaction_id,
+    receipt_number,
+    donation_request_id,
+    created_by,
+    approved_by,
+    approved_at
+  ) VALUES (
+    v_req.donor_id,
+    v_req.amount,
+    v_req.currency,
+    v_req.category_id,
+    v_req.project_id,
+    v_req.mode_of_payment,
+    v_req.donation_type,
+    v_req.donation_date,
+    v_req.transaction_id,
+    v_receipt.receipt_number,
+    v_req.donation_request_id,
+    v_req.created_by,
+    v_actor,
+    now()
+  ) RETURNING * INTO v_donation;
+
+  INSERT INTO public.receipt_register (
+    receipt_number, financial_year, sequence, donation_id, donation_request_id, status, issued_by, issued_at
+  ) VALUES (
+    v_receipt.receipt_number, v_receipt.financial_year, v_receipt.sequence,
+    v_donation.donation_id, v_req.donation_request_id, 'issued', v_actor, now()
+  );
+
+  UPDATE public.donation_requests
+  SET status = 'Approved'::public.enum_request_status,
+      approved_by = v_actor,
+      approved_at = now(),
+      rejection_reason = NULL
+  WHERE donation_request_id = v_req.donation_request_id;
+
+  RETURN v_donation;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.approve_donation_request(uuid) TO authenticated;
+
+-- 5) Pending queue with the approval rule's state for the current admin
+DROP FUNCTION IF EXISTS public.list_pending_donation_requests();
+
+CREATE OR REPLACE FUNCTION public.list_pending_donation_requests()
+RETURNS TABLE (
+  donation_request_id uuid,
+  donor_number text,
+  donor_name text,
+  amount numeric,
+  currency public.enum_donation_currency,
+  category_name text,
+  project_name text,
+  mode_of_payment public.enum_payment_mode,
+  donation_type public.enum_donation_type,
+  donation_date date,
+  status public.enum_request_status,
+  created_at timestamptz,
+  transaction_id text,
+  has_proof boolean,
+  source text,
+  created_by_name text,
+  created_by_me boolean,
+  requires_second_approval boolean,
+  first_approved_by_name text,
+  first_approved_by_me boolean,
+  first_approved_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can list pending donation requests.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    dr.donation_request_id,
+    d.donor_number,
+    COALESCE(pr.full_name, '') AS donor_name,
+    dr.amount,
+    dr.currency,
+    dc.donation_category_name AS category_name,
+    p.project_name,
+    dr.mode_of_payment,
+    dr.donation_type,
+    dr.donation_date,
+    dr.status,
+    dr.created_at,
+    dr.transaction_id,
+    dr.proof_path IS NOT NULL,
+    CASE
+      WHEN dr.pledge_id IS NOT NULL THEN 'pledge'
+      WHEN dr.created_by = d.user_id THEN 'donor'
+      ELSE 'admin'
+    END,
+    maker.full_name,
+    dr.created_by = auth.uid(),
+    COALESCE(public.donation_request_needs_second_approval(dr), false),
+    checker.full_name,
+    COALESCE(dr.first_approved_by = auth.uid(), false),
+    dr.first_approved_at
+  FROM public.donation_requests dr
+  JOIN public.donors d ON d.donor_id = dr.donor_id
+  JOIN public.profiles pr ON pr.user_id = d.user_id
+  JOIN public.donation_categories dc ON dc.donation_category_id = dr.category_id
+  JOIN public.projects p ON p.project_id = dr.project_id
+  LEFT JOIN public.profiles maker ON maker.user_id = dr.created_by
+  LEFT JOIN public.profiles checker ON checker.user_id = dr.first_approved_by
+  WHERE dr.status = 'Pending'::public.enum_request_status
+  ORDER BY dr.created_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_pending_donation_requests() TO authenticated;
+
+COMMENT ON FUNCTION public.list_pending_donation_requests() IS 'Returns all pending donation requests with joined data, proof flag, source and maker-checker state. Admin-only. SECURITY DEFINER.';
@@ -0,0 +1,488 @@
+-- supabase/migrations/20250923170000_add_donation_import.sql
+-- Purpose: Bulk import of historical donations from spreadsheets.
+--
+-- - validate_donation_import is the dry run: every row is resolved (donor by donor number,
+--   phone or CNIC; category and project by name) and reported as valid, error or duplicate.
+--   Duplicates share a transaction_id with an existing request/donation or an earlier row.
+-- - import_donation_requests re-validates and creates the valid rows as donation requests in
+--   one transaction, grouped under a donation_import_batches row.
+-- - Every imported row is a Pending request; nothing skips maker-checker. Asking for
+--   pre-approval only flags rows dated in a previous financial year for batch approval
+--   (current-year rows are counted as ignored and go to the normal queue).
+-- - approve_import_batch lets a second admin (never the importer) approve the flagged rows
+--   together through approve_donation_request, so thresholds and receipt numbering still apply.
+
+-- 1) Import batches
+CREATE TABLE IF NOT EXISTS public.donation_import_batches (
+  batch_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_name text,
+  row_count int NOT NULL DEFAULT 0,
+  imported_count int NOT NULL DEFAULT 0,
+  skipped_count int NOT NULL DEFAULT 0,
+  pre_approved boolean NOT NULL DEFAULT false,
+  batch_approval_count int NOT NULL DEFAULT 0,
+  pre_approve_ignored_count int NOT NULL DEFAULT 0,
+  imported_by uuid REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  approved_by uuid REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  approved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.donation_import_batches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS donation_import_batches_admin_select ON public.donation_import_batches;
+CREATE POLICY donation_import_batches_admin_select ON public.donation_import_batches
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+COMMENT ON TABLE public.donation_import_batches IS 'One row per spreadsheet import of historical donations.';
+COMMENT ON COLUMN public.donation_import_batches.batch_approval_count IS 'Rows from previous financial years flagged for approve_import_batch.';
+COMMENT ON COLUMN public.donation_import_batches.pre_approve_ignored_count IS 'Current-year rows for which pre-approval was asked but ignored.';
+
+ALTER TABLE public.donation_requests
+  ADD COLUMN IF NOT EXISTS import_batch_id uuid REFERENCES public.donation_import_batches(batch_id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS import_batch_approval boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.donations
+  ADD COLUMN IF NOT EXISTS import_batch_id uuid REFERENCES public.donation_import_batches(batch_id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_donation_requests_transaction_id ON public.donation_requests (transaction_id) WHERE transaction_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_donations_transaction_id ON public.donations (transaction_id) WHERE transaction_id IS NOT NULL;
+
+-- 2) Dry run: resolve and check every row
+-- p_rows: [{ row, donor_number, phone, cnic, amount, currency, category_name, project_name,
+--            mode_of_payment, donation_type, donation_date (YYYY-MM-DD), transaction_id }]
+CREATE OR REPLACE FUNCTION public.validate_donation_import(p_rows jsonb)
+RETURNS TABLE (
+  row_number int,
+  status text,
+  errors text[],
+  duplicate_of text,
+  donor_id uuid,
+  donor_number text,
+  donor_name text,
+  amount numeric,
+  currency public.enum_donation_currency,
+  category_id uuid,
+  category_name text,
+  project_id uuid,
+  project_name text,
+  mode_of_payment public.enum_payment_mode,
+  donation_type public.enum_donation_type,
+  donation_date date,
+  transaction_id text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row jsonb;
+  v_index bigint;
+  v_seen text[] := ARRAY[]::text[];
+  v_text text;
+  v_digits text;
+  v_matches int;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can import donations' USING ERRCODE = '42501';
+  END IF;
+  IF p_rows IS NULL OR jsonb_typeof(p_rows) <> 'array' THEN
+    RAISE EXCEPTION 'Rows must be a JSON array' USING ERRCODE = '22023';
+  END IF;
+  IF jsonb_array_length(p_rows) > 2000 THEN
+    RAISE EXCEPTION 'A single import is limited to 2000 rows' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_row, v_index IN SELECT e, i FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS t(e, i) LOOP
+    row_number := COALESCE(NULLIF(v_row->>'row', '')::int, v_index::int);
+    errors := ARRAY[]::text[];
+    duplicate_of := NULL;
+    donor_id := NULL; donor_number := NULL; donor_name := NULL;
+    amount := NULL; currency := NULL;
+    category_id := NULL; category_name := NULL;
+    project_id := NULL; project_name := NULL;
+    mode_of_payment := NULL; donation_type := NULL; donation_date := NULL;
+    transaction_id := NULLIF(btrim(v_row->>'transaction_id'), '');
+
+    -- Donor: donor number first, then phone, then CNIC
+    v_text := NULLIF(btrim(v_row->>'donor_number'), '');
+    IF v_text IS NOT NULL THEN
+      SELECT d.donor_id, d.donor_number, pr.full_name
+      INTO donor_id, donor_number, donor_name
+      FROM public.donors d
+      LEFT JOIN public.profiles pr ON pr.user_id = d.user_id
+      WHERE upper(d.donor_number) = upper(v_text);
+      IF donor_id IS NULL THEN
+        errors := errors || format('Donor number %s not found', v_text);
+      END IF;
+    ELSE
+      v_matches := NULL;
+      v_digits := regexp_replace(COALESCE(v_row->>'phone', ''), '\D', '', 'g');
+      IF length(v_digits) >= 10 THEN
+        -- compare the last 10 digits so 0300..., 92300... and +92 300... all match
+        SELECT count(*) INTO v_matches
+        FROM public.donors d
+        JOIN public.profiles pr ON pr.user_id = d.user_id
+        WHERE right(regexp_replace(COALESCE(pr.phone_number, ''), '\D', '', 'g'), 10) = right(v_digits, 10);
+
+        IF v_matches = 1 THEN
+          SELECT d.donor_id, d.donor_number, pr.full_name
+          INTO donor_id, donor_number, donor_name
+          FROM public.donors d
+          JOIN public.profiles pr ON pr.user_id = d.user_id
+          WHERE right(regexp_replace(COALESCE(pr.phone_number, ''), '\D', '', 'g'), 10) = right(v_digits, 10);
+        ELSIF v_matches > 1 THEN
+          errors := errors || format('Phone %s matches %s donors; use the donor number', v_row->>'phone', v_matches);
+        END IF;
+      END IF;
+
+      IF donor_id IS NULL AND cardinality(errors) = 0 THEN
+        v_digits := regexp_replace(COALESCE(v_row->>'cnic', ''), '\D', '', 'g');
+        IF v_digits <> '' THEN
+          SELECT count(*) INTO v_matches
+          FROM public.donors d
+          JOIN public.profiles pr ON pr.user_id = d.user_id
+          WHERE regexp_replace(COALESCE(pr.cnic_number, ''), '\D', '', 'g') = v_digits;
+
+          IF v_matches = 1 THEN
+            SELECT d.donor_id, d.donor_number, pr.full_name
+            INTO donor_id, donor_number, donor_name
+            FROM public.donors d
+            JOIN public.profiles pr ON pr.user_id = d.user_id
+            WHERE regexp_replace(COALESCE(pr.cnic_number, ''), '\D', '', 'g') = v_digits;
+          ELSIF v_matches > 1 THEN
+            errors := errors || format('CNIC %s matches %s donors; use the donor number', v_row->>'cnic', v_matches);
+          END IF;
+        END IF;
+      END IF;
+
+      IF donor_id IS NULL AND cardinality(errors) = 0 THEN
+        errors := errors || 'No donor matches the donor number, phone or CNIC'::text;
+      END IF;
+    END IF;
+
+    -- Amount and currency
+    v_text := replace(btrim(COALESCE(v_row->>'amount', '')), ',', '');
+    IF v_text ~ '^\d+(\.\d{1,2})?$' THEN
+      amount := v_text::numeric;
+    END IF;
+    IF amount IS NULL OR amount <= 0 THEN
+      amount := NULL;
+      errors := errors || format('Invalid amount "%s"', v_row->>'amount');
+    END IF;
+
+    v_text := upper(COALESCE(NULLIF(btrim(v_row->>'currency'), ''), 'PKR'));
+    IF v_text = ANY (enum_range(NULL::public.enum_donation_currency)::text[]) THEN
+      currency := v_text::public.enum_donation_currency;
+    ELSE
+      errors := errors || format('Unsupported currency "%s"', v_row->>'currency');
+    END IF;
+
+    -- Category and project by name (case-insensitive, active only)
+    v_text := btrim(COALESCE(v_row->>'category_name', ''));
+    SELECT c.donation_category_id, c.donation_category_name
+    INTO category_id, category_name
+    FROM public.donation_categories c
+    WHERE lower(c.donation_category_name) = lower(v_text)
+      AND c.is_active = true
+    LIMIT 1;
+    IF category_id IS NULL THEN
+      errors := errors || format('Category "%s" not found or inactive', v_text);
+    ELSE
+      v_text := btrim(COALESCE(v_row->>'project_name', ''));
+      SELECT p.project_id, p.project_name
+      INTO project_id, project_name
+      FROM public.projects p
+      WHERE lower(p.project_name) = lower(v_text)
+        AND p.is_active = true
+        AND p.donation_category_id = category_id
+      LIMIT 1;
+      IF project_id IS NULL THEN
+        errors := errors || format('Project "%s" not found or inactive in %s', v_text, category_name);
+      END IF;
+    END IF;
+
+    -- Payment mode and donation type
+    v_text := NULLIF(btrim(v_row->>'mode_of_payment'), '');
+    IF v_text = ANY (enum_range(NULL::public.enum_payment_mode)::text[]) THEN
+      mode_of_payment := v_text::public.enum_payment_mode;
+    ELSE
+      errors := errors || format('Invalid payment mode "%s"', COALESCE(v_text, ''));
+    END IF;
+
+    v_text := NULLIF(btrim(v_row->>'donation_type'), '');
+    IF v_text = ANY (enum_range(NULL::public.enum_donation_type)::text[]) THEN
+      donation_type := v_text::public.enum_donation_type;
+    ELSE
+      errors := errors || format('Invalid donation type "%s"', COALESCE(v_text, ''));
+    END IF;
+
+    -- Donation date
+    v_text := btrim(COALESCE(v_row->>'donation_date', ''));
+    BEGIN
+      IF v_text ~ '^\d{4}-\d{2}-\d{2}$' THEN
+        donation_date := v_text::date;
+      END IF;
+    EXCEPTION WHEN others THEN
+      donation_date := NULL;
+    END;
+    IF donation_date IS NULL THEN
+      errors := errors || format('Invalid donation date "%s"', v_row->>'donation_date');
+    ELSIF donation_date > CURRENT_DATE THEN
+      errors := errors || 'Donation date is in the future'::text;
+    ELSIF currency IS NOT NULL AND currency <> 'PKR'
+      AND public.get_exchange_rate(currency, donation_date) IS NULL THEN
+      errors := errors || format('No %s exchange rate on record for %s', currency, donation_date);
+    END IF;
+
+    -- Duplicates by transaction_id
+    IF transaction_id IS NOT NULL THEN
+      IF EXISTS (
+        SELECT 1 FROM public.donation_requests r
+        WHERE r.transaction_id = validate_donation_import.transaction_id
+          AND r.status <> 'Rejected'::public.enum_request_status
+      ) OR EXISTS (
+        SELECT 1 FROM public.donations d
+        WHERE d.transaction_id = validate_donation_import.transaction_id
+      ) THEN
+        duplicate_of := 'existing';
+      ELSIF transaction_id = ANY (v_seen) THEN
+        duplicate_of := 'file';
+      END IF;
+      v_seen := v_seen || transaction_id;
+    END IF;
+
+    status := CASE
+      WHEN cardinality(errors) > 0 THEN 'error'
+      WHEN duplicate_of IS NOT NULL THEN 'duplicate'
+      ELSE 'valid'
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.validate_donation_import(jsonb) TO authenticated;
+
+COMMENT ON FUNCTION public.validate_donation_import(jsonb) IS 'Dry run of a donation import: resolves donors, categories and projects and flags errors and transaction_id duplicates per row. Admin-only.';
+
+-- 3) Commit: create the valid rows in one batch
+CREATE OR REPLACE FUNCTION public.import_donation_requests(
+  p_rows jsonb,
+  p_pre_approve boolean DEFAULT false,
+  p_file_name text DEFAULT NULL
+)
+RETURNS public.donation_import_batches
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_batch public.donation_import_batches;
+  v_current_fy int := public.financial_year_of(CURRENT_DATE);
+  v_row record;
+  v_total int := 0;
+  v_imported int := 0;
+  v_flagged int := 0;
+  v_ignored int := 0;
+  v_batch_approval boolean;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can import donations' USING ERRCODE = '42501';
+  END IF;
+
+  -- Serialise imports so two batches cannot both pass the duplicate check
+  PERFORM pg_advisory_xact_lock(hashtext('import_donation_requests'));
+
+  INSERT INTO public.donation_import_batches (file_name, pre_approved, imported_by)
+  VALUES (NULLIF(btrim(p_file_name), ''), COALESCE(p_pre_approve, false), v_actor)
+  RETURNING * INTO v_batch;
+
+  FOR v_row IN SELECT * FROM public.validate_donation_import(p_rows) LOOP
+    v_total := v_total + 1;
+    CONTINUE WHEN v_row.status <> 'valid';
+
+    -- Pre-approval is only honoured for previous financial years
+    v_batch_approval := COALESCE(p_pre_approve, false)
+      AND public.financial_year_of(v_row.donation_date) < v_current_fy;
+
+    INSERT INTO public.donation_requests (
+      donor_id, amount, currency, category_id, project_id,
+      mode_of_payment, donation_type, donation_date, transaction_id,
+      status, created_by, import_batch_id, import_batch_approval
+    ) VALUES (
+      v_row.donor_id, v_row.amount, v_row.currency, v_row.category_id, v_row.project_id,
+      v_row.mode_of_payment, v_row.donation_type, v_row.donation_date, v_row.transaction_id,
+      'Pending', v_actor, v_batch.batch_id, v_batch_approval
+    );
+    v_imported := v_imported + 1;
+
+    IF v_batch_approval THEN
+      v_flagged := v_flagged + 1;
+    ELSIF COALESCE(p_pre_approve, false) THEN
+      v_ignored := v_ignored + 1;
+    END IF;
+  END LOOP;
+
+  UPDATE public.donation_import_batches
+  SET row_count = v_total,
+      imported_count = v_imported,
+      skipped_count = v_total - v_imported,
+      batch_approval_count = v_flagged,
+      pre_approve_ignored_count = v_ignored
+  WHERE batch_id = v_batch.batch_id
+  RETURNING * INTO v_batch;
+
+  RETURN v_batch;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_donation_requests(jsonb, boolean, text) TO authenticated;
+
+COMMENT ON FUNCTION public.import_donation_requests(jsonb, boolean, text) IS 'Creates donation requests for the valid rows of an import in one batch; with pre-approval, rows from previous financial years are flagged for approve_import_batch. Admin-only.';
+
+-- 4) Batch approval by a second admin
+-- Runs every flagged, still pending request of the batch through approve_donation_request, so
+-- maker-checker, the second-approval threshold and receipt numbering apply as usual. Receipts
+-- are issued by the caller.
+CREATE OR REPLACE FUNCTION public.approve_import_batch(p_batch_id uuid)
+RETURNS TABLE (
+  donation_request_id uuid,
+  donation_id uuid,
+  outcome text,
+  message text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_batch public.donation_import_batches;
+  v_id uuid;
+  v_donation public.donations;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can approve donation requests' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_batch
+  FROM public.donation_import_batches b
+  WHERE b.batch_id = p_batch_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_batch.imported_by = v_actor THEN
+    RAISE EXCEPTION 'A second admin must approve this batch; you imported it' USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_id IN
+    SELECT r.donation_request_id
+    FROM public.donation_requests r
+    WHERE r.import_batch_id = p_batch_id
+      AND r.import_batch_approval
+      AND r.status = 'Pending'::public.enum_request_status
+    ORDER BY r.donation_date, r.created_at
+  LOOP
+    donation_request_id := v_id;
+    donation_id := NULL;
+    message := NULL;
+    -- Each approval runs in its own subtransaction so one refusal does not undo the others
+    BEGIN
+      v_donation := public.approve_donation_request(v_id);
+      donation_id := v_donation.donation_id;
+      IF v_donation.donation_id IS NULL THEN
+        outcome := 'first_approval';
+      ELSE
+        outcome := 'approved';
+        UPDATE public.donations d
+        SET import_batch_id = p_batch_id
+        WHERE d.donation_id = v_donation.donation_id;
+      END IF;
+    EXCEPTION WHEN others THEN
+      outcome := 'failed';
+      message := SQLERRM;
+    END;
+    RETURN NEXT;
+  END LOOP;
+
+  UPDATE public.donation_import_batches
+  SET approved_by = v_actor,
+      approved_at = now()
+  WHERE batch_id = p_batch_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.approve_import_batch(uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.approve_import_batch(uuid) IS 'Second-admin approval of the rows an import flagged for batch approval; each goes through approve_donation_request and refusals are reported per request. Receipts are issued by the caller. Admin-only.';
+
+-- 5) Recent batches with their approval progress
+CREATE OR REPLACE FUNCTION public.get_donation_import_batches(p_limit int DEFAULT 20)
+RETURNS TABLE (
+  batch_id uuid,
+  file_name text,
+  imported_count int,
+  skipped_count int,
+  batch_approval_count int,
+  pre_approve_ignored_count int,
+  imported_by uuid,
+  imported_by_name text,
+  approved_by uuid,
+  approved_at timestamptz,
+  created_at timestamptz,
+  approved_count int,
+  awaiting_approval_count int
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view import batches' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    b.batch_id,
+    b.file_name,
+    b.imported_count,
+    b.skipped_count,
+    b.batch_approval_count,
+    b.pre_approve_ignored_count,
+    b.imported_by,
+    p.full_name,
+    b.approved_by,
+    b.approved_at,
+    b.created_at,
+    (SELECT count(*)::int FROM public.donations d WHERE d.import_batch_id = b.batch_id),
+    (SELECT count(*)::int FROM public.donation_requests r
+      WHERE r.import_batch_id = b.batch_id
+        AND r.import_batch_approval
+        AND r.status = 'Pending'::public.enum_request_status)
+  FROM public.donation_import_batches b
+  LEFT JOIN public.profiles p ON p.user_id = b.imported_by
+  ORDER BY b.created_at DESC
+  LIMIT GREATEST(COALESCE(p_limit, 20), 1);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_donation_import_batches(int) TO authenticated;
+
+COMMENT ON FUNCTION public.get_donation_import_batches(int) IS 'Latest donation import batches with approved and still-awaiting counts for batch approval. Admin-only.';
@@ -0,0 +1,498 @@
+-- supabase/migrations/20250923180000_add_bank_reconciliation.sql
+-- Purpose: Reconcile bank statement deposits with recorded donations.
+--
+-- - Uploaded statements (CSV, MT940, camt.053; parsed in the app) are stored with their credit lines.
+-- - auto_match_bank_statement links each unmatched line to at most one pending or approved
+--   donation request: first by transaction_id (reference or description) with the same amount,
+--   then by same amount and currency within 3 days of the value date. Only unambiguous
+--   candidates are matched; everything else is left for manual matching.
+-- - Deposits without a donation and bank donations without a deposit are both listed.
+-- - approve_matched_bank_lines approves the matched pending requests in one step through
+--   approve_donation_request, so the maker-checker rules still apply per request.
+
+-- 1) Line status
+DO $$
+BEGIN
+  CREATE TYPE public.enum_bank_line_status AS ENUM ('Unmatched', 'Matched', 'Ignored');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+-- 2) Statements and lines
+CREATE TABLE IF NOT EXISTS public.bank_statements (
+  statement_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_name text,
+  format text NOT NULL CHECK (format IN ('csv', 'mt940', 'camt053')),
+  account text,
+  period_start date,
+  period_end date,
+  uploaded_by uuid REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.bank_statement_lines (
+  line_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  statement_id uuid NOT NULL REFERENCES public.bank_statements(statement_id) ON DELETE CASCADE,
+  line_number int NOT NULL,
+  value_date date NOT NULL,
+  amount numeric(14,2) NOT NULL CHECK (amount > 0),
+  currency text NOT NULL,
+  reference text,
+  description text,
+  status public.enum_bank_line_status NOT NULL DEFAULT 'Unmatched',
+  donation_request_id uuid REFERENCES public.donation_requests(donation_request_id) ON DELETE SET NULL,
+  match_method text CHECK (match_method IN ('transaction_id', 'amount_date', 'manual')),
+  matched_by uuid REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  matched_at timestamptz,
+  UNIQUE (statement_id, line_number)
+);
+
+-- A donation request can be matched to one deposit only
+CREATE UNIQUE INDEX IF NOT EXISTS ux_bank_statement_lines_donation_request
+  ON public.bank_statement_lines (donation_request_id)
+  WHERE donation_request_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_statement ON public.bank_statement_lines (statement_id);
+
+ALTER TABLE public.bank_statements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bank_statement_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS bank_statements_admin_select ON public.bank_statements;
+CREATE POLICY bank_statements_admin_select ON public.bank_statements
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+DROP POLICY IF EXISTS bank_statement_lines_admin_select ON public.bank_statement_lines;
+CREATE POLICY bank_statement_lines_admin_select ON public.bank_statement_lines
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+COMMENT ON TABLE public.bank_statements IS 'Uploaded bank statements used for donation reconciliation.';
+COMMENT ON TABLE public.bank_statement_lines IS 'Credit lines of a bank statement and the donation request each one is matched to.';
+
+-- 3) Auto-matching
+CREATE OR REPLACE FUNCTION public.auto_match_bank_statement(p_statement_id uuid)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line public.bank_statement_lines;
+  v_candidates uuid[];
+  v_method text;
+  v_matched int := 0;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can reconcile bank statements' USING ERRCODE = '42501';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.bank_statements WHERE statement_id = p_statement_id) THEN
+    RAISE EXCEPTION 'Bank statement not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM public.bank_statement_lines
+    WHERE statement_id = p_statement_id
+      AND status = 'Unmatched'::public.enum_bank_line_status
+    ORDER BY line_number
+  LOOP
+    -- a) Transaction ID quoted in the reference or narrative, same amount
+    v_method := 'transaction_id';
+    SELECT array_agg(r.donation_request_id) INTO v_candidates
+    FROM public.donation_requests r
+    WHERE r.status IN ('Pending'::public.enum_request_status, 'Approved'::public.enum_request_status)
+      AND r.transaction_id IS NOT NULL
+      AND r.amount = v_line.amount
+      AND r.currency::text = v_line.currency
+      AND (
+        lower(r.transaction_id) = lower(COALESCE(v_line.reference, ''))
+        OR (length(r.transaction_id) >= 6
+            AND position(lower(r.transaction_id) IN lower(COALESCE(v_line.reference, '') || ' ' || COALESCE(v_line.description, ''))) > 0)
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.bank_statement_lines l WHERE l.donation_request_id = r.donation_request_id
+      );
+
+    -- b) Same amount and currency within 3 days of the value date
+    IF COALESCE(cardinality(v_candidates), 0) = 0 THEN
+      v_method := 'amount_date';
+      SELECT array_agg(r.donation_request_id) INTO v_candidates
+      FROM public.donation_requests r
+      WHERE r.status IN ('Pending'::public.enum_request_status, 'Approved'::public.enum_request_status)
+        AND r.amount = v_line.amount
+        AND r.currency::text = v_line.currency
+        AND abs(r.donation_date - v_line.value_date) <= 3
+        AND NOT EXISTS (
+          SELECT 1 FROM public.bank_statement_lines l WHERE l.donation_request_id = r.donation_request_id
+        );
+    END IF;
+
+    IF cardinality(v_candidates) = 1 THEN
+      UPDATE public.bank_statement_lines
+      SET status = 'Matched'::public.enum_bank_line_status,
+          donation_request_id = v_candidates[1],
+          match_method = v_method,
+          matched_by = auth.uid(),
+          matched_at = now()
+      WHERE line_id = v_line.line_id;
+      v_matched := v_matched + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_matched;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.auto_match_bank_statement(uuid) TO authenticated;
+
+-- 4) Upload: store the parsed lines and auto-match them
+-- p_lines: [{ line_number, value_date (YYYY-MM-DD), amount, currency, reference, description }]
+CREATE OR REPLACE FUNCTION public.import_bank_statement(
+  p_file_name text,
+  p_format text,
+  p_account text,
+  p_currency text,
+  p_lines jsonb
+)
+RETURNS public.bank_statements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_statement public.bank_statements;
+  v_line jsonb;
+  v_date date;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can reconcile bank statements' USING ERRCODE = '42501';
+  END IF;
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'The statement has no lines' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.bank_statements (file_name, format, account, uploaded_by)
+  VALUES (NULLIF(btrim(p_file_name), ''), p_format, NULLIF(btrim(p_account), ''), v_actor)
+  RETURNING * INTO v_statement;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    BEGIN
+      v_date := (v_line->>'value_date')::date;
+    EXCEPTION WHEN others THEN
+      RAISE EXCEPTION 'Line %: invalid date "%"', v_line->>'line_number', v_line->>'value_date' USING ERRCODE = '22023';
+    END;
+
+    INSERT INTO public.bank_statement_lines (
+      statement_id, line_number, value_date, amount, currency, reference, description
+    ) VALUES (
+      v_statement.statement_id,
+      (v_line->>'line_number')::int,
+      v_date,
+      (v_line->>'amount')::numeric,
+      upper(COALESCE(NULLIF(btrim(v_line->>'currency'), ''), NULLIF(btrim(p_currency), ''), 'PKR')),
+      NULLIF(btrim(v_line->>'reference'), ''),
+      NULLIF(btrim(v_line->>'description'), '')
+    );
+  END LOOP;
+
+  UPDATE public.bank_statements s
+  SET period_start = l.first_date,
+      period_end = l.last_date
+  FROM (
+    SELECT min(value_date) AS first_date, max(value_date) AS last_date
+    FROM public.bank_statement_lines
+    WHERE statement_id = v_statement.statement_id
+  ) l
+  WHERE s.statement_id = v_statement.statement_id
+  RETURNING s.* INTO v_statement;
+
+  PERFORM public.auto_match_bank_statement(v_statement.statement_id);
+
+  RETURN v_statement;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_bank_statement(text, text, text, text, jsonb) TO authenticated;
+
+-- 5) Statements with match counts
+CREATE OR REPLACE FUNCTION public.list_bank_statements()
+RETURNS TABLE (
+  statement_id uuid,
+  file_name text,
+  format text,
+  account text,
+  period_start date,
+  period_end date,
+  created_at timestamptz,
+  uploaded_by_name text,
+  line_count int,
+  matched_count int,
+  unmatched_count int,
+  ignored_count int
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view bank statements' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.statement_id,
+    s.file_name,
+    s.format,
+    s.account,
+    s.period_start,
+    s.period_end,
+    s.created_at,
+    pr.full_name,
+    count(l.line_id)::int,
+    count(l.line_id) FILTER (WHERE l.status = 'Matched')::int,
+    count(l.line_id) FILTER (WHERE l.status = 'Unmatched')::int,
+    count(l.line_id) FILTER (WHERE l.status = 'Ignored')::int
+  FROM public.bank_statements s
+  LEFT JOIN public.bank_statement_lines l ON l.statement_id = s.statement_id
+  LEFT JOIN public.profiles pr ON pr.user_id = s.uploaded_by
+  GROUP BY s.statement_id, pr.full_name
+  ORDER BY s.created_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_bank_statements() TO authenticated;
+
+-- 6) Statement lines with the matched donation
+CREATE OR REPLACE FUNCTION public.get_bank_statement_lines(p_statement_id uuid)
+RETURNS TABLE (
+  line_id uuid,
+  line_number int,
+  value_date date,
+  amount numeric,
+  currency text,
+  reference text,
+  description text,
+  status public.enum_bank_line_status,
+  match_method text,
+  donation_request_id uuid,
+  request_status public.enum_request_status,
+  donor_number text,
+  donor_name text,
+  donation_date date,
+  transaction_id text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view bank statements' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    l.line_id,
+    l.line_number,
+    l.value_date,
+    l.amount,
+    l.currency,
+    l.reference,
+    l.description,
+    l.status,
+    l.match_method,
+    l.donation_request_id,
+    r.status,
+    d.donor_number,
+    pr.full_name,
+    r.donation_date,
+    r.transaction_id
+  FROM public.bank_statement_lines l
+  LEFT JOIN public.donation_requests r ON r.donation_request_id = l.donation_request_id
+  LEFT JOIN public.donors d ON d.donor_id = r.donor_id
+  LEFT JOIN public.profiles pr ON pr.user_id = d.user_id
+  WHERE l.statement_id = p_statement_id
+  ORDER BY l.line_number;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_bank_statement_lines(uuid) TO authenticated;
+
+-- 7) Bank donations in the statement period with no deposit matched
+CREATE OR REPLACE FUNCTION public.list_unmatched_bank_donations(p_statement_id uuid)
+RETURNS TABLE (
+  donation_request_id uuid,
+  donor_number text,
+  donor_name text,
+  amount numeric,
+  currency public.enum_donation_currency,
+  mode_of_payment public.enum_payment_mode,
+  donation_date date,
+  transaction_id text,
+  status public.enum_request_status
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_statement public.bank_statements;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view bank statements' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_statement FROM public.bank_statements WHERE statement_id = p_statement_id;
+  IF v_statement.statement_id IS NULL THEN
+    RAISE EXCEPTION 'Bank statement not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.donation_request_id,
+    d.donor_number,
+    COALESCE(pr.full_name, ''),
+    r.amount,
+    r.currency,
+    r.mode_of_payment,
+    r.donation_date,
+    r.transaction_id,
+    r.status
+  FROM public.donation_requests r
+  JOIN public.donors d ON d.donor_id = r.donor_id
+  LEFT JOIN public.profiles pr ON pr.user_id = d.user_id
+  WHERE r.status IN ('Pending'::public.enum_request_status, 'Approved'::public.enum_request_status)
+    AND r.mode_of_payment IN ('BankTransfer'::public.enum_payment_mode, 'Online'::public.enum_payment_mode)
+    AND r.donation_date BETWEEN v_statement.period_start - 3 AND v_statement.period_end + 3
+    AND NOT EXISTS (
+      SELECT 1 FROM public.bank_statement_lines l WHERE l.donation_request_id = r.donation_request_id
+    )
+  ORDER BY r.donation_date, r.amount;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_unmatched_bank_donations(uuid) TO authenticated;
+
+-- 8) Manual match / unmatch / ignore
+-- p_donation_request_id NULL clears the match; p_ignore marks a deposit as not a donation
+CREATE OR REPLACE FUNCTION public.set_bank_statement_line_match(
+  p_line_id uuid,
+  p_donation_request_id uuid DEFAULT NULL,
+  p_ignore boolean DEFAULT false
+)
+RETURNS public.bank_statement_lines
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line public.bank_statement_lines;
+  v_req public.donation_requests;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can reconcile bank statements' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_line FROM public.bank_statement_lines WHERE line_id = p_line_id FOR UPDATE;
+  IF v_line.line_id IS NULL THEN
+    RAISE EXCEPTION 'Statement line not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_donation_request_id IS NOT NULL THEN
+    SELECT * INTO v_req FROM public.donation_requests WHERE donation_request_id = p_donation_request_id;
+    IF v_req.donation_request_id IS NULL THEN
+      RAISE EXCEPTION 'Donation request not found' USING ERRCODE = 'P0002';
+    END IF;
+    IF v_req.status = 'Rejected'::public.enum_request_status THEN
+      RAISE EXCEPTION 'A rejected donation request cannot be matched' USING ERRCODE = '22023';
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM public.bank_statement_lines
+      WHERE donation_request_id = p_donation_request_id AND line_id <> p_line_id
+    ) THEN
+      RAISE EXCEPTION 'This donation is already matched to another deposit' USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE public.bank_statement_lines
+    SET status = 'Matched'::public.enum_bank_line_status,
+        donation_request_id = p_donation_request_id,
+        match_method = 'manual',
+        matched_by = auth.uid(),
+        matched_at = now()
+    WHERE line_id = p_line_id
+    RETURNING * INTO v_line;
+  ELSE
+    UPDATE public.bank_statement_lines
+    SET status = CASE WHEN p_ignore THEN 'Ignored' ELSE 'Unmatched' END::public.enum_bank_line_status,
+        donation_request_id = NULL,
+        match_method = NULL,
+        matched_by = CASE WHEN p_ignore THEN auth.uid() END,
+        matched_at = CASE WHEN p_ignore THEN now() END
+    WHERE line_id = p_line_id
+    RETURNING * INTO v_line;
+  END IF;
+
+  RETURN v_line;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_bank_statement_line_match(uuid, uuid, boolean) TO authenticated;
+
+-- 9) Approve every matched pending request of a statement. Receipt PDFs are generated by the
+--    calling route for each returned donation_id, as in single approval.
+CREATE OR REPLACE FUNCTION public.approve_matched_bank_lines(p_statement_id uuid)
+RETURNS TABLE (
+  donation_request_id uuid,
+  donation_id uuid,
+  outcome text,
+  message text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+  v_donation public.donations;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can approve donation requests' USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_id IN
+    SELECT l.donation_request_id
+    FROM public.bank_statement_lines l
+    JOIN public.donation_requests r ON r.donation_request_id = l.donation_request_id
+    WHERE l.statement_id = p_statement_id
+      AND l.status = 'Matched'::public.enum_bank_line_status
+      AND r.status = 'Pending'::public.enum_request_status
+    ORDER BY l.line_number
+  LOOP
+    donation_request_id := v_id;
+    donation_id := NULL;
+    message := NULL;
+    -- Each approval runs in its own subtransaction so one refusal does not undo the others
+    BEGIN
+      v_donation := public.approve_donation_request(v_id);
+      donation_id := v_donation.donation_id;
+      outcome := CASE WHEN v_donation.donation_id IS NULL THEN 'first_approval' ELSE 'approved' END;
+    EXCEPTION WHEN others THEN
+      outcome := 'failed';
+      message := SQLERRM;
+    END;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.approve_matched_bank_lines(uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.approve_matched_bank_lines(uuid) IS 'Approves the pending donation requests matched to a statement''s deposits; maker-checker refusals are reported per request. Receipts are issued by the caller. Admin-only.';
@@ -0,0 +1,415 @@
+-- supabase/migrations/20250923190000_create_expenses.sql
+-- Purpose: Expenses charged to projects, with the same Pending/Approved/Rejected workflow as
+-- donation requests.
+--
+-- - Each expense belongs to a project and, through it, to a donation category; vendor, amount,
+--   currency, date and an optional invoice (private 'expense-invoices' bucket) are recorded.
+-- - Foreign-currency expenses store the rate and PKR equivalent like donations do.
+-- - The admin who records an expense cannot approve or reject it.
+-- - get_expense_metrics backs the cards on /admin/financials/expenses. Budget variance compares
+--   the target_amount of active projects with the approved spend charged to them.
+
+-- 1) Private bucket for invoices (10 MB, images and PDF)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('expense-invoices', 'expense-invoices', false, 10485760, ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf'])
+ON CONFLICT (id) DO UPDATE
+SET public = false,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+DROP POLICY IF EXISTS expense_invoices_admin_insert ON storage.objects;
+CREATE POLICY expense_invoices_admin_insert ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'expense-invoices'
+  AND public.is_admin()
+);
+
+DROP POLICY IF EXISTS expense_invoices_admin_select ON storage.objects;
+CREATE POLICY expense_invoices_admin_select ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'expense-invoices'
+  AND public.is_admin()
+);
+
+-- Lets the API remove an upload whose expense could not be created
+DROP POLICY IF EXISTS expense_invoices_admin_delete ON storage.objects;
+CREATE POLICY expense_invoices_admin_delete ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'expense-invoices'
+  AND public.is_admin()
+);
+
+-- 2) Expenses
+CREATE TABLE IF NOT EXISTS public.expenses (
+  expense_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  expense_number text UNIQUE,
+  category_id uuid NOT NULL REFERENCES public.donation_categories(donation_category_id),
+  project_id uuid NOT NULL REFERENCES public.projects(project_id),
+  vendor_name text NOT NULL CHECK (btrim(vendor_name) <> ''),
+  description text,
+  amount numeric(14,2) NOT NULL CHECK (amount > 0),
+  currency public.enum_donation_currency NOT NULL DEFAULT 'PKR',
+  exchange_rate numeric(18,6),
+  base_amount numeric(14,2),
+  expense_date date NOT NULL,
+  invoice_number text,
+  invoice_path text,
+  status public.enum_request_status NOT NULL DEFAULT 'Pending',
+  created_by uuid NOT NULL REFERENCES public.profiles(user_id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  approved_by uuid REFERENCES public.profiles(user_id),
+  approved_at timestamptz,
+  rejection_reason text,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_expenses_status ON public.expenses(status);
+CREATE INDEX IF NOT EXISTS idx_expenses_date ON public.expenses(expense_date);
+CREATE INDEX IF NOT EXISTS idx_expenses_project ON public.expenses(project_id);
+
+ALTER TABLE public.expenses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS expenses_admin_select ON public.expenses;
+CREATE POLICY expenses_admin_select ON public.expenses
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+COMMENT ON TABLE public.expenses IS 'Organisation expenses charged to a project; Pending until approved or rejected by an admin other than the creator.';
+
+-- Human id (EXP-YYYY-NNN), PKR equivalent and updated_at
+CREATE OR REPLACE FUNCTION public.set_expense_derived_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.expense_number IS NULL THEN
+      NEW.expense_number := public.next_yearly_human_id('EXP');
+    END IF;
+    IF NEW.exchange_rate IS NULL THEN
+      NEW.exchange_rate := public.get_exchange_rate(NEW.currency, NEW.expense_date);
+    END IF;
+  ELSE
+    IF NEW.currency IS DISTINCT FROM OLD.currency OR NEW.expense_date IS DISTINCT FROM OLD.expense_date THEN
+      NEW.exchange_rate := public.get_exchange_rate(NEW.currency, NEW.expense_date);
+    END IF;
+    NEW.updated_at := now();
+  END IF;
+
+  IF NEW.exchange_rate IS NULL THEN
+    RAISE EXCEPTION 'No exchange rate for % on or before %', NEW.currency, NEW.expense_date USING ERRCODE = 'P0002';
+  END IF;
+
+  NEW.base_amount := round(NEW.amount * NEW.exchange_rate, 2);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_set_expense_derived_fields ON public.expenses;
+CREATE TRIGGER trg_set_expense_derived_fields
+BEFORE INSERT OR UPDATE ON public.expenses
+FOR EACH ROW
+EXECUTE FUNCTION public.set_expense_derived_fields();
+
+-- 3) RPC: record an expense (category follows from the project)
+CREATE OR REPLACE FUNCTION public.create_expense(
+  p_project_id uuid,
+  p_vendor_name text,
+  p_amount numeric,
+  p_currency public.enum_donation_currency,
+  p_expense_date date,
+  p_description text DEFAULT NULL,
+  p_invoice_number text DEFAULT NULL,
+  p_invoice_path text DEFAULT NULL
+)
+RETURNS public.expenses
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_project public.projects;
+  v_expense public.expenses;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can record expenses' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+  IF NULLIF(btrim(p_vendor_name), '') IS NULL THEN
+    RAISE EXCEPTION 'Vendor is required' USING ERRCODE = '22023';
+  END IF;
+  IF p_expense_date IS NULL OR p_expense_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Expense date cannot be in the future' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_project
+  FROM public.projects
+  WHERE project_id = p_project_id
+    AND is_active = true;
+  IF v_project.project_id IS NULL THEN
+    RAISE EXCEPTION 'Project not found or inactive' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.expenses (
+    category_id, project_id, vendor_name, description, amount, currency,
+    expense_date, invoice_number, invoice_path, status, created_by
+  ) VALUES (
+    v_project.donation_category_id, v_project.project_id, btrim(p_vendor_name), NULLIF(btrim(p_description), ''),
+    p_amount, p_currency, p_expense_date, NULLIF(btrim(p_invoice_number), ''), p_invoice_path, 'Pending', v_actor
+  )
+  RETURNING * INTO v_expense;
+
+  RETURN v_expense;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_expense(uuid, text, numeric, public.enum_donation_currency, date, text, text, text) TO authenticated;
+
+-- 4) RPCs: approve / reject
+CREATE OR REPLACE FUNCTION public.approve_expense(p_expense_id uuid)
+RETURNS public.expenses
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_expense public.expenses;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can approve expenses' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_expense FROM public.expenses WHERE expense_id = p_expense_id FOR UPDATE;
+  IF v_expense.expense_id IS NULL THEN
+    RAISE EXCEPTION 'Expense not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_expense.status <> 'Pending'::public.enum_request_status THEN
+    RAISE EXCEPTION 'Expense is not pending (current status: %)', v_expense.status USING ERRCODE = 'P0002';
+  END IF;
+  IF v_expense.created_by = v_actor THEN
+    RAISE EXCEPTION 'You recorded this expense; another admin must approve it' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.expenses
+  SET status = 'Approved'::public.enum_request_status,
+      approved_by = v_actor,
+      approved_at = now(),
+      rejection_reason = NULL
+  WHERE expense_id = p_expense_id
+  RETURNING * INTO v_expense;
+
+  RETURN v_expense;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.approve_expense(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.reject_expense(p_expense_id uuid, p_reason text)
+RETURNS public.expenses
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_expense public.expenses;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can reject expenses' USING ERRCODE = '42501';
+  END IF;
+  IF NULLIF(btrim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A rejection reason is required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_expense FROM public.expenses WHERE expense_id = p_expense_id FOR UPDATE;
+  IF v_expense.expense_id IS NULL THEN
+    RAISE EXCEPTION 'Expense not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_expense.status <> 'Pending'::public.enum_request_status THEN
+    RAISE EXCEPTION 'Expense is not pending (current status: %)', v_expense.status USING ERRCODE = 'P0002';
+  END IF;
+  IF v_expense.created_by = v_actor THEN
+    RAISE EXCEPTION 'You recorded this expense; another admin must review it' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.expenses
+  SET status = 'Rejected'::public.enum_request_status,
+      approved_by = v_actor,
+      approved_at = now(),
+      rejection_reason = btrim(p_reason)
+  WHERE expense_id = p_expense_id
+  RETURNING * INTO v_expense;
+
+  RETURN v_expense;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reject_expense(uuid, text) TO authenticated;
+
+-- 5) RPC: list expenses (optionally by status), newest first
+CREATE OR REPLACE FUNCTION public.list_expenses(
+  p_status public.enum_request_status DEFAULT NULL,
+  p_limit int DEFAULT 200
+)
+RETURNS TABLE (
+  expense_id uuid,
+  expense_number text,
+  vendor_name text,
+  description text,
+  category_name text,
+  project_name text,
+  amount numeric,
+  currency public.enum_donation_currency,
+  base_amount numeric,
+  expense_date date,
+  invoice_number text,
+  has_invoice boolean,
+  status public.enum_request_status,
+  rejection_reason text,
+  created_at timestamptz,
+  created_by_name text,
+  created_by_me boolean,
+  reviewed_by_name text,
+  reviewed_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can list expenses' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    e.expense_id,
+    e.expense_number,
+    e.vendor_name,
+    e.description,
+    dc.donation_category_name,
+    p.project_name,
+    e.amount,
+    e.currency,
+    e.base_amount,
+    e.expense_date,
+    e.invoice_number,
+    e.invoice_path IS NOT NULL,
+    e.status,
+    e.rejection_reason,
+    e.created_at,
+    maker.full_name,
+    e.created_by = auth.uid(),
+    checker.full_name,
+    e.approved_at
+  FROM public.expenses e
+  JOIN public.donation_categories dc ON dc.donation_category_id = e.category_id
+  JOIN public.projects p ON p.project_id = e.project_id
+  LEFT JOIN public.profiles maker ON maker.user_id = e.created_by
+  LEFT JOIN public.profiles checker ON checker.user_id = e.approved_by
+  WHERE p_status IS NULL OR e.status = p_status
+  ORDER BY e.expense_date DESC, e.created_at DESC
+  LIMIT GREATEST(1, LEAST(COALESCE(p_limit, 200), 1000));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_expenses(public.enum_request_status, int) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_expense_invoice_path(p_expense_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_path text;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view expense invoices' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT invoice_path INTO v_path FROM public.expenses WHERE expense_id = p_expense_id;
+  RETURN v_path;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_expense_invoice_path(uuid) TO authenticated;
+
+-- 6) RPC: metric cards (amounts in PKR; only approved expenses count as spent)
+CREATE OR REPLACE FUNCTION public.get_expense_metrics()
+RETURNS TABLE (
+  total_expenses numeric,
+  monthly_expenses numeric,
+  pending_count int,
+  pending_amount numeric,
+  planned_budget numeric,
+  budgeted_spend numeric,
+  budget_variance numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view expense metrics' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH budgets AS (
+    SELECT p.project_id, p.target_amount
+    FROM public.projects p
+    WHERE p.is_active = true
+      AND p.target_amount IS NOT NULL
+  )
+  SELECT
+    COALESCE((SELECT sum(e.base_amount) FROM public.expenses e WHERE e.status = 'Approved'), 0),
+    COALESCE((
+      SELECT sum(e.base_amount) FROM public.expenses e
+      WHERE e.status = 'Approved'
+        AND date_trunc('month', e.expense_date) = date_trunc('month', CURRENT_DATE)
+    ), 0),
+    (SELECT count(*)::int FROM public.expenses e WHERE e.status = 'Pending'),
+    COALESCE((SELECT sum(e.base_amount) FROM public.expenses e WHERE e.status = 'Pending'), 0),
+    COALESCE((SELECT sum(b.target_amount) FROM budgets b), 0),
+    COALESCE((
+      SELECT sum(e.base_amount) FROM public.expenses e
+      JOIN budgets b ON b.project_id = e.project_id
+      WHERE e.status = 'Approved'
+    ), 0),
+    COALESCE((SELECT sum(b.target_amount) FROM budgets b), 0) - COALESCE((
+      SELECT sum(e.base_amount) FROM public.expenses e
+      JOIN budgets b ON b.project_id = e.project_id
+      WHERE e.status = 'Approved'
+    ), 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_expense_metrics() TO authenticated;
+
+COMMENT ON FUNCTION public.get_expense_metrics() IS 'Expense totals in PKR: approved all-time and this month, pending queue, and planned project budgets vs approved spend. Admin-only.';
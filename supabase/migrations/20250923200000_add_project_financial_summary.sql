@@ -0,0 +1,106 @@
+-- supabase/migrations/20250923200000_add_project_financial_summary.sql
+-- Purpose: Budget vs. actual per project, using projects.target_amount as the budget.
+--
+-- - Raised is the PKR total (base_amount) of approved donations charged to the project.
+-- - Spent is the PKR total of approved expenses charged to the project.
+-- - remaining_target and percent_funded are NULL when the project has no target_amount.
+-- - Two alert flags: overspent (spent > raised) and target_missed (end_date has passed and
+--   raised is still below target_amount).
+
+-- 1) Indexes for the per-project sums
+CREATE INDEX IF NOT EXISTS idx_donations_project ON public.donations(project_id);
+CREATE INDEX IF NOT EXISTS idx_expenses_project_status ON public.expenses(project_id, status);
+
+-- 2) Summary for all projects, or a single one when p_project_id is given
+CREATE OR REPLACE FUNCTION public.get_project_financial_summaries(p_project_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  project_id uuid,
+  project_name text,
+  donation_category_id uuid,
+  is_active boolean,
+  start_date date,
+  end_date date,
+  target_amount numeric,
+  funds_raised numeric,
+  funds_spent numeric,
+  available_funds numeric,
+  remaining_target numeric,
+  percent_funded numeric,
+  overspent boolean,
+  target_missed boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view project financials' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_project_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM public.projects p WHERE p.project_id = p_project_id) THEN
+    RAISE EXCEPTION 'Project not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  WITH raised AS (
+    SELECT d.project_id, sum(d.base_amount) AS total
+    FROM public.donations d
+    WHERE p_project_id IS NULL OR d.project_id = p_project_id
+    GROUP BY d.project_id
+  ),
+  spent AS (
+    SELECT e.project_id, sum(e.base_amount) AS total
+    FROM public.expenses e
+    WHERE e.status = 'Approved'
+      AND (p_project_id IS NULL OR e.project_id = p_project_id)
+    GROUP BY e.project_id
+  ),
+  totals AS (
+    SELECT
+      p.project_id,
+      p.project_name,
+      p.donation_category_id,
+      p.is_active,
+      p.start_date,
+      p.end_date,
+      p.target_amount::numeric AS target_amount,
+      COALESCE(r.total, 0) AS funds_raised,
+      COALESCE(s.total, 0) AS funds_spent,
+      p.created_at
+    FROM public.projects p
+    LEFT JOIN raised r ON r.project_id = p.project_id
+    LEFT JOIN spent s ON s.project_id = p.project_id
+    WHERE p_project_id IS NULL OR p.project_id = p_project_id
+  )
+  SELECT
+    t.project_id,
+    t.project_name,
+    t.donation_category_id,
+    t.is_active,
+    t.start_date,
+    t.end_date,
+    t.target_amount,
+    t.funds_raised,
+    t.funds_spent,
+    t.funds_raised - t.funds_spent,
+    CASE WHEN t.target_amount IS NULL THEN NULL ELSE GREATEST(t.target_amount - t.funds_raised, 0) END,
+    CASE
+      WHEN t.target_amount IS NULL OR t.target_amount <= 0 THEN NULL
+      ELSE round(t.funds_raised * 100 / t.target_amount, 1)
+    END,
+    t.funds_spent > t.funds_raised,
+    t.target_amount IS NOT NULL
+      AND t.end_date IS NOT NULL
+      AND t.end_date < CURRENT_DATE
+      AND t.funds_raised < t.target_amount
+  FROM totals t
+  ORDER BY t.created_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_project_financial_summaries(uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.get_project_financial_summaries(uuid) IS 'Per-project budget vs. actual in PKR: approved donations raised, approved expenses spent, remaining target, percent funded and overspent/target-missed alerts. Admin-only.';
@@ -0,0 +1,578 @@
+-- supabase/migrations/20250923210000_add_fund_ledger.sql
+-- Purpose: Keep Zakat, Sadqa and General money in separate funds with a disbursement ledger.
+--
+-- - A donation credits the fund matching its donation_type (base_amount, PKR).
+-- - fund_disbursements debit a fund; approved expenses debit the fund they are charged to.
+-- - Zakat is restricted: it can only be disbursed to a named beneficiary for one of the eight
+--   eligible purposes, and it can never be used for vendor expenses.
+-- - No fund may go below zero; disbursements and expense approvals are refused when the fund
+--   balance does not cover them. A disbursement is corrected by voiding it, never by deleting it.
+-- - get_fund_balances backs the funds page and the per-fund split on the admin dashboard.
+
+-- 1) Purposes a disbursement can be made for
+DO $$
+BEGIN
+  CREATE TYPE public.enum_disbursement_purpose AS ENUM (
+    'Poor',
+    'Needy',
+    'ZakatAdministration',
+    'NewMuslims',
+    'FreeingCaptives',
+    'Debtors',
+    'CauseOfAllah',
+    'Wayfarer',
+    'Welfare',
+    'ProjectSupport',
+    'Operations',
+    'Other'
+  );
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.is_zakat_eligible_purpose(p_purpose public.enum_disbursement_purpose)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_purpose IN ('Poor', 'Needy', 'ZakatAdministration', 'NewMuslims', 'FreeingCaptives', 'Debtors', 'CauseOfAllah', 'Wayfarer');
+$$;
+
+COMMENT ON FUNCTION public.is_zakat_eligible_purpose(public.enum_disbursement_purpose) IS 'True for the eight Zakat recipient categories (Qur''an 9:60).';
+
+-- 2) Disbursements
+CREATE TABLE IF NOT EXISTS public.fund_disbursements (
+  disbursement_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  disbursement_number text UNIQUE,
+  fund public.enum_donation_type NOT NULL,
+  purpose public.enum_disbursement_purpose NOT NULL,
+  beneficiary_name text,
+  beneficiary_cnic text,
+  project_id uuid REFERENCES public.projects(project_id),
+  amount numeric(14,2) NOT NULL CHECK (amount > 0),
+  disbursement_date date NOT NULL,
+  reference text,
+  notes text,
+  created_by uuid NOT NULL REFERENCES public.profiles(user_id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  voided_at timestamptz,
+  voided_by uuid REFERENCES public.profiles(user_id),
+  void_reason text,
+  CONSTRAINT fund_disbursements_zakat_eligible CHECK (
+    fund <> 'Zakat'
+    OR (public.is_zakat_eligible_purpose(purpose) AND NULLIF(btrim(beneficiary_name), '') IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_fund_disbursements_fund ON public.fund_disbursements(fund, disbursement_date);
+
+ALTER TABLE public.fund_disbursements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS fund_disbursements_admin_select ON public.fund_disbursements;
+CREATE POLICY fund_disbursements_admin_select ON public.fund_disbursements
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+COMMENT ON TABLE public.fund_disbursements IS 'Payments out of the Zakat, Sadqa or General fund (PKR). Voided rows stay for the audit trail and no longer count.';
+
+-- 3) Expenses are charged to Sadqa or General (never Zakat)
+ALTER TABLE public.expenses
+  ADD COLUMN IF NOT EXISTS fund public.enum_donation_type NOT NULL DEFAULT 'General';
+
+DO $$
+BEGIN
+  ALTER TABLE public.expenses
+    ADD CONSTRAINT expenses_fund_not_zakat CHECK (fund <> 'Zakat');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_donations_type ON public.donations(donation_type);
+
+-- 4) Balance of one fund (callers hold the fund lock when they are about to debit it)
+CREATE OR REPLACE FUNCTION public.get_fund_balance(p_fund public.enum_donation_type)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE((SELECT sum(d.base_amount) FROM public.donations d WHERE d.donation_type = p_fund), 0)
+    - COALESCE((SELECT sum(fd.amount) FROM public.fund_disbursements fd WHERE fd.fund = p_fund AND fd.voided_at IS NULL), 0)
+    - COALESCE((SELECT sum(e.base_amount) FROM public.expenses e WHERE e.fund = p_fund AND e.status = 'Approved'), 0);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_fund_balance(public.enum_donation_type) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.lock_fund(p_fund public.enum_donation_type)
+RETURNS void
+LANGUAGE sql
+AS $$
+  SELECT pg_advisory_xact_lock(hashtext('fund_ledger:' || p_fund::text));
+$$;
+
+-- Approving an expense debits its fund, so refuse it when the fund cannot cover it
+CREATE OR REPLACE FUNCTION public.check_expense_fund_balance()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance numeric;
+BEGIN
+  IF NEW.status = 'Approved' AND OLD.status IS DISTINCT FROM 'Approved' THEN
+    PERFORM public.lock_fund(NEW.fund);
+    v_balance := public.get_fund_balance(NEW.fund);
+    IF v_balance < NEW.base_amount THEN
+      RAISE EXCEPTION 'Insufficient % fund balance: PKR % available, PKR % needed', NEW.fund, v_balance, NEW.base_amount
+        USING ERRCODE = '22023';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_check_expense_fund_balance ON public.expenses;
+CREATE TRIGGER trg_check_expense_fund_balance
+BEFORE UPDATE OF status ON public.expenses
+FOR EACH ROW
+EXECUTE FUNCTION public.check_expense_fund_balance();
+
+-- 5) create_expense takes the fund to charge
+DROP FUNCTION IF EXISTS public.create_expense(uuid, text, numeric, public.enum_donation_currency, date, text, text, text);
+
+CREATE OR REPLACE FUNCTION public.create_expense(
+  p_project_id uuid,
+  p_vendor_name text,
+  p_amount numeric,
+  p_currency public.enum_donation_currency,
+  p_expense_date date,
+  p_description text DEFAULT NULL,
+  p_invoice_number text DEFAULT NULL,
+  p_invoice_path text DEFAULT NULL,
+  p_fund public.enum_donation_type DEFAULT 'General'
+)
+RETURNS public.expenses
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_project public.projects;
+  v_expense public.expenses;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can record expenses' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+  IF NULLIF(btrim(p_vendor_name), '') IS NULL THEN
+    RAISE EXCEPTION 'Vendor is required' USING ERRCODE = '22023';
+  END IF;
+  IF p_expense_date IS NULL OR p_expense_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Expense date cannot be in the future' USING ERRCODE = '22023';
+  END IF;
+  IF COALESCE(p_fund, 'General') = 'Zakat' THEN
+    RAISE EXCEPTION 'Zakat cannot pay for expenses; record a Zakat disbursement to an eligible beneficiary instead'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_project
+  FROM public.projects
+  WHERE project_id = p_project_id
+    AND is_active = true;
+  IF v_project.project_id IS NULL THEN
+    RAISE EXCEPTION 'Project not found or inactive' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.expenses (
+    category_id, project_id, vendor_name, description, amount, currency,
+    expense_date, invoice_number, invoice_path, status, created_by, fund
+  ) VALUES (
+    v_project.donation_category_id, v_project.project_id, btrim(p_vendor_name), NULLIF(btrim(p_description), ''),
+    p_amount, p_currency, p_expense_date, NULLIF(btrim(p_invoice_number), ''), p_invoice_path, 'Pending', v_actor,
+    COALESCE(p_fund, 'General')
+  )
+  RETURNING * INTO v_expense;
+
+  RETURN v_expense;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_expense(uuid, text, numeric, public.enum_donation_currency, date, text, text, text, public.enum_donation_type) TO authenticated;
+
+-- list_expenses gains the fund column
+DROP FUNCTION IF EXISTS public.list_expenses(public.enum_request_status, int);
+
+CREATE OR REPLACE FUNCTION public.list_expenses(
+  p_status public.enum_request_status DEFAULT NULL,
+  p_limit int DEFAULT 200
+)
+RETURNS TABLE (
+  expense_id uuid,
+  expense_number text,
+  vendor_name text,
+  description text,
+  category_name text,
+  project_name text,
+  fund public.enum_donation_type,
+  amount numeric,
+  currency public.enum_donation_currency,
+  base_amount numeric,
+  expense_date date,
+  invoice_number text,
+  has_invoice boolean,
+  status public.enum_request_status,
+  rejection_reason text,
+  created_at timestamptz,
+  created_by_name text,
+  created_by_me boolean,
+  reviewed_by_name text,
+  reviewed_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can list expenses' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    e.expense_id,
+    e.expense_number,
+    e.vendor_name,
+    e.description,
+    dc.donation_category_name,
+    p.project_name,
+    e.fund,
+    e.amount,
+    e.currency,
+    e.base_amount,
+    e.expense_date,
+    e.invoice_number,
+    e.invoice_path IS NOT NULL,
+    e.status,
+    e.rejection_reason,
+    e.created_at,
+    maker.full_name,
+    e.created_by = auth.uid(),
+    checker.full_name,
+    e.approved_at
+  FROM public.expenses e
+  JOIN public.donation_categories dc ON dc.donation_category_id = e.category_id
+  JOIN public.projects p ON p.project_id = e.project_id
+  LEFT JOIN public.profiles maker ON maker.user_id = e.created_by
+  LEFT JOIN public.profiles checker ON checker.user_id = e.approved_by
+  WHERE p_status IS NULL OR e.status = p_status
+  ORDER BY e.expense_date DESC, e.created_at DESC
+  LIMIT GREATEST(1, LEAST(COALESCE(p_limit, 200), 1000));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_expenses(public.enum_request_status, int) TO authenticated;
+
+-- 6) RPC: record a disbursement
+CREATE OR REPLACE FUNCTION public.create_fund_disbursement(
+  p_fund public.enum_donation_type,
+  p_purpose public.enum_disbursement_purpose,
+  p_amount numeric,
+  p_disbursement_date date,
+  p_beneficiary_name text DEFAULT NULL,
+  p_beneficiary_cnic text DEFAULT NULL,
+  p_project_id uuid DEFAULT NULL,
+  p_reference text DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS public.fund_disbursements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_balance numeric;
+  v_row public.fund_disbursements;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can record disbursements' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_fund IS NULL OR p_purpose IS NULL THEN
+    RAISE EXCEPTION 'Fund and purpose are required' USING ERRCODE = '22023';
+  END IF;
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+  IF p_disbursement_date IS NULL OR p_disbursement_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Disbursement date cannot be in the future' USING ERRCODE = '22023';
+  END IF;
+  IF p_fund = 'Zakat' THEN
+    IF NOT public.is_zakat_eligible_purpose(p_purpose) THEN
+      RAISE EXCEPTION 'Zakat cannot be used for %; choose one of the eight eligible categories', p_purpose
+        USING ERRCODE = '22023';
+    END IF;
+    IF NULLIF(btrim(p_beneficiary_name), '') IS NULL THEN
+      RAISE EXCEPTION 'Zakat disbursements must name the beneficiary' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+  IF p_project_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.projects WHERE project_id = p_project_id) THEN
+    RAISE EXCEPTION 'Project not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM public.lock_fund(p_fund);
+  v_balance := public.get_fund_balance(p_fund);
+  IF v_balance < p_amount THEN
+    RAISE EXCEPTION 'Insufficient % fund balance: PKR % available', p_fund, v_balance USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.fund_disbursements (
+    disbursement_number, fund, purpose, beneficiary_name, beneficiary_cnic, project_id,
+    amount, disbursement_date, reference, notes, created_by
+  ) VALUES (
+    public.next_yearly_human_id('DSB'), p_fund, p_purpose, NULLIF(btrim(p_beneficiary_name), ''),
+    NULLIF(regexp_replace(COALESCE(p_beneficiary_cnic, ''), '\D', '', 'g'), ''), p_project_id,
+    round(p_amount, 2), p_disbursement_date, NULLIF(btrim(p_reference), ''), NULLIF(btrim(p_notes), ''), v_actor
+  )
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_fund_disbursement(public.enum_donation_type, public.enum_disbursement_purpose, numeric, date, text, text, uuid, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.void_fund_disbursement(p_disbursement_id uuid, p_reason text)
+RETURNS public.fund_disbursements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_row public.fund_disbursements;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can void disbursements' USING ERRCODE = '42501';
+  END IF;
+  IF NULLIF(btrim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.fund_disbursements
+  SET voided_at = now(),
+      voided_by = v_actor,
+      void_reason = btrim(p_reason)
+  WHERE disbursement_id = p_disbursement_id
+    AND voided_at IS NULL
+  RETURNING * INTO v_row;
+
+  IF v_row.disbursement_id IS NULL THEN
+    RAISE EXCEPTION 'Disbursement not found or already voided' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_row;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.void_fund_disbursement(uuid, text) TO authenticated;
+
+-- 7) RPCs: balances and ledger
+CREATE OR REPLACE FUNCTION public.get_fund_balances()
+RETURNS TABLE (
+  fund public.enum_donation_type,
+  received numeric,
+  disbursed numeric,
+  spent numeric,
+  balance numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view fund balances' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH funds AS (
+    SELECT unnest(enum_range(NULL::public.enum_donation_type)) AS fund
+  ),
+  totals AS (
+    SELECT
+      f.fund,
+      COALESCE((SELECT sum(d.base_amount) FROM public.donations d WHERE d.donation_type = f.fund), 0) AS received,
+      COALESCE((SELECT sum(fd.amount) FROM public.fund_disbursements fd WHERE fd.fund = f.fund AND fd.voided_at IS NULL), 0) AS disbursed,
+      COALESCE((SELECT sum(e.base_amount) FROM public.expenses e WHERE e.fund = f.fund AND e.status = 'Approved'), 0) AS spent
+    FROM funds f
+  )
+  SELECT t.fund, t.received, t.disbursed, t.spent, t.received - t.disbursed - t.spent
+  FROM totals t
+  ORDER BY t.fund;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_fund_balances() TO authenticated;
+
+COMMENT ON FUNCTION public.get_fund_balances() IS 'Per-fund PKR totals: donations received, disbursed, spent on approved expenses, and the remaining balance. Admin-only.';
+
+-- Newest entries first; running_balance is the fund balance after each entry
+CREATE OR REPLACE FUNCTION public.list_fund_ledger(
+  p_fund public.enum_donation_type,
+  p_limit int DEFAULT 200
+)
+RETURNS TABLE (
+  entry_date date,
+  entry_type text,
+  entry_id uuid,
+  reference text,
+  description text,
+  credit numeric,
+  debit numeric,
+  running_balance numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view the fund ledger' USING ERRCODE = '42501';
+  END IF;
+  IF p_fund IS NULL THEN
+    RAISE EXCEPTION 'Fund is required' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH entries AS (
+    SELECT
+      d.donation_date AS entry_date,
+      'donation'::text AS entry_type,
+      d.donation_id AS entry_id,
+      COALESCE(d.receipt_number, d.donation_human_id) AS reference,
+      COALESCE(pr.full_name, d.donor_human_id) AS description,
+      d.base_amount AS credit,
+      0::numeric AS debit,
+      d.approved_at AS recorded_at
+    FROM public.donations d
+    LEFT JOIN public.donors dn ON dn.donor_id = d.donor_id
+    LEFT JOIN public.profiles pr ON pr.user_id = dn.user_id
+    WHERE d.donation_type = p_fund
+    UNION ALL
+    SELECT
+      fd.disbursement_date,
+      'disbursement',
+      fd.disbursement_id,
+      fd.disbursement_number,
+      concat_ws(' - ', fd.purpose::text, fd.beneficiary_name),
+      0,
+      fd.amount,
+      fd.created_at
+    FROM public.fund_disbursements fd
+    WHERE fd.fund = p_fund
+      AND fd.voided_at IS NULL
+    UNION ALL
+    SELECT
+      e.expense_date,
+      'expense',
+      e.expense_id,
+      e.expense_number,
+      e.vendor_name,
+      0,
+      e.base_amount,
+      e.approved_at
+    FROM public.expenses e
+    WHERE e.fund = p_fund
+      AND e.status = 'Approved'
+  ),
+  ledger AS (
+    SELECT
+      en.*,
+      sum(en.credit - en.debit) OVER (ORDER BY en.entry_date, en.recorded_at, en.entry_id) AS running_balance
+    FROM entries en
+  )
+  SELECT l.entry_date, l.entry_type, l.entry_id, l.reference, l.description, l.credit, l.debit, l.running_balance
+  FROM ledger l
+  ORDER BY l.entry_date DESC, l.recorded_at DESC, l.entry_id DESC
+  LIMIT GREATEST(1, LEAST(COALESCE(p_limit, 200), 1000));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_fund_ledger(public.enum_donation_type, int) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.list_fund_disbursements(
+  p_fund public.enum_donation_type DEFAULT NULL,
+  p_limit int DEFAULT 200
+)
+RETURNS TABLE (
+  disbursement_id uuid,
+  disbursement_number text,
+  fund public.enum_donation_type,
+  purpose public.enum_disbursement_purpose,
+  beneficiary_name text,
+  beneficiary_cnic text,
+  project_name text,
+  amount numeric,
+  disbursement_date date,
+  reference text,
+  notes text,
+  created_by_name text,
+  created_at timestamptz,
+  voided_at timestamptz,
+  void_reason text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can list disbursements' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    fd.disbursement_id,
+    fd.disbursement_number,
+    fd.fund,
+    fd.purpose,
+    fd.beneficiary_name,
+    fd.beneficiary_cnic,
+    p.project_name,
+    fd.amount,
+    fd.disbursement_date,
+    fd.reference,
+    fd.notes,
+    maker.full_name,
+    fd.created_at,
+    fd.voided_at,
+    fd.void_reason
+  FROM public.fund_disbursements fd
+  LEFT JOIN public.projects p ON p.project_id = fd.project_id
+  LEFT JOIN public.profiles maker ON maker.user_id = fd.created_by
+  WHERE p_fund IS NULL OR fd.fund = p_fund
+  ORDER BY fd.disbursement_date DESC, fd.created_at DESC
+  LIMIT GREATEST(1, LEAST(COALESCE(p_limit, 200), 1000));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_fund_disbursements(public.enum_donation_type, int) TO authenticated;
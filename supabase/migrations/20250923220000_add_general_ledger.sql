@@ -0,0 +1,676 @@
+-- supabase/migrations/20250923220000_add_general_ledger.sql
+-- Purpose: Double-entry general ledger behind donations, expenses and fund disbursements.
+--
+-- - gl_accounts is the chart of accounts; gl_posting_rules maps each business event to an account
+--   (receipt:<payment mode>, income:<fund>, disbursement:<fund>, expense, payment).
+-- - Every approved donation posts Dr bank/clearing, Cr donation income of its fund. Lines carry
+--   the fund and project so income can be reported by either.
+-- - Approved expenses post Dr project expenses, Cr bank; disbursements post Dr fund
+--   disbursements, Cr bank.
+-- - Entries are never edited or deleted. Corrections (receipt reissue with a new amount, approval
+--   rollback, voided disbursement) post a reversing entry, and the corrected figures post fresh.
+-- - Each entry must balance; a deferred constraint trigger checks it at commit.
+-- - Existing donations, approved expenses and disbursements are posted once by this migration.
+
+-- 1) Chart of accounts
+DO $$
+BEGIN
+  CREATE TYPE public.enum_gl_account_type AS ENUM ('Asset', 'Liability', 'NetAssets', 'Income', 'Expense');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.gl_accounts (
+  account_code text PRIMARY KEY,
+  account_name text NOT NULL,
+  account_type public.enum_gl_account_type NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.gl_accounts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS gl_accounts_admin_select ON public.gl_accounts;
+CREATE POLICY gl_accounts_admin_select ON public.gl_accounts
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+INSERT INTO public.gl_accounts (account_code, account_name, account_type) VALUES
+  ('1000', 'Bank', 'Asset'),
+  ('1010', 'Online payments clearing', 'Asset'),
+  ('1020', 'Card payments clearing', 'Asset'),
+  ('3000', 'Net assets', 'NetAssets'),
+  ('4000', 'Zakat donations', 'Income'),
+  ('4100', 'Sadqa donations', 'Income'),
+  ('4200', 'General donations', 'Income'),
+  ('5000', 'Project expenses', 'Expense'),
+  ('5100', 'Zakat disbursements', 'Expense'),
+  ('5200', 'Sadqa disbursements', 'Expense'),
+  ('5300', 'General disbursements', 'Expense')
+ON CONFLICT (account_code) DO NOTHING;
+
+-- 2) Posting rules
+CREATE TABLE IF NOT EXISTS public.gl_posting_rules (
+  rule_key text PRIMARY KEY,
+  account_code text NOT NULL REFERENCES public.gl_accounts(account_code),
+  description text
+);
+
+ALTER TABLE public.gl_posting_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS gl_posting_rules_admin_select ON public.gl_posting_rules;
+CREATE POLICY gl_posting_rules_admin_select ON public.gl_posting_rules
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+INSERT INTO public.gl_posting_rules (rule_key, account_code, description) VALUES
+  ('receipt:BankTransfer', '1000', 'Debited when a bank transfer donation is approved'),
+  ('receipt:Online', '1010', 'Debited when an online donation is approved'),
+  ('receipt:CreditCard', '1020', 'Debited when a card donation is approved'),
+  ('income:Zakat', '4000', 'Credited for Zakat donations'),
+  ('income:Sadqa', '4100', 'Credited for Sadqa donations'),
+  ('income:General', '4200', 'Credited for General donations'),
+  ('expense', '5000', 'Debited when an expense is approved'),
+  ('disbursement:Zakat', '5100', 'Debited for Zakat disbursements'),
+  ('disbursement:Sadqa', '5200', 'Debited for Sadqa disbursements'),
+  ('disbursement:General', '5300', 'Debited for General disbursements'),
+  ('payment', '1000', 'Credited when an expense or disbursement is paid')
+ON CONFLICT (rule_key) DO NOTHING;
+
+COMMENT ON TABLE public.gl_posting_rules IS 'Which account each posting event uses. Keys: receipt:<payment mode>, income:<fund>, disbursement:<fund>, expense, payment.';
+
+CREATE OR REPLACE FUNCTION public.gl_rule_account(p_rule_key text)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_code text;
+BEGIN
+  SELECT account_code INTO v_code FROM public.gl_posting_rules WHERE rule_key = p_rule_key;
+  IF v_code IS NULL THEN
+    RAISE EXCEPTION 'No posting rule for %', p_rule_key USING ERRCODE = 'P0002';
+  END IF;
+  RETURN v_code;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.gl_rule_account(text) FROM PUBLIC;
+
+-- 3) Journal
+CREATE TABLE IF NOT EXISTS public.gl_journal_entries (
+  entry_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_number text UNIQUE NOT NULL,
+  entry_date date NOT NULL,
+  source_type text NOT NULL CHECK (source_type IN ('donation', 'expense', 'disbursement')),
+  -- No FK: a rolled back donation row is deleted but its entries must remain
+  source_id uuid NOT NULL,
+  memo text,
+  reverses_entry_id uuid REFERENCES public.gl_journal_entries(entry_id),
+  posted_by uuid REFERENCES auth.users(id),
+  posted_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_gl_journal_entries_source ON public.gl_journal_entries(source_type, source_id);
+CREATE INDEX IF NOT EXISTS idx_gl_journal_entries_date ON public.gl_journal_entries(entry_date);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_gl_journal_entries_reverses ON public.gl_journal_entries(reverses_entry_id)
+  WHERE reverses_entry_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.gl_journal_lines (
+  line_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id uuid NOT NULL REFERENCES public.gl_journal_entries(entry_id),
+  account_code text NOT NULL REFERENCES public.gl_accounts(account_code),
+  debit numeric(14,2) NOT NULL DEFAULT 0 CHECK (debit >= 0),
+  credit numeric(14,2) NOT NULL DEFAULT 0 CHECK (credit >= 0),
+  fund public.enum_donation_type,
+  project_id uuid REFERENCES public.projects(project_id),
+  CONSTRAINT gl_journal_lines_one_side CHECK ((debit = 0) <> (credit = 0))
+);
+
+CREATE INDEX IF NOT EXISTS idx_gl_journal_lines_entry ON public.gl_journal_lines(entry_id);
+CREATE INDEX IF NOT EXISTS idx_gl_journal_lines_account ON public.gl_journal_lines(account_code);
+
+ALTER TABLE public.gl_journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gl_journal_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS gl_journal_entries_admin_select ON public.gl_journal_entries;
+CREATE POLICY gl_journal_entries_admin_select ON public.gl_journal_entries
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+DROP POLICY IF EXISTS gl_journal_lines_admin_select ON public.gl_journal_lines;
+CREATE POLICY gl_journal_lines_admin_select ON public.gl_journal_lines
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+COMMENT ON TABLE public.gl_journal_entries IS 'Posted journal entries (append-only). Corrections are reversing entries that point at the entry they cancel.';
+
+-- Posted entries are immutable
+CREATE OR REPLACE FUNCTION public.gl_prevent_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Posted journal entries cannot be changed; post a reversing entry instead' USING ERRCODE = '42501';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_gl_journal_entries_immutable ON public.gl_journal_entries;
+CREATE TRIGGER trg_gl_journal_entries_immutable
+BEFORE UPDATE OR DELETE ON public.gl_journal_entries
+FOR EACH ROW EXECUTE FUNCTION public.gl_prevent_changes();
+
+DROP TRIGGER IF EXISTS trg_gl_journal_lines_immutable ON public.gl_journal_lines;
+CREATE TRIGGER trg_gl_journal_lines_immutable
+BEFORE UPDATE OR DELETE ON public.gl_journal_lines
+FOR EACH ROW EXECUTE FUNCTION public.gl_prevent_changes();
+
+-- Debits must equal credits once the posting transaction commits
+CREATE OR REPLACE FUNCTION public.gl_check_entry_balanced()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_debit numeric;
+  v_credit numeric;
+BEGIN
+  SELECT COALESCE(sum(debit), 0), COALESCE(sum(credit), 0)
+  INTO v_debit, v_credit
+  FROM public.gl_journal_lines
+  WHERE entry_id = NEW.entry_id;
+
+  IF v_debit <> v_credit THEN
+    RAISE EXCEPTION 'Journal entry % is unbalanced (debit %, credit %)', NEW.entry_id, v_debit, v_credit
+      USING ERRCODE = '23514';
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_gl_journal_lines_balanced ON public.gl_journal_lines;
+CREATE CONSTRAINT TRIGGER trg_gl_journal_lines_balanced
+AFTER INSERT ON public.gl_journal_lines
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW EXECUTE FUNCTION public.gl_check_entry_balanced();
+
+-- 4) Posting helpers
+-- JE-YYYY-NNNNNN; next_yearly_human_id pads to three digits, too few for a year of postings
+CREATE OR REPLACE FUNCTION public.gl_next_entry_number()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_year int := EXTRACT(YEAR FROM now())::int;
+  v_seq int;
+BEGIN
+  INSERT INTO public.human_id_counters AS c (prefix, year, last_val)
+  VALUES ('JE', v_year, 1)
+  ON CONFLICT (prefix, year)
+  DO UPDATE SET last_val = c.last_val + 1
+  RETURNING c.last_val INTO v_seq;
+
+  RETURN format('JE-%s-%s', v_year, lpad(v_seq::text, 6, '0'));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.gl_next_entry_number() FROM PUBLIC;
+
+-- p_lines: [{ account_code, debit, credit, fund?, project_id? }]; zero lines are skipped
+CREATE OR REPLACE FUNCTION public.gl_post_entry(
+  p_entry_date date,
+  p_source_type text,
+  p_source_id uuid,
+  p_memo text,
+  p_lines jsonb,
+  p_reverses_entry_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id uuid;
+BEGIN
+  INSERT INTO public.gl_journal_entries (
+    entry_number, entry_date, source_type, source_id, memo, reverses_entry_id, posted_by
+  ) VALUES (
+    public.gl_next_entry_number(), p_entry_date, p_source_type, p_source_id, p_memo, p_reverses_entry_id, auth.uid()
+  )
+  RETURNING entry_id INTO v_entry_id;
+
+  INSERT INTO public.gl_journal_lines (entry_id, account_code, debit, credit, fund, project_id)
+  SELECT
+    v_entry_id,
+    l->>'account_code',
+    round(COALESCE((l->>'debit')::numeric, 0), 2),
+    round(COALESCE((l->>'credit')::numeric, 0), 2),
+    (l->>'fund')::public.enum_donation_type,
+    (l->>'project_id')::uuid
+  FROM jsonb_array_elements(p_lines) AS l
+  WHERE round(COALESCE((l->>'debit')::numeric, 0), 2) <> 0
+     OR round(COALESCE((l->>'credit')::numeric, 0), 2) <> 0;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.gl_post_entry(date, text, uuid, text, jsonb, uuid) FROM PUBLIC;
+
+-- Cancels every live (not yet reversed, not itself a reversal) entry of a source document
+CREATE OR REPLACE FUNCTION public.gl_reverse_source(
+  p_source_type text,
+  p_source_id uuid,
+  p_memo text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry record;
+BEGIN
+  FOR v_entry IN
+    SELECT je.entry_id, je.entry_number
+    FROM public.gl_journal_entries je
+    WHERE je.source_type = p_source_type
+      AND je.source_id = p_source_id
+      AND je.reverses_entry_id IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.gl_journal_entries r WHERE r.reverses_entry_id = je.entry_id
+      )
+    ORDER BY je.posted_at
+  LOOP
+    PERFORM public.gl_post_entry(
+      CURRENT_DATE,
+      p_source_type,
+      p_source_id,
+      format('%s (reverses %s)', p_memo, v_entry.entry_number),
+      (
+        SELECT jsonb_agg(jsonb_build_object(
+          'account_code', jl.account_code,
+          'debit', jl.credit,
+          'credit', jl.debit,
+          'fund', jl.fund,
+          'project_id', jl.project_id
+        ))
+        FROM public.gl_journal_lines jl
+        WHERE jl.entry_id = v_entry.entry_id
+      ),
+      v_entry.entry_id
+    );
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.gl_reverse_source(text, uuid, text) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.gl_post_donation(p_donation public.donations)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN public.gl_post_entry(
+    p_donation.donation_date,
+    'donation',
+    p_donation.donation_id,
+    format('Donation %s', COALESCE(p_donation.receipt_number, p_donation.donation_human_id)),
+    jsonb_build_array(
+      jsonb_build_object(
+        'account_code', public.gl_rule_account('receipt:' || p_donation.mode_of_payment::text),
+        'debit', p_donation.base_amount,
+        'fund', p_donation.donation_type,
+        'project_id', p_donation.project_id
+      ),
+      jsonb_build_object(
+        'account_code', public.gl_rule_account('income:' || p_donation.donation_type::text),
+        'credit', p_donation.base_amount,
+        'fund', p_donation.donation_type,
+        'project_id', p_donation.project_id
+      )
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.gl_post_donation(public.donations) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.gl_post_expense(p_expense public.expenses)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN public.gl_post_entry(
+    p_expense.expense_date,
+    'expense',
+    p_expense.expense_id,
+    format('Expense %s - %s', p_expense.expense_number, p_expense.vendor_name),
+    jsonb_build_array(
+      jsonb_build_object(
+        'account_code', public.gl_rule_account('expense'),
+        'debit', p_expense.base_amount,
+        'fund', p_expense.fund,
+        'project_id', p_expense.project_id
+      ),
+      jsonb_build_object(
+        'account_code', public.gl_rule_account('payment'),
+        'credit', p_expense.base_amount,
+        'fund', p_expense.fund,
+        'project_id', p_expense.project_id
+      )
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.gl_post_expense(public.expenses) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.gl_post_disbursement(p_row public.fund_disbursements)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN public.gl_post_entry(
+    p_row.disbursement_date,
+    'disbursement',
+    p_row.disbursement_id,
+    format('Disbursement %s', concat_ws(' - ', p_row.disbursement_number, p_row.beneficiary_name)),
+    jsonb_build_array(
+      jsonb_build_object(
+        'account_code', public.gl_rule_account('disbursement:' || p_row.fund::text),
+        'debit', p_row.amount,
+        'fund', p_row.fund,
+        'project_id', p_row.project_id
+      ),
+      jsonb_build_object(
+        'account_code', public.gl_rule_account('payment'),
+        'credit', p_row.amount,
+        'fund', p_row.fund,
+        'project_id', p_row.project_id
+      )
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.gl_post_disbursement(public.fund_disbursements) FROM PUBLIC;
+
+-- 5) Posting triggers
+-- Donations are inserted by approve_donation_request and by pre-approved imports
+CREATE OR REPLACE FUNCTION public.gl_on_donation_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    PERFORM public.gl_reverse_source('donation', NEW.donation_id, 'Donation corrected');
+  END IF;
+  PERFORM public.gl_post_donation(NEW);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_gl_donation_insert ON public.donations;
+CREATE TRIGGER trg_gl_donation_insert
+AFTER INSERT ON public.donations
+FOR EACH ROW EXECUTE FUNCTION public.gl_on_donation_change();
+
+-- Receipt reissue can change the amount; repost only when a posted figure changes
+DROP TRIGGER IF EXISTS trg_gl_donation_update ON public.donations;
+CREATE TRIGGER trg_gl_donation_update
+AFTER UPDATE ON public.donations
+FOR EACH ROW
+WHEN (
+  OLD.base_amount IS DISTINCT FROM NEW.base_amount
+  OR OLD.donation_type IS DISTINCT FROM NEW.donation_type
+  OR OLD.project_id IS DISTINCT FROM NEW.project_id
+  OR OLD.mode_of_payment IS DISTINCT FROM NEW.mode_of_payment
+  OR OLD.donation_date IS DISTINCT FROM NEW.donation_date
+)
+EXECUTE FUNCTION public.gl_on_donation_change();
+
+CREATE OR REPLACE FUNCTION public.gl_on_expense_approved()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.gl_post_expense(NEW);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_gl_expense_approved ON public.expenses;
+CREATE TRIGGER trg_gl_expense_approved
+AFTER UPDATE OF status ON public.expenses
+FOR EACH ROW
+WHEN (NEW.status = 'Approved' AND OLD.status IS DISTINCT FROM 'Approved')
+EXECUTE FUNCTION public.gl_on_expense_approved();
+
+CREATE OR REPLACE FUNCTION public.gl_on_disbursement_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.gl_post_disbursement(NEW);
+  ELSIF NEW.voided_at IS NOT NULL AND OLD.voided_at IS NULL THEN
+    PERFORM public.gl_reverse_source('disbursement', NEW.disbursement_id, 'Disbursement voided');
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_gl_disbursement_change ON public.fund_disbursements;
+CREATE TRIGGER trg_gl_disbursement_change
+AFTER INSERT OR UPDATE OF voided_at ON public.fund_disbursements
+FOR EACH ROW EXECUTE FUNCTION public.gl_on_disbursement_change();
+
+-- 6) rollback_approved_donation: reverse the posting before the donation row goes
+CREATE OR REPLACE FUNCTION public.rollback_approved_donation(p_donation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donation public.donations;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can roll back donations' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_donation
+  FROM public.donations
+  WHERE donation_id = p_donation_id
+  FOR UPDATE;
+
+  IF v_donation.donation_id IS NULL THEN
+    RAISE EXCEPTION 'Donation not found for rollback';
+  END IF;
+
+  PERFORM public.gl_reverse_source('donation', v_donation.donation_id, 'Approval rolled back');
+
+  UPDATE public.receipt_register
+  SET status = 'void',
+      voided_by = auth.uid(),
+      voided_at = now(),
+      void_reason = 'Approval rolled back'
+  WHERE donation_id = v_donation.donation_id
+    AND status = 'issued';
+
+  IF v_donation.donation_request_id IS NOT NULL THEN
+    UPDATE public.donation_requests
+    SET
+      status = 'Pending'::public.enum_request_status,
+      approved_by = NULL,
+      approved_at = NULL,
+      rejection_reason = NULL
+    WHERE donation_request_id = v_donation.donation_request_id;
+  END IF;
+
+  DELETE FROM public.donations
+  WHERE donation_id = p_donation_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rollback_approved_donation(uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.rollback_approved_donation(uuid) IS 'Reverts a donation approval when subsequent steps fail. Posts a reversing journal entry; the receipt number stays in receipt_register as void.';
+
+-- 7) Post what already exists
+DO $$
+DECLARE
+  v_donation public.donations;
+  v_expense public.expenses;
+  v_disbursement public.fund_disbursements;
+BEGIN
+  FOR v_donation IN
+    SELECT d.* FROM public.donations d
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.gl_journal_entries je WHERE je.source_type = 'donation' AND je.source_id = d.donation_id
+    )
+    ORDER BY d.donation_date, d.approved_at
+  LOOP
+    PERFORM public.gl_post_donation(v_donation);
+  END LOOP;
+
+  FOR v_expense IN
+    SELECT e.* FROM public.expenses e
+    WHERE e.status = 'Approved'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.gl_journal_entries je WHERE je.source_type = 'expense' AND je.source_id = e.expense_id
+      )
+    ORDER BY e.expense_date, e.approved_at
+  LOOP
+    PERFORM public.gl_post_expense(v_expense);
+  END LOOP;
+
+  FOR v_disbursement IN
+    SELECT fd.* FROM public.fund_disbursements fd
+    WHERE fd.voided_at IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.gl_journal_entries je WHERE je.source_type = 'disbursement' AND je.source_id = fd.disbursement_id
+      )
+    ORDER BY fd.disbursement_date, fd.created_at
+  LOOP
+    PERFORM public.gl_post_disbursement(v_disbursement);
+  END LOOP;
+END $$;
+
+-- 8) Reports
+CREATE OR REPLACE FUNCTION public.get_trial_balance(p_as_of date DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  account_code text,
+  account_name text,
+  account_type public.enum_gl_account_type,
+  total_debit numeric,
+  total_credit numeric,
+  balance_debit numeric,
+  balance_credit numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view the trial balance' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH totals AS (
+    SELECT jl.account_code, sum(jl.debit) AS dr, sum(jl.credit) AS cr
+    FROM public.gl_journal_lines jl
+    JOIN public.gl_journal_entries je ON je.entry_id = jl.entry_id
+    WHERE je.entry_date <= COALESCE(p_as_of, CURRENT_DATE)
+    GROUP BY jl.account_code
+  )
+  SELECT
+    a.account_code,
+    a.account_name,
+    a.account_type,
+    COALESCE(t.dr, 0),
+    COALESCE(t.cr, 0),
+    GREATEST(COALESCE(t.dr, 0) - COALESCE(t.cr, 0), 0),
+    GREATEST(COALESCE(t.cr, 0) - COALESCE(t.dr, 0), 0)
+  FROM public.gl_accounts a
+  LEFT JOIN totals t ON t.account_code = a.account_code
+  WHERE a.is_active OR t.account_code IS NOT NULL
+  ORDER BY a.account_code;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_trial_balance(date) TO authenticated;
+
+COMMENT ON FUNCTION public.get_trial_balance(date) IS 'Debit and credit totals and closing balance per account for entries dated on or before p_as_of. Admin-only.';
+
+CREATE OR REPLACE FUNCTION public.list_gl_journal_lines(p_from date, p_to date)
+RETURNS TABLE (
+  entry_number text,
+  entry_date date,
+  source_type text,
+  memo text,
+  reverses_entry_number text,
+  account_code text,
+  account_name text,
+  account_type public.enum_gl_account_type,
+  debit numeric,
+  credit numeric,
+  fund public.enum_donation_type,
+  project_name text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can export the ledger' USING ERRCODE = '42501';
+  END IF;
+  IF p_from IS NULL OR p_to IS NULL OR p_from > p_to THEN
+    RAISE EXCEPTION 'A valid date range is required' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    je.entry_number,
+    je.entry_date,
+    je.source_type,
+    je.memo,
+    rev.entry_number,
+    jl.account_code,
+    a.account_name,
+    a.account_type,
+    jl.debit,
+    jl.credit,
+    jl.fund,
+    p.project_name
+  FROM public.gl_journal_entries je
+  JOIN public.gl_journal_lines jl ON jl.entry_id = je.entry_id
+  JOIN public.gl_accounts a ON a.account_code = jl.account_code
+  LEFT JOIN public.gl_journal_entries rev ON rev.entry_id = je.reverses_entry_id
+  LEFT JOIN public.projects p ON p.project_id = jl.project_id
+  WHERE je.entry_date BETWEEN p_from AND p_to
+  ORDER BY je.entry_date, je.posted_at, je.entry_number, jl.debit DESC, jl.account_code;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_gl_journal_lines(date, date) TO authenticated;
@@ -0,0 +1,598 @@
+-- supabase/migrations/20250923230000_add_financial_periods.sql
+-- Purpose: Financial year settings, year-end close and period locking.
+--
+-- - financial_settings.fiscal_year_start_month (default 7, July) drives financial_year_of, so
+--   receipts, statements and imports follow the configured year. It can only change while no
+--   year has been closed.
+-- - close_financial_year locks a finished year once nothing dated inside it is still pending, and
+--   stores a snapshot of its totals and trial balance.
+-- - While a year is closed, nothing dated inside it can be approved, rolled back or edited:
+--   donations, expenses, disbursements and journal entries are guarded by triggers (SQLSTATE 55000).
+-- - Reopening is dual-control: one admin requests it with a reason and a different admin approves.
+--   Every close, request and reopening is kept in accounting_period_events.
+
+-- 1) Fiscal year settings
+ALTER TABLE public.financial_settings
+  ADD COLUMN IF NOT EXISTS fiscal_year_start_month smallint NOT NULL DEFAULT 7
+    CHECK (fiscal_year_start_month BETWEEN 1 AND 12);
+
+COMMENT ON COLUMN public.financial_settings.fiscal_year_start_month IS 'First month of the financial year (1-12). Years are labelled by the calendar year they start in.';
+
+CREATE OR REPLACE FUNCTION public.fiscal_year_start_month()
+RETURNS int
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT fiscal_year_start_month::int FROM public.financial_settings WHERE id), 7);
+$$;
+
+-- Readable by donors too: their statement picker and file names follow the same financial year
+GRANT EXECUTE ON FUNCTION public.fiscal_year_start_month() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.financial_year_of(p_date date)
+RETURNS int
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXTRACT(MONTH FROM p_date)::int >= public.fiscal_year_start_month() THEN EXTRACT(YEAR FROM p_date)::int
+    ELSE EXTRACT(YEAR FROM p_date)::int - 1
+  END;
+$$;
+
+COMMENT ON FUNCTION public.financial_year_of(date) IS 'Returns the financial year a date falls in (see financial_settings.fiscal_year_start_month), labelled by its starting calendar year.';
+
+CREATE OR REPLACE FUNCTION public.financial_year_bounds(p_financial_year int)
+RETURNS TABLE (start_date date, end_date date)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    make_date(p_financial_year, public.fiscal_year_start_month(), 1),
+    (make_date(p_financial_year, public.fiscal_year_start_month(), 1) + interval '1 year' - interval '1 day')::date;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.financial_year_bounds(int) TO authenticated;
+
+-- 2) Periods, reopen requests and their history
+CREATE TABLE IF NOT EXISTS public.accounting_periods (
+  financial_year int PRIMARY KEY,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  status text NOT NULL DEFAULT 'Open' CHECK (status IN ('Open', 'Closed')),
+  closed_by uuid REFERENCES auth.users(id),
+  closed_at timestamptz,
+  reopened_by uuid REFERENCES auth.users(id),
+  reopened_at timestamptz,
+  CHECK (end_date > start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_accounting_periods_closed ON public.accounting_periods(start_date, end_date)
+  WHERE status = 'Closed';
+
+CREATE TABLE IF NOT EXISTS public.period_reopen_requests (
+  request_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  financial_year int NOT NULL REFERENCES public.accounting_periods(financial_year),
+  reason text NOT NULL CHECK (btrim(reason) <> ''),
+  status public.enum_request_status NOT NULL DEFAULT 'Pending',
+  requested_by uuid NOT NULL REFERENCES auth.users(id),
+  requested_at timestamptz NOT NULL DEFAULT now(),
+  reviewed_by uuid REFERENCES auth.users(id),
+  reviewed_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_period_reopen_requests_pending ON public.period_reopen_requests(financial_year)
+  WHERE status = 'Pending';
+
+CREATE TABLE IF NOT EXISTS public.accounting_period_events (
+  event_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  financial_year int NOT NULL,
+  event text NOT NULL CHECK (event IN ('closed', 'reopen_requested', 'reopen_rejected', 'reopened')),
+  reason text,
+  actor uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_accounting_period_events_year ON public.accounting_period_events(financial_year, created_at);
+
+-- Totals as they stood when the year was closed (a new row on every close)
+CREATE TABLE IF NOT EXISTS public.financial_year_snapshots (
+  snapshot_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  financial_year int NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  donations_count int NOT NULL,
+  donations_total numeric NOT NULL,
+  zakat_received numeric NOT NULL,
+  sadqa_received numeric NOT NULL,
+  general_received numeric NOT NULL,
+  expenses_total numeric NOT NULL,
+  disbursements_total numeric NOT NULL,
+  trial_balance jsonb NOT NULL DEFAULT '[]'::jsonb,
+  taken_by uuid REFERENCES auth.users(id),
+  taken_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_financial_year_snapshots_year ON public.financial_year_snapshots(financial_year, taken_at);
+
+ALTER TABLE public.accounting_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.period_reopen_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.accounting_period_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.financial_year_snapshots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS accounting_periods_admin_select ON public.accounting_periods;
+CREATE POLICY accounting_periods_admin_select ON public.accounting_periods
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+DROP POLICY IF EXISTS period_reopen_requests_admin_select ON public.period_reopen_requests;
+CREATE POLICY period_reopen_requests_admin_select ON public.period_reopen_requests
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+DROP POLICY IF EXISTS accounting_period_events_admin_select ON public.accounting_period_events;
+CREATE POLICY accounting_period_events_admin_select ON public.accounting_period_events
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+DROP POLICY IF EXISTS financial_year_snapshots_admin_select ON public.financial_year_snapshots;
+CREATE POLICY financial_year_snapshots_admin_select ON public.financial_year_snapshots
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+COMMENT ON TABLE public.accounting_periods IS 'One row per financial year that has ever been closed. Closed years reject changes dated inside them.';
+
+-- 3) Lock checks
+CREATE OR REPLACE FUNCTION public.closed_financial_year_for(p_date date)
+RETURNS int
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ap.financial_year
+  FROM public.accounting_periods ap
+  WHERE ap.status = 'Closed'
+    AND p_date BETWEEN ap.start_date AND ap.end_date
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.closed_financial_year_for(date) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.assert_period_open(p_date date, p_what text)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_year int;
+BEGIN
+  IF p_date IS NULL THEN
+    RETURN;
+  END IF;
+  v_year := public.closed_financial_year_for(p_date);
+  IF v_year IS NOT NULL THEN
+    RAISE EXCEPTION 'Financial year % is closed; % dated % is not allowed until the year is reopened', v_year, p_what, p_date
+      USING ERRCODE = '55000';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.assert_period_open(date, text) FROM PUBLIC;
+
+-- Approving (insert), rolling back (delete) and correcting (update) a donation
+CREATE OR REPLACE FUNCTION public.guard_donation_period()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.assert_period_open(NEW.donation_date, 'approving a donation');
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM public.assert_period_open(OLD.donation_date, 'rolling back a donation');
+    RETURN OLD;
+  END IF;
+
+  -- Receipt PDF paths and similar bookkeeping may still be written
+  IF (OLD.amount, OLD.currency, OLD.base_amount, OLD.donation_type, OLD.project_id, OLD.category_id,
+      OLD.donor_id, OLD.donation_date, OLD.mode_of_payment, OLD.receipt_number)
+     IS DISTINCT FROM
+     (NEW.amount, NEW.currency, NEW.base_amount, NEW.donation_type, NEW.project_id, NEW.category_id,
+      NEW.donor_id, NEW.donation_date, NEW.mode_of_payment, NEW.receipt_number) THEN
+    PERFORM public.assert_period_open(OLD.donation_date, 'editing a donation');
+    PERFORM public.assert_period_open(NEW.donation_date, 'editing a donation');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_donation_period ON public.donations;
+CREATE TRIGGER trg_guard_donation_period
+BEFORE INSERT OR UPDATE OR DELETE ON public.donations
+FOR EACH ROW EXECUTE FUNCTION public.guard_donation_period();
+
+CREATE OR REPLACE FUNCTION public.guard_expense_period()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.assert_period_open(NEW.expense_date, 'recording an expense');
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM public.assert_period_open(NEW.expense_date, format('marking an expense %s', NEW.status));
+  ELSIF (OLD.amount, OLD.currency, OLD.expense_date, OLD.project_id, OLD.fund)
+        IS DISTINCT FROM (NEW.amount, NEW.currency, NEW.expense_date, NEW.project_id, NEW.fund) THEN
+    PERFORM public.assert_period_open(OLD.expense_date, 'editing an expense');
+    PERFORM public.assert_period_open(NEW.expense_date, 'editing an expense');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_expense_period ON public.expenses;
+CREATE TRIGGER trg_guard_expense_period
+BEFORE INSERT OR UPDATE ON public.expenses
+FOR EACH ROW EXECUTE FUNCTION public.guard_expense_period();
+
+CREATE OR REPLACE FUNCTION public.guard_disbursement_period()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.assert_period_open(NEW.disbursement_date, 'recording a disbursement');
+  ELSE
+    PERFORM public.assert_period_open(OLD.disbursement_date, 'voiding a disbursement');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_disbursement_period ON public.fund_disbursements;
+CREATE TRIGGER trg_guard_disbursement_period
+BEFORE INSERT OR UPDATE ON public.fund_disbursements
+FOR EACH ROW EXECUTE FUNCTION public.guard_disbursement_period();
+
+-- Backstop for any other posting path
+CREATE OR REPLACE FUNCTION public.guard_journal_period()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_period_open(NEW.entry_date, 'posting a journal entry');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_journal_period ON public.gl_journal_entries;
+CREATE TRIGGER trg_guard_journal_period
+BEFORE INSERT ON public.gl_journal_entries
+FOR EACH ROW EXECUTE FUNCTION public.guard_journal_period();
+
+-- 4) RPC: fiscal year start month (only while no year has been closed)
+CREATE OR REPLACE FUNCTION public.update_fiscal_year_start_month(p_month int)
+RETURNS public.financial_settings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings public.financial_settings;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change financial settings' USING ERRCODE = '42501';
+  END IF;
+  IF p_month IS NULL OR p_month NOT BETWEEN 1 AND 12 THEN
+    RAISE EXCEPTION 'Start month must be between 1 and 12' USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.accounting_periods) THEN
+    RAISE EXCEPTION 'The financial year start cannot change after a year has been closed' USING ERRCODE = '55000';
+  END IF;
+
+  INSERT INTO public.financial_settings (id, fiscal_year_start_month, updated_by, updated_at)
+  VALUES (true, p_month, auth.uid(), now())
+  ON CONFLICT (id) DO UPDATE
+  SET fiscal_year_start_month = EXCLUDED.fiscal_year_start_month,
+      updated_by = EXCLUDED.updated_by,
+      updated_at = EXCLUDED.updated_at
+  RETURNING * INTO v_settings;
+
+  RETURN v_settings;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_fiscal_year_start_month(int) TO authenticated;
+
+-- 5) RPC: close a year
+CREATE OR REPLACE FUNCTION public.close_financial_year(p_financial_year int)
+RETURNS public.financial_year_snapshots
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_start date;
+  v_end date;
+  v_pending int;
+  v_snapshot public.financial_year_snapshots;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can close a financial year' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT b.start_date, b.end_date INTO v_start, v_end FROM public.financial_year_bounds(p_financial_year) b;
+  IF v_end >= CURRENT_DATE THEN
+    RAISE EXCEPTION 'Financial year % has not ended yet', p_financial_year USING ERRCODE = '22023';
+  END IF;
+
+  -- Serialise with approvals that might still land in the year
+  PERFORM pg_advisory_xact_lock(hashtext('accounting_period:' || p_financial_year));
+
+  IF EXISTS (
+    SELECT 1 FROM public.accounting_periods
+    WHERE financial_year = p_financial_year AND status = 'Closed'
+  ) THEN
+    RAISE EXCEPTION 'Financial year % is already closed', p_financial_year USING ERRCODE = '22023';
+  END IF;
+
+  SELECT
+    (SELECT count(*) FROM public.donation_requests r
+     WHERE r.status = 'Pending' AND r.donation_date BETWEEN v_start AND v_end)
+    + (SELECT count(*) FROM public.expenses e
+       WHERE e.status = 'Pending' AND e.expense_date BETWEEN v_start AND v_end)
+  INTO v_pending;
+  IF v_pending > 0 THEN
+    RAISE EXCEPTION '% pending donation request(s) or expense(s) are dated in financial year %; approve or reject them first',
+      v_pending, p_financial_year USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.accounting_periods (financial_year, start_date, end_date, status, closed_by, closed_at)
+  VALUES (p_financial_year, v_start, v_end, 'Closed', v_actor, now())
+  ON CONFLICT (financial_year) DO UPDATE
+  SET status = 'Closed',
+      closed_by = EXCLUDED.closed_by,
+      closed_at = EXCLUDED.closed_at;
+
+  INSERT INTO public.accounting_period_events (financial_year, event, actor)
+  VALUES (p_financial_year, 'closed', v_actor);
+
+  INSERT INTO public.financial_year_snapshots (
+    financial_year, start_date, end_date, donations_count, donations_total,
+    zakat_received, sadqa_received, general_received, expenses_total, disbursements_total,
+    trial_balance, taken_by
+  )
+  SELECT
+    p_financial_year,
+    v_start,
+    v_end,
+    (SELECT count(*)::int FROM public.donations d WHERE d.donation_date BETWEEN v_start AND v_end),
+    COALESCE((SELECT sum(d.base_amount) FROM public.donations d WHERE d.donation_date BETWEEN v_start AND v_end), 0),
+    COALESCE((SELECT sum(d.base_amount) FROM public.donations d WHERE d.donation_type = 'Zakat' AND d.donation_date BETWEEN v_start AND v_end), 0),
+    COALESCE((SELECT sum(d.base_amount) FROM public.donations d WHERE d.donation_type = 'Sadqa' AND d.donation_date BETWEEN v_start AND v_end), 0),
+    COALESCE((SELECT sum(d.base_amount) FROM public.donations d WHERE d.donation_type = 'General' AND d.donation_date BETWEEN v_start AND v_end), 0),
+    COALESCE((SELECT sum(e.base_amount) FROM public.expenses e WHERE e.status = 'Approved' AND e.expense_date BETWEEN v_start AND v_end), 0),
+    COALESCE((SELECT sum(fd.amount) FROM public.fund_disbursements fd WHERE fd.voided_at IS NULL AND fd.disbursement_date BETWEEN v_start AND v_end), 0),
+    COALESCE((SELECT jsonb_agg(to_jsonb(tb)) FROM public.get_trial_balance(v_end) tb), '[]'::jsonb),
+    v_actor
+  RETURNING * INTO v_snapshot;
+
+  RETURN v_snapshot;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.close_financial_year(int) TO authenticated;
+
+COMMENT ON FUNCTION public.close_financial_year(int) IS 'Locks a finished financial year and snapshots its totals. Admin-only; refused while anything dated in the year is pending.';
+
+-- 6) RPCs: reopening (requested by one admin, approved by another)
+CREATE OR REPLACE FUNCTION public.request_period_reopen(p_financial_year int, p_reason text)
+RETURNS public.period_reopen_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_request public.period_reopen_requests;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can request reopening a financial year' USING ERRCODE = '42501';
+  END IF;
+  IF NULLIF(btrim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required' USING ERRCODE = '22023';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM public.accounting_periods
+    WHERE financial_year = p_financial_year AND status = 'Closed'
+  ) THEN
+    RAISE EXCEPTION 'Financial year % is not closed', p_financial_year USING ERRCODE = 'P0002';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.period_reopen_requests
+    WHERE financial_year = p_financial_year AND status = 'Pending'
+  ) THEN
+    RAISE EXCEPTION 'A reopen request for financial year % is already pending', p_financial_year USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.period_reopen_requests (financial_year, reason, requested_by)
+  VALUES (p_financial_year, btrim(p_reason), v_actor)
+  RETURNING * INTO v_request;
+
+  INSERT INTO public.accounting_period_events (financial_year, event, reason, actor)
+  VALUES (p_financial_year, 'reopen_requested', btrim(p_reason), v_actor);
+
+  RETURN v_request;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.request_period_reopen(int, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.review_period_reopen(p_request_id uuid, p_approve boolean)
+RETURNS public.period_reopen_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_request public.period_reopen_requests;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can review reopen requests' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_request FROM public.period_reopen_requests WHERE request_id = p_request_id FOR UPDATE;
+  IF v_request.request_id IS NULL OR v_request.status <> 'Pending' THEN
+    RAISE EXCEPTION 'Reopen request not found or already reviewed' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_request.requested_by = v_actor THEN
+    RAISE EXCEPTION 'You requested this reopening; another admin must review it' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.period_reopen_requests
+  SET status = CASE WHEN p_approve THEN 'Approved' ELSE 'Rejected' END::public.enum_request_status,
+      reviewed_by = v_actor,
+      reviewed_at = now()
+  WHERE request_id = p_request_id
+  RETURNING * INTO v_request;
+
+  IF p_approve THEN
+    UPDATE public.accounting_periods
+    SET status = 'Open',
+        reopened_by = v_actor,
+        reopened_at = now()
+    WHERE financial_year = v_request.financial_year;
+  END IF;
+
+  INSERT INTO public.accounting_period_events (financial_year, event, reason, actor)
+  VALUES (v_request.financial_year, CASE WHEN p_approve THEN 'reopened' ELSE 'reopen_rejected' END, v_request.reason, v_actor);
+
+  RETURN v_request;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_period_reopen(uuid, boolean) TO authenticated;
+
+-- 7) RPC: every financial year with activity, up to the current one
+CREATE OR REPLACE FUNCTION public.list_accounting_periods()
+RETURNS TABLE (
+  financial_year int,
+  start_date date,
+  end_date date,
+  status text,
+  closed_at timestamptz,
+  closed_by_name text,
+  reopened_at timestamptz,
+  reopened_by_name text,
+  pending_request_id uuid,
+  pending_request_reason text,
+  pending_requested_by_name text,
+  pending_requested_by_me boolean,
+  snapshot_taken_at timestamptz,
+  snapshot_donations_total numeric,
+  snapshot_expenses_total numeric,
+  snapshot_disbursements_total numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_first int;
+  v_current int := public.financial_year_of(CURRENT_DATE);
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view financial periods' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT LEAST(
+    COALESCE((SELECT public.financial_year_of(min(d.donation_date)) FROM public.donations d), v_current),
+    COALESCE((SELECT min(ap.financial_year) FROM public.accounting_periods ap), v_current)
+  ) INTO v_first;
+
+  RETURN QUERY
+  SELECT
+    y.fy,
+    b.start_date,
+    b.end_date,
+    COALESCE(ap.status, 'Open'),
+    ap.closed_at,
+    closer.full_name,
+    ap.reopened_at,
+    reopener.full_name,
+    pr.request_id,
+    pr.reason,
+    requester.full_name,
+    pr.requested_by = auth.uid(),
+    s.taken_at,
+    s.donations_total,
+    s.expenses_total,
+    s.disbursements_total
+  FROM generate_series(v_current, v_first, -1) AS y(fy)
+  CROSS JOIN LATERAL public.financial_year_bounds(y.fy) b
+  LEFT JOIN public.accounting_periods ap ON ap.financial_year = y.fy
+  LEFT JOIN public.profiles closer ON closer.user_id = ap.closed_by
+  LEFT JOIN public.profiles reopener ON reopener.user_id = ap.reopened_by
+  LEFT JOIN public.period_reopen_requests pr ON pr.financial_year = y.fy AND pr.status = 'Pending'
+  LEFT JOIN public.profiles requester ON requester.user_id = pr.requested_by
+  LEFT JOIN LATERAL (
+    SELECT fs.taken_at, fs.donations_total, fs.expenses_total, fs.disbursements_total
+    FROM public.financial_year_snapshots fs
+    WHERE fs.financial_year = y.fy
+    ORDER BY fs.taken_at DESC
+    LIMIT 1
+  ) s ON true
+  ORDER BY y.fy DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_accounting_periods() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.list_financial_year_snapshots(p_financial_year int)
+RETURNS SETOF public.financial_year_snapshots
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view year-end snapshots' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.financial_year_snapshots
+  WHERE financial_year = p_financial_year
+  ORDER BY taken_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_financial_year_snapshots(int) TO authenticated;
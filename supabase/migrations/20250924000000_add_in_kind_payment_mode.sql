@@ -0,0 +1,6 @@
+-- supabase/migrations/20250924000000_add_in_kind_payment_mode.sql
+-- Purpose: Allow donations of goods (food rations, medicine, equipment) to be recorded.
+--
+-- Kept in its own migration: a new enum value cannot be used in the transaction that adds it.
+
+ALTER TYPE public.enum_payment_mode ADD VALUE IF NOT EXISTS 'InKind';
@@ -0,0 +1,740 @@
+-- supabase/migrations/20250924000100_add_in_kind_donations.sql
+-- Purpose: Record donations of goods with item lines and an estimated value.
+--
+-- - An in-kind request uses mode_of_payment 'InKind', is always in PKR, and its amount is the total
+--   estimated value of its item lines (description, quantity, unit, estimated value).
+-- - valuation_notes explains how the goods were valued (e.g. market price, donor invoice).
+-- - Approval still copies the request into donations; a donation marked InKind must carry item
+--   lines whose values add up to its amount. A void-and-reissue correction may restate the amount.
+-- - In-kind value is not cash: it is excluded from cash totals and fund balances and reported on
+--   its own. In the ledger it is debited to '1100 In-kind goods received'.
+
+-- 1) Item lines
+ALTER TABLE public.donation_requests
+  ADD COLUMN IF NOT EXISTS valuation_notes text;
+
+CREATE TABLE IF NOT EXISTS public.donation_request_items (
+  item_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  donation_request_id uuid NOT NULL REFERENCES public.donation_requests(donation_request_id) ON DELETE CASCADE,
+  line_no int NOT NULL CHECK (line_no > 0),
+  description text NOT NULL CHECK (btrim(description) <> ''),
+  quantity numeric(14,3) NOT NULL CHECK (quantity > 0),
+  unit text NOT NULL CHECK (btrim(unit) <> ''),
+  estimated_value numeric(14,2) NOT NULL CHECK (estimated_value >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (donation_request_id, line_no)
+);
+
+ALTER TABLE public.donation_request_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS donation_request_items_admin_select ON public.donation_request_items;
+CREATE POLICY donation_request_items_admin_select ON public.donation_request_items
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+COMMENT ON COLUMN public.donation_request_items.estimated_value IS 'Estimated PKR value of the whole line (not per unit).';
+
+-- 2) Ledger account for goods received
+INSERT INTO public.gl_accounts (account_code, account_name, account_type) VALUES
+  ('1100', 'In-kind goods received', 'Asset')
+ON CONFLICT (account_code) DO NOTHING;
+
+INSERT INTO public.gl_posting_rules (rule_key, account_code, description) VALUES
+  ('receipt:InKind', '1100', 'Debited at estimated value when an in-kind donation is approved')
+ON CONFLICT (rule_key) DO NOTHING;
+
+-- 3) An approved in-kind donation must match its item lines
+CREATE OR REPLACE FUNCTION public.check_in_kind_donation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_items_total numeric;
+BEGIN
+  IF NEW.mode_of_payment <> 'InKind' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.currency <> 'PKR' THEN
+    RAISE EXCEPTION 'In-kind donations are valued in PKR' USING ERRCODE = '22023';
+  END IF;
+
+  -- void_and_reissue_receipt restates the value under a new receipt number in the same update;
+  -- the correction (old and new amount, reason) is kept in donation_corrections
+  IF TG_OP = 'UPDATE'
+     AND OLD.mode_of_payment = 'InKind'
+     AND NEW.receipt_number IS DISTINCT FROM OLD.receipt_number THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT sum(i.estimated_value) INTO v_items_total
+  FROM public.donation_request_items i
+  WHERE i.donation_request_id = NEW.donation_request_id;
+
+  IF v_items_total IS NULL THEN
+    RAISE EXCEPTION 'In-kind donations need at least one item line' USING ERRCODE = '22023';
+  END IF;
+  IF v_items_total <> NEW.amount THEN
+    RAISE EXCEPTION 'In-kind amount (PKR %) must equal the estimated value of its items (PKR %)', NEW.amount, v_items_total
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_check_in_kind_donation ON public.donations;
+CREATE TRIGGER trg_check_in_kind_donation
+BEFORE INSERT OR UPDATE OF amount, currency, mode_of_payment ON public.donations
+FOR EACH ROW EXECUTE FUNCTION public.check_in_kind_donation();
+
+-- 4) RPC: record an in-kind donation request
+-- p_items: [{ "description": text, "quantity": number, "unit": text, "estimated_value": number }]
+CREATE OR REPLACE FUNCTION public.create_in_kind_donation_request(
+  p_donor_number text,
+  p_category_name text,
+  p_project_name text,
+  p_donation_type public.enum_donation_type,
+  p_donation_date date,
+  p_items jsonb,
+  p_valuation_notes text DEFAULT NULL
+)
+RETURNS public.donation_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_req public.donation_requests;
+  v_donor_id uuid;
+  v_category_id uuid;
+  v_project_id uuid;
+  v_item jsonb;
+  v_line int := 0;
+  v_total numeric := 0;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create donation requests' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required' USING ERRCODE = '22023';
+  END IF;
+  IF jsonb_array_length(p_items) > 100 THEN
+    RAISE EXCEPTION 'At most 100 items per donation' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT donor_id INTO v_donor_id
+  FROM public.donors
+  WHERE donor_number = p_donor_number
+  LIMIT 1;
+  IF v_donor_id IS NULL THEN
+    RAISE EXCEPTION 'Donor not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT donation_category_id INTO v_category_id
+  FROM public.donation_categories
+  WHERE donation_category_name = p_category_name
+    AND is_active = true
+  LIMIT 1;
+  IF v_category_id IS NULL THEN
+    RAISE EXCEPTION 'Category not found or inactive' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT project_id INTO v_project_id
+  FROM public.projects
+  WHERE project_name = p_project_name
+    AND is_active = true
+    AND donation_category_id = v_category_id
+  LIMIT 1;
+  IF v_project_id IS NULL THEN
+    RAISE EXCEPTION 'Project not found or inactive' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Validate every line before writing anything
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    v_line := v_line + 1;
+    IF NULLIF(btrim(v_item->>'description'), '') IS NULL OR NULLIF(btrim(v_item->>'unit'), '') IS NULL THEN
+      RAISE EXCEPTION 'Item %: description and unit are required', v_line USING ERRCODE = '22023';
+    END IF;
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::numeric <= 0 THEN
+      RAISE EXCEPTION 'Item %: quantity must be greater than 0', v_line USING ERRCODE = '22023';
+    END IF;
+    IF jsonb_typeof(v_item->'estimated_value') <> 'number' OR (v_item->>'estimated_value')::numeric < 0 THEN
+      RAISE EXCEPTION 'Item %: estimated value must be 0 or more', v_line USING ERRCODE = '22023';
+    END IF;
+    v_total := v_total + round((v_item->>'estimated_value')::numeric, 2);
+  END LOOP;
+
+  IF v_total <= 0 THEN
+    RAISE EXCEPTION 'The estimated value of the items must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.donation_requests (
+    donor_id, amount, currency, category_id, project_id,
+    mode_of_payment, donation_type, donation_date, valuation_notes,
+    status, created_by
+  ) VALUES (
+    v_donor_id, v_total, 'PKR', v_category_id, v_project_id,
+    'InKind', p_donation_type, p_donation_date, NULLIF(btrim(p_valuation_notes), ''),
+    'Pending', v_actor
+  )
+  RETURNING * INTO v_req;
+
+  INSERT INTO public.donation_request_items (
+    donation_request_id, line_no, description, quantity, unit, estimated_value
+  )
+  SELECT
+    v_req.donation_request_id,
+    e.ordinality::int,
+    btrim(e.value->>'description'),
+    (e.value->>'quantity')::numeric,
+    btrim(e.value->>'unit'),
+    round((e.value->>'estimated_value')::numeric, 2)
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS e(value, ordinality);
+
+  RETURN v_req;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_in_kind_donation_request(text, text, text, public.enum_donation_type, date, jsonb, text) TO authenticated;
+
+COMMENT ON FUNCTION public.create_in_kind_donation_request(text, text, text, public.enum_donation_type, date, jsonb, text) IS 'Creates a pending in-kind donation request with its item lines; the amount is their total estimated value. Admin-only.';
+
+-- 5) RPC: item lines of a request, or of the approved donation made from it
+-- valuation_notes is repeated on every line
+CREATE OR REPLACE FUNCTION public.get_in_kind_items(
+  p_donation_request_id uuid DEFAULT NULL,
+  p_donation_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  line_no int,
+  description text,
+  quantity numeric,
+  unit text,
+  estimated_value numeric,
+  valuation_notes text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request_id uuid := p_donation_request_id;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view donation items' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_request_id IS NULL AND p_donation_id IS NOT NULL THEN
+    SELECT d.donation_request_id INTO v_request_id
+    FROM public.donations d
+    WHERE d.donation_id = p_donation_id;
+  END IF;
+  IF v_request_id IS NULL THEN
+    RAISE EXCEPTION 'Donation request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  SELECT i.line_no, i.description, i.quantity, i.unit, i.estimated_value, r.valuation_notes
+  FROM public.donation_request_items i
+  JOIN public.donation_requests r ON r.donation_request_id = i.donation_request_id
+  WHERE i.donation_request_id = v_request_id
+  ORDER BY i.line_no;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_in_kind_items(uuid, uuid) TO authenticated;
+
+-- 6) RPC: in-kind totals for dashboards
+CREATE OR REPLACE FUNCTION public.get_in_kind_donation_totals()
+RETURNS TABLE (
+  fund public.enum_donation_type,
+  donation_count int,
+  total_value numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view in-kind totals' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT f.fund, count(d.donation_id)::int, COALESCE(sum(d.base_amount), 0)
+  FROM unnest(enum_range(NULL::public.enum_donation_type)) AS f(fund)
+  LEFT JOIN public.donations d
+    ON d.donation_type = f.fund
+   AND d.mode_of_payment = 'InKind'
+  GROUP BY f.fund
+  ORDER BY f.fund;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_in_kind_donation_totals() TO authenticated;
+
+-- 7) Cash totals and fund balances leave goods out
+CREATE OR REPLACE FUNCTION public.get_total_donations()
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  total_amount numeric;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can get total donations.';
+  END IF;
+
+  SELECT COALESCE(SUM(base_amount), 0)
+  INTO total_amount
+  FROM public.donations
+  WHERE mode_of_payment <> 'InKind';
+
+  RETURN total_amount;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING 'Error in get_total_donations: %', SQLERRM;
+    RETURN 0;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_total_donations() IS 'Sums cash donations in the base currency (PKR); in-kind goods are reported by get_in_kind_donation_totals. Admin-only.';
+
+CREATE OR REPLACE FUNCTION public.get_fund_balance(p_fund public.enum_donation_type)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE((SELECT sum(d.base_amount) FROM public.donations d WHERE d.donation_type = p_fund AND d.mode_of_payment <> 'InKind'), 0)
+    - COALESCE((SELECT sum(fd.amount) FROM public.fund_disbursements fd WHERE fd.fund = p_fund AND fd.voided_at IS NULL), 0)
+    - COALESCE((SELECT sum(e.base_amount) FROM public.expenses e WHERE e.fund = p_fund AND e.status = 'Approved'), 0);
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_fund_balances()
+RETURNS TABLE (
+  fund public.enum_donation_type,
+  received numeric,
+  disbursed numeric,
+  spent numeric,
+  balance numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view fund balances' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH funds AS (
+    SELECT unnest(enum_range(NULL::public.enum_donation_type)) AS fund
+  ),
+  totals AS (
+    SELECT
+      f.fund,
+      COALESCE((SELECT sum(d.base_amount) FROM public.donations d WHERE d.donation_type = f.fund AND d.mode_of_payment <> 'InKind'), 0) AS received,
+      COALESCE((SELECT sum(fd.amount) FROM public.fund_disbursements fd WHERE fd.fund = f.fund AND fd.voided_at IS NULL), 0) AS disbursed,
+      COALESCE((SELECT sum(e.base_amount) FROM public.expenses e WHERE e.fund = f.fund AND e.status = 'Approved'), 0) AS spent
+    FROM funds f
+  )
+  SELECT t.fund, t.received, t.disbursed, t.spent, t.received - t.disbursed - t.spent
+  FROM totals t
+  ORDER BY t.fund;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_fund_balances() IS 'Per-fund PKR cash totals: donations received (excluding in-kind goods), disbursed, spent on approved expenses, and the remaining balance. Admin-only.';
+
+CREATE OR REPLACE FUNCTION public.list_fund_ledger(
+  p_fund public.enum_donation_type,
+  p_limit int DEFAULT 200
+)
+RETURNS TABLE (
+  entry_date date,
+  entry_type text,
+  entry_id uuid,
+  reference text,
+  description text,
+  credit numeric,
+  debit numeric,
+  running_balance numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view the fund ledger' USING ERRCODE = '42501';
+  END IF;
+  IF p_fund IS NULL THEN
+    RAISE EXCEPTION 'Fund is required' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH entries AS (
+    SELECT
+      d.donation_date AS entry_date,
+      'donation'::text AS entry_type,
+      d.donation_id AS entry_id,
+      COALESCE(d.receipt_number, d.donation_human_id) AS reference,
+      COALESCE(pr.full_name, d.donor_human_id) AS description,
+      d.base_amount AS credit,
+      0::numeric AS debit,
+      d.approved_at AS recorded_at
+    FROM public.donations d
+    LEFT JOIN public.donors dn ON dn.donor_id = d.donor_id
+    LEFT JOIN public.profiles pr ON pr.user_id = dn.user_id
+    WHERE d.donation_type = p_fund
+      AND d.mode_of_payment <> 'InKind'
+    UNION ALL
+    SELECT
+      fd.disbursement_date,
+      'disbursement',
+      fd.disbursement_id,
+      fd.disbursement_number,
+      concat_ws(' - ', fd.purpose::text, fd.beneficiary_name),
+      0,
+      fd.amount,
+      fd.created_at
+    FROM public.fund_disbursements fd
+    WHERE fd.fund = p_fund
+      AND fd.voided_at IS NULL
+    UNION ALL
+    SELECT
+      e.expense_date,
+      'expense',
+      e.expense_id,
+      e.expense_number,
+      e.vendor_name,
+      0,
+      e.base_amount,
+      e.approved_at
+    FROM public.expenses e
+    WHERE e.fund = p_fund
+      AND e.status = 'Approved'
+  ),
+  ledger AS (
+    SELECT
+      en.*,
+      sum(en.credit - en.debit) OVER (ORDER BY en.entry_date, en.recorded_at, en.entry_id) AS running_balance
+    FROM entries en
+  )
+  SELECT l.entry_date, l.entry_type, l.entry_id, l.reference, l.description, l.credit, l.debit, l.running_balance
+  FROM ledger l
+  ORDER BY l.entry_date DESC, l.recorded_at DESC, l.entry_id DESC
+  LIMIT GREATEST(1, LEAST(COALESCE(p_limit, 200), 1000));
+END;
+$$;
+
+-- 8) Project summaries and year-end snapshots count cash only
+CREATE OR REPLACE FUNCTION public.get_project_financial_summaries(p_project_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  project_id uuid,
+  project_name text,
+  donation_category_id uuid,
+  is_active boolean,
+  start_date date,
+  end_date date,
+  target_amount numeric,
+  funds_raised numeric,
+  funds_spent numeric,
+  available_funds numeric,
+  remaining_target numeric,
+  percent_funded numeric,
+  overspent boolean,
+  target_missed boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view project financials' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_project_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM public.projects p WHERE p.project_id = p_project_id) THEN
+    RAISE EXCEPTION 'Project not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  WITH raised AS (
+    SELECT d.project_id, sum(d.base_amount) AS total
+    FROM public.donations d
+    WHERE d.mode_of_payment <> 'InKind'
+      AND (p_project_id IS NULL OR d.project_id = p_project_id)
+    GROUP BY d.project_id
+  ),
+  spent AS (
+    SELECT e.project_id, sum(e.base_amount) AS total
+    FROM public.expenses e
+    WHERE e.status = 'Approved'
+      AND (p_project_id IS NULL OR e.project_id = p_project_id)
+    GROUP BY e.project_id
+  ),
+  totals AS (
+    SELECT
+      p.project_id,
+      p.project_name,
+      p.donation_category_id,
+      p.is_active,
+      p.start_date,
+      p.end_date,
+      p.target_amount::numeric AS target_amount,
+      COALESCE(r.total, 0) AS funds_raised,
+      COALESCE(s.total, 0) AS funds_spent,
+      p.created_at
+    FROM public.projects p
+    LEFT JOIN raised r ON r.project_id = p.project_id
+    LEFT JOIN spent s ON s.project_id = p.project_id
+    WHERE p_project_id IS NULL OR p.project_id = p_project_id
+  )
+  SELECT
+    t.project_id,
+    t.project_name,
+    t.donation_category_id,
+    t.is_active,
+    t.start_date,
+    t.end_date,
+    t.target_amount,
+    t.funds_raised,
+    t.funds_spent,
+    t.funds_raised - t.funds_spent,
+    CASE WHEN t.target_amount IS NULL THEN NULL ELSE GREATEST(t.target_amount - t.funds_raised, 0) END,
+    CASE
+      WHEN t.target_amount IS NULL OR t.target_amount <= 0 THEN NULL
+      ELSE round(t.funds_raised * 100 / t.target_amount, 1)
+    END,
+    t.funds_spent > t.funds_raised,
+    t.target_amount IS NOT NULL
+      AND t.end_date IS NOT NULL
+      AND t.end_date < CURRENT_DATE
+      AND t.funds_raised < t.target_amount
+  FROM totals t
+  ORDER BY t.created_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_project_financial_summaries(uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.get_project_financial_summaries(uuid) IS 'Per-project budget vs. actual in PKR: approved cash donations raised (in-kind goods excluded), approved expenses spent, remaining target, percent funded and overspent/target-missed alerts. Admin-only.';
+
+ALTER TABLE public.financial_year_snapshots
+  ADD COLUMN IF NOT EXISTS in_kind_total numeric NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.financial_year_snapshots.in_kind_total IS 'Estimated PKR value of in-kind goods received in the year; not part of donations_total.';
+
+CREATE OR REPLACE FUNCTION public.close_financial_year(p_financial_year int)
+RETURNS public.financial_year_snapshots
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_start date;
+  v_end date;
+  v_pending int;
+  v_snapshot public.financial_year_snapshots;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can close a financial year' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT b.start_date, b.end_date INTO v_start, v_end FROM public.financial_year_bounds(p_financial_year) b;
+  IF v_end >= CURRENT_DATE THEN
+    RAISE EXCEPTION 'Financial year % has not ended yet', p_financial_year USING ERRCODE = '22023';
+  END IF;
+
+  -- Serialise with approvals that might still land in the year
+  PERFORM pg_advisory_xact_lock(hashtext('accounting_period:' || p_financial_year));
+
+  IF EXISTS (
+    SELECT 1 FROM public.accounting_periods
+    WHERE financial_year = p_financial_year AND status = 'Closed'
+  ) THEN
+    RAISE EXCEPTION 'Financial year % is already closed', p_financial_year USING ERRCODE = '22023';
+  END IF;
+
+  SELECT
+    (SELECT count(*) FROM public.donation_requests r
+     WHERE r.status = 'Pending' AND r.donation_date BETWEEN v_start AND v_end)
+    + (SELECT count(*) FROM public.expenses e
+       WHERE e.status = 'Pending' AND e.expense_date BETWEEN v_start AND v_end)
+  INTO v_pending;
+  IF v_pending > 0 THEN
+    RAISE EXCEPTION '% pending donation request(s) or expense(s) are dated in financial year %; approve or reject them first',
+      v_pending, p_financial_year USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.accounting_periods (financial_year, start_date, end_date, status, closed_by, closed_at)
+  VALUES (p_financial_year, v_start, v_end, 'Closed', v_actor, now())
+  ON CONFLICT (financial_year) DO UPDATE
+  SET status = 'Closed',
+      closed_by = EXCLUDED.closed_by,
+      closed_at = EXCLUDED.closed_at;
+
+  INSERT INTO public.accounting_period_events (financial_year, event, actor)
+  VALUES (p_financial_year, 'closed', v_actor);
+
+  INSERT INTO public.financial_year_snapshots (
+    financial_year, start_date, end_date, donations_count, donations_total,
+    zakat_received, sadqa_received, general_received, expenses_total, disbursements_total,
+    in_kind_total, trial_balance, taken_by
+  )
+  SELECT
+    p_financial_year,
+    v_start,
+    v_end,
+    (SELECT count(*)::int FROM public.donations d WHERE d.mode_of_payment <> 'InKind' AND d.donation_date BETWEEN v_start AND v_end),
+    COALESCE((SELECT sum(d.base_amount) FROM public.donations d WHERE d.mode_of_payment <> 'InKind' AND d.donation_date BETWEEN v_start AND v_end), 0),
+    COALESCE((SELECT sum(d.base_amount) FROM public.donations d WHERE d.donation_type = 'Zakat' AND d.mode_of_payment <> 'InKind' AND d.donation_date BETWEEN v_start AND v_end), 0),
+    COALESCE((SELECT sum(d.base_amount) FROM public.donations d WHERE d.donation_type = 'Sadqa' AND d.mode_of_payment <> 'InKind' AND d.donation_date BETWEEN v_start AND v_end), 0),
+    COALESCE((SELECT sum(d.base_amount) FROM public.donations d WHERE d.donation_type = 'General' AND d.mode_of_payment <> 'InKind' AND d.donation_date BETWEEN v_start AND v_end), 0),
+    COALESCE((SELECT sum(e.base_amount) FROM public.expenses e WHERE e.status = 'Approved' AND e.expense_date BETWEEN v_start AND v_end), 0),
+    COALESCE((SELECT sum(fd.amount) FROM public.fund_disbursements fd WHERE fd.voided_at IS NULL AND fd.disbursement_date BETWEEN v_start AND v_end), 0),
+    COALESCE((SELECT sum(d.base_amount) FROM public.donations d WHERE d.mode_of_payment = 'InKind' AND d.donation_date BETWEEN v_start AND v_end), 0),
+    COALESCE((SELECT jsonb_agg(to_jsonb(tb)) FROM public.get_trial_balance(v_end) tb), '[]'::jsonb),
+    v_actor
+  RETURNING * INTO v_snapshot;
+
+  RETURN v_snapshot;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.close_financial_year(int) TO authenticated;
+
+COMMENT ON FUNCTION public.close_financial_year(int) IS 'Locks a finished financial year and snapshots its totals (cash donations, with in-kind goods on their own line). Admin-only; refused while anything dated in the year is pending.';
+
+-- 9) Dashboard metrics report cash, with in-kind goods as their own figure
+DROP FUNCTION IF EXISTS public.get_admin_dashboard_metrics();
+
+CREATE OR REPLACE FUNCTION public.get_admin_dashboard_metrics()
+RETURNS TABLE (
+  total_donors bigint,
+  total_donations numeric,
+  total_in_kind numeric,
+  total_volunteers bigint,
+  total_members bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id uuid := auth.uid();
+BEGIN
+  IF v_caller_id IS NULL OR NOT public.is_admin(v_caller_id::uuid) THEN
+    RAISE EXCEPTION 'Forbidden: Caller is not an admin.' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH donors_count AS (
+    SELECT count(*) as total FROM donors
+  ),
+  donations_sum AS (
+    SELECT coalesce(sum(base_amount), 0) as total FROM donations WHERE mode_of_payment <> 'InKind'
+  ),
+  in_kind_sum AS (
+    SELECT coalesce(sum(base_amount), 0) as total FROM donations WHERE mode_of_payment = 'InKind'
+  ),
+  volunteers_count AS (
+    SELECT count(*) as total FROM public.user_roles WHERE is_volunteer = TRUE
+  ),
+  members_count AS (
+    SELECT count(*) as total FROM public.user_roles WHERE is_member = TRUE
+  )
+  SELECT
+    dc.total,
+    ds.total,
+    ik.total,
+    vc.total,
+    mc.total
+  FROM donors_count dc, donations_sum ds, in_kind_sum ik, volunteers_count vc, members_count mc;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_admin_dashboard_metrics() TO authenticated;
+
+COMMENT ON FUNCTION public.get_admin_dashboard_metrics() IS 'Aggregates the admin dashboard metrics: donors, cash donations (PKR), in-kind goods at estimated value, volunteers and members. Admin-only.';
+
+DROP FUNCTION IF EXISTS public.get_donor_dashboard_metrics();
+
+CREATE OR REPLACE FUNCTION public.get_donor_dashboard_metrics()
+RETURNS TABLE (
+    total_donations numeric,
+    last_donation_amount numeric,
+    last_donation_date date,
+    unique_projects_supported bigint,
+    total_donation_count bigint,
+    total_in_kind numeric,
+    in_kind_donation_count bigint
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+    v_donor_id uuid;
+BEGIN
+    SELECT d.donor_id INTO v_donor_id
+    FROM public.donors d
+    WHERE d.user_id = auth.uid();
+
+    IF v_donor_id IS NULL THEN
+        RETURN QUERY SELECT 0::numeric, 0::numeric, NULL::date, 0::bigint, 0::bigint, 0::numeric, 0::bigint;
+        RETURN;
+    END IF;
+
+    -- Cash amounts are reported in the base currency (PKR); goods are counted on their own
+    RETURN QUERY
+    WITH user_donations AS (
+        SELECT * FROM public.donations d WHERE d.donor_id = v_donor_id
+    ),
+    cash_donations AS (
+        SELECT * FROM user_donations d WHERE d.mode_of_payment <> 'InKind'
+    ),
+    last_donation AS (
+        SELECT d.base_amount, d.donation_date
+        FROM cash_donations d
+        ORDER BY d.donation_date DESC, d.created_at DESC
+        LIMIT 1
+    )
+    SELECT
+        COALESCE((SELECT SUM(d.base_amount) FROM cash_donations d), 0) AS total_donations,
+        (SELECT ld.base_amount FROM last_donation ld) AS last_donation_amount,
+        (SELECT ld.donation_date FROM last_donation ld) AS last_donation_date,
+        (SELECT COUNT(DISTINCT d.project_id) FROM user_donations d) AS unique_projects_supported,
+        (SELECT COUNT(*) FROM cash_donations d) AS total_donation_count,
+        COALESCE((SELECT SUM(d.base_amount) FROM user_donations d WHERE d.mode_of_payment = 'InKind'), 0) AS total_in_kind,
+        (SELECT COUNT(*) FROM user_donations d WHERE d.mode_of_payment = 'InKind') AS in_kind_donation_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_donor_dashboard_metrics() TO authenticated;
+
+COMMENT ON FUNCTION public.get_donor_dashboard_metrics() IS 'Fetches the current donor''s dashboard metrics: cash donations in PKR, with in-kind goods at estimated value reported separately.';
@@ -0,0 +1,1152 @@
+-- supabase/migrations/20250924010000_add_offline_donors.sql
+-- Purpose: Donor records for people and organisations without a portal account.
+--
+-- - donors.user_id becomes optional. An admin can record a walk-in individual (name, CNIC, phone,
+--   address) or an organisation (company name, NTN, contact person) and give them a donor number.
+-- - public.donor_contacts resolves a donor's name and contact details: the portal profile when the
+--   donor has an account, otherwise the details stored on the donor record. An organisation is
+--   always named by its company name.
+-- - link_donor_account() attaches a portal account to an account-less donor later. The donor_id
+--   does not change, so requests, donations, pledges and statements stay with the donor.
+-- - Every RPC and view that named donors through profiles now reads donor_contacts instead.
+
+-- 1) Enum
+DO $$ BEGIN
+  CREATE TYPE public.enum_donor_type AS ENUM ('Individual', 'Organisation');
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- 2) Donor details for records without an account
+ALTER TABLE public.donors
+  ALTER COLUMN user_id DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS donor_type public.enum_donor_type NOT NULL DEFAULT 'Individual',
+  ADD COLUMN IF NOT EXISTS full_name text,
+  ADD COLUMN IF NOT EXISTS email text,
+  ADD COLUMN IF NOT EXISTS phone_number text,
+  ADD COLUMN IF NOT EXISTS cnic_number text,
+  ADD COLUMN IF NOT EXISTS address jsonb,
+  ADD COLUMN IF NOT EXISTS organisation_name text,
+  ADD COLUMN IF NOT EXISTS ntn text,
+  ADD COLUMN IF NOT EXISTS contact_person text,
+  ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS linked_at timestamptz,
+  ADD COLUMN IF NOT EXISTS linked_by uuid REFERENCES auth.users(id);
+
+ALTER TABLE public.donors DROP CONSTRAINT IF EXISTS donors_name_required;
+ALTER TABLE public.donors ADD CONSTRAINT donors_name_required CHECK (
+  CASE donor_type
+    WHEN 'Organisation' THEN NULLIF(btrim(organisation_name), '') IS NOT NULL
+    ELSE user_id IS NOT NULL OR NULLIF(btrim(full_name), '') IS NOT NULL
+  END
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS donors_ntn_key
+  ON public.donors (ntn)
+  WHERE ntn IS NOT NULL;
+
+-- 3) Name and contact details for every donor
+CREATE OR REPLACE VIEW public.donor_contacts AS
+SELECT
+  d.donor_id,
+  d.donor_number,
+  d.user_id,
+  d.donor_type,
+  CASE
+    WHEN d.donor_type = 'Organisation' THEN d.organisation_name
+    ELSE COALESCE(p.full_name, d.full_name)
+  END AS full_name,
+  COALESCE(p.email, d.email) AS email,
+  COALESCE(p.phone_number, d.phone_number) AS phone_number,
+  COALESCE(p.cnic_number, d.cnic_number) AS cnic_number,
+  COALESCE(p.address, d.address) AS address,
+  d.organisation_name,
+  d.ntn,
+  d.contact_person
+FROM public.donors d
+LEFT JOIN public.profiles p ON p.user_id = d.user_id;
+
+-- Read through SECURITY DEFINER RPCs only; the view would otherwise bypass profiles RLS
+REVOKE ALL ON public.donor_contacts FROM PUBLIC, anon, authenticated;
+
+-- 4) RPC: record a donor without an account (admin only)
+CREATE OR REPLACE FUNCTION public.create_offline_donor(
+  p_donor_type public.enum_donor_type,
+  p_full_name text DEFAULT NULL,
+  p_organisation_name text DEFAULT NULL,
+  p_ntn text DEFAULT NULL,
+  p_contact_person text DEFAULT NULL,
+  p_email text DEFAULT NULL,
+  p_phone_number text DEFAULT NULL,
+  p_cnic_number text DEFAULT NULL,
+  p_address jsonb DEFAULT NULL
+)
+RETURNS TABLE (donor_id uuid, donor_number text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_full_name text := NULLIF(btrim(p_full_name), '');
+  v_organisation_name text := NULLIF(btrim(p_organisation_name), '');
+  v_ntn text := NULLIF(btrim(p_ntn), '');
+  v_donor_id uuid;
+  v_donor_number text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create donor records' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_donor_type = 'Organisation' THEN
+    IF v_organisation_name IS NULL THEN
+      RAISE EXCEPTION 'Organisation name is required' USING ERRCODE = '22023';
+    END IF;
+    IF v_ntn IS NOT NULL AND EXISTS (SELECT 1 FROM public.donors d WHERE d.ntn = v_ntn) THEN
+      RAISE EXCEPTION 'A donor with NTN % already exists', v_ntn USING ERRCODE = '23505';
+    END IF;
+  ELSE
+    IF v_full_name IS NULL THEN
+      RAISE EXCEPTION 'Donor name is required' USING ERRCODE = '22023';
+    END IF;
+    -- NTN and contact person describe organisations only
+    v_organisation_name := NULL;
+    v_ntn := NULL;
+    p_contact_person := NULL;
+  END IF;
+
+  v_donor_number := public.get_next_donor_number();
+
+  INSERT INTO public.donors (
+    donor_number, donor_type, full_name, email, phone_number, cnic_number, address,
+    organisation_name, ntn, contact_person, created_by
+  ) VALUES (
+    v_donor_number, p_donor_type, v_full_name, NULLIF(btrim(p_email), ''),
+    NULLIF(btrim(p_phone_number), ''), NULLIF(btrim(p_cnic_number), ''), p_address,
+    v_organisation_name, v_ntn, NULLIF(btrim(p_contact_person), ''), auth.uid()
+  ) RETURNING donors.donor_id INTO v_donor_id;
+
+  RETURN QUERY SELECT v_donor_id, v_donor_number;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_offline_donor(public.enum_donor_type, text, text, text, text, text, text, text, jsonb) TO authenticated;
+
+-- 5) RPC: attach a portal account to an account-less donor (admin only)
+CREATE OR REPLACE FUNCTION public.link_donor_account(
+  p_donor_id uuid,
+  p_email text
+)
+RETURNS public.donors
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donor public.donors;
+  v_user_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can link donor accounts' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_donor FROM public.donors WHERE donor_id = p_donor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Donor not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_donor.user_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Donor % is already linked to a portal account', v_donor.donor_number USING ERRCODE = '22023';
+  END IF;
+
+  SELECT p.user_id INTO v_user_id
+  FROM public.profiles p
+  WHERE lower(p.email) = lower(btrim(p_email))
+  LIMIT 1;
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'No portal account uses %', btrim(p_email) USING ERRCODE = 'P0002';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.donors d WHERE d.user_id = v_user_id) THEN
+    RAISE EXCEPTION 'That account already has its own donor record' USING ERRCODE = '23505';
+  END IF;
+
+  UPDATE public.donors
+  SET user_id = v_user_id,
+      linked_at = now(),
+      linked_by = auth.uid()
+  WHERE donor_id = p_donor_id
+  RETURNING * INTO v_donor;
+
+  INSERT INTO public.user_roles (user_id, is_donor, updated_at)
+  VALUES (v_user_id, TRUE, now())
+  ON CONFLICT (user_id)
+  DO UPDATE SET
+    is_donor = TRUE,
+    updated_at = now();
+
+  RETURN v_donor;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.link_donor_account(uuid, text) TO authenticated;
+
+-- 6) Donor search covers account-less donors and organisations
+DROP FUNCTION IF EXISTS public.search_donors_by_admin(text);
+
+CREATE OR REPLACE FUNCTION public.search_donors_by_admin(p_query text)
+RETURNS TABLE (
+  donor_id uuid,
+  user_id uuid,
+  donor_number text,
+  donor_type public.enum_donor_type,
+  full_name text,
+  email text,
+  phone_number text,
+  address jsonb,
+  ntn text,
+  contact_person text,
+  has_account boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can search for donors.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.donor_id,
+    c.user_id,
+    c.donor_number,
+    c.donor_type,
+    c.full_name,
+    c.email,
+    c.phone_number,
+    c.address,
+    c.ntn,
+    c.contact_person,
+    c.user_id IS NOT NULL
+  FROM public.donor_contacts c
+  WHERE
+    p_query IS NOT NULL AND (
+      c.donor_number ILIKE ('%' || p_query || '%')
+      OR c.full_name ILIKE ('%' || p_query || '%')
+      OR c.phone_number ILIKE ('%' || p_query || '%')
+      OR c.email ILIKE ('%' || p_query || '%')
+      OR c.cnic_number ILIKE ('%' || p_query || '%')
+      OR c.ntn ILIKE ('%' || p_query || '%')
+      OR c.contact_person ILIKE ('%' || p_query || '%')
+      OR (p_query ~ '^[0-9a-fA-F-]{16,}$' AND c.donor_id::text = p_query)
+    )
+  ORDER BY c.donor_number
+  LIMIT 20;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_donors_by_admin(text) TO authenticated;
+
+-- 7) Name donors through donor_contacts
+CREATE OR REPLACE VIEW public.admin_receipts_view AS
+SELECT 
+  d.donor_id,
+  dn.donation_id,
+  p.full_name as donor_name,
+  p.email as donor_email,
+  dn.amount,
+  dn.currency,
+  dn.donation_date,
+  dn.receipt_pdf_path,
+  o.metadata as receipt_metadata,
+  o.created_at as receipt_created_at,
+  o.updated_at as receipt_updated_at
+FROM public.donations dn
+JOIN public.donors d ON d.donor_id = dn.donor_id
+JOIN public.donor_contacts p ON p.donor_id = d.donor_id
+-- Receipts live at donations/{donation_id}/{receipt_number}.pdf; receipt_pdf_path points at the current one
+LEFT JOIN storage.objects o ON o.bucket_id = 'receipts'
+  AND o.name = dn.receipt_pdf_path
+WHERE public.is_admin();
+
+CREATE OR REPLACE VIEW public.donation_requests_view AS
+SELECT
+  dr.donation_request_id,
+  d.donor_number,
+  COALESCE(pr.full_name, '') AS donor_name,
+  pr.email AS donor_email,
+  pr.phone_number AS donor_phone,
+  dr.amount,
+  dr.currency,
+  dc.donation_category_name AS category_name,
+  p.project_name,
+  dr.mode_of_payment,
+  dr.donation_type,
+  dr.donation_date,
+  dr.transaction_id,
+  dr.status,
+  dr.created_at,
+  dr.approved_at,
+  dr.rejection_reason,
+  creator.email AS created_by_email,
+  approver.email AS approved_by_email
+FROM
+  public.donation_requests dr
+  JOIN public.donors d ON dr.donor_id = d.donor_id
+  JOIN public.donor_contacts pr ON pr.donor_id = d.donor_id
+  JOIN public.donation_categories dc ON dr.category_id = dc.donation_category_id
+  JOIN public.projects p ON dr.project_id = p.project_id
+  JOIN auth.users creator ON dr.created_by = creator.id
+  LEFT JOIN auth.users approver ON dr.approved_by = approver.id;
+
+CREATE OR REPLACE FUNCTION public.get_bank_statement_lines(p_statement_id uuid)
+RETURNS TABLE (
+  line_id uuid,
+  line_number int,
+  value_date date,
+  amount numeric,
+  currency text,
+  reference text,
+  description text,
+  status public.enum_bank_line_status,
+  match_method text,
+  donation_request_id uuid,
+  request_status public.enum_request_status,
+  donor_number text,
+  donor_name text,
+  donation_date date,
+  transaction_id text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view bank statements' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    l.line_id,
+    l.line_number,
+    l.value_date,
+    l.amount,
+    l.currency,
+    l.reference,
+    l.description,
+    l.status,
+    l.match_method,
+    l.donation_request_id,
+    r.status,
+    d.donor_number,
+    pr.full_name,
+    r.donation_date,
+    r.transaction_id
+  FROM public.bank_statement_lines l
+  LEFT JOIN public.donation_requests r ON r.donation_request_id = l.donation_request_id
+  LEFT JOIN public.donors d ON d.donor_id = r.donor_id
+  LEFT JOIN public.donor_contacts pr ON pr.donor_id = d.donor_id
+  WHERE l.statement_id = p_statement_id
+  ORDER BY l.line_number;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_donation_receipt_details(p_donation_id uuid)
+RETURNS TABLE (
+  donation_id uuid,
+  donor_human_id text,
+  donor_name text,
+  phone_number text,
+  address text,
+  amount numeric,
+  currency public.enum_donation_currency,
+  exchange_rate numeric,
+  base_amount numeric,
+  donation_date date,
+  payment_method public.enum_payment_mode,
+  transaction_id text,
+  category_name text,
+  project_name text,
+  donation_type public.enum_donation_type,
+  approved_by_name text,
+  receipt_number text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can fetch receipt details.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.donation_id,
+    dn.donor_number AS donor_human_id,
+    COALESCE(p.full_name, 'N/A') AS donor_name,
+    COALESCE(p.phone_number, 'N/A') AS phone_number,
+    COALESCE(
+      CASE
+        WHEN jsonb_typeof(p.address) = 'object' THEN
+          TRIM(BOTH ', ' FROM
+            CONCAT_WS(', ',
+              NULLIF(p.address->>'street', ''),
+              NULLIF(p.address->>'city', ''),
+              NULLIF(p.address->>'state', ''),
+              NULLIF(p.address->>'country', ''),
+              NULLIF(p.address->>'postalCode', '')
+            )
+          )
+        ELSE 'N/A'
+      END,
+      'N/A'
+    ) AS address,
+    d.amount,
+    d.currency,
+    d.exchange_rate,
+    d.base_amount,
+    d.donation_date,
+    d.mode_of_payment AS payment_method,
+    COALESCE(d.transaction_id, 'N/A') AS transaction_id,
+    COALESCE(dc.donation_category_name, 'N/A') AS category_name,
+    COALESCE(proj.project_name, 'N/A') AS project_name,
+    d.donation_type,
+    COALESCE(approver_p.full_name, 'N/A') AS approved_by_name,
+    d.receipt_number
+  FROM public.donations d
+  LEFT JOIN public.donors dn ON d.donor_id = dn.donor_id
+  LEFT JOIN public.donor_contacts p ON p.donor_id = dn.donor_id
+  LEFT JOIN public.donation_categories dc ON d.category_id = dc.donation_category_id
+  LEFT JOIN public.projects proj ON d.project_id = proj.project_id
+  LEFT JOIN public.profiles approver_p ON d.approved_by = approver_p.user_id
+  WHERE d.donation_id = p_donation_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_donor_annual_statement(
+  p_financial_year int,
+  p_donor_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donor_id uuid := p_donor_id;
+  v_donor jsonb;
+  v_donations jsonb;
+  v_totals jsonb;
+  v_in_kind_total numeric;
+  v_bounds record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF v_donor_id IS NULL THEN
+    SELECT donor_id INTO v_donor_id FROM public.donors WHERE user_id = auth.uid();
+    IF v_donor_id IS NULL THEN
+      RAISE EXCEPTION 'Donor record not found' USING ERRCODE = 'P0002';
+    END IF;
+  ELSIF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can generate statements for other donors' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'donor_id', dn.donor_id,
+    'donor_number', dn.donor_number,
+    'donor_name', COALESCE(pr.full_name, ''),
+    'phone_number', pr.phone_number,
+    'cnic_number', pr.cnic_number,
+    'ntn', pr.ntn,
+    'address', CASE
+      WHEN jsonb_typeof(pr.address) = 'object' THEN
+        NULLIF(TRIM(BOTH ', ' FROM CONCAT_WS(', ',
+          NULLIF(pr.address->>'street', ''),
+          NULLIF(pr.address->>'city', ''),
+          NULLIF(pr.address->>'state', ''),
+          NULLIF(pr.address->>'country', ''),
+          NULLIF(pr.address->>'postalCode', '')
+        )), '')
+      ELSE NULL
+    END
+  )
+  INTO v_donor
+  FROM public.donors dn
+  LEFT JOIN public.donor_contacts pr ON pr.donor_id = dn.donor_id
+  WHERE dn.donor_id = v_donor_id;
+
+  IF v_donor IS NULL THEN
+    RAISE EXCEPTION 'Donor not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'donation_id', d.donation_id,
+    'donation_human_id', d.donation_human_id,
+    'receipt_number', COALESCE(d.receipt_number, d.receipt_id),
+    'donation_date', d.donation_date,
+    'donation_type', d.donation_type,
+    'amount', d.amount,
+    'currency', d.currency,
+    'base_amount', d.base_amount,
+    'mode_of_payment', d.mode_of_payment,
+    'category_name', dc.donation_category_name,
+    'project_name', p.project_name
+  ) ORDER BY d.donation_type, d.donation_date, d.donation_human_id), '[]'::jsonb)
+  INTO v_donations
+  FROM public.donations d
+  LEFT JOIN public.donation_categories dc ON dc.donation_category_id = d.category_id
+  LEFT JOIN public.projects p ON p.project_id = d.project_id
+  WHERE d.donor_id = v_donor_id
+    AND public.financial_year_of(d.donation_date) = p_financial_year;
+
+  -- Totals are in the base currency (PKR) so mixed-currency years add up; they count cash only
+  SELECT COALESCE(jsonb_object_agg(t.donation_type, t.total), '{}'::jsonb)
+  INTO v_totals
+  FROM (
+    SELECT d.donation_type::text AS donation_type, SUM(d.base_amount) AS total
+    FROM public.donations d
+    WHERE d.donor_id = v_donor_id
+      AND d.mode_of_payment <> 'InKind'
+      AND public.financial_year_of(d.donation_date) = p_financial_year
+    GROUP BY d.donation_type
+  ) t;
+
+  -- Goods are reported on their own line at estimated value
+  SELECT COALESCE(SUM(d.base_amount), 0)
+  INTO v_in_kind_total
+  FROM public.donations d
+  WHERE d.donor_id = v_donor_id
+    AND d.mode_of_payment = 'InKind'
+    AND public.financial_year_of(d.donation_date) = p_financial_year;
+
+  -- Period follows the configured fiscal year start month
+  SELECT * INTO v_bounds FROM public.financial_year_bounds(p_financial_year);
+
+  RETURN jsonb_build_object(
+    'financial_year', p_financial_year,
+    'period_start', v_bounds.start_date,
+    'period_end', v_bounds.end_date,
+    'base_currency', 'PKR',
+    'donor', v_donor,
+    'donations', v_donations,
+    'totals_by_type', v_totals,
+    'in_kind_total', v_in_kind_total
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.list_approved_donations(p_limit int DEFAULT 100)
+RETURNS TABLE (
+  donation_id uuid,
+  donation_human_id text,
+  receipt_number text,
+  donor_number text,
+  donor_name text,
+  amount numeric,
+  currency public.enum_donation_currency,
+  base_amount numeric,
+  category_name text,
+  project_name text,
+  donation_type public.enum_donation_type,
+  donation_date date,
+  approved_at timestamptz,
+  receipt_pdf_path text,
+  correction_count bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can list donations.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.donation_id,
+    d.donation_human_id,
+    d.receipt_number,
+    dn.donor_number,
+    COALESCE(pr.full_name, '') AS donor_name,
+    d.amount,
+    d.currency,
+    d.base_amount,
+    dc.donation_category_name AS category_name,
+    p.project_name,
+    d.donation_type,
+    d.donation_date,
+    d.approved_at,
+    d.receipt_pdf_path,
+    (SELECT COUNT(*) FROM public.donation_corrections c WHERE c.donation_id = d.donation_id) AS correction_count
+  FROM public.donations d
+  JOIN public.donors dn ON dn.donor_id = d.donor_id
+  LEFT JOIN public.donor_contacts pr ON pr.donor_id = dn.donor_id
+  LEFT JOIN public.donation_categories dc ON dc.donation_category_id = d.category_id
+  LEFT JOIN public.projects p ON p.project_id = d.project_id
+  ORDER BY d.approved_at DESC
+  LIMIT GREATEST(COALESCE(p_limit, 100), 1);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.list_donation_pledges(
+  p_overdue_only boolean DEFAULT false,
+  p_grace_days int DEFAULT 7
+)
+RETURNS TABLE (
+  pledge_id uuid,
+  donor_number text,
+  donor_name text,
+  phone_number text,
+  amount numeric,
+  currency text,
+  donation_type text,
+  frequency text,
+  category_name text,
+  project_name text,
+  start_date date,
+  end_date date,
+  next_due_date date,
+  status text,
+  instalments_due bigint,
+  instalments_received bigint,
+  expected_amount numeric,
+  received_amount numeric,
+  overdue_count bigint,
+  overdue_amount numeric,
+  oldest_overdue_date date
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can list pledges.';
+  END IF;
+
+  RETURN QUERY
+  SELECT pl.pledge_id, dn.donor_number, COALESCE(pr.full_name, ''), pr.phone_number,
+         pl.amount, pl.currency::text, pl.donation_type::text, pl.frequency::text,
+         dc.donation_category_name, p.project_name,
+         pl.start_date, pl.end_date, pl.next_due_date, pl.status::text,
+         f.instalments_due, f.instalments_received, f.expected_amount, f.received_amount,
+         f.overdue_count, f.overdue_amount, f.oldest_overdue_date
+  FROM public.donation_pledges pl
+  JOIN public.pledge_fulfilment(p_grace_days) f ON f.pledge_id = pl.pledge_id
+  JOIN public.donors dn ON dn.donor_id = pl.donor_id
+  LEFT JOIN public.donor_contacts pr ON pr.donor_id = dn.donor_id
+  LEFT JOIN public.donation_categories dc ON dc.donation_category_id = pl.category_id
+  LEFT JOIN public.projects p ON p.project_id = pl.project_id
+  WHERE NOT p_overdue_only OR f.overdue_count > 0
+  ORDER BY f.oldest_overdue_date NULLS LAST, dn.donor_number, pl.start_date;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.list_donor_statements(p_financial_year int)
+RETURNS TABLE (
+  statement_id uuid,
+  donor_id uuid,
+  donor_number text,
+  donor_name text,
+  pdf_path text,
+  donation_count int,
+  total_amount numeric,
+  generated_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can list statements.';
+  END IF;
+
+  RETURN QUERY
+  SELECT s.statement_id, s.donor_id, dn.donor_number, COALESCE(pr.full_name, ''), s.pdf_path,
+         s.donation_count, s.total_amount, s.generated_at
+  FROM public.donor_statements s
+  JOIN public.donors dn ON dn.donor_id = s.donor_id
+  LEFT JOIN public.donor_contacts pr ON pr.donor_id = dn.donor_id
+  WHERE s.financial_year = p_financial_year
+  ORDER BY dn.donor_number;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.list_fund_ledger(
+  p_fund public.enum_donation_type,
+  p_limit int DEFAULT 200
+)
+RETURNS TABLE (
+  entry_date date,
+  entry_type text,
+  entry_id uuid,
+  reference text,
+  description text,
+  credit numeric,
+  debit numeric,
+  running_balance numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view the fund ledger' USING ERRCODE = '42501';
+  END IF;
+  IF p_fund IS NULL THEN
+    RAISE EXCEPTION 'Fund is required' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH entries AS (
+    SELECT
+      d.donation_date AS entry_date,
+      'donation'::text AS entry_type,
+      d.donation_id AS entry_id,
+      COALESCE(d.receipt_number, d.donation_human_id) AS reference,
+      COALESCE(pr.full_name, d.donor_human_id) AS description,
+      d.base_amount AS credit,
+      0::numeric AS debit,
+      d.approved_at AS recorded_at
+    FROM public.donations d
+    LEFT JOIN public.donors dn ON dn.donor_id = d.donor_id
+    LEFT JOIN public.donor_contacts pr ON pr.donor_id = dn.donor_id
+    WHERE d.donation_type = p_fund
+      AND d.mode_of_payment <> 'InKind'
+    UNION ALL
+    SELECT
+      fd.disbursement_date,
+      'disbursement',
+      fd.disbursement_id,
+      fd.disbursement_number,
+      concat_ws(' - ', fd.purpose::text, fd.beneficiary_name),
+      0,
+      fd.amount,
+      fd.created_at
+    FROM public.fund_disbursements fd
+    WHERE fd.fund = p_fund
+      AND fd.voided_at IS NULL
+    UNION ALL
+    SELECT
+      e.expense_date,
+      'expense',
+      e.expense_id,
+      e.expense_number,
+      e.vendor_name,
+      0,
+      e.base_amount,
+      e.approved_at
+    FROM public.expenses e
+    WHERE e.fund = p_fund
+      AND e.status = 'Approved'
+  ),
+  ledger AS (
+    SELECT
+      en.*,
+      sum(en.credit - en.debit) OVER (ORDER BY en.entry_date, en.recorded_at, en.entry_id) AS running_balance
+    FROM entries en
+  )
+  SELECT l.entry_date, l.entry_type, l.entry_id, l.reference, l.description, l.credit, l.debit, l.running_balance
+  FROM ledger l
+  ORDER BY l.entry_date DESC, l.recorded_at DESC, l.entry_id DESC
+  LIMIT GREATEST(1, LEAST(COALESCE(p_limit, 200), 1000));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.list_pending_donation_requests()
+RETURNS TABLE (
+  donation_request_id uuid,
+  donor_number text,
+  donor_name text,
+  amount numeric,
+  currency public.enum_donation_currency,
+  category_name text,
+  project_name text,
+  mode_of_payment public.enum_payment_mode,
+  donation_type public.enum_donation_type,
+  donation_date date,
+  status public.enum_request_status,
+  created_at timestamptz,
+  transaction_id text,
+  has_proof boolean,
+  source text,
+  created_by_name text,
+  created_by_me boolean,
+  requires_second_approval boolean,
+  first_approved_by_name text,
+  first_approved_by_me boolean,
+  first_approved_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can list pending donation requests.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    dr.donation_request_id,
+    d.donor_number,
+    COALESCE(pr.full_name, '') AS donor_name,
+    dr.amount,
+    dr.currency,
+    dc.donation_category_name AS category_name,
+    p.project_name,
+    dr.mode_of_payment,
+    dr.donation_type,
+    dr.donation_date,
+    dr.status,
+    dr.created_at,
+    dr.transaction_id,
+    dr.proof_path IS NOT NULL,
+    CASE
+      WHEN dr.pledge_id IS NOT NULL THEN 'pledge'
+      WHEN dr.created_by = d.user_id THEN 'donor'
+      ELSE 'admin'
+    END,
+    maker.full_name,
+    dr.created_by = auth.uid(),
+    COALESCE(public.donation_request_needs_second_approval(dr), false),
+    checker.full_name,
+    COALESCE(dr.first_approved_by = auth.uid(), false),
+    dr.first_approved_at
+  FROM public.donation_requests dr
+  JOIN public.donors d ON d.donor_id = dr.donor_id
+  JOIN public.donor_contacts pr ON pr.donor_id = d.donor_id
+  JOIN public.donation_categories dc ON dc.donation_category_id = dr.category_id
+  JOIN public.projects p ON p.project_id = dr.project_id
+  LEFT JOIN public.profiles maker ON maker.user_id = dr.created_by
+  LEFT JOIN public.profiles checker ON checker.user_id = dr.first_approved_by
+  WHERE dr.status = 'Pending'::public.enum_request_status
+  ORDER BY dr.created_at DESC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.list_unmatched_bank_donations(p_statement_id uuid)
+RETURNS TABLE (
+  donation_request_id uuid,
+  donor_number text,
+  donor_name text,
+  amount numeric,
+  currency public.enum_donation_currency,
+  mode_of_payment public.enum_payment_mode,
+  donation_date date,
+  transaction_id text,
+  status public.enum_request_status
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_statement public.bank_statements;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view bank statements' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_statement FROM public.bank_statements WHERE statement_id = p_statement_id;
+  IF v_statement.statement_id IS NULL THEN
+    RAISE EXCEPTION 'Bank statement not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.donation_request_id,
+    d.donor_number,
+    COALESCE(pr.full_name, ''),
+    r.amount,
+    r.currency,
+    r.mode_of_payment,
+    r.donation_date,
+    r.transaction_id,
+    r.status
+  FROM public.donation_requests r
+  JOIN public.donors d ON d.donor_id = r.donor_id
+  LEFT JOIN public.donor_contacts pr ON pr.donor_id = d.donor_id
+  WHERE r.status IN ('Pending'::public.enum_request_status, 'Approved'::public.enum_request_status)
+    AND r.mode_of_payment IN ('BankTransfer'::public.enum_payment_mode, 'Online'::public.enum_payment_mode)
+    AND r.donation_date BETWEEN v_statement.period_start - 3 AND v_statement.period_end + 3
+    AND NOT EXISTS (
+      SELECT 1 FROM public.bank_statement_lines l WHERE l.donation_request_id = r.donation_request_id
+    )
+  ORDER BY r.donation_date, r.amount;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_donation_import(p_rows jsonb)
+RETURNS TABLE (
+  row_number int,
+  status text,
+  errors text[],
+  duplicate_of text,
+  donor_id uuid,
+  donor_number text,
+  donor_name text,
+  amount numeric,
+  currency public.enum_donation_currency,
+  category_id uuid,
+  category_name text,
+  project_id uuid,
+  project_name text,
+  mode_of_payment public.enum_payment_mode,
+  donation_type public.enum_donation_type,
+  donation_date date,
+  transaction_id text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row jsonb;
+  v_index bigint;
+  v_seen text[] := ARRAY[]::text[];
+  v_text text;
+  v_digits text;
+  v_matches int;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can import donations' USING ERRCODE = '42501';
+  END IF;
+  IF p_rows IS NULL OR jsonb_typeof(p_rows) <> 'array' THEN
+    RAISE EXCEPTION 'Rows must be a JSON array' USING ERRCODE = '22023';
+  END IF;
+  IF jsonb_array_length(p_rows) > 2000 THEN
+    RAISE EXCEPTION 'A single import is limited to 2000 rows' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_row, v_index IN SELECT e, i FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS t(e, i) LOOP
+    row_number := COALESCE(NULLIF(v_row->>'row', '')::int, v_index::int);
+    errors := ARRAY[]::text[];
+    duplicate_of := NULL;
+    donor_id := NULL; donor_number := NULL; donor_name := NULL;
+    amount := NULL; currency := NULL;
+    category_id := NULL; category_name := NULL;
+    project_id := NULL; project_name := NULL;
+    mode_of_payment := NULL; donation_type := NULL; donation_date := NULL;
+    transaction_id := NULLIF(btrim(v_row->>'transaction_id'), '');
+
+    -- Donor: donor number first, then phone, then CNIC
+    v_text := NULLIF(btrim(v_row->>'donor_number'), '');
+    IF v_text IS NOT NULL THEN
+      SELECT d.donor_id, d.donor_number, pr.full_name
+      INTO donor_id, donor_number, donor_name
+      FROM public.donors d
+      LEFT JOIN public.donor_contacts pr ON pr.donor_id = d.donor_id
+      WHERE upper(d.donor_number) = upper(v_text);
+      IF donor_id IS NULL THEN
+        errors := errors || format('Donor number %s not found', v_text);
+      END IF;
+    ELSE
+      v_matches := NULL;
+      v_digits := regexp_replace(COALESCE(v_row->>'phone', ''), '\D', '', 'g');
+      IF length(v_digits) >= 10 THEN
+        -- compare the last 10 digits so 0300..., 92300... and +92 300... all match
+        SELECT count(*) INTO v_matches
+        FROM public.donors d
+        JOIN public.donor_contacts pr ON pr.donor_id = d.donor_id
+        WHERE right(regexp_replace(COALESCE(pr.phone_number, ''), '\D', '', 'g'), 10) = right(v_digits, 10);
+
+        IF v_matches = 1 THEN
+          SELECT d.donor_id, d.donor_number, pr.full_name
+          INTO donor_id, donor_number, donor_name
+          FROM public.donors d
+          JOIN public.donor_contacts pr ON pr.donor_id = d.donor_id
+          WHERE right(regexp_replace(COALESCE(pr.phone_number, ''), '\D', '', 'g'), 10) = right(v_digits, 10);
+        ELSIF v_matches > 1 THEN
+          errors := errors || format('Phone %s matches %s donors; use the donor number', v_row->>'phone', v_matches);
+        END IF;
+      END IF;
+
+      IF donor_id IS NULL AND cardinality(errors) = 0 THEN
+        v_digits := regexp_replace(COALESCE(v_row->>'cnic', ''), '\D', '', 'g');
+        IF v_digits <> '' THEN
+          SELECT count(*) INTO v_matches
+          FROM public.donors d
+          JOIN public.donor_contacts pr ON pr.donor_id = d.donor_id
+          WHERE regexp_replace(COALESCE(pr.cnic_number, ''), '\D', '', 'g') = v_digits;
+
+          IF v_matches = 1 THEN
+            SELECT d.donor_id, d.donor_number, pr.full_name
+            INTO donor_id, donor_number, donor_name
+            FROM public.donors d
+            JOIN public.donor_contacts pr ON pr.donor_id = d.donor_id
+            WHERE regexp_replace(COALESCE(pr.cnic_number, ''), '\D', '', 'g') = v_digits;
+          ELSIF v_matches > 1 THEN
+            errors := errors || format('CNIC %s matches %s donors; use the donor number', v_row->>'cnic', v_matches);
+          END IF;
+        END IF;
+      END IF;
+
+      IF donor_id IS NULL AND cardinality(errors) = 0 THEN
+        errors := errors || 'No donor matches the donor number, phone or CNIC'::text;
+      END IF;
+    END IF;
+
+    -- Amount and currency
+    v_text := replace(btrim(COALESCE(v_row->>'amount', '')), ',', '');
+    IF v_text ~ '^\d+(\.\d{1,2})?$' THEN
+      amount := v_text::numeric;
+    END IF;
+    IF amount IS NULL OR amount <= 0 THEN
+      amount := NULL;
+      errors := errors || format('Invalid amount "%s"', v_row->>'amount');
+    END IF;
+
+    v_text := upper(COALESCE(NULLIF(btrim(v_row->>'currency'), ''), 'PKR'));
+    IF v_text = ANY (enum_range(NULL::public.enum_donation_currency)::text[]) THEN
+      currency := v_text::public.enum_donation_currency;
+    ELSE
+      errors := errors || format('Unsupported currency "%s"', v_row->>'currency');
+    END IF;
+
+    -- Category and project by name (case-insensitive, active only)
+    v_text := btrim(COALESCE(v_row->>'category_name', ''));
+    SELECT c.donation_category_id, c.donation_category_name
+    INTO category_id, category_name
+    FROM public.donation_categories c
+    WHERE lower(c.donation_category_name) = lower(v_text)
+      AND c.is_active = true
+    LIMIT 1;
+    IF category_id IS NULL THEN
+      errors := errors || format('Category "%s" not found or inactive', v_text);
+    ELSE
+      v_text := btrim(COALESCE(v_row->>'project_name', ''));
+      SELECT p.project_id, p.project_name
+      INTO project_id, project_name
+      FROM public.projects p
+      WHERE lower(p.project_name) = lower(v_text)
+        AND p.is_active = true
+        AND p.donation_category_id = category_id
+      LIMIT 1;
+      IF project_id IS NULL THEN
+        errors := errors || format('Project "%s" not found or inactive in %s', v_text, category_name);
+      END IF;
+    END IF;
+
+    -- Payment mode and donation type
+    v_text := NULLIF(btrim(v_row->>'mode_of_payment'), '');
+    IF v_text = ANY (enum_range(NULL::public.enum_payment_mode)::text[]) THEN
+      mode_of_payment := v_text::public.enum_payment_mode;
+    ELSE
+      errors := errors || format('Invalid payment mode "%s"', COALESCE(v_text, ''));
+    END IF;
+
+    v_text := NULLIF(btrim(v_row->>'donation_type'), '');
+    IF v_text = ANY (enum_range(NULL::public.enum_donation_type)::text[]) THEN
+      donation_type := v_text::public.enum_donation_type;
+    ELSE
+      errors := errors || format('Invalid donation type "%s"', COALESCE(v_text, ''));
+    END IF;
+
+    -- Donation date
+    v_text := btrim(COALESCE(v_row->>'donation_date', ''));
+    BEGIN
+      IF v_text ~ '^\d{4}-\d{2}-\d{2}$' THEN
+        donation_date := v_text::date;
+      END IF;
+    EXCEPTION WHEN others THEN
+      donation_date := NULL;
+    END;
+    IF donation_date IS NULL THEN
+      errors := errors || format('Invalid donation date "%s"', v_row->>'donation_date');
+    ELSIF donation_date > CURRENT_DATE THEN
+      errors := errors || 'Donation date is in the future'::text;
+    ELSIF currency IS NOT NULL AND currency <> 'PKR'
+      AND public.get_exchange_rate(currency, donation_date) IS NULL THEN
+      errors := errors || format('No %s exchange rate on record for %s', currency, donation_date);
+    END IF;
+
+    -- Duplicates by transaction_id
+    IF transaction_id IS NOT NULL THEN
+      IF EXISTS (
+        SELECT 1 FROM public.donation_requests r
+        WHERE r.transaction_id = validate_donation_import.transaction_id
+          AND r.status <> 'Rejected'::public.enum_request_status
+      ) OR EXISTS (
+        SELECT 1 FROM public.donations d
+        WHERE d.transaction_id = validate_donation_import.transaction_id
+      ) THEN
+        duplicate_of := 'existing';
+      ELSIF transaction_id = ANY (v_seen) THEN
+        duplicate_of := 'file';
+      END IF;
+      v_seen := v_seen || transaction_id;
+    END IF;
+
+    status := CASE
+      WHEN cardinality(errors) > 0 THEN 'error'
+      WHEN duplicate_of IS NOT NULL THEN 'duplicate'
+      ELSE 'valid'
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.verify_donation_receipt(p_donation_id uuid)
+RETURNS TABLE (
+  donation_id uuid,
+  donation_human_id text,
+  receipt_id text,
+  donor_initials text,
+  amount numeric,
+  currency public.enum_donation_currency,
+  donation_date date,
+  donation_type public.enum_donation_type,
+  project_name text,
+  is_approved boolean,
+  approved_at timestamptz
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    d.donation_id,
+    d.donation_human_id,
+    COALESCE(d.receipt_number, d.receipt_id) AS receipt_id,
+    NULLIF(
+      TRIM(BOTH ' ' FROM (
+        SELECT string_agg(upper(left(part, 1)) || '.', ' ')
+        FROM regexp_split_to_table(COALESCE(p.full_name, ''), '\s+') AS part
+        WHERE part <> ''
+      )),
+      ''
+    ) AS donor_initials,
+    d.amount,
+    d.currency,
+    d.donation_date,
+    d.donation_type,
+    proj.project_name,
+    (d.approved_by IS NOT NULL AND d.approved_at IS NOT NULL) AS is_approved,
+    d.approved_at
+  FROM public.donations d
+  LEFT JOIN public.donors dn ON dn.donor_id = d.donor_id
+  LEFT JOIN public.donor_contacts p ON p.donor_id = dn.donor_id
+  LEFT JOIN public.projects proj ON proj.project_id = d.project_id
+  WHERE d.donation_id = p_donation_id
+  LIMIT 1;
+$$;
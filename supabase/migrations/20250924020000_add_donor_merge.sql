@@ -0,0 +1,321 @@
+-- supabase/migrations/20250924020000_add_donor_merge.sql
+-- Purpose: Find donors recorded twice and merge them into one donor number.
+--
+-- - find_duplicate_donors() scores pairs of donors on CNIC/NTN, phone, name and address, using
+--   the portal profile or, for donors without an account, the donor record (public.donor_contacts).
+-- - merge_donors() moves donations, donation requests and pledges from the duplicate to the
+--   surviving donor, deletes the duplicate and writes a donor_merges audit row. Donations keep
+--   their receipt numbers; the API regenerates their PDFs with the surviving donor ID as new files,
+--   and the audit row keeps the path of each receipt PDF they replace.
+-- - Donations dated in a closed financial year cannot change donor (55000), so a merge touching
+--   them needs the year reopened first.
+
+-- 1) Audit trail
+CREATE TABLE IF NOT EXISTS public.donor_merges (
+  merge_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- No foreign keys to donors: the survivor may itself be merged away later
+  surviving_donor_id uuid NOT NULL,
+  surviving_donor_number text NOT NULL,
+  merged_donor_id uuid NOT NULL,
+  merged_donor_number text NOT NULL,
+  merged_donor jsonb NOT NULL, -- the duplicate's donor record and contact details as they were
+  reason text NOT NULL CHECK (btrim(reason) <> ''),
+  moved_donation_ids uuid[] NOT NULL DEFAULT '{}',
+  superseded_receipt_paths jsonb NOT NULL DEFAULT '{}', -- donation_id -> receipt PDF before the merge
+  moved_request_count int NOT NULL DEFAULT 0,
+  moved_pledge_count int NOT NULL DEFAULT 0,
+  dropped_statement_years int[] NOT NULL DEFAULT '{}',
+  merged_by uuid NOT NULL REFERENCES auth.users(id),
+  merged_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_donor_merges_surviving ON public.donor_merges(surviving_donor_id);
+
+ALTER TABLE public.donor_merges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS donor_merges_admin_select ON public.donor_merges;
+CREATE POLICY donor_merges_admin_select ON public.donor_merges
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+COMMENT ON TABLE public.donor_merges IS 'Duplicate donor records merged into a surviving donor, with what was moved.';
+
+-- 2) RPC: likely duplicates (admin only)
+-- Score: CNIC or NTN 50, phone 30, name 25, street and city 15 (capped at 100).
+CREATE OR REPLACE FUNCTION public.find_duplicate_donors(p_min_score int DEFAULT 40)
+RETURNS TABLE (
+  donor_a_id uuid,
+  donor_a_number text,
+  donor_a_name text,
+  donor_a_phone text,
+  donor_a_email text,
+  donor_a_has_account boolean,
+  donor_a_donation_count bigint,
+  donor_b_id uuid,
+  donor_b_number text,
+  donor_b_name text,
+  donor_b_phone text,
+  donor_b_email text,
+  donor_b_has_account boolean,
+  donor_b_donation_count bigint,
+  score int,
+  reasons text[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can look for duplicate donors' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH k AS (
+    SELECT
+      c.donor_id,
+      c.donor_number,
+      c.full_name,
+      c.phone_number,
+      c.email,
+      c.user_id IS NOT NULL AS has_account,
+      NULLIF(regexp_replace(COALESCE(c.cnic_number, ''), '\D', '', 'g'), '') AS cnic_key,
+      NULLIF(regexp_replace(COALESCE(c.ntn, ''), '\D', '', 'g'), '') AS ntn_key,
+      CASE
+        WHEN length(regexp_replace(COALESCE(c.phone_number, ''), '\D', '', 'g')) >= 10
+          THEN right(regexp_replace(c.phone_number, '\D', '', 'g'), 10)
+      END AS phone_key,
+      NULLIF(btrim(regexp_replace(lower(COALESCE(c.full_name, '')), '[^a-z0-9]+', ' ', 'g')), '') AS name_key,
+      CASE
+        WHEN jsonb_typeof(c.address) = 'object'
+          AND NULLIF(btrim(c.address->>'street'), '') IS NOT NULL
+          AND NULLIF(btrim(c.address->>'city'), '') IS NOT NULL
+        THEN regexp_replace(lower((c.address->>'street') || ' ' || (c.address->>'city')), '[^a-z0-9]+', '', 'g')
+      END AS address_key
+    FROM public.donor_contacts c
+  ),
+  pairs AS (
+    SELECT
+      a.*,
+      b.donor_id AS b_donor_id,
+      b.donor_number AS b_donor_number,
+      b.full_name AS b_full_name,
+      b.phone_number AS b_phone_number,
+      b.email AS b_email,
+      b.has_account AS b_has_account,
+      (a.cnic_key = b.cnic_key OR a.ntn_key = b.ntn_key) AS same_id,
+      a.phone_key = b.phone_key AS same_phone,
+      a.name_key = b.name_key AS same_name,
+      a.address_key = b.address_key AS same_address
+    FROM k a
+    JOIN k b
+      ON a.donor_id < b.donor_id
+     AND (a.cnic_key = b.cnic_key OR a.ntn_key = b.ntn_key OR a.phone_key = b.phone_key OR a.name_key = b.name_key)
+  ),
+  scored AS (
+    SELECT
+      pr.*,
+      LEAST(100,
+        CASE WHEN pr.same_id THEN 50 ELSE 0 END
+        + CASE WHEN pr.same_phone THEN 30 ELSE 0 END
+        + CASE WHEN pr.same_name THEN 25 ELSE 0 END
+        + CASE WHEN pr.same_address THEN 15 ELSE 0 END
+      ) AS pair_score,
+      array_remove(ARRAY[
+        CASE WHEN pr.same_id THEN 'Same CNIC/NTN' END,
+        CASE WHEN pr.same_phone THEN 'Same phone' END,
+        CASE WHEN pr.same_name THEN 'Same name' END,
+        CASE WHEN pr.same_address THEN 'Same address' END
+      ], NULL) AS pair_reasons
+    FROM pairs pr
+  )
+  SELECT
+    s.donor_id,
+    s.donor_number,
+    s.full_name,
+    s.phone_number,
+    s.email,
+    s.has_account,
+    (SELECT count(*) FROM public.donations d WHERE d.donor_id = s.donor_id),
+    s.b_donor_id,
+    s.b_donor_number,
+    s.b_full_name,
+    s.b_phone_number,
+    s.b_email,
+    s.b_has_account,
+    (SELECT count(*) FROM public.donations d WHERE d.donor_id = s.b_donor_id),
+    s.pair_score,
+    s.pair_reasons
+  FROM scored s
+  WHERE s.pair_score >= COALESCE(p_min_score, 40)
+  ORDER BY s.pair_score DESC, s.donor_number
+  LIMIT 200;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.find_duplicate_donors(int) TO authenticated;
+
+-- 3) RPC: merge a duplicate into the surviving donor (admin only)
+CREATE OR REPLACE FUNCTION public.merge_donors(
+  p_surviving_donor_id uuid,
+  p_merged_donor_id uuid,
+  p_reason text
+)
+RETURNS public.donor_merges
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_surviving public.donors;
+  v_merged public.donors;
+  v_snapshot jsonb;
+  v_donation_ids uuid[];
+  v_receipt_paths jsonb;
+  v_request_count int;
+  v_pledge_count int;
+  v_statement_years int[];
+  v_merge public.donor_merges;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge donors' USING ERRCODE = '42501';
+  END IF;
+  IF NULLIF(btrim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required' USING ERRCODE = '22023';
+  END IF;
+  IF p_surviving_donor_id = p_merged_donor_id THEN
+    RAISE EXCEPTION 'A donor cannot be merged into itself' USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock both rows in a fixed order so two concurrent merges cannot deadlock
+  PERFORM 1 FROM public.donors
+  WHERE donor_id IN (p_surviving_donor_id, p_merged_donor_id)
+  ORDER BY donor_id
+  FOR UPDATE;
+
+  SELECT * INTO v_surviving FROM public.donors WHERE donor_id = p_surviving_donor_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Surviving donor not found' USING ERRCODE = 'P0002';
+  END IF;
+  SELECT * INTO v_merged FROM public.donors WHERE donor_id = p_merged_donor_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Duplicate donor not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT to_jsonb(v_merged) || jsonb_build_object('contact', to_jsonb(c) - 'donor_id')
+  INTO v_snapshot
+  FROM public.donor_contacts c
+  WHERE c.donor_id = p_merged_donor_id;
+
+  -- Raises 55000 for donations dated in a closed financial year (guard_donation_period)
+  WITH moved AS (
+    UPDATE public.donations
+    SET donor_id = v_surviving.donor_id,
+        donor_human_id = v_surviving.donor_number
+    WHERE donor_id = v_merged.donor_id
+    RETURNING donation_id, receipt_pdf_path
+  )
+  SELECT
+    COALESCE(array_agg(donation_id), '{}'),
+    COALESCE(jsonb_object_agg(donation_id, receipt_pdf_path) FILTER (WHERE receipt_pdf_path IS NOT NULL), '{}')
+  INTO v_donation_ids, v_receipt_paths
+  FROM moved;
+
+  UPDATE public.donation_requests
+  SET donor_id = v_surviving.donor_id
+  WHERE donor_id = v_merged.donor_id;
+  GET DIAGNOSTICS v_request_count = ROW_COUNT;
+
+  UPDATE public.donation_pledges
+  SET donor_id = v_surviving.donor_id
+  WHERE donor_id = v_merged.donor_id;
+  GET DIAGNOSTICS v_pledge_count = ROW_COUNT;
+
+  -- The duplicate's stored statements go with it; those years need regenerating for the survivor
+  SELECT COALESCE(array_agg(financial_year ORDER BY financial_year), '{}') INTO v_statement_years
+  FROM public.donor_statements
+  WHERE donor_id = v_merged.donor_id;
+
+  DELETE FROM public.donors WHERE donor_id = v_merged.donor_id;
+
+  -- Keep the portal login working when only the duplicate had one
+  IF v_surviving.user_id IS NULL AND v_merged.user_id IS NOT NULL THEN
+    UPDATE public.donors
+    SET user_id = v_merged.user_id,
+        linked_at = now(),
+        linked_by = auth.uid()
+    WHERE donor_id = v_surviving.donor_id;
+  ELSIF v_merged.user_id IS NOT NULL THEN
+    UPDATE public.user_roles
+    SET is_donor = FALSE,
+        updated_at = now()
+    WHERE user_id = v_merged.user_id;
+  END IF;
+
+  INSERT INTO public.donor_merges (
+    surviving_donor_id, surviving_donor_number, merged_donor_id, merged_donor_number, merged_donor, reason,
+    moved_donation_ids, superseded_receipt_paths, moved_request_count, moved_pledge_count, dropped_statement_years, merged_by
+  ) VALUES (
+    v_surviving.donor_id, v_surviving.donor_number, v_merged.donor_id, v_merged.donor_number, v_snapshot, btrim(p_reason),
+    v_donation_ids, v_receipt_paths, v_request_count, v_pledge_count, v_statement_years, auth.uid()
+  ) RETURNING * INTO v_merge;
+
+  RETURN v_merge;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_donors(uuid, uuid, text) TO authenticated;
+
+-- 4) RPC: merge history (admin only)
+CREATE OR REPLACE FUNCTION public.list_donor_merges(p_limit int DEFAULT 50)
+RETURNS TABLE (
+  merge_id uuid,
+  surviving_donor_number text,
+  surviving_donor_name text,
+  merged_donor_number text,
+  merged_donor_name text,
+  reason text,
+  moved_donation_count int,
+  moved_request_count int,
+  moved_pledge_count int,
+  dropped_statement_years int[],
+  merged_by_name text,
+  merged_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view donor merges' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.merge_id,
+    m.surviving_donor_number,
+    c.full_name,
+    m.merged_donor_number,
+    m.merged_donor->'contact'->>'full_name',
+    m.reason,
+    COALESCE(array_length(m.moved_donation_ids, 1), 0),
+    m.moved_request_count,
+    m.moved_pledge_count,
+    m.dropped_statement_years,
+    pr.full_name,
+    m.merged_at
+  FROM public.donor_merges m
+  LEFT JOIN public.donor_contacts c ON c.donor_id = m.surviving_donor_id
+  LEFT JOIN public.profiles pr ON pr.user_id = m.merged_by
+  ORDER BY m.merged_at DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 500);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_donor_merges(int) TO authenticated;
@@ -0,0 +1,550 @@
+-- supabase/migrations/20250924030000_add_campaigns.sql
+-- Purpose: Time-boxed fundraising campaigns (e.g. Ramadan, flood relief, winter drives).
+--
+-- - A campaign has a name, a PKR goal, a start/end date window and optionally a set of linked
+--   projects. Campaigns cut across projects; with no linked projects any project may be used.
+-- - A donation request can name a campaign. Its donation date must fall inside the campaign window
+--   and its project must be one of the linked projects (when there are any).
+-- - Approved donations count towards a campaign through donations.donation_request_id. Raised is
+--   the PKR total (base_amount) of cash donations; donated goods are reported separately.
+-- - A campaign is Running while it is open and today is inside its window; closing it stops new
+--   requests from naming it but keeps its history.
+
+-- 1) Campaigns and their linked projects
+CREATE TABLE IF NOT EXISTS public.campaigns (
+  campaign_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  description text,
+  goal_amount numeric(14,2) NOT NULL CHECK (goal_amount > 0),
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid NOT NULL REFERENCES public.profiles(user_id) ON DELETE RESTRICT,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  closed_by uuid REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  closed_at timestamptz,
+  CHECK (end_date >= start_date)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS campaigns_name_key ON public.campaigns (lower(btrim(name)));
+
+CREATE TABLE IF NOT EXISTS public.campaign_projects (
+  campaign_id uuid NOT NULL REFERENCES public.campaigns(campaign_id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES public.projects(project_id) ON DELETE RESTRICT,
+  PRIMARY KEY (campaign_id, project_id)
+);
+
+ALTER TABLE public.campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.campaign_projects ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS campaigns_admin_select ON public.campaigns;
+CREATE POLICY campaigns_admin_select ON public.campaigns
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+DROP POLICY IF EXISTS campaign_projects_admin_select ON public.campaign_projects;
+CREATE POLICY campaign_projects_admin_select ON public.campaign_projects
+FOR SELECT TO authenticated
+USING (public.is_admin());
+
+COMMENT ON COLUMN public.campaigns.goal_amount IS 'Fundraising goal in PKR.';
+
+-- 2) Campaign on donation requests
+ALTER TABLE public.donation_requests
+  ADD COLUMN IF NOT EXISTS campaign_id uuid REFERENCES public.campaigns(campaign_id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_donation_requests_campaign ON public.donation_requests(campaign_id)
+  WHERE campaign_id IS NOT NULL;
+
+-- Checked whenever a request names a campaign or changes its date or project. Requests already
+-- tagged keep their campaign after it closes; only newly tagging a closed campaign is refused.
+CREATE OR REPLACE FUNCTION public.validate_donation_request_campaign()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_campaign public.campaigns;
+BEGIN
+  IF NEW.campaign_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_campaign FROM public.campaigns WHERE campaign_id = NEW.campaign_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT v_campaign.is_active
+     AND (TG_OP = 'INSERT' OR NEW.campaign_id IS DISTINCT FROM OLD.campaign_id) THEN
+    RAISE EXCEPTION 'Campaign "%" is closed', v_campaign.name USING ERRCODE = '22023';
+  END IF;
+
+  IF NEW.donation_date NOT BETWEEN v_campaign.start_date AND v_campaign.end_date THEN
+    RAISE EXCEPTION 'Campaign "%" runs from % to %; the donation date % is outside it',
+      v_campaign.name, v_campaign.start_date, v_campaign.end_date, NEW.donation_date
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.campaign_projects cp WHERE cp.campaign_id = NEW.campaign_id)
+     AND NOT EXISTS (
+       SELECT 1 FROM public.campaign_projects cp
+       WHERE cp.campaign_id = NEW.campaign_id AND cp.project_id = NEW.project_id
+     ) THEN
+    RAISE EXCEPTION 'The project is not part of campaign "%"', v_campaign.name USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_donation_requests_campaign ON public.donation_requests;
+CREATE TRIGGER trg_donation_requests_campaign
+BEFORE INSERT OR UPDATE OF campaign_id, donation_date, project_id ON public.donation_requests
+FOR EACH ROW EXECUTE FUNCTION public.validate_donation_request_campaign();
+
+-- 3) Request creation accepts a campaign
+DROP FUNCTION IF EXISTS public.create_donation_request(text, numeric, public.enum_donation_currency, text, text, public.enum_payment_mode, public.enum_donation_type, date, text);
+
+CREATE OR REPLACE FUNCTION public.create_donation_request(
+  p_donor_number text,
+  p_amount numeric,
+  p_currency public.enum_donation_currency,
+  p_category_name text,
+  p_project_name text,
+  p_mode_of_payment public.enum_payment_mode,
+  p_donation_type public.enum_donation_type,
+  p_donation_date date,
+  p_transaction_id text DEFAULT NULL,
+  p_campaign_id uuid DEFAULT NULL
+)
+RETURNS public.donation_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_req public.donation_requests;
+  v_current_user uuid := auth.uid();
+  v_donor_id uuid;
+  v_category_id uuid;
+  v_project_id uuid;
+BEGIN
+  IF v_current_user IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Admins only can create donation requests
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create donation requests' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT donor_id INTO v_donor_id
+  FROM public.donors
+  WHERE donor_number = p_donor_number
+  LIMIT 1;
+
+  IF v_donor_id IS NULL THEN
+    RAISE EXCEPTION 'Donor not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT donation_category_id INTO v_category_id
+  FROM public.donation_categories
+  WHERE donation_category_name = p_category_name
+    AND is_active = true
+  LIMIT 1;
+
+  IF v_category_id IS NULL THEN
+    RAISE EXCEPTION 'Category not found or inactive' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT project_id INTO v_project_id
+  FROM public.projects
+  WHERE project_name = p_project_name
+    AND is_active = true
+    AND donation_category_id = v_category_id
+  LIMIT 1;
+
+  IF v_project_id IS NULL THEN
+    RAISE EXCEPTION 'Project not found or inactive' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- The campaign window and projects are checked by trg_donation_requests_campaign
+  INSERT INTO public.donation_requests (
+    donor_id, amount, currency, category_id, project_id,
+    mode_of_payment, donation_type, donation_date, transaction_id, campaign_id,
+    status, created_by
+  ) VALUES (
+    v_donor_id, p_amount, p_currency, v_category_id, v_project_id,
+    p_mode_of_payment, p_donation_type, p_donation_date, p_transaction_id, p_campaign_id,
+    'Pending', v_current_user
+  )
+  RETURNING * INTO v_req;
+
+  RETURN v_req;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_donation_request(text, numeric, public.enum_donation_currency, text, text, public.enum_payment_mode, public.enum_donation_type, date, text, uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.create_donation_request(text, numeric, public.enum_donation_currency, text, text, public.enum_payment_mode, public.enum_donation_type, date, text, uuid) IS 'Creates a new donation request, optionally for a campaign. Admin-only. SECURITY DEFINER.';
+
+DROP FUNCTION IF EXISTS public.create_in_kind_donation_request(text, text, text, public.enum_donation_type, date, jsonb, text);
+
+CREATE OR REPLACE FUNCTION public.create_in_kind_donation_request(
+  p_donor_number text,
+  p_category_name text,
+  p_project_name text,
+  p_donation_type public.enum_donation_type,
+  p_donation_date date,
+  p_items jsonb,
+  p_valuation_notes text DEFAULT NULL,
+  p_campaign_id uuid DEFAULT NULL
+)
+RETURNS public.donation_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_req public.donation_requests;
+  v_donor_id uuid;
+  v_category_id uuid;
+  v_project_id uuid;
+  v_item jsonb;
+  v_line int := 0;
+  v_total numeric := 0;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create donation requests' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required' USING ERRCODE = '22023';
+  END IF;
+  IF jsonb_array_length(p_items) > 100 THEN
+    RAISE EXCEPTION 'At most 100 items per donation' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT donor_id INTO v_donor_id
+  FROM public.donors
+  WHERE donor_number = p_donor_number
+  LIMIT 1;
+  IF v_donor_id IS NULL THEN
+    RAISE EXCEPTION 'Donor not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT donation_category_id INTO v_category_id
+  FROM public.donation_categories
+  WHERE donation_category_name = p_category_name
+    AND is_active = true
+  LIMIT 1;
+  IF v_category_id IS NULL THEN
+    RAISE EXCEPTION 'Category not found or inactive' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT project_id INTO v_project_id
+  FROM public.projects
+  WHERE project_name = p_project_name
+    AND is_active = true
+    AND donation_category_id = v_category_id
+  LIMIT 1;
+  IF v_project_id IS NULL THEN
+    RAISE EXCEPTION 'Project not found or inactive' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Validate every line before writing anything
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    v_line := v_line + 1;
+    IF NULLIF(btrim(v_item->>'description'), '') IS NULL OR NULLIF(btrim(v_item->>'unit'), '') IS NULL THEN
+      RAISE EXCEPTION 'Item %: description and unit are required', v_line USING ERRCODE = '22023';
+    END IF;
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::numeric <= 0 THEN
+      RAISE EXCEPTION 'Item %: quantity must be greater than 0', v_line USING ERRCODE = '22023';
+    END IF;
+    IF jsonb_typeof(v_item->'estimated_value') <> 'number' OR (v_item->>'estimated_value')::numeric < 0 THEN
+      RAISE EXCEPTION 'Item %: estimated value must be 0 or more', v_line USING ERRCODE = '22023';
+    END IF;
+    v_total := v_total + round((v_item->>'estimated_value')::numeric, 2);
+  END LOOP;
+
+  IF v_total <= 0 THEN
+    RAISE EXCEPTION 'The estimated value of the items must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.donation_requests (
+    donor_id, amount, currency, category_id, project_id,
+    mode_of_payment, donation_type, donation_date, valuation_notes, campaign_id,
+    status, created_by
+  ) VALUES (
+    v_donor_id, v_total, 'PKR', v_category_id, v_project_id,
+    'InKind', p_donation_type, p_donation_date, NULLIF(btrim(p_valuation_notes), ''), p_campaign_id,
+    'Pending', v_actor
+  )
+  RETURNING * INTO v_req;
+
+  INSERT INTO public.donation_request_items (
+    donation_request_id, line_no, description, quantity, unit, estimated_value
+  )
+  SELECT
+    v_req.donation_request_id,
+    e.ordinality::int,
+    btrim(e.value->>'description'),
+    (e.value->>'quantity')::numeric,
+    btrim(e.value->>'unit'),
+    round((e.value->>'estimated_value')::numeric, 2)
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS e(value, ordinality);
+
+  RETURN v_req;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_in_kind_donation_request(text, text, text, public.enum_donation_type, date, jsonb, text, uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.create_in_kind_donation_request(text, text, text, public.enum_donation_type, date, jsonb, text, uuid) IS 'Creates a pending in-kind donation request with its item lines, optionally for a campaign; the amount is their total estimated value. Admin-only.';
+
+-- 4) RPC: create a campaign with its linked projects
+CREATE OR REPLACE FUNCTION public.create_campaign(
+  p_name text,
+  p_goal_amount numeric,
+  p_start_date date,
+  p_end_date date,
+  p_description text DEFAULT NULL,
+  p_project_ids uuid[] DEFAULT '{}'
+)
+RETURNS public.campaigns
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_campaign public.campaigns;
+  v_project_ids uuid[] := COALESCE(p_project_ids, '{}');
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create campaigns' USING ERRCODE = '42501';
+  END IF;
+
+  IF NULLIF(btrim(p_name), '') IS NULL THEN
+    RAISE EXCEPTION 'A campaign name is required' USING ERRCODE = '22023';
+  END IF;
+  IF p_goal_amount IS NULL OR p_goal_amount <= 0 THEN
+    RAISE EXCEPTION 'The goal must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+  IF p_start_date IS NULL OR p_end_date IS NULL OR p_end_date < p_start_date THEN
+    RAISE EXCEPTION 'The end date must be on or after the start date' USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.campaigns c WHERE lower(btrim(c.name)) = lower(btrim(p_name))) THEN
+    RAISE EXCEPTION 'A campaign named "%" already exists', btrim(p_name) USING ERRCODE = '23505';
+  END IF;
+  IF (SELECT count(*) FROM public.projects p WHERE p.project_id = ANY (v_project_ids))
+     <> (SELECT count(DISTINCT x) FROM unnest(v_project_ids) AS x) THEN
+    RAISE EXCEPTION 'One or more linked projects were not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.campaigns (name, description, goal_amount, start_date, end_date, created_by)
+  VALUES (btrim(p_name), NULLIF(btrim(p_description), ''), round(p_goal_amount, 2), p_start_date, p_end_date, v_actor)
+  RETURNING * INTO v_campaign;
+
+  INSERT INTO public.campaign_projects (campaign_id, project_id)
+  SELECT DISTINCT v_campaign.campaign_id, x
+  FROM unnest(v_project_ids) AS x;
+
+  RETURN v_campaign;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_campaign(text, numeric, date, date, text, uuid[]) TO authenticated;
+
+-- 5) RPC: close or reopen a campaign
+CREATE OR REPLACE FUNCTION public.set_campaign_active(
+  p_campaign_id uuid,
+  p_is_active boolean
+)
+RETURNS public.campaigns
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_campaign public.campaigns;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can close campaigns' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.campaigns
+  SET is_active = p_is_active,
+      closed_by = CASE WHEN p_is_active THEN NULL ELSE v_actor END,
+      closed_at = CASE WHEN p_is_active THEN NULL ELSE now() END
+  WHERE campaign_id = p_campaign_id
+  RETURNING * INTO v_campaign;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_campaign;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_campaign_active(uuid, boolean) TO authenticated;
+
+-- 6) RPC: every campaign with its totals so far
+CREATE OR REPLACE FUNCTION public.list_campaigns()
+RETURNS TABLE (
+  campaign_id uuid,
+  name text,
+  description text,
+  goal_amount numeric,
+  start_date date,
+  end_date date,
+  is_active boolean,
+  status text,
+  projects jsonb,
+  raised numeric,
+  in_kind_value numeric,
+  donation_count int,
+  donor_count int,
+  percent_of_goal numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view campaigns' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH totals AS (
+    SELECT
+      r.campaign_id,
+      COALESCE(sum(d.base_amount) FILTER (WHERE d.mode_of_payment <> 'InKind'), 0) AS raised,
+      COALESCE(sum(d.base_amount) FILTER (WHERE d.mode_of_payment = 'InKind'), 0) AS in_kind_value,
+      count(d.donation_id)::int AS donation_count,
+      count(DISTINCT d.donor_id)::int AS donor_count
+    FROM public.donations d
+    JOIN public.donation_requests r ON r.donation_request_id = d.donation_request_id
+    WHERE r.campaign_id IS NOT NULL
+    GROUP BY r.campaign_id
+  )
+  SELECT
+    c.campaign_id,
+    c.name,
+    c.description,
+    c.goal_amount,
+    c.start_date,
+    c.end_date,
+    c.is_active,
+    CASE
+      WHEN NOT c.is_active THEN 'Closed'
+      WHEN current_date < c.start_date THEN 'Upcoming'
+      WHEN current_date > c.end_date THEN 'Ended'
+      ELSE 'Running'
+    END,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('project_id', p.project_id, 'project_name', p.project_name) ORDER BY p.project_name)
+      FROM public.campaign_projects cp
+      JOIN public.projects p ON p.project_id = cp.project_id
+      WHERE cp.campaign_id = c.campaign_id
+    ), '[]'::jsonb),
+    COALESCE(t.raised, 0),
+    COALESCE(t.in_kind_value, 0),
+    COALESCE(t.donation_count, 0),
+    COALESCE(t.donor_count, 0),
+    round(COALESCE(t.raised, 0) * 100 / c.goal_amount, 1)
+  FROM public.campaigns c
+  LEFT JOIN totals t ON t.campaign_id = c.campaign_id
+  ORDER BY (c.is_active AND current_date BETWEEN c.start_date AND c.end_date) DESC, c.start_date DESC, c.name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_campaigns() TO authenticated;
+
+-- 7) RPC: live progress of one campaign with a total for every day of its window up to today
+-- pending_requests counts requests for the campaign that are still awaiting approval.
+CREATE OR REPLACE FUNCTION public.get_campaign_progress(p_campaign_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_campaign public.campaigns;
+  v_summary jsonb;
+  v_daily jsonb;
+  v_pending_count int;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view campaigns' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_campaign FROM public.campaigns c WHERE c.campaign_id = p_campaign_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT to_jsonb(l) INTO v_summary
+  FROM public.list_campaigns() l
+  WHERE l.campaign_id = p_campaign_id;
+
+  WITH days AS (
+    SELECT g::date AS day
+    FROM generate_series(
+      v_campaign.start_date,
+      GREATEST(v_campaign.start_date, LEAST(v_campaign.end_date, current_date)),
+      interval '1 day'
+    ) AS g
+  ),
+  by_day AS (
+    SELECT
+      d.donation_date AS day,
+      sum(d.base_amount) FILTER (WHERE d.mode_of_payment <> 'InKind') AS amount,
+      sum(d.base_amount) FILTER (WHERE d.mode_of_payment = 'InKind') AS in_kind_value,
+      count(*)::int AS donations
+    FROM public.donations d
+    JOIN public.donation_requests r ON r.donation_request_id = d.donation_request_id
+    WHERE r.campaign_id = p_campaign_id
+    GROUP BY d.donation_date
+  )
+  SELECT jsonb_agg(to_jsonb(x) ORDER BY x.date) INTO v_daily
+  FROM (
+    SELECT
+      days.day AS date,
+      COALESCE(b.amount, 0) AS amount,
+      COALESCE(b.in_kind_value, 0) AS in_kind_value,
+      COALESCE(b.donations, 0) AS donations,
+      sum(COALESCE(b.amount, 0)) OVER (ORDER BY days.day) AS cumulative
+    FROM days
+    LEFT JOIN by_day b ON b.day = days.day
+  ) x;
+
+  SELECT count(*) INTO v_pending_count
+  FROM public.donation_requests r
+  WHERE r.campaign_id = p_campaign_id
+    AND r.status = 'Pending';
+
+  RETURN v_summary || jsonb_build_object(
+    'daily', COALESCE(v_daily, '[]'::jsonb),
+    'pending_requests', v_pending_count
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_campaign_progress(uuid) TO authenticated;
@@ -0,0 +1,437 @@
+-- supabase/migrations/20250924040000_add_tribute_donations.sql
+-- Purpose: Record donations made in memory of, in honour of or on behalf of someone.
+--
+-- - A request can carry a tribute: its type, the honoree's name and, optionally, who should be
+--   told about the gift (name, email, postal address).
+-- - The tribute stays on the request; approved donations reach it through donation_request_id,
+--   the same way campaign attribution works.
+-- - Receipts print the tribute line, and admins can download an acknowledgement letter for the
+--   honoree's family from the approved donations list.
+
+-- 1) Tribute fields on donation requests
+DO $$ BEGIN
+  CREATE TYPE public.enum_tribute_type AS ENUM ('InMemoryOf', 'InHonourOf', 'OnBehalfOf');
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+ALTER TABLE public.donation_requests
+  ADD COLUMN IF NOT EXISTS tribute_type public.enum_tribute_type,
+  ADD COLUMN IF NOT EXISTS tribute_name text,
+  ADD COLUMN IF NOT EXISTS tribute_notify_name text,
+  ADD COLUMN IF NOT EXISTS tribute_notify_email text,
+  ADD COLUMN IF NOT EXISTS tribute_notify_address text;
+
+DO $$ BEGIN
+  ALTER TABLE public.donation_requests
+    ADD CONSTRAINT donation_requests_tribute_check CHECK (
+      CASE
+        WHEN tribute_type IS NULL THEN
+          tribute_name IS NULL AND tribute_notify_name IS NULL
+          AND tribute_notify_email IS NULL AND tribute_notify_address IS NULL
+        ELSE btrim(COALESCE(tribute_name, '')) <> ''
+      END
+    );
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+COMMENT ON COLUMN public.donation_requests.tribute_name IS 'Person the donation is made in memory of, in honour of or on behalf of.';
+COMMENT ON COLUMN public.donation_requests.tribute_notify_name IS 'Optional recipient of the acknowledgement letter (e.g. the honoree''s family).';
+
+-- 2) Helper: tribute type from the p_tribute argument of the create RPCs
+-- p_tribute is { type, name, notify_name?, notify_email?, notify_address? } or NULL for no tribute.
+CREATE OR REPLACE FUNCTION public.donation_tribute_type(p_tribute jsonb)
+RETURNS public.enum_tribute_type
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_type text := NULLIF(btrim(p_tribute->>'type'), '');
+BEGIN
+  IF v_type IS NULL THEN
+    IF NULLIF(btrim(p_tribute->>'name'), '') IS NOT NULL THEN
+      RAISE EXCEPTION 'Choose whether the donation is in memory of, in honour of or on behalf of %', btrim(p_tribute->>'name')
+        USING ERRCODE = '22023';
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  IF NOT v_type = ANY (enum_range(NULL::public.enum_tribute_type)::text[]) THEN
+    RAISE EXCEPTION 'Unknown tribute type %', v_type USING ERRCODE = '22023';
+  END IF;
+  IF NULLIF(btrim(p_tribute->>'name'), '') IS NULL THEN
+    RAISE EXCEPTION 'The honoree name is required for a tribute donation' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN v_type::public.enum_tribute_type;
+END;
+$$;
+
+-- 3) Request creation accepts a tribute
+DROP FUNCTION IF EXISTS public.create_donation_request(text, numeric, public.enum_donation_currency, text, text, public.enum_payment_mode, public.enum_donation_type, date, text, uuid);
+
+CREATE OR REPLACE FUNCTION public.create_donation_request(
+  p_donor_number text,
+  p_amount numeric,
+  p_currency public.enum_donation_currency,
+  p_category_name text,
+  p_project_name text,
+  p_mode_of_payment public.enum_payment_mode,
+  p_donation_type public.enum_donation_type,
+  p_donation_date date,
+  p_transaction_id text DEFAULT NULL,
+  p_campaign_id uuid DEFAULT NULL,
+  p_tribute jsonb DEFAULT NULL
+)
+RETURNS public.donation_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_req public.donation_requests;
+  v_current_user uuid := auth.uid();
+  v_donor_id uuid;
+  v_category_id uuid;
+  v_project_id uuid;
+  v_tribute_type public.enum_tribute_type;
+BEGIN
+  IF v_current_user IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Admins only can create donation requests
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create donation requests' USING ERRCODE = '42501';
+  END IF;
+
+  v_tribute_type := public.donation_tribute_type(p_tribute);
+
+  SELECT donor_id INTO v_donor_id
+  FROM public.donors
+  WHERE donor_number = p_donor_number
+  LIMIT 1;
+
+  IF v_donor_id IS NULL THEN
+    RAISE EXCEPTION 'Donor not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT donation_category_id INTO v_category_id
+  FROM public.donation_categories
+  WHERE donation_category_name = p_category_name
+    AND is_active = true
+  LIMIT 1;
+
+  IF v_category_id IS NULL THEN
+    RAISE EXCEPTION 'Category not found or inactive' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT project_id INTO v_project_id
+  FROM public.projects
+  WHERE project_name = p_project_name
+    AND is_active = true
+    AND donation_category_id = v_category_id
+  LIMIT 1;
+
+  IF v_project_id IS NULL THEN
+    RAISE EXCEPTION 'Project not found or inactive' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- The campaign window and projects are checked by trg_donation_requests_campaign
+  INSERT INTO public.donation_requests (
+    donor_id, amount, currency, category_id, project_id,
+    mode_of_payment, donation_type, donation_date, transaction_id, campaign_id,
+    tribute_type, tribute_name, tribute_notify_name, tribute_notify_email, tribute_notify_address,
+    status, created_by
+  ) VALUES (
+    v_donor_id, p_amount, p_currency, v_category_id, v_project_id,
+    p_mode_of_payment, p_donation_type, p_donation_date, p_transaction_id, p_campaign_id,
+    v_tribute_type, NULLIF(btrim(p_tribute->>'name'), ''), NULLIF(btrim(p_tribute->>'notify_name'), ''),
+    NULLIF(btrim(p_tribute->>'notify_email'), ''), NULLIF(btrim(p_tribute->>'notify_address'), ''),
+    'Pending', v_current_user
+  )
+  RETURNING * INTO v_req;
+
+  RETURN v_req;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_donation_request(text, numeric, public.enum_donation_currency, text, text, public.enum_payment_mode, public.enum_donation_type, date, text, uuid, jsonb) TO authenticated;
+
+COMMENT ON FUNCTION public.create_donation_request(text, numeric, public.enum_donation_currency, text, text, public.enum_payment_mode, public.enum_donation_type, date, text, uuid, jsonb) IS 'Creates a new donation request, optionally for a campaign and as a tribute. Admin-only. SECURITY DEFINER.';
+
+DROP FUNCTION IF EXISTS public.create_in_kind_donation_request(text, text, text, public.enum_donation_type, date, jsonb, text, uuid);
+
+CREATE OR REPLACE FUNCTION public.create_in_kind_donation_request(
+  p_donor_number text,
+  p_category_name text,
+  p_project_name text,
+  p_donation_type public.enum_donation_type,
+  p_donation_date date,
+  p_items jsonb,
+  p_valuation_notes text DEFAULT NULL,
+  p_campaign_id uuid DEFAULT NULL,
+  p_tribute jsonb DEFAULT NULL
+)
+RETURNS public.donation_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_req public.donation_requests;
+  v_donor_id uuid;
+  v_category_id uuid;
+  v_project_id uuid;
+  v_item jsonb;
+  v_line int := 0;
+  v_total numeric := 0;
+  v_tribute_type public.enum_tribute_type;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create donation requests' USING ERRCODE = '42501';
+  END IF;
+
+  v_tribute_type := public.donation_tribute_type(p_tribute);
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required' USING ERRCODE = '22023';
+  END IF;
+  IF jsonb_array_length(p_items) > 100 THEN
+    RAISE EXCEPTION 'At most 100 items per donation' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT donor_id INTO v_donor_id
+  FROM public.donors
+  WHERE donor_number = p_donor_number
+  LIMIT 1;
+  IF v_donor_id IS NULL THEN
+    RAISE EXCEPTION 'Donor not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT donation_category_id INTO v_category_id
+  FROM public.donation_categories
+  WHERE donation_category_name = p_category_name
+    AND is_active = true
+  LIMIT 1;
+  IF v_category_id IS NULL THEN
+    RAISE EXCEPTION 'Category not found or inactive' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT project_id INTO v_project_id
+  FROM public.projects
+  WHERE project_name = p_project_name
+    AND is_active = true
+    AND donation_category_id = v_category_id
+  LIMIT 1;
+  IF v_project_id IS NULL THEN
+    RAISE EXCEPTION 'Project not found or inactive' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Validate every line before writing anything
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    v_line := v_line + 1;
+    IF NULLIF(btrim(v_item->>'description'), '') IS NULL OR NULLIF(btrim(v_item->>'unit'), '') IS NULL THEN
+      RAISE EXCEPTION 'Item %: description and unit are required', v_line USING ERRCODE = '22023';
+    END IF;
+    IF jsonb_typeof(v_item->'quantity') <> 'number' OR (v_item->>'quantity')::numeric <= 0 THEN
+      RAISE EXCEPTION 'Item %: quantity must be greater than 0', v_line USING ERRCODE = '22023';
+    END IF;
+    IF jsonb_typeof(v_item->'estimated_value') <> 'number' OR (v_item->>'estimated_value')::numeric < 0 THEN
+      RAISE EXCEPTION 'Item %: estimated value must be 0 or more', v_line USING ERRCODE = '22023';
+    END IF;
+    v_total := v_total + round((v_item->>'estimated_value')::numeric, 2);
+  END LOOP;
+
+  IF v_total <= 0 THEN
+    RAISE EXCEPTION 'The estimated value of the items must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.donation_requests (
+    donor_id, amount, currency, category_id, project_id,
+    mode_of_payment, donation_type, donation_date, valuation_notes, campaign_id,
+    tribute_type, tribute_name, tribute_notify_name, tribute_notify_email, tribute_notify_address,
+    status, created_by
+  ) VALUES (
+    v_donor_id, v_total, 'PKR', v_category_id, v_project_id,
+    'InKind', p_donation_type, p_donation_date, NULLIF(btrim(p_valuation_notes), ''), p_campaign_id,
+    v_tribute_type, NULLIF(btrim(p_tribute->>'name'), ''), NULLIF(btrim(p_tribute->>'notify_name'), ''),
+    NULLIF(btrim(p_tribute->>'notify_email'), ''), NULLIF(btrim(p_tribute->>'notify_address'), ''),
+    'Pending', v_actor
+  )
+  RETURNING * INTO v_req;
+
+  INSERT INTO public.donation_request_items (
+    donation_request_id, line_no, description, quantity, unit, estimated_value
+  )
+  SELECT
+    v_req.donation_request_id,
+    e.ordinality::int,
+    btrim(e.value->>'description'),
+    (e.value->>'quantity')::numeric,
+    btrim(e.value->>'unit'),
+    round((e.value->>'estimated_value')::numeric, 2)
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS e(value, ordinality);
+
+  RETURN v_req;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_in_kind_donation_request(text, text, text, public.enum_donation_type, date, jsonb, text, uuid, jsonb) TO authenticated;
+
+COMMENT ON FUNCTION public.create_in_kind_donation_request(text, text, text, public.enum_donation_type, date, jsonb, text, uuid, jsonb) IS 'Creates a pending in-kind donation request with its item lines, optionally for a campaign and as a tribute; the amount is their total estimated value. Admin-only.';
+
+-- 4) Receipt details include the tribute (printed on the receipt and used for the letter)
+DROP FUNCTION IF EXISTS public.get_donation_receipt_details(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_donation_receipt_details(p_donation_id uuid)
+RETURNS TABLE (
+  donation_id uuid,
+  donor_human_id text,
+  donor_name text,
+  phone_number text,
+  address text,
+  amount numeric,
+  currency public.enum_donation_currency,
+  exchange_rate numeric,
+  base_amount numeric,
+  donation_date date,
+  payment_method public.enum_payment_mode,
+  transaction_id text,
+  category_name text,
+  project_name text,
+  donation_type public.enum_donation_type,
+  approved_by_name text,
+  receipt_number text,
+  tribute_type public.enum_tribute_type,
+  tribute_name text,
+  tribute_notify_name text,
+  tribute_notify_email text,
+  tribute_notify_address text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can fetch receipt details.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.donation_id,
+    dn.donor_number AS donor_human_id,
+    COALESCE(p.full_name, 'N/A') AS donor_name,
+    COALESCE(p.phone_number, 'N/A') AS phone_number,
+    COALESCE(
+      CASE
+        WHEN jsonb_typeof(p.address) = 'object' THEN
+          TRIM(BOTH ', ' FROM
+            CONCAT_WS(', ',
+              NULLIF(p.address->>'street', ''),
+              NULLIF(p.address->>'city', ''),
+              NULLIF(p.address->>'state', ''),
+              NULLIF(p.address->>'country', ''),
+              NULLIF(p.address->>'postalCode', '')
+            )
+          )
+        ELSE 'N/A'
+      END,
+      'N/A'
+    ) AS address,
+    d.amount,
+    d.currency,
+    d.exchange_rate,
+    d.base_amount,
+    d.donation_date,
+    d.mode_of_payment AS payment_method,
+    COALESCE(d.transaction_id, 'N/A') AS transaction_id,
+    COALESCE(dc.donation_category_name, 'N/A') AS category_name,
+    COALESCE(proj.project_name, 'N/A') AS project_name,
+    d.donation_type,
+    COALESCE(approver_p.full_name, 'N/A') AS approved_by_name,
+    d.receipt_number,
+    r.tribute_type,
+    r.tribute_name,
+    r.tribute_notify_name,
+    r.tribute_notify_email,
+    r.tribute_notify_address
+  FROM public.donations d
+  LEFT JOIN public.donors dn ON d.donor_id = dn.donor_id
+  LEFT JOIN public.donor_contacts p ON p.donor_id = dn.donor_id
+  LEFT JOIN public.donation_categories dc ON d.category_id = dc.donation_category_id
+  LEFT JOIN public.projects proj ON d.project_id = proj.project_id
+  LEFT JOIN public.profiles approver_p ON d.approved_by = approver_p.user_id
+  LEFT JOIN public.donation_requests r ON r.donation_request_id = d.donation_request_id
+  WHERE d.donation_id = p_donation_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_donation_receipt_details(uuid) TO authenticated;
+
+-- 5) Approved donations list shows the tribute so the letter can be offered
+DROP FUNCTION IF EXISTS public.list_approved_donations(int);
+
+CREATE OR REPLACE FUNCTION public.list_approved_donations(p_limit int DEFAULT 100)
+RETURNS TABLE (
+  donation_id uuid,
+  donation_human_id text,
+  receipt_number text,
+  donor_number text,
+  donor_name text,
+  amount numeric,
+  currency public.enum_donation_currency,
+  base_amount numeric,
+  category_name text,
+  project_name text,
+  donation_type public.enum_donation_type,
+  donation_date date,
+  approved_at timestamptz,
+  receipt_pdf_path text,
+  correction_count bigint,
+  tribute_type public.enum_tribute_type,
+  tribute_name text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can list donations.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.donation_id,
+    d.donation_human_id,
+    d.receipt_number,
+    dn.donor_number,
+    COALESCE(pr.full_name, '') AS donor_name,
+    d.amount,
+    d.currency,
+    d.base_amount,
+    dc.donation_category_name AS category_name,
+    p.project_name,
+    d.donation_type,
+    d.donation_date,
+    d.approved_at,
+    d.receipt_pdf_path,
+    (SELECT COUNT(*) FROM public.donation_corrections c WHERE c.donation_id = d.donation_id) AS correction_count,
+    r.tribute_type,
+    r.tribute_name
+  FROM public.donations d
+  JOIN public.donors dn ON dn.donor_id = d.donor_id
+  LEFT JOIN public.donor_contacts pr ON pr.donor_id = dn.donor_id
+  LEFT JOIN public.donation_categories dc ON dc.donation_category_id = d.category_id
+  LEFT JOIN public.projects p ON p.project_id = d.project_id
+  LEFT JOIN public.donation_requests r ON r.donation_request_id = d.donation_request_id
+  ORDER BY d.approved_at DESC
+  LIMIT GREATEST(COALESCE(p_limit, 100), 1);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_approved_donations(int) TO authenticated;
@@ -0,0 +1,396 @@
+-- supabase/migrations/20250924050000_add_volunteer_activity_logging.sql
+-- Purpose: Let volunteers log their hours against an event and let admins review them.
+--
+-- - Volunteers submit into volunteer_activity_requests (status 'pending') through
+--   submit_volunteer_activity(); the volunteer is always the caller's own volunteers row.
+-- - Admins review the queue with review_volunteer_activity_request():
+--     approved -> the request is copied into volunteer_activities (the contribution log),
+--     revised  -> sent back to the volunteer with comments; they edit and resubmit it,
+--     rejected -> closed with comments.
+-- - Both tables get RLS: volunteers read their own rows, admins read everything. Writes only
+--   happen through the RPCs below.
+
+-- 1) Review columns on requests and the link from an approved activity to its request
+ALTER TABLE public.volunteer_activity_requests
+  ADD COLUMN IF NOT EXISTS review_comments text,
+  ADD COLUMN IF NOT EXISTS reviewed_by uuid REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS reviewed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz;
+
+ALTER TABLE public.volunteer_activities
+  ADD COLUMN IF NOT EXISTS volunteer_activity_request_id uuid
+    REFERENCES public.volunteer_activity_requests(volunteer_activity_request_id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS volunteer_activities_request_uidx
+  ON public.volunteer_activities(volunteer_activity_request_id)
+  WHERE volunteer_activity_request_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS volunteer_activity_requests_status_idx
+  ON public.volunteer_activity_requests(volunteer_activity_status, created_at);
+CREATE INDEX IF NOT EXISTS volunteer_activity_requests_volunteer_idx
+  ON public.volunteer_activity_requests(volunteer_id);
+CREATE INDEX IF NOT EXISTS volunteer_activities_volunteer_idx
+  ON public.volunteer_activities(volunteer_id);
+
+COMMENT ON COLUMN public.volunteer_activity_requests.review_comments IS 'Latest reviewer comments; required when a request is sent back for revision or rejected.';
+COMMENT ON COLUMN public.volunteer_activities.volunteer_activity_request_id IS 'Request this activity was approved from.';
+
+-- 2) Sanity checks on logged numbers
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'volunteer_activity_requests_hours_check') THEN
+    ALTER TABLE public.volunteer_activity_requests
+      ADD CONSTRAINT volunteer_activity_requests_hours_check CHECK (hours_contributed > 0);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'volunteer_activity_requests_people_check') THEN
+    ALTER TABLE public.volunteer_activity_requests
+      ADD CONSTRAINT volunteer_activity_requests_people_check CHECK (people_helped IS NULL OR people_helped >= 0);
+  END IF;
+END $$;
+
+-- 3) RLS: own rows for volunteers, everything for admins
+ALTER TABLE public.volunteer_activity_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.volunteer_activities ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS volunteer_activity_requests_own_select ON public.volunteer_activity_requests;
+CREATE POLICY volunteer_activity_requests_own_select ON public.volunteer_activity_requests
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.volunteers v
+    WHERE v.volunteer_id = volunteer_activity_requests.volunteer_id AND v.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS volunteer_activity_requests_admin_select ON public.volunteer_activity_requests;
+CREATE POLICY volunteer_activity_requests_admin_select ON public.volunteer_activity_requests
+FOR SELECT
+TO authenticated
+USING (public.is_admin());
+
+DROP POLICY IF EXISTS volunteer_activities_own_select ON public.volunteer_activities;
+CREATE POLICY volunteer_activities_own_select ON public.volunteer_activities
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.volunteers v
+    WHERE v.volunteer_id = volunteer_activities.volunteer_id AND v.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS volunteer_activities_admin_select ON public.volunteer_activities;
+CREATE POLICY volunteer_activities_admin_select ON public.volunteer_activities
+FOR SELECT
+TO authenticated
+USING (public.is_admin());
+
+-- 4) Shared validation for submitted and resubmitted activity
+CREATE OR REPLACE FUNCTION public.validate_volunteer_activity(
+  p_event_id uuid,
+  p_hours_contributed integer,
+  p_people_helped integer
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.events;
+BEGIN
+  SELECT * INTO v_event FROM public.events WHERE event_id = p_event_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_event.event_status = 'cancelled' THEN
+    RAISE EXCEPTION 'Hours cannot be logged against a cancelled event' USING ERRCODE = '22023';
+  END IF;
+  IF v_event.start_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Hours cannot be logged before the event starts' USING ERRCODE = '22023';
+  END IF;
+  IF p_hours_contributed IS NULL OR p_hours_contributed <= 0 THEN
+    RAISE EXCEPTION 'Hours contributed must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+  IF p_people_helped IS NOT NULL AND p_people_helped < 0 THEN
+    RAISE EXCEPTION 'People helped cannot be negative' USING ERRCODE = '22023';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.validate_volunteer_activity(uuid, integer, integer) FROM PUBLIC;
+
+-- 5) RPC: volunteer logs activity against an event
+CREATE OR REPLACE FUNCTION public.submit_volunteer_activity(
+  p_event_id uuid,
+  p_hours_contributed integer,
+  p_type_of_activity public.type_of_activity,
+  p_people_helped integer,
+  p_site_status public.site_status,
+  p_description text DEFAULT NULL
+)
+RETURNS public.volunteer_activity_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_req public.volunteer_activity_requests;
+  v_volunteer_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT volunteer_id INTO v_volunteer_id FROM public.volunteers WHERE user_id = auth.uid();
+  IF v_volunteer_id IS NULL THEN
+    RAISE EXCEPTION 'Volunteer record not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM public.validate_volunteer_activity(p_event_id, p_hours_contributed, p_people_helped);
+
+  INSERT INTO public.volunteer_activity_requests (
+    volunteer_id, event_id, hours_contributed, type_of_activity, people_helped, site_status,
+    description, volunteer_activity_status, created_by
+  ) VALUES (
+    v_volunteer_id, p_event_id, p_hours_contributed, p_type_of_activity, p_people_helped, p_site_status,
+    NULLIF(TRIM(p_description), ''), 'pending', auth.uid()
+  ) RETURNING * INTO v_req;
+
+  RETURN v_req;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_volunteer_activity(uuid, integer, public.type_of_activity, integer, public.site_status, text) TO authenticated;
+
+-- 6) RPC: volunteer edits a request that was sent back and resubmits it
+-- The reviewer's comments stay on the row so the next reviewer can see what was asked for.
+CREATE OR REPLACE FUNCTION public.resubmit_volunteer_activity(
+  p_request_id uuid,
+  p_event_id uuid,
+  p_hours_contributed integer,
+  p_type_of_activity public.type_of_activity,
+  p_people_helped integer,
+  p_site_status public.site_status,
+  p_description text DEFAULT NULL
+)
+RETURNS public.volunteer_activity_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_req public.volunteer_activity_requests;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT r.* INTO v_req
+  FROM public.volunteer_activity_requests r
+  JOIN public.volunteers v ON v.volunteer_id = r.volunteer_id
+  WHERE r.volunteer_activity_request_id = p_request_id AND v.user_id = auth.uid()
+  FOR UPDATE OF r;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Activity request not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_req.volunteer_activity_status <> 'revised' THEN
+    RAISE EXCEPTION 'Only requests sent back for revision can be resubmitted' USING ERRCODE = '55000';
+  END IF;
+
+  PERFORM public.validate_volunteer_activity(p_event_id, p_hours_contributed, p_people_helped);
+
+  UPDATE public.volunteer_activity_requests
+  SET event_id = p_event_id,
+      hours_contributed = p_hours_contributed,
+      type_of_activity = p_type_of_activity,
+      people_helped = p_people_helped,
+      site_status = p_site_status,
+      description = NULLIF(TRIM(p_description), ''),
+      volunteer_activity_status = 'pending',
+      updated_at = now()
+  WHERE volunteer_activity_request_id = p_request_id
+  RETURNING * INTO v_req;
+
+  RETURN v_req;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resubmit_volunteer_activity(uuid, uuid, integer, public.type_of_activity, integer, public.site_status, text) TO authenticated;
+
+-- 7) RPC: the current volunteer's requests, newest first
+CREATE OR REPLACE FUNCTION public.get_my_volunteer_activity_requests()
+RETURNS TABLE (
+  volunteer_activity_request_id uuid,
+  event_id uuid,
+  event_name text,
+  event_start_date date,
+  hours_contributed integer,
+  type_of_activity public.type_of_activity,
+  people_helped integer,
+  site_status public.site_status,
+  description text,
+  volunteer_activity_status public.volunteer_activity_status,
+  review_comments text,
+  reviewed_at timestamptz,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.volunteer_activity_request_id, r.event_id, e.event_name, e.start_date, r.hours_contributed,
+         r.type_of_activity, r.people_helped, r.site_status, r.description, r.volunteer_activity_status,
+         r.review_comments, r.reviewed_at, r.created_at, r.updated_at
+  FROM public.volunteer_activity_requests r
+  JOIN public.volunteers v ON v.volunteer_id = r.volunteer_id
+  LEFT JOIN public.events e ON e.event_id = r.event_id
+  WHERE v.user_id = auth.uid()
+  ORDER BY COALESCE(r.updated_at, r.created_at) DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_my_volunteer_activity_requests() TO authenticated;
+
+-- 8) RPC: admin approval queue (NULL status lists every request)
+CREATE OR REPLACE FUNCTION public.list_volunteer_activity_requests(
+  p_status public.volunteer_activity_status DEFAULT 'pending'
+)
+RETURNS TABLE (
+  volunteer_activity_request_id uuid,
+  volunteer_id uuid,
+  volunteer_number text,
+  volunteer_name text,
+  volunteer_email text,
+  event_id uuid,
+  event_name text,
+  event_start_date date,
+  hours_contributed integer,
+  type_of_activity public.type_of_activity,
+  people_helped integer,
+  site_status public.site_status,
+  description text,
+  volunteer_activity_status public.volunteer_activity_status,
+  review_comments text,
+  reviewed_by_name text,
+  reviewed_at timestamptz,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can review volunteer activity' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.volunteer_activity_request_id,
+    r.volunteer_id,
+    v.volunteer_number,
+    COALESCE(p.full_name, 'Unknown') AS volunteer_name,
+    p.email AS volunteer_email,
+    r.event_id,
+    e.event_name,
+    e.start_date AS event_start_date,
+    r.hours_contributed,
+    r.type_of_activity,
+    r.people_helped,
+    r.site_status,
+    r.description,
+    r.volunteer_activity_status,
+    r.review_comments,
+    reviewer.full_name AS reviewed_by_name,
+    r.reviewed_at,
+    r.created_at,
+    r.updated_at
+  FROM public.volunteer_activity_requests r
+  LEFT JOIN public.volunteers v ON v.volunteer_id = r.volunteer_id
+  LEFT JOIN public.profiles p ON p.user_id = v.user_id
+  LEFT JOIN public.events e ON e.event_id = r.event_id
+  LEFT JOIN public.profiles reviewer ON reviewer.user_id = r.reviewed_by
+  WHERE p_status IS NULL OR r.volunteer_activity_status = p_status
+  -- Oldest first so the queue is worked in submission order
+  ORDER BY COALESCE(r.updated_at, r.created_at) ASC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_volunteer_activity_requests(public.volunteer_activity_status) TO authenticated;
+
+-- 9) RPC: admin decision on a pending request
+CREATE OR REPLACE FUNCTION public.review_volunteer_activity_request(
+  p_request_id uuid,
+  p_decision public.volunteer_activity_status,
+  p_comments text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_req public.volunteer_activity_requests;
+  v_comments text := NULLIF(TRIM(p_comments), '');
+  v_activity_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can review volunteer activity' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_decision IS NULL OR p_decision = 'pending' THEN
+    RAISE EXCEPTION 'Decision must be approved, revised or rejected' USING ERRCODE = '22023';
+  END IF;
+  IF p_decision IN ('revised', 'rejected') AND v_comments IS NULL THEN
+    RAISE EXCEPTION 'Comments are required when sending a request back or rejecting it' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_req
+  FROM public.volunteer_activity_requests
+  WHERE volunteer_activity_request_id = p_request_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Activity request not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_req.volunteer_activity_status IS DISTINCT FROM 'pending' THEN
+    RAISE EXCEPTION 'Activity request is not pending (status: %)', v_req.volunteer_activity_status USING ERRCODE = '55000';
+  END IF;
+
+  IF p_decision = 'approved' THEN
+    INSERT INTO public.volunteer_activities (
+      volunteer_id, event_id, hours_contributed, type_of_activity, people_helped, site_status,
+      description, approved_by, approved_at, volunteer_activity_request_id
+    ) VALUES (
+      v_req.volunteer_id, v_req.event_id, v_req.hours_contributed, v_req.type_of_activity, v_req.people_helped,
+      v_req.site_status, v_req.description, auth.uid(), now(), v_req.volunteer_activity_request_id
+    ) RETURNING volunteer_activity_id INTO v_activity_id;
+  END IF;
+
+  UPDATE public.volunteer_activity_requests
+  SET volunteer_activity_status = p_decision,
+      review_comments = v_comments,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      updated_at = now()
+  WHERE volunteer_activity_request_id = p_request_id;
+
+  RETURN jsonb_build_object(
+    'volunteer_activity_request_id', p_request_id,
+    'volunteer_activity_status', p_decision,
+    'volunteer_activity_id', v_activity_id
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_volunteer_activity_request(uuid, public.volunteer_activity_status, text) TO authenticated;
+
+COMMENT ON FUNCTION public.review_volunteer_activity_request(uuid, public.volunteer_activity_status, text) IS 'Approves (copying into volunteer_activities), sends back for revision or rejects a pending volunteer activity request. Admin-only.';
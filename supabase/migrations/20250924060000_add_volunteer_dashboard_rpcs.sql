@@ -0,0 +1,167 @@
+-- supabase/migrations/20250924060000_add_volunteer_dashboard_rpcs.sql
+-- Purpose: Back the volunteer dashboard with real data instead of mocked metrics.
+--
+-- Every function resolves the volunteer from auth.uid(), so a volunteer only ever sees their own
+-- approved activity (volunteer_activities). An activity counts towards the month/year of its
+-- event's start date, or of its approval when the event has been deleted.
+
+-- 1) RPC: headline metrics for the signed-in volunteer
+CREATE OR REPLACE FUNCTION public.get_volunteer_dashboard_metrics()
+RETURNS TABLE (
+  total_hours bigint,
+  hours_this_year bigint,
+  people_helped bigint,
+  events_attended_this_year bigint,
+  events_attended_total bigint,
+  pending_requests bigint,
+  revision_requests bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_volunteer_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT volunteer_id INTO v_volunteer_id FROM public.volunteers WHERE user_id = auth.uid();
+  IF v_volunteer_id IS NULL THEN
+    -- Not (yet) a volunteer: empty dashboard rather than an error
+    RETURN QUERY SELECT 0::bigint, 0::bigint, 0::bigint, 0::bigint, 0::bigint, 0::bigint, 0::bigint;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH acts AS (
+    SELECT a.event_id, a.hours_contributed, a.people_helped,
+           COALESCE(e.start_date, a.approved_at::date) AS activity_date
+    FROM public.volunteer_activities a
+    LEFT JOIN public.events e ON e.event_id = a.event_id
+    WHERE a.volunteer_id = v_volunteer_id
+  )
+  SELECT
+    COALESCE((SELECT SUM(hours_contributed) FROM acts), 0)::bigint,
+    COALESCE((SELECT SUM(hours_contributed) FROM acts
+              WHERE date_trunc('year', activity_date) = date_trunc('year', CURRENT_DATE)), 0)::bigint,
+    COALESCE((SELECT SUM(acts.people_helped) FROM acts), 0)::bigint,
+    (SELECT COUNT(DISTINCT event_id) FROM acts
+     WHERE date_trunc('year', activity_date) = date_trunc('year', CURRENT_DATE)),
+    (SELECT COUNT(DISTINCT event_id) FROM acts),
+    (SELECT COUNT(*) FROM public.volunteer_activity_requests r
+     WHERE r.volunteer_id = v_volunteer_id AND r.volunteer_activity_status = 'pending'),
+    (SELECT COUNT(*) FROM public.volunteer_activity_requests r
+     WHERE r.volunteer_id = v_volunteer_id AND r.volunteer_activity_status = 'revised');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_volunteer_dashboard_metrics() TO authenticated;
+
+COMMENT ON FUNCTION public.get_volunteer_dashboard_metrics() IS 'Approved hours, people helped and events attended for the signed-in volunteer, plus their open requests.';
+
+-- 2) RPC: approved hours per month of a year (12 rows, zero-filled)
+CREATE OR REPLACE FUNCTION public.get_volunteer_monthly_hours(p_year integer DEFAULT NULL)
+RETURNS TABLE (
+  month date,
+  hours bigint,
+  activities bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_volunteer_id uuid;
+  v_year_start date := make_date(COALESCE(p_year, EXTRACT(YEAR FROM CURRENT_DATE)::int), 1, 1);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT volunteer_id INTO v_volunteer_id FROM public.volunteers WHERE user_id = auth.uid();
+
+  RETURN QUERY
+  SELECT
+    m.month::date,
+    COALESCE(SUM(a.hours_contributed), 0)::bigint AS hours,
+    COUNT(a.volunteer_activity_id) AS activities
+  FROM generate_series(v_year_start, v_year_start + interval '11 months', interval '1 month') AS m(month)
+  LEFT JOIN (
+    SELECT va.volunteer_activity_id, va.hours_contributed,
+           COALESCE(e.start_date, va.approved_at::date) AS activity_date
+    FROM public.volunteer_activities va
+    LEFT JOIN public.events e ON e.event_id = va.event_id
+    WHERE va.volunteer_id = v_volunteer_id
+  ) a ON date_trunc('month', a.activity_date)::date = m.month::date
+  GROUP BY m.month
+  ORDER BY m.month;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_volunteer_monthly_hours(integer) TO authenticated;
+
+-- 3) RPC: active events that have not finished yet, soonest first
+CREATE OR REPLACE FUNCTION public.get_volunteer_upcoming_events(p_limit integer DEFAULT 10)
+RETURNS TABLE (
+  event_id uuid,
+  event_name text,
+  location text,
+  aim_of_event text,
+  start_date date,
+  end_date date,
+  site_status public.site_status,
+  volunteers_required integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  RETURN QUERY
+  SELECT e.event_id, e.event_name, e.location, e.aim_of_event, e.start_date, e.end_date,
+         e.site_status, e.volunteers_required
+  FROM public.events e
+  WHERE e.event_status = 'active'
+    AND COALESCE(e.end_date, e.start_date) >= CURRENT_DATE
+  ORDER BY e.start_date ASC, e.event_name
+  LIMIT GREATEST(COALESCE(p_limit, 10), 1);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_volunteer_upcoming_events(integer) TO authenticated;
+
+-- 4) RPC: events a volunteer can log hours against (started and not cancelled), latest first
+CREATE OR REPLACE FUNCTION public.get_volunteer_loggable_events()
+RETURNS TABLE (
+  event_id uuid,
+  event_name text,
+  start_date date,
+  end_date date,
+  site_status public.site_status
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  RETURN QUERY
+  SELECT e.event_id, e.event_name, e.start_date, e.end_date, e.site_status
+  FROM public.events e
+  WHERE e.event_status <> 'cancelled'
+    AND e.start_date <= CURRENT_DATE
+  ORDER BY e.start_date DESC, e.event_name
+  LIMIT 100;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_volunteer_loggable_events() TO authenticated;
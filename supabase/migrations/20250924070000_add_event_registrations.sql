@@ -0,0 +1,389 @@
+-- supabase/migrations/20250924070000_add_event_registrations.sql
+-- Purpose: Let volunteers sign up for events, capped at events.volunteers_required.
+--
+-- - One public.event_registrations row per (event, volunteer). Joining an active event registers
+--   the volunteer while slots are free and waitlists them once the event is full (a NULL
+--   volunteers_required means no limit).
+-- - Leaving frees the slot and the longest-waiting volunteer is promoted automatically. Raising
+--   volunteers_required promotes from the waitlist too.
+-- - Cancelling an event releases every open registration.
+-- - The event row is locked while capacity is checked so concurrent sign-ups cannot overfill it.
+
+-- 1) Registration status
+DO $$
+BEGIN
+  CREATE TYPE public.enum_event_registration_status AS ENUM ('registered', 'waitlisted', 'cancelled', 'released');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+-- 2) Registrations
+CREATE TABLE IF NOT EXISTS public.event_registrations (
+  registration_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(event_id) ON DELETE CASCADE,
+  volunteer_id uuid NOT NULL REFERENCES public.volunteers(volunteer_id) ON DELETE CASCADE,
+  status public.enum_event_registration_status NOT NULL,
+  queued_at timestamptz NOT NULL DEFAULT now(),
+  promoted_at timestamptz,
+  cancelled_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT event_registrations_event_volunteer_key UNIQUE (event_id, volunteer_id)
+);
+
+CREATE INDEX IF NOT EXISTS event_registrations_event_status_idx
+  ON public.event_registrations(event_id, status, queued_at);
+CREATE INDEX IF NOT EXISTS event_registrations_volunteer_idx
+  ON public.event_registrations(volunteer_id);
+
+COMMENT ON TABLE public.event_registrations IS 'Volunteer sign-ups for events; waitlisted rows are promoted in queued_at order.';
+COMMENT ON COLUMN public.event_registrations.queued_at IS 'When the volunteer (last) joined; orders the waitlist.';
+
+ALTER TABLE public.event_registrations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS event_registrations_own_select ON public.event_registrations;
+CREATE POLICY event_registrations_own_select ON public.event_registrations
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.volunteers v
+    WHERE v.volunteer_id = event_registrations.volunteer_id AND v.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS event_registrations_admin_select ON public.event_registrations;
+CREATE POLICY event_registrations_admin_select ON public.event_registrations
+FOR SELECT
+TO authenticated
+USING (public.is_admin());
+
+-- 3) Internal: fill free slots from the waitlist, oldest first. The caller holds the event lock.
+CREATE OR REPLACE FUNCTION public.promote_event_waitlist(p_event_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_capacity integer;
+  v_registered integer;
+  v_promoted integer := 0;
+BEGIN
+  SELECT volunteers_required INTO v_capacity
+  FROM public.events
+  WHERE event_id = p_event_id AND event_status = 'active';
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  SELECT COUNT(*) INTO v_registered
+  FROM public.event_registrations
+  WHERE event_id = p_event_id AND status = 'registered';
+
+  WITH next_up AS (
+    SELECT registration_id
+    FROM public.event_registrations
+    WHERE event_id = p_event_id AND status = 'waitlisted'
+    ORDER BY queued_at, registration_id
+    LIMIT CASE WHEN v_capacity IS NULL THEN NULL ELSE GREATEST(v_capacity - v_registered, 0) END
+  )
+  UPDATE public.event_registrations r
+  SET status = 'registered', promoted_at = now(), updated_at = now()
+  FROM next_up
+  WHERE r.registration_id = next_up.registration_id;
+
+  GET DIAGNOSTICS v_promoted = ROW_COUNT;
+  RETURN v_promoted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.promote_event_waitlist(uuid) FROM PUBLIC;
+
+-- 4) Event changes: release sign-ups on cancellation, promote when capacity grows
+CREATE OR REPLACE FUNCTION public.handle_event_registration_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.event_status = 'cancelled' AND OLD.event_status IS DISTINCT FROM 'cancelled' THEN
+    UPDATE public.event_registrations
+    SET status = 'released', cancelled_at = now(), updated_at = now()
+    WHERE event_id = NEW.event_id AND status IN ('registered', 'waitlisted');
+  ELSIF NEW.event_status = 'active'
+    AND (NEW.volunteers_required IS NULL
+         OR NEW.volunteers_required > COALESCE(OLD.volunteers_required, 0)
+         OR OLD.event_status IS DISTINCT FROM 'active') THEN
+    PERFORM public.promote_event_waitlist(NEW.event_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_events_registration_changes ON public.events;
+CREATE TRIGGER trg_events_registration_changes
+AFTER UPDATE OF event_status, volunteers_required ON public.events
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_event_registration_changes();
+
+-- 5) RPC: volunteer joins an event (registered, or waitlisted when full)
+CREATE OR REPLACE FUNCTION public.join_event(p_event_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_volunteer_id uuid;
+  v_event public.events;
+  v_registered integer;
+  v_status public.enum_event_registration_status;
+  v_existing public.event_registrations;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT volunteer_id INTO v_volunteer_id FROM public.volunteers WHERE user_id = auth.uid();
+  IF v_volunteer_id IS NULL THEN
+    RAISE EXCEPTION 'Volunteer record not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Serialises sign-ups for this event
+  SELECT * INTO v_event FROM public.events WHERE event_id = p_event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_event.event_status <> 'active' THEN
+    RAISE EXCEPTION 'Sign-ups are closed for this event' USING ERRCODE = '22023';
+  END IF;
+  IF COALESCE(v_event.end_date, v_event.start_date) < CURRENT_DATE THEN
+    RAISE EXCEPTION 'This event has already finished' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_existing
+  FROM public.event_registrations
+  WHERE event_id = p_event_id AND volunteer_id = v_volunteer_id;
+
+  IF FOUND AND v_existing.status IN ('registered', 'waitlisted') THEN
+    v_status := v_existing.status;
+  ELSE
+    SELECT COUNT(*) INTO v_registered
+    FROM public.event_registrations
+    WHERE event_id = p_event_id AND status = 'registered';
+
+    v_status := CASE
+      WHEN v_event.volunteers_required IS NULL OR v_registered < v_event.volunteers_required THEN 'registered'
+      ELSE 'waitlisted'
+    END;
+
+    INSERT INTO public.event_registrations (event_id, volunteer_id, status, queued_at)
+    VALUES (p_event_id, v_volunteer_id, v_status, now())
+    ON CONFLICT (event_id, volunteer_id) DO UPDATE
+    SET status = EXCLUDED.status,
+        queued_at = now(),
+        promoted_at = NULL,
+        cancelled_at = NULL,
+        updated_at = now();
+  END IF;
+
+  RETURN jsonb_build_object(
+    'event_id', p_event_id,
+    'status', v_status,
+    'waitlist_position', CASE WHEN v_status = 'waitlisted' THEN (
+      SELECT COUNT(*)
+      FROM public.event_registrations w
+      WHERE w.event_id = p_event_id AND w.status = 'waitlisted'
+        AND w.queued_at <= (SELECT queued_at FROM public.event_registrations
+                            WHERE event_id = p_event_id AND volunteer_id = v_volunteer_id)
+    ) END
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.join_event(uuid) TO authenticated;
+
+-- 6) RPC: volunteer leaves an event; a freed slot goes to the waitlist
+CREATE OR REPLACE FUNCTION public.leave_event(p_event_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_volunteer_id uuid;
+  v_previous public.enum_event_registration_status;
+  v_promoted integer := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT volunteer_id INTO v_volunteer_id FROM public.volunteers WHERE user_id = auth.uid();
+  IF v_volunteer_id IS NULL THEN
+    RAISE EXCEPTION 'Volunteer record not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM 1 FROM public.events WHERE event_id = p_event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT status INTO v_previous
+  FROM public.event_registrations
+  WHERE event_id = p_event_id AND volunteer_id = v_volunteer_id AND status IN ('registered', 'waitlisted');
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not signed up for this event' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.event_registrations
+  SET status = 'cancelled', cancelled_at = now(), updated_at = now()
+  WHERE event_id = p_event_id AND volunteer_id = v_volunteer_id;
+
+  IF v_previous = 'registered' THEN
+    v_promoted := public.promote_event_waitlist(p_event_id);
+  END IF;
+
+  RETURN jsonb_build_object('event_id', p_event_id, 'status', 'cancelled', 'promoted', v_promoted);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.leave_event(uuid) TO authenticated;
+
+-- 7) RPC: admin roster of an event, registered first then the waitlist in order
+CREATE OR REPLACE FUNCTION public.get_event_roster(p_event_id uuid)
+RETURNS TABLE (
+  registration_id uuid,
+  volunteer_id uuid,
+  volunteer_number text,
+  full_name text,
+  email text,
+  phone_number text,
+  status public.enum_event_registration_status,
+  waitlist_position bigint,
+  queued_at timestamptz,
+  promoted_at timestamptz,
+  cancelled_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view event rosters' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.registration_id,
+    r.volunteer_id,
+    v.volunteer_number,
+    COALESCE(p.full_name, 'Unknown') AS full_name,
+    p.email,
+    p.phone_number,
+    r.status,
+    CASE WHEN r.status = 'waitlisted'
+      THEN row_number() OVER (PARTITION BY r.status ORDER BY r.queued_at, r.registration_id)
+    END AS waitlist_position,
+    r.queued_at,
+    r.promoted_at,
+    r.cancelled_at
+  FROM public.event_registrations r
+  JOIN public.volunteers v ON v.volunteer_id = r.volunteer_id
+  LEFT JOIN public.profiles p ON p.user_id = v.user_id
+  WHERE r.event_id = p_event_id
+  ORDER BY
+    CASE r.status WHEN 'registered' THEN 0 WHEN 'waitlisted' THEN 1 ELSE 2 END,
+    r.queued_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_event_roster(uuid) TO authenticated;
+
+-- 8) Events list shows filled slots and the waitlist (return type changes -> drop first)
+DROP FUNCTION IF EXISTS public.list_events();
+
+CREATE OR REPLACE FUNCTION public.list_events()
+RETURNS TABLE (
+  event_id uuid,
+  event_name text,
+  location text,
+  volunteers_required integer,
+  event_status public.event_status,
+  start_date date,
+  end_date date,
+  registered_count bigint,
+  waitlist_count bigint
+)
+LANGUAGE sql
+SECURITY INVOKER
+AS $$
+  SELECT e.event_id, e.event_name, e.location, e.volunteers_required, e.event_status, e.start_date, e.end_date,
+         COUNT(r.registration_id) FILTER (WHERE r.status = 'registered') AS registered_count,
+         COUNT(r.registration_id) FILTER (WHERE r.status = 'waitlisted') AS waitlist_count
+  FROM public.events e
+  LEFT JOIN public.event_registrations r ON r.event_id = e.event_id
+  GROUP BY e.event_id
+  ORDER BY e.start_date DESC NULLS LAST, e.event_created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_events() TO authenticated;
+
+-- 9) Volunteer dashboard: upcoming events carry slots and the caller's own sign-up
+DROP FUNCTION IF EXISTS public.get_volunteer_upcoming_events(integer);
+
+CREATE OR REPLACE FUNCTION public.get_volunteer_upcoming_events(p_limit integer DEFAULT 10)
+RETURNS TABLE (
+  event_id uuid,
+  event_name text,
+  location text,
+  aim_of_event text,
+  start_date date,
+  end_date date,
+  site_status public.site_status,
+  volunteers_required integer,
+  registered_count bigint,
+  my_registration_status public.enum_event_registration_status,
+  my_waitlist_position bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_volunteer_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT v.volunteer_id INTO v_volunteer_id FROM public.volunteers v WHERE v.user_id = auth.uid();
+
+  RETURN QUERY
+  SELECT
+    e.event_id, e.event_name, e.location, e.aim_of_event, e.start_date, e.end_date,
+    e.site_status, e.volunteers_required,
+    (SELECT COUNT(*) FROM public.event_registrations r
+     WHERE r.event_id = e.event_id AND r.status = 'registered') AS registered_count,
+    mine.status AS my_registration_status,
+    CASE WHEN mine.status = 'waitlisted' THEN (
+      SELECT COUNT(*) FROM public.event_registrations w
+      WHERE w.event_id = e.event_id AND w.status = 'waitlisted' AND w.queued_at <= mine.queued_at
+    ) END AS my_waitlist_position
+  FROM public.events e
+  LEFT JOIN public.event_registrations mine
+    ON mine.event_id = e.event_id AND mine.volunteer_id = v_volunteer_id
+  WHERE e.event_status = 'active'
+    AND COALESCE(e.end_date, e.start_date) >= CURRENT_DATE
+  ORDER BY e.start_date ASC, e.event_name
+  LIMIT GREATEST(COALESCE(p_limit, 10), 1);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_volunteer_upcoming_events(integer) TO authenticated;
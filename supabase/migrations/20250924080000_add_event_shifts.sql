@@ -0,0 +1,454 @@
+-- supabase/migrations/20250924080000_add_event_shifts.sql
+-- Purpose: Split larger events into shifts with a role and a required head count.
+--
+-- - public.event_shifts: time window (starts_at/ends_at), role (e.g. Packing, Driving,
+--   Registration desk) and required_count, always inside the event's dates as read in the
+--   organisation's timezone (organisation_timezone()).
+-- - public.event_shift_signups: one row per (shift, volunteer). Sign-ups stop at required_count,
+--   and a volunteer cannot hold two shifts whose windows overlap, on any event.
+-- - Cancelling an event releases its shift sign-ups as well as its registrations.
+-- - Sign-ups lock the shift (capacity) and the volunteer row (overlaps) so concurrent requests
+--   are checked one at a time.
+
+-- 1) Shifts
+CREATE TABLE IF NOT EXISTS public.event_shifts (
+  shift_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(event_id) ON DELETE CASCADE,
+  role_name text NOT NULL CHECK (btrim(role_name) <> ''),
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  required_count integer NOT NULL CHECK (required_count > 0),
+  notes text,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT event_shifts_window_check CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS event_shifts_event_idx ON public.event_shifts(event_id, starts_at);
+
+COMMENT ON TABLE public.event_shifts IS 'Time-boxed role slots within an event (e.g. packing 09:00-13:00, 6 volunteers).';
+
+-- 2) Shift sign-ups (registered / cancelled by the volunteer / released by a cancelled event)
+CREATE TABLE IF NOT EXISTS public.event_shift_signups (
+  signup_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shift_id uuid NOT NULL REFERENCES public.event_shifts(shift_id) ON DELETE CASCADE,
+  volunteer_id uuid NOT NULL REFERENCES public.volunteers(volunteer_id) ON DELETE CASCADE,
+  status public.enum_event_registration_status NOT NULL DEFAULT 'registered',
+  signed_up_at timestamptz NOT NULL DEFAULT now(),
+  cancelled_at timestamptz,
+  CONSTRAINT event_shift_signups_shift_volunteer_key UNIQUE (shift_id, volunteer_id),
+  CONSTRAINT event_shift_signups_status_check CHECK (status <> 'waitlisted')
+);
+
+CREATE INDEX IF NOT EXISTS event_shift_signups_volunteer_idx ON public.event_shift_signups(volunteer_id, status);
+
+ALTER TABLE public.event_shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_shift_signups ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS event_shifts_authenticated_select ON public.event_shifts;
+CREATE POLICY event_shifts_authenticated_select ON public.event_shifts
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS event_shift_signups_own_select ON public.event_shift_signups;
+CREATE POLICY event_shift_signups_own_select ON public.event_shift_signups
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.volunteers v
+    WHERE v.volunteer_id = event_shift_signups.volunteer_id AND v.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS event_shift_signups_admin_select ON public.event_shift_signups;
+CREATE POLICY event_shift_signups_admin_select ON public.event_shift_signups
+FOR SELECT
+TO authenticated
+USING (public.is_admin());
+
+-- 3) Cancelling an event also releases its shift sign-ups
+CREATE OR REPLACE FUNCTION public.handle_event_registration_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.event_status = 'cancelled' AND OLD.event_status IS DISTINCT FROM 'cancelled' THEN
+    UPDATE public.event_registrations
+    SET status = 'released', cancelled_at = now(), updated_at = now()
+    WHERE event_id = NEW.event_id AND status IN ('registered', 'waitlisted');
+
+    UPDATE public.event_shift_signups s
+    SET status = 'released', cancelled_at = now()
+    FROM public.event_shifts sh
+    WHERE sh.shift_id = s.shift_id AND sh.event_id = NEW.event_id AND s.status = 'registered';
+  ELSIF NEW.event_status = 'active'
+    AND (NEW.volunteers_required IS NULL
+         OR NEW.volunteers_required > COALESCE(OLD.volunteers_required, 0)
+         OR OLD.event_status IS DISTINCT FROM 'active') THEN
+    PERFORM public.promote_event_waitlist(NEW.event_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- 4) Event dates are local dates: shift times are compared in the organisation's timezone
+CREATE OR REPLACE FUNCTION public.organisation_timezone()
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 'Asia/Karachi'::text;
+$$;
+
+COMMENT ON FUNCTION public.organisation_timezone() IS 'Timezone the organisation''s calendar dates (event start/end dates) are in.';
+
+-- 5) RPC: admin adds a shift to an event
+CREATE OR REPLACE FUNCTION public.create_event_shift(
+  p_event_id uuid,
+  p_role_name text,
+  p_starts_at timestamptz,
+  p_ends_at timestamptz,
+  p_required_count integer,
+  p_notes text DEFAULT NULL
+)
+RETURNS public.event_shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.events;
+  v_shift public.event_shifts;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can manage shifts' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_event FROM public.events WHERE event_id = p_event_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_event.event_status = 'cancelled' THEN
+    RAISE EXCEPTION 'Shifts cannot be added to a cancelled event' USING ERRCODE = '22023';
+  END IF;
+  IF NULLIF(btrim(p_role_name), '') IS NULL THEN
+    RAISE EXCEPTION 'Role is required' USING ERRCODE = '22023';
+  END IF;
+  IF p_starts_at IS NULL OR p_ends_at IS NULL OR p_ends_at <= p_starts_at THEN
+    RAISE EXCEPTION 'Shift must end after it starts' USING ERRCODE = '22023';
+  END IF;
+  IF p_required_count IS NULL OR p_required_count <= 0 THEN
+    RAISE EXCEPTION 'Required volunteers must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+  -- Timestamps arrive in UTC; an early-morning local shift would otherwise fall on the previous day
+  IF (p_starts_at AT TIME ZONE public.organisation_timezone())::date < v_event.start_date
+     OR (p_ends_at AT TIME ZONE public.organisation_timezone())::date > COALESCE(v_event.end_date, v_event.start_date) THEN
+    RAISE EXCEPTION 'Shift must fall within the event dates (% to %)',
+      v_event.start_date, COALESCE(v_event.end_date, v_event.start_date) USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.event_shifts (event_id, role_name, starts_at, ends_at, required_count, notes, created_by)
+  VALUES (p_event_id, btrim(p_role_name), p_starts_at, p_ends_at, p_required_count, NULLIF(btrim(p_notes), ''), auth.uid())
+  RETURNING * INTO v_shift;
+
+  RETURN v_shift;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_event_shift(uuid, text, timestamptz, timestamptz, integer, text) TO authenticated;
+
+-- 6) RPC: admin removes a shift (its sign-ups go with it)
+CREATE OR REPLACE FUNCTION public.delete_event_shift(p_shift_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can manage shifts' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.event_shifts WHERE shift_id = p_shift_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.delete_event_shift(uuid) TO authenticated;
+
+-- 7) RPC: admin shift grid of an event, with the volunteers signed up to each shift
+CREATE OR REPLACE FUNCTION public.get_event_shift_grid(p_event_id uuid)
+RETURNS TABLE (
+  shift_id uuid,
+  role_name text,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  required_count integer,
+  notes text,
+  filled_count bigint,
+  volunteers jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view shift sign-ups' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    sh.shift_id,
+    sh.role_name,
+    sh.starts_at,
+    sh.ends_at,
+    sh.required_count,
+    sh.notes,
+    COUNT(s.signup_id) AS filled_count,
+    COALESCE(
+      jsonb_agg(
+        jsonb_build_object(
+          'volunteer_number', v.volunteer_number,
+          'full_name', COALESCE(p.full_name, 'Unknown'),
+          'phone_number', p.phone_number
+        ) ORDER BY s.signed_up_at
+      ) FILTER (WHERE s.signup_id IS NOT NULL),
+      '[]'::jsonb
+    ) AS volunteers
+  FROM public.event_shifts sh
+  LEFT JOIN public.event_shift_signups s ON s.shift_id = sh.shift_id AND s.status = 'registered'
+  LEFT JOIN public.volunteers v ON v.volunteer_id = s.volunteer_id
+  LEFT JOIN public.profiles p ON p.user_id = v.user_id
+  WHERE sh.event_id = p_event_id
+  GROUP BY sh.shift_id
+  ORDER BY sh.starts_at, sh.role_name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_event_shift_grid(uuid) TO authenticated;
+
+-- 8) RPC: shifts of an event as seen by the signed-in volunteer
+CREATE OR REPLACE FUNCTION public.get_volunteer_event_shifts(p_event_id uuid)
+RETURNS TABLE (
+  shift_id uuid,
+  role_name text,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  required_count integer,
+  notes text,
+  filled_count bigint,
+  is_signed_up boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_volunteer_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT v.volunteer_id INTO v_volunteer_id FROM public.volunteers v WHERE v.user_id = auth.uid();
+
+  RETURN QUERY
+  SELECT
+    sh.shift_id,
+    sh.role_name,
+    sh.starts_at,
+    sh.ends_at,
+    sh.required_count,
+    sh.notes,
+    COUNT(s.signup_id) AS filled_count,
+    COALESCE(bool_or(s.volunteer_id = v_volunteer_id), false) AS is_signed_up
+  FROM public.event_shifts sh
+  LEFT JOIN public.event_shift_signups s ON s.shift_id = sh.shift_id AND s.status = 'registered'
+  WHERE sh.event_id = p_event_id
+  GROUP BY sh.shift_id
+  ORDER BY sh.starts_at, sh.role_name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_volunteer_event_shifts(uuid) TO authenticated;
+
+-- 9) RPC: volunteer signs up for a shift (capacity and overlap checked)
+CREATE OR REPLACE FUNCTION public.join_event_shift(p_shift_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_volunteer_id uuid;
+  v_shift public.event_shifts;
+  v_event public.events;
+  v_filled integer;
+  v_conflict record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Locking the volunteer serialises their own sign-ups for the overlap check
+  SELECT volunteer_id INTO v_volunteer_id FROM public.volunteers WHERE user_id = auth.uid() FOR UPDATE;
+  IF v_volunteer_id IS NULL THEN
+    RAISE EXCEPTION 'Volunteer record not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_shift FROM public.event_shifts WHERE shift_id = p_shift_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_event FROM public.events WHERE event_id = v_shift.event_id;
+  IF v_event.event_status <> 'active' THEN
+    RAISE EXCEPTION 'Sign-ups are closed for this event' USING ERRCODE = '22023';
+  END IF;
+  IF v_shift.ends_at <= now() THEN
+    RAISE EXCEPTION 'This shift has already ended' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.event_shift_signups
+    WHERE shift_id = p_shift_id AND volunteer_id = v_volunteer_id AND status = 'registered'
+  ) THEN
+    RETURN jsonb_build_object('shift_id', p_shift_id, 'status', 'registered');
+  END IF;
+
+  SELECT COUNT(*) INTO v_filled
+  FROM public.event_shift_signups
+  WHERE shift_id = p_shift_id AND status = 'registered';
+  IF v_filled >= v_shift.required_count THEN
+    RAISE EXCEPTION 'This shift is full' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT sh.role_name, sh.starts_at, sh.ends_at, e.event_name INTO v_conflict
+  FROM public.event_shift_signups s
+  JOIN public.event_shifts sh ON sh.shift_id = s.shift_id
+  JOIN public.events e ON e.event_id = sh.event_id
+  WHERE s.volunteer_id = v_volunteer_id
+    AND s.status = 'registered'
+    AND sh.shift_id <> p_shift_id
+    AND tstzrange(sh.starts_at, sh.ends_at) && tstzrange(v_shift.starts_at, v_shift.ends_at)
+  ORDER BY sh.starts_at
+  LIMIT 1;
+  IF FOUND THEN
+    RAISE EXCEPTION 'This shift overlaps your % shift at % (% to %)',
+      v_conflict.role_name, v_conflict.event_name,
+      to_char(v_conflict.starts_at, 'DD Mon HH24:MI'), to_char(v_conflict.ends_at, 'HH24:MI')
+      USING ERRCODE = '23P01';
+  END IF;
+
+  INSERT INTO public.event_shift_signups (shift_id, volunteer_id, status, signed_up_at)
+  VALUES (p_shift_id, v_volunteer_id, 'registered', now())
+  ON CONFLICT (shift_id, volunteer_id) DO UPDATE
+  SET status = 'registered', signed_up_at = now(), cancelled_at = NULL;
+
+  RETURN jsonb_build_object('shift_id', p_shift_id, 'status', 'registered');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.join_event_shift(uuid) TO authenticated;
+
+-- 10) RPC: volunteer drops a shift
+CREATE OR REPLACE FUNCTION public.leave_event_shift(p_shift_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  UPDATE public.event_shift_signups s
+  SET status = 'cancelled', cancelled_at = now()
+  FROM public.volunteers v
+  WHERE v.volunteer_id = s.volunteer_id
+    AND v.user_id = auth.uid()
+    AND s.shift_id = p_shift_id
+    AND s.status = 'registered';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not signed up for this shift' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.leave_event_shift(uuid) TO authenticated;
+
+-- 11) Volunteer dashboard: upcoming events say how many shifts they have
+DROP FUNCTION IF EXISTS public.get_volunteer_upcoming_events(integer);
+
+CREATE OR REPLACE FUNCTION public.get_volunteer_upcoming_events(p_limit integer DEFAULT 10)
+RETURNS TABLE (
+  event_id uuid,
+  event_name text,
+  location text,
+  aim_of_event text,
+  start_date date,
+  end_date date,
+  site_status public.site_status,
+  volunteers_required integer,
+  registered_count bigint,
+  my_registration_status public.enum_event_registration_status,
+  my_waitlist_position bigint,
+  shift_count bigint,
+  my_shift_count bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_volunteer_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT v.volunteer_id INTO v_volunteer_id FROM public.volunteers v WHERE v.user_id = auth.uid();
+
+  RETURN QUERY
+  SELECT
+    e.event_id, e.event_name, e.location, e.aim_of_event, e.start_date, e.end_date,
+    e.site_status, e.volunteers_required,
+    (SELECT COUNT(*) FROM public.event_registrations r
+     WHERE r.event_id = e.event_id AND r.status = 'registered') AS registered_count,
+    mine.status AS my_registration_status,
+    CASE WHEN mine.status = 'waitlisted' THEN (
+      SELECT COUNT(*) FROM public.event_registrations w
+      WHERE w.event_id = e.event_id AND w.status = 'waitlisted' AND w.queued_at <= mine.queued_at
+    ) END AS my_waitlist_position,
+    (SELECT COUNT(*) FROM public.event_shifts sh WHERE sh.event_id = e.event_id) AS shift_count,
+    (SELECT COUNT(*) FROM public.event_shift_signups s
+     JOIN public.event_shifts sh ON sh.shift_id = s.shift_id
+     WHERE sh.event_id = e.event_id AND s.volunteer_id = v_volunteer_id AND s.status = 'registered') AS my_shift_count
+  FROM public.events e
+  LEFT JOIN public.event_registrations mine
+    ON mine.event_id = e.event_id AND mine.volunteer_id = v_volunteer_id
+  WHERE e.event_status = 'active'
+    AND COALESCE(e.end_date, e.start_date) >= CURRENT_DATE
+  ORDER BY e.start_date ASC, e.event_name
+  LIMIT GREATEST(COALESCE(p_limit, 10), 1);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_volunteer_upcoming_events(integer) TO authenticated;
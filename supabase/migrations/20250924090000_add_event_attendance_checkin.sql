@@ -0,0 +1,357 @@
+-- supabase/migrations/20250924090000_add_event_attendance_checkin.sql
+-- Purpose: Verified event attendance through QR check-in/check-out.
+--
+-- - volunteers.checkin_token: personal, opaque token encoded in the volunteer's QR code.
+-- - public.event_attendance: one row per check-in session (a multi-day event can have several),
+--   with at most one open session per volunteer and event.
+-- - scan_event_attendance toggles: the first scan checks in, the next checks out. Checking out
+--   measures the duration and files a pending activity request tied to the event, so verified
+--   hours go through the same approval queue as self-reported ones.
+-- - A session is counted only up to the end of the volunteer's shifts that day, or the end of the
+--   event's last day; a later check-out (a forgotten scan) is recorded in counted_until and noted
+--   on the request.
+-- - Scanned attendance replaces self-reported hours for the same event: checking in rejects the
+--   volunteer's open self-reported requests for it, and no new ones can be submitted afterwards.
+-- - Only volunteers registered for the event (or signed up to one of its shifts) can be checked in,
+--   and only while the event is active and on its dates (organisation timezone). Checking out an
+--   open session is always allowed.
+
+-- 1) Personal check-in token (existing rows are backfilled by the default)
+ALTER TABLE public.volunteers
+  ADD COLUMN IF NOT EXISTS checkin_token uuid NOT NULL DEFAULT gen_random_uuid();
+
+CREATE UNIQUE INDEX IF NOT EXISTS volunteers_checkin_token_key ON public.volunteers(checkin_token);
+
+-- 2) Attendance sessions
+CREATE TABLE IF NOT EXISTS public.event_attendance (
+  attendance_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(event_id) ON DELETE CASCADE,
+  volunteer_id uuid NOT NULL REFERENCES public.volunteers(volunteer_id) ON DELETE CASCADE,
+  checked_in_at timestamptz NOT NULL DEFAULT now(),
+  checked_in_by uuid NOT NULL REFERENCES auth.users(id),
+  checked_out_at timestamptz,
+  checked_out_by uuid REFERENCES auth.users(id),
+  volunteer_activity_request_id uuid REFERENCES public.volunteer_activity_requests(volunteer_activity_request_id) ON DELETE SET NULL,
+  counted_until timestamptz, -- set when the check-out came after the shift or event had ended
+  CONSTRAINT event_attendance_window_check CHECK (checked_out_at IS NULL OR checked_out_at >= checked_in_at),
+  CONSTRAINT event_attendance_counted_until_check CHECK (counted_until IS NULL OR counted_until BETWEEN checked_in_at AND checked_out_at)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS event_attendance_open_session_key
+  ON public.event_attendance(event_id, volunteer_id)
+  WHERE checked_out_at IS NULL;
+CREATE INDEX IF NOT EXISTS event_attendance_event_idx ON public.event_attendance(event_id, checked_in_at DESC);
+CREATE INDEX IF NOT EXISTS event_attendance_volunteer_idx ON public.event_attendance(volunteer_id);
+
+COMMENT ON TABLE public.event_attendance IS 'QR check-in/check-out sessions recorded by event coordinators.';
+
+ALTER TABLE public.event_attendance ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS event_attendance_own_select ON public.event_attendance;
+CREATE POLICY event_attendance_own_select ON public.event_attendance
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.volunteers v
+    WHERE v.volunteer_id = event_attendance.volunteer_id AND v.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS event_attendance_admin_select ON public.event_attendance;
+CREATE POLICY event_attendance_admin_select ON public.event_attendance
+FOR SELECT
+TO authenticated
+USING (public.is_admin());
+
+-- Requests filed by a check-out, as opposed to hours the volunteer reported themselves
+ALTER TABLE public.volunteer_activity_requests
+  ADD COLUMN IF NOT EXISTS from_attendance boolean NOT NULL DEFAULT false;
+
+-- Self-reported hours for an event the volunteer was scanned at would count the same time twice.
+-- Covers submit_volunteer_activity and resubmit_volunteer_activity.
+CREATE OR REPLACE FUNCTION public.check_self_reported_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT NEW.from_attendance
+     AND NEW.volunteer_activity_status = 'pending'
+     AND (TG_OP = 'INSERT' OR OLD.volunteer_activity_status IS DISTINCT FROM 'pending' OR OLD.event_id IS DISTINCT FROM NEW.event_id)
+     AND EXISTS (
+       SELECT 1 FROM public.event_attendance a
+       WHERE a.event_id = NEW.event_id AND a.volunteer_id = NEW.volunteer_id
+     ) THEN
+    RAISE EXCEPTION 'Your hours for this event are recorded from check-in scans' USING ERRCODE = '22023';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_check_self_reported_activity ON public.volunteer_activity_requests;
+CREATE TRIGGER trg_check_self_reported_activity
+BEFORE INSERT OR UPDATE ON public.volunteer_activity_requests
+FOR EACH ROW EXECUTE FUNCTION public.check_self_reported_activity();
+
+-- 3) RPC: the signed-in volunteer's token, for rendering their QR code
+CREATE OR REPLACE FUNCTION public.get_my_checkin_token()
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT checkin_token INTO v_token FROM public.volunteers WHERE user_id = auth.uid();
+  IF v_token IS NULL THEN
+    RAISE EXCEPTION 'Volunteer record not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_my_checkin_token() TO authenticated;
+
+-- 4) RPC: coordinator scans a volunteer's QR code at an event
+CREATE OR REPLACE FUNCTION public.scan_event_attendance(p_event_id uuid, p_checkin_token uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.events;
+  v_volunteer public.volunteers;
+  v_full_name text;
+  v_open public.event_attendance;
+  v_checked_out_at timestamptz := now();
+  v_count_to timestamptz;
+  v_counted_until timestamptz;
+  v_self_reported_hours integer;
+  v_description text;
+  v_minutes integer;
+  v_hours integer;
+  v_request_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only event coordinators can check volunteers in' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_event FROM public.events WHERE event_id = p_event_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock the volunteer so a double scan cannot open two sessions
+  SELECT * INTO v_volunteer FROM public.volunteers WHERE checkin_token = p_checkin_token FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'QR code does not belong to any volunteer' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(p.full_name, 'Unknown') INTO v_full_name FROM public.profiles p WHERE p.user_id = v_volunteer.user_id;
+  v_full_name := COALESCE(v_full_name, 'Unknown');
+
+  SELECT * INTO v_open
+  FROM public.event_attendance
+  WHERE event_id = p_event_id AND volunteer_id = v_volunteer.volunteer_id AND checked_out_at IS NULL;
+
+  -- Only opening a session is restricted; an open session can always be closed, even after
+  -- midnight on the last day or once the event is no longer active
+  IF NOT FOUND THEN
+    IF v_event.event_status <> 'active' THEN
+      RAISE EXCEPTION 'Check-in is only open for active events' USING ERRCODE = '22023';
+    END IF;
+    IF (now() AT TIME ZONE public.organisation_timezone())::date
+       NOT BETWEEN v_event.start_date AND COALESCE(v_event.end_date, v_event.start_date) THEN
+      RAISE EXCEPTION 'Check-in is only open on the event dates (% to %)',
+        v_event.start_date, COALESCE(v_event.end_date, v_event.start_date) USING ERRCODE = '22023';
+    END IF;
+    IF NOT EXISTS (
+      SELECT 1 FROM public.event_registrations r
+      WHERE r.event_id = p_event_id AND r.volunteer_id = v_volunteer.volunteer_id AND r.status = 'registered'
+    ) AND NOT EXISTS (
+      SELECT 1 FROM public.event_shift_signups s
+      JOIN public.event_shifts sh ON sh.shift_id = s.shift_id
+      WHERE sh.event_id = p_event_id AND s.volunteer_id = v_volunteer.volunteer_id AND s.status = 'registered'
+    ) THEN
+      RAISE EXCEPTION '% (%) is not signed up for this event', v_full_name, v_volunteer.volunteer_number
+        USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.event_attendance (event_id, volunteer_id, checked_in_at, checked_in_by)
+    VALUES (p_event_id, v_volunteer.volunteer_id, now(), auth.uid())
+    RETURNING * INTO v_open;
+
+    -- From now on the scans are the record of this volunteer's time at the event
+    UPDATE public.volunteer_activity_requests
+    SET volunteer_activity_status = 'rejected',
+        review_comments = 'Replaced by verified check-in attendance for this event',
+        reviewed_by = auth.uid(),
+        reviewed_at = now(),
+        updated_at = now()
+    WHERE volunteer_id = v_volunteer.volunteer_id
+      AND event_id = p_event_id
+      AND NOT from_attendance
+      AND volunteer_activity_status IN ('pending', 'revised');
+
+    RETURN jsonb_build_object(
+      'action', 'checked_in',
+      'attendance_id', v_open.attendance_id,
+      'volunteer_number', v_volunteer.volunteer_number,
+      'full_name', v_full_name,
+      'checked_in_at', v_open.checked_in_at
+    );
+  END IF;
+
+  -- A second scan right after checking in is almost always the same QR code read twice
+  IF v_open.checked_in_at > now() - interval '2 minutes' THEN
+    RETURN jsonb_build_object(
+      'action', 'already_checked_in',
+      'attendance_id', v_open.attendance_id,
+      'volunteer_number', v_volunteer.volunteer_number,
+      'full_name', v_full_name,
+      'checked_in_at', v_open.checked_in_at
+    );
+  END IF;
+
+  -- Count up to the end of the volunteer's shifts that day, or else the end of the event's last
+  -- day, so a forgotten check-out does not turn into a day's worth of hours
+  SELECT max(sh.ends_at) INTO v_count_to
+  FROM public.event_shift_signups s
+  JOIN public.event_shifts sh ON sh.shift_id = s.shift_id
+  WHERE sh.event_id = p_event_id
+    AND s.volunteer_id = v_volunteer.volunteer_id
+    AND s.status = 'registered'
+    AND sh.ends_at > v_open.checked_in_at
+    AND (sh.starts_at AT TIME ZONE public.organisation_timezone())::date
+      = (v_open.checked_in_at AT TIME ZONE public.organisation_timezone())::date;
+  v_count_to := GREATEST(v_open.checked_in_at, COALESCE(
+    v_count_to,
+    (COALESCE(v_event.end_date, v_event.start_date) + 1)::timestamp AT TIME ZONE public.organisation_timezone()
+  ));
+  IF v_checked_out_at > v_count_to THEN
+    v_counted_until := v_count_to;
+  END IF;
+
+  v_minutes := floor(extract(epoch FROM (COALESCE(v_counted_until, v_checked_out_at) - v_open.checked_in_at)) / 60)::integer;
+  v_hours := round(v_minutes / 60.0)::integer;
+
+  v_description := format('Verified attendance: checked in %s, checked out %s (%sh %sm)',
+    to_char(v_open.checked_in_at AT TIME ZONE public.organisation_timezone(), 'DD Mon YYYY HH24:MI'),
+    to_char(v_checked_out_at AT TIME ZONE public.organisation_timezone(), 'DD Mon YYYY HH24:MI'),
+    v_minutes / 60, v_minutes % 60);
+  IF v_counted_until IS NOT NULL THEN
+    v_description := v_description || format('. Checked out late; counted until %s, when the %s ended',
+      to_char(v_counted_until AT TIME ZONE public.organisation_timezone(), 'DD Mon YYYY HH24:MI'),
+      CASE WHEN v_counted_until = (COALESCE(v_event.end_date, v_event.start_date) + 1)::timestamp AT TIME ZONE public.organisation_timezone()
+        THEN 'event' ELSE 'shift' END);
+  END IF;
+
+  -- Hours the volunteer reported themselves and had approved before their first scan
+  SELECT COALESCE(sum(r.hours_contributed), 0) INTO v_self_reported_hours
+  FROM public.volunteer_activity_requests r
+  WHERE r.volunteer_id = v_volunteer.volunteer_id
+    AND r.event_id = p_event_id
+    AND NOT r.from_attendance
+    AND r.volunteer_activity_status = 'approved';
+  IF v_self_reported_hours > 0 THEN
+    v_description := v_description || format('. %s self-reported hour(s) for this event were already approved; check for overlap',
+      v_self_reported_hours);
+  END IF;
+
+  -- hours_contributed is a whole number, so sessions under half an hour are recorded without a request
+  IF v_hours > 0 THEN
+    INSERT INTO public.volunteer_activity_requests (
+      volunteer_id, event_id, hours_contributed, type_of_activity, people_helped, site_status,
+      description, volunteer_activity_status, created_by, from_attendance
+    ) VALUES (
+      v_volunteer.volunteer_id, p_event_id, v_hours, 'field_work', NULL, v_event.site_status,
+      v_description, 'pending', v_volunteer.user_id, true
+    )
+    RETURNING volunteer_activity_request_id INTO v_request_id;
+  END IF;
+
+  UPDATE public.event_attendance
+  SET checked_out_at = v_checked_out_at,
+      checked_out_by = auth.uid(),
+      counted_until = v_counted_until,
+      volunteer_activity_request_id = v_request_id
+  WHERE attendance_id = v_open.attendance_id;
+
+  RETURN jsonb_build_object(
+    'action', 'checked_out',
+    'attendance_id', v_open.attendance_id,
+    'volunteer_number', v_volunteer.volunteer_number,
+    'full_name', v_full_name,
+    'checked_in_at', v_open.checked_in_at,
+    'checked_out_at', v_checked_out_at,
+    'counted_until', v_counted_until,
+    'minutes', v_minutes,
+    'hours_contributed', v_hours,
+    'volunteer_activity_request_id', v_request_id
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.scan_event_attendance(uuid, uuid) TO authenticated;
+
+-- 5) RPC: attendance log of an event for the check-in page
+CREATE OR REPLACE FUNCTION public.get_event_attendance(p_event_id uuid)
+RETURNS TABLE (
+  attendance_id uuid,
+  volunteer_number text,
+  full_name text,
+  checked_in_at timestamptz,
+  checked_out_at timestamptz,
+  counted_until timestamptz,
+  minutes integer,
+  volunteer_activity_request_id uuid,
+  request_status public.volunteer_activity_status
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only event coordinators can view attendance' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    a.attendance_id,
+    v.volunteer_number,
+    COALESCE(p.full_name, 'Unknown') AS full_name,
+    a.checked_in_at,
+    a.checked_out_at,
+    a.counted_until,
+    CASE WHEN a.checked_out_at IS NOT NULL
+      THEN floor(extract(epoch FROM (COALESCE(a.counted_until, a.checked_out_at) - a.checked_in_at)) / 60)::integer
+    END AS minutes,
+    a.volunteer_activity_request_id,
+    r.volunteer_activity_status AS request_status
+  FROM public.event_attendance a
+  JOIN public.volunteers v ON v.volunteer_id = a.volunteer_id
+  LEFT JOIN public.profiles p ON p.user_id = v.user_id
+  LEFT JOIN public.volunteer_activity_requests r
+    ON r.volunteer_activity_request_id = a.volunteer_activity_request_id
+  WHERE a.event_id = p_event_id
+  ORDER BY (a.checked_out_at IS NULL) DESC, a.checked_in_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_event_attendance(uuid) TO authenticated;